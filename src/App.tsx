@@ -9,8 +9,11 @@ import Login from "./pages/Login";
 import Register from "./pages/Register";
 import Dashboard from "./pages/Dashboard";
 import Leads from "./pages/Leads";
+import LeadDuplicates from "./pages/LeadDuplicates";
+import LeadPipeline from "./pages/LeadPipeline";
 import LinkedInSearch from "./pages/LinkedInSearch";
 import Campaigns from "./pages/Campaigns";
+import Inbox from "./pages/Inbox";
 import Settings from "./pages/Settings";
 import Tags from "./pages/Tags";
 import PlatformAdmin from "./pages/PlatformAdmin";
@@ -31,8 +34,11 @@ const App = () => (
             <Route path="/register" element={<Register />} />
             <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
             <Route path="/leads" element={<ProtectedRoute><Leads /></ProtectedRoute>} />
+            <Route path="/leads/duplicates" element={<ProtectedRoute><LeadDuplicates /></ProtectedRoute>} />
+            <Route path="/leads/pipeline" element={<ProtectedRoute><LeadPipeline /></ProtectedRoute>} />
             <Route path="/linkedin/search" element={<ProtectedRoute><LinkedInSearch /></ProtectedRoute>} />
             <Route path="/campaigns" element={<ProtectedRoute><Campaigns /></ProtectedRoute>} />
+            <Route path="/inbox" element={<ProtectedRoute><Inbox /></ProtectedRoute>} />
             <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
             <Route path="/tags" element={<ProtectedRoute><Tags /></ProtectedRoute>} />
             <Route path="/enrichment-jobs" element={<ProtectedRoute><EnrichmentJobs /></ProtectedRoute>} />
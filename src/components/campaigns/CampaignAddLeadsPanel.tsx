@@ -0,0 +1,100 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ArrowLeft, Loader2, Search, UserPlus } from 'lucide-react';
+import { useLeadsPage } from '@/hooks/useLeadsPage';
+import { EMPTY_LEAD_FILTERS } from '@/lib/leadFilters';
+import { LeadFilters, LeadSort } from '@/types';
+
+interface CampaignAddLeadsPanelProps {
+  campaignId: string;
+  campaignType: 'email' | 'whatsapp' | 'linkedin';
+  isSaving: boolean;
+  onAdd: (leadIds: string[]) => void;
+  onBack: () => void;
+}
+
+const NEWEST_FIRST: LeadSort = { column: 'created_at', ascending: false };
+
+/** Inclui leads numa campanha já lançada: entram como pendentes na fila */
+export function CampaignAddLeadsPanel({ campaignId, campaignType, isSaving, onAdd, onBack }: CampaignAddLeadsPanelProps) {
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Mesmo requisito de contato da criação da campanha; leads já na campanha ficam de fora
+  const filters = useMemo((): LeadFilters => ({
+    ...EMPTY_LEAD_FILTERS,
+    search,
+    channel: campaignType,
+    excludeCampaignId: campaignId,
+  }), [search, campaignType, campaignId]);
+  const { leads: candidates, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useLeadsPage(filters, NEWEST_FIRST);
+
+  function toggle(leadId: string) {
+    const next = new Set(selected);
+    if (next.has(leadId)) next.delete(leadId);
+    else next.add(leadId);
+    setSelected(next);
+  }
+
+  return (
+    <div className="space-y-3 p-1">
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="ghost" size="sm" className="gap-1" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4" />
+          Voltar
+        </Button>
+        <Button size="sm" className="gap-1" disabled={selected.size === 0 || isSaving} onClick={() => onAdd([...selected])}>
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+          Adicionar {selected.size > 0 ? selected.size : ''} {selected.size === 1 ? 'lead' : 'leads'}
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Buscar por nome, empresa ou contato"
+          className="pl-8"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : candidates.length === 0 ? (
+        <div className="py-8 text-center text-sm text-muted-foreground">
+          Nenhum lead disponível com o contato exigido pelo canal.
+        </div>
+      ) : (
+        <div className="rounded-lg border">
+          {candidates.map(lead => (
+            <label
+              key={lead.id}
+              className="flex cursor-pointer items-center gap-3 border-b p-3 last:border-b-0 hover:bg-muted"
+            >
+              <Checkbox checked={selected.has(lead.id)} onCheckedChange={() => toggle(lead.id)} />
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-medium">{lead.full_name || 'Sem nome'}</p>
+                <p className="truncate text-sm text-muted-foreground">
+                  {campaignType === 'email' ? lead.email : campaignType === 'whatsapp' ? lead.mobile_number : lead.linkedin_url}
+                </p>
+              </div>
+            </label>
+          ))}
+          {hasNextPage && (
+            <div className="p-2 text-center">
+              <Button variant="ghost" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                Carregar mais
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { FileText, Mic, Paperclip, Plus, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ATTACHMENT_KIND_LABELS,
+  attachmentAccept,
+  attachmentHint,
+  attachmentKind,
+  CAMPAIGN_ATTACHMENTS_BUCKET,
+  CampaignAttachmentDraft,
+  formatFileSize,
+  validateAttachments,
+} from '@/lib/campaignAttachments';
+
+interface CampaignAttachmentsEditorProps {
+  type: 'email' | 'whatsapp' | 'linkedin';
+  linkedinAction: string | null;
+  attachments: CampaignAttachmentDraft[];
+  onChange: (attachments: CampaignAttachmentDraft[]) => void;
+}
+
+/** URL para exibir o anexo: blob local ou link assinado do Storage */
+function usePreviewUrl(attachment: CampaignAttachmentDraft): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (attachment.file) {
+      const objectUrl = URL.createObjectURL(attachment.file);
+      setUrl(objectUrl);
+      return () => URL.revokeObjectURL(objectUrl);
+    }
+    if (!attachment.path) return;
+
+    let cancelled = false;
+    supabase.storage
+      .from(CAMPAIGN_ATTACHMENTS_BUCKET)
+      .createSignedUrl(attachment.path, 60 * 60)
+      .then(({ data }) => {
+        if (!cancelled) setUrl(data?.signedUrl ?? null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.file, attachment.path]);
+
+  return url;
+}
+
+/** Como o anexo aparece para o lead: imagem, player de áudio ou documento */
+export function CampaignAttachmentPreview({ attachment }: { attachment: CampaignAttachmentDraft }) {
+  const url = usePreviewUrl(attachment);
+  const kind = attachmentKind(attachment.mimeType);
+
+  if (kind === 'image' && url) {
+    return (
+      <img
+        src={url}
+        alt={attachment.fileName}
+        className="max-h-40 rounded-md border object-contain"
+      />
+    );
+  }
+
+  if (kind === 'audio') {
+    return (
+      <div className="flex items-center gap-2 rounded-md border bg-background p-2">
+        <Mic className="h-4 w-4 shrink-0 text-green-600" />
+        {url ? <audio controls src={url} className="h-8 max-w-full" /> : <span className="text-xs">{attachment.fileName}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <a
+      href={url ?? undefined}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-2 rounded-md border bg-background p-2 text-sm hover:bg-muted"
+    >
+      <FileText className="h-4 w-4 shrink-0 text-primary" />
+      <span className="truncate">{attachment.fileName}</span>
+      <span className="shrink-0 text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+    </a>
+  );
+}
+
+export function CampaignAttachmentsEditor({ type, linkedinAction, attachments, onChange }: CampaignAttachmentsEditorProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const accept = attachmentAccept(type, linkedinAction);
+  const hint = attachmentHint(type, linkedinAction);
+  const error = validateAttachments(type, linkedinAction, attachments);
+
+  // Canal sem anexos e nada selecionado: nada a mostrar
+  if (!accept && attachments.length === 0) return null;
+
+  function handleFiles(files: FileList | null) {
+    if (!files) return;
+    const added = Array.from(files).map(file => ({
+      key: crypto.randomUUID(),
+      fileName: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      file,
+    }));
+    onChange([...attachments, ...added]);
+    if (inputRef.current) inputRef.current.value = '';
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <Paperclip className="h-4 w-4" />
+          Anexos (opcional)
+        </Label>
+        {accept && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1"
+            onClick={() => inputRef.current?.click()}
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Adicionar arquivo
+          </Button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={accept}
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </div>
+
+      {hint && (
+        <p className="text-xs text-muted-foreground">
+          {hint}. Enviados junto com a primeira mensagem de cada lead.
+        </p>
+      )}
+
+      {attachments.length > 0 && (
+        <div className="space-y-2">
+          {attachments.map(attachment => {
+            const kind = attachmentKind(attachment.mimeType);
+            return (
+              <div key={attachment.key} className="flex items-start gap-2 rounded-lg border p-2">
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className="truncate font-medium text-foreground">{attachment.fileName}</span>
+                    <span className="shrink-0">
+                      {kind ? ATTACHMENT_KIND_LABELS[kind] : 'Tipo não aceito'} · {formatFileSize(attachment.size)}
+                    </span>
+                  </div>
+                  <CampaignAttachmentPreview attachment={attachment} />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => onChange(attachments.filter(a => a.key !== attachment.key))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
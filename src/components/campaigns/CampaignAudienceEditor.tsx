@@ -0,0 +1,172 @@
+import { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Toggle } from '@/components/ui/toggle';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Users } from 'lucide-react';
+import { useLeadLists } from '@/hooks/useLeadLists';
+import { useLeadsCount } from '@/hooks/useLeadsPage';
+import { useTags } from '@/hooks/useTags';
+import { DEFAULT_AUDIENCE, type AudienceInput, type AudienceTagMatch } from '@/lib/campaignAudience';
+import { EMPTY_LEAD_FILTERS } from '@/lib/leadFilters';
+import { Campaign, LeadFilters } from '@/types';
+
+interface CampaignAudienceEditorProps {
+  value: AudienceInput | null;
+  onChange: (value: AudienceInput | null) => void;
+  channel: Campaign['type'];
+}
+
+export function CampaignAudienceEditor({ value, onChange, channel }: CampaignAudienceEditorProps) {
+  const { lists } = useLeadLists();
+  const { tags } = useTags();
+
+  // Current audience size; leads already contacted are only excluded at enrollment
+  const audienceFilters = useMemo((): LeadFilters | null => {
+    if (!value) return null;
+    if (value.type === 'list') return value.listId ? { ...EMPTY_LEAD_FILTERS, listId: value.listId } : null;
+    const tagIds = value.tagIds || [];
+    return tagIds.length > 0 ? { ...EMPTY_LEAD_FILTERS, tagIds, tagMatch: value.tagMatch || 'any' } : null;
+  }, [value]);
+  const reachableFilters = useMemo(
+    () => (audienceFilters ? { ...audienceFilters, channel } : null),
+    [audienceFilters, channel]
+  );
+  const { count: total } = useLeadsCount(audienceFilters);
+  const { count: reachable } = useLeadsCount(reachableFilters);
+
+  function update(patch: Partial<AudienceInput>) {
+    if (!value) return;
+    onChange({ ...value, ...patch });
+  }
+
+  function toggleTag(tagId: string, pressed: boolean) {
+    const current = value?.tagIds || [];
+    update({ tagIds: pressed ? [...current, tagId] : current.filter(id => id !== tagId) });
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <Checkbox
+          id="audience-enabled"
+          checked={!!value}
+          onCheckedChange={(checked) => onChange(checked === true ? { ...DEFAULT_AUDIENCE } : null)}
+        />
+        <Label htmlFor="audience-enabled" className="flex items-center gap-2 cursor-pointer">
+          <Users className="h-4 w-4" />
+          Campanha dinâmica (lista ou tags)
+        </Label>
+      </div>
+
+      {value && (
+        <div className="space-y-3 pl-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Audiência</Label>
+              <Select value={value.type} onValueChange={(v) => update({ type: v as AudienceInput['type'] })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="list">Lista de leads</SelectItem>
+                  <SelectItem value="tags">Tags</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {value.type === 'list' ? (
+              <div className="space-y-1">
+                <Label className="text-xs">Lista</Label>
+                <Select value={value.listId || ''} onValueChange={(v) => update({ listId: v })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="Selecione uma lista" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {lists.map(list => (
+                      <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <Label className="text-xs">Leads com</Label>
+                <Select value={value.tagMatch || 'any'} onValueChange={(v) => update({ tagMatch: v as AudienceTagMatch })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Qualquer uma das tags</SelectItem>
+                    <SelectItem value="all">Todas as tags</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {value.type === 'tags' && (
+            tags.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Nenhuma tag criada no workspace.</p>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {tags.map(tag => (
+                  <Toggle
+                    key={tag.id}
+                    size="sm"
+                    variant="outline"
+                    className="h-7 gap-1 text-xs"
+                    pressed={(value.tagIds || []).includes(tag.id)}
+                    onPressedChange={(pressed) => toggleTag(tag.id, pressed)}
+                  >
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                  </Toggle>
+                ))}
+              </div>
+            )
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Hoje: {total} lead(s) na audiência, {reachable} com o contato do canal.
+          </p>
+
+          <div className="flex items-center gap-3">
+            <Checkbox
+              id="audience-auto-enroll"
+              checked={value.autoEnroll !== false}
+              onCheckedChange={(checked) => update({ autoEnroll: checked === true })}
+            />
+            <Label htmlFor="audience-auto-enroll" className="text-sm font-normal cursor-pointer">
+              Incluir automaticamente os leads que entrarem na audiência depois do lançamento
+            </Label>
+          </div>
+          <div className="flex items-center gap-3">
+            <Checkbox
+              id="audience-skip-contacted"
+              checked={value.skipContacted !== false}
+              onCheckedChange={(checked) => update({ skipContacted: checked === true })}
+            />
+            <Label htmlFor="audience-skip-contacted" className="text-sm font-normal cursor-pointer">
+              Ignorar leads já contatados por outras campanhas
+            </Label>
+          </div>
+          <div className="flex items-center gap-3">
+            <Label htmlFor="audience-daily-cap" className="text-xs whitespace-nowrap">
+              Novas inclusões por dia
+            </Label>
+            <Input
+              id="audience-daily-cap"
+              type="number"
+              min={1}
+              className="h-8 w-24"
+              placeholder="Sem limite"
+              value={value.dailyCap ?? ''}
+              onChange={(e) => update({ dailyCap: e.target.value ? Number(e.target.value) : null })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, AlertTriangle, CheckCircle, Download, History } from 'lucide-react';
+import { useCampaignDryRun } from '@/hooks/useCampaignDryRun';
+import { Lead } from '@/types';
+import {
+  buildDryRun,
+  buildDryRunCsv,
+  dryRunFileName,
+  DryRunCampaign,
+  summarizeDryRun,
+} from '@/lib/campaignDryRun';
+
+interface CampaignDryRunDialogProps {
+  campaign: DryRunCampaign;
+  campaignName: string;
+  leads: Lead[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type RowFilter = 'all' | 'issues';
+
+// Linhas renderizadas na tabela (o CSV sempre traz todos os leads)
+const VISIBLE_ROWS = 200;
+
+export function CampaignDryRunDialog({ campaign, campaignName, leads, open, onOpenChange }: CampaignDryRunDialogProps) {
+  const { context, isLoading, error } = useCampaignDryRun(leads, open);
+  const [filter, setFilter] = useState<RowFilter>('all');
+
+  const rows = useMemo(
+    () => (context ? buildDryRun(campaign, leads, context) : []),
+    [campaign, leads, context]
+  );
+  const summary = useMemo(() => summarizeDryRun(rows), [rows]);
+  const visibleRows = filter === 'issues' ? rows.filter(row => row.issues.length > 0) : rows;
+
+  function handleDownload() {
+    const blob = new Blob([buildDryRunCsv(campaign, rows)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = dryRunFileName(campaignName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Simulação de envio{campaignName ? `: ${campaignName}` : ''}</DialogTitle>
+          <DialogDescription>
+            Mensagem final de cada lead selecionado. Nada é enviado e o limite diário não é consumido.
+            Variações de spintax e de teste A/B são sorteadas novamente ao criar a campanha.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            Erro ao carregar a simulação: {error instanceof Error ? error.message : 'Tente novamente.'}
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="default" className="gap-1">
+                  <CheckCircle className="h-3 w-3" />
+                  {summary.ready} pronto(s)
+                </Badge>
+                <Badge variant={summary.withErrors > 0 ? 'destructive' : 'outline'} className="gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {summary.withErrors} com erro
+                </Badge>
+                <Badge variant="secondary" className="gap-1">
+                  <History className="h-3 w-3" />
+                  {summary.alreadyContacted} já contatado(s)
+                </Badge>
+              </div>
+              <Select value={filter} onValueChange={(v) => setFilter(v as RowFilter)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos os leads</SelectItem>
+                  <SelectItem value="issues">Com problemas</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <ScrollArea className="h-[55vh]">
+              {isLoading ? (
+                <div className="space-y-2 p-4">
+                  {[...Array(5)].map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : visibleRows.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  {rows.length === 0 ? 'Nenhum lead selecionado.' : 'Nenhum problema encontrado.'}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[180px]">Lead</TableHead>
+                      <TableHead className="w-[180px]">Destino</TableHead>
+                      <TableHead>Mensagem</TableHead>
+                      <TableHead className="w-[200px]">Situação</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.slice(0, VISIBLE_ROWS).map(row => (
+                      <TableRow key={row.lead.id}>
+                        <TableCell className="align-top">
+                          <div className="font-medium">{row.lead.full_name || 'Nome não disponível'}</div>
+                          <div className="text-xs text-muted-foreground">{row.lead.company || '-'}</div>
+                        </TableCell>
+                        <TableCell className="align-top text-xs break-all">{row.recipient || '-'}</TableCell>
+                        <TableCell className="align-top">
+                          {row.subject && <div className="text-xs font-medium mb-1">{row.subject}</div>}
+                          <div className="text-xs whitespace-pre-wrap break-words">{row.message || '-'}</div>
+                        </TableCell>
+                        <TableCell className="align-top">
+                          {row.issues.length === 0 ? (
+                            <Badge variant="outline" className="gap-1">
+                              <CheckCircle className="h-3 w-3" />
+                              Pronto
+                            </Badge>
+                          ) : (
+                            <div className="space-y-1">
+                              {row.issues.map((issue, i) => (
+                                <div
+                                  key={i}
+                                  className={`flex items-start gap-1 text-xs ${issue.level === 'error' ? 'text-destructive' : 'text-amber-600'}`}
+                                >
+                                  {issue.level === 'error'
+                                    ? <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                                    : <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />}
+                                  <span className="break-words">{issue.message}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </ScrollArea>
+
+            {visibleRows.length > VISIBLE_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Mostrando {VISIBLE_ROWS} de {visibleRows.length}. Baixe o CSV para ver todos.
+              </p>
+            )}
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+          <Button onClick={handleDownload} disabled={isLoading || rows.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Baixar CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { AlertCircle, ArrowLeft, CheckCircle, ChevronDown, Info, RefreshCw, XCircle } from 'lucide-react';
+import { useCampaignLeadTimeline } from '@/hooks/useCampaignLeadTimeline';
+import { deliveryDiagnosis, TIMELINE_SOURCE_LABELS, TimelineItem, TimelineTone } from '@/lib/deliveryTimeline';
+import { cn } from '@/lib/utils';
+
+interface CampaignLeadTimelineProps {
+  campaignLeadId: string;
+  leadName: string;
+  onBack: () => void;
+}
+
+const toneIcons: Record<TimelineTone, { icon: React.ElementType; className: string }> = {
+  success: { icon: CheckCircle, className: 'text-green-600' },
+  error: { icon: XCircle, className: 'text-destructive' },
+  info: { icon: Info, className: 'text-muted-foreground' },
+};
+
+function TimelineEntry({ item }: { item: TimelineItem }) {
+  const { icon: Icon, className } = toneIcons[item.tone];
+
+  return (
+    <li className="relative pl-7">
+      <Icon className={cn('absolute left-0 top-0.5 h-4 w-4 bg-background', className)} />
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">{item.label}</span>
+        <Badge variant="outline" className="h-5 px-1.5 text-[10px]">
+          {TIMELINE_SOURCE_LABELS[item.source]}
+        </Badge>
+        <span className="text-xs text-muted-foreground">
+          {format(new Date(item.at), "dd/MM/yyyy HH:mm:ss", { locale: ptBR })}
+        </span>
+      </div>
+      {item.detail && <p className="text-xs text-muted-foreground">{item.detail}</p>}
+      {item.error && <p className="text-xs text-destructive break-words">{item.error}</p>}
+      {item.payload !== null && item.payload !== undefined && (
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button variant="link" size="sm" className="group h-auto gap-1 p-0 text-xs">
+              Ver dados brutos
+              <ChevronDown className="h-3 w-3 transition-transform group-data-[state=open]:rotate-180" />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <pre className="mt-1 max-h-64 overflow-auto rounded-md bg-muted p-2 text-[11px] leading-snug">
+              {JSON.stringify(item.payload, null, 2)}
+            </pre>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </li>
+  );
+}
+
+/** Linha do tempo de entrega de um lead, para responder "por que não recebeu" */
+export function CampaignLeadTimeline({ campaignLeadId, leadName, onBack }: CampaignLeadTimelineProps) {
+  const { campaignLead, attempts, items, isLoading, refetch } = useCampaignLeadTimeline(campaignLeadId);
+  const diagnosis = campaignLead ? deliveryDiagnosis(campaignLead, attempts) : null;
+  const failedAttempts = attempts.filter(attempt => attempt.outcome !== 'sent').length;
+
+  return (
+    <div className="space-y-4 p-1">
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="ghost" size="sm" onClick={onBack} className="gap-1">
+          <ArrowLeft className="h-4 w-4" />
+          Voltar
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => refetch()} className="gap-1">
+          <RefreshCw className="h-4 w-4" />
+          Atualizar
+        </Button>
+      </div>
+
+      <div>
+        <div className="font-medium">{leadName}</div>
+        {campaignLead && (
+          <div className="text-xs text-muted-foreground">
+            {attempts.length} tentativa(s) registrada(s) · {failedAttempts} com falha · retry_count atual: {campaignLead.retry_count}
+          </div>
+        )}
+      </div>
+
+      {diagnosis && (
+        <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+          <span className="break-words">{diagnosis}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          Nenhum registro para este lead.
+        </div>
+      ) : (
+        <ol className="space-y-4 border-l border-border ml-2 pl-0 [&>li]:-ml-2">
+          {items.map(item => (
+            <TimelineEntry key={item.id} item={item} />
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,28 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
-import { AlertCircle, CheckCircle, Clock, XCircle } from 'lucide-react';
+import { useCampaignControl } from '@/hooks/useCampaignControl';
+import { useToast } from '@/hooks/use-toast';
+import { SKIP_REASON_LABELS } from '@/lib/suppression';
+import { Campaign } from '@/types';
+import { AlertCircle, CheckCircle, Clock, History, MessageSquare, Trash2, UserPlus, XCircle } from 'lucide-react';
+import { CampaignLeadTimeline } from './CampaignLeadTimeline';
+import { CampaignAddLeadsPanel } from './CampaignAddLeadsPanel';
 
 interface CampaignLead {
   id: string;
+  lead_id: string;
   status: string;
   error: string | null;
+  skip_reason: string | null;
   sent_at: string | null;
+  retry_count: number;
+  message_version: number | null;
   lead: {
     full_name: string | null;
     email: string | null;
@@ -23,27 +34,82 @@ interface CampaignLead {
 interface CampaignLeadsDialogProps {
   campaignId: string | null;
   campaignName: string;
+  campaignType?: Campaign['type'];
+  campaignStatus?: Campaign['status'];
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
+// Leads can be added or removed until the campaign ends
+const EDITABLE_STATUSES: Campaign['status'][] = ['draft', 'scheduled', 'queued', 'sending', 'running', 'paused', 'partial'];
+
 const statusConfig: Record<string, { label: string; icon: React.ElementType; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
   pending: { label: 'Pendente', icon: Clock, variant: 'outline' },
   sent: { label: 'Enviado', icon: CheckCircle, variant: 'default' },
   failed: { label: 'Falhou', icon: XCircle, variant: 'destructive' },
   bounced: { label: 'Rejeitado', icon: AlertCircle, variant: 'destructive' },
+  skipped: { label: 'Pulado', icon: MessageSquare, variant: 'secondary' },
 };
 
-export function CampaignLeadsDialog({ campaignId, campaignName, open, onOpenChange }: CampaignLeadsDialogProps) {
+export function CampaignLeadsDialog({ campaignId, campaignName, campaignType, campaignStatus, open, onOpenChange }: CampaignLeadsDialogProps) {
   const [leads, setLeads] = useState<CampaignLead[]>([]);
   const [loading, setLoading] = useState(false);
+  const [timelineLead, setTimelineLead] = useState<CampaignLead | null>(null);
+  const [addingLeads, setAddingLeads] = useState(false);
+  const { updateCampaignLeads, isUpdatingLeads } = useCampaignControl();
+  const { toast } = useToast();
+  const canEditLeads = !!campaignType && !!campaignStatus && EDITABLE_STATUSES.includes(campaignStatus);
+  const hasVersions = leads.some(cl => (cl.message_version ?? 1) > 1);
 
   useEffect(() => {
     if (open && campaignId) {
       fetchLeads();
     }
+    setTimelineLead(null);
+    setAddingLeads(false);
   }, [open, campaignId]);
 
+  async function handleAddLeads(leadIds: string[]) {
+    if (!campaignId) return;
+    try {
+      const result = await updateCampaignLeads({ campaignId, addLeadIds: leadIds });
+      let description = `${result.addedCount} leads adicionados`;
+      if (result.suppressedCount > 0) description += `, ${result.suppressedCount} na lista de não contatar`;
+      if (result.invalidCount > 0) description += `, ${result.invalidCount} sem o contato do canal`;
+      if (result.replanned) description += '. A fila foi recalculada com os novos leads.';
+      else if (result.replanError) description += `. A fila não foi recalculada (${result.replanError}).`;
+      toast({ title: 'Leads adicionados', description });
+      setAddingLeads(false);
+      fetchLeads();
+    } catch (error) {
+      toast({
+        title: 'Erro ao adicionar leads',
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  async function handleRemoveLead(cl: CampaignLead) {
+    if (!campaignId) return;
+    try {
+      const result = await updateCampaignLeads({ campaignId, removeCampaignLeadIds: [cl.id] });
+      toast({
+        title: result.removedCount > 0 ? 'Lead removido' : 'Lead não removido',
+        description: result.removedCount > 0
+          ? `${cl.lead?.full_name || 'O lead'} não receberá mensagens desta campanha.`
+          : 'A mensagem já foi enviada para este lead.',
+      });
+      fetchLeads();
+    } catch (error) {
+      toast({
+        title: 'Erro ao remover lead',
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: 'destructive',
+      });
+    }
+  }
+
   async function fetchLeads() {
     if (!campaignId) return;
     
@@ -53,9 +119,13 @@ export function CampaignLeadsDialog({ campaignId, campaignName, open, onOpenChan
         .from('campaign_leads')
         .select(`
           id,
+          lead_id,
           status,
           error,
+          skip_reason,
           sent_at,
+          retry_count,
+          message_version,
           lead:leads (
             full_name,
             email,
@@ -78,12 +148,32 @@ export function CampaignLeadsDialog({ campaignId, campaignName, open, onOpenChan
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-3xl max-h-[80vh]">
-        <DialogHeader>
+        <DialogHeader className="flex-row items-center justify-between space-y-0 pr-8">
           <DialogTitle>Leads da Campanha: {campaignName}</DialogTitle>
+          {canEditLeads && !addingLeads && !timelineLead && (
+            <Button size="sm" variant="outline" className="gap-1" onClick={() => setAddingLeads(true)}>
+              <UserPlus className="h-4 w-4" />
+              Adicionar leads
+            </Button>
+          )}
         </DialogHeader>
 
         <ScrollArea className="h-[60vh]">
-          {loading ? (
+          {addingLeads && campaignId && campaignType ? (
+            <CampaignAddLeadsPanel
+              campaignId={campaignId}
+              campaignType={campaignType}
+              isSaving={isUpdatingLeads}
+              onAdd={handleAddLeads}
+              onBack={() => setAddingLeads(false)}
+            />
+          ) : timelineLead ? (
+            <CampaignLeadTimeline
+              campaignLeadId={timelineLead.id}
+              leadName={timelineLead.lead?.full_name || 'Nome não disponível'}
+              onBack={() => setTimelineLead(null)}
+            />
+          ) : loading ? (
             <div className="space-y-2 p-4">
               {[...Array(5)].map((_, i) => (
                 <Skeleton key={i} className="h-12 w-full" />
@@ -100,6 +190,9 @@ export function CampaignLeadsDialog({ campaignId, campaignName, open, onOpenChan
                   <TableHead>Lead</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead className="w-[300px]">Erro</TableHead>
+                  {hasVersions && <TableHead>Versão</TableHead>}
+                  <TableHead className="text-right">Falhas</TableHead>
+                  <TableHead className={canEditLeads ? 'w-[90px]' : 'w-[50px]'} />
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -130,10 +223,45 @@ export function CampaignLeadsDialog({ campaignId, campaignName, open, onOpenChan
                           <div className="text-xs text-destructive max-w-[300px] break-words">
                             {cl.error}
                           </div>
+                        ) : cl.status === 'skipped' && cl.skip_reason ? (
+                          <div className="text-xs text-muted-foreground max-w-[300px] break-words">
+                            {SKIP_REASON_LABELS[cl.skip_reason] || cl.skip_reason}
+                          </div>
                         ) : (
                           <span className="text-muted-foreground text-xs">-</span>
                         )}
                       </TableCell>
+                      {hasVersions && (
+                        <TableCell className="text-sm text-muted-foreground">
+                          {cl.message_version ? `v${cl.message_version}` : '-'}
+                        </TableCell>
+                      )}
+                      <TableCell className="text-right text-sm">{cl.retry_count}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Linha do tempo de entrega"
+                            onClick={() => setTimelineLead(cl)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                          {canEditLeads && cl.status === 'pending' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                              title="Remover da campanha"
+                              disabled={isUpdatingLeads}
+                              onClick={() => handleRemoveLead(cl)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
                     </TableRow>
                   );
                 })}
@@ -1,5 +1,10 @@
 import { useState, useMemo } from 'react';
 import { useCampaignReport, CampaignLeadDetail } from '@/hooks/useCampaignReport';
+import { useCampaignStepStats } from '@/hooks/useCampaignSteps';
+import { useCampaignVariantStats } from '@/hooks/useCampaignVariants';
+import { getVariantRates, getVariantSignificance } from '@/lib/campaignVariants';
+import { useToast } from '@/hooks/use-toast';
+import { CampaignStepFunnel } from '@/components/campaigns/CampaignStepFunnel';
 import {
   Dialog,
   DialogContent,
@@ -20,17 +25,23 @@ import {
   CheckCheck,
   Eye,
   MessageCircle,
+  ThumbsUp,
   XCircle,
   Clock,
   RefreshCw,
   Download,
   Filter,
   FileText,
+  Split,
+  Trophy,
+  Ban,
 } from 'lucide-react';
 import { format, formatDistanceToNow, parseISO, startOfHour } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { exportCampaignReportPDF } from '@/lib/pdfExport';
+import { SKIP_REASON_LABELS } from '@/lib/suppression';
+import { REPLY_INTENT_COLORS, REPLY_INTENT_LABELS, REPLY_INTENTS, replyIntentLabel } from '@/lib/replyIntent';
 
 interface CampaignReportDialogProps {
   campaignId: string | null;
@@ -51,9 +62,10 @@ const statusConfig: Record<string, {
   seen: { label: 'Visualizado', icon: Eye, color: 'text-purple-600', bgColor: 'bg-purple-100' },
   replied: { label: 'Respondido', icon: MessageCircle, color: 'text-emerald-600', bgColor: 'bg-emerald-100' },
   failed: { label: 'Falhou', icon: XCircle, color: 'text-destructive', bgColor: 'bg-destructive/10' },
+  skipped: { label: 'Pulado', icon: Ban, color: 'text-muted-foreground', bgColor: 'bg-muted' },
 };
 
-const allStatuses = ['all', 'pending', 'sent', 'delivered', 'seen', 'replied', 'failed'];
+const allStatuses = ['all', 'pending', 'sent', 'delivered', 'seen', 'replied', 'failed', 'skipped'];
 
 export function CampaignReportDialog({
   campaignId,
@@ -61,9 +73,29 @@ export function CampaignReportDialog({
   open,
   onOpenChange,
 }: CampaignReportDialogProps) {
-  const { campaign, leads, events, statusDistribution, isLoading, refetch } = useCampaignReport(
-    open ? campaignId : null
+  const {
+    campaign,
+    leads,
+    events,
+    statusDistribution,
+    skippedByReason,
+    repliesByIntent,
+    positiveReplies,
+    positiveReplyRate,
+    isLoading,
+    refetch,
+  } = useCampaignReport(open ? campaignId : null);
+  const stepStatsIds = useMemo(() => (open && campaignId ? [campaignId] : []), [open, campaignId]);
+  const { stepStatsByCampaign } = useCampaignStepStats(stepStatsIds);
+  const stepStats = campaignId ? stepStatsByCampaign[campaignId] || [] : [];
+  const { variantStatsByCampaign, promoteVariant, isPromoting } = useCampaignVariantStats(stepStatsIds);
+  const variantStats = useMemo(
+    () => (campaignId ? variantStatsByCampaign[campaignId] || [] : []),
+    [campaignId, variantStatsByCampaign]
   );
+  const variantSignificance = useMemo(() => getVariantSignificance(variantStats), [variantStats]);
+  const hasWinner = variantStats.some(v => v.is_winner);
+  const { toast } = useToast();
 
   const [activeTab, setActiveTab] = useState('overview');
   const [statusFilter, setStatusFilter] = useState('all');
@@ -110,6 +142,23 @@ export function CampaignReportDialog({
     };
   }, [leads]);
 
+  async function handlePromoteVariant(variantId: string, label: string) {
+    if (!campaignId) return;
+    try {
+      await promoteVariant({ campaignId, variantId });
+      toast({
+        title: `Variante ${label} promovida`,
+        description: 'Os leads ainda não contatados receberão esta mensagem.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao promover variante',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
   // Format milliseconds to human readable string
   function formatDuration(ms: number | null): string {
     if (ms === null) return '-';
@@ -167,7 +216,10 @@ export function CampaignReportDialog({
       'Entregue em',
       'Visualizado em',
       'Respondido em',
+      'Intenção da resposta',
       'Erro',
+      'Motivo do pulo',
+      ...(variantStats.length > 1 ? ['Variante'] : []),
     ];
 
     const rows = leads.map(lead => [
@@ -181,7 +233,10 @@ export function CampaignReportDialog({
       lead.delivered_at ? format(new Date(lead.delivered_at), 'dd/MM/yyyy HH:mm', { locale: ptBR }) : '',
       lead.seen_at ? format(new Date(lead.seen_at), 'dd/MM/yyyy HH:mm', { locale: ptBR }) : '',
       lead.replied_at ? format(new Date(lead.replied_at), 'dd/MM/yyyy HH:mm', { locale: ptBR }) : '',
+      lead.replied_at ? replyIntentLabel(lead.reply_intent || 'unclassified') : '',
       lead.error || '',
+      lead.skip_reason ? SKIP_REASON_LABELS[lead.skip_reason] || lead.skip_reason : '',
+      ...(variantStats.length > 1 ? [variantStats.find(v => v.variant_id === lead.variant_id)?.label || ''] : []),
     ]);
 
     const csvContent = [
@@ -219,7 +274,7 @@ export function CampaignReportDialog({
               <Button 
                 variant="outline" 
                 size="sm" 
-                onClick={() => campaign && leads && exportCampaignReportPDF({ campaign, leads })} 
+                onClick={() => campaign && leads && exportCampaignReportPDF({ campaign, leads, variants: variantStats })} 
                 disabled={!campaign || !leads?.length}
               >
                 <FileText className="h-4 w-4 mr-1" />
@@ -253,7 +308,7 @@ export function CampaignReportDialog({
               ) : campaign ? (
                 <div className="space-y-6">
                   {/* KPI Cards */}
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
                     <MetricCard
                       title="Enviados"
                       value={campaign.sent_count}
@@ -281,10 +336,43 @@ export function CampaignReportDialog({
                       rate={campaign.reply_rate}
                       icon={MessageCircle}
                       color="text-emerald-600"
+                    />
+                    <MetricCard
+                      title="Positivas"
+                      value={positiveReplies}
+                      rate={positiveReplyRate}
+                      icon={ThumbsUp}
+                      color="text-emerald-700"
                       highlight
                     />
                   </div>
 
+                  {/* Replies per intent */}
+                  {Object.keys(repliesByIntent).length > 0 && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-base">Intenção das respostas</CardTitle>
+                        <CardDescription>
+                          Taxa de resposta positiva de {positiveReplyRate.toFixed(1)}% (interessados) contra{' '}
+                          {campaign.reply_rate.toFixed(1)}% de respostas no total
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="flex flex-wrap gap-2">
+                          {REPLY_INTENTS.filter(intent => repliesByIntent[intent]).map(intent => (
+                            <span
+                              key={intent}
+                              className={`inline-flex items-center gap-1.5 rounded-full px-3 py-1 text-sm ${REPLY_INTENT_COLORS[intent]}`}
+                            >
+                              {REPLY_INTENT_LABELS[intent]}
+                              <span className="font-semibold">{repliesByIntent[intent]}</span>
+                            </span>
+                          ))}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  )}
+
                   {/* Time Metrics */}
                   {timeMetrics && (timeMetrics.avgTimeToSeen !== null || timeMetrics.avgTimeToReply !== null) && (
                     <Card>
@@ -357,6 +445,126 @@ export function CampaignReportDialog({
                     </CardContent>
                   </Card>
 
+                  {/* Skipped leads per reason */}
+                  {Object.keys(skippedByReason).length > 0 && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-base flex items-center gap-2">
+                          <Ban className="h-4 w-4" />
+                          Leads pulados
+                        </CardTitle>
+                        <CardDescription>Leads que não foram contatados por esta campanha e o motivo</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="divide-y rounded-md border">
+                          {Object.entries(skippedByReason)
+                            .sort(([, a], [, b]) => b - a)
+                            .map(([reason, count]) => (
+                              <div key={reason} className="flex items-center justify-between px-3 py-2 text-sm">
+                                <span>{SKIP_REASON_LABELS[reason] || reason}</span>
+                                <Badge variant="secondary">{count}</Badge>
+                              </div>
+                            ))}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  {/* Per-step funnel (multi-step sequences) */}
+                  {stepStats.length > 1 && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-base">Funil por Etapa</CardTitle>
+                        <CardDescription>Envios, aceites e respostas em cada etapa da sequência</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <CampaignStepFunnel steps={stepStats} totalLeads={campaign.leads_count} />
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  {/* A/B variants */}
+                  {variantStats.length > 1 && (
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-base flex items-center gap-2">
+                          <Split className="h-4 w-4" />
+                          Teste A/B
+                        </CardTitle>
+                        <CardDescription>
+                          {variantSignificance
+                            ? (
+                              <span className="flex items-center gap-2">
+                                Variante {variantStats.find(v => v.variant_id === variantSignificance.leaderId)?.label} lidera em respostas
+                                <Badge variant={variantSignificance.significant ? 'default' : 'outline'} className="text-xs">
+                                  {variantSignificance.significant ? 'Significativo' : 'Não significativo'} · {(variantSignificance.confidence * 100).toFixed(0)}% de confiança
+                                </Badge>
+                              </span>
+                            )
+                            : 'Envios insuficientes para comparar as variantes'}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Variante</TableHead>
+                              <TableHead className="text-right">Enviados</TableHead>
+                              <TableHead className="text-right">Entregues</TableHead>
+                              <TableHead className="text-right">Visualizados</TableHead>
+                              <TableHead className="text-right">Respondidos</TableHead>
+                              {!hasWinner && <TableHead />}
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {variantStats.map((variant) => {
+                              const rates = getVariantRates(variant);
+                              return (
+                                <TableRow key={variant.variant_id}>
+                                  <TableCell>
+                                    <div className="flex items-center gap-2">
+                                      <Badge variant="secondary">{variant.label}</Badge>
+                                      {variant.is_winner && (
+                                        <Badge className="gap-1 text-xs">
+                                          <Trophy className="h-3 w-3" />
+                                          Vencedora
+                                        </Badge>
+                                      )}
+                                    </div>
+                                    <p className="text-xs text-muted-foreground mt-1 max-w-[220px] truncate" title={variant.message}>
+                                      {variant.subject ? `${variant.subject} — ` : ''}{variant.message || '(sem nota)'}
+                                    </p>
+                                  </TableCell>
+                                  <TableCell className="text-right">{variant.sent_count}/{variant.leads_count}</TableCell>
+                                  <TableCell className="text-right">{rates.deliveryRate.toFixed(1)}%</TableCell>
+                                  <TableCell className="text-right">{rates.openRate.toFixed(1)}%</TableCell>
+                                  <TableCell className="text-right font-medium">{rates.replyRate.toFixed(1)}%</TableCell>
+                                  {!hasWinner && (
+                                    <TableCell className="text-right">
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        disabled={isPromoting}
+                                        onClick={() => handlePromoteVariant(variant.variant_id, variant.label)}
+                                      >
+                                        Promover
+                                      </Button>
+                                    </TableCell>
+                                  )}
+                                </TableRow>
+                              );
+                            })}
+                          </TableBody>
+                        </Table>
+                        {campaign.variant_promote_after && !hasWinner && (
+                          <p className="text-xs text-muted-foreground mt-3">
+                            A variante com maior taxa de resposta será promovida automaticamente após {campaign.variant_promote_after} envios.
+                          </p>
+                        )}
+                      </CardContent>
+                    </Card>
+                  )}
+
                   {/* Timeline Chart */}
                   {chartData.length > 0 && (
                     <Card>
@@ -521,6 +729,11 @@ export function CampaignReportDialog({
                             <div className="flex items-center gap-1.5">
                               <Icon className={`h-3.5 w-3.5 ${config.color}`} />
                               <span className="text-sm">{config.label}</span>
+                              {lead.replied_at && lead.reply_intent && (
+                                <span className={`rounded-full px-2 py-0.5 text-[11px] ${REPLY_INTENT_COLORS[lead.reply_intent]}`}>
+                                  {REPLY_INTENT_LABELS[lead.reply_intent]}
+                                </span>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell className="text-sm text-muted-foreground">
@@ -0,0 +1,47 @@
+import { Progress } from '@/components/ui/progress';
+import { CampaignStepStats } from '@/types';
+import { stepActionLabels, stepConditionLabels } from '@/lib/campaignSteps';
+
+interface CampaignStepFunnelProps {
+  steps: CampaignStepStats[];
+  totalLeads: number;
+  compact?: boolean;
+}
+
+export function CampaignStepFunnel({ steps, totalLeads, compact = false }: CampaignStepFunnelProps) {
+  if (steps.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {steps.map((step) => {
+        const sentPct = totalLeads > 0 ? (step.sent_count / totalLeads) * 100 : 0;
+        const replyPct = step.sent_count > 0 ? (step.replied_count / step.sent_count) * 100 : 0;
+
+        return (
+          <div key={step.step_order} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">
+                Etapa {step.step_order} · {stepActionLabels[step.action] || step.action}
+              </span>
+              <span className="text-muted-foreground">
+                {step.sent_count} enviados ({sentPct.toFixed(0)}%)
+              </span>
+            </div>
+            <Progress value={sentPct} className="h-2" />
+            <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+              {step.step_order > 1 && !compact && (
+                <span>
+                  {stepConditionLabels[step.condition]} · {step.delay_days}d
+                </span>
+              )}
+              {step.action === 'invite' && <span>{step.accepted_count} aceitos</span>}
+              <span>{step.replied_count} respostas ({replyPct.toFixed(1)}%)</span>
+              {step.waiting_count > 0 && <span>{step.waiting_count} aguardando</span>}
+              {step.stopped_count > 0 && <span>{step.stopped_count} encerrados</span>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { LayoutTemplate, Linkedin, Mail, MessageCircle, Paperclip, Search, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useCampaignTemplates } from '@/hooks/useCampaignTemplates';
+import { useWorkspaceMembers } from '@/hooks/useWorkspaceMembers';
+import { describeSendingWindow } from '@/lib/sendingWindow';
+import { CampaignTemplateWithStats } from '@/types';
+
+interface CampaignTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUseTemplate: (template: CampaignTemplateWithStats) => void;
+}
+
+const typeIcons: Record<string, React.ElementType> = {
+  email: Mail,
+  whatsapp: MessageCircle,
+  linkedin: Linkedin,
+};
+
+const typeLabels: Record<string, string> = {
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  linkedin: 'LinkedIn',
+};
+
+const linkedInActionLabels: Record<string, string> = {
+  dm: 'Mensagem (DM)',
+  inmail: 'InMail',
+  invite: 'Convite',
+};
+
+function percent(part: number, total: number): string {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : '-';
+}
+
+/** Galeria de templates: cria campanhas a partir de um template e mostra o desempenho somado */
+export function CampaignTemplatesDialog({ open, onOpenChange, onUseTemplate }: CampaignTemplatesDialogProps) {
+  const { user } = useAuth();
+  const { members } = useWorkspaceMembers();
+  const { templates, isLoading, deleteTemplate } = useCampaignTemplates();
+  const { toast } = useToast();
+  const [search, setSearch] = useState('');
+
+  const isAdmin = members.find(m => m.user_id === user?.id)?.role === 'admin';
+
+  const filteredTemplates = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return templates;
+    return templates.filter(template =>
+      [template.name, template.description, template.message]
+        .some(value => value?.toLowerCase().includes(term))
+    );
+  }, [templates, search]);
+
+  async function handleDelete(template: CampaignTemplateWithStats) {
+    try {
+      await deleteTemplate(template.id);
+      toast({
+        title: 'Template excluído',
+        description: template.campaigns_count > 0
+          ? `As ${template.campaigns_count} campanhas criadas com "${template.name}" foram mantidas.`
+          : `"${template.name}" foi removido da galeria.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao excluir template',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="h-5 w-5" />
+            Templates de campanha
+          </DialogTitle>
+          <DialogDescription>
+            Configurações salvas pelo workspace. Escolha um template e selecione os leads da nova campanha.
+          </DialogDescription>
+        </DialogHeader>
+
+        {templates.length > 0 && (
+          <div className="relative max-w-xs">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar templates..."
+              className="pl-8"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {[1, 2].map(i => <Skeleton key={i} className="h-40 w-full" />)}
+          </div>
+        ) : filteredTemplates.length === 0 ? (
+          <div className="py-10 text-center text-sm text-muted-foreground">
+            {templates.length === 0
+              ? 'Nenhum template salvo. Use "Salvar como template" em uma campanha da lista.'
+              : 'Nenhum template encontrado.'}
+          </div>
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {filteredTemplates.map(template => {
+              const TypeIcon = typeIcons[template.type] || Mail;
+              const windowSummary = describeSendingWindow(template);
+              const canDelete = isAdmin || template.created_by === user?.id;
+              return (
+                <div key={template.id} className="flex flex-col gap-3 rounded-lg border p-4">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0 space-y-1">
+                      <p className="truncate font-medium">{template.name}</p>
+                      <div className="flex flex-wrap items-center gap-1">
+                        <Badge variant="outline" className="gap-1 text-xs">
+                          <TypeIcon className="h-3 w-3" />
+                          {typeLabels[template.type]}
+                          {template.type === 'linkedin' && template.linkedin_action && ` · ${linkedInActionLabels[template.linkedin_action]}`}
+                        </Badge>
+                        {template.steps.length > 0 && (
+                          <Badge variant="secondary" className="text-xs">{template.steps.length + 1} etapas</Badge>
+                        )}
+                        {template.variants.length > 0 && (
+                          <Badge variant="secondary" className="text-xs">A/B · {template.variants.length + 1} variantes</Badge>
+                        )}
+                        {template.attachments.length > 0 && (
+                          <Badge variant="secondary" className="gap-1 text-xs">
+                            <Paperclip className="h-3 w-3" />
+                            {template.attachments.length}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    {canDelete && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 flex-shrink-0 text-muted-foreground hover:text-destructive"
+                        title="Excluir template"
+                        onClick={() => handleDelete(template)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+
+                  {template.description && (
+                    <p className="text-sm text-muted-foreground">{template.description}</p>
+                  )}
+                  <p className="line-clamp-3 whitespace-pre-wrap rounded bg-muted/50 p-2 text-xs">
+                    {template.message || 'Convite sem nota'}
+                  </p>
+                  {windowSummary && (
+                    <p className="text-xs text-muted-foreground">Janela: {windowSummary}</p>
+                  )}
+
+                  <div className="grid grid-cols-4 gap-2 text-center">
+                    <div>
+                      <p className="text-sm font-semibold">{template.campaigns_count}</p>
+                      <p className="text-xs text-muted-foreground">campanhas</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-semibold">{template.sent_count}</p>
+                      <p className="text-xs text-muted-foreground">enviados</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-semibold">{percent(template.replied_count, template.sent_count)}</p>
+                      <p className="text-xs text-muted-foreground">resposta</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-semibold">{percent(template.failed_count, template.leads_count)}</p>
+                      <p className="text-xs text-muted-foreground">falhas</p>
+                    </div>
+                  </div>
+
+                  <div className="mt-auto flex items-center justify-between gap-2">
+                    <span className="text-xs text-muted-foreground">
+                      {template.last_used_at
+                        ? `Usado em ${format(new Date(template.last_used_at), 'dd/MM/yyyy', { locale: ptBR })}`
+                        : 'Ainda não usado'}
+                    </span>
+                    <Button size="sm" onClick={() => onUseTemplate(template)}>
+                      Usar template
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
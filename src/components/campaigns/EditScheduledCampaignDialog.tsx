@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Campaign } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,9 +14,13 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { Calendar, Loader2, Save } from 'lucide-react';
+import { Calendar, History, Loader2, Save } from 'lucide-react';
 import { format, setHours, setMinutes } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { SnippetPicker } from '@/components/snippets/SnippetPicker';
+import { useSnippets } from '@/hooks/useSnippets';
+import { useCampaignMessageVersions } from '@/hooks/useCampaignControl';
+import { insertVariable } from '@/lib/messageVariables';
 
 interface EditScheduledCampaignDialogProps {
   campaign: Campaign | null;
@@ -37,9 +41,16 @@ export function EditScheduledCampaignDialog({
   const [scheduleDate, setScheduleDate] = useState<Date | undefined>(undefined);
   const [scheduleTime, setScheduleTime] = useState('09:00');
   const [isSaving, setIsSaving] = useState(false);
+  const [usedSnippetIds, setUsedSnippetIds] = useState<Set<string>>(new Set());
+  const messageRef = useRef<HTMLTextAreaElement>(null);
+  const { recordUsage } = useSnippets();
+  // Campanha já lançada: só a mensagem dos leads ainda não enviados muda, sem reagendar
+  const launched = !!campaign && campaign.status !== 'scheduled' && campaign.status !== 'draft';
+  const { versions } = useCampaignMessageVersions(open && launched ? campaign.id : null);
 
   useEffect(() => {
     if (campaign) {
+      setUsedSnippetIds(new Set());
       setName(campaign.name);
       setMessage(campaign.message);
       setSubject(campaign.subject || '');
@@ -51,13 +62,25 @@ export function EditScheduledCampaignDialog({
     }
   }, [campaign]);
 
+  function insertSnippet(snippet: { id: string; body: string }) {
+    const textarea = messageRef.current;
+    const cursor = textarea?.selectionStart ?? message.length;
+    const { newText, newCursorPosition } = insertVariable(message, snippet.body, cursor);
+    setMessage(newText);
+    setUsedSnippetIds(prev => new Set(prev).add(snippet.id));
+    setTimeout(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(newCursorPosition, newCursorPosition);
+    }, 0);
+  }
+
   async function handleSave() {
     if (!campaign) return;
 
     setIsSaving(true);
     try {
       let scheduleISO: string | undefined;
-      if (scheduleDate) {
+      if (scheduleDate && !launched) {
         const [hours, minutes] = scheduleTime.split(':').map(Number);
         const scheduleDatetime = setMinutes(setHours(scheduleDate, hours), minutes);
         scheduleISO = scheduleDatetime.toISOString();
@@ -69,6 +92,10 @@ export function EditScheduledCampaignDialog({
         subject: subject !== campaign.subject ? subject : undefined,
         schedule: scheduleISO,
       });
+      if (usedSnippetIds.size > 0 && message !== campaign.message) {
+        recordUsage({ snippetIds: [...usedSnippetIds], context: 'campaign', campaignId: campaign.id })
+          .catch(() => undefined);
+      }
       onOpenChange(false);
     } finally {
       setIsSaving(false);
@@ -81,9 +108,11 @@ export function EditScheduledCampaignDialog({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-lg">
         <DialogHeader>
-          <DialogTitle>Editar Campanha Agendada</DialogTitle>
+          <DialogTitle>{launched ? 'Editar Campanha em Andamento' : 'Editar Campanha Agendada'}</DialogTitle>
           <DialogDescription>
-            Modifique os detalhes da campanha antes do envio
+            {launched
+              ? 'A nova mensagem vale apenas para os leads que ainda não a receberam'
+              : 'Modifique os detalhes da campanha antes do envio'}
           </DialogDescription>
         </DialogHeader>
 
@@ -109,52 +138,85 @@ export function EditScheduledCampaignDialog({
           )}
 
           <div className="space-y-2">
-            <Label htmlFor="edit-message">Mensagem</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="edit-message">Mensagem</Label>
+              <SnippetPicker channel={campaign.type} onSelect={insertSnippet} />
+            </div>
             <Textarea
               id="edit-message"
+              ref={messageRef}
               rows={4}
               value={message}
               onChange={(e) => setMessage(e.target.value)}
             />
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label>Data do envio</Label>
-              <Popover>
-                <PopoverTrigger asChild>
-                  <Button
-                    variant="outline"
-                    className="w-full justify-start text-left font-normal"
-                  >
-                    <Calendar className="mr-2 h-4 w-4" />
-                    {scheduleDate ? format(scheduleDate, 'dd/MM/yyyy', { locale: ptBR }) : 'Selecionar'}
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-auto p-0" align="start">
-                  <CalendarComponent
-                    mode="single"
-                    selected={scheduleDate}
-                    onSelect={setScheduleDate}
-                    disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
-                    initialFocus
+          {launched ? (
+            versions.length > 0 && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  Versões da mensagem
+                </Label>
+                <div className="max-h-40 space-y-2 overflow-y-auto rounded-lg border p-2">
+                  {versions.map(version => (
+                    <div key={version.id} className="space-y-0.5 text-xs">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">
+                          v{version.version}
+                          {version.version === campaign.message_version && ' (atual)'}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {version.sentCount} {version.sentCount === 1 ? 'lead' : 'leads'} · {format(new Date(version.created_at), "dd/MM 'às' HH:mm", { locale: ptBR })}
+                        </span>
+                      </div>
+                      <p className="line-clamp-2 text-muted-foreground">{version.message}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Data do envio</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className="w-full justify-start text-left font-normal"
+                      >
+                        <Calendar className="mr-2 h-4 w-4" />
+                        {scheduleDate ? format(scheduleDate, 'dd/MM/yyyy', { locale: ptBR }) : 'Selecionar'}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <CalendarComponent
+                        mode="single"
+                        selected={scheduleDate}
+                        onSelect={setScheduleDate}
+                        disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-time">Horário</Label>
+                  <Input
+                    id="edit-time"
+                    type="time"
+                    value={scheduleTime}
+                    onChange={(e) => setScheduleTime(e.target.value)}
                   />
-                </PopoverContent>
-              </Popover>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="edit-time">Horário</Label>
-              <Input
-                id="edit-time"
-                type="time"
-                value={scheduleTime}
-                onChange={(e) => setScheduleTime(e.target.value)}
-              />
-            </div>
-          </div>
-          <p className="text-xs text-muted-foreground">
-            Fuso horário: {Intl.DateTimeFormat().resolvedOptions().timeZone}
-          </p>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Fuso horário: {Intl.DateTimeFormat().resolvedOptions().timeZone}
+              </p>
+            </>
+          )}
         </div>
 
         <DialogFooter>
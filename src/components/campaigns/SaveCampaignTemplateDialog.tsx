@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCampaignTemplates } from '@/hooks/useCampaignTemplates';
+import { Campaign } from '@/types';
+
+interface SaveCampaignTemplateDialogProps {
+  campaign: Campaign | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Salva a configuração da campanha (sem leads e sem data de agendamento) na galeria */
+export function SaveCampaignTemplateDialog({ campaign, onOpenChange }: SaveCampaignTemplateDialogProps) {
+  const { saveAsTemplate, isSaving } = useCampaignTemplates();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+
+  useEffect(() => {
+    if (campaign) {
+      setName(campaign.name);
+      setDescription('');
+    }
+  }, [campaign]);
+
+  async function handleSave() {
+    if (!campaign) return;
+    try {
+      const template = await saveAsTemplate({ campaign, name, description });
+      toast({
+        title: 'Template salvo',
+        description: `"${template.name}" está disponível na galeria de templates.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar template',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Salvar como template</DialogTitle>
+          <DialogDescription>
+            Mensagem, assunto, ação, contas, sequência, variantes, anexos e janela de envio ficam salvos.
+            Os leads e a data de agendamento são escolhidos em cada nova campanha.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Nome</Label>
+            <Input
+              id="template-name"
+              placeholder="Ex: Prospecção semanal - SaaS"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Descrição (opcional)</Label>
+            <Textarea
+              id="template-description"
+              rows={3}
+              placeholder="Quando usar este template"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Salvar template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Toggle } from '@/components/ui/toggle';
+import { CalendarRange } from 'lucide-react';
+import { DEFAULT_SENDING_WINDOW, WEEKDAY_LABELS, type SendingWindowInput } from '@/lib/sendingWindow';
+
+interface SendingWindowEditorProps {
+  value: SendingWindowInput | null;
+  onChange: (value: SendingWindowInput | null) => void;
+  workspaceTimezone: string;
+}
+
+export function SendingWindowEditor({ value, onChange, workspaceTimezone }: SendingWindowEditorProps) {
+  const days = value?.days ?? [];
+
+  function update(patch: Partial<SendingWindowInput>) {
+    if (!value) return;
+    onChange({ ...value, ...patch });
+  }
+
+  function toggleDay(day: number, pressed: boolean) {
+    const next = pressed ? [...days, day] : days.filter(d => d !== day);
+    update({ days: next.sort((a, b) => a - b) });
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center gap-3">
+        <Checkbox
+          id="sending-window-enabled"
+          checked={!!value}
+          onCheckedChange={(checked) => onChange(checked === true ? { ...DEFAULT_SENDING_WINDOW } : null)}
+        />
+        <Label htmlFor="sending-window-enabled" className="flex items-center gap-2 cursor-pointer">
+          <CalendarRange className="h-4 w-4" />
+          Janela de envio
+        </Label>
+      </div>
+
+      {!value ? (
+        <p className="text-xs text-muted-foreground pl-6">
+          Sem janela: os envios acontecem a qualquer dia e horário, respeitando apenas o limite diário.
+        </p>
+      ) : (
+        <div className="space-y-3 pl-6">
+          <div className="space-y-1">
+            <Label className="text-xs">Dias da semana</Label>
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <Toggle
+                  key={day}
+                  size="sm"
+                  variant="outline"
+                  className="h-8 w-11 text-xs"
+                  pressed={days.includes(day)}
+                  onPressedChange={(pressed) => toggleDay(day, pressed)}
+                >
+                  {label}
+                </Toggle>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="sending-window-start" className="text-xs">Início</Label>
+              <Input
+                id="sending-window-start"
+                type="time"
+                className="h-8"
+                value={value.start || ''}
+                onChange={(e) => update({ start: e.target.value || null })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sending-window-end" className="text-xs">Fim</Label>
+              <Input
+                id="sending-window-end"
+                type="time"
+                className="h-8"
+                value={value.end || ''}
+                onChange={(e) => update({ end: e.target.value || null })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="sending-window-holidays"
+              checked={value.skipHolidays === true}
+              onCheckedChange={(checked) => update({ skipHolidays: checked === true })}
+            />
+            <Label htmlFor="sending-window-holidays" className="text-sm font-normal cursor-pointer">
+              Pular feriados do workspace
+            </Label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="sending-window-lead-timezone"
+              checked={value.useLeadTimezone === true}
+              onCheckedChange={(checked) => update({ useLeadTimezone: checked === true })}
+            />
+            <Label htmlFor="sending-window-lead-timezone" className="text-sm font-normal cursor-pointer">
+              Usar o fuso horário de cada lead
+            </Label>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {value.useLeadTimezone
+              ? `O horário é avaliado no fuso de cada lead (inferido pela cidade, estado e país). Leads sem localização usam ${workspaceTimezone}.`
+              : `Horários no fuso do workspace (${workspaceTimezone}). Leads fora da janela ficam na fila até a próxima abertura.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
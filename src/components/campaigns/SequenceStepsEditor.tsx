@@ -0,0 +1,180 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, ListOrdered, Clock } from 'lucide-react';
+import { CampaignStepAction, CampaignStepCondition, FollowUpStepInput, LinkedInAction } from '@/types';
+import {
+  MAX_FOLLOW_UP_STEPS,
+  MAX_INVITE_NOTE_LENGTH,
+  stepActionLabels,
+  stepConditionLabels,
+} from '@/lib/campaignSteps';
+
+interface SequenceStepsEditorProps {
+  type: 'email' | 'whatsapp' | 'linkedin';
+  firstAction: LinkedInAction;
+  steps: FollowUpStepInput[];
+  onChange: (steps: FollowUpStepInput[]) => void;
+}
+
+export function SequenceStepsEditor({ type, firstAction, steps, onChange }: SequenceStepsEditorProps) {
+  const availableActions: CampaignStepAction[] = type === 'linkedin' ? ['dm', 'inmail', 'invite'] : ['message'];
+  const firstStepAction: CampaignStepAction = type === 'linkedin' ? firstAction : 'message';
+
+  function hasInviteBefore(index: number) {
+    return firstStepAction === 'invite' || steps.slice(0, index).some(s => s.action === 'invite');
+  }
+
+  function addStep() {
+    const previousIsInvite = steps.length === 0
+      ? firstStepAction === 'invite'
+      : steps[steps.length - 1].action === 'invite';
+    onChange([
+      ...steps,
+      {
+        action: type === 'linkedin' ? 'dm' : 'message',
+        message: '',
+        delayDays: previousIsInvite ? 2 : 4,
+        condition: previousIsInvite ? 'accepted' : 'no_reply',
+      },
+    ]);
+  }
+
+  function updateStep(index: number, patch: Partial<FollowUpStepInput>) {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+  }
+
+  function removeStep(index: number) {
+    onChange(steps.filter((_, i) => i !== index));
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <ListOrdered className="h-4 w-4" />
+          Sequência de follow-ups
+        </Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 gap-1"
+          onClick={addStep}
+          disabled={steps.length >= MAX_FOLLOW_UP_STEPS}
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Adicionar etapa
+        </Button>
+      </div>
+
+      {steps.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Sem follow-ups: cada lead recebe apenas a mensagem acima. Leads que responderem saem da sequência automaticamente.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="secondary" className="text-xs">Etapa 1</Badge>
+            {stepActionLabels[firstStepAction]} — mensagem principal
+          </div>
+
+          {steps.map((step, index) => {
+            const canWaitForAccept = hasInviteBefore(index);
+            return (
+              <div key={index} className="rounded-lg border p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <Badge variant="secondary" className="text-xs">Etapa {index + 2}</Badge>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => removeStep(index)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Ação</Label>
+                    <Select
+                      value={step.action}
+                      onValueChange={(v: CampaignStepAction) => updateStep(index, { action: v })}
+                      disabled={availableActions.length === 1}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableActions.map(action => (
+                          <SelectItem key={action} value={action}>
+                            {stepActionLabels[action]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      Aguardar (dias)
+                    </Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={90}
+                      className="h-8"
+                      value={step.delayDays}
+                      onChange={(e) => {
+                        const parsed = parseInt(e.target.value, 10);
+                        updateStep(index, { delayDays: Number.isNaN(parsed) ? 0 : Math.max(0, Math.min(90, parsed)) });
+                      }}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Condição</Label>
+                    <Select
+                      value={step.condition}
+                      onValueChange={(v: CampaignStepCondition) => updateStep(index, { condition: v })}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="no_reply">{stepConditionLabels.no_reply}</SelectItem>
+                        {canWaitForAccept && (
+                          <SelectItem value="accepted">{stepConditionLabels.accepted}</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <Textarea
+                  rows={3}
+                  placeholder={step.action === 'invite'
+                    ? 'Nota do convite (opcional, máx 300 caracteres)'
+                    : 'Mensagem de follow-up... Use {{primeiro_nome}} para personalizar'}
+                  value={step.message}
+                  maxLength={step.action === 'invite' ? MAX_INVITE_NOTE_LENGTH : undefined}
+                  onChange={(e) => updateStep(index, { message: e.target.value })}
+                />
+
+                <p className="text-xs text-muted-foreground">
+                  {step.condition === 'accepted'
+                    ? `Enviada ${step.delayDays} dia(s) após o convite ser aceito. Se não for aceito em 30 dias, o lead sai da sequência.`
+                    : `Enviada ${step.delayDays} dia(s) após a etapa anterior, se o lead ainda não respondeu.`}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Plus, Trash2, Split, Trophy } from 'lucide-react';
+import { CampaignVariantInput } from '@/types';
+import { MAX_VARIANTS, MIN_PROMOTE_AFTER, VARIANT_LABELS } from '@/lib/campaignVariants';
+
+interface VariantsEditorProps {
+  type: 'email' | 'whatsapp' | 'linkedin';
+  isInviteAction: boolean;
+  variants: CampaignVariantInput[];
+  onChange: (variants: CampaignVariantInput[]) => void;
+  promoteAfter: number | null;
+  onPromoteAfterChange: (value: number | null) => void;
+}
+
+export function VariantsEditor({
+  type,
+  isInviteAction,
+  variants,
+  onChange,
+  promoteAfter,
+  onPromoteAfterChange,
+}: VariantsEditorProps) {
+  const isEmail = type === 'email';
+
+  function addVariant() {
+    onChange([...variants, { message: '', subject: '' }]);
+  }
+
+  function updateVariant(index: number, patch: Partial<CampaignVariantInput>) {
+    onChange(variants.map((variant, i) => (i === index ? { ...variant, ...patch } : variant)));
+  }
+
+  function removeVariant(index: number) {
+    const next = variants.filter((_, i) => i !== index);
+    onChange(next);
+    if (next.length === 0) onPromoteAfterChange(null);
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <Split className="h-4 w-4" />
+          Teste A/B
+        </Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 gap-1"
+          onClick={addVariant}
+          disabled={variants.length >= MAX_VARIANTS - 1}
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Adicionar variante
+        </Button>
+      </div>
+
+      {variants.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Sem variantes: todos os leads recebem a mensagem acima. Adicione de 1 a {MAX_VARIANTS - 1} variantes para comparar resultados.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="secondary" className="text-xs">Variante A</Badge>
+            mensagem principal — os leads são divididos igualmente entre {variants.length + 1} variantes
+          </div>
+
+          {variants.map((variant, index) => (
+            <div key={index} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <Badge variant="secondary" className="text-xs">Variante {VARIANT_LABELS[index + 1]}</Badge>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                  onClick={() => removeVariant(index)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+
+              {isEmail && (
+                <Input
+                  className="h-8"
+                  placeholder="Assunto (vazio = mesmo da variante A)"
+                  value={variant.subject}
+                  onChange={(e) => updateVariant(index, { subject: e.target.value })}
+                />
+              )}
+
+              <Textarea
+                rows={3}
+                placeholder={isInviteAction
+                  ? 'Nota do convite (opcional, máx 300 caracteres)'
+                  : 'Mensagem alternativa... Use {{primeiro_nome}} para personalizar'}
+                value={variant.message}
+                maxLength={isInviteAction ? 300 : undefined}
+                onChange={(e) => updateVariant(index, { message: e.target.value })}
+              />
+            </div>
+          ))}
+
+          <div className="space-y-2 rounded-lg bg-muted/30 p-3">
+            <div className="flex items-center gap-3">
+              <Checkbox
+                id="variant-auto-promote"
+                checked={promoteAfter !== null}
+                onCheckedChange={(checked) => onPromoteAfterChange(checked === true ? 100 : null)}
+              />
+              <Label htmlFor="variant-auto-promote" className="flex items-center gap-2 cursor-pointer text-sm">
+                <Trophy className="h-4 w-4" />
+                Promover a vencedora automaticamente
+              </Label>
+            </div>
+            {promoteAfter !== null && (
+              <div className="flex items-center gap-2 pl-7">
+                <span className="text-xs text-muted-foreground">Após</span>
+                <Input
+                  type="number"
+                  min={MIN_PROMOTE_AFTER}
+                  className="h-8 w-24"
+                  value={promoteAfter}
+                  onChange={(e) => {
+                    const parsed = parseInt(e.target.value, 10);
+                    onPromoteAfterChange(Number.isNaN(parsed) ? MIN_PROMOTE_AFTER : parsed);
+                  }}
+                />
+                <span className="text-xs text-muted-foreground">
+                  envios, a variante com maior taxa de resposta é usada para os leads restantes.
+                </span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Kanban } from 'lucide-react';
+import { useLeadStageCounts, useLeadStages } from '@/hooks/useLeadStages';
+import { leadStageWinRate } from '@/lib/leadStages';
+
+/** Leads por etapa do pipeline, com a taxa de ganho entre os leads que fecharam */
+export function LeadPipelineCard() {
+  const { stages, isLoading: stagesLoading } = useLeadStages();
+  const { counts, isLoading: countsLoading } = useLeadStageCounts();
+
+  const total = counts ? Array.from(counts.values()).reduce((sum, count) => sum + count, 0) : 0;
+  const winRate = counts ? leadStageWinRate(stages, counts) : null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Kanban className="h-5 w-5 text-primary" />
+            Pipeline de leads
+          </CardTitle>
+          <CardDescription>
+            {winRate === null
+              ? 'Quantos leads estão em cada etapa'
+              : `Quantos leads estão em cada etapa · taxa de ganho de ${Math.round(winRate * 100)}%`}
+          </CardDescription>
+        </div>
+        <Button asChild size="sm" variant="outline">
+          <Link to="/leads/pipeline">Ver pipeline</Link>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {stagesLoading || countsLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          <div className="space-y-3">
+            <div className="flex h-3 overflow-hidden rounded-full bg-muted">
+              {total > 0 && stages.map(stage => (
+                <div
+                  key={stage.id}
+                  title={stage.name}
+                  style={{ width: `${((counts?.get(stage.id) ?? 0) / total) * 100}%`, backgroundColor: stage.color }}
+                />
+              ))}
+            </div>
+            <div className="grid gap-2 grid-cols-2 md:grid-cols-3 lg:grid-cols-6">
+              {stages.map(stage => (
+                <div key={stage.id} className="space-y-0.5">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: stage.color }} />
+                    <span className="truncate">{stage.name}</span>
+                  </div>
+                  <p className="text-xl font-bold">{counts?.get(stage.id) ?? 0}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Timer } from 'lucide-react';
+import { useResponseTimeStats } from '@/hooks/useResponseTimes';
+import { useWorkspaceMembers } from '@/hooks/useWorkspaceMembers';
+import { useWorkspaceSettings } from '@/hooks/useWorkspaceSettings';
+import { DEFAULT_RESPONSE_SLA_MINUTES, formatResponseTime, memberName } from '@/lib/conversationSla';
+
+// Janela das respostas consideradas no card
+const RESPONSE_WINDOW_DAYS = 30;
+
+/** Tempo até a primeira resposta por membro, com conversas aguardando e atrasadas */
+export function ResponseTimeCard() {
+  const { stats, isLoading } = useResponseTimeStats(RESPONSE_WINDOW_DAYS);
+  const { members } = useWorkspaceMembers();
+  const { settings } = useWorkspaceSettings();
+  const slaMinutes = settings.response_sla_minutes ?? DEFAULT_RESPONSE_SLA_MINUTES;
+
+  // Membros sem atividade também aparecem; "Sem responsável" só quando há algo
+  const rows = useMemo(() => {
+    const byUser = new Map(stats.map(row => [row.user_id, row]));
+    const memberRows = members.map(member => ({
+      key: member.user_id,
+      name: memberName(member),
+      stats: byUser.get(member.user_id),
+    }));
+    const unassigned = byUser.get(null);
+    return unassigned ? [...memberRows, { key: 'unassigned', name: 'Sem responsável', stats: unassigned }] : memberRows;
+  }, [stats, members]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5 text-primary" />
+            Tempo de resposta
+          </CardTitle>
+          <CardDescription>
+            Primeira resposta às mensagens recebidas nos últimos {RESPONSE_WINDOW_DAYS} dias · prazo de{' '}
+            {formatResponseTime(slaMinutes * 60)}
+          </CardDescription>
+        </div>
+        <Button asChild size="sm" variant="outline">
+          <Link to="/inbox?view=mine">Minhas conversas</Link>
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Nenhum membro no workspace.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Membro</TableHead>
+                <TableHead className="text-right">Respostas</TableHead>
+                <TableHead className="text-right">Mediana</TableHead>
+                <TableHead className="text-right">Média</TableHead>
+                <TableHead className="text-right">No prazo</TableHead>
+                <TableHead className="text-right">Aguardando</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ key, name, stats: row }) => (
+                <TableRow key={key}>
+                  <TableCell className="font-medium">{name}</TableCell>
+                  <TableCell className="text-right">{row?.responses_count ?? 0}</TableCell>
+                  <TableCell className="text-right">{formatResponseTime(row?.median_response_seconds)}</TableCell>
+                  <TableCell className="text-right">{formatResponseTime(row?.avg_response_seconds)}</TableCell>
+                  <TableCell className="text-right">
+                    {row && row.responses_count > 0
+                      ? `${Math.round((row.within_sla_count / row.responses_count) * 100)}%`
+                      : '—'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <span className="inline-flex items-center gap-1">
+                      {row?.awaiting_count ?? 0}
+                      {row && row.overdue_count > 0 && (
+                        <Badge variant="destructive" className="h-5 px-1.5 text-[10px]">
+                          {row.overdue_count} atrasada(s)
+                        </Badge>
+                      )}
+                    </span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,260 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FileText, Image, Loader2, Mic, Paperclip, Send, Video, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useChatMessages } from '@/hooks/useInbox';
+import { useSnippets } from '@/hooks/useSnippets';
+import { SnippetPicker } from '@/components/snippets/SnippetPicker';
+import { InboxChat, MessageAttachment } from '@/types';
+import { filterSnippetsByChannel, findSnippetByShortcut, renderSnippetForLead } from '@/lib/snippets';
+import { cn } from '@/lib/utils';
+
+interface ChatThreadProps {
+  chat: InboxChat;
+}
+
+// Mesmos limites da função inbox-send-message
+const MAX_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+// "/atalho" digitado antes do cursor (expandido com Tab)
+const SHORTCUT_BEFORE_CURSOR = /(^|\s)\/([\w-]+)$/;
+
+const ATTACHMENT_ICONS: Record<MessageAttachment['type'], React.ElementType> = {
+  image: Image,
+  video: Video,
+  audio: Mic,
+  document: FileText,
+  file: FileText,
+};
+
+const ATTACHMENT_LABELS: Record<MessageAttachment['type'], string> = {
+  image: 'Imagem',
+  video: 'Vídeo',
+  audio: 'Áudio',
+  document: 'Documento',
+  file: 'Arquivo',
+};
+
+function AttachmentChip({ attachment }: { attachment: MessageAttachment }) {
+  const Icon = ATTACHMENT_ICONS[attachment.type] || FileText;
+  const label = attachment.filename || ATTACHMENT_LABELS[attachment.type] || 'Arquivo';
+  const content = (
+    <span className="inline-flex items-center gap-1 rounded border bg-background/60 px-2 py-1 text-xs">
+      <Icon className="h-3 w-3" />
+      <span className="truncate max-w-[180px]">{label}</span>
+    </span>
+  );
+
+  return attachment.url.startsWith('http')
+    ? <a href={attachment.url} target="_blank" rel="noopener noreferrer">{content}</a>
+    : content;
+}
+
+export function ChatThread({ chat }: ChatThreadProps) {
+  const { messages, isLoading, sendMessage, isSending } = useChatMessages(chat.id);
+  const { toast } = useToast();
+  const [text, setText] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [usedSnippetIds, setUsedSnippetIds] = useState<Set<string>>(new Set());
+  const { snippets, recordUsage } = useSnippets();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const channelSnippets = useMemo(() => filterSnippetsByChannel(snippets, chat.channel), [snippets, chat.channel]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, chat.id]);
+
+  useEffect(() => {
+    setText('');
+    setFiles([]);
+    setUsedSnippetIds(new Set());
+  }, [chat.id]);
+
+  // Variáveis do snippet preenchidas com o lead da conversa (ou o nome do contato)
+  function renderSnippet(body: string): string {
+    return renderSnippetForLead(body, {
+      ...chat.lead,
+      id: chat.lead?.id ?? chat.id,
+      full_name: chat.lead?.full_name || chat.attendee_name || null,
+    });
+  }
+
+  function insertSnippet(snippet: { id: string; body: string }, replaceLength = 0) {
+    const textarea = textareaRef.current;
+    const cursor = textarea?.selectionStart ?? text.length;
+    const rendered = renderSnippet(snippet.body);
+    const start = cursor - replaceLength;
+    setText(text.substring(0, start) + rendered + text.substring(cursor));
+    setUsedSnippetIds(prev => new Set(prev).add(snippet.id));
+    setTimeout(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + rendered.length, start + rendered.length);
+    }, 0);
+  }
+
+  // Tab após "/atalho" troca o atalho pelo snippet
+  function expandShortcut(): boolean {
+    const cursor = textareaRef.current?.selectionStart ?? text.length;
+    const match = text.substring(0, cursor).match(SHORTCUT_BEFORE_CURSOR);
+    if (!match) return false;
+
+    const snippet = findSnippetByShortcut(channelSnippets, match[2]);
+    if (!snippet) return false;
+
+    insertSnippet(snippet, match[2].length + 1);
+    return true;
+  }
+
+  function handleFiles(selected: FileList | null) {
+    if (!selected) return;
+    const next = [...files, ...Array.from(selected)];
+    const oversized = next.find(file => file.size > MAX_ATTACHMENT_BYTES);
+
+    if (next.length > MAX_ATTACHMENTS || oversized) {
+      toast({
+        title: 'Anexo não permitido',
+        description: oversized
+          ? `${oversized.name} passa de 15 MB.`
+          : `Envie no máximo ${MAX_ATTACHMENTS} anexos por mensagem.`,
+        variant: 'destructive',
+      });
+    } else {
+      setFiles(next);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  }
+
+  async function handleSend() {
+    if (!text.trim() && files.length === 0) return;
+    try {
+      await sendMessage({ text: text.trim(), files });
+      if (usedSnippetIds.size > 0) {
+        recordUsage({
+          snippetIds: [...usedSnippetIds],
+          context: 'inbox',
+          chatId: chat.id,
+          leadId: chat.lead_id ?? undefined,
+        }).catch(() => undefined);
+      }
+      setText('');
+      setFiles([]);
+      setUsedSnippetIds(new Set());
+    } catch (error) {
+      toast({
+        title: 'Erro ao enviar mensagem',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <ScrollArea className="flex-1 px-4">
+        {isLoading ? (
+          <div className="space-y-3 py-4">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className={cn('h-12 w-2/3', i % 2 && 'ml-auto')} />
+            ))}
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Nenhuma mensagem nesta conversa.</p>
+        ) : (
+          <div className="space-y-3 py-4">
+            {messages.map(message => (
+              <div key={message.id} className={cn('flex', message.sender === 'me' ? 'justify-end' : 'justify-start')}>
+                <div
+                  className={cn(
+                    'max-w-[75%] rounded-lg px-3 py-2 space-y-1',
+                    message.sender === 'me' ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                  )}
+                >
+                  {message.text && <p className="text-sm whitespace-pre-wrap break-words">{message.text}</p>}
+                  {message.attachments && message.attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-1 text-foreground">
+                      {message.attachments.map((attachment, i) => (
+                        <AttachmentChip key={i} attachment={attachment} />
+                      ))}
+                    </div>
+                  )}
+                  <p className={cn('text-[10px]', message.sender === 'me' ? 'text-primary-foreground/70' : 'text-muted-foreground')}>
+                    {format(new Date(message.timestamp), "dd/MM 'às' HH:mm", { locale: ptBR })}
+                  </p>
+                </div>
+              </div>
+            ))}
+            <div ref={bottomRef} />
+          </div>
+        )}
+      </ScrollArea>
+
+      <div className="border-t p-3 space-y-2">
+        {files.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {files.map((file, i) => (
+              <Badge key={`${file.name}-${i}`} variant="secondary" className="gap-1">
+                <Paperclip className="h-3 w-3" />
+                <span className="truncate max-w-[160px]">{file.name}</span>
+                <button type="button" onClick={() => setFiles(files.filter((_, j) => j !== i))}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center justify-end">
+          <SnippetPicker channel={chat.channel} onSelect={(snippet) => insertSnippet(snippet)} label="Respostas prontas" />
+        </div>
+        <div className="flex items-end gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isSending}
+            title="Anexar arquivo"
+          >
+            <Paperclip className="h-4 w-4" />
+          </Button>
+          <Textarea
+            ref={textareaRef}
+            placeholder="Escreva uma resposta... (Enter envia, Shift+Enter quebra linha, /atalho + Tab insere um snippet)"
+            className="min-h-[44px] max-h-40 resize-none"
+            rows={1}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Tab' && !e.shiftKey && expandShortcut()) {
+                e.preventDefault();
+                return;
+              }
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+          />
+          <Button onClick={handleSend} disabled={isSending || (!text.trim() && files.length === 0)}>
+            {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { usePlatformAdmin } from '@/hooks/usePlatformAdmin';
 import { Button } from '@/components/ui/button';
 import { ElevOSLogo } from '@/components/ElevOSLogo';
+import { NotificationsMenu } from '@/components/layout/NotificationsMenu';
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -22,7 +23,9 @@ import {
   Building2,
   Menu,
   Tag,
-  Shield
+  Shield,
+  Inbox,
+  Kanban
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
@@ -30,7 +33,9 @@ import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 const navItems = [
   { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/leads', label: 'Leads', icon: Users },
+  { href: '/leads/pipeline', label: 'Pipeline', icon: Kanban },
   { href: '/campaigns', label: 'Campanhas', icon: Send },
+  { href: '/inbox', label: 'Inbox', icon: Inbox },
   { href: '/tags', label: 'Tags', icon: Tag },
   { href: '/settings', label: 'Configurações', icon: Settings },
 ];
@@ -146,6 +151,8 @@ export default function AppLayout({ children }: { children: ReactNode }) {
 
           <div className="flex-1" />
 
+          <NotificationsMenu />
+
           {/* User menu */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -0,0 +1,75 @@
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Bell, MessagesSquare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { useNotifications } from '@/hooks/useNotifications';
+import { AppNotification } from '@/types';
+
+export function NotificationsMenu() {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+
+  function openNotification(notification: AppNotification) {
+    if (!notification.read_at) markAsRead([notification.id]);
+    if (notification.lead_id) navigate(`/leads?lead=${notification.lead_id}`);
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-medium flex items-center justify-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="text-sm font-medium">Notificações</p>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => markAllAsRead()}>
+              Marcar todas como lidas
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">Nenhuma notificação.</p>
+        ) : (
+          <ScrollArea className="max-h-80">
+            <div className="divide-y">
+              {notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => openNotification(notification)}
+                  className={cn(
+                    'w-full text-left px-4 py-3 flex gap-3 hover:bg-muted/50 transition-colors',
+                    !notification.read_at && 'bg-primary/5'
+                  )}
+                >
+                  <MessagesSquare className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+                  <div className="min-w-0 space-y-0.5">
+                    <p className={cn('text-sm', !notification.read_at && 'font-medium')}>{notification.title}</p>
+                    {notification.body && (
+                      <p className="text-xs text-muted-foreground">{notification.body}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true, locale: ptBR })}
+                    </p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { LeadCustomFieldFilter } from '@/types';
+import { useLeadCustomFields } from '@/hooks/useLeadCustomFields';
+import { describeCustomFieldFilter, isRangeFieldType, parseCustomFieldValue } from '@/lib/customFields';
+
+interface CustomFieldFilterProps {
+  value: LeadCustomFieldFilter[];
+  onChange: (filters: LeadCustomFieldFilter[]) => void;
+}
+
+/** Filtros por campos personalizados: texto contém, seleção é/inclui, número e data por faixa */
+export function CustomFieldFilter({ value, onChange }: CustomFieldFilterProps) {
+  const { fields } = useLeadCustomFields();
+  const [open, setOpen] = useState(false);
+  const [fieldKey, setFieldKey] = useState('');
+  const [text, setText] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  if (fields.length === 0) return null;
+
+  const field = fields.find(f => f.key === fieldKey);
+
+  function resetDraft() {
+    setText('');
+    setFrom('');
+    setTo('');
+  }
+
+  function buildFilters(): LeadCustomFieldFilter[] {
+    if (!field) return [];
+    if (isRangeFieldType(field.field_type)) {
+      const bounds: LeadCustomFieldFilter[] = [];
+      for (const [op, raw] of [['gte', from], ['lte', to]] as const) {
+        const parsed = parseCustomFieldValue(field, raw);
+        if (parsed.value !== null && parsed.value !== undefined && !Array.isArray(parsed.value)) {
+          bounds.push({ key: field.key, op, value: parsed.value });
+        }
+      }
+      return bounds;
+    }
+    if (!text.trim()) return [];
+    const op = field.field_type === 'select' ? 'equals' : field.field_type === 'multi_select' ? 'has' : 'contains';
+    return [{ key: field.key, op, value: text.trim() }];
+  }
+
+  const draftFilters = buildFilters();
+
+  function handleAdd() {
+    if (draftFilters.length === 0) return;
+    // Um novo filtro do mesmo campo e operador substitui o anterior
+    const replaced = value.filter(f => !draftFilters.some(d => d.key === f.key && d.op === f.op));
+    onChange([...replaced, ...draftFilters]);
+    resetDraft();
+    setOpen(false);
+  }
+
+  return (
+    <>
+      <div className="space-y-1">
+        <Label className="text-xs">Campos</Label>
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="h-9 min-w-[120px] justify-start">
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              {value.length > 0 ? (
+                <span>{value.length} filtro{value.length > 1 ? 's' : ''}</span>
+              ) : (
+                <span className="text-muted-foreground">Personalizados</span>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 p-3" align="start">
+            <div className="space-y-3">
+              <p className="text-sm font-medium">Filtrar por campo personalizado</p>
+              <Select
+                value={fieldKey}
+                onValueChange={(v) => {
+                  setFieldKey(v);
+                  resetDraft();
+                }}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue placeholder="Escolha o campo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fields.map(f => (
+                    <SelectItem key={f.key} value={f.key}>{f.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {field && isRangeFieldType(field.field_type) && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">De</Label>
+                    <Input
+                      type={field.field_type === 'date' ? 'date' : 'number'}
+                      step="any"
+                      className="h-9"
+                      value={from}
+                      onChange={(e) => setFrom(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Até</Label>
+                    <Input
+                      type={field.field_type === 'date' ? 'date' : 'number'}
+                      step="any"
+                      className="h-9"
+                      value={to}
+                      onChange={(e) => setTo(e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {field && (field.field_type === 'select' || field.field_type === 'multi_select') && (
+                <Select value={text} onValueChange={setText}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue placeholder="Escolha a opção" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {field.options.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {field && (field.field_type === 'text' || field.field_type === 'url') && (
+                <Input
+                  className="h-9"
+                  placeholder="Contém..."
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                />
+              )}
+
+              <Button size="sm" className="w-full" onClick={handleAdd} disabled={draftFilters.length === 0}>
+                Aplicar filtro
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(filter => (
+            <Badge
+              key={`${filter.key}-${filter.op}`}
+              variant="secondary"
+              className="text-xs cursor-pointer hover:opacity-80"
+              onClick={() => onChange(value.filter(f => f !== filter))}
+            >
+              {describeCustomFieldFilter(filter, fields)}
+              <X className="h-3 w-3 ml-1" />
+            </Badge>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
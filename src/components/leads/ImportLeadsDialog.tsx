@@ -0,0 +1,422 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Toggle } from '@/components/ui/toggle';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLeadImports, LeadImportPreview } from '@/hooks/useLeadImports';
+import { useLeadLists } from '@/hooks/useLeadLists';
+import { useTags } from '@/hooks/useTags';
+import { useLeadCustomFields } from '@/hooks/useLeadCustomFields';
+import {
+  customFieldImportTarget,
+  INLINE_IMPORT_ROWS,
+  LEAD_IMPORT_ACCEPT,
+  LEAD_IMPORT_FIELD_LABELS,
+  LEAD_IMPORT_FIELDS,
+  LEAD_IMPORT_SKIP_REASON_LABELS,
+  LeadImportMapping,
+  LeadImportTarget,
+  leadImportFileType,
+  MAX_LEAD_IMPORT_FILE_SIZE,
+  validateImportMapping,
+} from '@/lib/leadImport';
+import { LeadImportJob } from '@/types';
+
+interface ImportLeadsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'options' | 'result';
+
+const IGNORE_COLUMN = 'ignore';
+
+const STATUS_LABELS: Record<LeadImportJob['status'], string> = {
+  pending: 'Na fila',
+  processing: 'Importando',
+  completed: 'Concluída',
+  failed: 'Falhou',
+};
+
+function ImportJobSummary({ job }: { job: LeadImportJob }) {
+  const active = job.status === 'pending' || job.status === 'processing';
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="rounded-lg border p-3">
+          <p className="text-lg font-semibold">{job.created_count}</p>
+          <p className="text-xs text-muted-foreground">criados</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-lg font-semibold">{job.updated_count}</p>
+          <p className="text-xs text-muted-foreground">atualizados</p>
+        </div>
+        <div className="rounded-lg border p-3">
+          <p className="text-lg font-semibold">{job.skipped_count}</p>
+          <p className="text-xs text-muted-foreground">pulados</p>
+        </div>
+      </div>
+      {active && (
+        <div className="space-y-1">
+          <Progress value={job.total_rows > 0 ? (job.processed_rows / job.total_rows) * 100 : 0} />
+          <p className="text-xs text-muted-foreground text-center">
+            {job.processed_rows} de {job.total_rows} linhas processadas
+          </p>
+        </div>
+      )}
+      {job.status === 'failed' && job.error_message && (
+        <p className="text-sm text-destructive">{job.error_message}</p>
+      )}
+    </div>
+  );
+}
+
+/** Assistente de importação: arquivo → mapeamento das colunas → lista e tags → relatório */
+export function ImportLeadsDialog({ open, onOpenChange }: ImportLeadsDialogProps) {
+  const { jobs, previewImport, isPreviewing, startImport, isImporting } = useLeadImports();
+  const { lists } = useLeadLists();
+  const { tags } = useTags();
+  const { fields: customFields } = useLeadCustomFields();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [preview, setPreview] = useState<LeadImportPreview | null>(null);
+  const [mapping, setMapping] = useState<LeadImportMapping>([]);
+  const [listId, setListId] = useState<string | null>(null);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [updateExisting, setUpdateExisting] = useState(true);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [startedJob, setStartedJob] = useState<LeadImportJob | null>(null);
+
+  // Background imports: the job list is polled, so the report follows the progress
+  const resultJob = jobs.find(job => job.id === jobId) ?? startedJob;
+  const mappingError = validateImportMapping(mapping, customFields);
+
+  function reset() {
+    setStep('upload');
+    setPreview(null);
+    setMapping([]);
+    setListId(null);
+    setTagIds([]);
+    setUpdateExisting(true);
+    setJobId(null);
+    setStartedJob(null);
+  }
+
+  function handleOpenChange(newOpen: boolean) {
+    if (isPreviewing || isImporting) return;
+    onOpenChange(newOpen);
+    if (!newOpen) reset();
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    if (!leadImportFileType(file.name)) {
+      toast({ title: 'Formato não suportado', description: 'Envie um arquivo CSV ou XLSX.', variant: 'destructive' });
+      return;
+    }
+    if (file.size > MAX_LEAD_IMPORT_FILE_SIZE) {
+      toast({ title: 'Arquivo muito grande', description: 'O limite é de 20 MB por arquivo.', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const result = await previewImport(file);
+      if (result.totalRows === 0) {
+        toast({ title: 'Arquivo vazio', description: 'Nenhuma linha encontrada abaixo do cabeçalho.', variant: 'destructive' });
+        return;
+      }
+      setPreview(result);
+      setMapping(result.mapping);
+      setStep('mapping');
+    } catch (error) {
+      toast({
+        title: 'Erro ao ler arquivo',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  }
+
+  function updateMapping(index: number, value: string) {
+    setMapping(current => current.map((field, i) =>
+      i === index ? (value === IGNORE_COLUMN ? null : value as LeadImportTarget) : field
+    ));
+  }
+
+  function toggleTag(tagId: string, pressed: boolean) {
+    setTagIds(current => pressed ? [...current, tagId] : current.filter(id => id !== tagId));
+  }
+
+  async function handleImport() {
+    if (!preview) return;
+    try {
+      const result = await startImport({ preview, mapping, listId, tagIds, updateExisting });
+      setJobId(result.job.id);
+      setStartedJob(result.job);
+      setStep('result');
+    } catch (error) {
+      toast({
+        title: 'Erro ao importar',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Importar leads
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Envie um arquivo CSV ou XLSX com uma linha de cabeçalho.'}
+            {step === 'mapping' && preview && `${preview.fileName}: ${preview.totalRows} linha(s). Confira o campo de cada coluna.`}
+            {step === 'options' && 'Leads repetidos são identificados pelo LinkedIn, email ou telefone.'}
+            {step === 'result' && preview?.fileName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-6">
+            <div className="flex flex-col items-center gap-3 rounded-lg border border-dashed p-8 text-center">
+              <Upload className="h-8 w-8 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">
+                As colunas são reconhecidas pelo cabeçalho, inclusive as do arquivo exportado pela lista de leads.
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={LEAD_IMPORT_ACCEPT}
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <Button onClick={() => fileInputRef.current?.click()} disabled={isPreviewing}>
+                {isPreviewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isPreviewing ? 'Lendo arquivo...' : 'Escolher arquivo'}
+              </Button>
+            </div>
+
+            {jobs.length > 0 && (
+              <div className="space-y-2">
+                <Label>Importações recentes</Label>
+                <div className="space-y-2">
+                  {jobs.slice(0, 5).map(job => (
+                    <div key={job.id} className="flex items-center justify-between gap-3 rounded-lg border p-3 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{job.file_name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(job.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                          {' · '}
+                          {job.status === 'processing' || job.status === 'pending'
+                            ? `${job.processed_rows} de ${job.total_rows} linhas`
+                            : `${job.created_count} criados, ${job.updated_count} atualizados, ${job.skipped_count} pulados`}
+                        </p>
+                      </div>
+                      <Badge variant={job.status === 'failed' ? 'destructive' : job.status === 'completed' ? 'secondary' : 'default'}>
+                        {STATUS_LABELS[job.status]}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'mapping' && preview && (
+          <div className="space-y-3">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Coluna do arquivo</TableHead>
+                  <TableHead>Exemplo</TableHead>
+                  <TableHead className="w-[220px]">Campo do lead</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.headers.map((header, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="font-medium">{header || `Coluna ${index + 1}`}</TableCell>
+                    <TableCell className="max-w-[220px] truncate text-xs text-muted-foreground">
+                      {preview.sampleRows.map(row => row[index]).find(value => value?.trim()) || '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Select value={mapping[index] ?? IGNORE_COLUMN} onValueChange={(value) => updateMapping(index, value)}>
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={IGNORE_COLUMN}>Ignorar coluna</SelectItem>
+                          {LEAD_IMPORT_FIELDS.map(field => (
+                            <SelectItem key={field} value={field}>{LEAD_IMPORT_FIELD_LABELS[field]}</SelectItem>
+                          ))}
+                          {customFields.length > 0 && (
+                            <SelectGroup>
+                              <SelectLabel>Campos personalizados</SelectLabel>
+                              {customFields.map(field => (
+                                <SelectItem key={field.key} value={customFieldImportTarget(field.key)}>
+                                  {field.label}
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {mappingError && <p className="text-sm text-destructive">{mappingError}</p>}
+          </div>
+        )}
+
+        {step === 'options' && (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label>Lista de destino</Label>
+              <Select value={listId ?? 'no-list'} onValueChange={(value) => setListId(value === 'no-list' ? null : value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="no-list">Sem lista</SelectItem>
+                  {lists.map(list => (
+                    <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tags</Label>
+              {tags.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Nenhuma tag criada no workspace.</p>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {tags.map(tag => (
+                    <Toggle
+                      key={tag.id}
+                      size="sm"
+                      variant="outline"
+                      className="h-7 gap-1 text-xs"
+                      pressed={tagIds.includes(tag.id)}
+                      onPressedChange={(pressed) => toggleTag(tag.id, pressed)}
+                    >
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                      {tag.name}
+                    </Toggle>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="import-update-existing">Atualizar leads existentes</Label>
+                <p className="text-xs text-muted-foreground">
+                  Preenche os leads já cadastrados com os valores do arquivo. Desligado, as linhas repetidas são puladas.
+                </p>
+              </div>
+              <Switch id="import-update-existing" checked={updateExisting} onCheckedChange={setUpdateExisting} />
+            </div>
+
+            {preview && preview.totalRows > INLINE_IMPORT_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Arquivos grandes são importados em segundo plano. Você pode fechar esta janela e acompanhar o progresso aqui.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'result' && resultJob && (
+          <div className="space-y-4">
+            {(resultJob.status === 'pending' || resultJob.status === 'processing') && (
+              <p className="text-sm text-muted-foreground">
+                Importação em segundo plano. Os leads aparecem na lista conforme as linhas são processadas.
+              </p>
+            )}
+            <ImportJobSummary job={resultJob} />
+            {resultJob.row_errors.length > 0 && (
+              <div className="space-y-2">
+                <Label>Linhas puladas</Label>
+                <div className="max-h-64 overflow-y-auto rounded-lg border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[80px]">Linha</TableHead>
+                        <TableHead>Motivo</TableHead>
+                        <TableHead>Valor</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {resultJob.row_errors.map((rowError, index) => (
+                        <TableRow key={index}>
+                          <TableCell>{rowError.row}</TableCell>
+                          <TableCell>{LEAD_IMPORT_SKIP_REASON_LABELS[rowError.reason] || rowError.reason}</TableCell>
+                          <TableCell className="max-w-[240px] truncate text-xs text-muted-foreground">{rowError.value || '-'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {resultJob.skipped_count > resultJob.row_errors.length && (
+                  <p className="text-xs text-muted-foreground">
+                    Mostrando as primeiras {resultJob.row_errors.length} de {resultJob.skipped_count} linhas puladas.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={reset}>Trocar arquivo</Button>
+              <Button onClick={() => setStep('options')} disabled={!!mappingError}>Continuar</Button>
+            </>
+          )}
+          {step === 'options' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={isImporting}>Voltar</Button>
+              <Button onClick={handleImport} disabled={isImporting}>
+                {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Importar {preview?.totalRows} linha(s)
+              </Button>
+            </>
+          )}
+          {step === 'result' && (
+            <>
+              <Button variant="outline" onClick={reset}>Importar outro arquivo</Button>
+              <Button onClick={() => handleOpenChange(false)}>Fechar</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { Lead, LeadCustomField } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Pencil } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLeadCustomFields } from '@/hooks/useLeadCustomFields';
+import { customFieldValues, formatCustomFieldValue, parseCustomFieldValue } from '@/lib/customFields';
+
+interface LeadCustomFieldsSectionProps {
+  lead: Lead;
+  onSaved?: () => void;
+}
+
+// Texto de cada input; seleção múltipla guarda as opções marcadas
+type Draft = Record<string, string | string[]>;
+
+const NO_VALUE = '__none__';
+
+function draftFromLead(lead: Lead, fields: LeadCustomField[]): Draft {
+  const values = customFieldValues(lead);
+  const draft: Draft = {};
+  for (const field of fields) {
+    const value = values[field.key];
+    if (field.field_type === 'multi_select') {
+      draft[field.key] = Array.isArray(value) ? value.map(String) : [];
+    } else {
+      draft[field.key] = value === null || value === undefined ? '' : String(value);
+    }
+  }
+  return draft;
+}
+
+/** Seção "Campos personalizados" do lead, com edição dos valores */
+export function LeadCustomFieldsSection({ lead, onSaved }: LeadCustomFieldsSectionProps) {
+  const { fields, saveLeadValues, isSavingValues } = useLeadCustomFields();
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<Draft>({});
+
+  if (fields.length === 0) return null;
+
+  const values = customFieldValues(lead);
+
+  function startEditing() {
+    setDraft(draftFromLead(lead, fields));
+    setIsEditing(true);
+  }
+
+  async function handleSave() {
+    const next: Record<string, unknown> = {};
+    for (const field of fields) {
+      const input = draft[field.key];
+      if (Array.isArray(input)) {
+        next[field.key] = input;
+        continue;
+      }
+      const parsed = parseCustomFieldValue(field, input ?? '');
+      if (parsed.error) {
+        toast({
+          title: `Valor inválido em "${field.label}"`,
+          description: field.field_type === 'url' ? 'Informe uma URL válida.' : 'Confira o formato do valor.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      next[field.key] = parsed.value;
+    }
+
+    try {
+      await saveLeadValues({ leadId: lead.id, values: next });
+      setIsEditing(false);
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar campos',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  function renderInput(field: LeadCustomField) {
+    const id = `custom-field-${field.key}`;
+    const value = draft[field.key];
+
+    if (field.field_type === 'multi_select') {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-3">
+          {field.options.map(option => (
+            <label key={option} className="flex items-center gap-1.5 text-sm">
+              <Checkbox
+                checked={selected.includes(option)}
+                onCheckedChange={(checked) =>
+                  setDraft({
+                    ...draft,
+                    [field.key]: checked ? [...selected, option] : selected.filter(item => item !== option),
+                  })
+                }
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    if (field.field_type === 'select') {
+      return (
+        <Select
+          value={typeof value === 'string' && value ? value : NO_VALUE}
+          onValueChange={(v) => setDraft({ ...draft, [field.key]: v === NO_VALUE ? '' : v })}
+        >
+          <SelectTrigger id={id}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_VALUE}>Sem valor</SelectItem>
+            {field.options.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    const inputType = field.field_type === 'date' ? 'date' : field.field_type === 'number' ? 'number' : 'text';
+    return (
+      <Input
+        id={id}
+        type={inputType}
+        step={field.field_type === 'number' ? 'any' : undefined}
+        placeholder={field.field_type === 'url' ? 'https://' : undefined}
+        value={typeof value === 'string' ? value : ''}
+        onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+      />
+    );
+  }
+
+  function renderValue(field: LeadCustomField) {
+    const value = values[field.key];
+    const text = formatCustomFieldValue(field, value);
+    if (!text) return <span className="text-muted-foreground">-</span>;
+    if (field.field_type === 'url' && typeof value === 'string') {
+      return (
+        <a href={value} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline break-all">
+          {text}
+        </a>
+      );
+    }
+    if (field.field_type === 'multi_select' && Array.isArray(value)) {
+      return (
+        <div className="flex flex-wrap gap-1">
+          {value.map(item => (
+            <Badge key={String(item)} variant="secondary" className="text-xs">{String(item)}</Badge>
+          ))}
+        </div>
+      );
+    }
+    return <span>{text}</span>;
+  }
+
+  return (
+    <>
+      <Separator />
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+            Campos personalizados
+          </h3>
+          {!isEditing && (
+            <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={startEditing}>
+              <Pencil className="h-3.5 w-3.5" />
+              Editar
+            </Button>
+          )}
+        </div>
+
+        {isEditing ? (
+          <div className="space-y-3">
+            {fields.map(field => (
+              <div key={field.id} className="space-y-1">
+                <Label htmlFor={`custom-field-${field.key}`} className="text-xs">{field.label}</Label>
+                {renderInput(field)}
+              </div>
+            ))}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setIsEditing(false)} disabled={isSavingValues}>
+                Cancelar
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={isSavingValues}>
+                {isSavingValues && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <dl className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-x-3 gap-y-2 text-sm">
+            {fields.map(field => (
+              <div key={field.id} className="contents">
+                <dt className="text-muted-foreground">{field.label}</dt>
+                <dd>{renderValue(field)}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+    </>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
 import { Lead } from '@/types';
 import {
   Sheet,
@@ -11,6 +13,7 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Building2, 
   Mail, 
@@ -33,11 +36,21 @@ import {
   Briefcase as BriefcaseIcon,
   UserPlus,
   Award,
+  MessagesSquare,
+  MessageSquareText,
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { LinkedInAdvancedSection } from './LinkedInAdvancedSection';
+import { LeadCustomFieldsSection } from './LeadCustomFieldsSection';
+import { LeadStageSection } from './LeadStageSection';
 import { useTags } from '@/hooks/useTags';
+import { useLeadConversations } from '@/hooks/useInbox';
+import { useSnippets } from '@/hooks/useSnippets';
+import { SnippetPicker } from '@/components/snippets/SnippetPicker';
+import { renderSnippetForLead } from '@/lib/snippets';
+import { useWorkspaceMembers } from '@/hooks/useWorkspaceMembers';
+import { memberName } from '@/lib/conversationSla';
 
 interface LeadDetailsDrawerProps {
   lead: Lead | null;
@@ -57,8 +70,13 @@ export function LeadDetailsDrawer({
   const navigate = useNavigate();
   const { toast } = useToast();
   const { getLeadTags } = useTags();
+  const { chats: conversations } = useLeadConversations(open ? lead?.id : undefined);
+  const { recordUsage: recordSnippetUsage } = useSnippets();
+  const { members } = useWorkspaceMembers();
   
   const [isDeepEnriching, setIsDeepEnriching] = useState(false);
+  const [isEndingConversation, setIsEndingConversation] = useState(false);
+  const [isAssigning, setIsAssigning] = useState(false);
 
   if (!lead) return null;
 
@@ -79,6 +97,72 @@ export function LeadDetailsDrawer({
     onOpenChange(false);
   };
 
+  const openConversation = (chatId: string) => {
+    navigate(`/inbox?chat=${chatId}`);
+    onOpenChange(false);
+  };
+
+  // Saved reply rendered for this lead, pasted by hand into LinkedIn/WhatsApp/email
+  const handleCopySnippet = async (snippet: { id: string; title: string; body: string }) => {
+    try {
+      await navigator.clipboard.writeText(renderSnippetForLead(snippet.body, lead));
+      toast({ title: 'Resposta copiada', description: snippet.title });
+      recordSnippetUsage({ snippetIds: [snippet.id], context: 'lead_copy', leadId: lead.id }).catch(() => undefined);
+    } catch (error) {
+      toast({
+        title: 'Erro ao copiar resposta',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Lead owner: new conversations with this lead are assigned to them
+  const handleAssign = async (value: string) => {
+    const userId = value === 'unassigned' ? null : value;
+    setIsAssigning(true);
+    try {
+      const { error } = await supabase
+        .from('leads')
+        .update({ assigned_to: userId, assigned_at: userId ? new Date().toISOString() : null })
+        .eq('id', lead.id);
+
+      if (error) throw error;
+      onLeadUpdated?.();
+    } catch (error) {
+      toast({
+        title: 'Erro ao definir responsável',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  // Closes the handoff: the lead can be reached by campaigns again
+  const handleEndConversation = async () => {
+    setIsEndingConversation(true);
+    try {
+      const { error } = await supabase
+        .from('leads')
+        .update({ in_conversation_at: null, in_conversation_campaign_id: null })
+        .eq('id', lead.id);
+
+      if (error) throw error;
+      toast({ title: 'Conversa encerrada' });
+      onLeadUpdated?.();
+    } catch (error) {
+      toast({
+        title: 'Erro ao encerrar conversa',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsEndingConversation(false);
+    }
+  };
+
   const handleDeepEnrich = async () => {
     if (!workspaceId || !lead.id || !lead.linkedin_url) return;
 
@@ -225,6 +309,89 @@ export function LeadDetailsDrawer({
           </div>
         </SheetHeader>
 
+        {/* Owner of the lead and of its conversations */}
+        <div className="mt-4 flex items-center justify-between gap-3">
+          <span className="flex items-center gap-2 text-sm text-muted-foreground">
+            <User className="h-4 w-4" />
+            Responsável
+          </span>
+          <Select value={lead.assigned_to || 'unassigned'} onValueChange={handleAssign} disabled={isAssigning}>
+            <SelectTrigger className="h-8 w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unassigned">Sem responsável</SelectItem>
+              {members.map((member) => (
+                <SelectItem key={member.user_id} value={member.user_id}>{memberName(member)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Em conversa: the lead replied to a campaign and its outreach was halted */}
+        {lead.in_conversation_at && (
+          <div className="mt-4 p-3 rounded-lg border bg-muted/30 flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-sm">
+              <MessagesSquare className="h-4 w-4 text-primary" />
+              <span>
+                <span className="font-medium">Em conversa</span>
+                <span className="text-muted-foreground">
+                  {' '}desde {format(new Date(lead.in_conversation_at), "dd/MM 'às' HH:mm", { locale: ptBR })}
+                </span>
+              </span>
+            </div>
+            <Button size="sm" variant="outline" onClick={handleEndConversation} disabled={isEndingConversation}>
+              {isEndingConversation && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+              Encerrar conversa
+            </Button>
+          </div>
+        )}
+
+        {/* Inbox conversations linked to this lead */}
+        {conversations.length > 0 && (
+          <div className="mt-4 p-3 rounded-lg border bg-muted/30 space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <MessagesSquare className="h-4 w-4 text-primary" />
+              Conversas
+            </div>
+            {conversations.map((chat) => (
+              <button
+                key={chat.id}
+                type="button"
+                onClick={() => openConversation(chat.id)}
+                className="w-full text-left rounded-md border bg-background px-3 py-2 hover:bg-muted/50 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    {chat.channel === 'linkedin' ? <Linkedin className="h-3 w-3" /> : <MessageSquare className="h-3 w-3" />}
+                    {chat.account?.name || (chat.channel === 'linkedin' ? 'LinkedIn' : 'WhatsApp')}
+                    {chat.campaign ? ` · ${chat.campaign.name}` : ''}
+                  </span>
+                  {chat.last_message_at && (
+                    <span>{formatDistanceToNow(new Date(chat.last_message_at), { addSuffix: true, locale: ptBR })}</span>
+                  )}
+                </div>
+                <p className="text-sm truncate">
+                  {chat.last_message_sender === 'me' ? 'Você: ' : ''}
+                  {chat.last_message || 'Anexo'}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Saved replies copied with the lead's variables filled in */}
+        <div className="mt-4 p-3 rounded-lg border bg-muted/30 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <MessageSquareText className="h-4 w-4 text-primary" />
+              Respostas prontas
+            </div>
+            <p className="text-xs text-muted-foreground">Copie um snippet já preenchido com os dados deste lead.</p>
+          </div>
+          <SnippetPicker onSelect={handleCopySnippet} label="Copiar" />
+        </div>
+
         {/* LinkedIn Deep Enrich Section */}
         {canEnrich && (
           <div className="mt-4 p-3 rounded-lg border bg-muted/30 space-y-3">
@@ -267,6 +434,10 @@ export function LeadDetailsDrawer({
         )}
 
         <div className="mt-6 space-y-6">
+          <LeadStageSection lead={lead} onMoved={onLeadUpdated} />
+
+          <Separator />
+
           {/* Personal Info */}
           <div className="space-y-3">
             <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
@@ -442,6 +613,9 @@ export function LeadDetailsDrawer({
             </div>
           </div>
 
+          {/* Workspace custom fields (hidden when the workspace has none) */}
+          <LeadCustomFieldsSection key={lead.id} lead={lead} onSaved={onLeadUpdated} />
+
           {/* Additional Info */}
           {(lead.keywords || lead.company_technologies) && (
             <>
@@ -1,4 +1,4 @@
-import { useMemo, useState } from 'react';
+import { useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
@@ -16,50 +16,35 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { Checkbox } from '@/components/ui/checkbox';
-import { X, Filter, Plus, Tag } from 'lucide-react';
-import { Lead, LeadList, LeadFilters as LeadFiltersType } from '@/types';
+import { X, Filter, Plus, Tag, Search } from 'lucide-react';
+import { LeadList, LeadFilters as LeadFiltersType } from '@/types';
 import { CreateListDialog } from './CreateListDialog';
+import { CustomFieldFilter } from './CustomFieldFilter';
 import { useTags, Tag as TagType } from '@/hooks/useTags';
+import { useLeadFilterOptions } from '@/hooks/useLeadsPage';
+import { useLeadStages } from '@/hooks/useLeadStages';
+import { EMPTY_LEAD_FILTERS, hasActiveLeadFilters } from '@/lib/leadFilters';
 
 interface LeadFiltersProps {
   filters: LeadFiltersType;
   onFiltersChange: (filters: LeadFiltersType) => void;
-  leads: Lead[];
   lists: LeadList[];
   onCreateList?: (name: string, description?: string) => Promise<void>;
 }
 
-export function LeadFilters({ filters, onFiltersChange, leads, lists, onCreateList }: LeadFiltersProps) {
+export function LeadFilters({ filters, onFiltersChange, lists, onCreateList }: LeadFiltersProps) {
   const [createListOpen, setCreateListOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const { tags } = useTags();
+  const { stages } = useLeadStages();
 
-  // Extract unique values from leads for select options
-  const uniqueIndustries = useMemo(() => {
-    const industries = leads
-      .map(l => l.industry)
-      .filter((v): v is string => !!v);
-    return [...new Set(industries)].sort();
-  }, [leads]);
+  // Indústrias e países vêm do banco: a tabela só carrega uma página por vez
+  const { industries: uniqueIndustries, countries: uniqueCountries } = useLeadFilterOptions();
 
-  const uniqueCountries = useMemo(() => {
-    const countries = leads
-      .map(l => l.country)
-      .filter((v): v is string => !!v);
-    return [...new Set(countries)].sort();
-  }, [leads]);
-
-  const hasFilters = filters.company || filters.jobTitle || filters.industry || filters.country || filters.listId || filters.tagIds.length > 0;
+  const hasFilters = hasActiveLeadFilters(filters);
 
   function clearFilters() {
-    onFiltersChange({
-      company: '',
-      jobTitle: '',
-      industry: '',
-      country: '',
-      listId: null,
-      tagIds: [],
-    });
+    onFiltersChange(EMPTY_LEAD_FILTERS);
   }
 
   function toggleTagFilter(tagId: string) {
@@ -90,6 +75,20 @@ export function LeadFilters({ filters, onFiltersChange, leads, lists, onCreateLi
           Filtros
         </div>
 
+        <div className="space-y-1">
+          <Label htmlFor="filter-search" className="text-xs">Buscar</Label>
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="filter-search"
+              placeholder="Nome, empresa ou headline..."
+              value={filters.search}
+              onChange={(e) => onFiltersChange({ ...filters, search: e.target.value })}
+              className="w-[220px] h-9 pl-8"
+            />
+          </div>
+        </div>
+
         <div className="space-y-1">
           <Label htmlFor="filter-list" className="text-xs">Lista</Label>
           <Select
@@ -111,6 +110,26 @@ export function LeadFilters({ filters, onFiltersChange, leads, lists, onCreateLi
           </Select>
         </div>
 
+        <div className="space-y-1">
+          <Label htmlFor="filter-stage" className="text-xs">Etapa</Label>
+          <Select
+            value={filters.stageId || 'all'}
+            onValueChange={(v) => onFiltersChange({ ...filters, stageId: v === 'all' ? null : v })}
+          >
+            <SelectTrigger id="filter-stage" className="w-[160px] h-9">
+              <SelectValue placeholder="Todas as etapas" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as etapas</SelectItem>
+              {stages.map(stage => (
+                <SelectItem key={stage.id} value={stage.id}>
+                  {stage.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Tag Filter */}
         <div className="space-y-1">
           <Label className="text-xs">Tags</Label>
@@ -250,6 +269,11 @@ export function LeadFilters({ filters, onFiltersChange, leads, lists, onCreateLi
           </Select>
         </div>
 
+        <CustomFieldFilter
+          value={filters.customFields}
+          onChange={(customFields) => onFiltersChange({ ...filters, customFields })}
+        />
+
         {hasFilters && (
           <Button variant="ghost" size="sm" onClick={clearFilters} className="h-9">
             <X className="h-4 w-4 mr-1" />
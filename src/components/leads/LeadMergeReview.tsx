@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Loader2, GitMerge, X } from 'lucide-react';
+import { Lead, LeadList } from '@/types';
+import { LeadDuplicate, MergeLeadsInput } from '@/hooks/useLeadDuplicates';
+import {
+  defaultMergeFields,
+  isEmptyLeadValue,
+  LEAD_DUPLICATE_REASON_LABELS,
+  LEAD_MERGE_FIELDS,
+  pickSurvivingLead,
+} from '@/lib/leadMerge';
+
+interface LeadMergeReviewProps {
+  duplicate: LeadDuplicate;
+  lists: LeadList[];
+  onMerge: (input: MergeLeadsInput) => Promise<void>;
+  onDismiss: () => Promise<void>;
+  disabled?: boolean;
+}
+
+// Para cada coluna, o id do lead cujo valor fica
+type ValueSources = Record<string, string>;
+
+function initialSources(surviving: Lead, merged: Lead): ValueSources {
+  const sources: ValueSources = {};
+  for (const field of defaultMergeFields(surviving, merged)) sources[field] = merged.id;
+  return sources;
+}
+
+export function LeadMergeReview({ duplicate, lists, onMerge, onDismiss, disabled }: LeadMergeReviewProps) {
+  const pair = [duplicate.lead, duplicate.duplicate];
+  const [survivingId, setSurvivingId] = useState(() => pickSurvivingLead(duplicate.lead, duplicate.duplicate)[0].id);
+  const surviving = pair.find(l => l.id === survivingId)!;
+  const merged = pair.find(l => l.id !== survivingId)!;
+  const [sources, setSources] = useState<ValueSources>(() => initialSources(surviving, merged));
+  const [action, setAction] = useState<'merge' | 'dismiss' | null>(null);
+
+  // Only fields where the two leads differ need a choice
+  const fields = LEAD_MERGE_FIELDS.filter(({ key }) => {
+    const a = duplicate.lead[key];
+    const b = duplicate.duplicate[key];
+    return !(isEmptyLeadValue(a) && isEmptyLeadValue(b)) && String(a ?? '') !== String(b ?? '');
+  });
+
+  function changeSurviving(leadId: string) {
+    const nextSurviving = pair.find(l => l.id === leadId)!;
+    const nextMerged = pair.find(l => l.id !== leadId)!;
+    setSurvivingId(leadId);
+    setSources(initialSources(nextSurviving, nextMerged));
+  }
+
+  function sourceOf(key: string) {
+    return sources[key] || survivingId;
+  }
+
+  function displayValue(lead: Lead, key: keyof Lead) {
+    const value = lead[key];
+    if (isEmptyLeadValue(value)) return <span className="text-muted-foreground">-</span>;
+    if (key === 'list_id') return lists.find(l => l.id === value)?.name || 'Lista removida';
+    return String(value);
+  }
+
+  async function handleMerge() {
+    setAction('merge');
+    try {
+      await onMerge({
+        survivingLeadId: surviving.id,
+        mergedLeadId: merged.id,
+        fields: Object.keys(sources).filter(key => sources[key] === merged.id),
+      });
+    } finally {
+      setAction(null);
+    }
+  }
+
+  async function handleDismiss() {
+    setAction('dismiss');
+    try {
+      await onDismiss();
+    } finally {
+      setAction(null);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="text-base">
+              {duplicate.lead.full_name || duplicate.lead.email || 'Sem nome'}
+            </CardTitle>
+            <CardDescription className="flex items-center gap-2">
+              <Badge variant="secondary">{LEAD_DUPLICATE_REASON_LABELS[duplicate.reason]}</Badge>
+              {duplicate.reason === 'name_company' && (
+                <span className="text-xs">{Math.round(duplicate.score * 100)}% de semelhança</span>
+              )}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={handleDismiss} disabled={disabled || action !== null}>
+              {action === 'dismiss' ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <X className="mr-2 h-4 w-4" />
+              )}
+              Não é duplicado
+            </Button>
+            <Button size="sm" onClick={handleMerge} disabled={disabled || action !== null}>
+              {action === 'merge' ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <GitMerge className="mr-2 h-4 w-4" />
+              )}
+              Mesclar
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-40">Campo</TableHead>
+              {pair.map(lead => (
+                <TableHead key={lead.id}>
+                  <RadioGroup value={survivingId} onValueChange={changeSurviving}>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value={lead.id} id={`keep-${duplicate.lead_id}-${lead.id}`} />
+                      <Label htmlFor={`keep-${duplicate.lead_id}-${lead.id}`} className="cursor-pointer">
+                        {lead.id === survivingId ? 'Fica' : 'Será apagado'}
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                  <p className="text-xs font-normal text-muted-foreground">
+                    Criado em {format(new Date(lead.created_at), 'dd/MM/yyyy', { locale: ptBR })}
+                  </p>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {fields.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} className="text-center text-sm text-muted-foreground">
+                  Os campos principais são iguais nos dois leads.
+                </TableCell>
+              </TableRow>
+            ) : (
+              fields.map(({ key, label }) => (
+                <TableRow key={key}>
+                  <TableCell className="font-medium">{label}</TableCell>
+                  {pair.map(lead => {
+                    const id = `field-${duplicate.lead_id}-${key}-${lead.id}`;
+                    return (
+                      <TableCell key={lead.id}>
+                        <RadioGroup
+                          value={sourceOf(key)}
+                          onValueChange={(value) => setSources(prev => ({ ...prev, [key]: value }))}
+                        >
+                          <div className="flex items-center gap-2">
+                            <RadioGroupItem value={lead.id} id={id} />
+                            <Label htmlFor={id} className="cursor-pointer font-normal break-all">
+                              {displayValue(lead, key)}
+                            </Label>
+                          </div>
+                        </RadioGroup>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        <p className="mt-3 text-xs text-muted-foreground">
+          Campanhas, tags, ações e histórico de enriquecimento do lead apagado passam para o lead que fica.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2 } from 'lucide-react';
+import { useLeadsPage } from '@/hooks/useLeadsPage';
+import { LeadFilters, LeadSort, LeadStage } from '@/types';
+import { LEAD_DRAG_TYPE, LEAD_STAGE_KIND_LABELS } from '@/lib/leadStages';
+import { cn } from '@/lib/utils';
+
+interface LeadPipelineColumnProps {
+  stage: LeadStage;
+  filters: LeadFilters;
+  sort: LeadSort;
+  onLeadClick: (leadId: string) => void;
+  onLeadDrop: (leadId: string, stage: LeadStage) => void;
+}
+
+/** Coluna do Kanban: leads de uma etapa, paginados como a tabela de leads */
+export function LeadPipelineColumn({ stage, filters, sort, onLeadClick, onLeadDrop }: LeadPipelineColumnProps) {
+  const { leads, totalCount, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useLeadsPage(
+    { ...filters, stageId: stage.id },
+    sort
+  );
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  return (
+    <div
+      className={cn(
+        'flex w-72 flex-shrink-0 flex-col rounded-lg border bg-muted/40',
+        isDragOver && 'ring-2 ring-primary'
+      )}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(LEAD_DRAG_TYPE)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragOver(false);
+        const leadId = e.dataTransfer.getData(LEAD_DRAG_TYPE);
+        if (leadId && !leads.some(lead => lead.id === leadId)) onLeadDrop(leadId, stage);
+      }}
+    >
+      <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <span className="h-3 w-3 flex-shrink-0 rounded-full" style={{ backgroundColor: stage.color }} />
+          <span className="truncate text-sm font-semibold">{stage.name}</span>
+          {stage.kind !== 'open' && (
+            <Badge variant="outline" className="text-xs">{LEAD_STAGE_KIND_LABELS[stage.kind]}</Badge>
+          )}
+        </div>
+        <Badge variant="secondary">{totalCount}</Badge>
+      </div>
+
+      <div className="flex-1 space-y-2 overflow-y-auto p-2">
+        {isLoading ? (
+          [1, 2, 3].map((i) => <Skeleton key={i} className="h-16 w-full" />)
+        ) : leads.length === 0 ? (
+          <p className="py-6 text-center text-xs text-muted-foreground">Arraste leads para cá</p>
+        ) : (
+          leads.map((lead) => (
+            <div
+              key={lead.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(LEAD_DRAG_TYPE, lead.id);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onClick={() => onLeadClick(lead.id)}
+              className="cursor-pointer rounded-md border bg-card p-2 text-sm shadow-sm hover:border-primary/50"
+            >
+              <p className="truncate font-medium">{lead.full_name || 'Sem nome'}</p>
+              {(lead.job_title || lead.company) && (
+                <p className="truncate text-xs text-muted-foreground">
+                  {[lead.job_title, lead.company].filter(Boolean).join(' · ')}
+                </p>
+              )}
+              {lead.stage_changed_at && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Na etapa há {formatDistanceToNow(new Date(lead.stage_changed_at), { locale: ptBR })}
+                </p>
+              )}
+            </div>
+          ))
+        )}
+
+        {hasNextPage && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Carregar mais
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
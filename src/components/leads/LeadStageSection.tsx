@@ -0,0 +1,87 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Lead } from '@/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLeadStageHistory, useLeadStages } from '@/hooks/useLeadStages';
+import { LEAD_STAGE_HISTORY_SOURCE_LABELS } from '@/lib/leadStages';
+
+interface LeadStageSectionProps {
+  lead: Lead;
+  onMoved?: () => void;
+}
+
+/** Etapa do lead no pipeline, com troca manual e o histórico de mudanças */
+export function LeadStageSection({ lead, onMoved }: LeadStageSectionProps) {
+  const { stages, moveLeadsToStage, isMoving } = useLeadStages();
+  const { history, isLoading: historyLoading } = useLeadStageHistory(lead.id);
+  const { toast } = useToast();
+
+  if (stages.length === 0) return null;
+
+  async function handleChange(stageId: string) {
+    if (stageId === lead.stage_id) return;
+    try {
+      await moveLeadsToStage({ leadIds: [lead.id], stageId });
+      onMoved?.();
+    } catch (error) {
+      toast({
+        title: 'Erro ao mover lead',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+        Pipeline
+      </h3>
+
+      <div className="flex items-center gap-3">
+        <Select value={lead.stage_id ?? undefined} onValueChange={handleChange} disabled={isMoving}>
+          <SelectTrigger className="w-[200px] h-9">
+            <SelectValue placeholder="Sem etapa" />
+          </SelectTrigger>
+          <SelectContent>
+            {stages.map(stage => (
+              <SelectItem key={stage.id} value={stage.id}>
+                <span className="flex items-center gap-2">
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: stage.color }} />
+                  {stage.name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isMoving && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        {lead.stage_changed_at && (
+          <span className="text-xs text-muted-foreground">
+            há {formatDistanceToNow(new Date(lead.stage_changed_at), { locale: ptBR })}
+          </span>
+        )}
+      </div>
+
+      {historyLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : history.length > 0 && (
+        <div className="space-y-2 border-l pl-3">
+          {history.map(entry => (
+            <div key={entry.id} className="text-sm">
+              <p>
+                {entry.from_stage_name ? `${entry.from_stage_name} → ` : ''}
+                <span className="font-medium">{entry.to_stage_name}</span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {LEAD_STAGE_HISTORY_SOURCE_LABELS[entry.source]} ·{' '}
+                {format(new Date(entry.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
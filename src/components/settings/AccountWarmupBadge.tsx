@@ -0,0 +1,42 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Flame } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Account } from '@/hooks/useAccounts';
+import { WorkspaceSettings } from '@/hooks/useWorkspaceSettings';
+import { getAccountWarmup } from '@/lib/warmup';
+
+interface AccountWarmupBadgeProps {
+  account: Account;
+  settings: Pick<WorkspaceSettings, 'daily_message_limit' | 'linkedin_daily_invite_limit' | 'linkedin_daily_message_limit'>;
+}
+
+/** Estágio da rampa de aquecimento de uma conta nova (nada quando já está no limite cheio) */
+export function AccountWarmupBadge({ account, settings }: AccountWarmupBadgeProps) {
+  const warmup = getAccountWarmup(account, settings);
+  if (!warmup) return null;
+
+  const { stage, unit, fullOn } = warmup;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className="text-xs gap-1 border-amber-500/50 text-amber-600">
+          <Flame className="h-3 w-3" />
+          Aquecimento · dia {stage.day}{stage.fullDay ? `/${stage.fullDay}` : ''}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <p className="text-xs">
+          Hoje: até {stage.limit} {unit}/dia (limite cheio: {stage.targetLimit}).
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {fullOn
+            ? `Limite cheio a partir de ${format(fullOn, "dd 'de' MMMM", { locale: ptBR })}.`
+            : 'O limite não aumenta (aumento diário = 0).'}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
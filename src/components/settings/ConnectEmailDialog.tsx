@@ -0,0 +1,347 @@
+import { useEffect, useState } from 'react';
+import { Account, ConnectEmailAccountInput, MailSecurity, useAccounts } from '@/hooks/useAccounts';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Mail, Info } from 'lucide-react';
+
+const securityLabels: Record<MailSecurity, string> = {
+  tls: 'SSL/TLS',
+  starttls: 'STARTTLS',
+  none: 'Nenhuma (sink local)',
+};
+
+const defaultPorts: Record<'smtp' | 'imap', Record<MailSecurity, number>> = {
+  smtp: { tls: 465, starttls: 587, none: 25 },
+  imap: { tls: 993, starttls: 143, none: 143 },
+};
+
+interface ServerForm {
+  host: string;
+  port: string;
+  security: MailSecurity;
+  username: string;
+  password: string;
+}
+
+const emptySmtp: ServerForm = { host: '', port: '587', security: 'starttls', username: '', password: '' };
+const emptyImap: ServerForm = { host: '', port: '993', security: 'tls', username: '', password: '' };
+
+interface ConnectEmailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** When set, only the name and sending limits of this mailbox are edited */
+  account?: Account | null;
+}
+
+export function ConnectEmailDialog({ open, onOpenChange, account }: ConnectEmailDialogProps) {
+  const { connectEmailAccount, isConnectingEmail, updateAccountLimits, isUpdatingLimits } = useAccounts();
+  const { toast } = useToast();
+  const isEdit = !!account;
+
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [fromName, setFromName] = useState('');
+  const [smtp, setSmtp] = useState<ServerForm>(emptySmtp);
+  const [imapEnabled, setImapEnabled] = useState(true);
+  const [imap, setImap] = useState<ServerForm>(emptyImap);
+  const [dailyLimit, setDailyLimit] = useState('50');
+  const [intervalSeconds, setIntervalSeconds] = useState('60');
+  const [testRecipient, setTestRecipient] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setEmail(account?.account_id || '');
+    setName(account?.name || '');
+    setFromName('');
+    setSmtp(emptySmtp);
+    setImap(emptyImap);
+    setImapEnabled(true);
+    setDailyLimit(String(account?.daily_message_limit ?? 50));
+    setIntervalSeconds(String(account?.message_interval_seconds ?? 60));
+    setTestRecipient('');
+  }, [open, account]);
+
+  function updateServer(kind: 'smtp' | 'imap', patch: Partial<ServerForm>) {
+    const setter = kind === 'smtp' ? setSmtp : setImap;
+    setter(prev => {
+      const next = { ...prev, ...patch };
+      // Suggest the standard port when security changes
+      if (patch.security && prev.port === String(defaultPorts[kind][prev.security])) {
+        next.port = String(defaultPorts[kind][patch.security]);
+      }
+      return next;
+    });
+  }
+
+  function toServerInput(form: ServerForm) {
+    return {
+      host: form.host.trim(),
+      port: parseInt(form.port, 10),
+      security: form.security,
+      username: form.username.trim() || undefined,
+      password: form.password || undefined,
+    };
+  }
+
+  const parsedDailyLimit = Math.max(1, Math.min(500, parseInt(dailyLimit, 10) || 50));
+  const parsedInterval = Math.max(10, Math.min(600, parseInt(intervalSeconds, 10) || 60));
+
+  async function handleSaveLimits() {
+    if (!account) return;
+    try {
+      await updateAccountLimits({
+        accountId: account.id,
+        name: name.trim() || account.account_id,
+        dailyLimit: parsedDailyLimit,
+        intervalSeconds: parsedInterval,
+      });
+      toast({ title: 'Caixa de email atualizada' });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Erro ao atualizar caixa de email',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  async function handleSubmit() {
+    const input: ConnectEmailAccountInput = {
+      email: email.trim(),
+      name: name.trim() || undefined,
+      fromName: fromName.trim() || undefined,
+      smtp: toServerInput(smtp),
+      // IMAP login defaults to the SMTP credentials
+      imap: imapEnabled
+        ? toServerInput({
+            ...imap,
+            username: imap.username || smtp.username,
+            password: imap.password || smtp.password,
+          })
+        : null,
+      dailyLimit: parsedDailyLimit,
+      intervalSeconds: parsedInterval,
+      testRecipient: testRecipient.trim() || undefined,
+    };
+
+    try {
+      const result = await connectEmailAccount(input);
+      if (result.testError) {
+        toast({
+          title: 'Caixa salva, mas o teste falhou',
+          description: result.testError,
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: 'Caixa de email conectada',
+          description: result.testMessageId
+            ? `Mensagem de teste enviada para ${input.testRecipient}.`
+            : `${input.email} está pronta para campanhas.`,
+        });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Erro ao conectar caixa de email',
+        description: error instanceof Error ? error.message : 'Verifique os dados do servidor.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  function renderServerFields(kind: 'smtp' | 'imap', form: ServerForm) {
+    return (
+      <div className="grid grid-cols-6 gap-2">
+        <div className="col-span-3 space-y-1">
+          <Label className="text-xs">Servidor</Label>
+          <Input
+            placeholder={kind === 'smtp' ? 'smtp.seudominio.com' : 'imap.seudominio.com'}
+            value={form.host}
+            onChange={(e) => updateServer(kind, { host: e.target.value })}
+          />
+        </div>
+        <div className="col-span-1 space-y-1">
+          <Label className="text-xs">Porta</Label>
+          <Input
+            type="number"
+            value={form.port}
+            onChange={(e) => updateServer(kind, { port: e.target.value })}
+          />
+        </div>
+        <div className="col-span-2 space-y-1">
+          <Label className="text-xs">Segurança</Label>
+          <Select value={form.security} onValueChange={(v: MailSecurity) => updateServer(kind, { security: v })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(securityLabels) as MailSecurity[]).map(option => (
+                <SelectItem key={option} value={option}>{securityLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="col-span-3 space-y-1">
+          <Label className="text-xs">Usuário</Label>
+          <Input
+            placeholder={kind === 'imap' ? 'Igual ao SMTP' : 'Opcional em sinks locais'}
+            value={form.username}
+            onChange={(e) => updateServer(kind, { username: e.target.value })}
+          />
+        </div>
+        <div className="col-span-3 space-y-1">
+          <Label className="text-xs">Senha</Label>
+          <Input
+            type="password"
+            placeholder={kind === 'imap' ? 'Igual ao SMTP' : ''}
+            value={form.password}
+            onChange={(e) => updateServer(kind, { password: e.target.value })}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const isSaving = isConnectingEmail || isUpdatingLimits;
+  const canSubmit = isEdit || !!email.trim() && !!smtp.host.trim() && !!smtp.port && (!imapEnabled || !!imap.host.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            {isEdit ? 'Editar Caixa de Email' : 'Conectar Caixa de Email'}
+          </DialogTitle>
+          <DialogDescription>
+            {isEdit
+              ? 'Para trocar servidor ou senha, conecte novamente o mesmo endereço.'
+              : 'Campanhas de email são enviadas por SMTP a partir desta caixa. O IMAP é usado para detectar bounces.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Email do remetente *</Label>
+              <Input
+                type="email"
+                placeholder="vendas@seudominio.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                disabled={isEdit}
+              />
+            </div>
+            {!isEdit && (
+              <div className="space-y-1">
+                <Label>Nome do remetente</Label>
+                <Input
+                  placeholder="Maria da Silva"
+                  value={fromName}
+                  onChange={(e) => setFromName(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="col-span-2 space-y-1">
+              <Label>Nome da conta</Label>
+              <Input
+                placeholder="Ex: Caixa comercial"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {!isEdit && (
+            <>
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">SMTP (envio)</Label>
+                {renderServerFields('smtp', smtp)}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm font-medium">IMAP (detecção de bounces)</Label>
+                  <Switch checked={imapEnabled} onCheckedChange={setImapEnabled} />
+                </div>
+                {imapEnabled
+                  ? renderServerFields('imap', imap)
+                  : (
+                    <p className="text-xs text-muted-foreground">
+                      Sem IMAP, apenas rejeições imediatas do servidor SMTP serão marcadas como bounce.
+                    </p>
+                  )}
+              </div>
+            </>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Limite diário de envios</Label>
+              <Input
+                type="number"
+                min={1}
+                max={500}
+                value={dailyLimit}
+                onChange={(e) => setDailyLimit(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Entre 1 e 500 emails por dia nesta caixa</p>
+            </div>
+            <div className="space-y-1">
+              <Label>Intervalo entre envios (s)</Label>
+              <Input
+                type="number"
+                min={10}
+                max={600}
+                value={intervalSeconds}
+                onChange={(e) => setIntervalSeconds(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Com variação aleatória de ±20%</p>
+            </div>
+          </div>
+
+          {!isEdit && (
+            <>
+              <div className="space-y-1">
+                <Label>Enviar email de teste para</Label>
+                <Input
+                  type="email"
+                  placeholder="Opcional"
+                  value={testRecipient}
+                  onChange={(e) => setTestRecipient(e.target.value)}
+                />
+              </div>
+
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription className="text-xs">
+                  Só servidores públicos nas portas padrão (SMTP 25, 465, 587 ou 2525; IMAP 143 ou 993) são
+                  aceitos. Sinks locais (ex.: Mailpit na porta 1025, segurança "Nenhuma", sem usuário) só
+                  funcionam em desenvolvimento, com EMAIL_ALLOW_PRIVATE_HOSTS=true nas funções.
+                </AlertDescription>
+              </Alert>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={isEdit ? handleSaveLimits : handleSubmit} disabled={!canSubmit || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isEdit ? 'Salvar' : 'Verificar e conectar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Linkedin, Loader2, MessageCircle, Save, UserCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useWorkspaceMembers } from '@/hooks/useWorkspaceMembers';
+import { useWorkspaceSettings } from '@/hooks/useWorkspaceSettings';
+import { ConversationAssignmentMode } from '@/types';
+import {
+  ASSIGNMENT_MODE_DESCRIPTIONS,
+  ASSIGNMENT_MODE_LABELS,
+  ASSIGNMENT_MODES,
+  DEFAULT_RESPONSE_SLA_MINUTES,
+  MAX_RESPONSE_SLA_MINUTES,
+  MIN_RESPONSE_SLA_MINUTES,
+  memberName,
+} from '@/lib/conversationSla';
+
+interface ConversationAssignmentCardProps {
+  isAdmin: boolean;
+}
+
+// Valor do Select para conta sem responsável
+const NO_OWNER = 'none';
+
+export function ConversationAssignmentCard({ isAdmin }: ConversationAssignmentCardProps) {
+  const { settings, updateSettings, isUpdating } = useWorkspaceSettings();
+  const { accounts, updateAccountOwner } = useAccounts();
+  const { members } = useWorkspaceMembers();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<ConversationAssignmentMode>('manual');
+  const [slaMinutes, setSlaMinutes] = useState(DEFAULT_RESPONSE_SLA_MINUTES);
+
+  useEffect(() => {
+    setMode(settings.conversation_assignment_mode ?? 'manual');
+    setSlaMinutes(settings.response_sla_minutes ?? DEFAULT_RESPONSE_SLA_MINUTES);
+  }, [settings.conversation_assignment_mode, settings.response_sla_minutes]);
+
+  // Só contas com conversas no Inbox
+  const messagingAccounts = accounts.filter(account => account.channel === 'linkedin' || account.channel === 'whatsapp');
+
+  async function handleSave() {
+    try {
+      await updateSettings({ conversation_assignment_mode: mode, response_sla_minutes: slaMinutes });
+      toast({ title: 'Atribuição de conversas salva' });
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar atribuição',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  async function handleOwnerChange(accountId: string, value: string) {
+    try {
+      await updateAccountOwner({ accountId, ownerId: value === NO_OWNER ? null : value });
+    } catch (error) {
+      toast({
+        title: 'Erro ao definir responsável',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Atribuição de conversas
+        </CardTitle>
+        <CardDescription>
+          Quem assume as conversas novas do Inbox e em quanto tempo elas devem ser respondidas.
+          Conversas de um lead com responsável sempre vão para ele.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Distribuição</Label>
+            <Select
+              value={mode}
+              onValueChange={(v) => setMode(v as ConversationAssignmentMode)}
+              disabled={!isAdmin}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ASSIGNMENT_MODES.map(value => (
+                  <SelectItem key={value} value={value}>{ASSIGNMENT_MODE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{ASSIGNMENT_MODE_DESCRIPTIONS[mode]}</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="response-sla">Prazo de resposta (minutos)</Label>
+            <Input
+              id="response-sla"
+              type="number"
+              min={MIN_RESPONSE_SLA_MINUTES}
+              max={MAX_RESPONSE_SLA_MINUTES}
+              value={slaMinutes}
+              onChange={(e) => setSlaMinutes(Number(e.target.value) || MIN_RESPONSE_SLA_MINUTES)}
+              disabled={!isAdmin}
+            />
+            <p className="text-xs text-muted-foreground">
+              Conversas esperando resposta há mais tempo aparecem como atrasadas.
+            </p>
+          </div>
+        </div>
+
+        {mode === 'account' && (
+          <div className="space-y-2">
+            <Label>Responsável por conta</Label>
+            {messagingAccounts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhuma conta do LinkedIn ou WhatsApp conectada.</p>
+            ) : (
+              <div className="divide-y rounded-md border">
+                {messagingAccounts.map(account => (
+                  <div key={account.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <span className="flex min-w-0 items-center gap-2 text-sm">
+                      {account.channel === 'linkedin'
+                        ? <Linkedin className="h-4 w-4 shrink-0 text-blue-600" />
+                        : <MessageCircle className="h-4 w-4 shrink-0 text-green-600" />}
+                      <span className="truncate">{account.name || account.account_id.slice(0, 12)}</span>
+                    </span>
+                    <Select
+                      value={account.owner_id || NO_OWNER}
+                      onValueChange={(v) => handleOwnerChange(account.id, v)}
+                      disabled={!isAdmin}
+                    >
+                      <SelectTrigger className="h-8 w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_OWNER}>Sem responsável</SelectItem>
+                        {members.map(member => (
+                          <SelectItem key={member.user_id} value={member.user_id}>{memberName(member)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {isAdmin && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSave} disabled={isUpdating} className="gap-1">
+              {isUpdating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Salvar
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, Pencil, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLeadCustomFields } from '@/hooks/useLeadCustomFields';
+import { LeadCustomField, LeadCustomFieldType } from '@/types';
+import {
+  CUSTOM_FIELD_TYPE_LABELS,
+  CUSTOM_FIELD_TYPES,
+  customFieldKeyFromLabel,
+  isSelectFieldType,
+  validateCustomFieldKey,
+} from '@/lib/customFields';
+
+interface LeadCustomFieldsCardProps {
+  isAdmin: boolean;
+}
+
+interface FieldDraft {
+  label: string;
+  key: string;
+  field_type: LeadCustomFieldType;
+  /** Opções separadas por vírgula */
+  options: string;
+}
+
+const EMPTY_DRAFT: FieldDraft = { label: '', key: '', field_type: 'text', options: '' };
+
+function splitOptions(text: string) {
+  return text.split(',').map(option => option.trim()).filter(Boolean);
+}
+
+export function LeadCustomFieldsCard({ isAdmin }: LeadCustomFieldsCardProps) {
+  const { fields, isLoading, createField, isCreating, updateField, isUpdating, removeField, isRemoving } =
+    useLeadCustomFields();
+  const { toast } = useToast();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<FieldDraft>(EMPTY_DRAFT);
+  // A chave acompanha o nome até ser editada à mão
+  const [keyEdited, setKeyEdited] = useState(false);
+  const [deleteConfirmField, setDeleteConfirmField] = useState<LeadCustomField | null>(null);
+
+  const keyError = editingId || !draft.key ? null : validateCustomFieldKey(draft.key, fields);
+  const needsOptions = isSelectFieldType(draft.field_type) && splitOptions(draft.options).length === 0;
+  const canSave = !!draft.label.trim() && !!draft.key && !keyError && !needsOptions;
+
+  function openEditor(field?: LeadCustomField) {
+    setEditingId(field?.id ?? null);
+    setDraft(
+      field
+        ? { label: field.label, key: field.key, field_type: field.field_type, options: field.options.join(', ') }
+        : EMPTY_DRAFT
+    );
+    setKeyEdited(!!field);
+    setEditorOpen(true);
+  }
+
+  function handleLabelChange(label: string) {
+    setDraft(prev => ({ ...prev, label, key: keyEdited ? prev.key : customFieldKeyFromLabel(label) }));
+  }
+
+  async function handleSave() {
+    try {
+      if (editingId) {
+        await updateField({ id: editingId, label: draft.label, options: splitOptions(draft.options) });
+      } else {
+        await createField({
+          key: draft.key,
+          label: draft.label,
+          field_type: draft.field_type,
+          options: splitOptions(draft.options),
+        });
+      }
+      setEditorOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar campo',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleteConfirmField) return;
+    try {
+      await removeField(deleteConfirmField.id);
+      setDeleteConfirmField(null);
+    } catch (error) {
+      toast({
+        title: 'Erro ao remover campo',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5" />
+              Campos personalizados de leads
+            </CardTitle>
+            <CardDescription>
+              Campos extras do workspace: editáveis no lead, filtráveis, mapeáveis na importação, incluídos na
+              exportação e usados nas mensagens como variáveis.
+            </CardDescription>
+          </div>
+          {isAdmin && (
+            <Button size="sm" onClick={() => openEditor()} className="flex-shrink-0 gap-1">
+              <Plus className="h-4 w-4" />
+              Novo campo
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum campo personalizado cadastrado.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {fields.map(field => (
+              <div key={field.id} className="flex items-start justify-between gap-3 px-3 py-2">
+                <div className="min-w-0 space-y-0.5">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">{field.label}</span>
+                    <code className="text-xs text-muted-foreground font-mono">{`{{${field.key}}}`}</code>
+                    <Badge variant="outline" className="text-xs">{CUSTOM_FIELD_TYPE_LABELS[field.field_type]}</Badge>
+                  </div>
+                  {field.options.length > 0 && (
+                    <p className="line-clamp-2 text-xs text-muted-foreground">{field.options.join(', ')}</p>
+                  )}
+                </div>
+                {isAdmin && (
+                  <div className="flex flex-shrink-0 gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-muted-foreground"
+                      title="Editar"
+                      onClick={() => openEditor(field)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      title="Remover"
+                      onClick={() => setDeleteConfirmField(field)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Editar campo' : 'Novo campo'}</DialogTitle>
+            <DialogDescription>
+              {editingId
+                ? 'A chave e o tipo não mudam depois de criados.'
+                : 'A chave vira a variável das mensagens e não pode ser alterada depois.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-label">Nome</Label>
+              <Input
+                id="custom-field-label"
+                placeholder="Ex: Segmento"
+                value={draft.label}
+                onChange={(e) => handleLabelChange(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-key">Chave</Label>
+                <Input
+                  id="custom-field-key"
+                  className="font-mono"
+                  placeholder="segmento"
+                  value={draft.key}
+                  disabled={!!editingId}
+                  onChange={(e) => {
+                    setKeyEdited(true);
+                    setDraft({ ...draft, key: e.target.value.trim().toLowerCase() });
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select
+                  value={draft.field_type}
+                  disabled={!!editingId}
+                  onValueChange={(v) => setDraft({ ...draft, field_type: v as LeadCustomFieldType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CUSTOM_FIELD_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {isSelectFieldType(draft.field_type) && (
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-options">Opções</Label>
+                <Input
+                  id="custom-field-options"
+                  placeholder="Varejo, Indústria, Serviços"
+                  value={draft.options}
+                  onChange={(e) => setDraft({ ...draft, options: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Separe as opções por vírgula.</p>
+              </div>
+            )}
+            {keyError && <p className="text-xs text-destructive">{keyError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={isCreating || isUpdating || !canSave}>
+              {(isCreating || isUpdating) && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteConfirmField} onOpenChange={() => setDeleteConfirmField(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover campo?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O campo "{deleteConfirmField?.label}" e os valores dele em todos os leads serão apagados. Mensagens
+              com {`{{${deleteConfirmField?.key}}}`} passam a sair com o valor vazio.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isRemoving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowDown, ArrowUp, Kanban, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { LeadStageInput, useLeadStages } from '@/hooks/useLeadStages';
+import { LeadStage, LeadStageKind } from '@/types';
+import {
+  LEAD_STAGE_COLORS,
+  LEAD_STAGE_EVENT_LABELS,
+  LEAD_STAGE_EVENTS,
+  LEAD_STAGE_KIND_LABELS,
+} from '@/lib/leadStages';
+import { cn } from '@/lib/utils';
+
+interface LeadStagesCardProps {
+  isAdmin: boolean;
+}
+
+const EMPTY_DRAFT: LeadStageInput = { name: '', color: LEAD_STAGE_COLORS[0], kind: 'open', auto_events: [] };
+
+export function LeadStagesCard({ isAdmin }: LeadStagesCardProps) {
+  const {
+    stages,
+    isLoading,
+    createStage,
+    isCreating,
+    updateStage,
+    isUpdating,
+    reorderStages,
+    isReordering,
+    removeStage,
+    isRemoving,
+  } = useLeadStages();
+  const { toast } = useToast();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<LeadStageInput>(EMPTY_DRAFT);
+  const [deleteConfirmStage, setDeleteConfirmStage] = useState<LeadStage | null>(null);
+
+  function openEditor(stage?: LeadStage) {
+    setEditingId(stage?.id ?? null);
+    setDraft(
+      stage
+        ? { name: stage.name, color: stage.color, kind: stage.kind, auto_events: stage.auto_events }
+        : EMPTY_DRAFT
+    );
+    setEditorOpen(true);
+  }
+
+  async function handleSave() {
+    try {
+      if (editingId) {
+        await updateStage({ id: editingId, ...draft });
+      } else {
+        await createStage(draft);
+      }
+      setEditorOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar etapa',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  async function handleMove(index: number, offset: number) {
+    const ids = stages.map(stage => stage.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    try {
+      await reorderStages(ids);
+    } catch (error) {
+      toast({
+        title: 'Erro ao reordenar etapas',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleteConfirmStage) return;
+    try {
+      await removeStage(deleteConfirmStage.id);
+      setDeleteConfirmStage(null);
+    } catch (error) {
+      toast({
+        title: 'Erro ao remover etapa',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  // Quando um evento já move para outra etapa, vale a etapa mais à frente
+  const eventOwners = (event: string) =>
+    stages.filter(stage => stage.id !== editingId && stage.auto_events.some(e => e === event)).map(s => s.name);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Kanban className="h-5 w-5" />
+              Pipeline de leads
+            </CardTitle>
+            <CardDescription>
+              Etapas do funil, na ordem do Kanban. Eventos de campanha movem o lead para a etapa vinculada, sempre
+              para frente e nunca tirando de etapas de ganho ou perda.
+            </CardDescription>
+          </div>
+          {isAdmin && (
+            <Button size="sm" onClick={() => openEditor()} className="flex-shrink-0 gap-1">
+              <Plus className="h-4 w-4" />
+              Nova etapa
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : stages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma etapa cadastrada.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {stages.map((stage, index) => (
+              <div key={stage.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0 space-y-0.5">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="h-3 w-3 rounded-full" style={{ backgroundColor: stage.color }} />
+                    <span className="text-sm font-medium">{stage.name}</span>
+                    {stage.kind !== 'open' && (
+                      <Badge variant="outline" className="text-xs">{LEAD_STAGE_KIND_LABELS[stage.kind]}</Badge>
+                    )}
+                  </div>
+                  {stage.auto_events.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Automático: {stage.auto_events.map(event => LEAD_STAGE_EVENT_LABELS[event]).join(', ')}
+                    </p>
+                  )}
+                </div>
+                {isAdmin && (
+                  <div className="flex flex-shrink-0 gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-muted-foreground"
+                      title="Mover para cima"
+                      disabled={index === 0 || isReordering}
+                      onClick={() => handleMove(index, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-muted-foreground"
+                      title="Mover para baixo"
+                      disabled={index === stages.length - 1 || isReordering}
+                      onClick={() => handleMove(index, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-muted-foreground"
+                      title="Editar"
+                      onClick={() => openEditor(stage)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      title="Remover"
+                      disabled={stages.length <= 1}
+                      onClick={() => setDeleteConfirmStage(stage)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Editar etapa' : 'Nova etapa'}</DialogTitle>
+            <DialogDescription>Novas etapas entram no fim do pipeline; reordene pela lista.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="stage-name">Nome</Label>
+                <Input
+                  id="stage-name"
+                  placeholder="Ex: Proposta enviada"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select value={draft.kind} onValueChange={(v) => setDraft({ ...draft, kind: v as LeadStageKind })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(LEAD_STAGE_KIND_LABELS) as LeadStageKind[]).map(kind => (
+                      <SelectItem key={kind} value={kind}>{LEAD_STAGE_KIND_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Cor</Label>
+              <div className="flex flex-wrap gap-2">
+                {LEAD_STAGE_COLORS.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setDraft({ ...draft, color })}
+                    className={cn(
+                      'h-6 w-6 rounded-full border-2',
+                      draft.color === color ? 'border-foreground' : 'border-transparent'
+                    )}
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Mover automaticamente quando</Label>
+              {LEAD_STAGE_EVENTS.map(event => {
+                const owners = eventOwners(event);
+                return (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={draft.auto_events.includes(event)}
+                      onCheckedChange={(checked) =>
+                        setDraft({
+                          ...draft,
+                          auto_events: checked
+                            ? [...draft.auto_events, event]
+                            : draft.auto_events.filter(e => e !== event),
+                        })
+                      }
+                    />
+                    {LEAD_STAGE_EVENT_LABELS[event]}
+                    {owners.length > 0 && (
+                      <span className="text-xs text-muted-foreground">(também em {owners.join(', ')})</span>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={isCreating || isUpdating || !draft.name.trim()}>
+              {(isCreating || isUpdating) && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteConfirmStage} onOpenChange={() => setDeleteConfirmStage(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover etapa?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os leads em "{deleteConfirmStage?.name}" passam para a primeira etapa restante do pipeline. O histórico
+              dos leads é mantido.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isRemoving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
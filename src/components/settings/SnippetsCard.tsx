@@ -0,0 +1,333 @@
+import { useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { History, Loader2, MessageSquareText, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSnippets, useSnippetVersions } from '@/hooks/useSnippets';
+import { SnippetChannel, SnippetWithStats } from '@/types';
+import { MESSAGE_VARIABLES, insertVariable } from '@/lib/messageVariables';
+import {
+  getSnippetErrors,
+  searchSnippets,
+  SNIPPET_CHANNEL_LABELS,
+  SNIPPET_CHANNELS,
+  snippetReplyRate,
+} from '@/lib/snippets';
+
+interface SnippetsCardProps {
+  isAdmin: boolean;
+}
+
+interface SnippetDraft {
+  title: string;
+  body: string;
+  channel: SnippetChannel;
+  shortcut: string;
+}
+
+const EMPTY_DRAFT: SnippetDraft = { title: '', body: '', channel: 'any', shortcut: '' };
+
+function SnippetVersionsDialog({ snippet, onOpenChange }: { snippet: SnippetWithStats | null; onOpenChange: (open: boolean) => void }) {
+  const { versions, isLoading } = useSnippetVersions(snippet?.id ?? null);
+
+  return (
+    <Dialog open={!!snippet} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Histórico de versões</DialogTitle>
+          <DialogDescription>
+            {snippet ? `${snippet.title} · versão atual v${snippet.version}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+          {isLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Este snippet ainda não foi editado.</p>
+          ) : (
+            versions.map(version => (
+              <div key={version.id} className="space-y-1 rounded-md border p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">v{version.version} · {version.title}</span>
+                  <span className="text-xs text-muted-foreground">
+                    substituída em {format(new Date(version.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                  </span>
+                </div>
+                <p className="whitespace-pre-wrap text-xs text-muted-foreground">{version.body}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function SnippetsCard({ isAdmin }: SnippetsCardProps) {
+  const { user } = useAuth();
+  const { snippets, isLoading, createSnippet, isCreating, updateSnippet, isUpdating, deleteSnippet } = useSnippets();
+  const { toast } = useToast();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [search, setSearch] = useState('');
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SnippetDraft>(EMPTY_DRAFT);
+  const [historySnippet, setHistorySnippet] = useState<SnippetWithStats | null>(null);
+
+  const filteredSnippets = useMemo(() => searchSnippets(snippets, search), [snippets, search]);
+  const draftErrors = getSnippetErrors(draft);
+  const isSaving = isCreating || isUpdating;
+
+  function openEditor(snippet?: SnippetWithStats) {
+    setEditingId(snippet?.id ?? null);
+    setDraft(snippet
+      ? { title: snippet.title, body: snippet.body, channel: snippet.channel, shortcut: snippet.shortcut || '' }
+      : EMPTY_DRAFT);
+    setEditorOpen(true);
+  }
+
+  function handleInsertVariable(variable: string) {
+    const textarea = bodyRef.current;
+    const cursor = textarea?.selectionStart ?? draft.body.length;
+    const { newText, newCursorPosition } = insertVariable(draft.body, variable, cursor);
+    setDraft({ ...draft, body: newText });
+    setTimeout(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(newCursorPosition, newCursorPosition);
+    }, 0);
+  }
+
+  async function handleSave() {
+    try {
+      if (editingId) {
+        await updateSnippet({ id: editingId, ...draft });
+      } else {
+        await createSnippet(draft);
+      }
+      setEditorOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar snippet',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  async function handleDelete(snippetId: string) {
+    try {
+      await deleteSnippet(snippetId);
+    } catch (error) {
+      toast({
+        title: 'Erro ao excluir snippet',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquareText className="h-5 w-5" />
+              Respostas prontas
+            </CardTitle>
+            <CardDescription>
+              Snippets compartilhados pelo workspace, com as mesmas variáveis das campanhas. Use nos editores
+              de campanha, no Inbox (digite /atalho e Tab) ou copie pelo lead.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openEditor()} className="flex-shrink-0 gap-1">
+            <Plus className="h-4 w-4" />
+            Novo snippet
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {snippets.length > 0 && (
+          <div className="relative max-w-xs">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar snippets..."
+              className="pl-8"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : filteredSnippets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {snippets.length === 0 ? 'Nenhuma resposta pronta cadastrada.' : 'Nenhum snippet encontrado.'}
+          </p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {filteredSnippets.map(snippet => {
+              const replyRate = snippetReplyRate(snippet);
+              const canDelete = isAdmin || snippet.created_by === user?.id;
+              return (
+                <div key={snippet.id} className="flex items-start justify-between gap-3 px-3 py-2">
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium">{snippet.title}</span>
+                      {snippet.shortcut && (
+                        <code className="text-xs text-muted-foreground font-mono">/{snippet.shortcut}</code>
+                      )}
+                      <Badge variant="outline" className="text-xs">{SNIPPET_CHANNEL_LABELS[snippet.channel]}</Badge>
+                      <span className="text-xs text-muted-foreground">v{snippet.version}</span>
+                    </div>
+                    <p className="line-clamp-2 text-xs text-muted-foreground">{snippet.body}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {snippet.usage_count} uso(s)
+                      {replyRate !== null
+                        ? ` · ${Math.round(replyRate * 100)}% de resposta (${snippet.replied_count}/${snippet.reached_count})`
+                        : ''}
+                    </p>
+                  </div>
+                  <div className="flex flex-shrink-0 gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-muted-foreground"
+                      title="Histórico de versões"
+                      onClick={() => setHistorySnippet(snippet)}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-muted-foreground"
+                      title="Editar"
+                      onClick={() => openEditor(snippet)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {canDelete && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        title="Excluir"
+                        onClick={() => handleDelete(snippet.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Editar snippet' : 'Novo snippet'}</DialogTitle>
+            <DialogDescription>
+              {editingId
+                ? 'Salvar cria uma nova versão; a anterior fica no histórico.'
+                : 'Disponível para todos os membros do workspace.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="snippet-title">Título</Label>
+              <Input
+                id="snippet-title"
+                placeholder="Ex: Proposta de reunião"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Canal</Label>
+                <Select value={draft.channel} onValueChange={(v) => setDraft({ ...draft, channel: v as SnippetChannel })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SNIPPET_CHANNELS.map(channel => (
+                      <SelectItem key={channel} value={channel}>{SNIPPET_CHANNEL_LABELS[channel]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="snippet-shortcut">Atalho (opcional)</Label>
+                <Input
+                  id="snippet-shortcut"
+                  placeholder="/reuniao"
+                  value={draft.shortcut}
+                  onChange={(e) => setDraft({ ...draft, shortcut: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="snippet-body">Texto</Label>
+              <Textarea
+                id="snippet-body"
+                ref={bodyRef}
+                rows={6}
+                placeholder="Olá {{primeiro_nome}}, ..."
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              />
+              <div className="flex flex-wrap gap-1">
+                {MESSAGE_VARIABLES.slice(0, 7).map(variable => (
+                  <button
+                    key={variable.variable}
+                    type="button"
+                    onClick={() => handleInsertVariable(variable.variable)}
+                    className="rounded border px-1.5 py-0.5 font-mono text-xs text-muted-foreground hover:bg-muted"
+                  >
+                    {variable.variable}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {draftErrors.length > 0 && (draft.title || draft.body) && (
+              <p className="text-xs text-destructive">{draftErrors[0]}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || draftErrors.length > 0}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <SnippetVersionsDialog snippet={historySnippet} onOpenChange={(open) => !open && setHistorySnippet(null)} />
+    </Card>
+  );
+}
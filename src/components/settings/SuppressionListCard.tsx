@@ -0,0 +1,242 @@
+import { useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Ban, Download, Loader2, Plus, Search, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSuppressionList } from '@/hooks/useSuppressionList';
+import { SuppressionEntryType } from '@/types';
+import {
+  buildSuppressionCsv,
+  parseSuppressionCsv,
+  SUPPRESSION_ENTRY_TYPES,
+  SUPPRESSION_REASON_LABELS,
+  SUPPRESSION_TYPE_LABELS,
+  SUPPRESSION_VALUE_PLACEHOLDERS,
+} from '@/lib/suppression';
+
+interface SuppressionListCardProps {
+  isAdmin: boolean;
+}
+
+// Entradas exibidas de uma vez (a busca alcança a lista inteira)
+const VISIBLE_ENTRIES = 50;
+
+export function SuppressionListCard({ isAdmin }: SuppressionListCardProps) {
+  const { entries, isLoading, addEntry, isAdding, removeEntry, importEntries, isImporting } = useSuppressionList();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [entryType, setEntryType] = useState<SuppressionEntryType>('email');
+  const [value, setValue] = useState('');
+  const [search, setSearch] = useState('');
+
+  const filteredEntries = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return entries;
+    return entries.filter(entry => entry.value.includes(term) || entry.note?.toLowerCase().includes(term));
+  }, [entries, search]);
+
+  const optOutCount = entries.filter(entry => entry.reason === 'opt_out').length;
+
+  async function handleAdd() {
+    if (!value.trim()) return;
+    try {
+      await addEntry({ entryType, value });
+      setValue('');
+    } catch (error) {
+      toast({
+        title: 'Erro ao adicionar à lista',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  async function handleRemove(entryId: string) {
+    try {
+      await removeEntry(entryId);
+    } catch (error) {
+      toast({
+        title: 'Erro ao remover da lista',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  async function handleImport(file: File) {
+    try {
+      const { entries: parsed, invalid } = parseSuppressionCsv(await file.text());
+      if (parsed.length === 0) {
+        toast({
+          title: 'Nenhum contato válido no arquivo',
+          description: 'Use uma coluna "valor" (e opcionalmente "tipo") com e-mails, telefones, perfis do LinkedIn ou domínios.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const added = await importEntries(parsed);
+      toast({
+        title: 'Lista importada',
+        description: `${added} contato(s) adicionado(s), ${parsed.length - added} já estavam na lista${invalid > 0 ? `, ${invalid} linha(s) inválida(s) ignorada(s)` : ''}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao importar lista',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  }
+
+  function handleExport() {
+    const blob = new Blob([buildSuppressionCsv(entries)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `lista-nao-contatar-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Ban className="h-5 w-5" />
+              Lista de não contatar
+            </CardTitle>
+            <CardDescription>
+              Leads com e-mail, telefone, LinkedIn ou domínio nesta lista são pulados por todas as campanhas.
+              Respostas como "pare" ou "sair" adicionam o lead automaticamente.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+            >
+              {isImporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+              Importar CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={entries.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              Exportar
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Tipo</Label>
+            <Select value={entryType} onValueChange={(v) => setEntryType(v as SuppressionEntryType)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPRESSION_ENTRY_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{SUPPRESSION_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 flex-1 min-w-[200px]">
+            <Label htmlFor="suppression-value" className="text-xs">Valor</Label>
+            <Input
+              id="suppression-value"
+              placeholder={SUPPRESSION_VALUE_PLACEHOLDERS[entryType]}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={!value.trim() || isAdding} className="gap-1">
+            {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Adicionar
+          </Button>
+        </div>
+
+        {entries.length > 0 && (
+          <div className="flex items-center justify-between gap-2">
+            <div className="relative flex-1 max-w-xs">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Buscar na lista..."
+                className="pl-8"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {entries.length} contato(s){optOutCount > 0 ? ` · ${optOutCount} pediram para sair` : ''}
+            </p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : filteredEntries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {entries.length === 0 ? 'Nenhum contato bloqueado.' : 'Nenhum contato encontrado.'}
+          </p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {filteredEntries.slice(0, VISIBLE_ENTRIES).map(entry => (
+              <div key={entry.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">{SUPPRESSION_TYPE_LABELS[entry.entry_type]}</Badge>
+                    <span className="text-sm font-medium truncate">{entry.value}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {SUPPRESSION_REASON_LABELS[entry.reason]} · {format(new Date(entry.created_at), 'dd/MM/yyyy', { locale: ptBR })}
+                    {entry.note ? ` · ${entry.note}` : ''}
+                  </p>
+                </div>
+                {isAdmin && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleRemove(entry.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {filteredEntries.length > VISIBLE_ENTRIES && (
+          <p className="text-xs text-muted-foreground">
+            Mostrando {VISIBLE_ENTRIES} de {filteredEntries.length}. Use a busca ou exporte o CSV para ver todos.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
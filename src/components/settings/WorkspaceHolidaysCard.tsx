@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { CalendarOff, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspaceHolidays } from '@/hooks/useWorkspaceHolidays';
+
+interface WorkspaceHolidaysCardProps {
+  isAdmin: boolean;
+}
+
+export function WorkspaceHolidaysCard({ isAdmin }: WorkspaceHolidaysCardProps) {
+  const { holidays, isLoading, addHoliday, isAdding, removeHoliday } = useWorkspaceHolidays();
+  const { toast } = useToast();
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const upcoming = holidays.filter(h => h.holiday_date >= today);
+  const past = holidays.length - upcoming.length;
+
+  async function handleAdd() {
+    if (!date) return;
+    try {
+      await addHoliday({ date, name });
+      setDate('');
+      setName('');
+    } catch (error) {
+      toast({
+        title: 'Erro ao adicionar feriado',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  async function handleRemove(holidayId: string) {
+    try {
+      await removeHoliday(holidayId);
+    } catch (error) {
+      toast({
+        title: 'Erro ao remover feriado',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarOff className="h-5 w-5" />
+          Feriados
+        </CardTitle>
+        <CardDescription>
+          Campanhas com "Pular feriados" não enviam nestas datas e retomam no próximo dia da janela de envio.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAdmin && (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="holiday-date" className="text-xs">Data</Label>
+              <Input
+                id="holiday-date"
+                type="date"
+                className="w-40"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1 flex-1 min-w-[160px]">
+              <Label htmlFor="holiday-name" className="text-xs">Nome (opcional)</Label>
+              <Input
+                id="holiday-name"
+                placeholder="Ex.: Natal"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={!date || isAdding} className="gap-1">
+              {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Adicionar
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : upcoming.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum feriado futuro cadastrado.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {upcoming.map(holiday => (
+              <div key={holiday.id} className="flex items-center justify-between px-3 py-2">
+                <div>
+                  <p className="text-sm font-medium">
+                    {format(new Date(`${holiday.holiday_date}T12:00:00`), "EEE, dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+                  </p>
+                  {holiday.name && <p className="text-xs text-muted-foreground">{holiday.name}</p>}
+                </div>
+                {isAdmin && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleRemove(holiday.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {past > 0 && (
+          <p className="text-xs text-muted-foreground">{past} feriado(s) passado(s) oculto(s).</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
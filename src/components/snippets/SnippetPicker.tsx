@@ -0,0 +1,99 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { MessageSquareText, Search } from 'lucide-react';
+import { useSnippets } from '@/hooks/useSnippets';
+import { SnippetChannel, SnippetWithStats } from '@/types';
+import { filterSnippetsByChannel, searchSnippets, SNIPPET_CHANNEL_LABELS } from '@/lib/snippets';
+
+interface SnippetPickerProps {
+  /** Canal da mensagem: mostra os snippets do canal e os de todos os canais */
+  channel?: SnippetChannel | null;
+  onSelect: (snippet: SnippetWithStats) => void;
+  label?: string;
+  disabled?: boolean;
+  align?: 'start' | 'center' | 'end';
+}
+
+/** Botão com a biblioteca de respostas prontas do workspace (busca por título, atalho ou texto) */
+export function SnippetPicker({ channel, onSelect, label = 'Snippet', disabled, align = 'end' }: SnippetPickerProps) {
+  const { snippets, isLoading } = useSnippets();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const visibleSnippets = useMemo(
+    () => searchSnippets(filterSnippetsByChannel(snippets, channel), search),
+    [snippets, channel, search]
+  );
+
+  function handleSelect(snippet: SnippetWithStats) {
+    onSelect(snippet);
+    setOpen(false);
+    setSearch('');
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-7 gap-1" disabled={disabled}>
+          <MessageSquareText className="h-3.5 w-3.5" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-2" align={align}>
+        <div className="relative mb-2">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Buscar respostas prontas..."
+            className="h-9 pl-8"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <div className="max-h-72 overflow-y-auto">
+          {isLoading ? (
+            <p className="px-2 py-4 text-center text-sm text-muted-foreground">Carregando...</p>
+          ) : visibleSnippets.length === 0 ? (
+            <p className="px-2 py-4 text-center text-sm text-muted-foreground">
+              {snippets.length === 0 ? 'Nenhuma resposta pronta cadastrada.' : 'Nenhum snippet encontrado.'}
+            </p>
+          ) : (
+            <div className="grid gap-1">
+              {visibleSnippets.map(snippet => (
+                <button
+                  key={snippet.id}
+                  type="button"
+                  onClick={() => handleSelect(snippet)}
+                  className="w-full rounded px-2 py-1.5 text-left hover:bg-muted"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate text-sm font-medium">{snippet.title}</span>
+                    <div className="flex shrink-0 items-center gap-1">
+                      {snippet.shortcut && (
+                        <code className="text-xs text-muted-foreground font-mono">/{snippet.shortcut}</code>
+                      )}
+                      {snippet.channel !== 'any' && (
+                        <Badge variant="outline" className="h-5 px-1.5 text-[10px]">
+                          {SNIPPET_CHANNEL_LABELS[snippet.channel]}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <p className="line-clamp-2 text-xs text-muted-foreground">{snippet.body}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="mt-2 border-t pt-2 text-right">
+          <Link to="/settings" className="text-xs text-muted-foreground hover:underline">
+            Gerenciar respostas prontas
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -10,10 +10,38 @@ export interface Account {
   account_id: string;
   name: string | null;
   status: string;
+  daily_message_limit?: number | null;
+  message_interval_seconds?: number | null;
+  warmup_enabled?: boolean;
+  warmup_started_at?: string | null;
+  warmup_start_limit?: number;
+  warmup_daily_increase?: number;
+  owner_id?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type MailSecurity = 'tls' | 'starttls' | 'none';
+
+export interface MailServerInput {
+  host: string;
+  port: number;
+  security: MailSecurity;
+  username?: string;
+  password?: string;
+}
+
+export interface ConnectEmailAccountInput {
+  email: string;
+  name?: string;
+  fromName?: string;
+  smtp: MailServerInput;
+  imap?: MailServerInput | null;
+  dailyLimit: number;
+  intervalSeconds: number;
+  testRecipient?: string;
+}
+
 export function useAccounts(channel?: string) {
   const { currentWorkspace } = useAuth();
   const queryClient = useQueryClient();
@@ -74,6 +102,52 @@ export function useAccounts(channel?: string) {
     },
   });
 
+  const connectEmailAccountMutation = useMutation({
+    mutationFn: async (input: ConnectEmailAccountInput) => {
+      if (!currentWorkspace) throw new Error('No workspace selected');
+
+      const { data, error } = await supabase.functions.invoke('connect-email-account', {
+        body: { workspaceId: currentWorkspace.id, ...input },
+      });
+
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+
+      return data as { account: Account; testMessageId?: string | null; testError?: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounts', currentWorkspace?.id] });
+    },
+  });
+
+  const updateAccountLimitsMutation = useMutation({
+    mutationFn: async ({ accountId, name, dailyLimit, intervalSeconds }: {
+      accountId: string;
+      name: string;
+      dailyLimit: number | null;
+      intervalSeconds: number | null;
+    }) => {
+      if (!currentWorkspace) throw new Error('No workspace selected');
+
+      const { error } = await supabase
+        .from('accounts')
+        .update({
+          name,
+          daily_message_limit: dailyLimit,
+          message_interval_seconds: intervalSeconds,
+        })
+        .eq('id', accountId)
+        .eq('workspace_id', currentWorkspace.id);
+
+      if (error) throw error;
+
+      return { success: true };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounts', currentWorkspace?.id] });
+    },
+  });
+
   const updateAccountNameMutation = useMutation({
     mutationFn: async ({ accountId, name }: { accountId: string; name: string }) => {
       if (!currentWorkspace) throw new Error('No workspace selected');
@@ -93,6 +167,55 @@ export function useAccounts(channel?: string) {
     },
   });
 
+  // Warm-up ramp of a LinkedIn/WhatsApp account (restart = count from day 1 again)
+  const updateAccountWarmupMutation = useMutation({
+    mutationFn: async ({ accountId, enabled, startLimit, dailyIncrease, restart }: {
+      accountId: string;
+      enabled: boolean;
+      startLimit: number;
+      dailyIncrease: number;
+      restart?: boolean;
+    }) => {
+      if (!currentWorkspace) throw new Error('No workspace selected');
+
+      const { error } = await supabase
+        .from('accounts')
+        .update({
+          warmup_enabled: enabled,
+          warmup_start_limit: startLimit,
+          warmup_daily_increase: dailyIncrease,
+          ...(restart ? { warmup_started_at: new Date().toISOString() } : {}),
+        })
+        .eq('id', accountId)
+        .eq('workspace_id', currentWorkspace.id);
+
+      if (error) throw error;
+
+      return { success: true };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounts', currentWorkspace?.id] });
+    },
+  });
+
+  // Responsável pelas conversas da conta (atribuição 'account' do Inbox)
+  const updateAccountOwnerMutation = useMutation({
+    mutationFn: async ({ accountId, ownerId }: { accountId: string; ownerId: string | null }) => {
+      if (!currentWorkspace) throw new Error('No workspace selected');
+
+      const { error } = await supabase
+        .from('accounts')
+        .update({ owner_id: ownerId })
+        .eq('id', accountId)
+        .eq('workspace_id', currentWorkspace.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounts', currentWorkspace?.id] });
+    },
+  });
+
   return {
     accounts: accountsQuery.data ?? [],
     isLoading: accountsQuery.isLoading,
@@ -102,8 +225,15 @@ export function useAccounts(channel?: string) {
     isSyncing: syncAccountsMutation.isPending,
     deleteAccount: deleteAccountMutation.mutateAsync,
     isDeleting: deleteAccountMutation.isPending,
+    connectEmailAccount: connectEmailAccountMutation.mutateAsync,
+    isConnectingEmail: connectEmailAccountMutation.isPending,
+    updateAccountLimits: updateAccountLimitsMutation.mutateAsync,
+    isUpdatingLimits: updateAccountLimitsMutation.isPending,
     updateAccountName: updateAccountNameMutation.mutateAsync,
     isUpdatingName: updateAccountNameMutation.isPending,
+    updateAccountWarmup: updateAccountWarmupMutation.mutateAsync,
+    isUpdatingWarmup: updateAccountWarmupMutation.isPending,
+    updateAccountOwner: updateAccountOwnerMutation.mutateAsync,
     refetchAccounts: () => queryClient.invalidateQueries({ queryKey: ['accounts', currentWorkspace?.id] }),
   };
 }
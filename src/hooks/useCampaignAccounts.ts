@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { CampaignAccount } from '@/types';
+
+/** Contas em rotação das campanhas informadas (apenas campanhas com mais de uma conta) */
+export function useCampaignAccounts(campaignIds: string[]) {
+  const { currentWorkspace } = useAuth();
+  const idsKey = [...campaignIds].sort().join(',');
+
+  const query = useQuery({
+    queryKey: ['campaign-accounts', currentWorkspace?.id, idsKey],
+    queryFn: async () => {
+      if (!currentWorkspace || campaignIds.length === 0) return {};
+
+      const { data, error } = await supabase
+        .from('campaign_accounts')
+        .select('*, account:accounts ( name, account_id, status )')
+        .in('campaign_id', campaignIds)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const byCampaign: Record<string, CampaignAccount[]> = {};
+      for (const row of (data || []) as CampaignAccount[]) {
+        (byCampaign[row.campaign_id] ||= []).push(row);
+      }
+      return byCampaign;
+    },
+    enabled: !!currentWorkspace && campaignIds.length > 0,
+  });
+
+  return {
+    accountsByCampaign: query.data || {},
+    isLoading: query.isLoading,
+  };
+}
@@ -0,0 +1,44 @@
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  CAMPAIGN_ATTACHMENTS_BUCKET,
+  CampaignAttachmentDraft,
+  CampaignAttachmentInput,
+} from '@/lib/campaignAttachments';
+
+/**
+ * Envio dos anexos da campanha ao Storage. Cada arquivo local sobe uma única
+ * vez; os já guardados (campanha duplicada) são reaproveitados pelo caminho.
+ */
+export function useCampaignAttachments() {
+  const { currentWorkspace } = useAuth();
+
+  const uploadMutation = useMutation({
+    mutationFn: async (drafts: CampaignAttachmentDraft[]): Promise<CampaignAttachmentInput[]> => {
+      if (!currentWorkspace) throw new Error('Nenhum workspace selecionado');
+
+      const inputs: CampaignAttachmentInput[] = [];
+      for (const draft of drafts) {
+        let path = draft.path;
+        if (!path && draft.file) {
+          const safeName = draft.fileName.replace(/[^\w.-]+/g, '_');
+          path = `${currentWorkspace.id}/${crypto.randomUUID()}/${safeName}`;
+          const { error } = await supabase.storage
+            .from(CAMPAIGN_ATTACHMENTS_BUCKET)
+            .upload(path, draft.file, { contentType: draft.mimeType });
+          if (error) throw new Error(`Falha ao enviar "${draft.fileName}": ${error.message}`);
+        }
+        if (path) {
+          inputs.push({ path, fileName: draft.fileName, mimeType: draft.mimeType, size: draft.size });
+        }
+      }
+      return inputs;
+    },
+  });
+
+  return {
+    uploadAttachments: uploadMutation.mutateAsync,
+    isUploading: uploadMutation.isPending,
+  };
+}
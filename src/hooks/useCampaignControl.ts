@@ -0,0 +1,138 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { CampaignMessageVersion } from '@/types';
+
+interface ResumeResult {
+  pendingCount: number;
+  finalStatus: string | null;
+  sentCount: number;
+}
+
+interface UpdateCampaignLeadsResult {
+  addedCount: number;
+  invalidCount: number;
+  suppressedCount: number;
+  alreadyInCampaignCount: number;
+  removedCount: number;
+  replanned: boolean;
+  replanError?: string;
+}
+
+/**
+ * Controle de campanhas em andamento: pausar, retomar (a fila é replanejada a
+ * partir de hoje) e incluir ou remover leads sem esperar o fim do envio.
+ */
+export function useCampaignControl() {
+  const { currentWorkspace } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidate = (campaignId: string) => {
+    queryClient.invalidateQueries({ queryKey: ['campaigns', currentWorkspace?.id] });
+    queryClient.invalidateQueries({ queryKey: ['campaign-queue-end', currentWorkspace?.id] });
+    queryClient.invalidateQueries({ queryKey: ['campaign-report', campaignId] });
+  };
+
+  const pauseMutation = useMutation({
+    mutationFn: async (campaignId: string) => {
+      const { error } = await supabase.rpc('pause_campaign', { p_campaign_id: campaignId });
+      if (error) throw error;
+    },
+    onSuccess: (_, campaignId) => invalidate(campaignId),
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (campaignId: string): Promise<ResumeResult> => {
+      const { data: pendingCount, error } = await supabase.rpc('resume_campaign', { p_campaign_id: campaignId });
+      if (error) throw error;
+      if (!pendingCount) return { pendingCount: 0, finalStatus: null, sentCount: 0 };
+
+      // Pending leads: plan the queue again from today and send what fits now.
+      // If this fails, the days parked by the pause are back in the queue and still send.
+      const { data, error: sendError } = await supabase.functions.invoke('send-campaign', {
+        body: { campaignId, replan: true },
+      });
+      if (sendError) {
+        throw new Error(`A campanha foi retomada, mas a fila não foi replanejada (${sendError.message}). Os envios seguem a programação anterior.`);
+      }
+      return {
+        pendingCount,
+        finalStatus: data?.finalStatus ?? data?.status ?? null,
+        sentCount: data?.sentCount ?? 0,
+      };
+    },
+    // Também na falha do replanejamento: a campanha já saiu da pausa
+    onSettled: (_, __, campaignId) => invalidate(campaignId),
+  });
+
+  const updateLeadsMutation = useMutation({
+    mutationFn: async ({ campaignId, addLeadIds, removeCampaignLeadIds }: {
+      campaignId: string;
+      addLeadIds?: string[];
+      removeCampaignLeadIds?: string[];
+    }): Promise<UpdateCampaignLeadsResult> => {
+      const { data, error } = await supabase.functions.invoke('update-campaign-leads', {
+        body: { campaignId, addLeadIds, removeCampaignLeadIds },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data as UpdateCampaignLeadsResult;
+    },
+    onSuccess: (_, { campaignId }) => {
+      invalidate(campaignId);
+      // O seletor de leads deixa de fora os que já estão na campanha
+      queryClient.invalidateQueries({ queryKey: ['leads', currentWorkspace?.id, 'page'] });
+    },
+  });
+
+  return {
+    pauseCampaign: pauseMutation.mutateAsync,
+    resumeCampaign: resumeMutation.mutateAsync,
+    updateCampaignLeads: updateLeadsMutation.mutateAsync,
+    isPausing: pauseMutation.isPending,
+    isResuming: resumeMutation.isPending,
+    isUpdatingLeads: updateLeadsMutation.isPending,
+  };
+}
+
+/** Versões da mensagem da campanha, com quantos leads receberam cada uma */
+export function useCampaignMessageVersions(campaignId: string | null) {
+  const query = useQuery({
+    queryKey: ['campaign-message-versions', campaignId],
+    queryFn: async () => {
+      if (!campaignId) return [];
+
+      const [versionsResult, leadsResult] = await Promise.all([
+        supabase
+          .from('campaign_message_versions')
+          .select('id, campaign_id, version, message, subject, created_by, created_at')
+          .eq('campaign_id', campaignId)
+          .order('version', { ascending: false }),
+        supabase
+          .from('campaign_leads')
+          .select('message_version')
+          .eq('campaign_id', campaignId)
+          .not('message_version', 'is', null),
+      ]);
+
+      if (versionsResult.error) throw versionsResult.error;
+      if (leadsResult.error) throw leadsResult.error;
+
+      const sentByVersion = new Map<number, number>();
+      for (const row of leadsResult.data || []) {
+        sentByVersion.set(row.message_version!, (sentByVersion.get(row.message_version!) || 0) + 1);
+      }
+
+      return ((versionsResult.data || []) as CampaignMessageVersion[]).map(version => ({
+        ...version,
+        sentCount: sentByVersion.get(version.version) || 0,
+      }));
+    },
+    enabled: !!campaignId,
+  });
+
+  return {
+    versions: query.data ?? [],
+    isLoading: query.isLoading,
+  };
+}
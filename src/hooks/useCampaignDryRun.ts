@@ -0,0 +1,71 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Lead, SuppressionEntryType } from '@/types';
+import { DryRunContext } from '@/lib/campaignDryRun';
+import { leadSuppressionKeys, matchSuppression, suppressionKey } from '@/lib/suppression';
+
+// Mantém os filtros .in() bem abaixo do limite de tamanho da URL
+const LOOKUP_CHUNK_SIZE = 200;
+
+/**
+ * Dados da simulação de campanha: campanhas que já enviaram para cada lead e
+ * leads na lista de não contatar. Só leitura, nada é enviado.
+ */
+export function useCampaignDryRun(leads: Lead[], enabled: boolean) {
+  const { currentWorkspace } = useAuth();
+  const idsKey = leads.map(l => l.id).sort().join(',');
+
+  const query = useQuery({
+    queryKey: ['campaign-dry-run', currentWorkspace?.id, idsKey],
+    queryFn: async (): Promise<DryRunContext> => {
+      const context: DryRunContext = { contactedBy: {}, suppressedBy: {} };
+      if (!currentWorkspace || leads.length === 0) return context;
+
+      const leadIds = leads.map(l => l.id);
+      for (let i = 0; i < leadIds.length; i += LOOKUP_CHUNK_SIZE) {
+        const { data, error } = await supabase
+          .from('campaign_leads')
+          .select('lead_id, campaign:campaigns ( name )')
+          .in('lead_id', leadIds.slice(i, i + LOOKUP_CHUNK_SIZE))
+          .not('sent_at', 'is', null);
+
+        if (error) throw error;
+        for (const row of (data || []) as { lead_id: string; campaign: { name: string } | null }[]) {
+          const names = (context.contactedBy[row.lead_id] ||= []);
+          if (row.campaign && !names.includes(row.campaign.name)) names.push(row.campaign.name);
+        }
+      }
+
+      const values = [...new Set(leads.flatMap(lead => leadSuppressionKeys(lead).map(key => key.value)))];
+      const index = new Set<string>();
+      for (let i = 0; i < values.length; i += LOOKUP_CHUNK_SIZE) {
+        const { data, error } = await supabase
+          .from('suppression_list')
+          .select('entry_type, value')
+          .eq('workspace_id', currentWorkspace.id)
+          .in('value', values.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+        if (error) throw error;
+        for (const row of data || []) {
+          index.add(suppressionKey(row.entry_type as SuppressionEntryType, row.value));
+        }
+      }
+
+      if (index.size > 0) {
+        for (const lead of leads) {
+          const matched = matchSuppression(lead, index);
+          if (matched) context.suppressedBy[lead.id] = matched;
+        }
+      }
+      return context;
+    },
+    enabled: enabled && !!currentWorkspace && leads.length > 0,
+  });
+
+  return {
+    context: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
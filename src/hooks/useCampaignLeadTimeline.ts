@@ -0,0 +1,83 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { CampaignSendAttempt } from '@/types';
+import {
+  buildDeliveryTimeline,
+  TimelineCampaignEvent,
+  TimelineCampaignLead,
+  TimelineItem,
+  TimelineProviderEvent,
+} from '@/lib/deliveryTimeline';
+
+interface CampaignLeadTimeline {
+  campaignLead: TimelineCampaignLead | null;
+  attempts: CampaignSendAttempt[];
+  items: TimelineItem[];
+}
+
+/**
+ * Linha do tempo de entrega de um lead da campanha: marcos de campaign_leads,
+ * tentativas de envio (com erros de cada retry), campaign_events e os
+ * webhooks brutos do provedor vinculados ao lead.
+ */
+export function useCampaignLeadTimeline(campaignLeadId: string | null) {
+  const query = useQuery({
+    queryKey: ['campaign-lead-timeline', campaignLeadId],
+    queryFn: async (): Promise<CampaignLeadTimeline> => {
+      if (!campaignLeadId) return { campaignLead: null, attempts: [], items: [] };
+
+      const [leadResult, attemptsResult, eventsResult, providerResult] = await Promise.all([
+        supabase
+          .from('campaign_leads')
+          .select('id, status, error, skip_reason, retry_count, created_at, sent_at, delivered_at, seen_at, replied_at, accepted_at, stopped_at, stop_reason')
+          .eq('id', campaignLeadId)
+          .maybeSingle(),
+        supabase
+          .from('campaign_send_attempts')
+          .select('id, campaign_lead_id, step_order, attempt, outcome, error, provider_message_id, account_id, channel, action, source, details, created_at')
+          .eq('campaign_lead_id', campaignLeadId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('campaign_events')
+          .select('id, event_type, provider_message_id, metadata, created_at')
+          .eq('campaign_lead_id', campaignLeadId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('unipile_events')
+          .select('id, event_type, object_type, payload, processed_at, created_at')
+          .eq('campaign_lead_id', campaignLeadId)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      if (leadResult.error) throw leadResult.error;
+      if (attemptsResult.error) throw attemptsResult.error;
+      if (eventsResult.error) throw eventsResult.error;
+      if (providerResult.error) throw providerResult.error;
+
+      const campaignLead = leadResult.data as TimelineCampaignLead | null;
+      if (!campaignLead) return { campaignLead: null, attempts: [], items: [] };
+
+      const attempts = (attemptsResult.data || []) as CampaignSendAttempt[];
+      return {
+        campaignLead,
+        attempts,
+        items: buildDeliveryTimeline(
+          campaignLead,
+          attempts,
+          (eventsResult.data || []) as TimelineCampaignEvent[],
+          (providerResult.data || []) as TimelineProviderEvent[]
+        ),
+      };
+    },
+    enabled: !!campaignLeadId,
+  });
+
+  return {
+    campaignLead: query.data?.campaignLead ?? null,
+    attempts: query.data?.attempts || [],
+    items: query.data?.items || [],
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
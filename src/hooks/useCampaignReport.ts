@@ -1,6 +1,8 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { ReplyIntent } from '@/types';
+import { isPositiveIntent } from '@/lib/replyIntent';
 
 export interface CampaignReportMetrics {
   id: string;
@@ -13,6 +15,7 @@ export interface CampaignReportMetrics {
   delivered_count: number;
   seen_count: number;
   replied_count: number;
+  variant_promote_after?: number | null;
   created_at: string;
   // Calculated rates
   delivery_rate: number;
@@ -29,6 +32,9 @@ export interface CampaignLeadDetail {
   seen_at: string | null;
   replied_at: string | null;
   error: string | null;
+  skip_reason: string | null;
+  reply_intent: ReplyIntent | null;
+  variant_id: string | null;
   lead: {
     full_name: string | null;
     first_name: string | null;
@@ -107,6 +113,9 @@ export function useCampaignReport(campaignId: string | null) {
           seen_at,
           replied_at,
           error,
+          skip_reason,
+          reply_intent,
+          variant_id,
           lead:leads (
             full_name,
             first_name,
@@ -165,11 +174,36 @@ export function useCampaignReport(campaignId: string | null) {
     return acc;
   }, {} as Record<string, number>) || {};
 
+  // Skipped leads per reason (do-not-contact list, opt-out, conversation elsewhere)
+  const skippedByReason = leads?.reduce((acc, lead) => {
+    if (lead.status === 'skipped') {
+      const reason = lead.skip_reason || 'unknown';
+      acc[reason] = (acc[reason] || 0) + 1;
+    }
+    return acc;
+  }, {} as Record<string, number>) || {};
+
+  // Replies per classified intent; "positive" = interested (see POSITIVE_REPLY_INTENTS)
+  const repliesByIntent = leads?.reduce((acc, lead) => {
+    if (lead.replied_at) {
+      const intent = lead.reply_intent || 'unclassified';
+      acc[intent] = (acc[intent] || 0) + 1;
+    }
+    return acc;
+  }, {} as Record<string, number>) || {};
+
+  const positiveReplies = leads?.filter(lead => isPositiveIntent(lead.reply_intent)).length || 0;
+  const positiveReplyRate = campaign?.sent_count ? (positiveReplies / campaign.sent_count) * 100 : 0;
+
   return {
     campaign,
     leads,
     events,
     statusDistribution,
+    skippedByReason,
+    repliesByIntent,
+    positiveReplies,
+    positiveReplyRate,
     isLoading: isLoadingCampaign || isLoadingLeads,
     isLoadingEvents,
     refetch: () => {
@@ -0,0 +1,63 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { CampaignStep, CampaignStepStats } from '@/types';
+
+/** Funil por etapa das campanhas informadas (apenas campanhas com sequência) */
+export function useCampaignStepStats(campaignIds: string[]) {
+  const { currentWorkspace } = useAuth();
+  const idsKey = [...campaignIds].sort().join(',');
+
+  const query = useQuery({
+    queryKey: ['campaign-step-stats', currentWorkspace?.id, idsKey],
+    queryFn: async () => {
+      if (!currentWorkspace || campaignIds.length === 0) return {};
+
+      const { data, error } = await supabase
+        .from('campaign_step_stats')
+        .select('*')
+        .in('campaign_id', campaignIds)
+        .order('step_order', { ascending: true });
+
+      if (error) throw error;
+
+      const byCampaign: Record<string, CampaignStepStats[]> = {};
+      for (const row of (data || []) as CampaignStepStats[]) {
+        (byCampaign[row.campaign_id] ||= []).push(row);
+      }
+      return byCampaign;
+    },
+    enabled: !!currentWorkspace && campaignIds.length > 0,
+  });
+
+  return {
+    stepStatsByCampaign: query.data || {},
+    isLoading: query.isLoading,
+    refetch: query.refetch,
+  };
+}
+
+/** Etapas configuradas de uma campanha */
+export function useCampaignSteps(campaignId: string | null) {
+  const query = useQuery({
+    queryKey: ['campaign-steps', campaignId],
+    queryFn: async () => {
+      if (!campaignId) return [];
+
+      const { data, error } = await supabase
+        .from('campaign_steps')
+        .select('*')
+        .eq('campaign_id', campaignId)
+        .order('step_order', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as CampaignStep[];
+    },
+    enabled: !!campaignId,
+  });
+
+  return {
+    steps: query.data || [],
+    isLoading: query.isLoading,
+  };
+}
@@ -0,0 +1,205 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  Campaign,
+  CampaignStepAction,
+  CampaignStepCondition,
+  CampaignTemplate,
+  CampaignTemplateAttachment,
+  CampaignTemplateWithStats,
+  CampaignVariantInput,
+  FollowUpStepInput,
+} from '@/types';
+
+export interface SaveCampaignTemplateInput {
+  campaign: Campaign;
+  name: string;
+  description?: string | null;
+}
+
+function templateNameTakenError(error: { code?: string }) {
+  return error.code === '23505' ? new Error('Já existe um template com este nome.') : error;
+}
+
+/**
+ * Galeria de templates de campanha do workspace, com o desempenho somado de
+ * todas as campanhas criadas a partir de cada template
+ */
+export function useCampaignTemplates() {
+  const { currentWorkspace, user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['campaign-templates', currentWorkspace?.id];
+
+  const templatesQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<CampaignTemplateWithStats[]> => {
+      if (!currentWorkspace) return [];
+
+      const [{ data, error }, { data: stats, error: statsError }] = await Promise.all([
+        supabase
+          .from('campaign_templates')
+          .select('*')
+          .eq('workspace_id', currentWorkspace.id)
+          .order('name', { ascending: true }),
+        supabase.rpc('get_campaign_template_stats', { p_workspace_id: currentWorkspace.id }),
+      ]);
+
+      if (error) throw error;
+      if (statsError) throw statsError;
+
+      const statsByTemplate = new Map((stats || []).map(row => [row.template_id, row]));
+      return ((data || []) as unknown as CampaignTemplate[]).map(template => {
+        const row = statsByTemplate.get(template.id);
+        return {
+          ...template,
+          campaigns_count: Number(row?.campaigns_count ?? 0),
+          leads_count: Number(row?.leads_count ?? 0),
+          sent_count: Number(row?.sent_count ?? 0),
+          replied_count: Number(row?.replied_count ?? 0),
+          failed_count: Number(row?.failed_count ?? 0),
+          last_used_at: row?.last_used_at ?? null,
+        };
+      });
+    },
+    enabled: !!currentWorkspace,
+  });
+
+  // Snapshot of the campaign setup: same parts a duplicated campaign copies
+  const saveMutation = useMutation({
+    mutationFn: async ({ campaign, name, description }: SaveCampaignTemplateInput) => {
+      if (!currentWorkspace || !user) throw new Error('No workspace selected');
+      if (!name.trim()) throw new Error('Informe um nome para o template.');
+
+      const [stepsResult, variantsResult, attachmentsResult, accountsResult] = await Promise.all([
+        // Step 1 is the campaign message itself
+        supabase
+          .from('campaign_steps')
+          .select('step_order, action, message, delay_days, condition')
+          .eq('campaign_id', campaign.id)
+          .gt('step_order', 1)
+          .order('step_order', { ascending: true }),
+        // Variant A is the campaign message itself
+        supabase
+          .from('campaign_variants')
+          .select('label, message, subject')
+          .eq('campaign_id', campaign.id)
+          .neq('label', 'A')
+          .order('label', { ascending: true }),
+        supabase
+          .from('campaign_attachments')
+          .select('storage_path, file_name, mime_type, size_bytes')
+          .eq('campaign_id', campaign.id)
+          .order('position', { ascending: true }),
+        supabase
+          .from('campaign_accounts')
+          .select('account_id, is_active')
+          .eq('campaign_id', campaign.id)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      for (const result of [stepsResult, variantsResult, attachmentsResult, accountsResult]) {
+        if (result.error) throw result.error;
+      }
+
+      const steps: FollowUpStepInput[] = (stepsResult.data || []).map(step => ({
+        action: step.action as CampaignStepAction,
+        message: step.message,
+        delayDays: step.delay_days,
+        condition: step.condition as CampaignStepCondition,
+      }));
+      const variants: CampaignVariantInput[] = (variantsResult.data || []).map(variant => ({
+        message: variant.message,
+        subject: variant.subject || '',
+      }));
+      const attachments: CampaignTemplateAttachment[] = (attachmentsResult.data || []).map(attachment => ({
+        path: attachment.storage_path,
+        fileName: attachment.file_name,
+        mimeType: attachment.mime_type,
+        size: attachment.size_bytes,
+      }));
+      const poolAccountIds = (accountsResult.data || [])
+        .filter(row => row.is_active && row.account_id !== campaign.account_id)
+        .map(row => row.account_id);
+
+      const { data, error } = await supabase
+        .from('campaign_templates')
+        .insert({
+          workspace_id: currentWorkspace.id,
+          name: name.trim(),
+          description: description?.trim() || null,
+          type: campaign.type,
+          linkedin_action: campaign.type === 'linkedin' ? campaign.linkedin_action : null,
+          message: campaign.message,
+          subject: campaign.type === 'email' ? campaign.subject : null,
+          account_id: campaign.account_id,
+          pool_account_ids: poolAccountIds,
+          steps: steps as unknown as Json,
+          variants: variants as unknown as Json,
+          variant_promote_after: variants.length > 0 ? campaign.variant_promote_after ?? null : null,
+          attachments: attachments as unknown as Json,
+          send_window_days: campaign.send_window_days ?? null,
+          send_window_start: campaign.send_window_start ?? null,
+          send_window_end: campaign.send_window_end ?? null,
+          skip_holidays: campaign.skip_holidays ?? false,
+          use_lead_timezone: campaign.use_lead_timezone ?? false,
+          reply_stop_scope: campaign.reply_stop_scope || 'campaign',
+          notify_on_reply: campaign.notify_on_reply ?? false,
+          source_campaign_id: campaign.id,
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw templateNameTakenError(error);
+      return data as unknown as CampaignTemplate;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, name, description }: { id: string; name: string; description?: string | null }) => {
+      if (!name.trim()) throw new Error('Informe um nome para o template.');
+
+      const { error } = await supabase
+        .from('campaign_templates')
+        .update({ name: name.trim(), description: description?.trim() || null })
+        .eq('id', id);
+
+      if (error) throw templateNameTakenError(error);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  // Campaigns created from it keep their history (template_id becomes null)
+  const deleteMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const { error } = await supabase
+        .from('campaign_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['campaigns', currentWorkspace?.id] });
+    },
+  });
+
+  return {
+    templates: templatesQuery.data || [],
+    isLoading: templatesQuery.isLoading,
+    saveAsTemplate: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    updateTemplate: updateMutation.mutateAsync,
+    isUpdating: updateMutation.isPending,
+    deleteTemplate: deleteMutation.mutateAsync,
+    isDeleting: deleteMutation.isPending,
+  };
+}
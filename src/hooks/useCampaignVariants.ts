@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { CampaignVariantStats } from '@/types';
+
+/** Resultados por variante das campanhas informadas (apenas campanhas com teste A/B) */
+export function useCampaignVariantStats(campaignIds: string[]) {
+  const { currentWorkspace } = useAuth();
+  const queryClient = useQueryClient();
+  const idsKey = [...campaignIds].sort().join(',');
+
+  const query = useQuery({
+    queryKey: ['campaign-variant-stats', currentWorkspace?.id, idsKey],
+    queryFn: async () => {
+      if (!currentWorkspace || campaignIds.length === 0) return {};
+
+      const { data, error } = await supabase
+        .from('campaign_variant_stats')
+        .select('*')
+        .in('campaign_id', campaignIds)
+        .order('label', { ascending: true });
+
+      if (error) throw error;
+
+      const byCampaign: Record<string, CampaignVariantStats[]> = {};
+      for (const row of (data || []) as CampaignVariantStats[]) {
+        (byCampaign[row.campaign_id] ||= []).push(row);
+      }
+      return byCampaign;
+    },
+    enabled: !!currentWorkspace && campaignIds.length > 0,
+  });
+
+  // Promote a variant manually: leads not contacted yet move to it
+  const promoteVariantMutation = useMutation({
+    mutationFn: async ({ campaignId, variantId }: { campaignId: string; variantId: string }) => {
+      const { error } = await supabase.rpc('promote_campaign_variant', {
+        p_campaign_id: campaignId,
+        p_variant_id: variantId,
+      });
+      if (error) throw error;
+      return { success: true };
+    },
+    onSuccess: (_, { campaignId }) => {
+      queryClient.invalidateQueries({ queryKey: ['campaign-variant-stats', currentWorkspace?.id] });
+      queryClient.invalidateQueries({ queryKey: ['campaigns', currentWorkspace?.id] });
+      queryClient.invalidateQueries({ queryKey: ['campaign-report', campaignId] });
+    },
+  });
+
+  return {
+    variantStatsByCampaign: query.data || {},
+    isLoading: query.isLoading,
+    refetch: query.refetch,
+    promoteVariant: promoteVariantMutation.mutateAsync,
+    isPromoting: promoteVariantMutation.isPending,
+  };
+}
@@ -76,7 +76,11 @@ export function useCampaigns() {
     isError: campaignsQuery.isError,
     createCampaign: createCampaignMutation.mutateAsync,
     updateCampaign: updateCampaignMutation.mutateAsync,
-    refetchCampaigns: () => queryClient.invalidateQueries({ queryKey: ['campaigns', currentWorkspace?.id] }),
+    refetchCampaigns: () => {
+      queryClient.invalidateQueries({ queryKey: ['campaign-queue-end', currentWorkspace?.id] });
+      queryClient.invalidateQueries({ queryKey: ['campaign-accounts', currentWorkspace?.id] });
+      return queryClient.invalidateQueries({ queryKey: ['campaigns', currentWorkspace?.id] });
+    },
   };
 }
 
@@ -0,0 +1,229 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { InboxChat, Message } from '@/types';
+
+// Conversas carregadas no inbox (as mais recentes primeiro)
+const INBOX_CHAT_LIMIT = 300;
+
+const CHAT_SELECT = `
+  *,
+  lead:leads ( id, full_name, first_name, last_name, company, job_title, profile_picture_url ),
+  campaign:campaigns ( id, name ),
+  account:accounts ( id, name )
+`;
+
+/**
+ * Conversas do LinkedIn e WhatsApp de todas as contas do workspace, com as
+ * mensagens não lidas pelo usuário atual. Atualiza em tempo real.
+ */
+export function useInboxChats() {
+  const { currentWorkspace, user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['inbox-chats', currentWorkspace?.id];
+
+  const chatsQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<InboxChat[]> => {
+      if (!currentWorkspace) return [];
+
+      const [{ data, error }, { data: unread, error: unreadError }] = await Promise.all([
+        supabase
+          .from('chats')
+          .select(CHAT_SELECT)
+          .eq('workspace_id', currentWorkspace.id)
+          .order('last_message_at', { ascending: false, nullsFirst: false })
+          .limit(INBOX_CHAT_LIMIT),
+        supabase.rpc('get_inbox_unread_counts', { p_workspace_id: currentWorkspace.id }),
+      ]);
+
+      if (error) throw error;
+      if (unreadError) throw unreadError;
+
+      const unreadByChat = new Map((unread || []).map(row => [row.chat_id, Number(row.unread_count)]));
+      return ((data || []) as unknown as InboxChat[]).map(chat => ({
+        ...chat,
+        unread_count: unreadByChat.get(chat.id) ?? 0,
+      }));
+    },
+    enabled: !!currentWorkspace,
+  });
+
+  // Novas mensagens chegam pelos webhooks; atribuições feitas por outros membros também
+  useEffect(() => {
+    if (!currentWorkspace?.id) return;
+
+    const channel = supabase
+      .channel(`inbox-${currentWorkspace.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'messages',
+          filter: `workspace_id=eq.${currentWorkspace.id}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['inbox-chats', currentWorkspace.id] });
+          queryClient.invalidateQueries({ queryKey: ['inbox-messages'] });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'chats',
+          filter: `workspace_id=eq.${currentWorkspace.id}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['inbox-chats', currentWorkspace.id] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentWorkspace?.id, queryClient]);
+
+  const markReadMutation = useMutation({
+    mutationFn: async (chatId: string) => {
+      if (!user) throw new Error('Usuário não autenticado');
+
+      const { error } = await supabase
+        .from('chat_reads')
+        .upsert(
+          { chat_id: chatId, user_id: user.id, last_read_at: new Date().toISOString() },
+          { onConflict: 'chat_id,user_id' }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  // Atribui a conversa a um membro (null remove o responsável). O lead sem
+  // responsável passa a ser do mesmo membro, para as próximas conversas dele.
+  const assignMutation = useMutation({
+    mutationFn: async ({ chatId, userId }: { chatId: string; userId: string | null }) => {
+      const assignedAt = userId ? new Date().toISOString() : null;
+      const { data, error } = await supabase
+        .from('chats')
+        .update({ assigned_to: userId, assigned_at: assignedAt })
+        .eq('id', chatId)
+        .select('lead_id')
+        .single();
+
+      if (error) throw error;
+
+      if (userId && data?.lead_id) {
+        const { error: leadError } = await supabase
+          .from('leads')
+          .update({ assigned_to: userId, assigned_at: assignedAt })
+          .eq('id', data.lead_id)
+          .is('assigned_to', null);
+
+        if (leadError) throw leadError;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['leads', currentWorkspace?.id] });
+    },
+  });
+
+  const chats = chatsQuery.data || [];
+
+  return {
+    chats,
+    isLoading: chatsQuery.isLoading,
+    totalUnread: chats.reduce((sum, chat) => sum + chat.unread_count, 0),
+    markChatRead: markReadMutation.mutateAsync,
+    assignChat: assignMutation.mutateAsync,
+    isAssigning: assignMutation.isPending,
+  };
+}
+
+/** Mensagens de uma conversa e envio de respostas (texto e anexos) pelo Unipile */
+export function useChatMessages(chatId: string | null) {
+  const queryClient = useQueryClient();
+  const { currentWorkspace } = useAuth();
+  const queryKey = ['inbox-messages', chatId];
+
+  const messagesQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<Message[]> => {
+      if (!chatId) return [];
+
+      const { data, error } = await supabase
+        .from('messages')
+        .select('id, chat_id, sender, sent_by, text, attachments, timestamp')
+        .eq('chat_id', chatId)
+        .order('timestamp', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as unknown as Message[];
+    },
+    enabled: !!chatId,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async ({ text, files = [] }: { text: string; files?: File[] }) => {
+      if (!chatId) throw new Error('Nenhuma conversa selecionada');
+
+      const body = new FormData();
+      body.append('chatId', chatId);
+      body.append('text', text);
+      files.forEach(file => body.append('attachments', file, file.name));
+
+      const { data, error } = await supabase.functions.invoke('inbox-send-message', { body });
+
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['inbox-chats', currentWorkspace?.id] });
+    },
+  });
+
+  return {
+    messages: messagesQuery.data || [],
+    isLoading: messagesQuery.isLoading,
+    sendMessage: sendMutation.mutateAsync,
+    isSending: sendMutation.isPending,
+  };
+}
+
+/** Conversas vinculadas a um lead (exibidas no LeadDetailsDrawer) */
+export function useLeadConversations(leadId: string | undefined) {
+  const { currentWorkspace } = useAuth();
+
+  const query = useQuery({
+    queryKey: ['lead-conversations', currentWorkspace?.id, leadId],
+    queryFn: async (): Promise<InboxChat[]> => {
+      if (!currentWorkspace || !leadId) return [];
+
+      const { data, error } = await supabase
+        .from('chats')
+        .select(CHAT_SELECT)
+        .eq('workspace_id', currentWorkspace.id)
+        .eq('lead_id', leadId)
+        .order('last_message_at', { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+      return ((data || []) as unknown as InboxChat[]).map(chat => ({ ...chat, unread_count: 0 }));
+    },
+    enabled: !!currentWorkspace && !!leadId,
+  });
+
+  return {
+    chats: query.data || [],
+    isLoading: query.isLoading,
+  };
+}
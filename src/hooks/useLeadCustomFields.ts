@@ -0,0 +1,172 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Json } from '@/integrations/supabase/types';
+import { LeadCustomField, LeadCustomFieldType } from '@/types';
+import { isSelectFieldType, validateCustomFieldKey } from '@/lib/customFields';
+
+export interface LeadCustomFieldInput {
+  key: string;
+  label: string;
+  field_type: LeadCustomFieldType;
+  options: string[];
+}
+
+// Chave e tipo não mudam depois de criados: os valores já salvos dependem deles
+export interface LeadCustomFieldUpdate {
+  id: string;
+  label: string;
+  options: string[];
+}
+
+export interface LeadCustomFieldValuesInput {
+  leadId: string;
+  /** Valores de todos os campos do lead; null remove o valor */
+  values: Record<string, unknown>;
+}
+
+function cleanOptions(options: string[]) {
+  return [...new Set(options.map(option => option.trim()).filter(Boolean))];
+}
+
+/**
+ * Campos personalizados de leads do workspace (lead_custom_fields). Membros
+ * leem as definições; só admins criam, editam e removem. Remover um campo
+ * apaga os valores dele em todos os leads.
+ */
+export function useLeadCustomFields() {
+  const { currentWorkspace } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['lead-custom-fields', currentWorkspace?.id];
+
+  const fieldsQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<LeadCustomField[]> => {
+      if (!currentWorkspace) return [];
+      const { data, error } = await supabase
+        .from('lead_custom_fields')
+        .select('*')
+        .eq('workspace_id', currentWorkspace.id)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return (data || []) as LeadCustomField[];
+    },
+    enabled: !!currentWorkspace,
+  });
+
+  const fields = useMemo(() => fieldsQuery.data || [], [fieldsQuery.data]);
+
+  const createMutation = useMutation({
+    mutationFn: async (input: LeadCustomFieldInput) => {
+      if (!currentWorkspace) throw new Error('Nenhum workspace selecionado');
+      const label = input.label.trim();
+      if (!label) throw new Error('Informe o nome do campo.');
+      const keyError = validateCustomFieldKey(input.key, fields);
+      if (keyError) throw new Error(keyError);
+      const options = isSelectFieldType(input.field_type) ? cleanOptions(input.options) : [];
+      if (isSelectFieldType(input.field_type) && options.length === 0) {
+        throw new Error('Adicione pelo menos uma opção.');
+      }
+
+      const { data, error } = await supabase
+        .from('lead_custom_fields')
+        .insert({
+          workspace_id: currentWorkspace.id,
+          key: input.key,
+          label,
+          field_type: input.field_type,
+          options,
+          position: fields.length > 0 ? Math.max(...fields.map(field => field.position)) + 1 : 0,
+        })
+        .select()
+        .single();
+      if (error) {
+        throw error.code === '23505' ? new Error(`Já existe um campo com a chave "${input.key}".`) : error;
+      }
+      return data as LeadCustomField;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, label, options }: LeadCustomFieldUpdate) => {
+      const field = fields.find(f => f.id === id);
+      if (!field) throw new Error('Campo não encontrado');
+      if (!label.trim()) throw new Error('Informe o nome do campo.');
+      const nextOptions = isSelectFieldType(field.field_type) ? cleanOptions(options) : [];
+      if (isSelectFieldType(field.field_type) && nextOptions.length === 0) {
+        throw new Error('Adicione pelo menos uma opção.');
+      }
+
+      const { error } = await supabase
+        .from('lead_custom_fields')
+        .update({ label: label.trim(), options: nextOptions })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('lead_custom_fields').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['leads', currentWorkspace?.id] });
+    },
+  });
+
+  // Só as chaves definidas são gravadas; valores de chaves sem definição são mantidos
+  const saveValuesMutation = useMutation({
+    mutationFn: async ({ leadId, values }: LeadCustomFieldValuesInput) => {
+      const { data: lead, error: readError } = await supabase
+        .from('leads')
+        .select('custom_fields')
+        .eq('id', leadId)
+        .single();
+      if (readError) throw readError;
+
+      const current = lead?.custom_fields;
+      const next: Record<string, unknown> =
+        current && typeof current === 'object' && !Array.isArray(current) ? { ...current } : {};
+      for (const field of fields) {
+        const value = values[field.key];
+        if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) {
+          delete next[field.key];
+        } else {
+          next[field.key] = value;
+        }
+      }
+
+      const { error } = await supabase
+        .from('leads')
+        .update({ custom_fields: next as Json })
+        .eq('id', leadId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leads', currentWorkspace?.id] });
+    },
+  });
+
+  return {
+    fields,
+    isLoading: fieldsQuery.isLoading,
+    createField: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    updateField: updateMutation.mutateAsync,
+    isUpdating: updateMutation.isPending,
+    removeField: removeMutation.mutateAsync,
+    isRemoving: removeMutation.isPending,
+    saveLeadValues: saveValuesMutation.mutateAsync,
+    isSavingValues: saveValuesMutation.isPending,
+  };
+}
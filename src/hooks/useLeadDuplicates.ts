@@ -0,0 +1,107 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Lead, LeadDuplicatePair } from '@/types';
+
+export interface LeadDuplicate extends LeadDuplicatePair {
+  lead: Lead;
+  duplicate: Lead;
+}
+
+export interface MergeLeadsInput {
+  survivingLeadId: string;
+  mergedLeadId: string;
+  /** Colunas cujo valor vem do lead mesclado */
+  fields: string[];
+}
+
+// Pares revisados por vez; depois de mesclar, a lista é recalculada
+const DUPLICATES_LIMIT = 100;
+
+/**
+ * Detector de leads duplicados (find_lead_duplicates) e mesclagem
+ * (merge_leads). Mesclar move campanhas, tags, ações e histórico de
+ * enriquecimento para o lead que fica e apaga o outro.
+ */
+export function useLeadDuplicates() {
+  const { currentWorkspace, user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['lead-duplicates', currentWorkspace?.id];
+
+  const duplicatesQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<LeadDuplicate[]> => {
+      if (!currentWorkspace) return [];
+      const { data: pairs, error } = await supabase.rpc('find_lead_duplicates', {
+        p_workspace_id: currentWorkspace.id,
+        p_limit: DUPLICATES_LIMIT,
+      });
+      if (error) throw error;
+      if (!pairs || pairs.length === 0) return [];
+
+      const ids = [...new Set(pairs.flatMap(pair => [pair.lead_id, pair.duplicate_id]))];
+      const { data: leads, error: leadsError } = await supabase
+        .from('leads')
+        .select('*')
+        .in('id', ids);
+      if (leadsError) throw leadsError;
+
+      const byId = new Map((leads as Lead[]).map(lead => [lead.id, lead]));
+      return (pairs as LeadDuplicatePair[])
+        .filter(pair => byId.has(pair.lead_id) && byId.has(pair.duplicate_id))
+        .map(pair => ({
+          ...pair,
+          lead: byId.get(pair.lead_id)!,
+          duplicate: byId.get(pair.duplicate_id)!,
+        }));
+    },
+    enabled: !!currentWorkspace,
+  });
+
+  const duplicates = useMemo(() => duplicatesQuery.data || [], [duplicatesQuery.data]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ survivingLeadId, mergedLeadId, fields }: MergeLeadsInput) => {
+      const { error } = await supabase.rpc('merge_leads', {
+        p_surviving_lead_id: survivingLeadId,
+        p_merged_lead_id: mergedLeadId,
+        p_fields: fields,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['leads', currentWorkspace?.id] });
+      queryClient.invalidateQueries({ queryKey: ['lead_tags', currentWorkspace?.id] });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async ({ leadId, duplicateId }: { leadId: string; duplicateId: string }) => {
+      if (!currentWorkspace || !user) throw new Error('Nenhum workspace selecionado');
+      const [leadA, leadB] = leadId < duplicateId ? [leadId, duplicateId] : [duplicateId, leadId];
+      const { error } = await supabase.from('lead_duplicate_dismissals').insert({
+        workspace_id: currentWorkspace.id,
+        lead_a_id: leadA,
+        lead_b_id: leadB,
+        dismissed_by: user.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  return {
+    duplicates,
+    isLoading: duplicatesQuery.isLoading,
+    isFetching: duplicatesQuery.isFetching,
+    refetch: duplicatesQuery.refetch,
+    mergeLeads: mergeMutation.mutateAsync,
+    isMerging: mergeMutation.isPending,
+    dismissDuplicate: dismissMutation.mutateAsync,
+    isDismissing: dismissMutation.isPending,
+  };
+}
@@ -0,0 +1,141 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { LEAD_IMPORTS_BUCKET, LeadImportFileType, LeadImportMapping } from '@/lib/leadImport';
+import { LeadImportJob } from '@/types';
+
+export interface LeadImportPreview {
+  storagePath: string;
+  fileName: string;
+  fileType: LeadImportFileType;
+  headers: string[];
+  sampleRows: string[][];
+  totalRows: number;
+  mapping: LeadImportMapping;
+}
+
+export interface StartLeadImportInput {
+  preview: LeadImportPreview;
+  mapping: LeadImportMapping;
+  listId: string | null;
+  tagIds: string[];
+  updateExisting: boolean;
+}
+
+export interface StartLeadImportResult {
+  background: boolean;
+  job: LeadImportJob;
+}
+
+const ACTIVE_STATUSES: LeadImportJob['status'][] = ['pending', 'processing'];
+
+/**
+ * Importação de leads por CSV/XLSX. O arquivo sobe para o Storage e é lido
+ * pelo import-leads; arquivos grandes continuam em segundo plano
+ * (process-lead-imports) e a lista de importações acompanha o progresso.
+ */
+export function useLeadImports() {
+  const { currentWorkspace } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['lead-imports', currentWorkspace?.id];
+
+  const jobsQuery = useQuery({
+    queryKey,
+    queryFn: async () => {
+      if (!currentWorkspace) return [];
+      const { data, error } = await supabase
+        .from('lead_import_jobs')
+        .select('*')
+        .eq('workspace_id', currentWorkspace.id)
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      return data as unknown as LeadImportJob[];
+    },
+    enabled: !!currentWorkspace,
+    refetchInterval: (query) => {
+      const data = query.state.data as LeadImportJob[] | undefined;
+      return data?.some(job => ACTIVE_STATUSES.includes(job.status)) ? 5000 : false;
+    },
+  });
+
+  const jobs = useMemo(() => jobsQuery.data || [], [jobsQuery.data]);
+
+  // Background imports that just finished bring new leads and tags
+  const activeIdsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const activeIds = new Set(jobs.filter(job => ACTIVE_STATUSES.includes(job.status)).map(job => job.id));
+    const finished = [...activeIdsRef.current].some(id => !activeIds.has(id));
+    activeIdsRef.current = activeIds;
+    if (finished) {
+      queryClient.invalidateQueries({ queryKey: ['leads', currentWorkspace?.id] });
+      queryClient.invalidateQueries({ queryKey: ['lead_tags', currentWorkspace?.id] });
+    }
+  }, [jobs, queryClient, currentWorkspace?.id]);
+
+  const previewMutation = useMutation({
+    mutationFn: async (file: File): Promise<LeadImportPreview> => {
+      if (!currentWorkspace) throw new Error('Nenhum workspace selecionado');
+
+      const safeName = file.name.replace(/[^\w.-]+/g, '_');
+      const storagePath = `${currentWorkspace.id}/${crypto.randomUUID()}/${safeName}`;
+      const { error: uploadError } = await supabase.storage
+        .from(LEAD_IMPORTS_BUCKET)
+        .upload(storagePath, file, { contentType: file.type || undefined });
+      if (uploadError) throw new Error(`Falha ao enviar "${file.name}": ${uploadError.message}`);
+
+      const { data, error } = await supabase.functions.invoke('import-leads', {
+        body: { workspaceId: currentWorkspace.id, storagePath, fileName: file.name, preview: true },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      return {
+        storagePath,
+        fileName: file.name,
+        fileType: data.fileType,
+        headers: data.headers,
+        sampleRows: data.sampleRows,
+        totalRows: data.totalRows,
+        mapping: data.mapping,
+      };
+    },
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async (input: StartLeadImportInput): Promise<StartLeadImportResult> => {
+      if (!currentWorkspace) throw new Error('Nenhum workspace selecionado');
+
+      const { data, error } = await supabase.functions.invoke('import-leads', {
+        body: {
+          workspaceId: currentWorkspace.id,
+          storagePath: input.preview.storagePath,
+          fileName: input.preview.fileName,
+          mapping: input.mapping,
+          listId: input.listId,
+          tagIds: input.tagIds,
+          updateExisting: input.updateExisting,
+        },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data as StartLeadImportResult;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['leads', currentWorkspace?.id] });
+      queryClient.invalidateQueries({ queryKey: ['lead_tags', currentWorkspace?.id] });
+    },
+  });
+
+  return {
+    jobs,
+    isLoading: jobsQuery.isLoading,
+    previewImport: previewMutation.mutateAsync,
+    isPreviewing: previewMutation.isPending,
+    startImport: startMutation.mutateAsync,
+    isImporting: startMutation.isPending,
+  };
+}
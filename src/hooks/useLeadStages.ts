@@ -0,0 +1,195 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { LeadFilters, LeadStage, LeadStageEvent, LeadStageHistoryEntry, LeadStageKind } from '@/types';
+import { leadFiltersParam } from '@/lib/leadFilters';
+
+export interface LeadStageInput {
+  name: string;
+  color: string;
+  kind: LeadStageKind;
+  auto_events: LeadStageEvent[];
+}
+
+export interface MoveLeadsToStageInput {
+  leadIds: string[];
+  stageId: string;
+}
+
+/**
+ * Etapas do pipeline do workspace (lead_stages). Membros movem leads entre
+ * etapas (move_leads_to_stage, registra o histórico); só admins criam,
+ * editam, reordenam e removem etapas. Remover uma etapa move os leads dela
+ * para a primeira etapa restante.
+ */
+export function useLeadStages() {
+  const { currentWorkspace } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['lead-stages', currentWorkspace?.id];
+
+  const stagesQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<LeadStage[]> => {
+      if (!currentWorkspace) return [];
+      const { data, error } = await supabase
+        .from('lead_stages')
+        .select('*')
+        .eq('workspace_id', currentWorkspace.id)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return (data || []) as LeadStage[];
+    },
+    enabled: !!currentWorkspace,
+  });
+
+  const stages = useMemo(() => stagesQuery.data || [], [stagesQuery.data]);
+
+  const invalidateLeads = () => {
+    queryClient.invalidateQueries({ queryKey: ['leads', currentWorkspace?.id] });
+    queryClient.invalidateQueries({ queryKey: ['lead-stage-history'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (input: LeadStageInput) => {
+      if (!currentWorkspace) throw new Error('Nenhum workspace selecionado');
+      if (!input.name.trim()) throw new Error('Informe o nome da etapa.');
+
+      const { data, error } = await supabase
+        .from('lead_stages')
+        .insert({
+          workspace_id: currentWorkspace.id,
+          name: input.name.trim(),
+          color: input.color,
+          kind: input.kind,
+          auto_events: input.auto_events,
+          position: stages.length > 0 ? Math.max(...stages.map(stage => stage.position)) + 1 : 0,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as LeadStage;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...input }: LeadStageInput & { id: string }) => {
+      if (!input.name.trim()) throw new Error('Informe o nome da etapa.');
+      const { error } = await supabase
+        .from('lead_stages')
+        .update({ ...input, name: input.name.trim() })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  // Grava a posição de cada etapa na ordem recebida, numa única transação
+  const reorderMutation = useMutation({
+    mutationFn: async (stageIds: string[]) => {
+      if (!currentWorkspace) throw new Error('Nenhum workspace selecionado');
+      const { error } = await supabase.rpc('reorder_lead_stages', {
+        p_workspace_id: currentWorkspace.id,
+        p_stage_ids: stageIds,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (stages.length <= 1) throw new Error('O pipeline precisa de pelo menos uma etapa.');
+      const { error } = await supabase.from('lead_stages').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      invalidateLeads();
+    },
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ leadIds, stageId }: MoveLeadsToStageInput) => {
+      const { data, error } = await supabase.rpc('move_leads_to_stage', {
+        p_lead_ids: leadIds,
+        p_stage_id: stageId,
+      });
+      if (error) throw error;
+      return Number(data ?? 0);
+    },
+    onSuccess: invalidateLeads,
+  });
+
+  return {
+    stages,
+    isLoading: stagesQuery.isLoading,
+    createStage: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    updateStage: updateMutation.mutateAsync,
+    isUpdating: updateMutation.isPending,
+    reorderStages: reorderMutation.mutateAsync,
+    isReordering: reorderMutation.isPending,
+    removeStage: removeMutation.mutateAsync,
+    isRemoving: removeMutation.isPending,
+    moveLeadsToStage: moveMutation.mutateAsync,
+    isMoving: moveMutation.isPending,
+  };
+}
+
+/** Quantidade de leads por etapa com os filtros da listagem (count_leads_by_stage) */
+export function useLeadStageCounts(filters?: LeadFilters) {
+  const { currentWorkspace } = useAuth();
+  const params = useMemo(() => (filters ? leadFiltersParam(filters) : {}), [filters]);
+
+  const countsQuery = useQuery({
+    queryKey: ['leads', currentWorkspace?.id, 'stage-counts', params],
+    queryFn: async (): Promise<Map<string, number>> => {
+      if (!currentWorkspace) return new Map();
+      const { data, error } = await supabase.rpc('count_leads_by_stage', {
+        p_workspace_id: currentWorkspace.id,
+        p_filters: params,
+      });
+      if (error) throw error;
+      return new Map((data || []).filter(row => row.stage_id).map(row => [row.stage_id, Number(row.lead_count)]));
+    },
+    enabled: !!currentWorkspace,
+  });
+
+  return {
+    counts: countsQuery.data,
+    isLoading: countsQuery.isLoading,
+  };
+}
+
+/** Histórico de etapas de um lead, do mais recente ao mais antigo */
+export function useLeadStageHistory(leadId: string | null | undefined) {
+  const historyQuery = useQuery({
+    queryKey: ['lead-stage-history', leadId],
+    queryFn: async (): Promise<LeadStageHistoryEntry[]> => {
+      if (!leadId) return [];
+      const { data, error } = await supabase
+        .from('lead_stage_history')
+        .select('id, lead_id, from_stage_id, from_stage_name, to_stage_id, to_stage_name, source, campaign_id, changed_by, created_at')
+        .eq('lead_id', leadId)
+        .order('created_at', { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return (data || []) as LeadStageHistoryEntry[];
+    },
+    enabled: !!leadId,
+  });
+
+  return {
+    history: historyQuery.data || [],
+    isLoading: historyQuery.isLoading,
+  };
+}
@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { keepPreviousData, useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { leadFiltersParam, LEADS_PAGE_SIZE, MAX_SELECT_ALL_LEADS } from '@/lib/leadFilters';
+import { Lead, LeadFilters, LeadListItem, LeadSort } from '@/types';
+
+type LeadPageCursor = { value: string; id: string } | null;
+
+// Digitação nos filtros de texto não dispara uma consulta por tecla
+const FILTER_DEBOUNCE_MS = 300;
+
+// Mantém os filtros .in() abaixo do limite de tamanho da URL
+const ID_CHUNK_SIZE = 200;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+async function fetchLeadRows(ids: string[]): Promise<Lead[]> {
+  const rows: Lead[] = [];
+  for (const idChunk of chunk(ids, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase.from('leads').select('*').in('id', idChunk);
+    if (error) throw error;
+    rows.push(...((data || []) as Lead[]));
+  }
+  return rows;
+}
+
+/**
+ * Tabela de leads paginada no servidor (search_leads): páginas por cursor,
+ * ordenação, busca e filtros. Ações em massa recebem ids; "selecionar todos"
+ * busca os ids de todos os leads que correspondem aos filtros (get_lead_ids).
+ */
+export function useLeadsPage(filters: LeadFilters, sort: LeadSort) {
+  const { currentWorkspace } = useAuth();
+  const queryClient = useQueryClient();
+
+  const params = useMemo(() => leadFiltersParam(filters), [filters]);
+  const paramsKey = JSON.stringify(params);
+  const [debouncedParams, setDebouncedParams] = useState(params);
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedParams(JSON.parse(paramsKey)), FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [paramsKey]);
+
+  // Prefixo ['leads', workspace]: as invalidações de useLeads também atualizam a tabela
+  const pagesQuery = useInfiniteQuery({
+    queryKey: ['leads', currentWorkspace?.id, 'page', debouncedParams, sort],
+    queryFn: async ({ pageParam }) => {
+      if (!currentWorkspace) return [];
+      const { data, error } = await supabase.rpc('search_leads', {
+        p_workspace_id: currentWorkspace.id,
+        p_filters: debouncedParams,
+        p_sort: sort.column,
+        p_ascending: sort.ascending,
+        p_cursor: pageParam,
+        p_limit: LEADS_PAGE_SIZE,
+      });
+      if (error) throw error;
+      return (data || []) as LeadListItem[];
+    },
+    initialPageParam: null as LeadPageCursor,
+    getNextPageParam: (lastPage): LeadPageCursor | undefined => {
+      if (lastPage.length < LEADS_PAGE_SIZE) return undefined;
+      const last = lastPage[lastPage.length - 1];
+      return { value: last.sort_value, id: last.id };
+    },
+    enabled: !!currentWorkspace,
+    placeholderData: keepPreviousData,
+  });
+
+  const countQuery = useQuery({
+    queryKey: ['leads', currentWorkspace?.id, 'count', debouncedParams],
+    queryFn: async () => {
+      if (!currentWorkspace) return 0;
+      const { data, error } = await supabase.rpc('count_leads', {
+        p_workspace_id: currentWorkspace.id,
+        p_filters: debouncedParams,
+      });
+      if (error) throw error;
+      return Number(data ?? 0);
+    },
+    enabled: !!currentWorkspace,
+    placeholderData: keepPreviousData,
+  });
+
+  const leads = useMemo(() => pagesQuery.data?.pages.flat() ?? [], [pagesQuery.data]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['leads', currentWorkspace?.id] });
+
+  const deleteLeadsMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      for (const idChunk of chunk(ids, ID_CHUNK_SIZE)) {
+        const { error } = await supabase.from('leads').delete().in('id', idChunk);
+        if (error) throw error;
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  const moveLeadsMutation = useMutation({
+    mutationFn: async ({ leadIds, listId }: { leadIds: string[]; listId: string | null }) => {
+      for (const idChunk of chunk(leadIds, ID_CHUNK_SIZE)) {
+        const { error } = await supabase.from('leads').update({ list_id: listId }).in('id', idChunk);
+        if (error) throw error;
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  /** Ids de todos os leads que correspondem aos filtros atuais */
+  async function fetchMatchingLeadIds(): Promise<string[]> {
+    if (!currentWorkspace) return [];
+    const { data, error } = await supabase.rpc('get_lead_ids', {
+      p_workspace_id: currentWorkspace.id,
+      p_filters: debouncedParams,
+      p_limit: MAX_SELECT_ALL_LEADS,
+    });
+    if (error) throw error;
+    return (data || []) as string[];
+  }
+
+  /** Dados completos dos leads selecionados (exportação, enriquecimento) */
+  async function fetchLeadsByIds(ids: string[]): Promise<Lead[]> {
+    return fetchLeadRows(ids);
+  }
+
+  return {
+    leads,
+    totalCount: countQuery.data ?? 0,
+    isLoading: pagesQuery.isLoading,
+    isFetching: pagesQuery.isFetching,
+    hasNextPage: pagesQuery.hasNextPage,
+    fetchNextPage: pagesQuery.fetchNextPage,
+    isFetchingNextPage: pagesQuery.isFetchingNextPage,
+    refetchLeads: invalidate,
+    deleteLeads: deleteLeadsMutation.mutateAsync,
+    moveLeads: moveLeadsMutation.mutateAsync,
+    fetchMatchingLeadIds,
+    fetchLeadsByIds,
+  };
+}
+
+/** Quantidade de leads que correspondem aos filtros (count_leads); null não consulta */
+export function useLeadsCount(filters: LeadFilters | null) {
+  const { currentWorkspace } = useAuth();
+  const params = useMemo(() => (filters ? leadFiltersParam(filters) : null), [filters]);
+
+  const countQuery = useQuery({
+    queryKey: ['leads', currentWorkspace?.id, 'count', params],
+    queryFn: async () => {
+      if (!currentWorkspace || !params) return 0;
+      const { data, error } = await supabase.rpc('count_leads', {
+        p_workspace_id: currentWorkspace.id,
+        p_filters: params,
+      });
+      if (error) throw error;
+      return Number(data ?? 0);
+    },
+    enabled: !!currentWorkspace && !!params,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    count: params ? countQuery.data ?? 0 : 0,
+    isLoading: countQuery.isLoading,
+  };
+}
+
+/**
+ * Dados completos de uma seleção de leads (validação de variáveis, simulação,
+ * criação da campanha). Só busca os ids que ainda não foram carregados.
+ */
+export function useLeadsByIds(ids: string[]) {
+  const { currentWorkspace } = useAuth();
+  const loadedRef = useRef(new Map<string, Lead>());
+  const sortedIds = useMemo(() => [...ids].sort(), [ids]);
+
+  const leadsQuery = useQuery({
+    queryKey: ['leads', currentWorkspace?.id, 'by-ids', sortedIds],
+    queryFn: async () => {
+      const loaded = loadedRef.current;
+      const missing = sortedIds.filter(id => !loaded.has(id));
+      for (const lead of await fetchLeadRows(missing)) loaded.set(lead.id, lead);
+      return sortedIds.map(id => loaded.get(id)).filter((lead): lead is Lead => !!lead);
+    },
+    enabled: !!currentWorkspace && sortedIds.length > 0,
+    placeholderData: keepPreviousData,
+  });
+
+  // Enquanto a nova seleção carrega, a anterior continua sem os ids removidos
+  const leads = useMemo(() => {
+    const selected = new Set(sortedIds);
+    return (leadsQuery.data ?? []).filter(lead => selected.has(lead.id));
+  }, [leadsQuery.data, sortedIds]);
+
+  return {
+    leads,
+    isLoading: leadsQuery.isFetching,
+  };
+}
+
+/** Lead completo para o painel de detalhes */
+export function useLead(leadId: string | null) {
+  const { currentWorkspace } = useAuth();
+
+  const leadQuery = useQuery({
+    queryKey: ['leads', currentWorkspace?.id, 'detail', leadId],
+    queryFn: async () => {
+      if (!leadId) return null;
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*')
+        .eq('id', leadId)
+        .maybeSingle();
+      if (error) throw error;
+      return data as Lead | null;
+    },
+    enabled: !!currentWorkspace && !!leadId,
+  });
+
+  return {
+    lead: leadQuery.data ?? null,
+    isLoading: leadQuery.isLoading,
+  };
+}
+
+/** Opções de indústria e país dos filtros, sem carregar os leads */
+export function useLeadFilterOptions() {
+  const { currentWorkspace } = useAuth();
+
+  const optionsQuery = useQuery({
+    queryKey: ['leads', currentWorkspace?.id, 'filter-options'],
+    queryFn: async () => {
+      if (!currentWorkspace) return { industries: [], countries: [] };
+      const { data, error } = await supabase.rpc('get_lead_filter_options', {
+        p_workspace_id: currentWorkspace.id,
+      });
+      if (error) throw error;
+      const row = (data || [])[0];
+      return { industries: row?.industries ?? [], countries: row?.countries ?? [] };
+    },
+    enabled: !!currentWorkspace,
+  });
+
+  return {
+    industries: optionsQuery.data?.industries ?? [],
+    countries: optionsQuery.data?.countries ?? [],
+  };
+}
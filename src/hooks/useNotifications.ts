@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { AppNotification } from '@/types';
+
+/** Notificações do usuário no workspace atual (ex.: lead respondeu a uma campanha) */
+export function useNotifications() {
+  const { user, currentWorkspace } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['notifications', currentWorkspace?.id, user?.id];
+
+  const notificationsQuery = useQuery({
+    queryKey,
+    queryFn: async () => {
+      if (!currentWorkspace || !user) return [];
+
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('workspace_id', currentWorkspace.id)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(30);
+
+      if (error) throw error;
+      return (data || []) as AppNotification[];
+    },
+    enabled: !!currentWorkspace && !!user,
+    refetchInterval: 60000, // Replies arrive through webhooks
+  });
+
+  const markAsReadMutation = useMutation({
+    mutationFn: async (notificationIds: string[]) => {
+      if (notificationIds.length === 0) return;
+
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', notificationIds);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', currentWorkspace?.id] });
+    },
+  });
+
+  const notifications = notificationsQuery.data || [];
+  const unread = notifications.filter(n => !n.read_at);
+
+  return {
+    notifications,
+    unreadCount: unread.length,
+    isLoading: notificationsQuery.isLoading,
+    markAsRead: markAsReadMutation.mutateAsync,
+    markAllAsRead: () => markAsReadMutation.mutateAsync(unread.map(n => n.id)),
+  };
+}
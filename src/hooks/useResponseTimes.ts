@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import { subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ResponseTimeStats } from '@/types';
+
+/**
+ * Tempo até a primeira resposta por membro nos últimos `days` dias, com as
+ * conversas aguardando resposta e as atrasadas (acima do SLA) de cada um.
+ * user_id null agrupa as conversas sem responsável.
+ */
+export function useResponseTimeStats(days = 30) {
+  const { currentWorkspace } = useAuth();
+
+  const query = useQuery({
+    queryKey: ['response-time-stats', currentWorkspace?.id, days],
+    queryFn: async (): Promise<ResponseTimeStats[]> => {
+      if (!currentWorkspace) return [];
+
+      const { data, error } = await supabase.rpc('get_response_time_stats', {
+        p_workspace_id: currentWorkspace.id,
+        p_since: subDays(new Date(), days).toISOString(),
+      });
+
+      if (error) throw error;
+      return (data || []).map(row => ({
+        user_id: row.user_id,
+        responses_count: Number(row.responses_count),
+        avg_response_seconds: row.avg_response_seconds === null ? null : Number(row.avg_response_seconds),
+        median_response_seconds: row.median_response_seconds === null ? null : Number(row.median_response_seconds),
+        within_sla_count: Number(row.within_sla_count),
+        awaiting_count: Number(row.awaiting_count),
+        overdue_count: Number(row.overdue_count),
+      }));
+    },
+    enabled: !!currentWorkspace,
+    refetchInterval: 60_000,
+  });
+
+  return {
+    stats: query.data || [],
+    isLoading: query.isLoading,
+  };
+}
@@ -0,0 +1,195 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Snippet, SnippetChannel, SnippetUsageContext, SnippetVersion, SnippetWithStats } from '@/types';
+import { getSnippetErrors, normalizeShortcut } from '@/lib/snippets';
+
+export interface SnippetInput {
+  title: string;
+  body: string;
+  channel: SnippetChannel;
+  shortcut?: string | null;
+}
+
+export interface SnippetUsageInput {
+  snippetIds: string[];
+  context: SnippetUsageContext;
+  campaignId?: string;
+  leadId?: string;
+  chatId?: string;
+}
+
+function validateSnippet(input: SnippetInput) {
+  const errors = getSnippetErrors(input);
+  if (errors.length > 0) throw new Error(errors[0]);
+
+  return {
+    title: input.title.trim(),
+    body: input.body,
+    channel: input.channel,
+    shortcut: normalizeShortcut(input.shortcut),
+  };
+}
+
+function shortcutTakenError(error: { code?: string }) {
+  return error.code === '23505' ? new Error('Já existe um snippet com este atalho.') : error;
+}
+
+/**
+ * Biblioteca de respostas prontas do workspace, com uso e taxa de resposta
+ * de cada snippet
+ */
+export function useSnippets() {
+  const { currentWorkspace, user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['snippets', currentWorkspace?.id];
+
+  const snippetsQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<SnippetWithStats[]> => {
+      if (!currentWorkspace) return [];
+
+      const [{ data, error }, { data: stats, error: statsError }] = await Promise.all([
+        supabase
+          .from('snippets')
+          .select('*')
+          .eq('workspace_id', currentWorkspace.id)
+          .order('title', { ascending: true }),
+        supabase.rpc('get_snippet_stats', { p_workspace_id: currentWorkspace.id }),
+      ]);
+
+      if (error) throw error;
+      if (statsError) throw statsError;
+
+      const statsBySnippet = new Map((stats || []).map(row => [row.snippet_id, row]));
+      return ((data || []) as Snippet[]).map(snippet => {
+        const row = statsBySnippet.get(snippet.id);
+        return {
+          ...snippet,
+          usage_count: Number(row?.usage_count ?? 0),
+          reached_count: Number(row?.reached_count ?? 0),
+          replied_count: Number(row?.replied_count ?? 0),
+        };
+      });
+    },
+    enabled: !!currentWorkspace,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (input: SnippetInput) => {
+      if (!currentWorkspace) throw new Error('No workspace selected');
+
+      const { data, error } = await supabase
+        .from('snippets')
+        .insert({
+          ...validateSnippet(input),
+          workspace_id: currentWorkspace.id,
+          created_by: user?.id ?? null,
+          updated_by: user?.id ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) throw shortcutTakenError(error);
+      return data as Snippet;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  // O trigger snippets_version arquiva o conteúdo anterior e incrementa a versão
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...input }: SnippetInput & { id: string }) => {
+      const { error } = await supabase
+        .from('snippets')
+        .update({ ...validateSnippet(input), updated_by: user?.id ?? null })
+        .eq('id', id);
+
+      if (error) throw shortcutTakenError(error);
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['snippet-versions', id] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (snippetId: string) => {
+      const { error } = await supabase
+        .from('snippets')
+        .delete()
+        .eq('id', snippetId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  // Registra cada inserção (campanha, inbox ou cópia no lead) com a versão usada
+  const recordUsageMutation = useMutation({
+    mutationFn: async ({ snippetIds, context, campaignId, leadId, chatId }: SnippetUsageInput) => {
+      if (!currentWorkspace || !user || snippetIds.length === 0) return;
+
+      const versions = new Map((snippetsQuery.data || []).map(snippet => [snippet.id, snippet.version]));
+      const { error } = await supabase
+        .from('snippet_usages')
+        .insert(
+          [...new Set(snippetIds)].map(snippetId => ({
+            snippet_id: snippetId,
+            workspace_id: currentWorkspace.id,
+            version: versions.get(snippetId) ?? 1,
+            context,
+            used_by: user.id,
+            campaign_id: campaignId ?? null,
+            lead_id: leadId ?? null,
+            chat_id: chatId ?? null,
+          }))
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  return {
+    snippets: snippetsQuery.data || [],
+    isLoading: snippetsQuery.isLoading,
+    createSnippet: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    updateSnippet: updateMutation.mutateAsync,
+    isUpdating: updateMutation.isPending,
+    deleteSnippet: deleteMutation.mutateAsync,
+    isDeleting: deleteMutation.isPending,
+    recordUsage: recordUsageMutation.mutateAsync,
+  };
+}
+
+/** Versões anteriores de um snippet (mais recentes primeiro) */
+export function useSnippetVersions(snippetId: string | null) {
+  const query = useQuery({
+    queryKey: ['snippet-versions', snippetId],
+    queryFn: async (): Promise<SnippetVersion[]> => {
+      if (!snippetId) return [];
+
+      const { data, error } = await supabase
+        .from('snippet_versions')
+        .select('*')
+        .eq('snippet_id', snippetId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as SnippetVersion[];
+    },
+    enabled: !!snippetId,
+  });
+
+  return {
+    versions: query.data || [],
+    isLoading: query.isLoading,
+  };
+}
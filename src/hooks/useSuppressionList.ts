@@ -0,0 +1,115 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { SuppressionEntry, SuppressionEntryType } from '@/types';
+import { normalizeSuppressionValue, SUPPRESSION_TYPE_LABELS } from '@/lib/suppression';
+
+// Lotes do upsert na importação de CSV
+const IMPORT_CHUNK_SIZE = 500;
+
+/** Lista de não contatar do workspace (leads que nenhuma campanha pode contatar) */
+export function useSuppressionList() {
+  const { currentWorkspace, user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['suppression-list', currentWorkspace?.id];
+
+  const listQuery = useQuery({
+    queryKey,
+    queryFn: async () => {
+      if (!currentWorkspace) return [];
+
+      const { data, error } = await supabase
+        .from('suppression_list')
+        .select('*')
+        .eq('workspace_id', currentWorkspace.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as SuppressionEntry[];
+    },
+    enabled: !!currentWorkspace,
+  });
+
+  const addEntryMutation = useMutation({
+    mutationFn: async ({ entryType, value, note }: { entryType: SuppressionEntryType; value: string; note?: string }) => {
+      if (!currentWorkspace) throw new Error('No workspace selected');
+
+      const normalized = normalizeSuppressionValue(entryType, value);
+      if (!normalized) throw new Error(`${SUPPRESSION_TYPE_LABELS[entryType]} inválido.`);
+
+      const { error } = await supabase
+        .from('suppression_list')
+        .insert({
+          workspace_id: currentWorkspace.id,
+          entry_type: entryType,
+          value: normalized,
+          reason: 'manual',
+          note: note?.trim() || null,
+          created_by: user?.id ?? null,
+        });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('Este contato já está na lista.');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const removeEntryMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const { error } = await supabase
+        .from('suppression_list')
+        .delete()
+        .eq('id', entryId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  // Retorna quantas entradas eram novas (as já existentes são ignoradas)
+  const importEntriesMutation = useMutation({
+    mutationFn: async (entries: { entry_type: SuppressionEntryType; value: string }[]) => {
+      if (!currentWorkspace) throw new Error('No workspace selected');
+
+      let added = 0;
+      for (let i = 0; i < entries.length; i += IMPORT_CHUNK_SIZE) {
+        const { data, error } = await supabase
+          .from('suppression_list')
+          .upsert(
+            entries.slice(i, i + IMPORT_CHUNK_SIZE).map(entry => ({
+              ...entry,
+              workspace_id: currentWorkspace.id,
+              reason: 'import',
+              created_by: user?.id ?? null,
+            })),
+            { onConflict: 'workspace_id,entry_type,value', ignoreDuplicates: true }
+          )
+          .select('id');
+
+        if (error) throw error;
+        added += (data || []).length;
+      }
+      return added;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  return {
+    entries: listQuery.data || [],
+    isLoading: listQuery.isLoading,
+    addEntry: addEntryMutation.mutateAsync,
+    isAdding: addEntryMutation.isPending,
+    removeEntry: removeEntryMutation.mutateAsync,
+    isRemoving: removeEntryMutation.isPending,
+    importEntries: importEntriesMutation.mutateAsync,
+    isImporting: importEntriesMutation.isPending,
+  };
+}
@@ -0,0 +1,130 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { WorkspaceHoliday } from '@/types';
+
+/** Feriados do workspace (pulados pelas campanhas com "Pular feriados") */
+export function useWorkspaceHolidays() {
+  const { currentWorkspace } = useAuth();
+  const queryClient = useQueryClient();
+
+  const holidaysQuery = useQuery({
+    queryKey: ['workspace-holidays', currentWorkspace?.id],
+    queryFn: async () => {
+      if (!currentWorkspace) return [];
+
+      const { data, error } = await supabase
+        .from('workspace_holidays')
+        .select('*')
+        .eq('workspace_id', currentWorkspace.id)
+        .order('holiday_date', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as WorkspaceHoliday[];
+    },
+    enabled: !!currentWorkspace,
+  });
+
+  const addHolidayMutation = useMutation({
+    mutationFn: async ({ date, name }: { date: string; name: string }) => {
+      if (!currentWorkspace) throw new Error('No workspace selected');
+
+      const { data, error } = await supabase
+        .from('workspace_holidays')
+        .insert({ workspace_id: currentWorkspace.id, holiday_date: date, name: name.trim() })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') throw new Error('Já existe um feriado cadastrado nesta data.');
+        throw error;
+      }
+      return data as WorkspaceHoliday;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workspace-holidays', currentWorkspace?.id] });
+    },
+  });
+
+  const removeHolidayMutation = useMutation({
+    mutationFn: async (holidayId: string) => {
+      const { error } = await supabase
+        .from('workspace_holidays')
+        .delete()
+        .eq('id', holidayId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workspace-holidays', currentWorkspace?.id] });
+    },
+  });
+
+  const holidays = holidaysQuery.data || [];
+
+  return {
+    holidays,
+    holidayDates: holidays.map(h => h.holiday_date),
+    isLoading: holidaysQuery.isLoading,
+    addHoliday: addHolidayMutation.mutateAsync,
+    isAdding: addHolidayMutation.isPending,
+    removeHoliday: removeHolidayMutation.mutateAsync,
+    isRemoving: removeHolidayMutation.isPending,
+  };
+}
+
+/** Fuso horário do workspace (usado pela janela de envio e pela fila) */
+export function useWorkspaceTimezone() {
+  const { currentWorkspace } = useAuth();
+
+  const query = useQuery({
+    queryKey: ['workspace-timezone', currentWorkspace?.id],
+    queryFn: async () => {
+      if (!currentWorkspace) return 'UTC';
+
+      const { data, error } = await supabase
+        .from('workspaces')
+        .select('timezone')
+        .eq('id', currentWorkspace.id)
+        .single();
+
+      if (error) throw error;
+      return data?.timezone || 'UTC';
+    },
+    enabled: !!currentWorkspace,
+  });
+
+  return query.data || 'UTC';
+}
+
+/** Último dia agendado na fila de cada campanha (previsão de término das campanhas em andamento) */
+export function useCampaignQueueEnd(campaignIds: string[]) {
+  const { currentWorkspace } = useAuth();
+  const idsKey = [...campaignIds].sort().join(',');
+
+  const query = useQuery({
+    queryKey: ['campaign-queue-end', currentWorkspace?.id, idsKey],
+    queryFn: async () => {
+      if (!currentWorkspace || campaignIds.length === 0) return {};
+
+      const { data, error } = await supabase
+        .from('campaign_queue')
+        .select('campaign_id, scheduled_date')
+        .in('campaign_id', campaignIds)
+        .in('status', ['queued', 'processing']);
+
+      if (error) throw error;
+
+      const byCampaign: Record<string, string> = {};
+      for (const row of data || []) {
+        if (!byCampaign[row.campaign_id] || row.scheduled_date > byCampaign[row.campaign_id]) {
+          byCampaign[row.campaign_id] = row.scheduled_date;
+        }
+      }
+      return byCampaign;
+    },
+    enabled: !!currentWorkspace && campaignIds.length > 0,
+  });
+
+  return query.data || {};
+}
@@ -1,6 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { ConversationAssignmentMode } from '@/types';
+import { DEFAULT_RESPONSE_SLA_MINUTES, MAX_RESPONSE_SLA_MINUTES, MIN_RESPONSE_SLA_MINUTES } from '@/lib/conversationSla';
 
 export interface WorkspaceSettings {
   id: string;
@@ -13,6 +15,9 @@ export interface WorkspaceSettings {
   linkedin_daily_message_limit: number;
   linkedin_daily_invite_limit: number;
   linkedin_message_interval_seconds: number;
+  // Inbox settings
+  conversation_assignment_mode: ConversationAssignmentMode;
+  response_sla_minutes: number;
   created_at: string;
   updated_at: string;
 }
@@ -26,6 +31,9 @@ const DEFAULT_SETTINGS = {
   linkedin_daily_message_limit: 50,
   linkedin_daily_invite_limit: 25,
   linkedin_message_interval_seconds: 30,
+  // Inbox defaults
+  conversation_assignment_mode: 'manual' as ConversationAssignmentMode,
+  response_sla_minutes: DEFAULT_RESPONSE_SLA_MINUTES,
 };
 
 export function useWorkspaceSettings() {
@@ -50,7 +58,7 @@ export function useWorkspaceSettings() {
   });
 
   const upsertSettingsMutation = useMutation({
-    mutationFn: async (settings: Partial<Pick<WorkspaceSettings, 'daily_message_limit' | 'message_interval_seconds' | 'max_retries' | 'linkedin_daily_message_limit' | 'linkedin_daily_invite_limit' | 'linkedin_message_interval_seconds'>>) => {
+    mutationFn: async (settings: Partial<Pick<WorkspaceSettings, 'daily_message_limit' | 'message_interval_seconds' | 'max_retries' | 'linkedin_daily_message_limit' | 'linkedin_daily_invite_limit' | 'linkedin_message_interval_seconds' | 'conversation_assignment_mode' | 'response_sla_minutes'>>) => {
       if (!currentWorkspace) throw new Error('No workspace selected');
 
       // Validate and clamp values to safe ranges
@@ -74,6 +82,12 @@ export function useWorkspaceSettings() {
       if (settings.linkedin_message_interval_seconds !== undefined) {
         validatedSettings.linkedin_message_interval_seconds = Math.max(10, Math.min(300, settings.linkedin_message_interval_seconds));
       }
+      if (settings.conversation_assignment_mode !== undefined) {
+        validatedSettings.conversation_assignment_mode = settings.conversation_assignment_mode;
+      }
+      if (settings.response_sla_minutes !== undefined) {
+        validatedSettings.response_sla_minutes = Math.max(MIN_RESPONSE_SLA_MINUTES, Math.min(MAX_RESPONSE_SLA_MINUTES, settings.response_sla_minutes));
+      }
 
       // Skip update if no changes
       if (Object.keys(validatedSettings).length === 0) {
@@ -49,39 +49,60 @@ export type Database = {
           account_id: string
           channel: string
           created_at: string
+          daily_message_limit: number | null
           id: string
           linkedin_feature: string | null
           linkedin_organization_name: string | null
+          message_interval_seconds: number | null
           name: string | null
+          owner_id: string | null
           provider: string
           status: string
           updated_at: string
+          warmup_daily_increase: number
+          warmup_enabled: boolean
+          warmup_start_limit: number
+          warmup_started_at: string | null
           workspace_id: string
         }
         Insert: {
           account_id: string
           channel: string
           created_at?: string
+          daily_message_limit?: number | null
           id?: string
           linkedin_feature?: string | null
           linkedin_organization_name?: string | null
+          message_interval_seconds?: number | null
           name?: string | null
+          owner_id?: string | null
           provider?: string
           status?: string
           updated_at?: string
+          warmup_daily_increase?: number
+          warmup_enabled?: boolean
+          warmup_start_limit?: number
+          warmup_started_at?: string | null
           workspace_id: string
         }
         Update: {
           account_id?: string
           channel?: string
           created_at?: string
+          daily_message_limit?: number | null
           id?: string
           linkedin_feature?: string | null
           linkedin_organization_name?: string | null
+          message_interval_seconds?: number | null
           name?: string | null
+          owner_id?: string | null
           provider?: string
           status?: string
           updated_at?: string
+          warmup_daily_increase?: number
+          warmup_enabled?: boolean
+          warmup_start_limit?: number
+          warmup_started_at?: string | null
           workspace_id?: string
         }
         Relationships: [
@@ -94,6 +115,119 @@ export type Database = {
           },
         ]
       }
+      campaign_accounts: {
+        Row: {
+          account_id: string
+          campaign_id: string
+          created_at: string
+          id: string
+          is_active: boolean
+          removed_at: string | null
+          removed_reason: string | null
+        }
+        Insert: {
+          account_id: string
+          campaign_id: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          removed_at?: string | null
+          removed_reason?: string | null
+        }
+        Update: {
+          account_id?: string
+          campaign_id?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          removed_at?: string | null
+          removed_reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_accounts_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_accounts_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_accounts_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_attachments: {
+        Row: {
+          campaign_id: string
+          created_at: string
+          file_name: string
+          id: string
+          kind: string
+          mime_type: string
+          position: number
+          size_bytes: number
+          storage_path: string
+          workspace_id: string
+        }
+        Insert: {
+          campaign_id: string
+          created_at?: string
+          file_name: string
+          id?: string
+          kind: string
+          mime_type: string
+          position?: number
+          size_bytes: number
+          storage_path: string
+          workspace_id: string
+        }
+        Update: {
+          campaign_id?: string
+          created_at?: string
+          file_name?: string
+          id?: string
+          kind?: string
+          mime_type?: string
+          position?: number
+          size_bytes?: number
+          storage_path?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_attachments_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_attachments_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_attachments_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       campaign_events: {
         Row: {
           campaign_id: string
@@ -149,53 +283,96 @@ export type Database = {
       campaign_leads: {
         Row: {
           accepted_at: string | null
+          account_id: string | null
           campaign_id: string
           created_at: string
+          current_step: number
           delivered_at: string | null
+          enrolled_via: string
           error: string | null
           id: string
           lead_id: string
+          lock_token: string | null
+          locked_until: string | null
+          message_version: number | null
+          next_step_at: string | null
           provider_message_id: string | null
           replied_at: string | null
+          reply_intent: string | null
           retry_count: number
           seen_at: string | null
           sent_at: string | null
+          sequence_status: string
           skip_reason: string | null
           status: string
+          stop_reason: string | null
+          stopped_at: string | null
+          variant_id: string | null
         }
         Insert: {
           accepted_at?: string | null
+          account_id?: string | null
           campaign_id: string
           created_at?: string
+          current_step?: number
           delivered_at?: string | null
+          enrolled_via?: string
           error?: string | null
           id?: string
           lead_id: string
+          lock_token?: string | null
+          locked_until?: string | null
+          message_version?: number | null
+          next_step_at?: string | null
           provider_message_id?: string | null
           replied_at?: string | null
+          reply_intent?: string | null
           retry_count?: number
           seen_at?: string | null
           sent_at?: string | null
+          sequence_status?: string
           skip_reason?: string | null
           status?: string
+          stop_reason?: string | null
+          stopped_at?: string | null
+          variant_id?: string | null
         }
         Update: {
           accepted_at?: string | null
+          account_id?: string | null
           campaign_id?: string
           created_at?: string
+          current_step?: number
           delivered_at?: string | null
+          enrolled_via?: string
           error?: string | null
           id?: string
           lead_id?: string
+          lock_token?: string | null
+          locked_until?: string | null
+          message_version?: number | null
+          next_step_at?: string | null
           provider_message_id?: string | null
           replied_at?: string | null
+          reply_intent?: string | null
           retry_count?: number
           seen_at?: string | null
           sent_at?: string | null
+          sequence_status?: string
           skip_reason?: string | null
           status?: string
+          stop_reason?: string | null
+          stopped_at?: string | null
+          variant_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "campaign_leads_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "campaign_leads_campaign_id_fkey"
             columns: ["campaign_id"]
@@ -217,6 +394,68 @@ export type Database = {
             referencedRelation: "leads"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "campaign_leads_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_message_versions: {
+        Row: {
+          campaign_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          message: string
+          subject: string | null
+          version: number
+          workspace_id: string
+        }
+        Insert: {
+          campaign_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          message: string
+          subject?: string | null
+          version: number
+          workspace_id: string
+        }
+        Update: {
+          campaign_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          message?: string
+          subject?: string | null
+          version?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_message_versions_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_message_versions_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_message_versions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       campaign_queue: {
@@ -258,70 +497,642 @@ export type Database = {
         }
         Relationships: []
       }
+      campaign_send_attempts: {
+        Row: {
+          account_id: string | null
+          action: string | null
+          attempt: number
+          campaign_id: string
+          campaign_lead_id: string
+          channel: string | null
+          created_at: string
+          details: Json
+          error: string | null
+          id: string
+          idempotency_key: string | null
+          outcome: string
+          provider_message_id: string | null
+          source: string
+          step_order: number
+          workspace_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          action?: string | null
+          attempt?: number
+          campaign_id: string
+          campaign_lead_id: string
+          channel?: string | null
+          created_at?: string
+          details?: Json
+          error?: string | null
+          id?: string
+          idempotency_key?: string | null
+          outcome: string
+          provider_message_id?: string | null
+          source: string
+          step_order?: number
+          workspace_id: string
+        }
+        Update: {
+          account_id?: string | null
+          action?: string | null
+          attempt?: number
+          campaign_id?: string
+          campaign_lead_id?: string
+          channel?: string | null
+          created_at?: string
+          details?: Json
+          error?: string | null
+          id?: string
+          idempotency_key?: string | null
+          outcome?: string
+          provider_message_id?: string | null
+          source?: string
+          step_order?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_send_attempts_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_send_attempts_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_send_attempts_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_send_attempts_campaign_lead_id_fkey"
+            columns: ["campaign_lead_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_send_attempts_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_steps: {
+        Row: {
+          action: string
+          campaign_id: string
+          condition: string
+          created_at: string
+          delay_days: number
+          id: string
+          message: string
+          step_order: number
+        }
+        Insert: {
+          action: string
+          campaign_id: string
+          condition?: string
+          created_at?: string
+          delay_days?: number
+          id?: string
+          message?: string
+          step_order: number
+        }
+        Update: {
+          action?: string
+          campaign_id?: string
+          condition?: string
+          created_at?: string
+          delay_days?: number
+          id?: string
+          message?: string
+          step_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_steps_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_steps_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_templates: {
+        Row: {
+          account_id: string | null
+          attachments: Json
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          linkedin_action: string | null
+          message: string
+          name: string
+          notify_on_reply: boolean
+          pool_account_ids: string[]
+          reply_stop_scope: string
+          send_window_days: number[] | null
+          send_window_end: string | null
+          send_window_start: string | null
+          skip_holidays: boolean
+          source_campaign_id: string | null
+          steps: Json
+          subject: string | null
+          type: string
+          updated_at: string
+          use_lead_timezone: boolean
+          variant_promote_after: number | null
+          variants: Json
+          workspace_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          attachments?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          linkedin_action?: string | null
+          message?: string
+          name: string
+          notify_on_reply?: boolean
+          pool_account_ids?: string[]
+          reply_stop_scope?: string
+          send_window_days?: number[] | null
+          send_window_end?: string | null
+          send_window_start?: string | null
+          skip_holidays?: boolean
+          source_campaign_id?: string | null
+          steps?: Json
+          subject?: string | null
+          type: string
+          updated_at?: string
+          use_lead_timezone?: boolean
+          variant_promote_after?: number | null
+          variants?: Json
+          workspace_id: string
+        }
+        Update: {
+          account_id?: string | null
+          attachments?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          linkedin_action?: string | null
+          message?: string
+          name?: string
+          notify_on_reply?: boolean
+          pool_account_ids?: string[]
+          reply_stop_scope?: string
+          send_window_days?: number[] | null
+          send_window_end?: string | null
+          send_window_start?: string | null
+          skip_holidays?: boolean
+          source_campaign_id?: string | null
+          steps?: Json
+          subject?: string | null
+          type?: string
+          updated_at?: string
+          use_lead_timezone?: boolean
+          variant_promote_after?: number | null
+          variants?: Json
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_templates_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_templates_source_campaign_id_fkey"
+            columns: ["source_campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_templates_source_campaign_id_fkey"
+            columns: ["source_campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_templates_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_variants: {
+        Row: {
+          campaign_id: string
+          created_at: string
+          id: string
+          is_winner: boolean
+          label: string
+          message: string
+          subject: string | null
+        }
+        Insert: {
+          campaign_id: string
+          created_at?: string
+          id?: string
+          is_winner?: boolean
+          label: string
+          message?: string
+          subject?: string | null
+        }
+        Update: {
+          campaign_id?: string
+          created_at?: string
+          id?: string
+          is_winner?: boolean
+          label?: string
+          message?: string
+          subject?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_variants_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_variants_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       campaigns: {
         Row: {
           account_id: string | null
+          audience_list_id: string | null
+          audience_tag_ids: string[] | null
+          audience_tag_match: string
+          audience_type: string
+          auto_enroll: boolean
           created_at: string
+          created_by: string | null
+          daily_enroll_cap: number | null
           delivered_count: number
           failed_count: number
           id: string
+          last_enrolled_at: string | null
           leads_count: number
           linkedin_action: string | null
           message: string
+          message_version: number
           name: string
+          notify_on_reply: boolean
+          paused_at: string | null
           replied_count: number
+          reply_stop_scope: string
           schedule: string | null
           seen_count: number
+          send_window_days: number[] | null
+          send_window_end: string | null
+          send_window_start: string | null
           sent_count: number
+          skip_contacted_leads: boolean
+          skip_holidays: boolean
           status: string
           subject: string | null
+          template_id: string | null
           type: string
           updated_at: string
+          use_lead_timezone: boolean
+          variant_promote_after: number | null
+          winner_promoted_at: string | null
+          winner_variant_id: string | null
           workspace_id: string
         }
         Insert: {
           account_id?: string | null
+          audience_list_id?: string | null
+          audience_tag_ids?: string[] | null
+          audience_tag_match?: string
+          audience_type?: string
+          auto_enroll?: boolean
           created_at?: string
+          created_by?: string | null
+          daily_enroll_cap?: number | null
           delivered_count?: number
           failed_count?: number
           id?: string
+          last_enrolled_at?: string | null
           leads_count?: number
           linkedin_action?: string | null
           message: string
+          message_version?: number
           name: string
+          notify_on_reply?: boolean
+          paused_at?: string | null
           replied_count?: number
+          reply_stop_scope?: string
           schedule?: string | null
           seen_count?: number
+          send_window_days?: number[] | null
+          send_window_end?: string | null
+          send_window_start?: string | null
           sent_count?: number
+          skip_contacted_leads?: boolean
+          skip_holidays?: boolean
           status?: string
           subject?: string | null
+          template_id?: string | null
           type: string
           updated_at?: string
+          use_lead_timezone?: boolean
+          variant_promote_after?: number | null
+          winner_promoted_at?: string | null
+          winner_variant_id?: string | null
           workspace_id: string
         }
         Update: {
           account_id?: string | null
+          audience_list_id?: string | null
+          audience_tag_ids?: string[] | null
+          audience_tag_match?: string
+          audience_type?: string
+          auto_enroll?: boolean
           created_at?: string
+          created_by?: string | null
+          daily_enroll_cap?: number | null
           delivered_count?: number
           failed_count?: number
           id?: string
+          last_enrolled_at?: string | null
           leads_count?: number
           linkedin_action?: string | null
           message?: string
+          message_version?: number
           name?: string
+          notify_on_reply?: boolean
+          paused_at?: string | null
           replied_count?: number
+          reply_stop_scope?: string
           schedule?: string | null
           seen_count?: number
+          send_window_days?: number[] | null
+          send_window_end?: string | null
+          send_window_start?: string | null
           sent_count?: number
+          skip_contacted_leads?: boolean
+          skip_holidays?: boolean
           status?: string
           subject?: string | null
+          template_id?: string | null
           type?: string
           updated_at?: string
+          use_lead_timezone?: boolean
+          variant_promote_after?: number | null
+          winner_promoted_at?: string | null
+          winner_variant_id?: string | null
           workspace_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "campaigns_workspace_id_fkey"
+            foreignKeyName: "campaigns_audience_list_id_fkey"
+            columns: ["audience_list_id"]
+            isOneToOne: false
+            referencedRelation: "lead_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaigns_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaigns_winner_variant_id_fkey"
+            columns: ["winner_variant_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_variants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaigns_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_reads: {
+        Row: {
+          chat_id: string
+          last_read_at: string
+          user_id: string
+        }
+        Insert: {
+          chat_id: string
+          last_read_at?: string
+          user_id: string
+        }
+        Update: {
+          chat_id?: string
+          last_read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_reads_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_response_times: {
+        Row: {
+          chat_id: string
+          created_at: string
+          id: string
+          message_id: string
+          responded_at: string
+          response_seconds: number
+          user_id: string | null
+          waiting_since: string
+          workspace_id: string
+        }
+        Insert: {
+          chat_id: string
+          created_at?: string
+          id?: string
+          message_id: string
+          responded_at: string
+          response_seconds: number
+          user_id?: string | null
+          waiting_since: string
+          workspace_id: string
+        }
+        Update: {
+          chat_id?: string
+          created_at?: string
+          id?: string
+          message_id?: string
+          responded_at?: string
+          response_seconds?: number
+          user_id?: string | null
+          waiting_since?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_response_times_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_response_times_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_response_times_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chats: {
+        Row: {
+          account_id: string | null
+          assigned_at: string | null
+          assigned_to: string | null
+          attendee_identifier: string | null
+          attendee_name: string | null
+          attendee_picture: string | null
+          awaiting_reply_since: string | null
+          campaign_id: string | null
+          channel: string
+          created_at: string
+          external_id: string
+          id: string
+          last_message: string | null
+          last_message_at: string | null
+          last_message_sender: string | null
+          last_message_type: string | null
+          lead_id: string | null
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          assigned_at?: string | null
+          assigned_to?: string | null
+          attendee_identifier?: string | null
+          attendee_name?: string | null
+          attendee_picture?: string | null
+          awaiting_reply_since?: string | null
+          campaign_id?: string | null
+          channel: string
+          created_at?: string
+          external_id: string
+          id?: string
+          last_message?: string | null
+          last_message_at?: string | null
+          last_message_sender?: string | null
+          last_message_type?: string | null
+          lead_id?: string | null
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          account_id?: string | null
+          assigned_at?: string | null
+          assigned_to?: string | null
+          attendee_identifier?: string | null
+          attendee_name?: string | null
+          attendee_picture?: string | null
+          awaiting_reply_since?: string | null
+          campaign_id?: string | null
+          channel?: string
+          created_at?: string
+          external_id?: string
+          id?: string
+          last_message?: string | null
+          last_message_at?: string | null
+          last_message_sender?: string | null
+          last_message_type?: string | null
+          lead_id?: string | null
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chats_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chats_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chats_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chats_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chats_workspace_id_fkey"
             columns: ["workspace_id"]
             isOneToOne: false
             referencedRelation: "workspaces"
@@ -402,6 +1213,74 @@ export type Database = {
           },
         ]
       }
+      email_account_credentials: {
+        Row: {
+          account_id: string
+          created_at: string
+          from_name: string | null
+          imap_checked_at: string | null
+          imap_error: string | null
+          imap_host: string | null
+          imap_last_uid: number
+          imap_password_secret_id: string | null
+          imap_port: number | null
+          imap_security: string
+          imap_username: string | null
+          smtp_host: string
+          smtp_password_secret_id: string | null
+          smtp_port: number
+          smtp_security: string
+          smtp_username: string | null
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          from_name?: string | null
+          imap_checked_at?: string | null
+          imap_error?: string | null
+          imap_host?: string | null
+          imap_last_uid?: number
+          imap_password_secret_id?: string | null
+          imap_port?: number | null
+          imap_security?: string
+          imap_username?: string | null
+          smtp_host: string
+          smtp_password_secret_id?: string | null
+          smtp_port: number
+          smtp_security?: string
+          smtp_username?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          from_name?: string | null
+          imap_checked_at?: string | null
+          imap_error?: string | null
+          imap_host?: string | null
+          imap_last_uid?: number
+          imap_password_secret_id?: string | null
+          imap_port?: number | null
+          imap_security?: string
+          imap_username?: string | null
+          smtp_host?: string
+          smtp_password_secret_id?: string | null
+          smtp_port?: number
+          smtp_security?: string
+          smtp_username?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_account_credentials_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: true
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       engagement_actions: {
         Row: {
           account_id: string
@@ -510,6 +1389,189 @@ export type Database = {
         }
         Relationships: []
       }
+      lead_custom_fields: {
+        Row: {
+          created_at: string
+          field_type: string
+          id: string
+          key: string
+          label: string
+          options: string[]
+          position: number
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          field_type?: string
+          id?: string
+          key: string
+          label: string
+          options?: string[]
+          position?: number
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          field_type?: string
+          id?: string
+          key?: string
+          label?: string
+          options?: string[]
+          position?: number
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_custom_fields_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_duplicate_dismissals: {
+        Row: {
+          created_at: string
+          dismissed_by: string | null
+          id: string
+          lead_a_id: string
+          lead_b_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          dismissed_by?: string | null
+          id?: string
+          lead_a_id: string
+          lead_b_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          dismissed_by?: string | null
+          id?: string
+          lead_a_id?: string
+          lead_b_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_duplicate_dismissals_lead_a_id_fkey"
+            columns: ["lead_a_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_duplicate_dismissals_lead_b_id_fkey"
+            columns: ["lead_b_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_duplicate_dismissals_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_import_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_count: number
+          error_message: string | null
+          file_name: string
+          file_type: string
+          id: string
+          list_id: string | null
+          locked_until: string | null
+          mapping: Json
+          processed_rows: number
+          row_errors: Json
+          skipped_count: number
+          started_at: string | null
+          status: string
+          storage_path: string
+          tag_ids: string[]
+          total_rows: number
+          update_existing: boolean
+          updated_count: number
+          user_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          created_count?: number
+          error_message?: string | null
+          file_name: string
+          file_type: string
+          id?: string
+          list_id?: string | null
+          locked_until?: string | null
+          mapping?: Json
+          processed_rows?: number
+          row_errors?: Json
+          skipped_count?: number
+          started_at?: string | null
+          status?: string
+          storage_path: string
+          tag_ids?: string[]
+          total_rows?: number
+          update_existing?: boolean
+          updated_count?: number
+          user_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          created_count?: number
+          error_message?: string | null
+          file_name?: string
+          file_type?: string
+          id?: string
+          list_id?: string | null
+          locked_until?: string | null
+          mapping?: Json
+          processed_rows?: number
+          row_errors?: Json
+          skipped_count?: number
+          started_at?: string | null
+          status?: string
+          storage_path?: string
+          tag_ids?: string[]
+          total_rows?: number
+          update_existing?: boolean
+          updated_count?: number
+          user_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_import_jobs_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "lead_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_import_jobs_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       lead_lists: {
         Row: {
           created_at: string
@@ -545,6 +1607,176 @@ export type Database = {
           },
         ]
       }
+      lead_merges: {
+        Row: {
+          created_at: string
+          fields_taken: string[]
+          id: string
+          merged_by: string | null
+          merged_lead: Json
+          merged_lead_id: string
+          surviving_lead_id: string | null
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          fields_taken?: string[]
+          id?: string
+          merged_by?: string | null
+          merged_lead: Json
+          merged_lead_id: string
+          surviving_lead_id?: string | null
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          fields_taken?: string[]
+          id?: string
+          merged_by?: string | null
+          merged_lead?: Json
+          merged_lead_id?: string
+          surviving_lead_id?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_merges_surviving_lead_id_fkey"
+            columns: ["surviving_lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_merges_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_stage_history: {
+        Row: {
+          campaign_id: string | null
+          changed_by: string | null
+          created_at: string
+          from_stage_id: string | null
+          from_stage_name: string | null
+          id: string
+          lead_id: string
+          source: string
+          to_stage_id: string | null
+          to_stage_name: string
+          workspace_id: string
+        }
+        Insert: {
+          campaign_id?: string | null
+          changed_by?: string | null
+          created_at?: string
+          from_stage_id?: string | null
+          from_stage_name?: string | null
+          id?: string
+          lead_id: string
+          source?: string
+          to_stage_id?: string | null
+          to_stage_name: string
+          workspace_id: string
+        }
+        Update: {
+          campaign_id?: string | null
+          changed_by?: string | null
+          created_at?: string
+          from_stage_id?: string | null
+          from_stage_name?: string | null
+          id?: string
+          lead_id?: string
+          source?: string
+          to_stage_id?: string | null
+          to_stage_name?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_stage_history_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_stage_history_from_stage_id_fkey"
+            columns: ["from_stage_id"]
+            isOneToOne: false
+            referencedRelation: "lead_stages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_stage_history_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_stage_history_to_stage_id_fkey"
+            columns: ["to_stage_id"]
+            isOneToOne: false
+            referencedRelation: "lead_stages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_stage_history_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_stages: {
+        Row: {
+          auto_events: string[]
+          color: string
+          created_at: string
+          id: string
+          kind: string
+          name: string
+          position: number
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          auto_events?: string[]
+          color?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          name: string
+          position?: number
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          auto_events?: string[]
+          color?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          name?: string
+          position?: number
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_stages_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       lead_tags: {
         Row: {
           created_at: string
@@ -584,6 +1816,8 @@ export type Database = {
       leads: {
         Row: {
           about: string | null
+          assigned_at: string | null
+          assigned_to: string | null
           city: string | null
           company: string | null
           company_address: string | null
@@ -600,12 +1834,15 @@ export type Database = {
           connections: number | null
           country: string | null
           created_at: string
+          custom_fields: Json
           email: string | null
           first_name: string | null
           followers: number | null
           full_name: string | null
           headline: string | null
           id: string
+          in_conversation_at: string | null
+          in_conversation_campaign_id: string | null
           industry: string | null
           is_hiring: boolean | null
           job_title: string | null
@@ -626,8 +1863,11 @@ export type Database = {
           personal_email: string | null
           phone: string | null
           profile_picture_url: string | null
+          search_vector: unknown | null
           seniority_level: string | null
           skills: string[] | null
+          stage_changed_at: string | null
+          stage_id: string | null
           state: string | null
           top_skills: string | null
           updated_at: string
@@ -635,6 +1875,8 @@ export type Database = {
         }
         Insert: {
           about?: string | null
+          assigned_at?: string | null
+          assigned_to?: string | null
           city?: string | null
           company?: string | null
           company_address?: string | null
@@ -651,12 +1893,15 @@ export type Database = {
           connections?: number | null
           country?: string | null
           created_at?: string
+          custom_fields?: Json
           email?: string | null
           first_name?: string | null
           followers?: number | null
           full_name?: string | null
           headline?: string | null
           id?: string
+          in_conversation_at?: string | null
+          in_conversation_campaign_id?: string | null
           industry?: string | null
           is_hiring?: boolean | null
           job_title?: string | null
@@ -677,8 +1922,11 @@ export type Database = {
           personal_email?: string | null
           phone?: string | null
           profile_picture_url?: string | null
+          search_vector?: unknown | null
           seniority_level?: string | null
           skills?: string[] | null
+          stage_changed_at?: string | null
+          stage_id?: string | null
           state?: string | null
           top_skills?: string | null
           updated_at?: string
@@ -686,6 +1934,8 @@ export type Database = {
         }
         Update: {
           about?: string | null
+          assigned_at?: string | null
+          assigned_to?: string | null
           city?: string | null
           company?: string | null
           company_address?: string | null
@@ -702,12 +1952,15 @@ export type Database = {
           connections?: number | null
           country?: string | null
           created_at?: string
+          custom_fields?: Json
           email?: string | null
           first_name?: string | null
           followers?: number | null
           full_name?: string | null
           headline?: string | null
           id?: string
+          in_conversation_at?: string | null
+          in_conversation_campaign_id?: string | null
           industry?: string | null
           is_hiring?: boolean | null
           job_title?: string | null
@@ -728,14 +1981,31 @@ export type Database = {
           personal_email?: string | null
           phone?: string | null
           profile_picture_url?: string | null
+          search_vector?: unknown | null
           seniority_level?: string | null
           skills?: string[] | null
+          stage_changed_at?: string | null
+          stage_id?: string | null
           state?: string | null
           top_skills?: string | null
           updated_at?: string
           workspace_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "leads_in_conversation_campaign_id_fkey"
+            columns: ["in_conversation_campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leads_in_conversation_campaign_id_fkey"
+            columns: ["in_conversation_campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "leads_list_id_fkey"
             columns: ["list_id"]
@@ -743,6 +2013,13 @@ export type Database = {
             referencedRelation: "lead_lists"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "leads_stage_id_fkey"
+            columns: ["stage_id"]
+            isOneToOne: false
+            referencedRelation: "lead_stages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "leads_workspace_id_fkey"
             columns: ["workspace_id"]
@@ -843,6 +2120,128 @@ export type Database = {
           },
         ]
       }
+      messages: {
+        Row: {
+          attachments: Json
+          chat_id: string
+          created_at: string
+          external_id: string | null
+          id: string
+          sender: string
+          sent_by: string | null
+          text: string | null
+          timestamp: string
+          workspace_id: string
+        }
+        Insert: {
+          attachments?: Json
+          chat_id: string
+          created_at?: string
+          external_id?: string | null
+          id?: string
+          sender: string
+          sent_by?: string | null
+          text?: string | null
+          timestamp?: string
+          workspace_id: string
+        }
+        Update: {
+          attachments?: Json
+          chat_id?: string
+          created_at?: string
+          external_id?: string | null
+          id?: string
+          sender?: string
+          sent_by?: string | null
+          text?: string | null
+          timestamp?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          campaign_id: string | null
+          created_at: string
+          id: string
+          lead_id: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          body?: string | null
+          campaign_id?: string | null
+          created_at?: string
+          id?: string
+          lead_id?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          body?: string | null
+          campaign_id?: string | null
+          created_at?: string
+          id?: string
+          lead_id?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       plans: {
         Row: {
           code: string
@@ -1003,38 +2402,292 @@ export type Database = {
           workspace_id: string
         }
         Insert: {
-          account_id?: string | null
-          account_name?: string | null
-          attempts?: number
-          channel?: string
+          account_id?: string | null
+          account_name?: string | null
+          attempts?: number
+          channel?: string
+          created_at?: string
+          error?: string | null
+          expires_at: string
+          id?: string
+          qr_code?: string | null
+          session_id: string
+          status?: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          account_id?: string | null
+          account_name?: string | null
+          attempts?: number
+          channel?: string
+          created_at?: string
+          error?: string | null
+          expires_at?: string
+          id?: string
+          qr_code?: string | null
+          session_id?: string
+          status?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qr_sessions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      snippet_usages: {
+        Row: {
+          campaign_id: string | null
+          chat_id: string | null
+          context: string
+          created_at: string
+          id: string
+          lead_id: string | null
+          snippet_id: string
+          used_by: string | null
+          version: number
+          workspace_id: string
+        }
+        Insert: {
+          campaign_id?: string | null
+          chat_id?: string | null
+          context: string
+          created_at?: string
+          id?: string
+          lead_id?: string | null
+          snippet_id: string
+          used_by?: string | null
+          version: number
+          workspace_id: string
+        }
+        Update: {
+          campaign_id?: string | null
+          chat_id?: string | null
+          context?: string
+          created_at?: string
+          id?: string
+          lead_id?: string | null
+          snippet_id?: string
+          used_by?: string | null
+          version?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "snippet_usages_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "snippet_usages_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "snippet_usages_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "snippet_usages_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "snippet_usages_snippet_id_fkey"
+            columns: ["snippet_id"]
+            isOneToOne: false
+            referencedRelation: "snippets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "snippet_usages_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      snippet_versions: {
+        Row: {
+          body: string
+          channel: string
+          created_at: string
+          edited_by: string | null
+          id: string
+          shortcut: string | null
+          snippet_id: string
+          title: string
+          version: number
+          workspace_id: string
+        }
+        Insert: {
+          body: string
+          channel: string
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          shortcut?: string | null
+          snippet_id: string
+          title: string
+          version: number
+          workspace_id: string
+        }
+        Update: {
+          body?: string
+          channel?: string
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          shortcut?: string | null
+          snippet_id?: string
+          title?: string
+          version?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "snippet_versions_snippet_id_fkey"
+            columns: ["snippet_id"]
+            isOneToOne: false
+            referencedRelation: "snippets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "snippet_versions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      snippets: {
+        Row: {
+          body: string
+          channel: string
+          created_at: string
+          created_by: string | null
+          id: string
+          shortcut: string | null
+          title: string
+          updated_at: string
+          updated_by: string | null
+          version: number
+          workspace_id: string
+        }
+        Insert: {
+          body: string
+          channel?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          shortcut?: string | null
+          title: string
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+          workspace_id: string
+        }
+        Update: {
+          body?: string
+          channel?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          shortcut?: string | null
+          title?: string
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "snippets_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppression_list: {
+        Row: {
+          campaign_id: string | null
+          created_at: string
+          created_by: string | null
+          entry_type: string
+          id: string
+          lead_id: string | null
+          note: string | null
+          reason: string
+          value: string
+          workspace_id: string
+        }
+        Insert: {
+          campaign_id?: string | null
           created_at?: string
-          error?: string | null
-          expires_at: string
+          created_by?: string | null
+          entry_type: string
           id?: string
-          qr_code?: string | null
-          session_id: string
-          status?: string
-          updated_at?: string
+          lead_id?: string | null
+          note?: string | null
+          reason?: string
+          value: string
           workspace_id: string
         }
         Update: {
-          account_id?: string | null
-          account_name?: string | null
-          attempts?: number
-          channel?: string
+          campaign_id?: string | null
           created_at?: string
-          error?: string | null
-          expires_at?: string
+          created_by?: string | null
+          entry_type?: string
           id?: string
-          qr_code?: string | null
-          session_id?: string
-          status?: string
-          updated_at?: string
+          lead_id?: string | null
+          note?: string | null
+          reason?: string
+          value?: string
           workspace_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "qr_sessions_workspace_id_fkey"
+            foreignKeyName: "suppression_list_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "suppression_list_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "suppression_list_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "suppression_list_workspace_id_fkey"
             columns: ["workspace_id"]
             isOneToOne: false
             referencedRelation: "workspaces"
@@ -1191,6 +2844,38 @@ export type Database = {
           },
         ]
       }
+      workspace_holidays: {
+        Row: {
+          created_at: string
+          holiday_date: string
+          id: string
+          name: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          holiday_date: string
+          id?: string
+          name?: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          holiday_date?: string
+          id?: string
+          name?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_holidays_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workspace_invites: {
         Row: {
           accepted_at: string | null
@@ -1311,6 +2996,7 @@ export type Database = {
       }
       workspace_settings: {
         Row: {
+          conversation_assignment_mode: string
           created_at: string
           daily_message_limit: number
           id: string
@@ -1323,10 +3009,12 @@ export type Database = {
           linkedin_message_interval_seconds: number
           max_retries: number
           message_interval_seconds: number
+          response_sla_minutes: number
           updated_at: string
           workspace_id: string
         }
         Insert: {
+          conversation_assignment_mode?: string
           created_at?: string
           daily_message_limit?: number
           id?: string
@@ -1339,10 +3027,12 @@ export type Database = {
           linkedin_message_interval_seconds?: number
           max_retries?: number
           message_interval_seconds?: number
+          response_sla_minutes?: number
           updated_at?: string
           workspace_id: string
         }
         Update: {
+          conversation_assignment_mode?: string
           created_at?: string
           daily_message_limit?: number
           id?: string
@@ -1355,6 +3045,7 @@ export type Database = {
           linkedin_message_interval_seconds?: number
           max_retries?: number
           message_interval_seconds?: number
+          response_sla_minutes?: number
           updated_at?: string
           workspace_id?: string
         }
@@ -1389,6 +3080,67 @@ export type Database = {
       }
     }
     Views: {
+      campaign_step_stats: {
+        Row: {
+          accepted_count: number | null
+          action: string | null
+          campaign_id: string | null
+          condition: string | null
+          delay_days: number | null
+          replied_count: number | null
+          sent_count: number | null
+          step_order: number | null
+          stopped_count: number | null
+          waiting_count: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_steps_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_steps_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_variant_stats: {
+        Row: {
+          campaign_id: string | null
+          delivered_count: number | null
+          is_winner: boolean | null
+          label: string | null
+          leads_count: number | null
+          message: string | null
+          replied_count: number | null
+          seen_count: number | null
+          sent_count: number | null
+          subject: string | null
+          variant_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_variants_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_variants_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns_with_stats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       campaigns_with_stats: {
         Row: {
           account_id: string | null
@@ -1396,25 +3148,61 @@ export type Database = {
           actual_leads_count: number | null
           actual_pending_count: number | null
           actual_sent_count: number | null
+          audience_list_id: string | null
+          audience_tag_ids: string[] | null
+          audience_tag_match: string
+          audience_type: string
+          auto_enroll: boolean
           created_at: string | null
+          created_by: string | null
+          daily_enroll_cap: number | null
           delivered_count: number | null
           failed_count: number | null
           id: string | null
+          last_enrolled_at: string | null
           leads_count: number | null
           linkedin_action: string | null
           message: string | null
+          message_version: number | null
           name: string | null
+          notify_on_reply: boolean | null
+          paused_at: string | null
           replied_count: number | null
+          reply_stop_scope: string | null
           schedule: string | null
           seen_count: number | null
+          send_window_days: number[] | null
+          send_window_end: string | null
+          send_window_start: string | null
           sent_count: number | null
+          skip_contacted_leads: boolean
+          skip_holidays: boolean | null
           status: string | null
           subject: string | null
+          template_id: string | null
           type: string | null
           updated_at: string | null
+          use_lead_timezone: boolean | null
+          variant_promote_after: number | null
+          winner_promoted_at: string | null
+          winner_variant_id: string | null
           workspace_id: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "campaigns_audience_list_id_fkey"
+            columns: ["audience_list_id"]
+            isOneToOne: false
+            referencedRelation: "lead_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaigns_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "campaign_templates"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "campaigns_workspace_id_fkey"
             columns: ["workspace_id"]
@@ -1436,7 +3224,22 @@ export type Database = {
         }
         Returns: boolean
       }
+      auto_promote_campaign_variant: {
+        Args: {
+          p_campaign_id: string
+        }
+        Returns: string
+      }
       bootstrap_platform_admin: { Args: { p_user_id: string }; Returns: Json }
+      claim_campaign_lead: {
+        Args: {
+          p_campaign_lead_id: string
+          p_current_step?: number
+          p_lease_seconds?: number
+          p_retry_count: number
+        }
+        Returns: string
+      }
       claim_due_queue_entries: {
         Args: { p_limit?: number; p_workspace_id?: string }
         Returns: {
@@ -1460,6 +3263,23 @@ export type Database = {
         }
         Returns: Json
       }
+      count_leads: {
+        Args: {
+          p_filters?: Json
+          p_workspace_id: string
+        }
+        Returns: number
+      }
+      count_leads_by_stage: {
+        Args: {
+          p_filters?: Json
+          p_workspace_id: string
+        }
+        Returns: {
+          lead_count: number
+          stage_id: string
+        }[]
+      }
       deduct_credits: {
         Args: {
           p_amount: number
@@ -1474,6 +3294,18 @@ export type Database = {
         Args: { p_campaign_id: string }
         Returns: string
       }
+      find_lead_duplicates: {
+        Args: {
+          p_limit?: number
+          p_workspace_id: string
+        }
+        Returns: {
+          duplicate_id: string
+          lead_id: string
+          reason: string
+          score: number
+        }[]
+      }
       get_admin_usage_overview: {
         Args: { p_days?: number }
         Returns: {
@@ -1483,6 +3315,20 @@ export type Database = {
           unique_workspaces: number
         }[]
       }
+      get_campaign_template_stats: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: {
+          template_id: string
+          campaigns_count: number
+          leads_count: number
+          sent_count: number
+          replied_count: number
+          failed_count: number
+          last_used_at: string
+        }[]
+      }
       get_daily_usage: {
         Args: {
           p_account_id: string
@@ -1492,6 +3338,15 @@ export type Database = {
         }
         Returns: number
       }
+      get_dynamic_campaign_candidates: {
+        Args: {
+          p_campaign_id: string
+          p_limit?: number
+        }
+        Returns: {
+          lead_id: string
+        }[]
+      }
       get_global_account_usage: {
         Args: { p_days?: number }
         Returns: {
@@ -1501,6 +3356,39 @@ export type Database = {
           total_count: number
         }[]
       }
+      get_inbox_unread_counts: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: {
+          chat_id: string
+          unread_count: number
+        }[]
+      }
+      get_email_account_passwords: {
+        Args: { p_account_id: string }
+        Returns: {
+          imap_password: string
+          smtp_password: string
+        }[]
+      }
+      get_lead_filter_options: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: {
+          industries: string[]
+          countries: string[]
+        }[]
+      }
+      get_lead_ids: {
+        Args: {
+          p_filters?: Json
+          p_limit?: number
+          p_workspace_id: string
+        }
+        Returns: string[]
+      }
       get_platform_linkedin_search_account: {
         Args: never
         Returns: {
@@ -1509,6 +3397,32 @@ export type Database = {
           linkedin_feature: string
         }[]
       }
+      get_response_time_stats: {
+        Args: {
+          p_since: string
+          p_workspace_id: string
+        }
+        Returns: {
+          user_id: string
+          responses_count: number
+          avg_response_seconds: number
+          median_response_seconds: number
+          within_sla_count: number
+          awaiting_count: number
+          overdue_count: number
+        }[]
+      }
+      get_snippet_stats: {
+        Args: {
+          p_workspace_id: string
+        }
+        Returns: {
+          snippet_id: string
+          usage_count: number
+          reached_count: number
+          replied_count: number
+        }[]
+      }
       get_top_workspaces_usage: {
         Args: { p_days?: number; p_limit?: number }
         Returns: {
@@ -1567,15 +3481,134 @@ export type Database = {
       }
       is_platform_admin: { Args: never; Returns: boolean }
       is_valid_phone: { Args: { identifier: string }; Returns: boolean }
+      is_within_sending_window: {
+        Args: {
+          p_at?: string
+          p_campaign_id: string
+          p_timezone?: string
+        }
+        Returns: boolean
+      }
       is_workspace_admin: { Args: { workspace_uuid: string }; Returns: boolean }
       is_workspace_member: {
         Args: { workspace_uuid: string }
         Returns: boolean
       }
+      lead_search_query: {
+        Args: {
+          p_search: string
+        }
+        Returns: unknown
+      }
       log_client_event: {
         Args: { p_action: string; p_metadata?: Json; p_workspace_id: string }
         Returns: undefined
       }
+      merge_leads: {
+        Args: {
+          p_fields?: string[]
+          p_merged_lead_id: string
+          p_surviving_lead_id: string
+        }
+        Returns: string
+      }
+      move_leads_to_stage: {
+        Args: {
+          p_lead_ids: string[]
+          p_stage_id: string
+        }
+        Returns: number
+      }
+      normalize_search_text: {
+        Args: {
+          p_text: string
+        }
+        Returns: string
+      }
+      pause_campaign: {
+        Args: {
+          p_campaign_id: string
+        }
+        Returns: undefined
+      }
+      pick_chat_assignee: {
+        Args: {
+          p_account_id: string
+          p_lead_id: string
+          p_workspace_id: string
+        }
+        Returns: string
+      }
+      promote_campaign_variant: {
+        Args: {
+          p_campaign_id: string
+          p_variant_id: string
+        }
+        Returns: string
+      }
+      release_campaign_lead: {
+        Args: {
+          p_campaign_lead_id: string
+          p_lock_token: string
+        }
+        Returns: undefined
+      }
+      reorder_lead_stages: {
+        Args: {
+          p_stage_ids: string[]
+          p_workspace_id: string
+        }
+        Returns: undefined
+      }
+      resume_campaign: {
+        Args: {
+          p_campaign_id: string
+        }
+        Returns: number
+      }
+      search_leads: {
+        Args: {
+          p_ascending?: boolean
+          p_cursor?: Json
+          p_filters?: Json
+          p_limit?: number
+          p_sort?: string
+          p_workspace_id: string
+        }
+        Returns: {
+          id: string
+          full_name: string
+          headline: string
+          company: string
+          company_size: string
+          company_industry: string
+          job_title: string
+          seniority_level: string
+          industry: string
+          city: string
+          state: string
+          country: string
+          email: string
+          phone: string
+          mobile_number: string
+          linkedin_url: string
+          list_id: string
+          stage_id: string
+          stage_changed_at: string
+          last_enriched_at: string
+          in_conversation_at: string
+          created_at: string
+          sort_value: string
+        }[]
+      }
+      set_email_account_passwords: {
+        Args: {
+          p_account_id: string
+          p_imap_password: string
+          p_smtp_password: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
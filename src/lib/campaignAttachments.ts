@@ -0,0 +1,82 @@
+import { CampaignAttachmentKind } from '@/types';
+import {
+  attachmentKind,
+  CAMPAIGN_ATTACHMENTS_BUCKET,
+  findAttachmentProblem,
+  getAttachmentRule,
+} from '../../supabase/functions/_shared/attachmentRules.ts';
+
+export { attachmentKind, CAMPAIGN_ATTACHMENTS_BUCKET, getAttachmentRule };
+
+export const ATTACHMENT_KIND_LABELS: Record<CampaignAttachmentKind, string> = {
+  image: 'Imagem',
+  document: 'Documento',
+  audio: 'Áudio (mensagem de voz)',
+};
+
+/**
+ * Anexo no formulário da campanha: arquivo local ainda não enviado (file) ou
+ * já guardado no Storage (path), como nas campanhas duplicadas.
+ */
+export interface CampaignAttachmentDraft {
+  key: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  file?: File;
+  path?: string;
+}
+
+/** Formato enviado ao create-campaign */
+export interface CampaignAttachmentInput {
+  path: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+}
+
+/** Valor do accept do input de arquivo para o canal, ou '' quando não aceita anexos */
+export function attachmentAccept(type: string, linkedinAction?: string | null): string {
+  return getAttachmentRule(type, linkedinAction)?.mimeTypes.join(',') ?? '';
+}
+
+/** Texto de ajuda com o que o canal aceita */
+export function attachmentHint(type: string, linkedinAction?: string | null): string | null {
+  const rule = getAttachmentRule(type, linkedinAction);
+  if (!rule) return null;
+  const maxMb = Math.round(rule.maxBytes / (1024 * 1024));
+  return type === 'whatsapp'
+    ? `Imagens (JPG, PNG, WebP), PDF ou áudio (OGG, MP3, M4A) · até ${rule.maxCount} arquivos de ${maxMb} MB`
+    : `Documentos (PDF, Word, PowerPoint) · até ${rule.maxCount} arquivos de ${maxMb} MB`;
+}
+
+/** Validação local dos anexos (espelha a do create-campaign) */
+export function validateAttachments(
+  type: string,
+  linkedinAction: string | null | undefined,
+  drafts: CampaignAttachmentDraft[]
+): string | null {
+  const problem = findAttachmentProblem(type, linkedinAction, drafts);
+  if (!problem) return null;
+
+  switch (problem.code) {
+    case 'not_supported':
+      return type === 'linkedin'
+        ? 'Anexos só podem ser enviados em mensagens diretas (DM) do LinkedIn.'
+        : 'Este canal não aceita anexos. Use WhatsApp ou DM do LinkedIn.';
+    case 'too_many':
+      return `Adicione no máximo ${problem.max} anexos.`;
+    case 'type':
+      return `O tipo do arquivo "${problem.fileName}" não é aceito neste canal.`;
+    case 'size':
+      return `O arquivo "${problem.fileName}" passa de ${formatFileSize(problem.maxBytes)}.`;
+    case 'empty':
+      return `O arquivo "${problem.fileName}" está vazio.`;
+  }
+}
@@ -0,0 +1,57 @@
+import { Campaign } from '@/types';
+import type {
+  AudienceInput,
+  AudienceTagMatch,
+  AudienceType,
+} from '../../supabase/functions/_shared/campaignAudience.ts';
+
+export type { AudienceInput, AudienceTagMatch, AudienceType };
+
+export const DEFAULT_AUDIENCE: AudienceInput = {
+  type: 'list',
+  listId: null,
+  tagIds: [],
+  tagMatch: 'any',
+  autoEnroll: true,
+  dailyCap: 50,
+  skipContacted: true,
+};
+
+/** Audiência de uma campanha existente, no formato do formulário (null = campanha estática) */
+export function audienceFromCampaign(campaign: Campaign): AudienceInput | null {
+  if (campaign.audience_type === 'list') {
+    return {
+      type: 'list',
+      listId: campaign.audience_list_id ?? null,
+      autoEnroll: campaign.auto_enroll !== false,
+      dailyCap: campaign.daily_enroll_cap ?? null,
+      skipContacted: campaign.skip_contacted_leads !== false,
+    };
+  }
+  if (campaign.audience_type === 'tags') {
+    return {
+      type: 'tags',
+      tagIds: campaign.audience_tag_ids || [],
+      tagMatch: campaign.audience_tag_match || 'any',
+      autoEnroll: campaign.auto_enroll !== false,
+      dailyCap: campaign.daily_enroll_cap ?? null,
+      skipContacted: campaign.skip_contacted_leads !== false,
+    };
+  }
+  return null;
+}
+
+/** Validação local da audiência dinâmica (espelha a do create-campaign) */
+export function validateAudience(input: AudienceInput | null): string | null {
+  if (!input) return null;
+  if (input.type === 'list' && !input.listId) {
+    return 'Selecione a lista de leads da campanha dinâmica.';
+  }
+  if (input.type === 'tags' && (input.tagIds || []).length === 0) {
+    return 'Selecione pelo menos uma tag para a campanha dinâmica.';
+  }
+  if (input.dailyCap !== undefined && input.dailyCap !== null && input.dailyCap < 1) {
+    return 'O limite diário de inclusões deve ser de pelo menos 1 lead.';
+  }
+  return null;
+}
@@ -0,0 +1,164 @@
+import { format } from 'date-fns';
+import { Lead, LinkedInAction, SuppressionEntryType } from '@/types';
+import { findMissingVariables, renderTemplate } from '../../supabase/functions/_shared/templateEngine.ts';
+import { extractLinkedInPublicIdentifier } from '../../supabase/functions/_shared/linkedinUrl.ts';
+import { SKIP_REASON_LABELS } from '@/lib/suppression';
+
+/** Limite da nota do convite do LinkedIn (o envio corta o que passar) */
+export const MAX_INVITE_NOTE_LENGTH = 300;
+
+// Celulares com menos dígitos não chegam a um número de WhatsApp válido
+const MIN_WHATSAPP_DIGITS = 10;
+
+export type DryRunIssueLevel = 'error' | 'warning';
+
+export interface DryRunIssue {
+  level: DryRunIssueLevel;
+  message: string;
+}
+
+export interface DryRunCampaign {
+  type: 'email' | 'whatsapp' | 'linkedin';
+  linkedinAction: LinkedInAction;
+  message: string;
+  subject: string;
+}
+
+/** Contexto carregado do banco: contatos anteriores e lista de não contatar */
+export interface DryRunContext {
+  /** Campanhas que já enviaram para cada lead */
+  contactedBy: Record<string, string[]>;
+  /** Tipo da entrada da lista de não contatar que bloqueia cada lead */
+  suppressedBy: Record<string, SuppressionEntryType>;
+}
+
+export interface DryRunRow {
+  lead: Lead;
+  /** Destino do envio: e-mail, celular ou URL do LinkedIn */
+  recipient: string;
+  subject: string;
+  message: string;
+  issues: DryRunIssue[];
+  previousCampaigns: string[];
+}
+
+export interface DryRunSummary {
+  total: number;
+  ready: number;
+  withErrors: number;
+  withWarnings: number;
+  alreadyContacted: number;
+}
+
+function recipientOf(campaign: DryRunCampaign, lead: Lead): string {
+  if (campaign.type === 'email') return lead.email || '';
+  if (campaign.type === 'whatsapp') return lead.mobile_number || '';
+  return lead.linkedin_url || '';
+}
+
+/** Pré-requisitos do canal: os mesmos que create-campaign e send-campaign exigem */
+function channelIssues(campaign: DryRunCampaign, lead: Lead, message: string): DryRunIssue[] {
+  const issues: DryRunIssue[] = [];
+
+  if (campaign.type === 'email') {
+    if (!lead.email) issues.push({ level: 'error', message: 'Sem e-mail' });
+    else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(lead.email)) issues.push({ level: 'error', message: 'E-mail inválido' });
+  }
+
+  if (campaign.type === 'whatsapp') {
+    const digits = (lead.mobile_number || '').replace(/\D/g, '');
+    if (!lead.mobile_number) issues.push({ level: 'error', message: 'Sem celular' });
+    else if (digits.length < MIN_WHATSAPP_DIGITS) issues.push({ level: 'error', message: 'Celular inválido' });
+  }
+
+  if (campaign.type === 'linkedin') {
+    if (!lead.linkedin_url) issues.push({ level: 'error', message: 'Sem URL do LinkedIn' });
+    else if (!extractLinkedInPublicIdentifier(lead.linkedin_url)) issues.push({ level: 'error', message: 'URL do LinkedIn inválida' });
+
+    if (campaign.linkedinAction === 'invite' && message.length > MAX_INVITE_NOTE_LENGTH) {
+      issues.push({ level: 'error', message: `Nota do convite com ${message.length}/${MAX_INVITE_NOTE_LENGTH} caracteres` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Simula a campanha para cada lead: renderiza a mensagem final e aponta o que
+ * impediria o envio. Nada é enviado nem conta no uso diário.
+ */
+export function buildDryRun(campaign: DryRunCampaign, leads: Lead[], context: DryRunContext): DryRunRow[] {
+  const templates = [campaign.message, campaign.type === 'email' ? campaign.subject : ''].filter(Boolean);
+
+  return leads.map(lead => {
+    // Semente por lead: cada um recebe a sua variação de spintax
+    const message = renderTemplate(campaign.message, lead, { seed: lead.id });
+    const subject = campaign.type === 'email' ? renderTemplate(campaign.subject, lead, { seed: lead.id }) : '';
+    const issues = channelIssues(campaign, lead, message);
+
+    const missing = [...new Set(templates.flatMap(template => findMissingVariables(template, lead)))];
+    if (missing.length > 0) {
+      issues.push({ level: 'error', message: `Variáveis vazias: ${missing.join(', ')}` });
+    }
+
+    const suppressedBy = context.suppressedBy[lead.id];
+    if (suppressedBy) {
+      issues.push({ level: 'error', message: SKIP_REASON_LABELS[`suppressed_${suppressedBy}`] });
+    }
+
+    if (lead.in_conversation_at) {
+      issues.push({ level: 'warning', message: 'Lead em conversa' });
+    }
+
+    const previousCampaigns = context.contactedBy[lead.id] || [];
+    if (previousCampaigns.length > 0) {
+      issues.push({ level: 'warning', message: `Já contatado por: ${previousCampaigns.join(', ')}` });
+    }
+
+    return { lead, recipient: recipientOf(campaign, lead), subject, message, issues, previousCampaigns };
+  });
+}
+
+export function summarizeDryRun(rows: DryRunRow[]): DryRunSummary {
+  const withErrors = rows.filter(row => row.issues.some(issue => issue.level === 'error')).length;
+  return {
+    total: rows.length,
+    ready: rows.length - withErrors,
+    withErrors,
+    withWarnings: rows.filter(row => row.issues.some(issue => issue.level === 'warning')).length,
+    alreadyContacted: rows.filter(row => row.previousCampaigns.length > 0).length,
+  };
+}
+
+/** CSV da simulação (separador ";", com BOM para abrir corretamente no Excel) */
+export function buildDryRunCsv(campaign: DryRunCampaign, rows: DryRunRow[]): string {
+  const headers = [
+    'Nome',
+    'Empresa',
+    'Destino',
+    ...(campaign.type === 'email' ? ['Assunto'] : []),
+    'Mensagem',
+    'Situação',
+    'Problemas',
+  ];
+
+  const csvRows = rows.map(row => [
+    row.lead.full_name || [row.lead.first_name, row.lead.last_name].filter(Boolean).join(' '),
+    row.lead.company || '',
+    row.recipient,
+    ...(campaign.type === 'email' ? [row.subject] : []),
+    row.message,
+    row.issues.some(issue => issue.level === 'error') ? 'Não será enviado' : 'Pronto',
+    row.issues.map(issue => issue.message).join(' | '),
+  ]);
+
+  return '\ufeff' + [
+    headers.join(';'),
+    ...csvRows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(';')),
+  ].join('\n');
+}
+
+export function dryRunFileName(campaignName: string): string {
+  const slug = campaignName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'campanha';
+  return `simulacao-${slug}-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+}
@@ -0,0 +1,39 @@
+import { CampaignStepAction, CampaignStepCondition, FollowUpStepInput, LinkedInAction } from '@/types';
+
+export const MAX_FOLLOW_UP_STEPS = 10;
+export const MAX_INVITE_NOTE_LENGTH = 300;
+
+export const stepActionLabels: Record<CampaignStepAction, string> = {
+  dm: 'Mensagem (DM)',
+  inmail: 'InMail',
+  invite: 'Convite',
+  message: 'Mensagem',
+};
+
+export const stepConditionLabels: Record<CampaignStepCondition, string> = {
+  no_reply: 'Se não respondeu',
+  accepted: 'Após aceitar o convite',
+};
+
+/** Validação local das etapas de follow-up (espelha a do create-campaign) */
+export function validateFollowUpSteps(
+  type: 'email' | 'whatsapp' | 'linkedin',
+  firstAction: LinkedInAction,
+  steps: FollowUpStepInput[]
+): string | null {
+  const actions: CampaignStepAction[] = [type === 'linkedin' ? firstAction : 'message'];
+  for (const [index, step] of steps.entries()) {
+    const label = `Etapa ${index + 2}`;
+    if (step.condition === 'accepted' && !actions.includes('invite')) {
+      return `${label}: "Após aceitar o convite" exige um convite em uma etapa anterior.`;
+    }
+    if (step.action !== 'invite' && !step.message.trim()) {
+      return `${label}: a mensagem é obrigatória.`;
+    }
+    if (step.action === 'invite' && step.message.length > MAX_INVITE_NOTE_LENGTH) {
+      return `${label}: a nota do convite deve ter no máximo ${MAX_INVITE_NOTE_LENGTH} caracteres.`;
+    }
+    actions.push(step.action);
+  }
+  return null;
+}
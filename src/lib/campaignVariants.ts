@@ -0,0 +1,90 @@
+import { CampaignVariantInput, CampaignVariantLabel, CampaignVariantStats } from '@/types';
+
+export const VARIANT_LABELS: CampaignVariantLabel[] = ['A', 'B', 'C', 'D', 'E'];
+export const MAX_VARIANTS = VARIANT_LABELS.length;
+export const MIN_PROMOTE_AFTER = 10;
+const MAX_INVITE_NOTE_LENGTH = 300;
+
+/** Nível de confiança usado no indicador de significância */
+export const SIGNIFICANCE_LEVEL = 0.95;
+
+/** Validação local das variantes extras (espelha a do create-campaign) */
+export function validateVariants(
+  variants: CampaignVariantInput[],
+  isInviteAction: boolean,
+  promoteAfter: number | null
+): string | null {
+  if (variants.length > MAX_VARIANTS - 1) {
+    return `Use no máximo ${MAX_VARIANTS} variantes.`;
+  }
+  for (const [index, variant] of variants.entries()) {
+    const label = `Variante ${VARIANT_LABELS[index + 1]}`;
+    if (!isInviteAction && !variant.message.trim()) {
+      return `${label}: a mensagem é obrigatória.`;
+    }
+    if (isInviteAction && variant.message.length > MAX_INVITE_NOTE_LENGTH) {
+      return `${label}: a nota do convite deve ter no máximo ${MAX_INVITE_NOTE_LENGTH} caracteres.`;
+    }
+  }
+  if (variants.length > 0 && promoteAfter !== null && promoteAfter < MIN_PROMOTE_AFTER) {
+    return `A promoção automática exige pelo menos ${MIN_PROMOTE_AFTER} envios.`;
+  }
+  return null;
+}
+
+export interface VariantRates {
+  deliveryRate: number;
+  openRate: number;
+  replyRate: number;
+}
+
+/** Taxas sobre os envios da variante (mesma base do relatório da campanha) */
+export function getVariantRates(stats: CampaignVariantStats): VariantRates {
+  const sent = stats.sent_count;
+  return {
+    deliveryRate: sent > 0 ? (stats.delivered_count / sent) * 100 : 0,
+    openRate: sent > 0 ? (stats.seen_count / sent) * 100 : 0,
+    replyRate: sent > 0 ? (stats.replied_count / sent) * 100 : 0,
+  };
+}
+
+// Abramowitz-Stegun approximation of the standard normal CDF
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const d = 0.3989423 * Math.exp((-z * z) / 2);
+  const p = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+  return z > 0 ? 1 - p : p;
+}
+
+export interface VariantSignificance {
+  leaderId: string;
+  runnerUpId: string;
+  /** Confiança (0-1) de que o líder tem taxa de resposta maior que o segundo colocado */
+  confidence: number;
+  significant: boolean;
+}
+
+/**
+ * Teste z de duas proporções (taxa de resposta) entre a melhor variante e a
+ * segunda melhor. Retorna null enquanto não há envios suficientes para comparar.
+ */
+export function getVariantSignificance(stats: CampaignVariantStats[]): VariantSignificance | null {
+  const ranked = stats
+    .filter(s => s.sent_count > 0)
+    .sort((a, b) => b.replied_count / b.sent_count - a.replied_count / a.sent_count);
+  if (ranked.length < 2) return null;
+
+  const [leader, runnerUp] = ranked;
+  const p1 = leader.replied_count / leader.sent_count;
+  const p2 = runnerUp.replied_count / runnerUp.sent_count;
+  const pooled = (leader.replied_count + runnerUp.replied_count) / (leader.sent_count + runnerUp.sent_count);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / leader.sent_count + 1 / runnerUp.sent_count));
+
+  const confidence = standardError > 0 ? normalCdf((p1 - p2) / standardError) : 0.5;
+  return {
+    leaderId: leader.variant_id,
+    runnerUpId: runnerUp.variant_id,
+    confidence,
+    significant: confidence >= SIGNIFICANCE_LEVEL,
+  };
+}
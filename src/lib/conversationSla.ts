@@ -0,0 +1,56 @@
+import { ConversationAssignmentMode } from '@/types';
+
+/** Mesmo padrão de workspace_settings.response_sla_minutes */
+export const DEFAULT_RESPONSE_SLA_MINUTES = 240;
+export const MIN_RESPONSE_SLA_MINUTES = 5;
+export const MAX_RESPONSE_SLA_MINUTES = 10080;
+
+export const ASSIGNMENT_MODES: ConversationAssignmentMode[] = ['manual', 'round_robin', 'account'];
+
+export const ASSIGNMENT_MODE_LABELS: Record<ConversationAssignmentMode, string> = {
+  manual: 'Manual',
+  round_robin: 'Rodízio entre membros',
+  account: 'Pelo dono da conta',
+};
+
+export const ASSIGNMENT_MODE_DESCRIPTIONS: Record<ConversationAssignmentMode, string> = {
+  manual: 'Conversas novas ficam sem responsável até alguém assumir pelo Inbox.',
+  round_robin: 'Cada conversa nova vai para o membro que recebeu uma conversa há mais tempo.',
+  account: 'Conversas novas vão para o responsável pela conta do LinkedIn/WhatsApp que as recebeu.',
+};
+
+/**
+ * Conversa atrasada: a mensagem mais antiga sem resposta passou do SLA
+ */
+export function isChatOverdue(
+  awaitingReplySince: string | null | undefined,
+  slaMinutes: number,
+  now: Date = new Date()
+): boolean {
+  if (!awaitingReplySince) return false;
+  return now.getTime() - new Date(awaitingReplySince).getTime() > slaMinutes * 60_000;
+}
+
+/**
+ * Duração legível ("menos de 1 min", "45 min", "2h 05min", "3d 4h")
+ */
+export function formatResponseTime(seconds: number | null | undefined): string {
+  if (seconds === null || seconds === undefined || Number.isNaN(seconds)) return '—';
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) return 'menos de 1 min';
+  if (minutes < 60) return `${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${String(minutes % 60).padStart(2, '0')}min`;
+
+  const days = Math.floor(hours / 24);
+  return hours % 24 > 0 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
+/** Nome exibido de um membro do workspace */
+export function memberName(
+  member: { profile?: { full_name: string | null; email: string | null } } | undefined
+): string {
+  return member?.profile?.full_name || member?.profile?.email || 'Membro removido';
+}
@@ -0,0 +1,95 @@
+import { LeadCustomField, LeadCustomFieldFilter, LeadCustomFieldFilterOp, LeadCustomFieldType } from '@/types';
+import {
+  CUSTOM_FIELD_KEY_PATTERN,
+  customFieldKeyFromLabel,
+  formatCustomFieldValue,
+  parseCustomFieldValue,
+  type CustomFieldValue,
+} from '../../supabase/functions/_shared/customFields.ts';
+import { TEMPLATE_VARIABLE_FIELDS } from '../../supabase/functions/_shared/templateEngine.ts';
+
+export { CUSTOM_FIELD_KEY_PATTERN, customFieldKeyFromLabel, formatCustomFieldValue, parseCustomFieldValue };
+export type { CustomFieldValue };
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<LeadCustomFieldType, string> = {
+  text: 'Texto',
+  number: 'Número',
+  date: 'Data',
+  select: 'Seleção única',
+  multi_select: 'Seleção múltipla',
+  url: 'URL',
+};
+
+export const CUSTOM_FIELD_TYPES = Object.keys(CUSTOM_FIELD_TYPE_LABELS) as LeadCustomFieldType[];
+
+export function isSelectFieldType(type: LeadCustomFieldType): boolean {
+  return type === 'select' || type === 'multi_select';
+}
+
+// Colunas de leads: o motor de templates as resolve antes de custom_fields,
+// então um campo com a mesma chave nunca apareceria nas mensagens
+const LEAD_COLUMN_KEYS = [
+  'about', 'assigned_at', 'assigned_to', 'city', 'company', 'company_address', 'company_annual_revenue',
+  'company_description', 'company_domain', 'company_founded_year', 'company_industry', 'company_linkedin',
+  'company_phone', 'company_size', 'company_technologies', 'company_website', 'connections', 'country',
+  'created_at', 'custom_fields', 'email', 'first_name', 'followers', 'full_name', 'headline', 'id',
+  'in_conversation_at', 'in_conversation_campaign_id', 'industry', 'is_hiring', 'job_title', 'keywords',
+  'last_enriched_at', 'last_name', 'linkedin_influencer', 'linkedin_premium', 'linkedin_profile_json',
+  'linkedin_provider_id', 'linkedin_public_identifier', 'linkedin_registered_at', 'linkedin_url',
+  'linkedin_verified', 'list_id', 'mobile_number', 'open_to_work', 'personal_email', 'phone',
+  'profile_picture_url', 'search_vector', 'seniority_level', 'skills', 'state', 'top_skills', 'updated_at',
+  'workspace_id',
+];
+
+/** Mensagem de erro da chave de um novo campo (null = válida) */
+export function validateCustomFieldKey(key: string, existing: LeadCustomField[]): string | null {
+  if (!CUSTOM_FIELD_KEY_PATTERN.test(key)) {
+    return 'Use letras minúsculas, números e _ (começando por letra, até 40 caracteres).';
+  }
+  if (key in TEMPLATE_VARIABLE_FIELDS || LEAD_COLUMN_KEYS.includes(key)) {
+    return `"${key}" já é uma variável ou coluna padrão do lead.`;
+  }
+  if (existing.some(field => field.key === key)) return `Já existe um campo com a chave "${key}".`;
+  return null;
+}
+
+/** Número e data filtram por faixa (gte/lte); os demais tipos por um único valor */
+export function isRangeFieldType(type: LeadCustomFieldType): boolean {
+  return type === 'number' || type === 'date';
+}
+
+/** leads.custom_fields como objeto (vazio quando nulo ou malformado) */
+export function customFieldValues(lead: { custom_fields?: Record<string, unknown> | null }): Record<string, unknown> {
+  const values = lead.custom_fields;
+  return values && typeof values === 'object' && !Array.isArray(values) ? values : {};
+}
+
+export interface CustomFieldVariable {
+  variable: string;
+  label: string;
+  description: string;
+}
+
+/** Variáveis de template dos campos ({{chave}}), resolvidas em custom_fields no envio */
+export function customFieldVariables(fields: LeadCustomField[]): CustomFieldVariable[] {
+  return fields.map(field => ({
+    variable: `{{${field.key}}}`,
+    label: field.label,
+    description: `Campo personalizado (${CUSTOM_FIELD_TYPE_LABELS[field.field_type].toLowerCase()})`,
+  }));
+}
+
+const FILTER_OP_LABELS: Record<LeadCustomFieldFilterOp, string> = {
+  contains: 'contém',
+  equals: 'é',
+  has: 'inclui',
+  gte: 'a partir de',
+  lte: 'até',
+};
+
+/** Texto do filtro ativo, ex.: 'Segmento é "Varejo"' */
+export function describeCustomFieldFilter(filter: LeadCustomFieldFilter, fields: LeadCustomField[]): string {
+  const field = fields.find(f => f.key === filter.key);
+  const value = field ? formatCustomFieldValue(field, filter.value) : String(filter.value);
+  return `${field?.label ?? filter.key} ${FILTER_OP_LABELS[filter.op]} "${value}"`;
+}
@@ -0,0 +1,184 @@
+import { CampaignSendAttempt, CampaignStepAction } from '@/types';
+import { stepActionLabels } from '@/lib/campaignSteps';
+import { SKIP_REASON_LABELS } from '@/lib/suppression';
+
+export type TimelineSource = 'lead' | 'attempt' | 'campaign_event' | 'provider_event';
+
+export type TimelineTone = 'success' | 'error' | 'info';
+
+export interface TimelineItem {
+  id: string;
+  at: string;
+  source: TimelineSource;
+  tone: TimelineTone;
+  label: string;
+  detail: string | null;
+  error: string | null;
+  /** Registro bruto, exibido para depuração */
+  payload: unknown;
+}
+
+/** Marcos gravados em campaign_leads */
+export interface TimelineCampaignLead {
+  id: string;
+  status: string;
+  error: string | null;
+  skip_reason: string | null;
+  retry_count: number;
+  created_at: string;
+  sent_at: string | null;
+  delivered_at: string | null;
+  seen_at: string | null;
+  replied_at: string | null;
+  accepted_at: string | null;
+  stopped_at: string | null;
+  stop_reason: string | null;
+}
+
+export interface TimelineCampaignEvent {
+  id: string;
+  event_type: string;
+  provider_message_id: string | null;
+  metadata: unknown;
+  created_at: string;
+}
+
+export interface TimelineProviderEvent {
+  id: string;
+  event_type: string;
+  object_type: string | null;
+  payload: unknown;
+  processed_at: string | null;
+  created_at: string;
+}
+
+export const TIMELINE_SOURCE_LABELS: Record<TimelineSource, string> = {
+  lead: 'Lead',
+  attempt: 'Tentativa',
+  campaign_event: 'Evento',
+  provider_event: 'Webhook',
+};
+
+const CAMPAIGN_EVENT_LABELS: Record<string, string> = {
+  sent: 'Envio confirmado pelo provedor',
+  delivered: 'Mensagem entregue',
+  seen: 'Mensagem visualizada',
+  replied: 'Lead respondeu',
+  failed: 'Provedor informou falha',
+  bounced: 'E-mail rejeitado (bounce)',
+  step_sent: 'Follow-up enviado',
+};
+
+const ERROR_EVENTS = ['failed', 'bounced'];
+
+/** Motivos de interrupção da sequência (campaign_leads.stop_reason) */
+export const STOP_REASON_LABELS: Record<string, string> = {
+  replied: 'Lead respondeu',
+  replied_elsewhere: 'Lead respondeu a outra campanha',
+  not_accepted: 'Convite não aceito a tempo',
+  failed: 'Limite de tentativas atingido',
+  bounced: 'E-mail rejeitado',
+  opted_out: 'Pediu para não ser contatado',
+  suppressed: 'Lista de não contatar',
+};
+
+const ATTEMPT_LABELS: Record<CampaignSendAttempt['outcome'], string> = {
+  sent: 'Envio realizado',
+  failed: 'Falha no envio',
+  bounced: 'Rejeitado pelo servidor de e-mail',
+};
+
+function attemptDetail(attempt: CampaignSendAttempt): string {
+  const action = attempt.action ? stepActionLabels[attempt.action as CampaignStepAction] || attempt.action : null;
+  return [
+    attempt.step_order > 1 ? `Etapa ${attempt.step_order}` : 'Primeira mensagem',
+    action,
+    `tentativa ${attempt.attempt}`,
+  ].filter(Boolean).join(' · ');
+}
+
+function leadMilestones(cl: TimelineCampaignLead): TimelineItem[] {
+  const milestone = (key: string, at: string | null, label: string, tone: TimelineTone, detail: string | null = null): TimelineItem[] =>
+    at ? [{ id: `lead:${key}`, at, source: 'lead', tone, label, detail, error: null, payload: null }] : [];
+
+  return [
+    ...milestone('created', cl.created_at, 'Adicionado à campanha', 'info',
+      cl.status === 'skipped' && cl.skip_reason ? SKIP_REASON_LABELS[cl.skip_reason] || cl.skip_reason : null),
+    ...milestone('sent', cl.sent_at, 'Marcado como enviado', 'success'),
+    ...milestone('accepted', cl.accepted_at, 'Convite aceito', 'success'),
+    ...milestone('delivered', cl.delivered_at, 'Marcado como entregue', 'success'),
+    ...milestone('seen', cl.seen_at, 'Marcado como visualizado', 'success'),
+    ...milestone('replied', cl.replied_at, 'Marcado como respondido', 'success'),
+    ...milestone('stopped', cl.stopped_at, 'Sequência interrompida', 'info',
+      cl.stop_reason ? STOP_REASON_LABELS[cl.stop_reason] || cl.stop_reason : null),
+  ];
+}
+
+/**
+ * Junta marcos do lead, tentativas de envio, campaign_events e webhooks do
+ * provedor numa linha do tempo em ordem cronológica. Em empates os marcos do
+ * lead vêm depois, já que são consequência dos eventos.
+ */
+export function buildDeliveryTimeline(
+  cl: TimelineCampaignLead,
+  attempts: CampaignSendAttempt[],
+  campaignEvents: TimelineCampaignEvent[],
+  providerEvents: TimelineProviderEvent[]
+): TimelineItem[] {
+  const items: TimelineItem[] = [
+    ...leadMilestones(cl),
+    ...attempts.map((attempt): TimelineItem => ({
+      id: `attempt:${attempt.id}`,
+      at: attempt.created_at,
+      source: 'attempt',
+      tone: attempt.outcome === 'sent' ? 'success' : 'error',
+      label: ATTEMPT_LABELS[attempt.outcome] || attempt.outcome,
+      detail: attemptDetail(attempt),
+      error: attempt.error,
+      payload: attempt,
+    })),
+    ...campaignEvents.map((event): TimelineItem => ({
+      id: `event:${event.id}`,
+      at: event.created_at,
+      source: 'campaign_event',
+      tone: ERROR_EVENTS.includes(event.event_type) ? 'error' : 'info',
+      label: CAMPAIGN_EVENT_LABELS[event.event_type] || event.event_type,
+      detail: event.provider_message_id ? `ID no provedor: ${event.provider_message_id}` : null,
+      error: null,
+      payload: event,
+    })),
+    ...providerEvents.map((event): TimelineItem => ({
+      id: `provider:${event.id}`,
+      at: event.created_at,
+      source: 'provider_event',
+      tone: 'info',
+      label: `Webhook recebido: ${event.event_type}`,
+      detail: event.processed_at ? null : 'Ainda não processado',
+      error: null,
+      payload: event.payload,
+    })),
+  ];
+
+  const sourceOrder: Record<TimelineSource, number> = { provider_event: 0, attempt: 1, campaign_event: 2, lead: 3 };
+  return items.sort((a, b) =>
+    new Date(a.at).getTime() - new Date(b.at).getTime() || sourceOrder[a.source] - sourceOrder[b.source]
+  );
+}
+
+/** Resumo para o suporte: por que o lead ainda não recebeu a mensagem */
+export function deliveryDiagnosis(cl: TimelineCampaignLead, attempts: CampaignSendAttempt[]): string | null {
+  if (cl.status === 'skipped') {
+    return `Lead pulado: ${cl.skip_reason ? SKIP_REASON_LABELS[cl.skip_reason] || cl.skip_reason : 'motivo não informado'}.`;
+  }
+  if (cl.status === 'bounced') return `E-mail rejeitado pelo servidor${cl.error ? `: ${cl.error}` : '.'}`;
+  if (cl.status === 'failed') {
+    return `Envio desistido após ${cl.retry_count} tentativa(s)${cl.error ? `. Último erro: ${cl.error}` : '.'}`;
+  }
+  if (cl.status === 'pending') {
+    if (cl.retry_count > 0) {
+      return `Aguardando nova tentativa (${cl.retry_count} falha(s) até agora)${cl.error ? `. Último erro: ${cl.error}` : '.'}`;
+    }
+    return attempts.length === 0 ? 'Ainda na fila: nenhuma tentativa de envio registrada.' : null;
+  }
+  return null;
+}
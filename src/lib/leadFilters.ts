@@ -0,0 +1,51 @@
+import { LeadCustomFieldFilter, LeadFilters } from '@/types';
+
+export const EMPTY_LEAD_FILTERS: LeadFilters = {
+  search: '',
+  company: '',
+  jobTitle: '',
+  industry: '',
+  country: '',
+  listId: null,
+  stageId: null,
+  tagIds: [],
+  customFields: [],
+};
+
+// Tamanho da página da tabela de leads (search_leads aceita até 200)
+export const LEADS_PAGE_SIZE = 50;
+
+// Limite de "selecionar todos" (get_lead_ids)
+export const MAX_SELECT_ALL_LEADS = 20000;
+
+export function hasActiveLeadFilters(filters: LeadFilters): boolean {
+  return !!(
+    filters.search.trim() ||
+    filters.company ||
+    filters.jobTitle ||
+    filters.industry ||
+    filters.country ||
+    filters.listId ||
+    filters.stageId ||
+    filters.tagIds.length > 0 ||
+    filters.customFields.length > 0
+  );
+}
+
+/** Filtros no formato do p_filters de search_leads, count_leads e get_lead_ids (sem chaves vazias) */
+export function leadFiltersParam(filters: LeadFilters): Record<string, string | string[] | LeadCustomFieldFilter[]> {
+  const param: Record<string, string | string[] | LeadCustomFieldFilter[]> = {};
+  if (filters.search.trim()) param.search = filters.search.trim();
+  if (filters.company.trim()) param.company = filters.company.trim();
+  if (filters.jobTitle.trim()) param.jobTitle = filters.jobTitle.trim();
+  if (filters.industry) param.industry = filters.industry;
+  if (filters.country) param.country = filters.country;
+  if (filters.listId) param.listId = filters.listId;
+  if (filters.stageId) param.stageId = filters.stageId;
+  if (filters.tagIds.length > 0) param.tagIds = filters.tagIds;
+  if (filters.customFields.length > 0) param.customFields = filters.customFields;
+  if (filters.tagMatch === 'any') param.tagMatch = 'any';
+  if (filters.channel) param.channel = filters.channel;
+  if (filters.excludeCampaignId) param.excludeCampaignId = filters.excludeCampaignId;
+  return param;
+}
@@ -0,0 +1,81 @@
+import { LeadCustomField } from '@/types';
+import {
+  customFieldImportTarget,
+  customFieldKeyOfTarget,
+  INLINE_IMPORT_ROWS,
+  LEAD_IMPORT_FIELDS,
+  LEAD_IMPORTS_BUCKET,
+  leadImportFileType,
+  type LeadImportFieldKey,
+  type LeadImportFileType,
+  type LeadImportMapping,
+  type LeadImportTarget,
+} from '../../supabase/functions/_shared/leadImport.ts';
+
+export { customFieldImportTarget, customFieldKeyOfTarget, INLINE_IMPORT_ROWS, LEAD_IMPORT_FIELDS, LEAD_IMPORTS_BUCKET, leadImportFileType };
+export type { LeadImportFieldKey, LeadImportFileType, LeadImportMapping, LeadImportTarget };
+
+/** Extensões aceitas no seletor de arquivo */
+export const LEAD_IMPORT_ACCEPT = '.csv,.txt,.xlsx';
+
+// Mesmo limite do bucket lead-imports
+export const MAX_LEAD_IMPORT_FILE_SIZE = 20 * 1024 * 1024;
+
+export const LEAD_IMPORT_FIELD_LABELS: Record<LeadImportFieldKey, string> = {
+  full_name: 'Nome completo',
+  first_name: 'Primeiro nome',
+  last_name: 'Sobrenome',
+  email: 'Email',
+  personal_email: 'Email pessoal',
+  phone: 'Telefone',
+  mobile_number: 'Celular / WhatsApp',
+  company: 'Empresa',
+  job_title: 'Cargo',
+  headline: 'Headline',
+  seniority_level: 'Nível',
+  industry: 'Indústria',
+  city: 'Cidade',
+  state: 'Estado',
+  country: 'País',
+  company_website: 'Website',
+  company_domain: 'Domínio da empresa',
+  company_size: 'Tamanho da empresa',
+  company_annual_revenue: 'Faturamento',
+  linkedin_url: 'LinkedIn',
+  company_linkedin: 'LinkedIn da empresa',
+  company_technologies: 'Tecnologias',
+  keywords: 'Keywords',
+};
+
+/** Motivos das linhas puladas (lead_import_jobs.row_errors) */
+export const LEAD_IMPORT_SKIP_REASON_LABELS: Record<string, string> = {
+  missing_identifier: 'Sem nome, email, LinkedIn ou telefone',
+  invalid_email: 'Email inválido',
+  invalid_phone: 'Telefone inválido',
+  invalid_linkedin: 'URL do LinkedIn inválida',
+  invalid_custom_field: 'Valor inválido em campo personalizado',
+  duplicate_in_file: 'Repetido no arquivo',
+  duplicate: 'Lead já existe',
+  insert_failed: 'Erro ao salvar',
+};
+
+// Campos que identificam um lead: pelo menos um precisa estar mapeado
+const IDENTIFYING_FIELDS: LeadImportFieldKey[] = ['full_name', 'first_name', 'email', 'linkedin_url', 'mobile_number', 'phone'];
+
+/** Nome de um destino do mapeamento: coluna do lead ou campo personalizado */
+export function leadImportTargetLabel(target: LeadImportTarget, customFields: LeadCustomField[]): string {
+  const customKey = customFieldKeyOfTarget(target);
+  if (customKey === null) return LEAD_IMPORT_FIELD_LABELS[target as LeadImportFieldKey];
+  return customFields.find(field => field.key === customKey)?.label ?? customKey;
+}
+
+/** Mensagem de erro do mapeamento (null = válido) */
+export function validateImportMapping(mapping: LeadImportMapping, customFields: LeadCustomField[] = []): string | null {
+  const fields = mapping.filter((field): field is LeadImportTarget => !!field);
+  const repeated = fields.find((field, index) => fields.indexOf(field) !== index);
+  if (repeated) return `"${leadImportTargetLabel(repeated, customFields)}" está mapeado em mais de uma coluna.`;
+  if (!IDENTIFYING_FIELDS.some(field => fields.includes(field))) {
+    return 'Mapeie pelo menos uma coluna de nome, email, LinkedIn ou telefone.';
+  }
+  return null;
+}
@@ -0,0 +1,65 @@
+import { Lead, LeadDuplicateReason } from '@/types';
+import { LEAD_IMPORT_FIELD_LABELS } from './leadImport';
+
+export const LEAD_DUPLICATE_REASON_LABELS: Record<LeadDuplicateReason, string> = {
+  linkedin: 'Mesmo perfil do LinkedIn',
+  email: 'Mesmo email',
+  name_company: 'Nome parecido na mesma empresa',
+};
+
+/** Campos exibidos na revisão, com escolha de qual valor fica */
+export const LEAD_MERGE_FIELDS: { key: keyof Lead; label: string }[] = [
+  { key: 'full_name', label: LEAD_IMPORT_FIELD_LABELS.full_name },
+  { key: 'email', label: LEAD_IMPORT_FIELD_LABELS.email },
+  { key: 'personal_email', label: LEAD_IMPORT_FIELD_LABELS.personal_email },
+  { key: 'phone', label: LEAD_IMPORT_FIELD_LABELS.phone },
+  { key: 'mobile_number', label: LEAD_IMPORT_FIELD_LABELS.mobile_number },
+  { key: 'company', label: LEAD_IMPORT_FIELD_LABELS.company },
+  { key: 'job_title', label: LEAD_IMPORT_FIELD_LABELS.job_title },
+  { key: 'headline', label: LEAD_IMPORT_FIELD_LABELS.headline },
+  { key: 'seniority_level', label: LEAD_IMPORT_FIELD_LABELS.seniority_level },
+  { key: 'industry', label: LEAD_IMPORT_FIELD_LABELS.industry },
+  { key: 'city', label: LEAD_IMPORT_FIELD_LABELS.city },
+  { key: 'state', label: LEAD_IMPORT_FIELD_LABELS.state },
+  { key: 'country', label: LEAD_IMPORT_FIELD_LABELS.country },
+  { key: 'company_website', label: LEAD_IMPORT_FIELD_LABELS.company_website },
+  { key: 'company_size', label: LEAD_IMPORT_FIELD_LABELS.company_size },
+  { key: 'linkedin_url', label: LEAD_IMPORT_FIELD_LABELS.linkedin_url },
+  { key: 'list_id', label: 'Lista' },
+];
+
+// Colunas que nunca vêm do lead mesclado (merge_leads também as ignora)
+const NON_MERGEABLE_KEYS = new Set(['id', 'workspace_id', 'created_at', 'updated_at', 'search_vector', 'custom_fields']);
+
+export function isEmptyLeadValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+function filledFieldCount(lead: Lead): number {
+  return Object.entries(lead).filter(([key, value]) => !NON_MERGEABLE_KEYS.has(key) && !isEmptyLeadValue(value)).length;
+}
+
+/** Lead que fica por padrão: o mais completo; no empate, o mais antigo */
+export function pickSurvivingLead(a: Lead, b: Lead): [Lead, Lead] {
+  const diff = filledFieldCount(a) - filledFieldCount(b);
+  if (diff > 0) return [a, b];
+  if (diff < 0) return [b, a];
+  return a.created_at <= b.created_at ? [a, b] : [b, a];
+}
+
+/**
+ * Campos que vêm do lead mesclado por padrão: os que só ele preenche.
+ * Inclui colunas fora da revisão (skills, dados do perfil), para que o
+ * enriquecimento do lead apagado não se perca.
+ */
+export function defaultMergeFields(surviving: Lead, merged: Lead): Set<string> {
+  const fields = new Set<string>();
+  for (const [key, value] of Object.entries(merged)) {
+    if (NON_MERGEABLE_KEYS.has(key)) continue;
+    if (isEmptyLeadValue(surviving[key as keyof Lead]) && !isEmptyLeadValue(value)) fields.add(key);
+  }
+  return fields;
+}
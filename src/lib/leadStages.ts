@@ -0,0 +1,46 @@
+import { LeadStage, LeadStageEvent, LeadStageHistorySource, LeadStageKind } from '@/types';
+
+export const LEAD_STAGE_KIND_LABELS: Record<LeadStageKind, string> = {
+  open: 'Em andamento',
+  won: 'Ganho',
+  lost: 'Perdido',
+};
+
+export const LEAD_STAGE_EVENT_LABELS: Record<LeadStageEvent, string> = {
+  sent: 'Mensagem enviada',
+  accepted: 'Convite aceito',
+  replied: 'Respondeu',
+};
+
+export const LEAD_STAGE_EVENTS = Object.keys(LEAD_STAGE_EVENT_LABELS) as LeadStageEvent[];
+
+export const LEAD_STAGE_HISTORY_SOURCE_LABELS: Record<LeadStageHistorySource, string> = {
+  manual: 'Movido manualmente',
+  sent: 'Campanha: mensagem enviada',
+  accepted: 'Campanha: convite aceito',
+  replied: 'Campanha: respondeu',
+  stage_removed: 'Etapa removida',
+};
+
+// Cores oferecidas ao criar/editar etapas
+export const LEAD_STAGE_COLORS = [
+  '#64748b', '#3b82f6', '#06b6d4', '#8b5cf6', '#ec4899', '#f59e0b', '#22c55e', '#ef4444',
+];
+
+// Tipo de dado do arraste de leads entre colunas do Kanban
+export const LEAD_DRAG_TYPE = 'application/x-lead-id';
+
+/**
+ * Taxa de ganho: leads em etapas "ganho" sobre os que já fecharam (ganho +
+ * perdido). null enquanto nenhum lead fechou.
+ */
+export function leadStageWinRate(stages: LeadStage[], counts: Map<string, number>): number | null {
+  let won = 0;
+  let lost = 0;
+  for (const stage of stages) {
+    const count = counts.get(stage.id) ?? 0;
+    if (stage.kind === 'won') won += count;
+    if (stage.kind === 'lost') lost += count;
+  }
+  return won + lost > 0 ? won / (won + lost) : null;
+}
@@ -1,4 +1,10 @@
 import { Lead } from '@/types';
+import {
+  findMissingVariables,
+  parseTemplate,
+  renderTemplate,
+  type RenderOptions,
+} from '../../supabase/functions/_shared/templateEngine.ts';
 
 export interface MessageVariable {
   variable: string;
@@ -20,20 +26,53 @@ export const MESSAGE_VARIABLES: MessageVariable[] = [
   { variable: '{{pais}}', field: 'country', label: 'País', description: 'País do lead' },
   { variable: '{{linkedin}}', field: 'linkedin_url', label: 'LinkedIn', description: 'URL do perfil LinkedIn' },
   { variable: '{{industria}}', field: 'industry', label: 'Indústria', description: 'Setor/indústria' },
+  { variable: '{{headline}}', field: 'headline', label: 'Headline', description: 'Headline do LinkedIn (enriquecimento)' },
+  { variable: '{{sobre}}', field: 'about', label: 'Sobre', description: 'Seção "Sobre" do LinkedIn (enriquecimento)' },
+];
+
+/** Exemplos da sintaxe de template exibidos na ajuda */
+export const TEMPLATE_SYNTAX_HELP = [
+  { example: '{{primeiro_nome|pessoal}}', description: 'Valor padrão quando o campo está vazio' },
+  { example: '{{#if empresa}}na {{empresa}}{{else}}na sua empresa{{/if}}', description: 'Bloco condicional' },
+  { example: '{Oi|Olá|E aí}', description: 'Spintax: uma opção é sorteada por lead' },
 ];
 
 /**
  * Substitui as variáveis de template pelos valores do lead
+ * (mesmo motor usado pelas edge functions no envio)
  */
-export function replaceVariables(message: string, lead: Partial<Lead>): string {
-  let result = message;
-  
-  for (const { variable, field } of MESSAGE_VARIABLES) {
-    const value = lead[field];
-    result = result.split(variable).join(value ? String(value) : '');
+export function replaceVariables(message: string, lead: Partial<Lead>, options?: RenderOptions): string {
+  return renderTemplate(message, lead, options);
+}
+
+/**
+ * Erros de sintaxe do template (blocos {{#if}} sem {{/if}}, variáveis vazias...)
+ */
+export function getTemplateErrors(message: string): string[] {
+  return parseTemplate(message).errors;
+}
+
+export interface LeadTemplateIssue {
+  lead: Partial<Lead>;
+  missing: string[];
+}
+
+/**
+ * Leads cuja mensagem ficaria com variáveis vazias (sem valor padrão nem {{#if}})
+ */
+export function findLeadsWithMissingVariables(
+  templates: string[],
+  leads: Partial<Lead>[]
+): LeadTemplateIssue[] {
+  const activeTemplates = templates.filter(Boolean);
+  if (activeTemplates.length === 0) return [];
+
+  const issues: LeadTemplateIssue[] = [];
+  for (const lead of leads) {
+    const missing = new Set(activeTemplates.flatMap(template => findMissingVariables(template, lead)));
+    if (missing.size > 0) issues.push({ lead, missing: [...missing] });
   }
-  
-  return result;
+  return issues;
 }
 
 /**
@@ -53,9 +92,12 @@ export function getMessagePreview(message: string, lead?: Partial<Lead>): string
     country: 'Brasil',
     linkedin_url: 'https://linkedin.com/in/joaosilva',
     industry: 'Tecnologia',
+    headline: 'CEO na Empresa Exemplo | Vendas B2B',
+    about: 'Ajudo empresas B2B a vender mais.',
   };
   
-  return replaceVariables(message, exampleLead);
+  // Semente fixa: a prévia não muda a cada renderização com spintax
+  return replaceVariables(message, exampleLead, { seed: 'preview' });
 }
 
 /**
@@ -3,10 +3,13 @@ import autoTable from 'jspdf-autotable';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { CampaignReportMetrics, CampaignLeadDetail } from '@/hooks/useCampaignReport';
+import { CampaignVariantStats } from '@/types';
+import { getVariantRates, getVariantSignificance } from '@/lib/campaignVariants';
 
 interface PDFExportData {
   campaign: CampaignReportMetrics;
   leads: CampaignLeadDetail[];
+  variants?: CampaignVariantStats[];
 }
 
 const statusLabels: Record<string, string> = {
@@ -18,7 +21,7 @@ const statusLabels: Record<string, string> = {
   failed: 'Falhou',
 };
 
-export function exportCampaignReportPDF({ campaign, leads }: PDFExportData) {
+export function exportCampaignReportPDF({ campaign, leads, variants = [] }: PDFExportData) {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
   
@@ -170,6 +173,67 @@ export function exportCampaignReportPDF({ campaign, leads }: PDFExportData) {
 
   yPosition += 60;
 
+  // ========== A/B VARIANTS ==========
+  if (variants.length > 1) {
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(primaryColor);
+    doc.text('Teste A/B', 20, yPosition);
+
+    yPosition += 6;
+
+    const significance = getVariantSignificance(variants);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(mutedColor);
+    const leader = significance ? variants.find(v => v.variant_id === significance.leaderId) : null;
+    doc.text(
+      significance && leader
+        ? `Variante ${leader.label} lidera em respostas com ${(significance.confidence * 100).toFixed(0)}% de confiança${significance.significant ? ' (significativo)' : ' (ainda não significativo)'}`
+        : 'Envios insuficientes para comparar as variantes',
+      20,
+      yPosition
+    );
+
+    yPosition += 4;
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Variante', 'Leads', 'Enviados', 'Entregues', 'Visualizados', 'Respondidos']],
+      body: variants.map(variant => {
+        const rates = getVariantRates(variant);
+        return [
+          `${variant.label}${variant.is_winner ? ' (vencedora)' : ''}`,
+          String(variant.leads_count),
+          String(variant.sent_count),
+          `${variant.delivered_count} (${rates.deliveryRate.toFixed(1)}%)`,
+          `${variant.seen_count} (${rates.openRate.toFixed(1)}%)`,
+          `${variant.replied_count} (${rates.replyRate.toFixed(1)}%)`,
+        ];
+      }),
+      theme: 'striped',
+      headStyles: {
+        fillColor: [26, 26, 46],
+        textColor: [255, 255, 255],
+        fontSize: 9,
+        fontStyle: 'bold',
+      },
+      bodyStyles: {
+        fontSize: 8,
+        textColor: [51, 51, 51],
+      },
+      margin: { left: 20, right: 20 },
+      styles: {
+        cellPadding: 3,
+      },
+      didDrawPage: (data) => {
+        yPosition = data.cursor?.y ?? yPosition;
+      },
+    });
+
+    yPosition += 15;
+  }
+
   // ========== LEADS TABLE ==========
   doc.setFontSize(12);
   doc.setFont('helvetica', 'bold');
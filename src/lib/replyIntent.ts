@@ -0,0 +1,33 @@
+import { ReplyIntent } from '@/types';
+import {
+  classifyReply,
+  isPositiveIntent,
+  POSITIVE_REPLY_INTENTS,
+  REPLY_INTENTS,
+} from '../../supabase/functions/_shared/replyIntent.ts';
+
+export { classifyReply, isPositiveIntent, POSITIVE_REPLY_INTENTS, REPLY_INTENTS };
+
+export const REPLY_INTENT_LABELS: Record<ReplyIntent, string> = {
+  interested: 'Interessado',
+  not_interested: 'Sem interesse',
+  out_of_office: 'Ausente',
+  wrong_person: 'Pessoa errada',
+  opt_out: 'Pediu para sair',
+  question: 'Pergunta',
+  unclassified: 'Não classificada',
+};
+
+export const REPLY_INTENT_COLORS: Record<ReplyIntent, string> = {
+  interested: 'bg-emerald-100 text-emerald-700',
+  not_interested: 'bg-red-100 text-red-700',
+  out_of_office: 'bg-amber-100 text-amber-700',
+  wrong_person: 'bg-orange-100 text-orange-700',
+  opt_out: 'bg-gray-200 text-gray-700',
+  question: 'bg-blue-100 text-blue-700',
+  unclassified: 'bg-muted text-muted-foreground',
+};
+
+export function replyIntentLabel(intent: string | null | undefined): string {
+  return intent ? REPLY_INTENT_LABELS[intent as ReplyIntent] || intent : '';
+}
@@ -0,0 +1,95 @@
+import { Campaign } from '@/types';
+import {
+  buildSendingWindow,
+  formatWindowTime,
+  getNextWindowOpening,
+  projectCompletionDate,
+  timeToMinutes,
+  type SendingWindowInput,
+} from '../../supabase/functions/_shared/sendingWindow.ts';
+
+export type { SendingWindowInput };
+
+/** 0 = domingo .. 6 = sábado (mesma convenção do Postgres/Date.getDay) */
+export const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+export const DEFAULT_SENDING_WINDOW: SendingWindowInput = {
+  days: [1, 2, 3, 4, 5],
+  start: '09:00',
+  end: '18:00',
+  skipHolidays: true,
+  useLeadTimezone: false,
+};
+
+/** Validação local da janela de envio (espelha a do create-campaign) */
+export function validateSendingWindow(input: SendingWindowInput | null): string | null {
+  if (!input) return null;
+  if (input.days && input.days.length === 0) {
+    return 'Selecione pelo menos um dia da semana para a janela de envio.';
+  }
+  if (input.start && input.end && timeToMinutes(input.start) >= timeToMinutes(input.end)) {
+    return 'O horário inicial da janela de envio deve ser anterior ao final.';
+  }
+  return null;
+}
+
+type SendingWindowColumns = Pick<Campaign, 'send_window_days' | 'send_window_start' | 'send_window_end' | 'skip_holidays' | 'use_lead_timezone'>;
+
+/** Janela configurada em uma campanha (ou template), no formato do formulário (null = sem janela) */
+export function sendingWindowFromCampaign(campaign: SendingWindowColumns): SendingWindowInput | null {
+  const hasWindow = !!(campaign.send_window_days?.length || campaign.send_window_start || campaign.send_window_end
+    || campaign.skip_holidays || campaign.use_lead_timezone);
+  if (!hasWindow) return null;
+  return {
+    days: campaign.send_window_days?.length ? campaign.send_window_days : [0, 1, 2, 3, 4, 5, 6],
+    start: formatWindowTime(campaign.send_window_start ?? null),
+    end: formatWindowTime(campaign.send_window_end ?? null),
+    skipHolidays: campaign.skip_holidays === true,
+    useLeadTimezone: campaign.use_lead_timezone === true,
+  };
+}
+
+/** Resumo legível, ex.: "Seg, Ter, Qua · 09:00–18:00" */
+export function describeSendingWindow(campaign: SendingWindowColumns): string | null {
+  const input = sendingWindowFromCampaign(campaign);
+  if (!input) return null;
+
+  const parts: string[] = [];
+  if (input.days && input.days.length < 7) parts.push(input.days.map(day => WEEKDAY_LABELS[day]).join(', '));
+  if (input.start || input.end) parts.push(`${input.start || '00:00'}–${input.end || '24:00'}`);
+  if (input.skipHolidays) parts.push('sem feriados');
+  if (input.useLeadTimezone) parts.push('fuso do lead');
+  return parts.join(' · ');
+}
+
+interface CompletionProjectionInput {
+  window: SendingWindowInput | null;
+  leadsCount: number;
+  dailyLimit: number;
+  timezone: string;
+  holidays: string[];
+  /** Início dos envios (padrão: agora) */
+  from?: Date;
+}
+
+/** Último dia de envio previsto (YYYY-MM-DD), respeitando limite diário, janela e feriados */
+export function projectCampaignCompletion({
+  window,
+  leadsCount,
+  dailyLimit,
+  timezone,
+  holidays,
+  from = new Date(),
+}: CompletionProjectionInput): string | null {
+  const sendingWindow = buildSendingWindow(
+    {
+      send_window_days: window?.days && window.days.length < 7 ? window.days : null,
+      send_window_start: window?.start || null,
+      send_window_end: window?.end || null,
+      skip_holidays: window?.skipHolidays === true,
+    },
+    holidays
+  );
+  const firstDate = getNextWindowOpening(sendingWindow, from, timezone).date;
+  return projectCompletionDate(sendingWindow, firstDate, leadsCount, dailyLimit);
+}
@@ -0,0 +1,83 @@
+import { Lead, Snippet, SnippetChannel } from '@/types';
+import { getTemplateErrors, replaceVariables } from '@/lib/messageVariables';
+
+export const SNIPPET_CHANNELS: SnippetChannel[] = ['any', 'linkedin', 'whatsapp', 'email'];
+
+export const SNIPPET_CHANNEL_LABELS: Record<SnippetChannel, string> = {
+  any: 'Todos os canais',
+  linkedin: 'LinkedIn',
+  whatsapp: 'WhatsApp',
+  email: 'E-mail',
+};
+
+// Mesma regra da constraint snippets_shortcut_check
+const SHORTCUT_PATTERN = /^[a-z0-9_-]{1,32}$/;
+
+/**
+ * Atalho normalizado (sem "/" inicial, minúsculo, sem acentos e espaços).
+ * Vazio vira null.
+ */
+export function normalizeShortcut(value: string | null | undefined): string | null {
+  const normalized = (value || '')
+    .trim()
+    .replace(/^\/+/, '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-');
+  return normalized || null;
+}
+
+/**
+ * Erros de validação de um snippet (campos obrigatórios, atalho e sintaxe
+ * das variáveis, com o mesmo motor de template das campanhas)
+ */
+export function getSnippetErrors(snippet: { title: string; body: string; shortcut?: string | null }): string[] {
+  const errors: string[] = [];
+  if (!snippet.title.trim()) errors.push('Informe um título.');
+  if (!snippet.body.trim()) errors.push('Escreva o texto da resposta.');
+
+  const shortcut = normalizeShortcut(snippet.shortcut);
+  if (shortcut && !SHORTCUT_PATTERN.test(shortcut)) {
+    errors.push('O atalho aceita até 32 letras, números, "-" ou "_".');
+  }
+  return [...errors, ...getTemplateErrors(snippet.body)];
+}
+
+/** Snippets disponíveis para um canal ('any' aparece em todos) */
+export function filterSnippetsByChannel<T extends Pick<Snippet, 'channel'>>(
+  snippets: T[],
+  channel: SnippetChannel | null | undefined
+): T[] {
+  if (!channel || channel === 'any') return snippets;
+  return snippets.filter(snippet => snippet.channel === 'any' || snippet.channel === channel);
+}
+
+/** Busca por título, atalho ou texto */
+export function searchSnippets<T extends Pick<Snippet, 'title' | 'body' | 'shortcut'>>(snippets: T[], term: string): T[] {
+  const query = term.trim().toLowerCase().replace(/^\//, '');
+  if (!query) return snippets;
+  return snippets.filter(snippet =>
+    [snippet.title, snippet.shortcut, snippet.body].some(value => value?.toLowerCase().includes(query))
+  );
+}
+
+/** Snippet cujo atalho é exatamente o termo digitado após "/" */
+export function findSnippetByShortcut<T extends Pick<Snippet, 'shortcut'>>(snippets: T[], shortcut: string): T | undefined {
+  const normalized = normalizeShortcut(shortcut);
+  if (!normalized) return undefined;
+  return snippets.find(snippet => snippet.shortcut === normalized);
+}
+
+/**
+ * Texto do snippet para um lead específico (respostas manuais). A semente é o
+ * id do lead, para o spintax sortear o mesmo texto a cada cópia.
+ */
+export function renderSnippetForLead(body: string, lead: Partial<Lead>): string {
+  return replaceVariables(body, lead, { seed: lead.id });
+}
+
+/** Taxa de resposta (0-1) ou null quando nenhum contato foi alcançado */
+export function snippetReplyRate(stats: { reached_count: number; replied_count: number }): number | null {
+  return stats.reached_count > 0 ? stats.replied_count / stats.reached_count : null;
+}
@@ -0,0 +1,117 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { SuppressionEntry, SuppressionEntryType } from '@/types';
+import {
+  detectSuppressionType,
+  leadSuppressionKeys,
+  matchSuppression,
+  normalizeSuppressionValue,
+  SUPPRESSION_ENTRY_TYPES,
+  suppressionKey,
+} from '../../supabase/functions/_shared/suppression.ts';
+
+export { leadSuppressionKeys, matchSuppression, normalizeSuppressionValue, SUPPRESSION_ENTRY_TYPES, suppressionKey };
+
+export const SUPPRESSION_TYPE_LABELS: Record<SuppressionEntryType, string> = {
+  email: 'E-mail',
+  phone: 'Telefone',
+  linkedin: 'LinkedIn',
+  domain: 'Domínio',
+};
+
+export const SUPPRESSION_REASON_LABELS: Record<SuppressionEntry['reason'], string> = {
+  manual: 'Manual',
+  import: 'Importado',
+  opt_out: 'Pediu para sair',
+};
+
+export const SUPPRESSION_VALUE_PLACEHOLDERS: Record<SuppressionEntryType, string> = {
+  email: 'nome@empresa.com',
+  phone: '+55 11 99999-9999',
+  linkedin: 'linkedin.com/in/perfil',
+  domain: 'empresa.com',
+};
+
+/** Motivos de leads pulados nas campanhas (campaign_leads.skip_reason) */
+export const SKIP_REASON_LABELS: Record<string, string> = {
+  in_conversation: 'Lead em conversa (respondeu a outra campanha)',
+  opted_out: 'Pediu para não ser contatado',
+  suppressed_email: 'Lista de não contatar (e-mail)',
+  suppressed_phone: 'Lista de não contatar (telefone)',
+  suppressed_linkedin: 'Lista de não contatar (LinkedIn)',
+  suppressed_domain: 'Lista de não contatar (domínio)',
+  unknown: 'Motivo não informado',
+};
+
+export interface ParsedSuppressionCsv {
+  entries: { entry_type: SuppressionEntryType; value: string }[];
+  invalid: number;
+}
+
+const TYPE_ALIASES: Record<string, SuppressionEntryType> = {
+  email: 'email',
+  'e-mail': 'email',
+  telefone: 'phone',
+  phone: 'phone',
+  celular: 'phone',
+  linkedin: 'linkedin',
+  dominio: 'domain',
+  domínio: 'domain',
+  domain: 'domain',
+};
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  return line.split(delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1').replace(/""/g, '"'));
+}
+
+/**
+ * Lê um CSV da lista (o exportado por buildSuppressionCsv ou uma coluna só de
+ * valores). Sem coluna de tipo, o tipo é deduzido de cada valor.
+ */
+export function parseSuppressionCsv(text: string): ParsedSuppressionCsv {
+  const lines = text.replace(/^\ufeff/, '').split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return { entries: [], invalid: 0 };
+
+  const delimiter = lines[0].includes(';') ? ';' : ',';
+  const header = splitCsvLine(lines[0], delimiter).map(cell => cell.toLowerCase());
+  const typeIndex = header.findIndex(cell => cell === 'tipo' || cell === 'type');
+  const valueIndex = header.findIndex(cell => cell === 'valor' || cell === 'value');
+  const hasHeader = typeIndex !== -1 || valueIndex !== -1;
+
+  const seen = new Set<string>();
+  const result: ParsedSuppressionCsv = { entries: [], invalid: 0 };
+
+  for (const line of hasHeader ? lines.slice(1) : lines) {
+    const cells = splitCsvLine(line, delimiter);
+    const raw = cells[valueIndex !== -1 ? valueIndex : typeIndex === 0 ? 1 : 0] || '';
+    const typeCell = typeIndex !== -1 ? (cells[typeIndex] || '').toLowerCase() : '';
+    const type = TYPE_ALIASES[typeCell] ?? detectSuppressionType(raw);
+    const value = type ? normalizeSuppressionValue(type, raw) : null;
+
+    if (!type || !value) {
+      result.invalid++;
+      continue;
+    }
+    if (seen.has(suppressionKey(type, value))) continue;
+    seen.add(suppressionKey(type, value));
+    result.entries.push({ entry_type: type, value });
+  }
+  return result;
+}
+
+/** CSV da lista (separador ";", com BOM para abrir corretamente no Excel) */
+export function buildSuppressionCsv(entries: SuppressionEntry[]): string {
+  const headers = ['Tipo', 'Valor', 'Motivo', 'Observação', 'Adicionado em'];
+  const rows = entries.map(entry => [
+    SUPPRESSION_TYPE_LABELS[entry.entry_type] || entry.entry_type,
+    entry.value,
+    SUPPRESSION_REASON_LABELS[entry.reason] || entry.reason,
+    entry.note || '',
+    format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm', { locale: ptBR }),
+  ]);
+
+  return '\ufeff' + [
+    headers.join(';'),
+    ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(';')),
+  ].join('\n');
+}
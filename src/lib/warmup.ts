@@ -0,0 +1,53 @@
+import { Account } from '@/hooks/useAccounts';
+import { WorkspaceSettings } from '@/hooks/useWorkspaceSettings';
+import {
+  DEFAULT_WARMUP_DAILY_INCREASE,
+  DEFAULT_WARMUP_START_LIMIT,
+  getWarmupStage,
+  type WarmupStage,
+} from '../../supabase/functions/_shared/warmup.ts';
+
+export { DEFAULT_WARMUP_DAILY_INCREASE, DEFAULT_WARMUP_START_LIMIT };
+export type { WarmupStage };
+
+type LimitSettings = Pick<WorkspaceSettings, 'daily_message_limit' | 'linkedin_daily_invite_limit' | 'linkedin_daily_message_limit'>;
+
+export interface AccountWarmup {
+  stage: WarmupStage;
+  /** O que o limite mede: convites (LinkedIn) ou mensagens (WhatsApp) */
+  unit: string;
+  /** Data em que o limite cheio é atingido */
+  fullOn: Date | null;
+}
+
+/** Limite diário que a rampa acompanha: convites no LinkedIn, mensagens no WhatsApp */
+function warmupTargetLimit(account: Account, settings: LimitSettings): number {
+  if (account.channel === 'linkedin') return settings.linkedin_daily_invite_limit;
+  return account.daily_message_limit ?? settings.daily_message_limit;
+}
+
+/** Estágio atual do aquecimento da conta (null = conta já envia com o limite cheio) */
+export function getAccountWarmup(account: Account, settings: LimitSettings, now: Date = new Date()): AccountWarmup | null {
+  if (account.channel !== 'linkedin' && account.channel !== 'whatsapp') return null;
+
+  const stage = getWarmupStage(account, warmupTargetLimit(account, settings), now);
+  if (!stage) return null;
+
+  const fullOn = stage.fullDay ? new Date(now.getTime() + (stage.fullDay - stage.day) * 24 * 60 * 60 * 1000) : null;
+  return {
+    stage,
+    unit: account.channel === 'linkedin' ? 'convites' : 'mensagens',
+    fullOn,
+  };
+}
+
+/** Validação dos campos de aquecimento (espelha as constraints da tabela accounts) */
+export function validateWarmup(startLimit: number, dailyIncrease: number): string | null {
+  if (!Number.isInteger(startLimit) || startLimit < 1 || startLimit > 500) {
+    return 'O limite inicial do aquecimento deve estar entre 1 e 500.';
+  }
+  if (!Number.isInteger(dailyIncrease) || dailyIncrease < 0 || dailyIncrease > 100) {
+    return 'O aumento diário do aquecimento deve estar entre 0 e 100.';
+  }
+  return null;
+}
@@ -1,8 +1,10 @@
 import { useState, useMemo, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useCampaigns } from '@/hooks/useCampaigns';
-import { useLeads } from '@/hooks/useLeads';
+import { useLeadsByIds, useLeadsPage } from '@/hooks/useLeadsPage';
 import { useAccounts } from '@/hooks/useAccounts';
+import { useWorkspaceSettings } from '@/hooks/useWorkspaceSettings';
+import { useCampaignQueueEnd, useWorkspaceHolidays, useWorkspaceTimezone } from '@/hooks/useWorkspaceHolidays';
 import AppLayout from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -17,12 +19,31 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
-import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/components/ui/tooltip';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { CampaignReportDialog } from '@/components/campaigns/CampaignReportDialog';
 import { EditScheduledCampaignDialog } from '@/components/campaigns/EditScheduledCampaignDialog';
 import { CampaignLeadsDialog } from '@/components/campaigns/CampaignLeadsDialog';
+import { SequenceStepsEditor } from '@/components/campaigns/SequenceStepsEditor';
+import { VariantsEditor } from '@/components/campaigns/VariantsEditor';
+import { SendingWindowEditor } from '@/components/campaigns/SendingWindowEditor';
+import { CampaignAudienceEditor } from '@/components/campaigns/CampaignAudienceEditor';
+import { CampaignStepFunnel } from '@/components/campaigns/CampaignStepFunnel';
+import { CampaignDryRunDialog } from '@/components/campaigns/CampaignDryRunDialog';
+import { CampaignAttachmentPreview, CampaignAttachmentsEditor } from '@/components/campaigns/CampaignAttachmentsEditor';
+import { CampaignTemplatesDialog } from '@/components/campaigns/CampaignTemplatesDialog';
+import { SaveCampaignTemplateDialog } from '@/components/campaigns/SaveCampaignTemplateDialog';
+import { SnippetPicker } from '@/components/snippets/SnippetPicker';
+import { useSnippets } from '@/hooks/useSnippets';
+import { useCampaignStepStats } from '@/hooks/useCampaignSteps';
+import { useCampaignVariantStats } from '@/hooks/useCampaignVariants';
+import { useCampaignAccounts } from '@/hooks/useCampaignAccounts';
+import { useCampaignAttachments } from '@/hooks/useCampaignAttachments';
+import { useCampaignControl } from '@/hooks/useCampaignControl';
+import { useCampaignTemplates } from '@/hooks/useCampaignTemplates';
+import { useLeadCustomFields } from '@/hooks/useLeadCustomFields';
+import { CampaignAttachmentDraft, validateAttachments } from '@/lib/campaignAttachments';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
   Send, 
@@ -47,7 +68,14 @@ import {
   Sparkles,
   Info,
   Users,
-  LinkIcon,
+  ListOrdered,
+  Split,
+  CalendarCheck,
+  MessagesSquare,
+  Pause,
+  Play,
+  LayoutTemplate,
+  BookmarkPlus,
 } from 'lucide-react';
 import {
   AlertDialog,
@@ -61,8 +89,37 @@ import {
 } from '@/components/ui/alert-dialog';
 import { format, setHours, setMinutes } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { Lead, Campaign, LinkedInAction } from '@/types';
-import { MESSAGE_VARIABLES, getMessagePreview } from '@/lib/messageVariables';
+import {
+  Campaign,
+  LeadFilters,
+  LeadSort,
+  LinkedInAction,
+  FollowUpStepInput,
+  CampaignStepAction,
+  CampaignStepCondition,
+  CampaignVariantInput,
+  CampaignTemplateWithStats,
+  ReplyStopScope,
+} from '@/types';
+import {
+  MESSAGE_VARIABLES,
+  getMessagePreview,
+  getTemplateErrors,
+  findLeadsWithMissingVariables,
+} from '@/lib/messageVariables';
+import { customFieldVariables } from '@/lib/customFields';
+import { validateFollowUpSteps } from '@/lib/campaignSteps';
+import { validateVariants } from '@/lib/campaignVariants';
+import { MAX_INVITE_NOTE_LENGTH } from '@/lib/campaignDryRun';
+import { audienceFromCampaign, validateAudience, type AudienceInput } from '@/lib/campaignAudience';
+import { EMPTY_LEAD_FILTERS, MAX_SELECT_ALL_LEADS } from '@/lib/leadFilters';
+import {
+  describeSendingWindow,
+  projectCampaignCompletion,
+  sendingWindowFromCampaign,
+  validateSendingWindow,
+  type SendingWindowInput,
+} from '@/lib/sendingWindow';
 
 const linkedInActionLabels: Record<LinkedInAction, { label: string; description: string }> = {
   dm: { label: 'Mensagem (DM)', description: 'Envia mensagem para conexões' },
@@ -94,12 +151,32 @@ const typeLabels: Record<string, string> = {
   linkedin: 'LinkedIn',
 };
 
+const NEWEST_LEADS_FIRST: LeadSort = { column: 'created_at', ascending: false };
+
 export default function Campaigns() {
   const { currentWorkspace } = useAuth();
   const { campaigns, isLoading, createCampaign, updateCampaign, refetchCampaigns } = useCampaigns();
-  const { leads } = useLeads();
   const { accounts } = useAccounts();
+  const { settings } = useWorkspaceSettings();
+  const { holidayDates } = useWorkspaceHolidays();
+  const workspaceTimezone = useWorkspaceTimezone();
   const { toast } = useToast();
+  const campaignIds = useMemo(() => campaigns.map(c => c.id), [campaigns]);
+  const { stepStatsByCampaign } = useCampaignStepStats(campaignIds);
+  const { variantStatsByCampaign } = useCampaignVariantStats(campaignIds);
+  const { accountsByCampaign } = useCampaignAccounts(campaignIds);
+  const { recordUsage: recordSnippetUsage } = useSnippets();
+  const { uploadAttachments } = useCampaignAttachments();
+  const { pauseCampaign, resumeCampaign } = useCampaignControl();
+  const { templates } = useCampaignTemplates();
+  const templateNames = useMemo(() => new Map(templates.map(t => [t.id, t.name])), [templates]);
+  const { fields: customFields } = useLeadCustomFields();
+  const messageVariables = useMemo(() => [...MESSAGE_VARIABLES, ...customFieldVariables(customFields)], [customFields]);
+  const inProgressCampaignIds = useMemo(
+    () => campaigns.filter(c => c.status === 'queued' || c.status === 'sending').map(c => c.id),
+    [campaigns]
+  );
+  const queueEndByCampaign = useCampaignQueueEnd(inProgressCampaignIds);
 
   const [dialogOpen, setDialogOpen] = useState(false);
   const [creating, setCreating] = useState(false);
@@ -108,7 +185,10 @@ export default function Campaigns() {
   const [reportCampaign, setReportCampaign] = useState<{ id: string; name: string } | null>(null);
   const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
   const [cancelCampaignId, setCancelCampaignId] = useState<string | null>(null);
-  const [viewLeadsCampaign, setViewLeadsCampaign] = useState<{ id: string; name: string } | null>(null);
+  const [viewLeadsCampaign, setViewLeadsCampaign] = useState<Campaign | null>(null);
+  const [controlCampaignId, setControlCampaignId] = useState<string | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [templateSourceCampaign, setTemplateSourceCampaign] = useState<Campaign | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   // Form state
@@ -117,18 +197,61 @@ export default function Campaigns() {
   const [message, setMessage] = useState('');
   const [subject, setSubject] = useState('');
   const [selectedAccountId, setSelectedAccountId] = useState<string>('');
+  const [poolAccountIds, setPoolAccountIds] = useState<Set<string>>(new Set());
   const [selectedLeadIds, setSelectedLeadIds] = useState<Set<string>>(new Set());
+  const [leadSearch, setLeadSearch] = useState('');
+  const [selectingAllLeads, setSelectingAllLeads] = useState(false);
   const [linkedInAction, setLinkedInAction] = useState<LinkedInAction>('invite');
+  const [followUpSteps, setFollowUpSteps] = useState<FollowUpStepInput[]>([]);
+  const [variants, setVariants] = useState<CampaignVariantInput[]>([]);
+  const [variantPromoteAfter, setVariantPromoteAfter] = useState<number | null>(null);
+  const [sendingWindow, setSendingWindow] = useState<SendingWindowInput | null>(null);
+  const [audience, setAudience] = useState<AudienceInput | null>(null);
+  const [replyStopScope, setReplyStopScope] = useState<ReplyStopScope>('campaign');
+  const [notifyOnReply, setNotifyOnReply] = useState(false);
+  const [attachments, setAttachments] = useState<CampaignAttachmentDraft[]>([]);
+  const [dryRunOpen, setDryRunOpen] = useState(false);
+  // Snippets inseridos na mensagem (uso registrado quando a campanha é criada)
+  const [usedSnippetIds, setUsedSnippetIds] = useState<Set<string>>(new Set());
+  // Gallery template the form was filled from (performance is aggregated per template)
+  const [templateId, setTemplateId] = useState<string | null>(null);
   
   // Schedule state
   const [scheduleEnabled, setScheduleEnabled] = useState(false);
   const [scheduleDate, setScheduleDate] = useState<Date | undefined>(undefined);
   const [scheduleTime, setScheduleTime] = useState('09:00');
 
-  // Message character limit for invite notes
-  const MAX_INVITE_NOTE_LENGTH = 300;
   const isInviteAction = type === 'linkedin' && linkedInAction === 'invite';
 
+  // Lead picker paged on the server: only leads with the channel's contact are selectable
+  const leadPickerFilters = useMemo(
+    (): LeadFilters => ({ ...EMPTY_LEAD_FILTERS, search: leadSearch, channel: type }),
+    [leadSearch, type]
+  );
+  const {
+    leads: pickerLeads,
+    totalCount: selectableLeadsCount,
+    isLoading: pickerLoading,
+    hasNextPage: pickerHasNextPage,
+    fetchNextPage: fetchNextPickerPage,
+    isFetchingNextPage: isFetchingNextPickerPage,
+    fetchMatchingLeadIds,
+  } = useLeadsPage(leadPickerFilters, NEWEST_LEADS_FIRST);
+
+  // Full rows of the selection (variables check, dry run and the create-campaign payload)
+  const selectedLeadIdList = useMemo(() => [...selectedLeadIds], [selectedLeadIds]);
+  const { leads: selectedLeads, isLoading: selectedLeadsLoading } = useLeadsByIds(selectedLeadIdList);
+
+  // Dry-run input: only computed while the preview dialog is open
+  const dryRunCampaign = useMemo(
+    () => ({ type, linkedinAction: linkedInAction, message, subject }),
+    [type, linkedInAction, message, subject]
+  );
+  const dryRunLeads = useMemo(
+    () => (dryRunOpen ? selectedLeads : []),
+    [dryRunOpen, selectedLeads]
+  );
+
   // Filter accounts by campaign type
   const channelAccounts = useMemo(() => {
     const channelMap: Record<string, string> = {
@@ -141,27 +264,81 @@ export default function Campaigns() {
     );
   }, [accounts, type]);
 
-  // Check if account is required (WhatsApp and LinkedIn need an account)
-  const requiresAccount = type === 'whatsapp' || type === 'linkedin';
+  // Other connected accounts the campaign can rotate through
+  const rotationAccounts = useMemo(
+    () => channelAccounts.filter(acc => acc.id !== selectedAccountId),
+    [channelAccounts, selectedAccountId]
+  );
 
-  // Filter leads based on campaign type - for LinkedIn, show all leads but mark invalid ones
-  const validLeads = leads.filter(lead => {
-    if (type === 'email') return !!lead.email;
-    if (type === 'whatsapp') return !!lead.mobile_number;
-    if (type === 'linkedin') return true; // Show all leads for LinkedIn (with validation badges)
-    return false;
-  });
+  function togglePoolAccount(accountId: string, checked: boolean) {
+    const next = new Set(poolAccountIds);
+    if (checked) next.add(accountId);
+    else next.delete(accountId);
+    setPoolAccountIds(next);
+  }
+
+  // Every channel sends through a connected account (email uses an SMTP mailbox)
+  const requiresAccount = type === 'whatsapp' || type === 'linkedin' || type === 'email';
 
-  // Helper to check if a lead has the required contact info for the campaign type
-  const isLeadValidForType = (lead: Lead) => {
-    if (type === 'email') return !!lead.email;
-    if (type === 'whatsapp') return !!lead.mobile_number;
-    if (type === 'linkedin') return !!lead.linkedin_url;
-    return false;
-  };
+  // Every text that gets rendered per lead (message, subject, variants, follow-ups)
+  const campaignTemplates = useMemo(() => [
+    message,
+    type === 'email' ? subject : '',
+    ...variants.flatMap(v => [v.message, type === 'email' ? v.subject : '']),
+    ...followUpSteps.map(step => step.message),
+  ], [message, subject, type, variants, followUpSteps]);
 
-  // Count of selectable leads (for LinkedIn, only those with linkedin_url)
-  const selectableLeadsCount = validLeads.filter(isLeadValidForType).length;
+  const templateErrors = useMemo(
+    () => [...new Set(campaignTemplates.flatMap(getTemplateErrors))],
+    [campaignTemplates]
+  );
+
+  // Selected leads whose messages would render with empty variables
+  const templateIssues = useMemo(
+    () => findLeadsWithMissingVariables(campaignTemplates, selectedLeads),
+    [campaignTemplates, selectedLeads]
+  );
+
+  // Daily limit the campaign will send at: summed over the rotation pool
+  // (accounts may override the workspace limit, except for invites)
+  const projectionDailyLimit = useMemo(() => {
+    const baseLimit = type === 'linkedin'
+      ? (linkedInAction === 'invite' ? settings.linkedin_daily_invite_limit : settings.linkedin_daily_message_limit)
+      : settings.daily_message_limit;
+    const poolIds = [selectedAccountId, ...[...poolAccountIds].filter(id => id !== selectedAccountId)].filter(Boolean);
+    if (poolIds.length === 0) return baseLimit;
+    return poolIds.reduce((sum, accountId) => {
+      const account = accounts.find(acc => acc.id === accountId);
+      const isInvite = type === 'linkedin' && linkedInAction === 'invite';
+      return sum + ((!isInvite && account?.daily_message_limit) || baseLimit);
+    }, 0);
+  }, [type, linkedInAction, settings, accounts, selectedAccountId, poolAccountIds]);
+
+  // Last sending day for the selected leads (limit + window + holidays)
+  const projectedCompletion = useMemo(() => {
+    if (selectedLeadIds.size === 0) return null;
+    let from = new Date();
+    if (scheduleEnabled && scheduleDate) {
+      const [hours, minutes] = scheduleTime.split(':').map(Number);
+      from = setMinutes(setHours(scheduleDate, hours), minutes);
+    }
+    return projectCampaignCompletion({
+      window: sendingWindow,
+      leadsCount: selectedLeadIds.size,
+      dailyLimit: projectionDailyLimit,
+      timezone: workspaceTimezone,
+      holidays: holidayDates,
+      from,
+    });
+  }, [selectedLeadIds, sendingWindow, projectionDailyLimit, workspaceTimezone, holidayDates, scheduleEnabled, scheduleDate, scheduleTime]);
+
+  function deselectLeadsWithMissingVariables() {
+    const next = new Set(selectedLeadIds);
+    for (const issue of templateIssues) {
+      if (issue.lead.id) next.delete(issue.lead.id);
+    }
+    setSelectedLeadIds(next);
+  }
 
   function resetForm() {
     setName('');
@@ -169,12 +346,24 @@ export default function Campaigns() {
     setMessage('');
     setSubject('');
     setSelectedAccountId('');
+    setPoolAccountIds(new Set());
     setSelectedLeadIds(new Set());
+    setLeadSearch('');
     setShowPreview(false);
     setScheduleEnabled(false);
     setScheduleDate(undefined);
     setScheduleTime('09:00');
     setLinkedInAction('invite');
+    setFollowUpSteps([]);
+    setVariants([]);
+    setVariantPromoteAfter(null);
+    setSendingWindow(null);
+    setAudience(null);
+    setReplyStopScope('campaign');
+    setNotifyOnReply(false);
+    setAttachments([]);
+    setUsedSnippetIds(new Set());
+    setTemplateId(null);
   }
 
   function insertVariable(variable: string) {
@@ -196,20 +385,38 @@ export default function Campaigns() {
     }, 0);
   }
 
+  function insertSnippet(snippet: { id: string; body: string }) {
+    insertVariable(snippet.body);
+    setUsedSnippetIds(prev => new Set(prev).add(snippet.id));
+  }
+
   // Reset account and linkedin action when type changes
   function handleTypeChange(newType: 'email' | 'whatsapp' | 'linkedin') {
     setType(newType);
     setSelectedAccountId('');
+    setPoolAccountIds(new Set());
+    setFollowUpSteps([]);
     if (newType !== 'linkedin') {
       setLinkedInAction('dm');
     }
   }
 
   async function handleCreateCampaign() {
-    if (!currentWorkspace || !name || selectedLeadIds.size === 0) {
+    if (!currentWorkspace || !name || (selectedLeadIds.size === 0 && !audience)) {
       toast({
         title: 'Campos obrigatórios',
-        description: 'Preencha todos os campos e selecione pelo menos 1 lead.',
+        description: 'Preencha todos os campos e selecione pelo menos 1 lead ou uma audiência dinâmica.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Validate dynamic audience (list or tags)
+    const audienceError = validateAudience(audience);
+    if (audienceError) {
+      toast({
+        title: 'Audiência inválida',
+        description: audienceError,
         variant: 'destructive',
       });
       return;
@@ -235,7 +442,78 @@ export default function Campaigns() {
       return;
     }
 
-    // Validate account selection for WhatsApp/LinkedIn
+    if (selectedLeadsLoading) {
+      toast({
+        title: 'Carregando leads',
+        description: 'Aguarde o carregamento dos leads selecionados e tente novamente.',
+      });
+      return;
+    }
+
+    // Validate template syntax and variables that would render empty
+    if (templateErrors.length > 0) {
+      toast({
+        title: 'Template inválido',
+        description: templateErrors[0],
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (templateIssues.length > 0) {
+      toast({
+        title: 'Variáveis vazias',
+        description: `${templateIssues.length} lead(s) ficariam com variáveis vazias. Use um valor padrão ({{variavel|padrão}}) ou remova esses leads da seleção.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Validate follow-up steps
+    const stepsError = validateFollowUpSteps(type, linkedInAction, followUpSteps);
+    if (stepsError) {
+      toast({
+        title: 'Sequência inválida',
+        description: stepsError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Validate A/B variants
+    const variantsError = validateVariants(variants, isInviteAction, variantPromoteAfter);
+    if (variantsError) {
+      toast({
+        title: 'Variantes inválidas',
+        description: variantsError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Validate sending window
+    const windowError = validateSendingWindow(sendingWindow);
+    if (windowError) {
+      toast({
+        title: 'Janela de envio inválida',
+        description: windowError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Validate attachments for the channel (type, size, count)
+    const attachmentsError = validateAttachments(type, type === 'linkedin' ? linkedInAction : null, attachments);
+    if (attachmentsError) {
+      toast({
+        title: 'Anexos inválidos',
+        description: attachmentsError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Validate account selection
     if (requiresAccount && !selectedAccountId) {
       toast({
         title: 'Conta obrigatória',
@@ -247,8 +525,6 @@ export default function Campaigns() {
 
     setCreating(true);
     try {
-      const selectedLeadsData = leads.filter(l => selectedLeadIds.has(l.id));
-      
       // Build schedule datetime if enabled
       let scheduleISO: string | undefined;
       if (scheduleEnabled && scheduleDate) {
@@ -256,6 +532,9 @@ export default function Campaigns() {
         const scheduleDatetime = setMinutes(setHours(scheduleDate, hours), minutes);
         scheduleISO = scheduleDatetime.toISOString();
       }
+
+      // Files go to Storage once; the send loops reuse them for every lead
+      const attachmentInputs = attachments.length > 0 ? await uploadAttachments(attachments) : [];
       
       const { data, error } = await supabase.functions.invoke('create-campaign', {
         body: {
@@ -265,9 +544,21 @@ export default function Campaigns() {
           message,
           subject: type === 'email' ? subject : undefined,
           accountId: selectedAccountId || undefined,
+          accountIds: selectedAccountId && poolAccountIds.size > 0
+            ? [selectedAccountId, ...[...poolAccountIds].filter(id => id !== selectedAccountId)]
+            : undefined,
           schedule: scheduleISO,
           linkedinAction: type === 'linkedin' ? linkedInAction : undefined,
-          leads: selectedLeadsData.map(l => ({
+          steps: followUpSteps.length > 0 ? followUpSteps : undefined,
+          variants: variants.length > 0 ? variants : undefined,
+          variantPromoteAfter: variants.length > 0 ? variantPromoteAfter ?? undefined : undefined,
+          sendingWindow: sendingWindow ?? undefined,
+          replyStopScope,
+          notifyOnReply,
+          attachments: attachmentInputs.length > 0 ? attachmentInputs : undefined,
+          templateId: templateId ?? undefined,
+          audience: audience ?? undefined,
+          leads: selectedLeads.map(l => ({
             id: l.id,
             email: l.email,
             full_name: l.full_name,
@@ -283,11 +574,25 @@ export default function Campaigns() {
 
       if (error) throw error;
 
+      if (data?.campaign?.id && usedSnippetIds.size > 0) {
+        recordSnippetUsage({
+          snippetIds: [...usedSnippetIds],
+          context: 'campaign',
+          campaignId: data.campaign.id,
+        }).catch(() => undefined);
+      }
+
+      // Leads on the do-not-contact list are linked as skipped, never contacted
+      const suppressed = data?.suppressedCount ?? 0;
+      const suppressedNote = suppressed > 0 ? ` ${suppressed} lead(s) da lista de não contatar foram ignorados.` : '';
+
       toast({
         title: scheduleISO ? 'Campanha agendada' : 'Campanha criada',
-        description: scheduleISO 
+        description: (scheduleISO 
           ? `Campanha "${name}" agendada para ${format(new Date(scheduleISO), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}.`
-          : `Campanha "${name}" criada com ${selectedLeadIds.size} leads.`,
+          : `Campanha "${name}" criada com ${data?.linkedLeadsCount ?? selectedLeadIds.size} leads.`)
+          + (audience?.autoEnroll !== false && audience ? ' Novos leads da audiência entram automaticamente.' : '')
+          + suppressedNote,
       });
 
       refetchCampaigns();
@@ -329,10 +634,13 @@ export default function Campaigns() {
       if (deferred > 0) {
         description += `, ${deferred} agendadas`;
       }
+      if (data?.suppressedCount > 0) {
+        description += `, ${data.suppressedCount} puladas (lista de não contatar)`;
+      }
 
       const finalStatus = data?.finalStatus ?? data?.status;
       toast({
-        title: finalStatus === 'queued' ? 'Campanha na fila' : 'Campanha enviada',
+        title: finalStatus === 'paused' ? 'Campanha pausada' : finalStatus === 'queued' ? 'Campanha na fila' : 'Campanha enviada',
         description,
       });
 
@@ -407,17 +715,161 @@ export default function Campaigns() {
     }
   }
 
-  function handleDuplicateCampaign(campaign: Campaign) {
+  async function handlePauseCampaign(campaignId: string) {
+    setControlCampaignId(campaignId);
+    try {
+      await pauseCampaign(campaignId);
+      toast({
+        title: 'Campanha pausada',
+        description: 'O envio para após o lead atual. Retome quando quiser continuar.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao pausar',
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: 'destructive',
+      });
+    } finally {
+      setControlCampaignId(null);
+    }
+  }
+
+  async function handleResumeCampaign(campaignId: string) {
+    setControlCampaignId(campaignId);
+    try {
+      const result = await resumeCampaign(campaignId);
+      toast({
+        title: 'Campanha retomada',
+        description: result.pendingCount > 0
+          ? `${result.sentCount} mensagens enviadas agora; a fila dos ${result.pendingCount} leads pendentes foi recalculada a partir de hoje.`
+          : 'Não há leads pendentes; os follow-ups seguem a agenda.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Erro ao retomar',
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: 'destructive',
+      });
+    } finally {
+      setControlCampaignId(null);
+      refetchCampaigns();
+    }
+  }
+
+  async function handleDuplicateCampaign(campaign: Campaign) {
     setName(`${campaign.name} (cópia)`);
     setType(campaign.type as 'email' | 'whatsapp' | 'linkedin');
     setMessage(campaign.message);
     setSubject(campaign.subject || '');
     setSelectedAccountId(campaign.account_id || '');
+    // Copy the rotation pool (active accounts other than the primary one)
+    setPoolAccountIds(new Set(
+      (accountsByCampaign[campaign.id] || [])
+        .filter(pa => pa.is_active && pa.account_id !== campaign.account_id)
+        .map(pa => pa.account_id)
+    ));
     setSelectedLeadIds(new Set());
+    // Same time of day; the date is picked again for the new run
     setScheduleEnabled(false);
     setScheduleDate(undefined);
-    setScheduleTime('09:00');
+    setScheduleTime(campaign.schedule ? format(new Date(campaign.schedule), 'HH:mm') : '09:00');
     setLinkedInAction(campaign.linkedin_action || 'dm');
+    setFollowUpSteps([]);
+    setVariants([]);
+    setVariantPromoteAfter(campaign.variant_promote_after ?? null);
+    setSendingWindow(sendingWindowFromCampaign(campaign));
+    setAudience(audienceFromCampaign(campaign));
+    setReplyStopScope(campaign.reply_stop_scope || 'campaign');
+    setNotifyOnReply(campaign.notify_on_reply ?? false);
+    setAttachments([]);
+    setUsedSnippetIds(new Set());
+    // A copy of a campaign created from a template still counts for the template
+    setTemplateId(campaign.template_id ?? null);
+    setDialogOpen(true);
+
+    // Copy follow-up steps (step 1 is the campaign message itself)
+    const { data: steps } = await supabase
+      .from('campaign_steps')
+      .select('step_order, action, message, delay_days, condition')
+      .eq('campaign_id', campaign.id)
+      .gt('step_order', 1)
+      .order('step_order', { ascending: true });
+    if (steps && steps.length > 0) {
+      setFollowUpSteps(steps.map(step => ({
+        action: step.action as CampaignStepAction,
+        message: step.message,
+        delayDays: step.delay_days,
+        condition: step.condition as CampaignStepCondition,
+      })));
+    }
+
+    // Copy A/B variants (A is the campaign message itself)
+    const { data: campaignVariants } = await supabase
+      .from('campaign_variants')
+      .select('label, message, subject')
+      .eq('campaign_id', campaign.id)
+      .neq('label', 'A')
+      .order('label', { ascending: true });
+    if (campaignVariants && campaignVariants.length > 0) {
+      setVariants(campaignVariants.map(variant => ({
+        message: variant.message,
+        subject: variant.subject || '',
+      })));
+    }
+
+    // Reuse the stored attachments (same Storage objects, no new upload)
+    const { data: campaignAttachments } = await supabase
+      .from('campaign_attachments')
+      .select('id, storage_path, file_name, mime_type, size_bytes')
+      .eq('campaign_id', campaign.id)
+      .order('position', { ascending: true });
+    if (campaignAttachments && campaignAttachments.length > 0) {
+      setAttachments(campaignAttachments.map(attachment => ({
+        key: attachment.id,
+        fileName: attachment.file_name,
+        mimeType: attachment.mime_type,
+        size: attachment.size_bytes,
+        path: attachment.storage_path,
+      })));
+    }
+  }
+
+  function handleUseTemplate(template: CampaignTemplateWithStats) {
+    // Accounts disconnected since the template was saved are left out
+    const connectedIds = new Set(accounts.filter(acc => acc.channel === template.type && acc.status === 'connected').map(acc => acc.id));
+    const accountId = template.account_id && connectedIds.has(template.account_id) ? template.account_id : '';
+
+    setName(template.name);
+    setType(template.type);
+    setMessage(template.message);
+    setSubject(template.subject || '');
+    setSelectedAccountId(accountId);
+    setPoolAccountIds(new Set(accountId ? template.pool_account_ids.filter(id => connectedIds.has(id)) : []));
+    setSelectedLeadIds(new Set());
+    setLeadSearch('');
+    setShowPreview(false);
+    setScheduleEnabled(false);
+    setScheduleDate(undefined);
+    setScheduleTime('09:00');
+    setLinkedInAction(template.linkedin_action || 'dm');
+    setFollowUpSteps(template.steps);
+    setVariants(template.variants);
+    setVariantPromoteAfter(template.variants.length > 0 ? template.variant_promote_after : null);
+    setSendingWindow(sendingWindowFromCampaign(template));
+    setAudience(null);
+    setReplyStopScope(template.reply_stop_scope);
+    setNotifyOnReply(template.notify_on_reply);
+    // Reuse the stored attachments (same Storage objects, no new upload)
+    setAttachments(template.attachments.map((attachment, index) => ({
+      key: `${template.id}-${index}`,
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      path: attachment.path,
+    })));
+    setUsedSnippetIds(new Set());
+    setTemplateId(template.id);
+    setTemplatesOpen(false);
     setDialogOpen(true);
   }
 
@@ -425,6 +877,28 @@ export default function Campaigns() {
     if (!editingCampaign) return;
     
     try {
+      // Keep step 1 of the sequence (if any) in sync with the campaign message
+      if (updates.message) {
+        await supabase
+          .from('campaign_steps')
+          .update({ message: updates.message })
+          .eq('campaign_id', editingCampaign.id)
+          .eq('step_order', 1);
+      }
+      // Same for the A/B variant the campaign message mirrors (A, or the promoted winner)
+      if (updates.message || updates.subject !== undefined) {
+        const variantQuery = supabase
+          .from('campaign_variants')
+          .update({
+            ...(updates.message && { message: updates.message }),
+            ...(updates.subject !== undefined && { subject: updates.subject }),
+          })
+          .eq('campaign_id', editingCampaign.id);
+        await (editingCampaign.winner_variant_id
+          ? variantQuery.eq('id', editingCampaign.winner_variant_id)
+          : variantQuery.eq('label', 'A'));
+      }
+      // Campaign last: a new message version is what running send loops pick up
       await updateCampaign({
         id: editingCampaign.id,
         ...(updates.name && { name: updates.name }),
@@ -434,7 +908,9 @@ export default function Campaigns() {
       });
       toast({
         title: 'Campanha atualizada',
-        description: 'As alterações foram salvas.',
+        description: editingCampaign.status === 'scheduled'
+          ? 'As alterações foram salvas.'
+          : 'A nova mensagem vale para os leads que ainda não a receberam.',
       });
     } catch (error: any) {
       toast({
@@ -456,25 +932,47 @@ export default function Campaigns() {
     setSelectedLeadIds(next);
   }
 
-  function toggleSelectAllLeads() {
-    const selectableLeads = validLeads.filter(isLeadValidForType);
-    if (selectedLeadIds.size === selectableLeads.length) {
+  // Selects every lead matching the picker, not only the loaded pages (up to MAX_SELECT_ALL_LEADS)
+  async function toggleSelectAllLeads() {
+    if (selectedLeadIds.size > 0 && selectedLeadIds.size >= Math.min(selectableLeadsCount, MAX_SELECT_ALL_LEADS)) {
       setSelectedLeadIds(new Set());
-    } else {
-      setSelectedLeadIds(new Set(selectableLeads.map(l => l.id)));
+      return;
+    }
+    setSelectingAllLeads(true);
+    try {
+      const ids = await fetchMatchingLeadIds();
+      setSelectedLeadIds(new Set(ids));
+      if (selectableLeadsCount > ids.length) {
+        toast({
+          title: 'Seleção limitada',
+          description: `Foram selecionados os ${ids.length} leads mais recentes de ${selectableLeadsCount}. Para os demais, use uma audiência dinâmica ou crie outra campanha.`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Erro ao selecionar leads',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSelectingAllLeads(false);
     }
   }
 
   return (
     <AppLayout>
       <div className="space-y-6">
-        <div className="flex items-center justify-between">
-          <div>
+        <div className="flex items-center gap-2">
+          <div className="mr-auto">
             <h1 className="text-3xl font-bold">Campanhas</h1>
             <p className="text-muted-foreground">
               Crie e gerencie suas campanhas de outreach
             </p>
           </div>
+          <Button variant="outline" onClick={() => setTemplatesOpen(true)}>
+            <LayoutTemplate className="mr-2 h-4 w-4" />
+            Templates
+          </Button>
           <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
             <DialogTrigger asChild>
               <Button>
@@ -486,7 +984,9 @@ export default function Campaigns() {
               <DialogHeader>
                 <DialogTitle>Criar Nova Campanha</DialogTitle>
                 <DialogDescription>
-                  Configure sua campanha de outreach
+                  {templateId && templateNames.has(templateId)
+                    ? `A partir do template "${templateNames.get(templateId)}". Selecione os leads e ajuste o que precisar.`
+                    : 'Configure sua campanha de outreach'}
                 </DialogDescription>
               </DialogHeader>
               
@@ -531,7 +1031,7 @@ export default function Campaigns() {
                   </div>
                 </div>
 
-                {/* Account selection for WhatsApp/LinkedIn */}
+                {/* Account selection (WhatsApp/LinkedIn account or email mailbox) */}
                 {requiresAccount && (
                   <div className="space-y-2">
                     <Label htmlFor="account">
@@ -542,7 +1042,7 @@ export default function Campaigns() {
                         <AlertCircle className="h-4 w-4 text-amber-500" />
                         <span>
                           Nenhuma conta de {typeLabels[type]} conectada. 
-                          Vá em Configurações {'>'} Integrações para sincronizar contas.
+                          Vá em Configurações {'>'} Integrações para {type === 'email' ? 'conectar uma caixa de email' : 'sincronizar contas'}.
                         </span>
                       </div>
                     ) : (
@@ -556,6 +1056,8 @@ export default function Campaigns() {
                               <div className="flex items-center gap-2">
                                 {type === 'whatsapp' ? (
                                   <MessageCircle className="h-4 w-4" />
+                                ) : type === 'email' ? (
+                                  <Mail className="h-4 w-4" />
                                 ) : (
                                   <Linkedin className="h-4 w-4" />
                                 )}
@@ -569,6 +1071,34 @@ export default function Campaigns() {
                   </div>
                 )}
 
+                {/* Account rotation: leads are spread over several accounts, each with its own daily limit */}
+                {requiresAccount && selectedAccountId && rotationAccounts.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="flex items-center gap-2">
+                      <Users className="h-4 w-4" />
+                      Rotação de contas
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      Os leads são distribuídos entre a conta principal e as contas marcadas, respeitando o limite diário de cada uma.
+                      Follow-ups saem sempre da mesma conta. Contas desconectadas saem da rotação automaticamente.
+                    </p>
+                    <div className="space-y-2 rounded-lg border p-3">
+                      {rotationAccounts.map(account => (
+                        <div key={account.id} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`pool-${account.id}`}
+                            checked={poolAccountIds.has(account.id)}
+                            onCheckedChange={(checked) => togglePoolAccount(account.id, checked === true)}
+                          />
+                          <Label htmlFor={`pool-${account.id}`} className="text-sm font-normal cursor-pointer">
+                            {account.name || account.account_id.slice(0, 12)}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* LinkedIn Action Selector */}
                 {type === 'linkedin' && (
                   <div className="space-y-2">
@@ -643,8 +1173,8 @@ export default function Campaigns() {
                           </Button>
                         </PopoverTrigger>
                         <PopoverContent className="w-72 p-2" align="end">
-                          <div className="grid gap-1">
-                            {MESSAGE_VARIABLES.map((variable) => (
+                          <div className="grid gap-1 max-h-80 overflow-y-auto">
+                            {messageVariables.map((variable) => (
                               <button
                                 key={variable.variable}
                                 onClick={() => insertVariable(variable.variable)}
@@ -659,6 +1189,7 @@ export default function Campaigns() {
                           </div>
                         </PopoverContent>
                       </Popover>
+                      <SnippetPicker channel={type} onSelect={insertSnippet} />
                       <Button
                         variant="ghost"
                         size="sm"
@@ -672,7 +1203,10 @@ export default function Campaigns() {
                   </div>
                   
                   {showPreview ? (
-                    <div className="p-4 border rounded-lg bg-muted/30 min-h-[130px]">
+                    <div className="p-4 border rounded-lg bg-muted/30 min-h-[130px] space-y-2">
+                      {attachments.map(attachment => (
+                        <CampaignAttachmentPreview key={attachment.key} attachment={attachment} />
+                      ))}
                       <p className="text-sm whitespace-pre-wrap">
                         {getMessagePreview(message)}
                       </p>
@@ -684,7 +1218,7 @@ export default function Campaigns() {
                         id="message"
                         placeholder={isInviteAction 
                           ? "Nota personalizada para o convite (opcional, máx 300 caracteres)" 
-                          : "Escreva sua mensagem... Use variáveis como {{primeiro_nome}} para personalizar"
+                          : "Escreva sua mensagem... Use {{primeiro_nome|pessoal}}, {{#if empresa}}…{{/if}} e {Oi|Olá} para personalizar"
                         }
                         rows={isInviteAction ? 3 : 5}
                         value={message}
@@ -723,6 +1257,71 @@ export default function Campaigns() {
                   </div>
                 </div>
 
+                {/* Attachments (WhatsApp media and voice notes, LinkedIn DM documents) */}
+                <CampaignAttachmentsEditor
+                  type={type}
+                  linkedinAction={type === 'linkedin' ? linkedInAction : null}
+                  attachments={attachments}
+                  onChange={setAttachments}
+                />
+
+                {/* A/B Variants */}
+                <VariantsEditor
+                  type={type}
+                  isInviteAction={isInviteAction}
+                  variants={variants}
+                  onChange={setVariants}
+                  promoteAfter={variantPromoteAfter}
+                  onPromoteAfterChange={setVariantPromoteAfter}
+                />
+
+                {/* Follow-up Sequence */}
+                {type !== 'email' && (
+                  <SequenceStepsEditor
+                    type={type}
+                    firstAction={linkedInAction}
+                    steps={followUpSteps}
+                    onChange={setFollowUpSteps}
+                  />
+                )}
+
+                {/* Reply handling: the lead is flagged "em conversa" and outreach stops */}
+                <div className="space-y-3 border-t pt-4">
+                  <Label className="flex items-center gap-2">
+                    <MessagesSquare className="h-4 w-4" />
+                    Quando o lead responder
+                  </Label>
+                  <Select value={replyStopScope} onValueChange={(v: ReplyStopScope) => setReplyStopScope(v)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="campaign">Parar apenas esta campanha</SelectItem>
+                      <SelectItem value="workspace">Parar todo contato com o lead (todas as campanhas)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center gap-3">
+                    <Checkbox
+                      id="notify-on-reply"
+                      checked={notifyOnReply}
+                      onCheckedChange={(checked) => setNotifyOnReply(checked === true)}
+                    />
+                    <Label htmlFor="notify-on-reply" className="text-sm font-normal cursor-pointer">
+                      Notificar-me quando um lead responder
+                    </Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    O lead é marcado como "Em conversa" e as próximas etapas deixam de ser enviadas.
+                  </p>
+                </div>
+
+                {/* Sending Window */}
+                <SendingWindowEditor
+                  value={sendingWindow}
+                  onChange={setSendingWindow}
+                  workspaceTimezone={workspaceTimezone}
+                />
+
                 {/* Schedule Section */}
                 <div className="space-y-3 border-t pt-4">
                   <div className="flex items-center gap-3">
@@ -780,92 +1379,150 @@ export default function Campaigns() {
                   )}
                 </div>
 
+                <CampaignAudienceEditor
+                  value={audience}
+                  onChange={setAudience}
+                  channel={type}
+                />
+
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
-                    <Label>Selecionar Leads ({selectedLeadIds.size} de {selectableLeadsCount})</Label>
+                    <Label>
+                      {audience ? 'Leads adicionais (opcional)' : 'Selecionar Leads'} ({selectedLeadIds.size} de {selectableLeadsCount})
+                    </Label>
                     {selectableLeadsCount > 0 && (
-                      <Button variant="ghost" size="sm" onClick={toggleSelectAllLeads}>
-                        {selectedLeadIds.size === selectableLeadsCount ? 'Desmarcar todos' : 'Selecionar todos'}
+                      <Button variant="ghost" size="sm" onClick={toggleSelectAllLeads} disabled={selectingAllLeads}>
+                        {selectingAllLeads && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                        {selectedLeadIds.size > 0 && selectedLeadIds.size >= Math.min(selectableLeadsCount, MAX_SELECT_ALL_LEADS)
+                          ? 'Desmarcar todos'
+                          : selectableLeadsCount > MAX_SELECT_ALL_LEADS
+                            ? `Selecionar os ${MAX_SELECT_ALL_LEADS} mais recentes`
+                            : 'Selecionar todos'}
                       </Button>
                     )}
                   </div>
-                  
-                  {validLeads.length === 0 ? (
+
+                  <Input
+                    value={leadSearch}
+                    onChange={(e) => setLeadSearch(e.target.value)}
+                    placeholder="Buscar por nome, empresa ou contato"
+                    className="h-8"
+                  />
+
+                  {pickerLoading ? (
+                    <div className="flex justify-center py-8 border rounded-lg">
+                      <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : pickerLeads.length === 0 ? (
                     <div className="text-center py-8 text-muted-foreground border rounded-lg">
-                      <p>Nenhum lead válido para {typeLabels[type]}.</p>
-                      <p className="text-sm">Importe ou busque leads primeiro.</p>
+                      {leadSearch.trim() ? (
+                        <p>Nenhum lead encontrado.</p>
+                      ) : (
+                        <>
+                          <p>Nenhum lead válido para {typeLabels[type]}.</p>
+                          <p className="text-sm">Importe ou busque leads primeiro.</p>
+                        </>
+                      )}
                     </div>
                   ) : (
-                    <TooltipProvider>
-                      <div className="border rounded-lg max-h-48 overflow-y-auto">
-                        {validLeads.map(lead => {
-                          const isValid = isLeadValidForType(lead);
-                          const leadContent = (
-                            <div className="flex-1 min-w-0">
-                              <div className="flex items-center gap-2">
-                                <p className={`font-medium truncate ${!isValid ? 'text-muted-foreground' : ''}`}>
-                                  {lead.full_name || 'Sem nome'}
-                                </p>
-                                {type === 'linkedin' && !lead.linkedin_url && (
-                                  <Badge variant="outline" className="text-amber-600 border-amber-500/50 bg-amber-500/10 text-xs shrink-0">
-                                    <LinkIcon className="h-3 w-3 mr-1" />
-                                    Sem LinkedIn URL
-                                  </Badge>
-                                )}
-                              </div>
-                              <p className="text-sm text-muted-foreground truncate">
-                                {type === 'email' 
-                                  ? lead.email 
-                                  : type === 'whatsapp' 
-                                    ? lead.phone 
-                                    : lead.linkedin_url || 'URL não disponível'}
-                              </p>
-                            </div>
-                          );
-
-                          if (!isValid && type === 'linkedin') {
-                            return (
-                              <Tooltip key={lead.id}>
-                                <TooltipTrigger asChild>
-                                  <div className="flex items-center gap-3 p-3 border-b last:border-b-0 opacity-60 cursor-not-allowed">
-                                    <Checkbox
-                                      checked={false}
-                                      disabled
-                                      className="cursor-not-allowed"
-                                    />
-                                    {leadContent}
-                                  </div>
-                                </TooltipTrigger>
-                                <TooltipContent>
-                                  <p>Para LinkedIn é obrigatório ter linkedin_url</p>
-                                </TooltipContent>
-                              </Tooltip>
-                            );
-                          }
-
-                          return (
-                            <label
-                              key={lead.id}
-                              className="flex items-center gap-3 p-3 hover:bg-muted cursor-pointer border-b last:border-b-0"
-                            >
-                              <Checkbox
-                                checked={selectedLeadIds.has(lead.id)}
-                                onCheckedChange={() => toggleLeadSelection(lead.id)}
-                              />
-                              {leadContent}
-                            </label>
-                          );
-                        })}
-                      </div>
-                    </TooltipProvider>
+                    <div className="border rounded-lg max-h-48 overflow-y-auto">
+                      {pickerLeads.map(lead => (
+                        <label
+                          key={lead.id}
+                          className="flex items-center gap-3 p-3 hover:bg-muted cursor-pointer border-b last:border-b-0"
+                        >
+                          <Checkbox
+                            checked={selectedLeadIds.has(lead.id)}
+                            onCheckedChange={() => toggleLeadSelection(lead.id)}
+                          />
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate">{lead.full_name || 'Sem nome'}</p>
+                            <p className="text-sm text-muted-foreground truncate">
+                              {type === 'email'
+                                ? lead.email
+                                : type === 'whatsapp'
+                                  ? lead.mobile_number
+                                  : lead.linkedin_url}
+                            </p>
+                          </div>
+                        </label>
+                      ))}
+                      {pickerHasNextPage && (
+                        <div className="p-2 text-center">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => fetchNextPickerPage()}
+                            disabled={isFetchingNextPickerPage}
+                          >
+                            {isFetchingNextPickerPage && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                            Carregar mais
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {type === 'linkedin' && (
+                    <p className="text-xs text-muted-foreground">Para LinkedIn, só leads com a URL do perfil podem ser selecionados.</p>
                   )}
                 </div>
+
+                {projectedCompletion && (
+                  <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <CalendarCheck className="h-3.5 w-3.5" />
+                    Término previsto em {format(new Date(`${projectedCompletion}T12:00:00`), "dd/MM/yyyy (EEE)", { locale: ptBR })}
+                    {' '}· {selectedLeadIds.size} lead(s), até {projectionDailyLimit} por dia
+                    {sendingWindow ? ', respeitando a janela de envio' : ''}
+                  </p>
+                )}
+
+                {(templateErrors.length > 0 || templateIssues.length > 0) && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription className="space-y-2">
+                      {templateErrors.map((templateError) => (
+                        <p key={templateError}>{templateError}</p>
+                      ))}
+                      {templateIssues.length > 0 && (
+                        <>
+                          <p>
+                            {templateIssues.length} lead(s) ficariam com variáveis vazias:{' '}
+                            {[...new Set(templateIssues.flatMap(issue => issue.missing))]
+                              .map(name => `{{${name}}}`)
+                              .join(', ')}
+                          </p>
+                          <p className="text-xs">
+                            {templateIssues.slice(0, 5).map(issue => issue.lead.full_name || 'Sem nome').join(', ')}
+                            {templateIssues.length > 5 && ` e mais ${templateIssues.length - 5}`}
+                          </p>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-7"
+                            onClick={deselectLeadsWithMissingVariables}
+                          >
+                            Remover da seleção
+                          </Button>
+                        </>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
               </div>
 
               <DialogFooter>
                 <Button variant="outline" onClick={() => setDialogOpen(false)}>
                   Cancelar
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setDryRunOpen(true)}
+                  disabled={!message.trim() || selectedLeadIds.size === 0}
+                >
+                  <Eye className="mr-2 h-4 w-4" />
+                  Simular envio
+                </Button>
                 <Button onClick={handleCreateCampaign} disabled={creating}>
                   {creating ? (
                     <>
@@ -929,10 +1586,42 @@ export default function Campaigns() {
                     const TypeIcon = typeIcons[campaign.type] || Mail;
                     const canSend = campaign.status === 'draft' || campaign.status === 'partial' || campaign.status === 'failed';
                     const isSending = sendingCampaignId === campaign.id || campaign.status === 'sending';
+                    const canPause = ['queued', 'sending', 'running', 'partial'].includes(campaign.status);
+                    const canEdit = campaign.status === 'scheduled' || canPause || campaign.status === 'paused';
+                    const isControlling = controlCampaignId === campaign.id;
+                    const stepStats = stepStatsByCampaign[campaign.id] || [];
+                    const variantStats = variantStatsByCampaign[campaign.id] || [];
+                    const winnerVariant = variantStats.find(v => v.is_winner);
+                    const windowSummary = describeSendingWindow(campaign);
+                    const poolAccounts = accountsByCampaign[campaign.id] || [];
+                    const activePoolAccounts = poolAccounts.filter(pa => pa.is_active);
+                    const removedPoolAccounts = poolAccounts.filter(pa => !pa.is_active);
                     
                     return (
                       <TableRow key={campaign.id}>
-                        <TableCell className="font-medium">{campaign.name}</TableCell>
+                        <TableCell className="font-medium">
+                          {campaign.name}
+                          {campaign.template_id && templateNames.has(campaign.template_id) && (
+                            <p className="flex items-center gap-1 text-xs font-normal text-muted-foreground">
+                              <LayoutTemplate className="h-3 w-3" />
+                              {templateNames.get(campaign.template_id)}
+                            </p>
+                          )}
+                          {campaign.audience_type && campaign.audience_type !== 'static' && (
+                            <p
+                              className="flex items-center gap-1 text-xs font-normal text-muted-foreground"
+                              title={campaign.auto_enroll
+                                ? `Novos leads entram automaticamente${campaign.daily_enroll_cap ? ` (até ${campaign.daily_enroll_cap}/dia)` : ''}`
+                                : 'Inclusão automática desativada'}
+                            >
+                              <Users className="h-3 w-3" />
+                              Dinâmica · {campaign.audience_type === 'list' ? 'lista' : 'tags'}
+                            </p>
+                          )}
+                          {windowSummary && (
+                            <p className="text-xs font-normal text-muted-foreground">{windowSummary}</p>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
                             <TypeIcon className="h-4 w-4" />
@@ -944,6 +1633,62 @@ export default function Campaigns() {
                                 {campaign.linkedin_action === 'invite' && 'Invite'}
                               </Badge>
                             )}
+                            {stepStats.length > 1 && (
+                              <Popover>
+                                <PopoverTrigger asChild>
+                                  <Badge variant="secondary" className="text-xs font-normal cursor-pointer gap-1">
+                                    <ListOrdered className="h-3 w-3" />
+                                    {stepStats.length} etapas
+                                  </Badge>
+                                </PopoverTrigger>
+                                <PopoverContent className="w-80" align="start">
+                                  <p className="text-sm font-medium mb-3">Funil por etapa</p>
+                                  <CampaignStepFunnel
+                                    steps={stepStats}
+                                    totalLeads={campaign.leads_count}
+                                    compact
+                                  />
+                                </PopoverContent>
+                              </Popover>
+                            )}
+                            {variantStats.length > 1 && (
+                              <Badge
+                                variant="secondary"
+                                className="text-xs font-normal gap-1"
+                                title={winnerVariant ? `Variante ${winnerVariant.label} promovida` : 'Teste A/B em andamento'}
+                              >
+                                <Split className="h-3 w-3" />
+                                A/B{winnerVariant ? ` · ${winnerVariant.label} venceu` : ` · ${variantStats.length}`}
+                              </Badge>
+                            )}
+                            {poolAccounts.length > 1 && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Badge
+                                    variant={removedPoolAccounts.length > 0 ? 'outline' : 'secondary'}
+                                    className="text-xs font-normal gap-1"
+                                  >
+                                    <Users className="h-3 w-3" />
+                                    {activePoolAccounts.length} contas
+                                    {removedPoolAccounts.length > 0 && (
+                                      <AlertCircle className="h-3 w-3 text-amber-500" />
+                                    )}
+                                  </Badge>
+                                </TooltipTrigger>
+                                <TooltipContent className="max-w-xs">
+                                  <p className="text-xs font-medium">Rotação de contas</p>
+                                  {activePoolAccounts.map(pa => (
+                                    <p key={pa.id} className="text-xs">{pa.account?.name || pa.account?.account_id.slice(0, 12)}</p>
+                                  ))}
+                                  {removedPoolAccounts.map(pa => (
+                                    <p key={pa.id} className="text-xs text-muted-foreground line-through">
+                                      {pa.account?.name || pa.account?.account_id.slice(0, 12)}
+                                      {pa.removed_reason === 'disconnected' ? ' (desconectada)' : ' (removida)'}
+                                    </p>
+                                  ))}
+                                </TooltipContent>
+                              </Tooltip>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>
@@ -959,9 +1704,9 @@ export default function Campaigns() {
                                 {format(new Date(campaign.schedule), "dd/MM 'às' HH:mm", { locale: ptBR })}
                               </span>
                             )}
-                            {campaign.status === 'queued' && (campaign as any).actual_leads_count > 0 && (
+                            {queueEndByCampaign[campaign.id] && (
                               <span className="text-xs text-muted-foreground">
-                                {Math.ceil(((campaign as any).actual_leads_count - (campaign as any).actual_sent_count) / 50)} dias restantes
+                                término previsto {format(new Date(`${queueEndByCampaign[campaign.id]}T12:00:00`), 'dd/MM', { locale: ptBR })}
                               </span>
                             )}
                           </div>
@@ -984,7 +1729,7 @@ export default function Campaigns() {
                               size="icon"
                               variant="ghost"
                               className="h-8 w-8"
-                              onClick={() => setViewLeadsCampaign({ id: campaign.id, name: campaign.name })}
+                              onClick={() => setViewLeadsCampaign(campaign)}
                               title="Ver leads"
                             >
                               <Users className="h-4 w-4" />
@@ -1001,8 +1746,8 @@ export default function Campaigns() {
                                 <BarChart3 className="h-4 w-4" />
                               </Button>
                             )}
-                            {/* Edit button for scheduled campaigns */}
-                            {campaign.status === 'scheduled' && (
+                            {/* Edit button for scheduled and running campaigns (message of unsent leads) */}
+                            {canEdit && (
                               <Button
                                 size="icon"
                                 variant="ghost"
@@ -1025,6 +1770,31 @@ export default function Campaigns() {
                                 <XCircle className="h-4 w-4" />
                               </Button>
                             )}
+                            {/* Pause / resume running campaigns */}
+                            {canPause && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8 text-amber-500 hover:text-amber-600"
+                                onClick={() => handlePauseCampaign(campaign.id)}
+                                disabled={isControlling}
+                                title="Pausar campanha"
+                              >
+                                {isControlling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Pause className="h-4 w-4" />}
+                              </Button>
+                            )}
+                            {campaign.status === 'paused' && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8 text-green-600 hover:text-green-700"
+                                onClick={() => handleResumeCampaign(campaign.id)}
+                                disabled={isControlling}
+                                title="Retomar campanha"
+                              >
+                                {isControlling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                              </Button>
+                            )}
                             {/* Duplicate campaign button */}
                             <Button
                               size="icon"
@@ -1035,6 +1805,15 @@ export default function Campaigns() {
                             >
                               <Copy className="h-4 w-4" />
                             </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-8 w-8"
+                              onClick={() => setTemplateSourceCampaign(campaign)}
+                              title="Salvar como template"
+                            >
+                              <BookmarkPlus className="h-4 w-4" />
+                            </Button>
                             {canSend && (
                               <Button
                                 size="sm"
@@ -1112,9 +1891,31 @@ export default function Campaigns() {
       <CampaignLeadsDialog
         campaignId={viewLeadsCampaign?.id || null}
         campaignName={viewLeadsCampaign?.name || ''}
+        campaignType={viewLeadsCampaign?.type}
+        campaignStatus={viewLeadsCampaign?.status}
         open={!!viewLeadsCampaign}
         onOpenChange={(open) => !open && setViewLeadsCampaign(null)}
       />
+
+      {/* Template gallery and save-as-template */}
+      <CampaignTemplatesDialog
+        open={templatesOpen}
+        onOpenChange={setTemplatesOpen}
+        onUseTemplate={handleUseTemplate}
+      />
+      <SaveCampaignTemplateDialog
+        campaign={templateSourceCampaign}
+        onOpenChange={(open) => !open && setTemplateSourceCampaign(null)}
+      />
+
+      {/* Dry-run Preview Dialog */}
+      <CampaignDryRunDialog
+        campaign={dryRunCampaign}
+        campaignName={name}
+        leads={dryRunLeads}
+        open={dryRunOpen}
+        onOpenChange={setDryRunOpen}
+      />
     </AppLayout>
   );
 }
@@ -1,6 +1,6 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { useCredits } from '@/hooks/useCredits';
-import { useLeads } from '@/hooks/useLeads';
+import { useLeadsCount } from '@/hooks/useLeadsPage';
 import { useCampaigns } from '@/hooks/useCampaigns';
 import { useCampaignPerformance } from '@/hooks/useCampaignPerformance';
 import AppLayout from '@/components/layout/AppLayout';
@@ -13,6 +13,9 @@ import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { ChannelPerformanceCard } from '@/components/dashboard/ChannelPerformanceCard';
 import { CampaignDistributionChart, ChannelComparisonChart, ConversionRatesChart } from '@/components/dashboard/CampaignCharts';
+import { ResponseTimeCard } from '@/components/dashboard/ResponseTimeCard';
+import { LeadPipelineCard } from '@/components/dashboard/LeadPipelineCard';
+import { EMPTY_LEAD_FILTERS } from '@/lib/leadFilters';
 
 function StatCard({ 
   title, 
@@ -67,7 +70,7 @@ const typeLabels: Record<string, string> = {
 export default function Dashboard() {
   const { currentWorkspace } = useAuth();
   const { credits, isLoading: creditsLoading } = useCredits();
-  const { leads, isLoading: leadsLoading } = useLeads();
+  const { count: leadsCount, isLoading: leadsLoading } = useLeadsCount(EMPTY_LEAD_FILTERS);
   const { campaigns, isLoading: campaignsLoading } = useCampaigns();
   const performance = useCampaignPerformance();
 
@@ -102,7 +105,7 @@ export default function Dashboard() {
           />
           <StatCard
             title="Total de Leads"
-            value={leads.length}
+            value={leadsCount}
             icon={TrendingUp}
             loading={leadsLoading}
           />
@@ -148,6 +151,12 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Lead pipeline */}
+        <LeadPipelineCard />
+
+        {/* Team response time */}
+        <ResponseTimeCard />
+
         {/* Recent Campaigns */}
         <Card>
           <CardHeader>
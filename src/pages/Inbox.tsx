@@ -0,0 +1,366 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import AppLayout from '@/components/layout/AppLayout';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Clock, Inbox as InboxIcon, Linkedin, MessageCircle, Search, Send, User, X } from 'lucide-react';
+import { ChatThread } from '@/components/inbox/ChatThread';
+import { useAuth } from '@/contexts/AuthContext';
+import { useInboxChats } from '@/hooks/useInbox';
+import { useWorkspaceMembers } from '@/hooks/useWorkspaceMembers';
+import { useWorkspaceSettings } from '@/hooks/useWorkspaceSettings';
+import { useToast } from '@/hooks/use-toast';
+import { InboxChat } from '@/types';
+import { DEFAULT_RESPONSE_SLA_MINUTES, isChatOverdue, memberName } from '@/lib/conversationSla';
+import { cn } from '@/lib/utils';
+
+type ChannelFilter = 'all' | 'linkedin' | 'whatsapp';
+type OwnerFilter = 'all' | 'mine' | 'unassigned';
+
+// Valor do Select para "sem responsável" (o Select não aceita valor vazio)
+const UNASSIGNED = 'unassigned';
+
+function chatTitle(chat: InboxChat): string {
+  return chat.lead?.full_name || chat.attendee_name || chat.attendee_identifier || 'Contato sem nome';
+}
+
+function ChannelIcon({ channel, className }: { channel: InboxChat['channel']; className?: string }) {
+  return channel === 'linkedin'
+    ? <Linkedin className={cn('h-3.5 w-3.5 text-blue-600', className)} />
+    : <MessageCircle className={cn('h-3.5 w-3.5 text-green-600', className)} />;
+}
+
+export default function Inbox() {
+  const { user } = useAuth();
+  const { chats, isLoading, totalUnread, markChatRead, assignChat, isAssigning } = useInboxChats();
+  const { members } = useWorkspaceMembers();
+  const { settings } = useWorkspaceSettings();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [search, setSearch] = useState('');
+  const [channel, setChannel] = useState<ChannelFilter>('all');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [overdueOnly, setOverdueOnly] = useState(false);
+
+  // Deep links: /inbox?chat=<id> opens a chat, /inbox?lead=<id> shows only the lead's chats,
+  // /inbox?view=mine opens "my conversations"
+  const selectedChatId = searchParams.get('chat');
+  const leadFilter = searchParams.get('lead');
+  const ownerFilter = (searchParams.get('view') as OwnerFilter) || 'all';
+
+  const slaMinutes = settings.response_sla_minutes ?? DEFAULT_RESPONSE_SLA_MINUTES;
+  const membersByUserId = useMemo(() => new Map(members.map(member => [member.user_id, member])), [members]);
+
+  const filteredChats = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return chats.filter(chat => {
+      if (leadFilter && chat.lead_id !== leadFilter) return false;
+      if (channel !== 'all' && chat.channel !== channel) return false;
+      if (unreadOnly && chat.unread_count === 0) return false;
+      if (ownerFilter === 'mine' && chat.assigned_to !== user?.id) return false;
+      if (ownerFilter === 'unassigned' && chat.assigned_to) return false;
+      if (overdueOnly && !isChatOverdue(chat.awaiting_reply_since, slaMinutes)) return false;
+      if (!term) return true;
+      return [chatTitle(chat), chat.lead?.company, chat.campaign?.name, chat.last_message]
+        .some(value => value?.toLowerCase().includes(term));
+    });
+  }, [chats, search, channel, unreadOnly, leadFilter, ownerFilter, overdueOnly, slaMinutes, user?.id]);
+
+  const overdueCount = chats.filter(chat => isChatOverdue(chat.awaiting_reply_since, slaMinutes)).length;
+
+  const selectedChat = chats.find(chat => chat.id === selectedChatId) || null;
+
+  function selectChat(chatId: string) {
+    const next = new URLSearchParams(searchParams);
+    next.set('chat', chatId);
+    setSearchParams(next, { replace: true });
+  }
+
+  function setOwnerFilter(value: OwnerFilter) {
+    const next = new URLSearchParams(searchParams);
+    if (value === 'all') next.delete('view');
+    else next.set('view', value);
+    setSearchParams(next, { replace: true });
+  }
+
+  async function handleAssign(chatId: string, value: string) {
+    try {
+      await assignChat({ chatId, userId: value === UNASSIGNED ? null : value });
+    } catch (error) {
+      toast({
+        title: 'Erro ao atribuir conversa',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  function clearLeadFilter() {
+    const next = new URLSearchParams(searchParams);
+    next.delete('lead');
+    setSearchParams(next, { replace: true });
+  }
+
+  // Opening a chat marks its messages as read for the current user
+  const selectedUnread = selectedChat?.unread_count ?? 0;
+  useEffect(() => {
+    if (selectedChatId && selectedUnread > 0) {
+      markChatRead(selectedChatId).catch(() => undefined);
+    }
+  }, [selectedChatId, selectedUnread, markChatRead]);
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Inbox</h1>
+          <p className="text-muted-foreground">
+            Conversas do LinkedIn e WhatsApp de todas as contas conectadas
+            {totalUnread > 0 ? ` · ${totalUnread} não lida(s)` : ''}
+            {overdueCount > 0 ? ` · ${overdueCount} atrasada(s)` : ''}
+          </p>
+        </div>
+
+        <Card className="grid h-[calc(100vh-14rem)] min-h-[480px] grid-cols-1 md:grid-cols-[340px_1fr] overflow-hidden">
+          {/* Conversation list */}
+          <div className={cn('flex min-h-0 flex-col border-r', selectedChat && 'hidden md:flex')}>
+            <div className="space-y-2 border-b p-3">
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Buscar conversas..."
+                  className="pl-8"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Select value={channel} onValueChange={(v) => setChannel(v as ChannelFilter)}>
+                  <SelectTrigger className="h-8 flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos os canais</SelectItem>
+                    <SelectItem value="linkedin">LinkedIn</SelectItem>
+                    <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  variant={unreadOnly ? 'default' : 'outline'}
+                  className="h-8"
+                  onClick={() => setUnreadOnly(!unreadOnly)}
+                >
+                  Não lidas
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Select value={ownerFilter} onValueChange={(v) => setOwnerFilter(v as OwnerFilter)}>
+                  <SelectTrigger className="h-8 flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas as conversas</SelectItem>
+                    <SelectItem value="mine">Minhas conversas</SelectItem>
+                    <SelectItem value="unassigned">Sem responsável</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  variant={overdueOnly ? 'destructive' : 'outline'}
+                  className="h-8"
+                  onClick={() => setOverdueOnly(!overdueOnly)}
+                >
+                  Atrasadas
+                </Button>
+              </div>
+              {leadFilter && (
+                <Badge variant="secondary" className="gap-1">
+                  Conversas do lead
+                  <button type="button" onClick={clearLeadFilter}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              )}
+            </div>
+
+            <ScrollArea className="flex-1">
+              {isLoading ? (
+                <div className="space-y-2 p-3">
+                  {[...Array(6)].map((_, i) => (
+                    <Skeleton key={i} className="h-14 w-full" />
+                  ))}
+                </div>
+              ) : filteredChats.length === 0 ? (
+                <p className="p-6 text-center text-sm text-muted-foreground">
+                  {chats.length === 0
+                    ? 'Nenhuma conversa ainda. As mensagens recebidas pelas contas conectadas aparecem aqui.'
+                    : 'Nenhuma conversa encontrada.'}
+                </p>
+              ) : (
+                <div className="divide-y">
+                  {filteredChats.map(chat => (
+                    <button
+                      key={chat.id}
+                      type="button"
+                      onClick={() => selectChat(chat.id)}
+                      className={cn(
+                        'flex w-full items-start gap-3 px-3 py-3 text-left transition-colors hover:bg-muted/50',
+                        chat.id === selectedChatId && 'bg-muted'
+                      )}
+                    >
+                      {chat.attendee_picture || chat.lead?.profile_picture_url ? (
+                        <img
+                          src={chat.lead?.profile_picture_url || chat.attendee_picture || ''}
+                          alt={chatTitle(chat)}
+                          className="h-9 w-9 shrink-0 rounded-full object-cover"
+                        />
+                      ) : (
+                        <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-muted">
+                          <User className="h-4 w-4 text-muted-foreground" />
+                        </div>
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className={cn('truncate text-sm', chat.unread_count > 0 ? 'font-semibold' : 'font-medium')}>
+                            {chatTitle(chat)}
+                          </span>
+                          {chat.last_message_at && (
+                            <span className="shrink-0 text-[10px] text-muted-foreground">
+                              {formatDistanceToNow(new Date(chat.last_message_at), { addSuffix: true, locale: ptBR })}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1.5">
+                          <ChannelIcon channel={chat.channel} className="shrink-0" />
+                          <span className="truncate text-xs text-muted-foreground">
+                            {chat.last_message_sender === 'me' ? 'Você: ' : ''}
+                            {chat.last_message || (chat.last_message_type ? 'Anexo' : '')}
+                          </span>
+                          {chat.unread_count > 0 && (
+                            <Badge className="ml-auto h-5 min-w-5 shrink-0 justify-center px-1.5 text-[10px]">
+                              {chat.unread_count}
+                            </Badge>
+                          )}
+                        </div>
+                        {chat.campaign && (
+                          <span className="mt-0.5 flex items-center gap-1 truncate text-[11px] text-muted-foreground">
+                            <Send className="h-3 w-3" />
+                            {chat.campaign.name}
+                          </span>
+                        )}
+                        <div className="mt-0.5 flex items-center gap-2 text-[11px] text-muted-foreground">
+                          {chat.assigned_to && (
+                            <span className="flex items-center gap-1 truncate">
+                              <User className="h-3 w-3" />
+                              {chat.assigned_to === user?.id ? 'Você' : memberName(membersByUserId.get(chat.assigned_to))}
+                            </span>
+                          )}
+                          {chat.awaiting_reply_since && (
+                            <span
+                              className={cn(
+                                'ml-auto flex shrink-0 items-center gap-1',
+                                isChatOverdue(chat.awaiting_reply_since, slaMinutes) && 'font-medium text-destructive'
+                              )}
+                            >
+                              <Clock className="h-3 w-3" />
+                              {formatDistanceToNow(new Date(chat.awaiting_reply_since), { locale: ptBR })}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          {/* Selected conversation */}
+          <div className={cn('flex min-h-0 flex-col', !selectedChat && 'hidden md:flex')}>
+            {selectedChat ? (
+              <>
+                <div className="flex items-center justify-between gap-3 border-b px-4 py-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <ChannelIcon channel={selectedChat.channel} />
+                      <span className="truncate font-medium">{chatTitle(selectedChat)}</span>
+                    </div>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {[selectedChat.lead?.job_title, selectedChat.lead?.company].filter(Boolean).join(' · ') ||
+                        selectedChat.attendee_identifier}
+                      {selectedChat.account?.name ? ` · via ${selectedChat.account.name}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {isChatOverdue(selectedChat.awaiting_reply_since, slaMinutes) && (
+                      <Badge variant="destructive" className="gap-1">
+                        <Clock className="h-3 w-3" />
+                        Atrasada
+                      </Badge>
+                    )}
+                    <Select
+                      value={selectedChat.assigned_to || UNASSIGNED}
+                      onValueChange={(v) => handleAssign(selectedChat.id, v)}
+                      disabled={isAssigning}
+                    >
+                      <SelectTrigger className="h-8 w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED}>Sem responsável</SelectItem>
+                        {members.map(member => (
+                          <SelectItem key={member.user_id} value={member.user_id}>
+                            {member.user_id === user?.id ? `${memberName(member)} (você)` : memberName(member)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedChat.campaign && (
+                      <Badge variant="outline" className="gap-1">
+                        <Send className="h-3 w-3" />
+                        {selectedChat.campaign.name}
+                      </Badge>
+                    )}
+                    {selectedChat.lead_id && (
+                      <Button asChild size="sm" variant="outline">
+                        <Link to={`/leads?lead=${selectedChat.lead_id}`}>Ver lead</Link>
+                      </Button>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="md:hidden"
+                      onClick={() => {
+                        const next = new URLSearchParams(searchParams);
+                        next.delete('chat');
+                        setSearchParams(next, { replace: true });
+                      }}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="min-h-0 flex-1">
+                  <ChatThread chat={selectedChat} />
+                </div>
+              </>
+            ) : (
+              <div className="flex flex-1 flex-col items-center justify-center gap-2 text-muted-foreground">
+                <InboxIcon className="h-10 w-10" />
+                <p className="text-sm">Selecione uma conversa</p>
+              </div>
+            )}
+          </div>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
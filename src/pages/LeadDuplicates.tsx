@@ -0,0 +1,112 @@
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLeadDuplicates } from '@/hooks/useLeadDuplicates';
+import { useLeadLists } from '@/hooks/useLeadLists';
+import { useToast } from '@/hooks/use-toast';
+import AppLayout from '@/components/layout/AppLayout';
+import { LeadMergeReview } from '@/components/leads/LeadMergeReview';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, CheckCircle2, Copy, RefreshCw } from 'lucide-react';
+
+export default function LeadDuplicates() {
+  const { currentWorkspace } = useAuth();
+  const { duplicates, isLoading, isFetching, refetch, mergeLeads, dismissDuplicate } = useLeadDuplicates();
+  const { lists } = useLeadLists();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  if (!currentWorkspace) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center h-64">
+          <p className="text-muted-foreground">Selecione um workspace</p>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Button variant="ghost" size="sm" className="-ml-2 mb-1" onClick={() => navigate('/leads')}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Leads
+            </Button>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Copy className="h-7 w-7" />
+              Leads duplicados
+              {duplicates.length > 0 && <Badge variant="secondary">{duplicates.length}</Badge>}
+            </h1>
+            <p className="text-muted-foreground">
+              Revise os pares e escolha, campo a campo, qual valor fica no lead mesclado
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Atualizar
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-48 w-full" />
+            ))}
+          </div>
+        ) : duplicates.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <CheckCircle2 className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="font-medium text-lg mb-2">Nenhum duplicado encontrado</h3>
+              <p className="text-muted-foreground">
+                Procuramos leads com o mesmo LinkedIn, o mesmo email ou nome parecido na mesma empresa.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {duplicates.map((duplicate) => (
+              <LeadMergeReview
+                key={`${duplicate.lead_id}-${duplicate.duplicate_id}`}
+                duplicate={duplicate}
+                lists={lists}
+                disabled={isFetching}
+                onMerge={async (input) => {
+                  try {
+                    await mergeLeads(input);
+                    toast({
+                      title: 'Leads mesclados',
+                      description: `${input.fields.length} campos copiados do lead apagado.`,
+                    });
+                  } catch (error) {
+                    toast({
+                      title: 'Erro ao mesclar',
+                      description: error instanceof Error ? error.message : 'Tente novamente.',
+                      variant: 'destructive',
+                    });
+                  }
+                }}
+                onDismiss={async () => {
+                  try {
+                    await dismissDuplicate({ leadId: duplicate.lead_id, duplicateId: duplicate.duplicate_id });
+                  } catch (error) {
+                    toast({
+                      title: 'Erro ao ignorar par',
+                      description: error instanceof Error ? error.message : 'Tente novamente.',
+                      variant: 'destructive',
+                    });
+                  }
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
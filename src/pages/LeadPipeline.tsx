@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLead } from '@/hooks/useLeadsPage';
+import { useLeadLists } from '@/hooks/useLeadLists';
+import { useLeadStages } from '@/hooks/useLeadStages';
+import { useToast } from '@/hooks/use-toast';
+import AppLayout from '@/components/layout/AppLayout';
+import { LeadFilters } from '@/components/leads/LeadFilters';
+import { LeadPipelineColumn } from '@/components/leads/LeadPipelineColumn';
+import { LeadDetailsDrawer } from '@/components/leads/LeadDetailsDrawer';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, Kanban, Settings } from 'lucide-react';
+import { LeadFilters as LeadFiltersType, LeadSort, LeadStage } from '@/types';
+import { EMPTY_LEAD_FILTERS } from '@/lib/leadFilters';
+
+// Cada coluna mostra primeiro os leads mais recentes
+const PIPELINE_SORT: LeadSort = { column: 'created_at', ascending: false };
+
+export default function LeadPipeline() {
+  const { currentWorkspace } = useAuth();
+  const { stages, isLoading, moveLeadsToStage } = useLeadStages();
+  const { lists, createList } = useLeadLists();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [filters, setFilters] = useState<LeadFiltersType>(EMPTY_LEAD_FILTERS);
+  const [selectedLeadId, setSelectedLeadId] = useState<string | null>(null);
+  const [drawerOpen, setDrawerOpen] = useState(false);
+
+  const { lead: selectedLead } = useLead(selectedLeadId);
+
+  if (!currentWorkspace) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center h-64">
+          <p className="text-muted-foreground">Selecione um workspace</p>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  // Com uma etapa no filtro, o Kanban mostra só a coluna dela
+  const visibleStages = filters.stageId ? stages.filter(stage => stage.id === filters.stageId) : stages;
+
+  async function handleLeadDrop(leadId: string, stage: LeadStage) {
+    try {
+      await moveLeadsToStage({ leadIds: [leadId], stageId: stage.id });
+    } catch (error) {
+      toast({
+        title: 'Erro ao mover lead',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    }
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Button variant="ghost" size="sm" className="-ml-2 mb-1" onClick={() => navigate('/leads')}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Leads
+            </Button>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Kanban className="h-7 w-7" />
+              Pipeline
+            </h1>
+            <p className="text-muted-foreground">
+              Arraste os leads entre as etapas. Envios, convites aceitos e respostas de campanhas avançam os leads
+              automaticamente
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => navigate('/settings')}>
+            <Settings className="h-4 w-4 mr-2" />
+            Etapas
+          </Button>
+        </div>
+
+        <LeadFilters
+          filters={filters}
+          onFiltersChange={setFilters}
+          lists={lists}
+          onCreateList={async (name, description) => {
+            await createList({ name, description });
+            toast({
+              title: 'Lista criada',
+              description: `Lista "${name}" criada com sucesso.`,
+            });
+          }}
+        />
+
+        {isLoading ? (
+          <div className="flex gap-4">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="h-96 w-72 flex-shrink-0" />
+            ))}
+          </div>
+        ) : (
+          <div className="flex gap-4 overflow-x-auto pb-4" style={{ height: 'calc(100vh - 20rem)', minHeight: '24rem' }}>
+            {visibleStages.map((stage) => (
+              <LeadPipelineColumn
+                key={stage.id}
+                stage={stage}
+                filters={filters}
+                sort={PIPELINE_SORT}
+                onLeadClick={(leadId) => {
+                  setSelectedLeadId(leadId);
+                  setDrawerOpen(true);
+                }}
+                onLeadDrop={handleLeadDrop}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <LeadDetailsDrawer
+        lead={selectedLead}
+        open={drawerOpen}
+        onOpenChange={setDrawerOpen}
+        workspaceId={currentWorkspace.id}
+      />
+    </AppLayout>
+  );
+}
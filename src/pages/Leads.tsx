@@ -1,11 +1,12 @@
-import { useState, useMemo } from 'react';
+import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useLeads } from '@/hooks/useLeads';
+import { useLead, useLeadsPage } from '@/hooks/useLeadsPage';
 import { useLeadLists } from '@/hooks/useLeadLists';
 import { useCredits } from '@/hooks/useCredits';
 import { useTags } from '@/hooks/useTags';
 import { useWorkspacePlan } from '@/hooks/useWorkspacePlan';
 import { useEnrichmentJobs } from '@/hooks/useEnrichmentJobs';
+import { useLeadCustomFields } from '@/hooks/useLeadCustomFields';
 import AppLayout from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -22,6 +23,7 @@ import { LeadFilters } from '@/components/leads/LeadFilters';
 import { MoveLeadsDialog } from '@/components/leads/MoveLeadsDialog';
 import { DeleteLeadsDialog } from '@/components/leads/DeleteLeadsDialog';
 import { DeepEnrichDialog } from '@/components/leads/DeepEnrichDialog';
+import { ImportLeadsDialog } from '@/components/leads/ImportLeadsDialog';
 import { LeadTagsPopover, LeadTagsBadges } from '@/components/leads/LeadTagsPopover';
 import { BulkTagsPopover } from '@/components/leads/BulkTagsPopover';
 import {
@@ -37,6 +39,7 @@ import {
   Users, 
   Send,
   Download,
+  Upload,
   RefreshCw,
   MapPin,
   Building2,
@@ -46,6 +49,12 @@ import {
   Linkedin,
   Sparkles,
   Brain,
+  MessagesSquare,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  Copy,
+  Kanban,
 } from 'lucide-react';
 import {
   Popover,
@@ -53,13 +62,33 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { Progress } from '@/components/ui/progress';
-import { Lead, LeadFilters as LeadFiltersType } from '@/types';
-import { useNavigate } from 'react-router-dom';
+import { Lead, LeadFilters as LeadFiltersType, LeadListItem, LeadSort, LeadSortColumn } from '@/types';
+import { EMPTY_LEAD_FILTERS, hasActiveLeadFilters, MAX_SELECT_ALL_LEADS } from '@/lib/leadFilters';
+import { customFieldValues, formatCustomFieldValue } from '@/lib/customFields';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 
 export default function Leads() {
   const { currentWorkspace } = useAuth();
-  const { leads, isLoading, refetchLeads, deleteLeads, moveLeads } = useLeads();
+
+  // Filter and sort state
+  const [filters, setFilters] = useState<LeadFiltersType>(EMPTY_LEAD_FILTERS);
+  const [sort, setSort] = useState<LeadSort>({ column: 'created_at', ascending: false });
+
+  const {
+    leads,
+    totalCount,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    refetchLeads,
+    deleteLeads,
+    moveLeads,
+    fetchMatchingLeadIds,
+    fetchLeadsByIds,
+  } = useLeadsPage(filters, sort);
   const { lists, createList } = useLeadLists();
+  const { fields: customFields } = useLeadCustomFields();
   const { credits, refetchCredits } = useCredits();
   const { tags, refetchTags } = useTags();
   const { planLimits, usageToday, refetchUsage } = useWorkspacePlan();
@@ -67,10 +96,12 @@ export default function Leads() {
   
   const { toast } = useToast();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   // Selection state
   const [selectedLeads, setSelectedLeads] = useState<Set<string>>(new Set());
   const [enrichingLeads, setEnrichingLeads] = useState<Set<string>>(new Set());
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
 
   // Bulk enrichment state
   const [bulkEnriching, setBulkEnriching] = useState(false);
@@ -81,64 +112,33 @@ export default function Leads() {
   const [selectedLeadId, setSelectedLeadId] = useState<string | null>(null);
   const [drawerOpen, setDrawerOpen] = useState(false);
 
-  // Get the selected lead from the leads array so it updates when refetched
-  const selectedLead = useMemo(() => {
-    if (!selectedLeadId) return null;
-    return leads.find(l => l.id === selectedLeadId) || null;
-  }, [selectedLeadId, leads]);
-
-  // Filter state
-  const [filters, setFilters] = useState<LeadFiltersType>({
-    company: '',
-    jobTitle: '',
-    industry: '',
-    country: '',
-    listId: null,
-    tagIds: [],
-  });
+  // The drawer loads the full lead, which may not be on a loaded page
+  const { lead: selectedLead } = useLead(selectedLeadId);
+
+  // Deep link from notifications: /leads?lead=<id> opens the lead's details
+  const leadParam = searchParams.get('lead');
+  useEffect(() => {
+    if (!leadParam) return;
+    setSelectedLeadId(leadParam);
+    setDrawerOpen(true);
+    setSearchParams({}, { replace: true });
+  }, [leadParam, setSearchParams]);
+
+  // A new filter is a new result set: the selection no longer applies
+  useEffect(() => {
+    setSelectedLeads(new Set());
+  }, [filters]);
 
   // Dialog states
   const [moveDialogOpen, setMoveDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deepEnrichDialogOpen, setDeepEnrichDialogOpen] = useState(false);
+  const [deepEnrichLeads, setDeepEnrichLeads] = useState<Lead[]>([]);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [isMoving, setIsMoving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
-  // Get lead tags helper from useTags
-  const { getLeadTags } = useTags();
-
-  // Filtered leads based on filter state
-  const filteredLeads = useMemo(() => {
-    return leads.filter(lead => {
-      if (filters.company && !lead.company?.toLowerCase().includes(filters.company.toLowerCase())) {
-        return false;
-      }
-      if (filters.jobTitle && !lead.job_title?.toLowerCase().includes(filters.jobTitle.toLowerCase())) {
-        return false;
-      }
-      if (filters.industry && lead.industry !== filters.industry) {
-        return false;
-      }
-      if (filters.country && lead.country !== filters.country) {
-        return false;
-      }
-      if (filters.listId === 'no-list' && lead.list_id !== null) {
-        return false;
-      }
-      if (filters.listId && filters.listId !== 'no-list' && lead.list_id !== filters.listId) {
-        return false;
-      }
-      // Filter by tags
-      if (filters.tagIds.length > 0) {
-        const leadTagIds = getLeadTags(lead.id).map(t => t.id);
-        const hasAllTags = filters.tagIds.every(tagId => leadTagIds.includes(tagId));
-        if (!hasAllTags) return false;
-      }
-      return true;
-    });
-  }, [leads, filters, getLeadTags]);
-
-  async function handleEnrichLead(lead: Lead) {
+  async function handleEnrichLead(lead: LeadListItem) {
     if (!currentWorkspace || !lead.email) return;
     
     setEnrichingLeads(prev => new Set(prev).add(lead.id));
@@ -199,8 +199,19 @@ export default function Leads() {
     if (!currentWorkspace) return;
     
     // Filter leads with LinkedIn URL, optionally including already enriched
-    const leadsToEnrich = leads.filter(
-      l => selectedLeads.has(l.id) && l.linkedin_url && (forceReEnrich || !l.last_enriched_at)
+    let selectedData: Lead[];
+    try {
+      selectedData = await fetchLeadsByIds(Array.from(selectedLeads));
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar leads',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const leadsToEnrich = selectedData.filter(
+      l => l.linkedin_url && (forceReEnrich || !l.last_enriched_at)
     );
     
     if (leadsToEnrich.length === 0) {
@@ -295,11 +306,56 @@ export default function Leads() {
     }
   }
 
+  const allLoadedSelected = leads.length > 0 && leads.every(l => selectedLeads.has(l.id));
+
   function toggleSelectAll() {
-    if (selectedLeads.size === filteredLeads.length) {
+    if (allLoadedSelected) {
       setSelectedLeads(new Set());
     } else {
-      setSelectedLeads(new Set(filteredLeads.map(l => l.id)));
+      setSelectedLeads(new Set(leads.map(l => l.id)));
+    }
+  }
+
+  // Selects every lead matching the filters, not only the loaded pages
+  async function selectAllMatching() {
+    setIsSelectingAll(true);
+    try {
+      const ids = await fetchMatchingLeadIds();
+      setSelectedLeads(new Set(ids));
+    } catch (error) {
+      toast({
+        title: 'Erro ao selecionar leads',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSelectingAll(false);
+    }
+  }
+
+  function toggleSort(column: LeadSortColumn) {
+    setSort(prev =>
+      prev.column === column
+        ? { column, ascending: !prev.ascending }
+        : { column, ascending: column !== 'created_at' }
+    );
+  }
+
+  function renderSortIcon(column: LeadSortColumn) {
+    if (sort.column !== column) return <ArrowUpDown className="ml-1 h-3 w-3 opacity-50" />;
+    return sort.ascending ? <ArrowUp className="ml-1 h-3 w-3" /> : <ArrowDown className="ml-1 h-3 w-3" />;
+  }
+
+  async function openDeepEnrich() {
+    try {
+      setDeepEnrichLeads(await fetchLeadsByIds(Array.from(selectedLeads)));
+      setDeepEnrichDialogOpen(true);
+    } catch (error) {
+      toast({
+        title: 'Erro ao carregar leads',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
     }
   }
 
@@ -313,13 +369,24 @@ export default function Leads() {
     setSelectedLeads(next);
   }
 
-  function exportCSV() {
-    const selectedData = leads.filter(l => selectedLeads.has(l.id));
+  async function exportCSV() {
+    let selectedData: Lead[];
+    try {
+      selectedData = await fetchLeadsByIds(Array.from(selectedLeads));
+    } catch (error) {
+      toast({
+        title: 'Erro ao exportar',
+        description: error instanceof Error ? error.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+      return;
+    }
     const csv = [
       [
         'Nome', 'Email', 'Email Pessoal', 'Telefone', 'Celular', 'Empresa', 'Cargo', 
         'Headline', 'Nível', 'Indústria', 'Cidade', 'Estado', 'País', 'Website', 
-        'Tamanho', 'Faturamento', 'LinkedIn', 'LinkedIn Empresa', 'Tecnologias', 'Keywords'
+        'Tamanho', 'Faturamento', 'LinkedIn', 'LinkedIn Empresa', 'Tecnologias', 'Keywords',
+        ...customFields.map(field => `"${field.label.replace(/"/g, '""')}"`),
       ].join(','),
       ...selectedData.map(l => [
         l.full_name || '',
@@ -342,6 +409,7 @@ export default function Leads() {
         l.company_linkedin || '',
         l.company_technologies || '',
         l.keywords || '',
+        ...customFields.map(field => formatCustomFieldValue(field, customFieldValues(l)[field.key])),
       ].map(v => `"${(v || '').replace(/"/g, '""')}"`).join(','))
     ].join('\n');
 
@@ -401,12 +469,12 @@ export default function Leads() {
     }
   }
 
-  function openLeadDetails(lead: Lead) {
+  function openLeadDetails(lead: LeadListItem) {
     setSelectedLeadId(lead.id);
     setDrawerOpen(true);
   }
 
-  function getLocation(lead: Lead) {
+  function getLocation(lead: LeadListItem) {
     const parts = [lead.city, lead.state, lead.country].filter(Boolean);
     return parts.length > 0 ? parts.join(', ') : null;
   }
@@ -446,7 +514,6 @@ export default function Leads() {
         <LeadFilters
           filters={filters}
           onFiltersChange={setFilters}
-          leads={leads}
           lists={lists}
           onCreateList={async (name, description) => {
             await createList({ name, description });
@@ -463,10 +530,7 @@ export default function Leads() {
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
                 <CardTitle>Seus Leads</CardTitle>
-                <Badge variant="secondary">{filteredLeads.length} leads</Badge>
-                {filteredLeads.length !== leads.length && (
-                  <Badge variant="outline">{leads.length} total</Badge>
-                )}
+                <Badge variant="secondary">{totalCount} leads</Badge>
               </div>
               <div className="flex gap-2">
                 {selectedLeads.size > 0 && (
@@ -555,7 +619,7 @@ export default function Leads() {
                           <Button
                             variant="secondary"
                             size="sm"
-                            onClick={() => setDeepEnrichDialogOpen(true)}
+                            onClick={openDeepEnrich}
                           >
                             <Brain className="mr-2 h-4 w-4" />
                             Enrich Deep
@@ -588,6 +652,18 @@ export default function Leads() {
                     </Button>
                   </>
                 )}
+                <Button variant="outline" size="sm" onClick={() => navigate('/leads/pipeline')}>
+                  <Kanban className="mr-2 h-4 w-4" />
+                  Pipeline
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => navigate('/leads/duplicates')}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Duplicados
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setImportDialogOpen(true)}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Importar
+                </Button>
                 <Button variant="outline" size="icon" onClick={refetchLeads}>
                   <RefreshCw className="h-4 w-4" />
                 </Button>
@@ -601,16 +677,16 @@ export default function Leads() {
                   <Skeleton key={i} className="h-12 w-full" />
                 ))}
               </div>
-            ) : filteredLeads.length === 0 ? (
+            ) : leads.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
                 <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
                 <p>Nenhum lead encontrado.</p>
                 <p className="text-sm">
-                  {leads.length > 0
+                  {hasActiveLeadFilters(filters)
                     ? 'Tente ajustar os filtros.'
                     : 'Clique em "Buscar no LinkedIn" para importar leads.'}
                 </p>
-                {leads.length === 0 && (
+                {!hasActiveLeadFilters(filters) && (
                   <Button
                     onClick={() => navigate('/linkedin/search')}
                     className="mt-4 bg-[#0A66C2] hover:bg-[#004182]"
@@ -621,168 +697,236 @@ export default function Leads() {
                 )}
               </div>
             ) : (
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead className="w-12">
-                        <Checkbox
-                          checked={selectedLeads.size === filteredLeads.length && filteredLeads.length > 0}
-                          onCheckedChange={toggleSelectAll}
-                        />
-                      </TableHead>
-                      <TableHead>Nome</TableHead>
-                      <TableHead>Tags</TableHead>
-                      <TableHead>Empresa</TableHead>
-                      <TableHead>Cargo</TableHead>
-                      <TableHead>Indústria</TableHead>
-                      <TableHead>Localização</TableHead>
-                      <TableHead>Email</TableHead>
-                      <TableHead>Celular</TableHead>
-                      <TableHead>LinkedIn</TableHead>
-                      <TableHead className="w-32">Ações</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {filteredLeads.map((lead) => (
-                      <TableRow 
-                        key={lead.id} 
-                        className="group cursor-pointer hover:bg-muted/50"
-                        onClick={() => openLeadDetails(lead)}
-                      >
-                        <TableCell onClick={(e) => e.stopPropagation()}>
+              <div className="space-y-3">
+                {allLoadedSelected && totalCount > leads.length && (
+                  <div className="flex items-center justify-center gap-2 rounded-md bg-muted/50 p-2 text-sm">
+                    {selectedLeads.size >= Math.min(totalCount, MAX_SELECT_ALL_LEADS) ? (
+                      <>
+                        <span>
+                          {totalCount > MAX_SELECT_ALL_LEADS
+                            ? `Os ${selectedLeads.size} leads mais recentes de ${totalCount} estão selecionados (limite de ${MAX_SELECT_ALL_LEADS} por seleção).`
+                            : `Todos os ${selectedLeads.size} leads selecionados.`}
+                        </span>
+                        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelectedLeads(new Set())}>
+                          Limpar seleção
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <span>Os {selectedLeads.size} leads carregados estão selecionados.</span>
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0"
+                          onClick={selectAllMatching}
+                          disabled={isSelectingAll}
+                        >
+                          {isSelectingAll && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                          {totalCount > MAX_SELECT_ALL_LEADS
+                            ? `Selecionar os ${MAX_SELECT_ALL_LEADS} mais recentes dos ${totalCount} leads que correspondem aos filtros`
+                            : `Selecionar todos os ${totalCount} leads que correspondem aos filtros`}
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">
                           <Checkbox
-                            checked={selectedLeads.has(lead.id)}
-                            onCheckedChange={() => toggleSelectLead(lead.id)}
+                            checked={allLoadedSelected}
+                            onCheckedChange={toggleSelectAll}
                           />
-                        </TableCell>
-                        <TableCell className="font-medium">
-                          <div className="flex flex-col gap-0.5">
-                            <div className="flex items-center gap-1.5">
-                              <span>{lead.full_name || '-'}</span>
-                              {isLeadEnriching(lead.id) ? (
-                                <Badge variant="secondary" className="text-xs gap-1 px-1.5 py-0">
-                                  <Brain className="h-3 w-3 animate-pulse" />
-                                  Enriquecendo...
-                                </Badge>
-                              ) : lead.last_enriched_at && (
-                                <span title="Enriquecido"><Sparkles className="h-3 w-3 text-primary" /></span>
+                        </TableHead>
+                        <TableHead>
+                          <button type="button" className="inline-flex items-center" onClick={() => toggleSort('full_name')}>
+                            Nome
+                            {renderSortIcon('full_name')}
+                          </button>
+                        </TableHead>
+                        <TableHead>Tags</TableHead>
+                        <TableHead>
+                          <button type="button" className="inline-flex items-center" onClick={() => toggleSort('company')}>
+                            Empresa
+                            {renderSortIcon('company')}
+                          </button>
+                        </TableHead>
+                        <TableHead>
+                          <button type="button" className="inline-flex items-center" onClick={() => toggleSort('job_title')}>
+                            Cargo
+                            {renderSortIcon('job_title')}
+                          </button>
+                        </TableHead>
+                        <TableHead>Indústria</TableHead>
+                        <TableHead>Localização</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Celular</TableHead>
+                        <TableHead>LinkedIn</TableHead>
+                        <TableHead className="w-32">Ações</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {leads.map((lead) => (
+                        <TableRow 
+                          key={lead.id} 
+                          className="group cursor-pointer hover:bg-muted/50"
+                          onClick={() => openLeadDetails(lead)}
+                        >
+                          <TableCell onClick={(e) => e.stopPropagation()}>
+                            <Checkbox
+                              checked={selectedLeads.has(lead.id)}
+                              onCheckedChange={() => toggleSelectLead(lead.id)}
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">
+                            <div className="flex flex-col gap-0.5">
+                              <div className="flex items-center gap-1.5">
+                                <span>{lead.full_name || '-'}</span>
+                                {isLeadEnriching(lead.id) ? (
+                                  <Badge variant="secondary" className="text-xs gap-1 px-1.5 py-0">
+                                    <Brain className="h-3 w-3 animate-pulse" />
+                                    Enriquecendo...
+                                  </Badge>
+                                ) : lead.last_enriched_at && (
+                                  <span title="Enriquecido"><Sparkles className="h-3 w-3 text-primary" /></span>
+                                )}
+                                {lead.in_conversation_at && (
+                                  <Badge variant="secondary" className="text-xs gap-1 px-1.5 py-0">
+                                    <MessagesSquare className="h-3 w-3" />
+                                    Em conversa
+                                  </Badge>
+                                )}
+                              </div>
+                              {lead.headline && (
+                                <span className="text-xs text-muted-foreground truncate max-w-[250px]">
+                                  {lead.headline}
+                                </span>
                               )}
                             </div>
-                            {lead.headline && (
-                              <span className="text-xs text-muted-foreground truncate max-w-[250px]">
-                                {lead.headline}
-                              </span>
-                            )}
-                          </div>
-                        </TableCell>
-                        <TableCell onClick={(e) => e.stopPropagation()}>
-                          <div className="flex items-center gap-1">
-                            <LeadTagsBadges leadId={lead.id} />
-                            <LeadTagsPopover leadId={lead.id}>
-                              <Button variant="ghost" size="icon" className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity">
-                                <Tag className="h-3.5 w-3.5" />
-                              </Button>
-                            </LeadTagsPopover>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex flex-col gap-0.5">
+                          </TableCell>
+                          <TableCell onClick={(e) => e.stopPropagation()}>
                             <div className="flex items-center gap-1">
-                              <Building2 className="h-3 w-3 text-muted-foreground shrink-0" />
-                              <span className="truncate max-w-[150px]">{lead.company || '-'}</span>
+                              <LeadTagsBadges leadId={lead.id} />
+                              <LeadTagsPopover leadId={lead.id}>
+                                <Button variant="ghost" size="icon" className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity">
+                                  <Tag className="h-3.5 w-3.5" />
+                                </Button>
+                              </LeadTagsPopover>
                             </div>
-                            {(lead.company_size || lead.company_industry) && (
-                              <div className="flex flex-wrap gap-1">
-                                {lead.company_size && (
-                                  <Badge variant="outline" className="text-xs py-0">
-                                    {lead.company_size}
-                                  </Badge>
-                                )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-col gap-0.5">
+                              <div className="flex items-center gap-1">
+                                <Building2 className="h-3 w-3 text-muted-foreground shrink-0" />
+                                <span className="truncate max-w-[150px]">{lead.company || '-'}</span>
                               </div>
+                              {(lead.company_size || lead.company_industry) && (
+                                <div className="flex flex-wrap gap-1">
+                                  {lead.company_size && (
+                                    <Badge variant="outline" className="text-xs py-0">
+                                      {lead.company_size}
+                                    </Badge>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-col gap-0.5">
+                              <span className="truncate max-w-[150px]">{lead.job_title || '-'}</span>
+                              {lead.seniority_level && (
+                                <Badge variant="secondary" className="w-fit text-xs py-0">
+                                  {lead.seniority_level}
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <span className="text-sm truncate max-w-[120px] block">
+                              {lead.industry || lead.company_industry || '-'}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            {getLocation(lead) ? (
+                              <div className="flex items-center gap-1 text-sm">
+                                <MapPin className="h-3 w-3 text-muted-foreground shrink-0" />
+                                <span className="truncate max-w-[130px]">{getLocation(lead)}</span>
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
                             )}
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex flex-col gap-0.5">
-                            <span className="truncate max-w-[150px]">{lead.job_title || '-'}</span>
-                            {lead.seniority_level && (
-                              <Badge variant="secondary" className="w-fit text-xs py-0">
-                                {lead.seniority_level}
+                          </TableCell>
+                          <TableCell>
+                            {lead.email ? (
+                              <span className="text-sm truncate max-w-[150px] block">{lead.email}</span>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {lead.mobile_number || lead.phone ? (
+                              <Badge variant="secondary" className="gap-1">
+                                <Phone className="h-3 w-3" />
+                                {lead.mobile_number || lead.phone}
                               </Badge>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
                             )}
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <span className="text-sm truncate max-w-[120px] block">
-                            {lead.industry || lead.company_industry || '-'}
-                          </span>
-                        </TableCell>
-                        <TableCell>
-                          {getLocation(lead) ? (
-                            <div className="flex items-center gap-1 text-sm">
-                              <MapPin className="h-3 w-3 text-muted-foreground shrink-0" />
-                              <span className="truncate max-w-[130px]">{getLocation(lead)}</span>
-                            </div>
-                          ) : (
-                            <span className="text-muted-foreground">-</span>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          {lead.email ? (
-                            <span className="text-sm truncate max-w-[150px] block">{lead.email}</span>
-                          ) : (
-                            <span className="text-muted-foreground">-</span>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          {lead.mobile_number || lead.phone ? (
-                            <Badge variant="secondary" className="gap-1">
-                              <Phone className="h-3 w-3" />
-                              {lead.mobile_number || lead.phone}
-                            </Badge>
-                          ) : (
-                            <span className="text-muted-foreground">-</span>
-                          )}
-                        </TableCell>
-                        <TableCell onClick={(e) => e.stopPropagation()}>
-                          {lead.linkedin_url ? (
-                            <a
-                              href={lead.linkedin_url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-primary hover:underline inline-flex items-center gap-1"
-                            >
-                              <Linkedin className="h-3.5 w-3.5" />
-                              Perfil
-                            </a>
-                          ) : (
-                            <span className="text-muted-foreground">-</span>
-                          )}
-                        </TableCell>
-                        <TableCell onClick={(e) => e.stopPropagation()}>
-                          {!lead.phone && !lead.mobile_number && lead.email && (
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => handleEnrichLead(lead)}
-                              disabled={enrichingLeads.has(lead.id)}
-                            >
-                              {enrichingLeads.has(lead.id) ? (
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : (
-                                <>
-                                  <Phone className="mr-1 h-3 w-3" />
-                                  Enriquecer
-                                </>
-                              )}
-                            </Button>
-                          )}
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
+                          </TableCell>
+                          <TableCell onClick={(e) => e.stopPropagation()}>
+                            {lead.linkedin_url ? (
+                              <a
+                                href={lead.linkedin_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-primary hover:underline inline-flex items-center gap-1"
+                              >
+                                <Linkedin className="h-3.5 w-3.5" />
+                                Perfil
+                              </a>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell onClick={(e) => e.stopPropagation()}>
+                            {!lead.phone && !lead.mobile_number && lead.email && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleEnrichLead(lead)}
+                                disabled={enrichingLeads.has(lead.id)}
+                              >
+                                {enrichingLeads.has(lead.id) ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <>
+                                    <Phone className="mr-1 h-3 w-3" />
+                                    Enriquecer
+                                  </>
+                                )}
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {hasNextPage && (
+                  <div className="flex justify-center">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                    >
+                      {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Carregar mais ({leads.length} de {totalCount})
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
           </CardContent>
@@ -821,7 +965,7 @@ export default function Leads() {
       <DeepEnrichDialog
         open={deepEnrichDialogOpen}
         onOpenChange={setDeepEnrichDialogOpen}
-        selectedLeads={leads.filter(l => selectedLeads.has(l.id))}
+        selectedLeads={deepEnrichLeads}
         workspaceId={currentWorkspace?.id || ''}
         dailyLimit={(planLimits as any)?.daily_enrich_deep_limit || 10}
         usedToday={usageToday?.linkedin_enrich_deep || 0}
@@ -833,6 +977,12 @@ export default function Leads() {
           setTimeout(() => refetchLeads(), 5000);
         }}
       />
+
+      {/* Import Leads Dialog */}
+      <ImportLeadsDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+      />
     </AppLayout>
   );
 }
@@ -2,11 +2,21 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useCredits } from '@/hooks/useCredits';
 import { useWorkspaceMembers } from '@/hooks/useWorkspaceMembers';
-import { useAccounts } from '@/hooks/useAccounts';
+import { Account, useAccounts } from '@/hooks/useAccounts';
 import { useWorkspaceSettings } from '@/hooks/useWorkspaceSettings';
 import { useDailyUsage } from '@/hooks/useDailyUsage';
+import { useLeadCustomFields } from '@/hooks/useLeadCustomFields';
 import AppLayout from '@/components/layout/AppLayout';
 import { WorkspaceBillingCard } from '@/components/settings/WorkspaceBillingCard';
+import { WorkspaceHolidaysCard } from '@/components/settings/WorkspaceHolidaysCard';
+import { SuppressionListCard } from '@/components/settings/SuppressionListCard';
+import { SnippetsCard } from '@/components/settings/SnippetsCard';
+import { LeadCustomFieldsCard } from '@/components/settings/LeadCustomFieldsCard';
+import { LeadStagesCard } from '@/components/settings/LeadStagesCard';
+import { ConversationAssignmentCard } from '@/components/settings/ConversationAssignmentCard';
+import { ConnectEmailDialog } from '@/components/settings/ConnectEmailDialog';
+import { AccountWarmupBadge } from '@/components/settings/AccountWarmupBadge';
+import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -49,7 +59,9 @@ import {
   Eye,
   ListTodo,
 } from 'lucide-react';
-import { MESSAGE_VARIABLES } from '@/lib/messageVariables';
+import { MESSAGE_VARIABLES, MessageVariable, TEMPLATE_SYNTAX_HELP } from '@/lib/messageVariables';
+import { customFieldVariables } from '@/lib/customFields';
+import { DEFAULT_WARMUP_DAILY_INCREASE, DEFAULT_WARMUP_START_LIMIT, validateWarmup } from '@/lib/warmup';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 
@@ -86,7 +98,7 @@ export default function Settings() {
   const { profile, workspaces, currentWorkspace, setCurrentWorkspace, user } = useAuth();
   const { credits, creditHistory, isLoading: creditsLoading } = useCredits();
   const { members, isLoading: membersLoading, removeMember, updateRole } = useWorkspaceMembers();
-  const { accounts, isLoading: accountsLoading, syncAccounts, isSyncing, refetchAccounts, deleteAccount, isDeleting, updateAccountName, isUpdatingName } = useAccounts();
+  const { accounts, isLoading: accountsLoading, syncAccounts, isSyncing, refetchAccounts, deleteAccount, isDeleting, updateAccountName, isUpdatingName, updateAccountWarmup, isUpdatingWarmup } = useAccounts();
   const { settings, updateSettings, isUpdating: isUpdatingSettings } = useWorkspaceSettings();
   const { linkedinMessagesToday, linkedinInvitesToday, whatsappMessagesToday, isLoading: usageLoading, refetch: refetchUsage } = useDailyUsage();
   const { toast } = useToast();
@@ -270,12 +282,20 @@ export default function Settings() {
   const [connectAccountOpen, setConnectAccountOpen] = useState(false);
   const [newAccountName, setNewAccountName] = useState('');
   const [editAccountOpen, setEditAccountOpen] = useState(false);
-  const [accountToEdit, setAccountToEdit] = useState<{ id: string; name: string } | null>(null);
+  const [accountToEdit, setAccountToEdit] = useState<Account | null>(null);
   const [editAccountName, setEditAccountName] = useState('');
+  const [editWarmupEnabled, setEditWarmupEnabled] = useState(false);
+  const [editWarmupStartLimit, setEditWarmupStartLimit] = useState(DEFAULT_WARMUP_START_LIMIT);
+  const [editWarmupIncrease, setEditWarmupIncrease] = useState(DEFAULT_WARMUP_DAILY_INCREASE);
+  const [editWarmupRestart, setEditWarmupRestart] = useState(false);
   const [selectedChannel, setSelectedChannel] = useState<'whatsapp' | 'linkedin'>('whatsapp');
+  const [emailDialogOpen, setEmailDialogOpen] = useState(false);
+  const [emailAccountToEdit, setEmailAccountToEdit] = useState<Account | null>(null);
 
+  const emailAccounts = accounts.filter(acc => acc.channel === 'email');
   const currentMember = members.find(m => m.user_id === user?.id);
   const isAdmin = currentMember?.role === 'admin';
+  const { fields: customFields } = useLeadCustomFields();
 
   const channelIcons: Record<string, React.ElementType> = {
     whatsapp: MessageCircle,
@@ -399,17 +419,43 @@ export default function Settings() {
   // ============================================
   // EDIT ACCOUNT NAME
   // ============================================
-  function openEditModal(account: { id: string; name: string | null }) {
-    setAccountToEdit({ id: account.id, name: account.name || '' });
+  // ============================================
+  // EMAIL MAILBOXES (SMTP/IMAP, no hosted auth)
+  // ============================================
+  function openEmailDialog(account: Account | null = null) {
+    setEmailAccountToEdit(account);
+    setEmailDialogOpen(true);
+  }
+
+  function openEditModal(account: Account) {
+    setAccountToEdit(account);
     setEditAccountName(account.name || '');
+    setEditWarmupEnabled(account.warmup_enabled ?? false);
+    setEditWarmupStartLimit(account.warmup_start_limit ?? DEFAULT_WARMUP_START_LIMIT);
+    setEditWarmupIncrease(account.warmup_daily_increase ?? DEFAULT_WARMUP_DAILY_INCREASE);
+    setEditWarmupRestart(false);
     setEditAccountOpen(true);
   }
 
   async function handleUpdateAccountName() {
     if (!accountToEdit || !editAccountName.trim()) return;
 
+    const warmupError = editWarmupEnabled ? validateWarmup(editWarmupStartLimit, editWarmupIncrease) : null;
+    if (warmupError) {
+      toast({ title: 'Aquecimento inválido', description: warmupError, variant: 'destructive' });
+      return;
+    }
+
     try {
       await updateAccountName({ accountId: accountToEdit.id, name: editAccountName.trim() });
+      await updateAccountWarmup({
+        accountId: accountToEdit.id,
+        enabled: editWarmupEnabled,
+        startLimit: editWarmupStartLimit,
+        dailyIncrease: editWarmupIncrease,
+        // Turning the ramp on for an account that never had one starts it today
+        restart: editWarmupEnabled && (editWarmupRestart || !accountToEdit.warmup_started_at),
+      });
       toast({
         title: 'Nome atualizado',
         description: 'O nome da conta foi atualizado com sucesso.',
@@ -675,7 +721,7 @@ export default function Settings() {
                     </SelectContent>
                   </Select>
                   <p className="text-xs text-muted-foreground">
-                    Usado para agendamento de campanhas diferidas (ex.: 09:00 local).
+                    Usado para agendamento de campanhas diferidas (ex.: 09:00 local) e janelas de envio.
                   </p>
                 </div>
                 <div className="grid grid-cols-2 gap-4">
@@ -691,6 +737,18 @@ export default function Settings() {
               </CardContent>
             </Card>
 
+            {currentWorkspace && <WorkspaceHolidaysCard isAdmin={isAdmin} />}
+
+            {currentWorkspace && <SuppressionListCard isAdmin={isAdmin} />}
+
+            {currentWorkspace && <SnippetsCard isAdmin={isAdmin} />}
+
+            {currentWorkspace && <LeadCustomFieldsCard isAdmin={isAdmin} />}
+
+            {currentWorkspace && <LeadStagesCard isAdmin={isAdmin} />}
+
+            {currentWorkspace && <ConversationAssignmentCard isAdmin={isAdmin} />}
+
             {/* Queue Processor Test Card (Admin only) */}
             {isAdmin && (
               <Card>
@@ -1038,6 +1096,13 @@ export default function Settings() {
                           </>
                         )}
                       </Button>
+                      <Button 
+                        size="sm" 
+                        onClick={() => openEmailDialog()}
+                      >
+                        <Mail className="mr-2 h-4 w-4" />
+                        Email
+                      </Button>
                       <Button 
                         size="sm" 
                         variant="outline"
@@ -1108,6 +1173,12 @@ export default function Settings() {
                                     {featureLabel}
                                   </Badge>
                                 )}
+                                {account.channel === 'email' && (
+                                  <Badge variant="outline" className="text-xs">
+                                    {account.daily_message_limit ?? dailyLimit}/dia · {account.message_interval_seconds ?? intervalSeconds}s
+                                  </Badge>
+                                )}
+                                <AccountWarmupBadge account={account} settings={settings} />
                               </div>
                             </TableCell>
                             <TableCell>
@@ -1132,7 +1203,7 @@ export default function Settings() {
                                   <Button
                                     variant="ghost"
                                     size="sm"
-                                    onClick={() => openEditModal(account)}
+                                    onClick={() => account.channel === 'email' ? openEmailDialog(account) : openEditModal(account)}
                                   >
                                     <Pencil className="h-4 w-4" />
                                   </Button>
@@ -1247,9 +1318,9 @@ export default function Settings() {
                 <Dialog open={editAccountOpen} onOpenChange={setEditAccountOpen}>
                   <DialogContent>
                     <DialogHeader>
-                      <DialogTitle>Editar Nome da Conta</DialogTitle>
+                      <DialogTitle>Editar Conta</DialogTitle>
                       <DialogDescription>
-                        Altere o nome de identificação desta conta
+                        Altere o nome de identificação e o aquecimento desta conta
                       </DialogDescription>
                     </DialogHeader>
                     <div className="space-y-4 py-4">
@@ -1262,6 +1333,63 @@ export default function Settings() {
                           onChange={(e) => setEditAccountName(e.target.value)}
                         />
                       </div>
+
+                      {/* Warm-up ramp: new accounts start low and grow daily up to the workspace limit */}
+                      <div className="space-y-3 rounded-lg border p-3">
+                        <div className="flex items-center justify-between gap-3">
+                          <div>
+                            <Label htmlFor="editWarmupEnabled">Aquecimento da conta</Label>
+                            <p className="text-xs text-muted-foreground">
+                              Começa com poucos {accountToEdit?.channel === 'linkedin' ? 'convites' : 'envios'} por dia e aumenta diariamente até o limite do workspace.
+                            </p>
+                          </div>
+                          <Switch
+                            id="editWarmupEnabled"
+                            checked={editWarmupEnabled}
+                            onCheckedChange={setEditWarmupEnabled}
+                          />
+                        </div>
+                        {editWarmupEnabled && (
+                          <>
+                            <div className="grid grid-cols-2 gap-3">
+                              <div className="space-y-1">
+                                <Label htmlFor="editWarmupStartLimit" className="text-xs">Limite no 1º dia</Label>
+                                <Input
+                                  id="editWarmupStartLimit"
+                                  type="number"
+                                  min={1}
+                                  max={500}
+                                  value={editWarmupStartLimit}
+                                  onChange={(e) => setEditWarmupStartLimit(Number(e.target.value))}
+                                />
+                              </div>
+                              <div className="space-y-1">
+                                <Label htmlFor="editWarmupIncrease" className="text-xs">Aumento por dia</Label>
+                                <Input
+                                  id="editWarmupIncrease"
+                                  type="number"
+                                  min={0}
+                                  max={100}
+                                  value={editWarmupIncrease}
+                                  onChange={(e) => setEditWarmupIncrease(Number(e.target.value))}
+                                />
+                              </div>
+                            </div>
+                            {accountToEdit?.warmup_started_at && (
+                              <div className="flex items-center gap-2">
+                                <Switch
+                                  id="editWarmupRestart"
+                                  checked={editWarmupRestart}
+                                  onCheckedChange={setEditWarmupRestart}
+                                />
+                                <Label htmlFor="editWarmupRestart" className="text-xs font-normal">
+                                  Reiniciar a partir de hoje (iniciado em {format(new Date(accountToEdit.warmup_started_at), 'dd/MM/yyyy', { locale: ptBR })})
+                                </Label>
+                              </div>
+                            )}
+                          </>
+                        )}
+                      </div>
                     </div>
                     <DialogFooter>
                       <Button variant="outline" onClick={() => setEditAccountOpen(false)}>
@@ -1269,9 +1397,9 @@ export default function Settings() {
                       </Button>
                       <Button 
                         onClick={handleUpdateAccountName}
-                        disabled={!editAccountName.trim() || isUpdatingName}
+                        disabled={!editAccountName.trim() || isUpdatingName || isUpdatingWarmup}
                       >
-                        {isUpdatingName ? (
+                        {isUpdatingName || isUpdatingWarmup ? (
                           <>
                             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                             Salvando...
@@ -1283,6 +1411,12 @@ export default function Settings() {
                     </DialogFooter>
                   </DialogContent>
                 </Dialog>
+
+                <ConnectEmailDialog
+                  open={emailDialogOpen}
+                  onOpenChange={setEmailDialogOpen}
+                  account={emailAccountToEdit}
+                />
               </CardContent>
             </Card>
           </TabsContent>
@@ -1506,7 +1640,7 @@ export default function Settings() {
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {MESSAGE_VARIABLES.map((variable) => (
+                        {[...MESSAGE_VARIABLES, ...customFieldVariables(customFields)].map((variable) => (
                           <VariableRow key={variable.variable} variable={variable} />
                         ))}
                       </TableBody>
@@ -1516,7 +1650,7 @@ export default function Settings() {
                         <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
                         <div>
                           <p className="font-medium text-foreground">Dica</p>
-                          <p>Se o campo estiver vazio para um lead, a variável será substituída por texto vazio. Certifique-se de que seus leads tenham os dados preenchidos para melhor personalização.</p>
+                          <p>Se o campo estiver vazio para um lead, a variável será substituída por texto vazio. Use um valor padrão como {"{{primeiro_nome|pessoal}}"} ou um bloco {"{{#if empresa}}…{{/if}}"}. Campos personalizados também podem ser usados pelo nome, como {"{{segmento}}"}.</p>
                         </div>
                       </div>
                     </div>
@@ -1543,6 +1677,15 @@ export default function Settings() {
                         Olá <span className="font-semibold text-primary">João</span>, vi que você trabalha na <span className="font-semibold text-primary">Empresa ABC</span> como <span className="font-semibold text-primary">CEO</span>. Podemos conversar?
                       </p>
                     </div>
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">Sintaxe avançada</p>
+                      {TEMPLATE_SYNTAX_HELP.map((item) => (
+                        <div key={item.example} className="flex items-start justify-between gap-4 text-sm">
+                          <code className="px-2 py-1 rounded bg-muted font-mono text-xs">{item.example}</code>
+                          <span className="text-muted-foreground text-right">{item.description}</span>
+                        </div>
+                      ))}
+                    </div>
                   </CardContent>
                 </Card>
               </TabsContent>
@@ -1556,15 +1699,66 @@ export default function Settings() {
                       Configurações de Email
                     </CardTitle>
                     <CardDescription>
-                      Configure as preferências para campanhas de email
+                      Limites de envio por caixa de email conectada
                     </CardDescription>
                   </CardHeader>
-                  <CardContent>
-                    <div className="text-center py-12 text-muted-foreground">
-                      <Mail className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                      <p className="font-medium">Em breve</p>
-                      <p className="text-sm">As configurações de email estarão disponíveis em breve.</p>
-                    </div>
+                  <CardContent className="space-y-4">
+                    {emailAccounts.length === 0 ? (
+                      <div className="text-center py-12 text-muted-foreground">
+                        <Mail className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                        <p className="font-medium">Nenhuma caixa de email conectada</p>
+                        <p className="text-sm">
+                          {isAdmin
+                            ? 'Conecte uma caixa SMTP/IMAP em Integrações para enviar campanhas de email.'
+                            : 'Peça a um admin para conectar uma caixa de email.'}
+                        </p>
+                      </div>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Caixa</TableHead>
+                            <TableHead>Limite diário</TableHead>
+                            <TableHead>Intervalo</TableHead>
+                            <TableHead>Status</TableHead>
+                            {isAdmin && <TableHead className="text-right">Ações</TableHead>}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {emailAccounts.map((account) => (
+                            <TableRow key={account.id}>
+                              <TableCell>
+                                <div className="font-medium">{account.name || account.account_id}</div>
+                                <div className="text-xs text-muted-foreground">{account.account_id}</div>
+                              </TableCell>
+                              <TableCell>{account.daily_message_limit ?? dailyLimit} emails</TableCell>
+                              <TableCell>{account.message_interval_seconds ?? intervalSeconds}s</TableCell>
+                              <TableCell>
+                                <Badge variant={account.status === 'connected' ? 'default' : 'destructive'}>
+                                  {account.status === 'connected' ? 'Conectado' : 'Desconectado'}
+                                </Badge>
+                              </TableCell>
+                              {isAdmin && (
+                                <TableCell className="text-right">
+                                  <Button variant="ghost" size="sm" onClick={() => openEmailDialog(account)}>
+                                    <Pencil className="h-4 w-4" />
+                                  </Button>
+                                </TableCell>
+                              )}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+
+                    <Alert>
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription className="text-xs">
+                        Caixas sem limite próprio usam os valores da aba WhatsApp. Emails rejeitados pelo servidor
+                        (ou devolvidos na caixa de entrada, quando o IMAP está configurado) marcam o lead como bounce
+                        e encerram a sequência.
+                      </AlertDescription>
+                    </Alert>
                   </CardContent>
                 </Card>
               </TabsContent>
@@ -1836,7 +2030,7 @@ export default function Settings() {
 }
 
 // Componente para linha de variável com botão de copiar
-function VariableRow({ variable }: { variable: typeof MESSAGE_VARIABLES[0] }) {
+function VariableRow({ variable }: { variable: Pick<MessageVariable, 'variable' | 'label' | 'description'> }) {
   const [copied, setCopied] = useState(false);
 
   const handleCopy = async () => {
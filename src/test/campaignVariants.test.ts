@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { getVariantRates, getVariantSignificance, validateVariants } from "@/lib/campaignVariants";
+import { assignVariant } from "../../supabase/functions/_shared/campaignVariants.ts";
+import type { CampaignVariantLabel, CampaignVariantStats } from "@/types";
+
+function stats(label: CampaignVariantLabel, sent: number, replied: number): CampaignVariantStats {
+  return {
+    variant_id: `variant-${label}`,
+    campaign_id: "campaign-1",
+    label,
+    message: `Mensagem ${label}`,
+    subject: null,
+    is_winner: false,
+    leads_count: sent,
+    sent_count: sent,
+    delivered_count: sent,
+    seen_count: 0,
+    replied_count: replied,
+  };
+}
+
+describe("assignVariant", () => {
+  const variants = [{ label: "B" }, { label: "A" }, { label: "C" }];
+
+  it("returns null without variants", () => {
+    expect(assignVariant("campaign-1", "lead-1", [])).toBeNull();
+  });
+
+  it("is deterministic and independent of the input order", () => {
+    const first = assignVariant("campaign-1", "lead-1", variants);
+    const reordered = assignVariant("campaign-1", "lead-1", [...variants].reverse());
+    expect(first).not.toBeNull();
+    expect(reordered?.label).toBe(first?.label);
+  });
+
+  it("spreads leads across every variant", () => {
+    const counts: Record<string, number> = {};
+    for (let i = 0; i < 300; i++) {
+      const variant = assignVariant("campaign-1", `lead-${i}`, variants)!;
+      counts[variant.label] = (counts[variant.label] || 0) + 1;
+    }
+    expect(Object.keys(counts).sort()).toEqual(["A", "B", "C"]);
+    for (const count of Object.values(counts)) expect(count).toBeGreaterThan(60);
+  });
+});
+
+describe("getVariantSignificance", () => {
+  it("needs at least two variants with sends", () => {
+    expect(getVariantSignificance([stats("A", 100, 10)])).toBeNull();
+    expect(getVariantSignificance([stats("A", 100, 10), stats("B", 0, 0)])).toBeNull();
+  });
+
+  it("flags a clear leader as significant", () => {
+    const result = getVariantSignificance([stats("A", 100, 10), stats("B", 100, 30)]);
+    expect(result?.leaderId).toBe("variant-B");
+    expect(result?.runnerUpId).toBe("variant-A");
+    expect(result?.confidence).toBeGreaterThan(0.99);
+    expect(result?.significant).toBe(true);
+  });
+
+  it("reports 50% confidence for identical reply rates", () => {
+    const result = getVariantSignificance([stats("A", 100, 10), stats("B", 100, 10)]);
+    expect(result?.confidence).toBeCloseTo(0.5, 3);
+    expect(result?.significant).toBe(false);
+  });
+
+  it("is not significant on small samples", () => {
+    const result = getVariantSignificance([stats("A", 10, 1), stats("B", 10, 3)]);
+    expect(result?.leaderId).toBe("variant-B");
+    expect(result?.significant).toBe(false);
+  });
+
+  it("does not divide by zero when nobody replied", () => {
+    const result = getVariantSignificance([stats("A", 50, 0), stats("B", 50, 0)]);
+    expect(result?.confidence).toBe(0.5);
+  });
+});
+
+describe("getVariantRates", () => {
+  it("uses the variant's sends as the base", () => {
+    expect(getVariantRates({ ...stats("A", 200, 20), delivered_count: 150, seen_count: 50 })).toEqual({
+      deliveryRate: 75,
+      openRate: 25,
+      replyRate: 10,
+    });
+    expect(getVariantRates(stats("A", 0, 0)).replyRate).toBe(0);
+  });
+});
+
+describe("validateVariants", () => {
+  it("requires a message and a sane promotion threshold", () => {
+    expect(validateVariants([{ message: " ", subject: "" }], false, null)).toMatch(/Variante B/);
+    expect(validateVariants([{ message: "Oi", subject: "" }], false, 5)).toMatch(/pelo menos 10/);
+    expect(validateVariants([{ message: "Oi", subject: "" }], false, 20)).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { validateImportMapping } from "@/lib/leadImport";
+import {
+  buildImportedLead,
+  leadDedupeKeys,
+  parseCsvRows,
+  suggestLeadImportMapping,
+  validateLeadImportMapping,
+} from "../../supabase/functions/_shared/leadImport.ts";
+import type { CustomFieldDefinition } from "../../supabase/functions/_shared/customFields.ts";
+
+const plano: CustomFieldDefinition = { key: "plano", label: "Plano", field_type: "select", options: ["Free", "Pro"] };
+
+describe("suggestLeadImportMapping", () => {
+  it("maps pt-BR and English headers, ignoring case and accents", () => {
+    expect(suggestLeadImportMapping(["Nome", "E-mail", "Celular", "Função", "LinkedIn URL", "Observações"])).toEqual([
+      "full_name",
+      "email",
+      "mobile_number",
+      "job_title",
+      "linkedin_url",
+      null,
+    ]);
+  });
+
+  it("keeps the first column when two headers match the same field", () => {
+    expect(suggestLeadImportMapping(["email", "Work Email"])).toEqual(["email", null]);
+  });
+
+  it("matches custom fields by label or key after the lead columns", () => {
+    expect(suggestLeadImportMapping(["Plano", "empresa"], [plano])).toEqual(["custom:plano", "company"]);
+  });
+});
+
+describe("validateLeadImportMapping", () => {
+  it("requires an identifying column", () => {
+    expect(validateLeadImportMapping(["company", "city"])).toBe("Map at least one of name, email, LinkedIn or phone");
+    expect(validateLeadImportMapping(["company", "phone"])).toBeNull();
+  });
+
+  it("rejects a field mapped twice", () => {
+    expect(validateLeadImportMapping(["email", "email"])).toBe("Each lead field can be mapped to one column only");
+  });
+
+  it("rejects unknown custom fields", () => {
+    expect(validateLeadImportMapping(["email", "custom:origem"], [plano])).toBe("Unknown custom field: origem");
+    expect(validateLeadImportMapping(["email", "custom:plano"], [plano])).toBeNull();
+  });
+});
+
+describe("validateImportMapping", () => {
+  it("names the repeated field in the wizard message", () => {
+    expect(validateImportMapping(["email", null, "email"])).toMatch(/está mapeado em mais de uma coluna/);
+    expect(validateImportMapping([null, "company"])).toBe("Mapeie pelo menos uma coluna de nome, email, LinkedIn ou telefone.");
+    expect(validateImportMapping(["full_name", null])).toBeNull();
+  });
+});
+
+describe("parseCsvRows", () => {
+  it("detects the delimiter and handles quoted cells", () => {
+    const csv = '\ufeffnome;email;obs\r\n"Souza; Ana";ana@acme.com;"linha 1\nlinha ""2"""\n\n;;\n';
+    expect(parseCsvRows(csv)).toEqual([
+      ["nome", "email", "obs"],
+      ["Souza; Ana", "ana@acme.com", 'linha 1\nlinha "2"'],
+    ]);
+  });
+
+  it("defaults to commas", () => {
+    expect(parseCsvRows("nome\nAna")).toEqual([["nome"], ["Ana"]]);
+    expect(parseCsvRows("nome,email\nAna,ana@acme.com")).toEqual([["nome", "email"], ["Ana", "ana@acme.com"]]);
+  });
+});
+
+describe("buildImportedLead", () => {
+  const mapping = ["first_name", "last_name", "email", "mobile_number", "linkedin_url", "custom:plano"] as const;
+
+  it("normalizes contacts and builds the full name", () => {
+    const result = buildImportedLead(
+      ["Ana", "Souza", "Ana@Acme.com", "+55 11 98765-4321", "linkedin.com/in/ana-souza/", "pro"],
+      [...mapping],
+      [plano]
+    );
+    expect(result.lead).toEqual({
+      first_name: "Ana",
+      last_name: "Souza",
+      full_name: "Ana Souza",
+      email: "ana@acme.com",
+      mobile_number: "+5511987654321",
+      linkedin_url: "https://www.linkedin.com/in/ana-souza",
+      linkedin_public_identifier: "ana-souza",
+      custom_fields: { plano: "Pro" },
+    });
+  });
+
+  it("skips rows with invalid contacts or custom values", () => {
+    expect(buildImportedLead(["Ana", "", "ana@", "", "", ""], [...mapping]).error).toEqual({ reason: "invalid_email", value: "ana@" });
+    expect(buildImportedLead(["Ana", "", "", "123", "", ""], [...mapping]).error?.reason).toBe("invalid_phone");
+    expect(buildImportedLead(["Ana", "", "", "", "acme.com/ana", ""], [...mapping]).error?.reason).toBe("invalid_linkedin");
+    expect(buildImportedLead(["Ana", "", "", "", "", "Gold"], [...mapping], [plano]).error?.reason).toBe("invalid_custom_field");
+  });
+
+  it("skips rows without any identifier", () => {
+    expect(buildImportedLead(["", "", "", "", "", ""], [...mapping]).error).toEqual({ reason: "missing_identifier" });
+  });
+});
+
+describe("leadDedupeKeys", () => {
+  it("normalizes every identifier and drops repeats", () => {
+    expect(
+      leadDedupeKeys({
+        linkedin_url: "https://www.linkedin.com/in/Ana-Souza",
+        email: "ANA@acme.com",
+        personal_email: "ana@acme.com",
+        phone: "(11) 98765-4321",
+        mobile_number: "11 98765 4321",
+      })
+    ).toEqual({ linkedin: "ana-souza", emails: ["ana@acme.com"], phones: ["11987654321"] });
+  });
+});
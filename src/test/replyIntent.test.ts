@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { classifyReply, isPositiveIntent } from "../../supabase/functions/_shared/replyIntent.ts";
+
+describe("classifyReply", () => {
+  it.each([
+    ["PARE", "opt_out", "pare"],
+    ["Resposta automática: estou de férias até o dia 20", "out_of_office", "resposta automatica"],
+    ["Não sou a pessoa certa, fale com a Maria", "wrong_person", "nao sou a pessoa"],
+    ["Não tenho interesse, obrigado", "not_interested", "nao tenho interesse"],
+    ["Tenho interesse! Podemos marcar?", "interested", "tenho interesse"],
+    ["Sim", "interested", "sim"],
+    ["Como funciona o plano?", "question", "como funciona"],
+    ["Vocês atendem em Portugal?", "question", "\\?"],
+  ])("classifies %j as %s", (text, intent, matched) => {
+    expect(classifyReply(text)).toEqual({ intent, matched });
+  });
+
+  it("lets earlier rules win over generic ones", () => {
+    // "agora nao" (not interested) beats the question mark
+    expect(classifyReply("Agora não, talvez no próximo trimestre?").intent).toBe("not_interested");
+    // A scheduling reply with a question is still interest
+    expect(classifyReply("Vamos marcar uma reunião? Qual horário?").intent).toBe("interested");
+  });
+
+  it("matches keywords on word boundaries only", () => {
+    // "call" must not match inside "recall"
+    expect(classifyReply("recall").intent).toBe("unclassified");
+    // "sim" only counts as the whole reply
+    expect(classifyReply("simples assim").intent).toBe("unclassified");
+  });
+
+  it("leaves empty and unknown replies unclassified", () => {
+    expect(classifyReply("")).toEqual({ intent: "unclassified", matched: null });
+    expect(classifyReply(null)).toEqual({ intent: "unclassified", matched: null });
+    expect(classifyReply("Obrigado pelo contato")).toEqual({ intent: "unclassified", matched: null });
+  });
+
+  it("accepts a custom rule list", () => {
+    const rules = [{ intent: "interested" as const, patterns: [/orçamento/i] }];
+    expect(classifyReply("Me envie um orçamento", rules)).toEqual({ intent: "interested", matched: "orçamento" });
+    expect(classifyReply("pare", rules).intent).toBe("unclassified");
+  });
+});
+
+describe("isPositiveIntent", () => {
+  it("only counts interested replies", () => {
+    expect(isPositiveIntent("interested")).toBe(true);
+    expect(isPositiveIntent("question")).toBe(false);
+    expect(isPositiveIntent(null)).toBe(false);
+  });
+});
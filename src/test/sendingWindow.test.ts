@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSendingWindow,
+  buildSendingWindowColumns,
+  getLocalDateTime,
+  getNextWindowOpening,
+  isWithinSendingWindow,
+  localTimeToInstant,
+  planQueueDays,
+  projectCompletionDate,
+  type SendingWindow,
+} from "../../supabase/functions/_shared/sendingWindow.ts";
+
+// 2026-10-16 is a Friday
+const weekdays: SendingWindow = { days: [1, 2, 3, 4, 5], start: "09:00", end: "18:00", holidays: [] };
+
+describe("localTimeToInstant", () => {
+  it("converts local time in a fixed-offset zone", () => {
+    expect(localTimeToInstant("2026-10-16", "09:00", "America/Sao_Paulo").toISOString()).toBe("2026-10-16T12:00:00.000Z");
+  });
+
+  it("uses the right offset on both sides of the spring-forward change", () => {
+    expect(localTimeToInstant("2026-03-07", "09:00", "America/New_York").toISOString()).toBe("2026-03-07T14:00:00.000Z");
+    expect(localTimeToInstant("2026-03-08", "09:00", "America/New_York").toISOString()).toBe("2026-03-08T13:00:00.000Z");
+  });
+
+  it("uses the right offset on both sides of the fall-back change", () => {
+    expect(localTimeToInstant("2026-10-31", "09:00", "America/New_York").toISOString()).toBe("2026-10-31T13:00:00.000Z");
+    expect(localTimeToInstant("2026-11-01", "09:00", "America/New_York").toISOString()).toBe("2026-11-01T14:00:00.000Z");
+  });
+
+  it("round-trips the ambiguous hour of a fall-back day", () => {
+    const instant = localTimeToInstant("2026-11-01", "01:30", "America/New_York");
+    expect(getLocalDateTime(instant, "America/New_York")).toMatchObject({ date: "2026-11-01", minutes: 90 });
+  });
+
+  it("falls back to UTC for unknown timezones", () => {
+    expect(localTimeToInstant("2026-10-16", "09:00", "Not/AZone").toISOString()).toBe("2026-10-16T09:00:00.000Z");
+  });
+});
+
+describe("isWithinSendingWindow", () => {
+  it("checks weekday and hours in the given timezone", () => {
+    // 11:59 UTC = 08:59 in São Paulo
+    expect(isWithinSendingWindow(weekdays, new Date("2026-10-16T11:59:00Z"), "America/Sao_Paulo")).toBe(false);
+    expect(isWithinSendingWindow(weekdays, new Date("2026-10-16T12:00:00Z"), "America/Sao_Paulo")).toBe(true);
+    // The end is exclusive
+    expect(isWithinSendingWindow(weekdays, new Date("2026-10-16T21:00:00Z"), "America/Sao_Paulo")).toBe(false);
+    // Saturday
+    expect(isWithinSendingWindow(weekdays, new Date("2026-10-17T12:00:00Z"), "America/Sao_Paulo")).toBe(false);
+  });
+
+  it("skips holidays", () => {
+    const window = { ...weekdays, holidays: ["2026-10-16"] };
+    expect(isWithinSendingWindow(window, new Date("2026-10-16T15:00:00Z"), "UTC")).toBe(false);
+  });
+});
+
+describe("getNextWindowOpening", () => {
+  it("returns the current time when the window is open", () => {
+    expect(getNextWindowOpening(weekdays, new Date("2026-10-16T10:15:00Z"), "UTC")).toEqual({ date: "2026-10-16", time: "10:15" });
+  });
+
+  it("waits for the start of today's window", () => {
+    expect(getNextWindowOpening(weekdays, new Date("2026-10-16T07:00:00Z"), "UTC")).toEqual({ date: "2026-10-16", time: "09:00" });
+  });
+
+  it("moves to the next sending day after the window closed", () => {
+    expect(getNextWindowOpening(weekdays, new Date("2026-10-16T19:00:00Z"), "UTC")).toEqual({ date: "2026-10-19", time: "09:00" });
+  });
+});
+
+describe("planQueueDays", () => {
+  it("fills today's remaining capacity, then skips weekends", () => {
+    expect(planQueueDays(weekdays, "2026-10-16", 25, 10, 5)).toEqual([
+      { date: "2026-10-16", leads: 5 },
+      { date: "2026-10-19", leads: 10 },
+      { date: "2026-10-20", leads: 10 },
+    ]);
+  });
+
+  it("skips holidays and days without capacity left", () => {
+    const window = { ...weekdays, holidays: ["2026-10-19"] };
+    expect(planQueueDays(window, "2026-10-16", 15, 10, 0)).toEqual([
+      { date: "2026-10-20", leads: 10 },
+      { date: "2026-10-21", leads: 5 },
+    ]);
+  });
+
+  it("caps the first day at the daily limit", () => {
+    expect(planQueueDays(weekdays, "2026-10-16", 12, 10, 50)[0]).toEqual({ date: "2026-10-16", leads: 10 });
+  });
+
+  it("returns an empty plan without leads or capacity", () => {
+    expect(planQueueDays(weekdays, "2026-10-16", 0, 10)).toEqual([]);
+    expect(planQueueDays(weekdays, "2026-10-16", 10, 0)).toEqual([]);
+  });
+});
+
+describe("projectCompletionDate", () => {
+  it("is the last planned sending day", () => {
+    expect(projectCompletionDate(weekdays, "2026-10-16", 25, 10, 5)).toBe("2026-10-20");
+    expect(projectCompletionDate(weekdays, "2026-10-16", 0, 10)).toBeNull();
+  });
+});
+
+describe("buildSendingWindowColumns", () => {
+  it("normalizes days and drops a window covering the whole week", () => {
+    expect(buildSendingWindowColumns({ days: [5, 1, 1] }).columns.send_window_days).toEqual([1, 5]);
+    expect(buildSendingWindowColumns({ days: [0, 1, 2, 3, 4, 5, 6] }).columns.send_window_days).toBeNull();
+  });
+
+  it("rejects invalid input", () => {
+    expect(buildSendingWindowColumns({ days: [7] }).error).toMatch(/between 0/);
+    expect(buildSendingWindowColumns({ start: "9h" }).error).toBe("Sending window start must be HH:MM");
+    expect(buildSendingWindowColumns({ start: "18:00", end: "09:00" }).error).toMatch(/before its end/);
+  });
+
+  it("only keeps holidays when the campaign skips them", () => {
+    expect(buildSendingWindow({ skip_holidays: false }, ["2026-12-25"]).holidays).toEqual([]);
+    expect(buildSendingWindow({ skip_holidays: true }, ["2026-12-25"]).holidays).toEqual(["2026-12-25"]);
+  });
+});
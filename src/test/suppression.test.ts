@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectOptOut,
+  detectSuppressionType,
+  leadSuppressionKeys,
+  matchSuppression,
+  normalizeSuppressionValue,
+  suppressionKey,
+} from "../../supabase/functions/_shared/suppression.ts";
+
+describe("normalizeSuppressionValue", () => {
+  it("lowercases and validates emails", () => {
+    expect(normalizeSuppressionValue("email", "  Ana@Acme.COM ")).toBe("ana@acme.com");
+    expect(normalizeSuppressionValue("email", "ana@acme")).toBeNull();
+    expect(normalizeSuppressionValue("email", null)).toBeNull();
+  });
+
+  it("keeps phone digits and treats 00 as +", () => {
+    expect(normalizeSuppressionValue("phone", "+55 (11) 98765-4321")).toBe("5511987654321");
+    expect(normalizeSuppressionValue("phone", "0055 11 98765 4321")).toBe("5511987654321");
+    expect(normalizeSuppressionValue("phone", "1234")).toBeNull();
+  });
+
+  it("reduces LinkedIn URLs to the public identifier", () => {
+    expect(normalizeSuppressionValue("linkedin", "https://www.linkedin.com/in/Ana-Souza/?utm=x")).toBe("ana-souza");
+    expect(normalizeSuppressionValue("linkedin", "linkedin.com/in/ana-souza")).toBe("ana-souza");
+    expect(normalizeSuppressionValue("linkedin", "ana-souza")).toBe("ana-souza");
+    expect(normalizeSuppressionValue("linkedin", "https://www.linkedin.com/in/jos%C3%A9")).toBe("josé");
+    expect(normalizeSuppressionValue("linkedin", "https://example.com/ana")).toBeNull();
+  });
+
+  it("reduces domains, websites and emails to the host", () => {
+    expect(normalizeSuppressionValue("domain", "https://www.Acme.com.br/contato")).toBe("acme.com.br");
+    expect(normalizeSuppressionValue("domain", "ana@acme.com")).toBe("acme.com");
+    expect(normalizeSuppressionValue("domain", "@acme.com")).toBe("acme.com");
+    expect(normalizeSuppressionValue("domain", "localhost")).toBeNull();
+  });
+});
+
+describe("detectSuppressionType", () => {
+  it("guesses the type of bare values", () => {
+    expect(detectSuppressionType("https://linkedin.com/in/ana")).toBe("linkedin");
+    expect(detectSuppressionType("@acme.com")).toBe("domain");
+    expect(detectSuppressionType("ana@acme.com")).toBe("email");
+    expect(detectSuppressionType("+55 11 98765-4321")).toBe("phone");
+    expect(detectSuppressionType("acme.com")).toBe("domain");
+    expect(detectSuppressionType("ana")).toBeNull();
+  });
+});
+
+describe("matchSuppression", () => {
+  const lead = {
+    email: "Ana@Acme.com",
+    mobile_number: "+55 11 98765-4321",
+    linkedin_url: "https://www.linkedin.com/in/ana-souza/",
+    company_website: "https://acme.com",
+  };
+
+  it("matches any normalized identifier of the lead", () => {
+    expect(matchSuppression(lead, new Set([suppressionKey("phone", "5511987654321")]))).toBe("phone");
+    expect(matchSuppression(lead, new Set([suppressionKey("linkedin", "ana-souza")]))).toBe("linkedin");
+    expect(matchSuppression(lead, new Set([suppressionKey("domain", "acme.com")]))).toBe("domain");
+    expect(matchSuppression(lead, new Set([suppressionKey("email", "bia@acme.com")]))).toBeNull();
+  });
+
+  it("leaves the company domain out of opt-out keys", () => {
+    const types = leadSuppressionKeys(lead, false).map(key => key.type);
+    expect(types).toEqual(["email", "phone", "linkedin"]);
+  });
+
+  it("does not repeat keys", () => {
+    const keys = leadSuppressionKeys({ email: "ana@acme.com", company_domain: "acme.com" });
+    expect(keys).toEqual([
+      { type: "email", value: "ana@acme.com" },
+      { type: "domain", value: "acme.com" },
+    ]);
+  });
+});
+
+describe("detectOptOut", () => {
+  it("accepts single keywords only as the whole reply", () => {
+    expect(detectOptOut("PARE!")).toBe("pare");
+    expect(detectOptOut("Stop")).toBe("stop");
+    expect(detectOptOut("Não pare de mandar novidades")).toBeNull();
+    expect(detectOptOut("vou sair de férias")).toBeNull();
+  });
+
+  it("finds phrases anywhere, ignoring accents and punctuation", () => {
+    expect(detectOptOut("Olá, por favor NÃO QUERO RECEBER mais mensagens.")).toBe("nao quero receber");
+    expect(detectOptOut("Me tire da lista, obrigado")).toBe("me tire da lista");
+  });
+
+  it("ignores empty replies", () => {
+    expect(detectOptOut("")).toBeNull();
+    expect(detectOptOut(null)).toBeNull();
+    expect(detectOptOut("   ...  ")).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  findMissingVariables,
+  parseTemplate,
+  renderTemplate,
+} from "../../supabase/functions/_shared/templateEngine.ts";
+
+const lead = {
+  first_name: "Ana",
+  full_name: "Ana Souza",
+  company: "Acme",
+  job_title: "",
+  city: null,
+  custom_fields: { plano: "Pro", tags: ["a", "b"] },
+};
+
+describe("parseTemplate", () => {
+  it("parses text, variables, blocks and spintax", () => {
+    const { nodes, errors } = parseTemplate("{Oi|Olá} {{primeiro_nome|pessoal}}{{#if empresa}} da {{empresa}}{{/if}}");
+    expect(errors).toEqual([]);
+    expect(nodes.map(n => n.type)).toEqual(["spin", "text", "var", "if"]);
+    expect(nodes[2]).toEqual({ type: "var", name: "primeiro_nome", fallback: "pessoal" });
+  });
+
+  it("keeps braces without options as plain text", () => {
+    const { nodes, errors } = parseTemplate("preço {promo} e {aberto");
+    expect(errors).toEqual([]);
+    expect(nodes).toEqual([{ type: "text", value: "preço {promo} e {aberto" }]);
+  });
+
+  it("reports unbalanced blocks", () => {
+    expect(parseTemplate("{{#if empresa}}oi").errors).toEqual(["Bloco {{#if empresa}} sem {{/if}}."]);
+    expect(parseTemplate("oi{{/if}}").errors).toEqual(["{{/if}} sem o {{#if}} correspondente."]);
+    expect(parseTemplate("oi{{else}}").errors).toEqual(["{{else}} fora de um bloco {{#if}}."]);
+    expect(parseTemplate("{{#if empresa}}a{{else}}b{{else}}c{{/if}}").errors).toContain(
+      "Bloco {{#if empresa}} com mais de um {{else}}."
+    );
+    expect(parseTemplate("{{#if}}a{{/if}}").errors[0]).toMatch(/sem variável/);
+    expect(parseTemplate("Oi {{ }}").errors).toEqual(["Variável vazia: use {{nome_da_variavel}}."]);
+  });
+});
+
+describe("renderTemplate", () => {
+  it("resolves aliases, column names and custom fields", () => {
+    expect(renderTemplate("{{primeiro_nome}} / {{full_name}} / {{plano}} / {{tags}}", lead)).toBe(
+      "Ana / Ana Souza / Pro / a, b"
+    );
+  });
+
+  it("uses the fallback only when the value is empty", () => {
+    expect(renderTemplate("Oi {{primeiro_nome|pessoal}}", lead)).toBe("Oi Ana");
+    expect(renderTemplate("Oi {{cargo|profissional}}", lead)).toBe("Oi profissional");
+    expect(renderTemplate("Oi {{cidade}}!", lead)).toBe("Oi !");
+  });
+
+  it("renders the matching #if branch", () => {
+    const template = "{{#if empresa}}na {{empresa}}{{else}}sem empresa{{/if}}";
+    expect(renderTemplate(template, lead)).toBe("na Acme");
+    expect(renderTemplate(template, { ...lead, company: " " })).toBe("sem empresa");
+  });
+
+  it("picks the same spintax option for the same seed", () => {
+    const template = "{Oi|Olá|E aí|Bom dia|Opa} {{primeiro_nome}}";
+    const first = renderTemplate(template, lead, { seed: "campaign-1:lead-1" });
+    for (let i = 0; i < 5; i++) {
+      expect(renderTemplate(template, lead, { seed: "campaign-1:lead-1" })).toBe(first);
+    }
+    expect(first).toMatch(/^(Oi|Olá|E aí|Bom dia|Opa) Ana$/);
+  });
+
+  it("varies spintax picks across seeds", () => {
+    const picks = new Set(
+      Array.from({ length: 50 }, (_, i) => renderTemplate("{a|b|c}", lead, { seed: `lead-${i}` }))
+    );
+    expect(picks).toEqual(new Set(["a", "b", "c"]));
+  });
+
+  it("supports variables and nesting inside spintax options", () => {
+    const rendered = renderTemplate("{Oi {{primeiro_nome}}|Olá {{#if empresa}}{{empresa}}{{/if}}}", lead, { seed: "x" });
+    expect(["Oi Ana", "Olá Acme"]).toContain(rendered);
+  });
+
+  it("renders empty templates as empty strings", () => {
+    expect(renderTemplate("", lead)).toBe("");
+  });
+});
+
+describe("findMissingVariables", () => {
+  it("lists variables that would render empty", () => {
+    expect(findMissingVariables("Oi {{primeiro_nome}} de {{cidade}}, {{cargo}}", lead)).toEqual(["cidade", "cargo"]);
+  });
+
+  it("ignores variables with a fallback", () => {
+    expect(findMissingVariables("Oi {{cidade|sua cidade}}", lead)).toEqual([]);
+  });
+
+  it("only checks the #if branch that will render", () => {
+    expect(findMissingVariables("{{#if cidade}}em {{cidade}}{{else}}{{empresa}}{{/if}}", lead)).toEqual([]);
+    expect(findMissingVariables("{{#if empresa}}{{cargo}}{{else}}{{cidade}}{{/if}}", lead)).toEqual(["cargo"]);
+  });
+
+  it("checks every spintax option", () => {
+    expect(findMissingVariables("{Oi {{primeiro_nome}}|Olá {{cargo}}}", lead)).toEqual(["cargo"]);
+  });
+});
@@ -118,18 +118,177 @@ export interface Lead {
   profile_picture_url: string | null;
   top_skills: string | null;
   
+  // Campos personalizados (variáveis de template)
+  custom_fields?: Record<string, unknown> | null;
+  
+  // Em conversa: o lead respondeu a uma campanha (preenchido pelos webhooks)
+  in_conversation_at?: string | null;
+  in_conversation_campaign_id?: string | null;
+  
+  // Membro responsável pelo lead (suas conversas novas vão para ele)
+  assigned_to?: string | null;
+  assigned_at?: string | null;
+
+  // Etapa do pipeline (lead_stages) e quando o lead entrou nela
+  stage_id?: string | null;
+  stage_changed_at?: string | null;
+  
   last_enriched_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Importação de leads (CSV/XLSX); arquivos grandes são processados em segundo plano
+export type LeadImportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface LeadImportRowError {
+  row: number;
+  reason: string;
+  value?: string;
+}
+
+export interface LeadImportJob {
+  id: string;
+  workspace_id: string;
+  user_id: string | null;
+  storage_path: string;
+  file_name: string;
+  file_type: 'csv' | 'xlsx';
+  mapping: (string | null)[];
+  list_id: string | null;
+  tag_ids: string[];
+  update_existing: boolean;
+  status: LeadImportStatus;
+  total_rows: number;
+  processed_rows: number;
+  created_count: number;
+  updated_count: number;
+  skipped_count: number;
+  row_errors: LeadImportRowError[];
+  error_message: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
 export interface LeadFilters {
+  search: string;
   company: string;
   jobTitle: string;
   industry: string;
   country: string;
   listId: string | null;
+  stageId: string | null;
   tagIds: string[];
+  customFields: LeadCustomFieldFilter[];
+  // Seletores de leads das campanhas
+  tagMatch?: 'all' | 'any';
+  channel?: 'email' | 'whatsapp' | 'linkedin' | null;
+  excludeCampaignId?: string | null;
+}
+
+// Listagem paginada no servidor (search_leads): só as colunas da tabela de leads
+export type LeadSortColumn = 'created_at' | 'full_name' | 'company' | 'job_title';
+
+export interface LeadSort {
+  column: LeadSortColumn;
+  ascending: boolean;
+}
+
+export type LeadListItem = Pick<
+  Lead,
+  | 'id'
+  | 'full_name'
+  | 'headline'
+  | 'company'
+  | 'company_size'
+  | 'company_industry'
+  | 'job_title'
+  | 'seniority_level'
+  | 'industry'
+  | 'city'
+  | 'state'
+  | 'country'
+  | 'email'
+  | 'phone'
+  | 'mobile_number'
+  | 'linkedin_url'
+  | 'list_id'
+  | 'stage_id'
+  | 'stage_changed_at'
+  | 'last_enriched_at'
+  | 'in_conversation_at'
+  | 'created_at'
+> & {
+  /** Valor da coluna de ordenação, usado como cursor da próxima página */
+  sort_value: string;
+};
+
+// Duplicados (find_lead_duplicates): lead_id é o menor id do par
+export type LeadDuplicateReason = 'linkedin' | 'email' | 'name_company';
+
+export interface LeadDuplicatePair {
+  lead_id: string;
+  duplicate_id: string;
+  reason: LeadDuplicateReason;
+  score: number;
+}
+
+// Campos personalizados do workspace; os valores ficam em leads.custom_fields[key]
+export type LeadCustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'url';
+
+export interface LeadCustomField {
+  id: string;
+  workspace_id: string;
+  key: string;
+  label: string;
+  field_type: LeadCustomFieldType;
+  options: string[];
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// contains (texto/url), equals (seleção), has (seleção múltipla), gte/lte (número/data)
+export type LeadCustomFieldFilterOp = 'contains' | 'equals' | 'has' | 'gte' | 'lte';
+
+export type LeadCustomFieldFilter = {
+  key: string;
+  op: LeadCustomFieldFilterOp;
+  value: string | number;
+};
+
+// Pipeline: open segue o funil; won/lost encerram (movimentos automáticos não tiram o lead delas)
+export type LeadStageKind = 'open' | 'won' | 'lost';
+
+// Eventos de campanha que movem o lead para a etapa vinculada
+export type LeadStageEvent = 'sent' | 'accepted' | 'replied';
+
+export interface LeadStage {
+  id: string;
+  workspace_id: string;
+  name: string;
+  color: string;
+  kind: LeadStageKind;
+  auto_events: LeadStageEvent[];
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LeadStageHistorySource = LeadStageEvent | 'manual' | 'stage_removed';
+
+export interface LeadStageHistoryEntry {
+  id: string;
+  lead_id: string;
+  from_stage_id: string | null;
+  from_stage_name: string | null;
+  to_stage_id: string | null;
+  to_stage_name: string;
+  source: LeadStageHistorySource;
+  campaign_id: string | null;
+  changed_by: string | null;
+  created_at: string;
 }
 
 export type LinkedInAction = 'dm' | 'inmail' | 'invite';
@@ -148,10 +307,253 @@ export interface Campaign {
   leads_count: number;
   sent_count: number;
   failed_count: number;
+  variant_promote_after?: number | null;
+  winner_variant_id?: string | null;
+  winner_promoted_at?: string | null;
+  send_window_days?: number[] | null;
+  send_window_start?: string | null;
+  send_window_end?: string | null;
+  skip_holidays?: boolean;
+  use_lead_timezone?: boolean;
+  created_by?: string | null;
+  reply_stop_scope?: ReplyStopScope;
+  notify_on_reply?: boolean;
+  paused_at?: string | null;
+  message_version?: number;
+  template_id?: string | null;
+  // Dynamic campaigns: leads come from a list or tag filter ('static' = fixed selection)
+  audience_type?: 'static' | 'list' | 'tags';
+  audience_list_id?: string | null;
+  audience_tag_ids?: string[] | null;
+  audience_tag_match?: 'any' | 'all';
+  auto_enroll?: boolean;
+  daily_enroll_cap?: number | null;
+  skip_contacted_leads?: boolean;
+  last_enrolled_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What a reply halts: only the campaign that got it, or every campaign reaching the lead
+export type ReplyStopScope = 'campaign' | 'workspace';
+
+export interface AppNotification {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  type: 'lead_replied';
+  title: string;
+  body: string | null;
+  campaign_id: string | null;
+  lead_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface WorkspaceHoliday {
+  id: string;
+  workspace_id: string;
+  holiday_date: string;
+  name: string;
+  created_at: string;
+}
+
+// Account rotation pool: a campaign sends through every active account
+export interface CampaignAccount {
+  id: string;
+  campaign_id: string;
+  account_id: string;
+  is_active: boolean;
+  removed_at: string | null;
+  removed_reason: 'disconnected' | 'manual' | null;
+  created_at: string;
+  account?: {
+    name: string | null;
+    account_id: string;
+    status: string;
+  } | null;
+}
+
+// Do-not-contact list: leads matching an entry are skipped by every campaign
+export type SuppressionEntryType = 'email' | 'phone' | 'linkedin' | 'domain';
+
+export interface SuppressionEntry {
+  id: string;
+  workspace_id: string;
+  entry_type: SuppressionEntryType;
+  value: string;
+  reason: 'manual' | 'import' | 'opt_out';
+  note: string | null;
+  lead_id: string | null;
+  campaign_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Intent of a lead's reply, classified by keyword rules when it arrives
+export type ReplyIntent =
+  | 'interested'
+  | 'not_interested'
+  | 'out_of_office'
+  | 'wrong_person'
+  | 'opt_out'
+  | 'question'
+  | 'unclassified';
+
+// Saved reply shared by the workspace; 'any' snippets show up for every channel
+export type SnippetChannel = 'any' | 'email' | 'whatsapp' | 'linkedin';
+
+export interface Snippet {
+  id: string;
+  workspace_id: string;
+  title: string;
+  body: string;
+  channel: SnippetChannel;
+  shortcut: string | null;
+  version: number;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Previous content of a snippet, archived on every edit
+export interface SnippetVersion {
+  id: string;
+  snippet_id: string;
+  version: number;
+  title: string;
+  body: string;
+  channel: SnippetChannel;
+  shortcut: string | null;
+  edited_by: string | null;
+  created_at: string;
+}
+
+export type SnippetUsageContext = 'campaign' | 'inbox' | 'lead_copy';
+
+export interface SnippetWithStats extends Snippet {
+  usage_count: number;
+  reached_count: number;
+  replied_count: number;
+}
+
+export type CampaignStepAction = LinkedInAction | 'message';
+export type CampaignStepCondition = 'no_reply' | 'accepted';
+
+// Step 1 mirrors the campaign message; follow-ups start at step_order 2
+export interface CampaignStep {
+  id: string;
+  campaign_id: string;
+  step_order: number;
+  action: CampaignStepAction;
+  message: string;
+  delay_days: number;
+  condition: CampaignStepCondition;
+  created_at: string;
+}
+
+// Follow-up step as sent to create-campaign
+export interface FollowUpStepInput {
+  action: CampaignStepAction;
+  message: string;
+  delayDays: number;
+  condition: CampaignStepCondition;
+}
+
+export interface CampaignStepStats {
+  campaign_id: string;
+  step_order: number;
+  action: CampaignStepAction;
+  delay_days: number;
+  condition: CampaignStepCondition;
+  sent_count: number;
+  accepted_count: number;
+  replied_count: number;
+  waiting_count: number;
+  stopped_count: number;
+}
+
+export type CampaignVariantLabel = 'A' | 'B' | 'C' | 'D' | 'E';
+
+// Variant A mirrors the campaign message; B..E are the alternatives
+export interface CampaignVariant {
+  id: string;
+  campaign_id: string;
+  label: CampaignVariantLabel;
+  message: string;
+  subject: string | null;
+  is_winner: boolean;
+  created_at: string;
+}
+
+// Extra variant (B..E) as sent to create-campaign
+export interface CampaignVariantInput {
+  message: string;
+  subject: string;
+}
+
+// Attachment kept by a template: the stored file is reused by every campaign created from it
+export interface CampaignTemplateAttachment {
+  path: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+// Reusable campaign setup shared by the workspace (no leads, no schedule date)
+export interface CampaignTemplate {
+  id: string;
+  workspace_id: string;
+  name: string;
+  description: string | null;
+  type: Campaign['type'];
+  linkedin_action: LinkedInAction | null;
+  message: string;
+  subject: string | null;
+  account_id: string | null;
+  pool_account_ids: string[];
+  steps: FollowUpStepInput[];
+  variants: CampaignVariantInput[];
+  variant_promote_after: number | null;
+  attachments: CampaignTemplateAttachment[];
+  send_window_days: number[] | null;
+  send_window_start: string | null;
+  send_window_end: string | null;
+  skip_holidays: boolean;
+  use_lead_timezone: boolean;
+  reply_stop_scope: ReplyStopScope;
+  notify_on_reply: boolean;
+  source_campaign_id: string | null;
+  created_by: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Aggregate performance of every campaign created from the template
+export interface CampaignTemplateWithStats extends CampaignTemplate {
+  campaigns_count: number;
+  leads_count: number;
+  sent_count: number;
+  replied_count: number;
+  failed_count: number;
+  last_used_at: string | null;
+}
+
+export interface CampaignVariantStats {
+  variant_id: string;
+  campaign_id: string;
+  label: CampaignVariantLabel;
+  message: string;
+  subject: string | null;
+  is_winner: boolean;
+  leads_count: number;
+  sent_count: number;
+  delivered_count: number;
+  seen_count: number;
+  replied_count: number;
+}
+
 export interface CampaignQueue {
   id: string;
   campaign_id: string;
@@ -180,10 +582,26 @@ export interface WorkspaceSettings {
   linkedin_daily_profile_scrape_limit?: number;
   linkedin_daily_like_limit?: number;
   linkedin_daily_comment_limit?: number;
+  // Conversation assignment and response SLA
+  conversation_assignment_mode?: ConversationAssignmentMode;
+  response_sla_minutes?: number;
   created_at: string;
   updated_at: string;
 }
 
+// How new inbox conversations get an owner
+export type ConversationAssignmentMode = 'manual' | 'round_robin' | 'account';
+
+export interface ResponseTimeStats {
+  user_id: string | null;
+  responses_count: number;
+  avg_response_seconds: number | null;
+  median_response_seconds: number | null;
+  within_sla_count: number;
+  awaiting_count: number;
+  overdue_count: number;
+}
+
 export interface EngagementAction {
   id: string;
   workspace_id: string;
@@ -203,9 +621,60 @@ export interface CampaignLead {
   id: string;
   campaign_id: string;
   lead_id: string;
-  status: 'pending' | 'sent' | 'failed' | 'bounced';
+  status: 'pending' | 'sent' | 'failed' | 'bounced' | 'skipped';
+  skip_reason?: string | null;
+  reply_intent?: ReplyIntent | null;
   sent_at: string | null;
   error: string | null;
+  current_step: number;
+  next_step_at: string | null;
+  sequence_status: 'active' | 'completed' | 'stopped';
+  stop_reason: string | null;
+  created_at: string;
+}
+
+export type CampaignAttachmentKind = 'image' | 'document' | 'audio';
+
+/** Arquivo enviado junto com a primeira mensagem de todos os leads da campanha */
+export interface CampaignAttachment {
+  id: string;
+  campaign_id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  kind: CampaignAttachmentKind;
+  position: number;
+  created_at: string;
+}
+
+export type SendAttemptOutcome = 'sent' | 'failed' | 'bounced';
+
+/** Uma chamada ao provedor para um lead da campanha (primeira mensagem ou follow-up) */
+export interface CampaignSendAttempt {
+  id: string;
+  campaign_lead_id: string;
+  step_order: number;
+  attempt: number;
+  outcome: SendAttemptOutcome;
+  error: string | null;
+  provider_message_id: string | null;
+  account_id: string | null;
+  channel: string | null;
+  action: string | null;
+  source: 'send-campaign' | 'process-campaign-queue';
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+/** Mensagem da campanha numa versão: cada edição depois do lançamento cria uma nova */
+export interface CampaignMessageVersion {
+  id: string;
+  campaign_id: string;
+  version: number;
+  message: string;
+  subject: string | null;
+  created_by: string | null;
   created_at: string;
 }
 
@@ -267,7 +736,7 @@ export interface Chat {
   attendee_email?: string;
   attendee_picture?: string | null;
   last_message: string;
-  last_message_type?: 'image' | 'video' | 'audio' | 'document' | null;
+  last_message_type?: 'image' | 'video' | 'audio' | 'document' | 'file' | null;
   last_message_duration?: number | null; // For audio/video in seconds
   last_message_at: string;
   unread_count: number;
@@ -277,10 +746,24 @@ export interface Chat {
 export interface CachedChat extends Chat {
   external_id: string;
   workspace_id: string;
+  channel: 'linkedin' | 'whatsapp';
+  lead_id: string | null;
+  campaign_id: string | null;
+  last_message_sender: 'me' | 'them' | null;
+  assigned_to: string | null;
+  assigned_at: string | null;
+  awaiting_reply_since: string | null; // Oldest inbound message not answered yet
   created_at: string;
   updated_at: string;
 }
 
+// Inbox conversation with its linked lead, campaign and account
+export interface InboxChat extends CachedChat {
+  lead: Pick<Lead, 'id' | 'full_name' | 'first_name' | 'last_name' | 'company' | 'job_title' | 'profile_picture_url'> | null;
+  campaign: { id: string; name: string } | null;
+  account: { id: string; name: string | null } | null;
+}
+
 export interface MessageAttachment {
   type: 'image' | 'video' | 'audio' | 'document' | 'file';
   url: string;
@@ -300,6 +783,7 @@ export interface Message {
   timestamp: string;
   status?: 'sending' | 'sent' | 'delivered' | 'read';
   attachments?: MessageAttachment[];
+  sent_by?: string | null; // User who replied from the inbox
 }
 
 export interface Account {
@@ -310,6 +794,9 @@ export interface Account {
   account_id: string;
   name: string | null;
   status: 'connected' | 'disconnected' | 'error';
+  daily_message_limit?: number | null;
+  message_interval_seconds?: number | null;
+  owner_id?: string | null; // Member who gets this account's conversations ('account' assignment)
   created_at: string;
   updated_at: string;
 }
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+// Edge function modules shared with the app (supabase/functions/_shared) import
+// the Deno build of supabase-js; type them with the npm package
+declare module "https://esm.sh/@supabase/supabase-js@2" {
+  export * from "@supabase/supabase-js";
+}
@@ -0,0 +1,225 @@
+/**
+ * Campaign account pools (multi-account rotation)
+ * A campaign sends through every active row of campaign_accounts, or through
+ * campaigns.account_id alone when it has none. Each account keeps its own
+ * daily usage; new leads go to the account with the most capacity left and
+ * keep it (campaign_leads.account_id) for their follow-ups.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadMailbox, type Mailbox } from "./emailClient.ts";
+import { applyWarmup, type WarmupAccount } from "./warmup.ts";
+
+// ============= TYPES =============
+
+export type PoolUsageAction = 'linkedin_message' | 'linkedin_invite' | 'whatsapp_message' | 'email_message';
+
+export interface PoolAccount {
+  id: string;                   // accounts.id (campaign_leads.account_id)
+  accountId: string;            // accounts.account_id (provider calls & usage key)
+  name: string | null;
+  linkedinFeature: string;
+  mailbox: Mailbox | null;      // email only
+  dailyLimit: number;
+  intervalSeconds: number | null;
+  used: number;                 // today's usage for the pool's action
+}
+
+export interface PoolCampaign {
+  id: string;
+  workspace_id: string;
+  type: string;
+  account_id: string | null;
+}
+
+export interface LoadPoolParams {
+  campaign: PoolCampaign;
+  usageAction: PoolUsageAction;
+  /** Workspace limit for the action; accounts may lower/raise it for messages */
+  defaultDailyLimit: number;
+  usageDate: string;
+}
+
+interface AccountRow extends WarmupAccount {
+  id: string;
+  account_id: string;
+  name: string | null;
+  channel: string;
+  status: string;
+  linkedin_feature: string | null;
+  daily_message_limit: number | null;
+  message_interval_seconds: number | null;
+}
+
+// ============= LOADING =============
+
+/** accounts.id of the campaign's active pool (the primary account when there is no pool) */
+export async function loadCampaignAccountIds(supabase: SupabaseClient, campaign: PoolCampaign): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('campaign_accounts')
+    .select('account_id, is_active')
+    .eq('campaign_id', campaign.id);
+
+  if (error) {
+    console.error(`[accountPool] Error loading pool for campaign ${campaign.id}:`, error);
+  }
+
+  const rows = (data || []) as { account_id: string; is_active: boolean }[];
+  if (rows.length === 0) return campaign.account_id ? [campaign.account_id] : [];
+  return rows.filter(row => row.is_active).map(row => row.account_id);
+}
+
+/** Connected accounts of the pool with their limits and today's usage */
+export async function loadAccountPool(supabase: SupabaseClient, params: LoadPoolParams): Promise<PoolAccount[]> {
+  const { campaign, usageAction, defaultDailyLimit, usageDate } = params;
+  const ids = await loadCampaignAccountIds(supabase, campaign);
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('id, account_id, name, channel, status, linkedin_feature, daily_message_limit, message_interval_seconds, warmup_enabled, warmup_started_at, warmup_start_limit, warmup_daily_increase')
+    .in('id', ids)
+    .eq('workspace_id', campaign.workspace_id);
+
+  if (error) {
+    console.error(`[accountPool] Error loading accounts for campaign ${campaign.id}:`, error);
+    return [];
+  }
+
+  const pool: PoolAccount[] = [];
+  for (const row of (data || []) as AccountRow[]) {
+    if (row.status !== 'connected' || row.channel !== campaign.type) continue;
+
+    const mailbox = campaign.type === 'email' ? await loadMailbox(supabase, row.id) : null;
+    if (campaign.type === 'email' && !mailbox) continue;
+
+    const { data: usage } = await supabase.rpc('get_daily_usage', {
+      p_workspace_id: campaign.workspace_id,
+      p_account_id: row.account_id,
+      p_action: usageAction,
+      p_usage_date: usageDate,
+    });
+
+    pool.push({
+      id: row.id,
+      accountId: row.account_id,
+      name: row.name,
+      linkedinFeature: row.linkedin_feature || 'classic',
+      mailbox,
+      // Invites always follow the workspace invite limit; new accounts ramp up to it
+      dailyLimit: applyWarmup(
+        row,
+        usageAction === 'linkedin_invite' ? defaultDailyLimit : (row.daily_message_limit ?? defaultDailyLimit)
+      ),
+      intervalSeconds: row.message_interval_seconds,
+      used: usage || 0,
+    });
+  }
+
+  // Keep the primary account first so single-account campaigns behave as before
+  return pool.sort((a, b) => Number(b.id === campaign.account_id) - Number(a.id === campaign.account_id));
+}
+
+// ============= SELECTION =============
+
+export function accountCapacity(account: PoolAccount): number {
+  return Math.max(0, account.dailyLimit - account.used);
+}
+
+export function poolCapacity(pool: PoolAccount[]): number {
+  return pool.reduce((sum, account) => sum + accountCapacity(account), 0);
+}
+
+export function poolDailyLimit(pool: PoolAccount[]): number {
+  return pool.reduce((sum, account) => sum + account.dailyLimit, 0);
+}
+
+/**
+ * Sender for a lead. A lead already contacted (`sticky`) only goes through
+ * its own account; otherwise its previous account is preferred and the
+ * account with the most capacity left is used. Null = wait for capacity.
+ */
+export function pickPoolAccount(
+  pool: PoolAccount[],
+  leadAccountId: string | null,
+  sticky = false
+): PoolAccount | null {
+  const current = leadAccountId ? pool.find(account => account.id === leadAccountId) : undefined;
+  if (sticky) return current && accountCapacity(current) > 0 ? current : null;
+  if (current && accountCapacity(current) > 0) return current;
+
+  let best: PoolAccount | null = null;
+  for (const account of pool) {
+    if (accountCapacity(account) > 0 && (!best || accountCapacity(account) > accountCapacity(best))) {
+      best = account;
+    }
+  }
+  return best;
+}
+
+// ============= ACCOUNT STATUS =============
+
+/**
+ * Drops a provider account from every campaign pool (webhook-account-status).
+ * Leads not contacted yet are released so another account of the pool takes
+ * them; leads mid-sequence keep their sender and wait for it to reconnect.
+ */
+export async function deactivatePoolAccount(
+  supabase: SupabaseClient,
+  providerAccountId: string,
+  reason: string
+): Promise<number> {
+  const { data: accounts } = await supabase
+    .from('accounts')
+    .select('id')
+    .eq('account_id', providerAccountId);
+  const ids = (accounts || []).map((a: { id: string }) => a.id);
+  if (ids.length === 0) return 0;
+
+  const { data: removed, error } = await supabase
+    .from('campaign_accounts')
+    .update({ is_active: false, removed_at: new Date().toISOString(), removed_reason: reason })
+    .in('account_id', ids)
+    .eq('is_active', true)
+    .select('campaign_id');
+
+  if (error) {
+    console.error(`[accountPool] Error deactivating ${providerAccountId}:`, error);
+    return 0;
+  }
+
+  const campaignIds = [...new Set((removed || []).map((r: { campaign_id: string }) => r.campaign_id))];
+  if (campaignIds.length > 0) {
+    await supabase
+      .from('campaign_leads')
+      .update({ account_id: null })
+      .in('campaign_id', campaignIds)
+      .in('account_id', ids)
+      .eq('status', 'pending');
+  }
+  return campaignIds.length;
+}
+
+/** Puts an account that reconnected back into the pools it was dropped from */
+export async function reactivatePoolAccount(supabase: SupabaseClient, providerAccountId: string): Promise<number> {
+  const { data: accounts } = await supabase
+    .from('accounts')
+    .select('id')
+    .eq('account_id', providerAccountId);
+  const ids = (accounts || []).map((a: { id: string }) => a.id);
+  if (ids.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('campaign_accounts')
+    .update({ is_active: true, removed_at: null, removed_reason: null })
+    .in('account_id', ids)
+    .eq('is_active', false)
+    .eq('removed_reason', 'disconnected')
+    .select('id');
+
+  if (error) {
+    console.error(`[accountPool] Error reactivating ${providerAccountId}:`, error);
+    return 0;
+  }
+  return (data || []).length;
+}
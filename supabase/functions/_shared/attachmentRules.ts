@@ -0,0 +1,99 @@
+/**
+ * Campaign attachment rules
+ * - Which file types and sizes each channel accepts on the first message
+ * - Shared by create-campaign and the campaign dialog (no imports on purpose)
+ */
+
+// ============= CONFIGURATION =============
+
+export const CAMPAIGN_ATTACHMENTS_BUCKET = 'campaign-attachments';
+
+export type CampaignAttachmentKind = 'image' | 'document' | 'audio';
+
+export const ATTACHMENT_MIME_KINDS: Record<string, CampaignAttachmentKind> = {
+  'image/jpeg': 'image',
+  'image/png': 'image',
+  'image/webp': 'image',
+  'application/pdf': 'document',
+  'application/msword': 'document',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'document',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'document',
+  'audio/ogg': 'audio',
+  'audio/mpeg': 'audio',
+  'audio/mp4': 'audio',
+  'audio/aac': 'audio',
+};
+
+export interface AttachmentRule {
+  /** MIME types accepted on this channel */
+  mimeTypes: string[];
+  maxBytes: number;
+  maxCount: number;
+}
+
+const MB = 1024 * 1024;
+
+// WhatsApp caps media at 16 MB; audio in ogg/opus is played as a voice note
+const WHATSAPP_RULE: AttachmentRule = {
+  mimeTypes: Object.keys(ATTACHMENT_MIME_KINDS).filter(mime =>
+    ATTACHMENT_MIME_KINDS[mime] !== 'document' || mime === 'application/pdf'
+  ),
+  maxBytes: 16 * MB,
+  maxCount: 3,
+};
+
+// Unipile rejects LinkedIn uploads above 15 MB; only documents go with DMs
+const LINKEDIN_DM_RULE: AttachmentRule = {
+  mimeTypes: Object.keys(ATTACHMENT_MIME_KINDS).filter(mime => ATTACHMENT_MIME_KINDS[mime] === 'document'),
+  maxBytes: 15 * MB,
+  maxCount: 3,
+};
+
+// ============= RULES =============
+
+/**
+ * Attachment rule for a campaign's first message, or null when the channel
+ * (email, LinkedIn invite/InMail) does not take attachments.
+ */
+export function getAttachmentRule(channel: string, linkedinAction?: string | null): AttachmentRule | null {
+  if (channel === 'whatsapp') return WHATSAPP_RULE;
+  if (channel === 'linkedin' && (linkedinAction || 'dm') === 'dm') return LINKEDIN_DM_RULE;
+  return null;
+}
+
+export function attachmentKind(mimeType: string): CampaignAttachmentKind | null {
+  return ATTACHMENT_MIME_KINDS[mimeType.toLowerCase()] ?? null;
+}
+
+export interface AttachmentFileInfo {
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export type AttachmentProblem =
+  | { code: 'not_supported' }
+  | { code: 'too_many'; max: number }
+  | { code: 'type'; fileName: string }
+  | { code: 'size'; fileName: string; maxBytes: number }
+  | { code: 'empty'; fileName: string };
+
+/** First problem with the attachments for this channel, or null when they can be sent */
+export function findAttachmentProblem(
+  channel: string,
+  linkedinAction: string | null | undefined,
+  files: AttachmentFileInfo[]
+): AttachmentProblem | null {
+  if (files.length === 0) return null;
+
+  const rule = getAttachmentRule(channel, linkedinAction);
+  if (!rule) return { code: 'not_supported' };
+  if (files.length > rule.maxCount) return { code: 'too_many', max: rule.maxCount };
+
+  for (const file of files) {
+    if (!rule.mimeTypes.includes(file.mimeType.toLowerCase())) return { code: 'type', fileName: file.fileName };
+    if (file.size <= 0) return { code: 'empty', fileName: file.fileName };
+    if (file.size > rule.maxBytes) return { code: 'size', fileName: file.fileName, maxBytes: rule.maxBytes };
+  }
+  return null;
+}
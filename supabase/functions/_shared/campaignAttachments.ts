@@ -0,0 +1,64 @@
+/**
+ * Campaign attachments for the send loops
+ * - Downloads the campaign's files from Storage once per run
+ * - Appends the same files to every lead's first message (Unipile multipart)
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { CAMPAIGN_ATTACHMENTS_BUCKET, type CampaignAttachmentKind } from "./attachmentRules.ts";
+
+// ============= TYPES =============
+
+export interface CampaignAttachmentFile {
+  fileName: string;
+  mimeType: string;
+  kind: CampaignAttachmentKind;
+  blob: Blob;
+}
+
+// ============= LOADING =============
+
+/**
+ * Loads the campaign's attachments in order. Throws when a file is missing
+ * from Storage: sending the text without the promised file would be worse
+ * than not sending.
+ */
+export async function loadCampaignAttachments(
+  supabase: SupabaseClient,
+  campaignId: string
+): Promise<CampaignAttachmentFile[]> {
+  const { data: rows, error } = await supabase
+    .from('campaign_attachments')
+    .select('storage_path, file_name, mime_type, kind')
+    .eq('campaign_id', campaignId)
+    .order('position', { ascending: true });
+
+  if (error) throw new Error(`Failed to load campaign attachments: ${error.message}`);
+
+  const files: CampaignAttachmentFile[] = [];
+  for (const row of rows || []) {
+    const { data: blob, error: downloadError } = await supabase.storage
+      .from(CAMPAIGN_ATTACHMENTS_BUCKET)
+      .download(row.storage_path);
+
+    if (downloadError || !blob) {
+      throw new Error(`Attachment ${row.file_name} could not be downloaded: ${downloadError?.message || 'not found'}`);
+    }
+    files.push({
+      fileName: row.file_name,
+      mimeType: row.mime_type,
+      kind: row.kind as CampaignAttachmentKind,
+      blob,
+    });
+  }
+  return files;
+}
+
+// ============= SENDING =============
+
+/** Adds the files as "attachments" parts of a Unipile /chats request */
+export function appendAttachments(formData: FormData, files: CampaignAttachmentFile[]): void {
+  for (const file of files) {
+    formData.append('attachments', new File([file.blob], file.fileName, { type: file.mimeType }), file.fileName);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Dynamic campaign audiences: a lead list or a tag filter instead of a fixed
+ * set of leads. Import-free so the frontend can share the types.
+ */
+
+// ============= TYPES =============
+
+export type AudienceType = 'static' | 'list' | 'tags';
+export type AudienceTagMatch = 'any' | 'all';
+
+/** Audience as sent to create-campaign (absent = static campaign) */
+export interface AudienceInput {
+  type: 'list' | 'tags';
+  listId?: string | null;
+  tagIds?: string[];
+  tagMatch?: AudienceTagMatch;
+  autoEnroll?: boolean;
+  dailyCap?: number | null;
+  skipContacted?: boolean;
+}
+
+export interface CampaignAudienceColumns {
+  audience_type: AudienceType;
+  audience_list_id: string | null;
+  audience_tag_ids: string[] | null;
+  audience_tag_match: AudienceTagMatch;
+  auto_enroll: boolean;
+  daily_enroll_cap: number | null;
+  skip_contacted_leads: boolean;
+}
+
+// ============= HELPERS =============
+
+/** Validates the form input and maps it to campaigns columns */
+export function buildAudienceColumns(
+  input: AudienceInput | null | undefined
+): { columns: CampaignAudienceColumns; error?: string } {
+  const columns: CampaignAudienceColumns = {
+    audience_type: 'static',
+    audience_list_id: null,
+    audience_tag_ids: null,
+    audience_tag_match: 'any',
+    auto_enroll: false,
+    daily_enroll_cap: null,
+    skip_contacted_leads: true,
+  };
+  if (!input) return { columns };
+
+  if (input.type === 'list') {
+    if (!input.listId) return { columns, error: 'Audience list is required' };
+    columns.audience_type = 'list';
+    columns.audience_list_id = input.listId;
+  } else if (input.type === 'tags') {
+    const tagIds = [...new Set(input.tagIds || [])];
+    if (tagIds.length === 0) return { columns, error: 'Select at least one audience tag' };
+    if (input.tagMatch !== undefined && input.tagMatch !== 'any' && input.tagMatch !== 'all') {
+      return { columns, error: 'Audience tag match must be "any" or "all"' };
+    }
+    columns.audience_type = 'tags';
+    columns.audience_tag_ids = tagIds;
+    columns.audience_tag_match = input.tagMatch || 'any';
+  } else {
+    return { columns, error: 'Audience type must be "list" or "tags"' };
+  }
+
+  if (input.dailyCap !== undefined && input.dailyCap !== null) {
+    const cap = Math.floor(Number(input.dailyCap));
+    if (!Number.isFinite(cap) || cap < 1) {
+      return { columns, error: 'Daily enrollment cap must be at least 1' };
+    }
+    columns.daily_enroll_cap = cap;
+  }
+
+  columns.auto_enroll = input.autoEnroll !== false;
+  columns.skip_contacted_leads = input.skipContacted !== false;
+  return { columns };
+}
@@ -0,0 +1,184 @@
+/**
+ * Adding leads to a campaign after it was created
+ * - update-campaign-leads: leads picked by a member ('manual')
+ * - create-campaign / enroll-dynamic-campaigns: leads brought in by a list or
+ *   tag audience ('auto'), limited by get_dynamic_campaign_candidates
+ * Same rules as create-campaign: the channel's contact is required, leads on
+ * the do-not-contact list are linked as 'skipped' and the A/B variant is
+ * assigned deterministically.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { assignVariant, loadCampaignVariants } from "./campaignVariants.ts";
+import { matchSuppression, type SuppressibleLead } from "./suppression.ts";
+import { loadSuppressionIndex, SUPPRESSION_LEAD_COLUMNS } from "./suppressionList.ts";
+
+// ============= TYPES =============
+
+export type EnrolledVia = 'manual' | 'auto';
+
+export interface EnrollableCampaign {
+  id: string;
+  workspace_id: string;
+  type: string;
+}
+
+export interface EnrollmentResult {
+  addedCount: number;
+  invalidCount: number;
+  suppressedCount: number;
+  alreadyInCampaignCount: number;
+}
+
+type EnrollableLead = SuppressibleLead & { id: string };
+
+// Campaigns already launched: new leads need a queue plan (send-campaign replan=true).
+// Draft/scheduled campaigns plan at launch; paused ones when they resume.
+export const REPLAN_STATUSES = ['queued', 'sending', 'running', 'partial', 'completed', 'failed'];
+
+// Keeps .in() filters well under the URL length limit
+const LOOKUP_CHUNK_SIZE = 200;
+
+// Upper bound of one auto-enroll run per campaign (the daily cap may be lower)
+export const MAX_ENROLL_BATCH = 500;
+
+// ============= RULES =============
+
+/** Same contact requirement as create-campaign */
+export function hasChannelContact(type: string, lead: SuppressibleLead): boolean {
+  if (type === 'email') return !!lead.email;
+  if (type === 'sms' || type === 'whatsapp') return !!lead.mobile_number;
+  if (type === 'linkedin') return !!lead.linkedin_url;
+  return true;
+}
+
+// ============= ENROLLMENT =============
+
+/** Links workspace leads to the campaign; leads already in it keep their row (and history) */
+export async function enrollCampaignLeads(
+  supabase: SupabaseClient,
+  campaign: EnrollableCampaign,
+  leadIds: string[],
+  via: EnrolledVia
+): Promise<EnrollmentResult> {
+  const ids = [...new Set(leadIds)];
+  const storedLeads: EnrollableLead[] = [];
+  for (let i = 0; i < ids.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data: leadRows, error: leadsError } = await supabase
+      .from('leads')
+      .select(`id, ${SUPPRESSION_LEAD_COLUMNS}`)
+      .eq('workspace_id', campaign.workspace_id)
+      .in('id', ids.slice(i, i + LOOKUP_CHUNK_SIZE));
+    if (leadsError) {
+      throw new Error(`Failed to load leads: ${leadsError.message}`);
+    }
+    storedLeads.push(...((leadRows || []) as EnrollableLead[]));
+  }
+
+  const validLeads = storedLeads.filter(lead => hasChannelContact(campaign.type, lead));
+  const invalidCount = ids.length - validLeads.length;
+  if (validLeads.length === 0) {
+    return { addedCount: 0, invalidCount, suppressedCount: 0, alreadyInCampaignCount: 0 };
+  }
+
+  const suppressionIndex = await loadSuppressionIndex(supabase, campaign.workspace_id, validLeads);
+  const variants = await loadCampaignVariants(supabase, campaign.id);
+
+  let suppressedCount = 0;
+  const rows = validLeads.map(lead => {
+    const suppressedBy = matchSuppression(lead, suppressionIndex);
+    if (suppressedBy) suppressedCount++;
+    return {
+      campaign_id: campaign.id,
+      lead_id: lead.id,
+      status: suppressedBy ? 'skipped' : 'pending',
+      skip_reason: suppressedBy ? `suppressed_${suppressedBy}` : null,
+      retry_count: 0,
+      variant_id: suppressedBy ? null : assignVariant(campaign.id, lead.id, variants)?.id ?? null,
+      enrolled_via: via,
+    };
+  });
+
+  const { data: inserted, error } = await supabase
+    .from('campaign_leads')
+    .upsert(rows, { onConflict: 'campaign_id,lead_id', ignoreDuplicates: true })
+    .select('id, status');
+
+  if (error) {
+    throw new Error(`Failed to add leads: ${error.message}`);
+  }
+
+  const insertedRows = (inserted || []) as { id: string; status: string }[];
+  const addedCount = insertedRows.filter(row => row.status === 'pending').length;
+  return {
+    addedCount,
+    invalidCount,
+    suppressedCount: insertedRows.length - addedCount,
+    alreadyInCampaignCount: validLeads.length - insertedRows.length,
+  };
+}
+
+/** Enrolls the leads the campaign's audience matches now (up to today's cap) */
+export async function enrollDynamicCampaign(
+  supabase: SupabaseClient,
+  campaign: EnrollableCampaign
+): Promise<EnrollmentResult> {
+  const { data, error } = await supabase.rpc('get_dynamic_campaign_candidates', {
+    p_campaign_id: campaign.id,
+    p_limit: MAX_ENROLL_BATCH,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load audience candidates: ${error.message}`);
+  }
+
+  const candidateIds = ((data || []) as { lead_id: string }[]).map(row => row.lead_id);
+  const result = candidateIds.length > 0
+    ? await enrollCampaignLeads(supabase, campaign, candidateIds, 'auto')
+    : { addedCount: 0, invalidCount: 0, suppressedCount: 0, alreadyInCampaignCount: 0 };
+
+  await supabase
+    .from('campaigns')
+    .update({ last_enrolled_at: new Date().toISOString() })
+    .eq('id', campaign.id);
+
+  return result;
+}
+
+// ============= REPLAN =============
+
+export interface CampaignReplanResult {
+  ok: boolean;
+  /** send-campaign response body (null when the request itself failed) */
+  body: unknown;
+  error: string | null;
+}
+
+/**
+ * Plans the queue of a launched campaign again so new pending leads get sent.
+ * Pass the caller's Authorization header, or `Bearer <service role key>` from
+ * scheduled jobs (send-campaign trusts it for replans only).
+ */
+export async function requestCampaignReplan(authorization: string, campaignId: string): Promise<CampaignReplanResult> {
+  try {
+    const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/send-campaign`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': authorization,
+      },
+      body: JSON.stringify({ campaignId, replan: true }),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      console.error(`[campaignEnrollment] send-campaign replan failed for ${campaignId} (${response.status}):`, body);
+      const message = (body as { error?: string } | null)?.error;
+      return { ok: false, body, error: `send-campaign returned ${response.status}${message ? `: ${message}` : ''}` };
+    }
+    return { ok: true, body, error: null };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[campaignEnrollment] send-campaign replan request failed for ${campaignId}:`, message);
+    return { ok: false, body: null, error: message };
+  }
+}
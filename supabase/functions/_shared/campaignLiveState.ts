@@ -0,0 +1,52 @@
+/**
+ * Campaign state re-read by the send loops between leads
+ * - status: a campaign paused mid-run stops after the current lead
+ * - message/subject/message_version: edits made while the campaign runs
+ *   apply to the leads not sent yet
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// ============= TYPES =============
+
+export interface CampaignLiveState {
+  status: string;
+  message: string;
+  subject: string | null;
+  message_version: number;
+}
+
+// ============= LOADING =============
+
+/** Current state of the campaign, or null when it can't be read (the loop keeps going) */
+export async function loadCampaignLiveState(
+  supabase: SupabaseClient,
+  campaignId: string
+): Promise<CampaignLiveState | null> {
+  const { data, error } = await supabase
+    .from('campaigns')
+    .select('status, message, subject, message_version')
+    .eq('id', campaignId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[campaignLiveState] Error reading campaign ${campaignId}:`, error);
+    return null;
+  }
+  return (data as CampaignLiveState | null) ?? null;
+}
+
+/**
+ * Applies a newer message version to the campaign row the loop holds.
+ * Returns true when the message changed (variants must be reloaded).
+ */
+export function applyMessageEdit<T extends { message: string; subject: string | null; message_version: number }>(
+  campaign: T,
+  live: CampaignLiveState
+): boolean {
+  if (live.message_version === campaign.message_version) return false;
+  campaign.message = live.message;
+  campaign.subject = live.subject;
+  campaign.message_version = live.message_version;
+  return true;
+}
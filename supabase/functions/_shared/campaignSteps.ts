@@ -0,0 +1,316 @@
+/**
+ * Multi-step campaign sequences
+ * Step 1 is the campaign's own message; steps 2..N are follow-ups that
+ * process-campaign-queue sends once campaign_leads.next_step_at is due.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { IDEMPOTENCY_HEADER } from "./sendLease.ts";
+import { extractLinkedInPublicIdentifier, resolveLinkedInProviderId } from "./linkedinUrl.ts";
+
+// ============= CONFIGURATION =============
+
+/** How long a follow-up with condition "accepted" waits for the invite to be accepted */
+export const ACCEPTANCE_TIMEOUT_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============= TYPES =============
+
+export type StepAction = 'invite' | 'dm' | 'inmail' | 'message';
+export type StepCondition = 'no_reply' | 'accepted';
+export type SequenceStatus = 'active' | 'completed' | 'stopped';
+export type StopReason = 'replied' | 'replied_elsewhere' | 'not_accepted' | 'failed' | 'bounced' | 'suppressed' | 'opted_out';
+export type UsageAction = 'linkedin_message' | 'linkedin_invite' | 'whatsapp_message' | 'email_message';
+
+export interface CampaignStep {
+  id: string;
+  campaign_id: string;
+  step_order: number;
+  action: StepAction;
+  message: string;
+  delay_days: number;
+  condition: StepCondition;
+}
+
+export interface StepAdvance {
+  current_step: number;
+  next_step_at: string | null;
+  sequence_status: SequenceStatus;
+}
+
+export interface StepLead {
+  mobile_number: string | null;
+  phone: string | null;
+  linkedin_url: string | null;
+}
+
+export interface SendStepParams {
+  unipileDsn: string;
+  unipileApiKey: string;
+  unipileAccountId: string;
+  linkedinFeature: string;
+  channel: string;
+  action: StepAction;
+  lead: StepLead;
+  text: string;
+  /** Sent as Idempotency-Key so a retried request is not delivered twice */
+  idempotencyKey?: string;
+}
+
+export interface SendStepResult {
+  success: boolean;
+  providerMessageId: string | null;
+  error: string | null;
+}
+
+export interface FollowUpStepInput {
+  action?: string;
+  message?: string;
+  delayDays?: number;
+  condition?: string;
+}
+
+export type CampaignStepRow = Omit<CampaignStep, 'id' | 'campaign_id'>;
+
+export const MAX_FOLLOW_UP_STEPS = 10;
+
+// ============= VALIDATION =============
+
+function firstStepAction(channel: string, linkedinAction?: string | null): StepAction {
+  if (channel === 'linkedin') return (linkedinAction || 'dm') as StepAction;
+  return 'message';
+}
+
+/**
+ * Builds campaign_steps rows (step 1 = the campaign message) from follow-ups
+ * sent by the client. Returns an empty list when there are no follow-ups so
+ * single-message campaigns don't get step rows.
+ */
+export function buildCampaignStepRows(
+  channel: string,
+  firstMessage: string,
+  linkedinAction: string | null | undefined,
+  followUps: FollowUpStepInput[] | null | undefined
+): { rows: CampaignStepRow[]; error?: string } {
+  if (!followUps || followUps.length === 0) return { rows: [] };
+
+  if (channel === 'email') {
+    return { rows: [], error: 'Follow-up steps are not available for email campaigns yet' };
+  }
+
+  if (followUps.length > MAX_FOLLOW_UP_STEPS) {
+    return { rows: [], error: `A sequence supports at most ${MAX_FOLLOW_UP_STEPS} follow-up steps` };
+  }
+
+  const allowedActions: StepAction[] = channel === 'linkedin' ? ['dm', 'inmail', 'invite'] : ['message'];
+  const rows: CampaignStepRow[] = [{
+    step_order: 1,
+    action: firstStepAction(channel, linkedinAction),
+    message: firstMessage || '',
+    delay_days: 0,
+    condition: 'no_reply',
+  }];
+
+  for (const [index, step] of followUps.entries()) {
+    const stepOrder = index + 2;
+    const action = (step.action || allowedActions[0]) as StepAction;
+    const condition = (step.condition || 'no_reply') as StepCondition;
+    const delayDays = Math.floor(Number(step.delayDays ?? 0));
+    const message = (step.message || '').trim();
+
+    if (!allowedActions.includes(action)) {
+      return { rows: [], error: `Step ${stepOrder}: action "${action}" is not available for ${channel}` };
+    }
+    if (condition !== 'no_reply' && condition !== 'accepted') {
+      return { rows: [], error: `Step ${stepOrder}: invalid condition "${condition}"` };
+    }
+    if (condition === 'accepted' && !rows.some(r => r.action === 'invite')) {
+      return { rows: [], error: `Step ${stepOrder}: "accepted" requires an earlier invite step` };
+    }
+    if (!Number.isFinite(delayDays) || delayDays < 0 || delayDays > 90) {
+      return { rows: [], error: `Step ${stepOrder}: delay must be between 0 and 90 days` };
+    }
+    if (!message && action !== 'invite') {
+      return { rows: [], error: `Step ${stepOrder}: message is required` };
+    }
+
+    rows.push({ step_order: stepOrder, action, message, delay_days: delayDays, condition });
+  }
+
+  return { rows };
+}
+
+// ============= SCHEDULING =============
+
+export async function loadCampaignSteps(supabase: SupabaseClient, campaignId: string): Promise<CampaignStep[]> {
+  const { data, error } = await supabase
+    .from('campaign_steps')
+    .select('id, campaign_id, step_order, action, message, delay_days, condition')
+    .eq('campaign_id', campaignId)
+    .order('step_order', { ascending: true });
+
+  if (error) {
+    console.error(`[campaignSteps] Error loading steps for ${campaignId}:`, error);
+    return [];
+  }
+  return (data || []) as CampaignStep[];
+}
+
+/**
+ * Sequence state to persist on campaign_leads after a step was sent.
+ * Follow-ups gated on acceptance get a deadline instead of a due date;
+ * the webhook reschedules them when the invite is accepted.
+ */
+export function buildStepAdvance(
+  steps: CampaignStep[],
+  sentStepOrder: number,
+  sentAt: Date,
+  options: { accepted?: boolean } = {}
+): StepAdvance {
+  const nextStep = steps.find(s => s.step_order === sentStepOrder + 1);
+
+  if (!nextStep) {
+    return { current_step: sentStepOrder, next_step_at: null, sequence_status: 'completed' };
+  }
+
+  const waitDays = nextStep.condition === 'accepted' && !options.accepted
+    ? ACCEPTANCE_TIMEOUT_DAYS
+    : nextStep.delay_days;
+
+  return {
+    current_step: sentStepOrder,
+    next_step_at: new Date(sentAt.getTime() + waitDays * DAY_MS).toISOString(),
+    sequence_status: 'active',
+  };
+}
+
+/**
+ * Called when an invite is accepted: if the lead's next step waits for
+ * acceptance, count its delay from the acceptance time.
+ */
+export async function scheduleAfterAcceptance(
+  supabase: SupabaseClient,
+  campaignLeadId: string,
+  acceptedAt: string
+): Promise<void> {
+  const { data: cl } = await supabase
+    .from('campaign_leads')
+    .select('id, campaign_id, current_step, sequence_status')
+    .eq('id', campaignLeadId)
+    .maybeSingle();
+
+  if (!cl || cl.sequence_status !== 'active' || cl.current_step < 1) return;
+
+  const steps = await loadCampaignSteps(supabase, cl.campaign_id);
+  const nextStep = steps.find(s => s.step_order === cl.current_step + 1);
+  if (!nextStep || nextStep.condition !== 'accepted') return;
+
+  const dueAt = new Date(new Date(acceptedAt).getTime() + nextStep.delay_days * DAY_MS).toISOString();
+  await supabase
+    .from('campaign_leads')
+    .update({ next_step_at: dueAt })
+    .eq('id', campaignLeadId)
+    .eq('sequence_status', 'active');
+}
+
+/** Halts every remaining step for a lead (idempotent) */
+export async function stopLeadSequence(
+  supabase: SupabaseClient,
+  campaignLeadId: string,
+  reason: StopReason
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('campaign_leads')
+    .update({
+      sequence_status: 'stopped',
+      stop_reason: reason,
+      stopped_at: new Date().toISOString(),
+      next_step_at: null,
+    })
+    .eq('id', campaignLeadId)
+    .eq('sequence_status', 'active')
+    .select('id');
+
+  if (error) {
+    console.error(`[campaignSteps] Error stopping sequence for ${campaignLeadId}:`, error);
+    return false;
+  }
+  return (data || []).length > 0;
+}
+
+export function usageActionForStep(channel: string, action: StepAction): UsageAction {
+  if (channel === 'linkedin') {
+    return action === 'invite' ? 'linkedin_invite' : 'linkedin_message';
+  }
+  return 'whatsapp_message';
+}
+
+// ============= SENDING =============
+
+function parseProviderMessageId(responseText: string): string | null {
+  try {
+    const data = JSON.parse(responseText);
+    return data.message_id || data.invitation_id || data.id || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Sends one follow-up step through the messaging provider */
+export async function sendSequenceStep(params: SendStepParams): Promise<SendStepResult> {
+  const { unipileDsn, unipileApiKey, unipileAccountId, linkedinFeature, channel, action, lead, text, idempotencyKey } = params;
+  const headers: Record<string, string> = { 'X-API-KEY': unipileApiKey, 'Accept': 'application/json' };
+  if (idempotencyKey) headers[IDEMPOTENCY_HEADER] = idempotencyKey;
+
+  if (channel === 'whatsapp') {
+    const digits = String(lead.mobile_number || lead.phone || '').replace(/\D/g, '');
+    if (!digits) return { success: false, providerMessageId: null, error: 'No phone number available' };
+
+    const formData = new FormData();
+    formData.append('account_id', unipileAccountId);
+    formData.append('text', text);
+    formData.append('attendees_ids', `${digits}@s.whatsapp.net`);
+
+    const response = await fetch(`https://${unipileDsn}/api/v1/chats`, { method: 'POST', headers, body: formData });
+    const responseText = await response.text().catch(() => '');
+    return response.ok
+      ? { success: true, providerMessageId: parseProviderMessageId(responseText), error: null }
+      : { success: false, providerMessageId: null, error: `HTTP ${response.status}: ${responseText}` };
+  }
+
+  if (channel !== 'linkedin') {
+    return { success: false, providerMessageId: null, error: `Unsupported channel for sequences: ${channel}` };
+  }
+
+  if (!lead.linkedin_url) return { success: false, providerMessageId: null, error: 'No LinkedIn URL available' };
+  const publicIdentifier = extractLinkedInPublicIdentifier(lead.linkedin_url);
+  if (!publicIdentifier) return { success: false, providerMessageId: null, error: `Invalid LinkedIn URL format: ${lead.linkedin_url}` };
+
+  const providerId = await resolveLinkedInProviderId(unipileDsn, unipileApiKey, unipileAccountId, publicIdentifier);
+  if (!providerId) return { success: false, providerMessageId: null, error: `Could not resolve LinkedIn profile: ${publicIdentifier}` };
+
+  let response: Response;
+  if (action === 'invite') {
+    const inviteBody: Record<string, string> = { account_id: unipileAccountId, provider_id: providerId };
+    if (text.trim().length > 0) inviteBody.message = text.slice(0, 300);
+    response = await fetch(`https://${unipileDsn}/api/v1/users/invite`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(inviteBody),
+    });
+  } else {
+    const formData = new FormData();
+    formData.append('account_id', unipileAccountId);
+    formData.append('text', text);
+    formData.append('attendees_ids', providerId);
+    if (action === 'inmail') formData.append('linkedin[inmail]', 'true');
+    formData.append('linkedin[api]', linkedinFeature.toLowerCase().replace(/\s+/g, '_'));
+    response = await fetch(`https://${unipileDsn}/api/v1/chats`, { method: 'POST', headers, body: formData });
+  }
+
+  const responseText = await response.text().catch(() => '');
+  return response.ok
+    ? { success: true, providerMessageId: parseProviderMessageId(responseText), error: null }
+    : { success: false, providerMessageId: null, error: `HTTP ${response.status}: ${responseText}` };
+}
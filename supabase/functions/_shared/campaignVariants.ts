@@ -0,0 +1,142 @@
+/**
+ * A/B message variants
+ * Variant A is the campaign's own message; B..E are alternatives. Leads are
+ * assigned to a variant when the campaign is created and the send loops use
+ * that variant's message (and subject, for email).
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashString } from "./templateEngine.ts";
+
+// ============= CONFIGURATION =============
+
+export const VARIANT_LABELS = ['A', 'B', 'C', 'D', 'E'] as const;
+export const MAX_VARIANTS = VARIANT_LABELS.length;
+export const MIN_PROMOTE_AFTER = 10;
+
+const MAX_INVITE_NOTE_LENGTH = 300;
+
+// ============= TYPES =============
+
+export type VariantLabel = typeof VARIANT_LABELS[number];
+
+export interface CampaignVariant {
+  id: string;
+  campaign_id: string;
+  label: VariantLabel;
+  message: string;
+  subject: string | null;
+  is_winner: boolean;
+}
+
+export interface VariantInput {
+  message?: string;
+  subject?: string;
+}
+
+export type CampaignVariantRow = Pick<CampaignVariant, 'label' | 'message' | 'subject'>;
+
+// ============= VALIDATION =============
+
+/**
+ * Builds campaign_variants rows (A = the campaign message) from the extra
+ * variants sent by the client. Returns an empty list when there are none so
+ * regular campaigns don't get variant rows.
+ */
+export function buildCampaignVariantRows(
+  channel: string,
+  firstMessage: string,
+  firstSubject: string | null | undefined,
+  isInviteAction: boolean,
+  extraVariants: VariantInput[] | null | undefined
+): { rows: CampaignVariantRow[]; error?: string } {
+  if (!extraVariants || extraVariants.length === 0) return { rows: [] };
+
+  if (extraVariants.length > MAX_VARIANTS - 1) {
+    return { rows: [], error: `A campaign supports at most ${MAX_VARIANTS} variants` };
+  }
+
+  const isEmail = channel === 'email';
+  const rows: CampaignVariantRow[] = [{
+    label: 'A',
+    message: firstMessage || '',
+    subject: isEmail ? (firstSubject || '') : null,
+  }];
+
+  for (const [index, variant] of extraVariants.entries()) {
+    const label = VARIANT_LABELS[index + 1];
+    const message = (variant.message || '').trim();
+    const subject = isEmail ? (variant.subject || '').trim() || (firstSubject || '') : null;
+
+    if (!message && !isInviteAction) {
+      return { rows: [], error: `Variant ${label}: message is required` };
+    }
+    if (isInviteAction && message.length > MAX_INVITE_NOTE_LENGTH) {
+      return { rows: [], error: `Variant ${label}: invite note must be at most ${MAX_INVITE_NOTE_LENGTH} characters` };
+    }
+
+    rows.push({ label, message, subject });
+  }
+
+  return { rows };
+}
+
+// ============= ASSIGNMENT =============
+
+/**
+ * Deterministic variant for a lead: same campaign + lead always maps to the
+ * same variant, so re-creating links keeps the same split
+ */
+export function assignVariant<T extends { label: string }>(
+  campaignId: string,
+  leadId: string,
+  variants: T[]
+): T | null {
+  if (variants.length === 0) return null;
+  const sorted = [...variants].sort((a, b) => a.label.localeCompare(b.label));
+  return sorted[hashString(`${campaignId}:${leadId}`) % sorted.length];
+}
+
+// ============= SENDING =============
+
+export async function loadCampaignVariants(supabase: SupabaseClient, campaignId: string): Promise<CampaignVariant[]> {
+  const { data, error } = await supabase
+    .from('campaign_variants')
+    .select('id, campaign_id, label, message, subject, is_winner')
+    .eq('campaign_id', campaignId)
+    .order('label', { ascending: true });
+
+  if (error) {
+    console.error(`[campaignVariants] Error loading variants for ${campaignId}:`, error);
+    return [];
+  }
+  return (data || []) as CampaignVariant[];
+}
+
+/**
+ * Message and subject for a lead: its variant (or the promoted winner, once
+ * there is one), falling back to the campaign's own message.
+ */
+export function resolveVariantContent(
+  campaign: { message: string; subject?: string | null },
+  variants: CampaignVariant[],
+  variantId: string | null | undefined,
+  winnerId: string | null
+): { message: string; subject: string | null } {
+  const variant = variants.find(v => v.id === (winnerId || variantId));
+  if (!variant) return { message: campaign.message, subject: campaign.subject ?? null };
+  return { message: variant.message, subject: variant.subject ?? campaign.subject ?? null };
+}
+
+/**
+ * Promotes the best variant once the campaign's send threshold is reached.
+ * Returns the winner id (already promoted or just promoted) or null.
+ */
+export async function autoPromoteVariant(supabase: SupabaseClient, campaignId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('auto_promote_campaign_variant', { p_campaign_id: campaignId });
+  if (error) {
+    console.error(`[campaignVariants] Error promoting winner for ${campaignId}:`, error);
+    return null;
+  }
+  return (data as string | null) ?? null;
+}
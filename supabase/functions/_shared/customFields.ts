@@ -0,0 +1,154 @@
+/**
+ * Custom lead fields (lead_custom_fields + leads.custom_fields)
+ * Key rules, parsing of typed values from text (import files, form inputs)
+ * and formatting back to text (export, display). Import-free: the frontend
+ * uses the same rules through src/lib/customFields.ts.
+ */
+
+// ============= TYPES =============
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'url';
+
+export interface CustomFieldDefinition {
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  options: string[];
+}
+
+/** Stored value: string (text, url, select, date as YYYY-MM-DD), number or string[] */
+export type CustomFieldValue = string | number | string[];
+
+export type CustomFieldParseResult =
+  | { value: CustomFieldValue | null; error?: undefined }
+  | { value?: undefined; error: string };
+
+// ============= KEYS =============
+
+// Also enforced by the lead_custom_fields_key_format constraint
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+/** "Segmento de atuação" -> "segmento_de_atuacao" */
+export function customFieldKeyFromLabel(label: string): string {
+  return label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+/, '')
+    .replace(/_+$/, '')
+    .slice(0, 40)
+    .replace(/_+$/, '');
+}
+
+// ============= PARSING =============
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const BR_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/** "1.234,56" (pt-BR), "1,234.56" and "1234.56" -> 1234.56 */
+function parseNumber(raw: string): number | null {
+  let text = raw.replace(/\s/g, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else if (lastComma !== -1) {
+    text = text.replace(/,/g, '');
+  }
+  if (!/^[-+]?\d+(\.\d+)?$/.test(text)) return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+/** "YYYY-MM-DD" from ISO or DD/MM/YYYY text */
+function parseDate(raw: string): string | null {
+  const iso = raw.slice(0, 10).match(ISO_DATE);
+  if (iso) {
+    return isValidDate(Number(iso[1]), Number(iso[2]), Number(iso[3])) ? iso[0] : null;
+  }
+  const br = raw.match(BR_DATE);
+  if (br) {
+    const [day, month, year] = [Number(br[1]), Number(br[2]), Number(br[3])];
+    if (!isValidDate(year, month, day)) return null;
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+  return null;
+}
+
+function parseUrl(raw: string): string | null {
+  const withScheme = /^https?:\/\//i.test(raw) ? raw : `https://${raw}`;
+  try {
+    const url = new URL(withScheme);
+    return url.hostname.includes('.') ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Option as defined in the field, matched case- and accent-insensitively */
+function matchOption(field: CustomFieldDefinition, raw: string): string | null {
+  const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+  const target = normalize(raw);
+  return field.options.find(option => normalize(option) === target) ?? null;
+}
+
+/**
+ * Typed value of a field from text. Empty text is null (no value); errors are
+ * English messages for the import report.
+ */
+export function parseCustomFieldValue(field: CustomFieldDefinition, raw: string): CustomFieldParseResult {
+  const text = String(raw ?? '').trim();
+  if (!text) return { value: null };
+
+  switch (field.field_type) {
+    case 'number': {
+      const value = parseNumber(text);
+      return value === null ? { error: `"${text}" is not a number` } : { value };
+    }
+    case 'date': {
+      const value = parseDate(text);
+      return value === null ? { error: `"${text}" is not a date (use YYYY-MM-DD or DD/MM/YYYY)` } : { value };
+    }
+    case 'url': {
+      const value = parseUrl(text);
+      return value === null ? { error: `"${text}" is not a URL` } : { value };
+    }
+    case 'select': {
+      const value = matchOption(field, text);
+      return value === null ? { error: `"${text}" is not an option of ${field.label}` } : { value };
+    }
+    case 'multi_select': {
+      const values: string[] = [];
+      for (const part of text.split(/[;,|]/).map(item => item.trim()).filter(Boolean)) {
+        const option = matchOption(field, part);
+        if (option === null) return { error: `"${part}" is not an option of ${field.label}` };
+        if (!values.includes(option)) values.push(option);
+      }
+      return { value: values.length > 0 ? values : null };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+// ============= FORMATTING =============
+
+/** Text of a stored value (export, display); dates as DD/MM/YYYY */
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(String).join(', ');
+  if (field.field_type === 'date' && typeof value === 'string') {
+    const iso = value.match(ISO_DATE);
+    if (iso) return `${iso[3]}/${iso[2]}/${iso[1]}`;
+  }
+  if (field.field_type === 'number' && typeof value === 'number') {
+    return value.toLocaleString('pt-BR');
+  }
+  return String(value);
+}
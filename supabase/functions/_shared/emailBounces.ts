@@ -0,0 +1,178 @@
+/**
+ * Bounce handling for email campaigns
+ * - Parses delivery status notifications (RFC 3464) pulled from the mailbox via IMAP
+ * - Marks the matching campaign_leads row as 'bounced' and stops its sequence
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stopLeadSequence } from "./campaignSteps.ts";
+
+/** Header added to every campaign email so bounces can be matched back */
+export const CAMPAIGN_LEAD_HEADER = 'X-Campaign-Lead-Id';
+
+// ============= TYPES =============
+
+export interface ParsedBounce {
+  recipients: string[];
+  permanent: boolean;
+  status: string | null;
+  diagnostic: string | null;
+  originalMessageId: string | null;
+  campaignLeadId: string | null;
+}
+
+export interface BounceTarget {
+  workspaceId: string;
+  accountId: string;
+}
+
+// ============= PARSING =============
+
+function headerValue(raw: string, name: string): string | null {
+  const match = raw.match(new RegExp(`^${name}:[ \\t]*(.*(?:\\r?\\n[ \\t].*)*)`, 'im'));
+  return match ? match[1].replace(/\r?\n[ \t]+/g, ' ').trim() : null;
+}
+
+function allHeaderValues(raw: string, name: string): string[] {
+  const regex = new RegExp(`^${name}:[ \\t]*(.*)$`, 'gim');
+  return Array.from(raw.matchAll(regex), m => m[1].trim());
+}
+
+function isDeliveryReport(raw: string): boolean {
+  const headerEnd = raw.search(/\r?\n\r?\n/);
+  const headers = headerEnd === -1 ? raw : raw.slice(0, headerEnd);
+  const from = headerValue(headers, 'From') || '';
+  const contentType = headerValue(headers, 'Content-Type') || '';
+  const subject = headerValue(headers, 'Subject') || '';
+
+  return /report-type="?delivery-status/i.test(contentType)
+    || /mailer-daemon|postmaster/i.test(from)
+    || /undeliver|delivery status notification|returned mail|delivery failure|failure notice/i.test(subject);
+}
+
+/**
+ * Extracts the failed recipients and the original message reference from a
+ * bounce. Returns null for anything that is not a delivery failure (including
+ * "delayed" notifications, which are only temporary).
+ */
+export function parseBounce(raw: string): ParsedBounce | null {
+  if (!isDeliveryReport(raw)) return null;
+
+  const recipients = new Set<string>();
+  for (const value of allHeaderValues(raw, 'Final-Recipient')) {
+    const address = value.split(';').pop()?.trim().replace(/[<>]/g, '');
+    if (address) recipients.add(address.toLowerCase());
+  }
+  for (const value of allHeaderValues(raw, 'X-Failed-Recipients')) {
+    value.split(',').map(a => a.trim().toLowerCase()).filter(Boolean).forEach(a => recipients.add(a));
+  }
+
+  const action = headerValue(raw, 'Action')?.toLowerCase() || null;
+  const status = headerValue(raw, 'Status');
+  if (action === 'delayed' || action === 'delivered' || action === 'relayed') return null;
+
+  // Status 5.x.x is permanent; without a DSN status, a failure notice is treated as permanent
+  const permanent = status ? status.startsWith('5') : true;
+
+  // The first Message-ID belongs to the bounce itself; later ones come from the returned headers
+  const messageIds = allHeaderValues(raw, 'Message-ID');
+  const originalMessageId = messageIds.length > 1 ? messageIds[messageIds.length - 1] : null;
+
+  const leadIdMatch = raw.match(new RegExp(`^${CAMPAIGN_LEAD_HEADER}:[ \\t]*([0-9a-f-]{36})`, 'im'));
+
+  return {
+    recipients: Array.from(recipients),
+    permanent,
+    status,
+    diagnostic: headerValue(raw, 'Diagnostic-Code'),
+    originalMessageId,
+    campaignLeadId: leadIdMatch ? leadIdMatch[1].toLowerCase() : null,
+  };
+}
+
+// ============= APPLYING =============
+
+async function findBouncedCampaignLead(
+  supabase: SupabaseClient,
+  bounce: ParsedBounce,
+  target: BounceTarget
+): Promise<string | null> {
+  const base = () => supabase
+    .from('campaign_leads')
+    .select('id, campaigns!inner(workspace_id, account_id)')
+    .eq('campaigns.workspace_id', target.workspaceId)
+    .eq('campaigns.account_id', target.accountId);
+
+  if (bounce.campaignLeadId) {
+    const { data } = await base().eq('id', bounce.campaignLeadId).maybeSingle();
+    if (data) return data.id;
+  }
+
+  if (bounce.originalMessageId) {
+    const { data } = await base().eq('provider_message_id', bounce.originalMessageId).limit(1);
+    if (data && data.length > 0) return data[0].id;
+  }
+
+  // Fallback: latest email sent from this mailbox to the failed address
+  for (const recipient of bounce.recipients) {
+    const { data } = await supabase
+      .from('campaign_leads')
+      .select('id, leads!inner(email), campaigns!inner(workspace_id, account_id)')
+      .eq('campaigns.workspace_id', target.workspaceId)
+      .eq('campaigns.account_id', target.accountId)
+      .ilike('leads.email', recipient)
+      .eq('status', 'sent')
+      .order('sent_at', { ascending: false })
+      .limit(1);
+    if (data && data.length > 0) return data[0].id;
+  }
+
+  return null;
+}
+
+/** Marks the bounced campaign lead; returns its id when one was matched */
+export async function applyBounce(
+  supabase: SupabaseClient,
+  bounce: ParsedBounce,
+  target: BounceTarget
+): Promise<string | null> {
+  if (!bounce.permanent) return null;
+
+  const campaignLeadId = await findBouncedCampaignLead(supabase, bounce, target);
+  if (!campaignLeadId) return null;
+
+  await markCampaignLeadBounced(
+    supabase,
+    campaignLeadId,
+    bounce.diagnostic || `Bounced${bounce.status ? ` (${bounce.status})` : ''}`,
+    { recipients: bounce.recipients, status: bounce.status, source: 'dsn' }
+  );
+  return campaignLeadId;
+}
+
+/** Shared by SMTP-time rejections and DSN bounces */
+export async function markCampaignLeadBounced(
+  supabase: SupabaseClient,
+  campaignLeadId: string,
+  reason: string,
+  metadata: Record<string, unknown> = {}
+): Promise<void> {
+  const { data: updated } = await supabase
+    .from('campaign_leads')
+    .update({ status: 'bounced', error: reason })
+    .eq('id', campaignLeadId)
+    .neq('status', 'bounced')
+    .select('id, campaign_id, provider_message_id');
+
+  const row = updated?.[0];
+  if (!row) return;
+
+  await stopLeadSequence(supabase, campaignLeadId, 'bounced');
+  await supabase.from('campaign_events').insert({
+    campaign_id: row.campaign_id,
+    campaign_lead_id: campaignLeadId,
+    event_type: 'bounced',
+    provider_message_id: row.provider_message_id,
+    metadata: { reason, ...metadata },
+  });
+}
@@ -0,0 +1,560 @@
+/**
+ * Minimal SMTP/IMAP client for connected mailboxes
+ * Features:
+ * - Implicit TLS, STARTTLS or plain connections (plain is meant for local SMTP sinks)
+ * - Public hosts only: private, loopback and link-local addresses are refused
+ *   unless EMAIL_ALLOW_PRIVATE_HOSTS=true (local development)
+ * - AUTH PLAIN / AUTH LOGIN, skipped when no username is configured
+ * - Permanent (5xx) recipient rejections surfaced as bounces
+ * - IMAP polling of new messages by UID (used for bounce detection)
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// ============= CONFIGURATION =============
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const CRLF = '\r\n';
+
+/** RFC 5321 dot-atom addr-spec (no quoted local parts, no address literals) */
+const ADDR_SPEC_REGEX = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*@[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)+$/;
+const MAX_ADDRESS_LENGTH = 254;
+
+/** Standard ports; anything else is only reachable with private hosts allowed */
+export const SMTP_PORTS = [25, 465, 587, 2525];
+export const IMAP_PORTS = [143, 993];
+
+// ============= TYPES =============
+
+export type MailSecurity = 'tls' | 'starttls' | 'none';
+
+export interface MailServerConfig {
+  host: string;
+  port: number;
+  security: MailSecurity;
+  username?: string | null;
+  password?: string | null;
+}
+
+export interface Mailbox {
+  accountId: string;          // accounts.id
+  address: string;            // accounts.account_id (usage tracking key)
+  fromName: string | null;
+  smtp: MailServerConfig;
+  imap: MailServerConfig | null;
+  imapLastUid: number;
+  dailyLimit: number | null;
+  intervalSeconds: number | null;
+}
+
+export interface OutgoingEmail {
+  from: string;
+  fromName?: string | null;
+  to: string;
+  subject: string;
+  text: string;
+  headers?: Record<string, string>;
+  /** Fixed Message-ID (idempotent sends); a random one is generated otherwise */
+  messageId?: string;
+}
+
+export interface SentEmail {
+  messageId: string;
+}
+
+export interface FetchedMessage {
+  uid: number;
+  raw: string;
+}
+
+export class SmtpError extends Error {
+  public readonly code: number;
+  public readonly stage: string;
+  /** 5xx on RCPT/DATA: the address is rejected and retrying won't help */
+  public readonly isBounce: boolean;
+  public readonly isAuthError: boolean;
+
+  constructor(stage: string, code: number, response: string) {
+    super(`SMTP ${stage} failed (${code}): ${response}`);
+    this.name = 'SmtpError';
+    this.code = code;
+    this.stage = stage;
+    this.isBounce = code >= 500 && (stage === 'RCPT' || stage === 'DATA');
+    this.isAuthError = stage === 'AUTH';
+  }
+}
+
+export class ImapError extends Error {
+  constructor(command: string, response: string) {
+    super(`IMAP ${command} failed: ${response}`);
+    this.name = 'ImapError';
+  }
+}
+
+// ============= ADDRESSES =============
+
+/**
+ * Strict address check for anything that ends up in an SMTP command or a
+ * header: CR/LF or angle brackets would let an address inject commands.
+ */
+export function isValidEmailAddress(address: string): boolean {
+  if (!address || address.length > MAX_ADDRESS_LENGTH) return false;
+  if (/[\r\n<>]/.test(address)) return false;
+  return ADDR_SPEC_REGEX.test(address);
+}
+
+/** Rejects an address before it reaches the server (553: mailbox name not allowed) */
+function assertEmailAddress(address: string, stage: 'MAIL' | 'RCPT'): void {
+  if (!isValidEmailAddress(address)) {
+    throw new SmtpError(stage, 553, `Invalid address ${JSON.stringify(address)}`);
+  }
+}
+
+// ============= ENCODING =============
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(value: string): string {
+  const bytes = encoder.encode(value);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+/** RFC 2047 encoded-word for non-ASCII header values */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(value)}?=`;
+}
+
+function wrapBase64(value: string): string {
+  return value.match(/.{1,76}/g)?.join(CRLF) || '';
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a, 0);
+  out.set(b, a.length);
+  return out;
+}
+
+function indexOfCrlf(bytes: Uint8Array, from = 0): number {
+  for (let i = from; i < bytes.length - 1; i++) {
+    if (bytes[i] === 13 && bytes[i + 1] === 10) return i;
+  }
+  return -1;
+}
+
+export function buildMessageId(fromAddress: string): string {
+  const domain = fromAddress.split('@')[1] || 'localhost';
+  return `<${crypto.randomUUID()}@${domain}>`;
+}
+
+/** Builds a single-part text/plain RFC 5322 message */
+export function buildMimeMessage(email: OutgoingEmail, messageId: string): string {
+  assertEmailAddress(email.from, 'MAIL');
+  assertEmailAddress(email.to, 'RCPT');
+  const from = email.fromName ? `${encodeHeader(email.fromName)} <${email.from}>` : email.from;
+  const headers: Record<string, string> = {
+    'From': from,
+    'To': email.to,
+    'Subject': encodeHeader(email.subject),
+    'Date': new Date().toUTCString().replace('GMT', '+0000'),
+    'Message-ID': messageId,
+    'MIME-Version': '1.0',
+    'Content-Type': 'text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding': 'base64',
+    ...email.headers,
+  };
+
+  const headerBlock = Object.entries(headers).map(([k, v]) => `${k}: ${v}`).join(CRLF);
+  const body = wrapBase64(toBase64(email.text.replace(/\r?\n/g, CRLF)));
+  return `${headerBlock}${CRLF}${CRLF}${body}`;
+}
+
+// ============= HOSTS =============
+
+/** Local development switch for SMTP sinks such as Mailpit on localhost */
+export function allowPrivateMailHosts(): boolean {
+  return Deno.env.get('EMAIL_ALLOW_PRIVATE_HOSTS') === 'true';
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const octets = address.split('.').map(Number);
+  if (octets.length !== 4 || octets.some(o => !Number.isInteger(o) || o < 0 || o > 255)) return true;
+  const [a, b, c] = octets;
+  return a === 0 || a === 10 || a === 127 || a >= 224            // "this" network, private, loopback, multicast/reserved
+    || (a === 100 && b >= 64 && b <= 127)                         // carrier-grade NAT
+    || (a === 169 && b === 254)                                   // link-local
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 192 && b === 0 && c === 0)                          // IETF protocol assignments
+    || (a === 198 && (b === 18 || b === 19));                     // benchmarking
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const lower = address.toLowerCase();
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  // ::, ::1 and the other ::/8 forms (mapped or compatible IPv4) are never public mail servers
+  if (lower.startsWith('::')) return true;
+  const first = parseInt(lower.split(':')[0], 16);
+  if (Number.isNaN(first)) return true;
+  return (first & 0xfe00) === 0xfc00   // unique local fc00::/7
+    || (first & 0xffc0) === 0xfe80     // link-local fe80::/10
+    || (first & 0xff00) === 0xff00;    // multicast
+}
+
+/** True for an IP address a connected mailbox may point at */
+export function isPublicIpAddress(address: string): boolean {
+  return address.includes(':') ? !isPrivateIPv6(address) : !isPrivateIPv4(address);
+}
+
+/**
+ * Resolves a mail host and refuses it when any of its addresses is private,
+ * loopback or link-local, so a mailbox can't be used to reach internal
+ * services. Returns the address to connect to, so the check and the
+ * connection use the same lookup.
+ */
+export async function resolvePublicMailHost(host: string): Promise<string> {
+  const literal = host.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(literal) || literal.includes(':')) {
+    addresses = [literal];
+  } else {
+    const [v4, v6] = await Promise.all([
+      Deno.resolveDns(literal, 'A').catch(() => [] as string[]),
+      Deno.resolveDns(literal, 'AAAA').catch(() => [] as string[]),
+    ]);
+    addresses = [...v4, ...v6];
+  }
+  if (addresses.length === 0) throw new Error(`Could not resolve ${host}`);
+  const blocked = addresses.find(address => !isPublicIpAddress(address));
+  if (blocked) throw new Error(`${host} resolves to a private address (${blocked})`);
+  return addresses[0];
+}
+
+// ============= TRANSPORT =============
+
+/** Line-oriented socket shared by the SMTP and IMAP clients */
+class MailSocket {
+  private buffer = new Uint8Array(0);
+
+  private constructor(private conn: Deno.Conn, private timeoutMs: number) {}
+
+  static async open(config: MailServerConfig, timeoutMs: number): Promise<MailSocket> {
+    // Connect to the checked address; TLS still verifies the certificate against the host name
+    const hostname = allowPrivateMailHosts() ? config.host : await resolvePublicMailHost(config.host);
+    const tcp = await Deno.connect({ hostname, port: config.port });
+    const conn = config.security === 'tls' ? await Deno.startTls(tcp, { hostname: config.host }) : tcp;
+    return new MailSocket(conn, timeoutMs);
+  }
+
+  async upgradeTls(hostname: string): Promise<void> {
+    this.conn = await Deno.startTls(this.conn as Deno.TcpConn, { hostname });
+    this.buffer = new Uint8Array(0);
+  }
+
+  async write(data: string): Promise<void> {
+    const bytes = encoder.encode(data);
+    let written = 0;
+    while (written < bytes.length) {
+      written += await this.conn.write(bytes.subarray(written));
+    }
+  }
+
+  private async fill(): Promise<void> {
+    const chunk = new Uint8Array(16 * 1024);
+    let timer: number | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Mail server timed out')), this.timeoutMs);
+    });
+    try {
+      const n = await Promise.race([this.conn.read(chunk), timeout]);
+      if (n === null) throw new Error('Mail server closed the connection');
+      this.buffer = concatBytes(this.buffer, chunk.subarray(0, n));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async readLine(): Promise<string> {
+    let idx = indexOfCrlf(this.buffer);
+    while (idx === -1) {
+      await this.fill();
+      idx = indexOfCrlf(this.buffer);
+    }
+    const line = decoder.decode(this.buffer.subarray(0, idx));
+    this.buffer = this.buffer.subarray(idx + 2);
+    return line;
+  }
+
+  async readBytes(count: number): Promise<string> {
+    while (this.buffer.length < count) await this.fill();
+    const out = decoder.decode(this.buffer.subarray(0, count));
+    this.buffer = this.buffer.subarray(count);
+    return out;
+  }
+
+  close(): void {
+    try {
+      this.conn.close();
+    } catch {
+      // Already closed
+    }
+  }
+}
+
+// ============= SMTP =============
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+async function readSmtpReply(socket: MailSocket): Promise<SmtpReply> {
+  const lines: string[] = [];
+  while (true) {
+    const line = await socket.readLine();
+    lines.push(line.slice(4));
+    // "250-..." continues, "250 ..." ends the reply
+    if (line.length < 4 || line[3] !== '-') {
+      return { code: parseInt(line.slice(0, 3), 10) || 0, text: lines.join(' ') };
+    }
+  }
+}
+
+async function smtpCommand(socket: MailSocket, stage: string, line: string | null, expected: number[]): Promise<SmtpReply> {
+  if (line !== null) await socket.write(line + CRLF);
+  const reply = await readSmtpReply(socket);
+  if (!expected.includes(reply.code)) throw new SmtpError(stage, reply.code, reply.text);
+  return reply;
+}
+
+async function openSmtpSession(config: MailServerConfig, timeoutMs: number): Promise<MailSocket> {
+  const socket = await MailSocket.open(config, timeoutMs);
+  try {
+    await smtpCommand(socket, 'CONNECT', null, [220]);
+    let ehlo = await smtpCommand(socket, 'EHLO', 'EHLO elevos.local', [250]);
+
+    if (config.security === 'starttls') {
+      await smtpCommand(socket, 'STARTTLS', 'STARTTLS', [220]);
+      await socket.upgradeTls(config.host);
+      ehlo = await smtpCommand(socket, 'EHLO', 'EHLO elevos.local', [250]);
+    }
+
+    if (config.username) {
+      const mechanisms = ehlo.text.toUpperCase();
+      if (mechanisms.includes('PLAIN') || !mechanisms.includes('LOGIN')) {
+        const token = toBase64(`\u0000${config.username}\u0000${config.password || ''}`);
+        await smtpCommand(socket, 'AUTH', `AUTH PLAIN ${token}`, [235]);
+      } else {
+        await smtpCommand(socket, 'AUTH', 'AUTH LOGIN', [334]);
+        await smtpCommand(socket, 'AUTH', toBase64(config.username), [334]);
+        await smtpCommand(socket, 'AUTH', toBase64(config.password || ''), [235]);
+      }
+    }
+    return socket;
+  } catch (error) {
+    socket.close();
+    throw error;
+  }
+}
+
+/** Connects and authenticates without sending anything */
+export async function verifySmtp(config: MailServerConfig, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<void> {
+  const socket = await openSmtpSession(config, timeoutMs);
+  try {
+    await smtpCommand(socket, 'QUIT', 'QUIT', [221]).catch(() => undefined);
+  } finally {
+    socket.close();
+  }
+}
+
+export async function sendSmtpMail(
+  config: MailServerConfig,
+  email: OutgoingEmail,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<SentEmail> {
+  const messageId = email.messageId || buildMessageId(email.from);
+  // Validates both addresses before they are used in MAIL FROM / RCPT TO
+  const message = buildMimeMessage(email, messageId);
+  const socket = await openSmtpSession(config, timeoutMs);
+
+  try {
+    await smtpCommand(socket, 'MAIL', `MAIL FROM:<${email.from}>`, [250]);
+    await smtpCommand(socket, 'RCPT', `RCPT TO:<${email.to}>`, [250, 251]);
+    await smtpCommand(socket, 'DATA', 'DATA', [354]);
+    // Dot-stuffing: lines starting with "." get an extra dot
+    const stuffed = message.split(CRLF).map(l => (l.startsWith('.') ? `.${l}` : l)).join(CRLF);
+    await smtpCommand(socket, 'DATA', `${stuffed}${CRLF}.`, [250]);
+    await smtpCommand(socket, 'QUIT', 'QUIT', [221]).catch(() => undefined);
+    return { messageId };
+  } finally {
+    socket.close();
+  }
+}
+
+// ============= IMAP =============
+
+function imapQuote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+class ImapSession {
+  private tagCounter = 0;
+
+  constructor(private socket: MailSocket) {}
+
+  /** Sends a tagged command and collects untagged lines (literals inlined) */
+  async command(command: string, logAs?: string): Promise<string[]> {
+    const tag = `A${++this.tagCounter}`;
+    await this.socket.write(`${tag} ${command}${CRLF}`);
+    const lines: string[] = [];
+
+    while (true) {
+      let line = await this.socket.readLine();
+      // Literal: "... {123}" followed by 123 bytes, then the rest of the line
+      let literal = line.match(/\{(\d+)\}$/);
+      while (literal) {
+        const data = await this.socket.readBytes(parseInt(literal[1], 10));
+        const rest = await this.socket.readLine();
+        line = `${line}\n${data}\n${rest}`;
+        literal = rest.match(/\{(\d+)\}$/);
+      }
+
+      if (line.startsWith(`${tag} `)) {
+        if (!line.startsWith(`${tag} OK`)) throw new ImapError(logAs || command.split(' ')[0], line);
+        return lines;
+      }
+      lines.push(line);
+    }
+  }
+}
+
+async function openImapSession(config: MailServerConfig, timeoutMs: number): Promise<{ socket: MailSocket; session: ImapSession }> {
+  const socket = await MailSocket.open(config, timeoutMs);
+  try {
+    const greeting = await socket.readLine();
+    if (!greeting.startsWith('* OK') && !greeting.startsWith('* PREAUTH')) {
+      throw new ImapError('CONNECT', greeting);
+    }
+    const session = new ImapSession(socket);
+    if (config.security === 'starttls') {
+      await session.command('STARTTLS');
+      await socket.upgradeTls(config.host);
+    }
+    if (config.username) {
+      await session.command(`LOGIN ${imapQuote(config.username)} ${imapQuote(config.password || '')}`, 'LOGIN');
+    }
+    return { socket, session };
+  } catch (error) {
+    socket.close();
+    throw error;
+  }
+}
+
+export async function verifyImap(config: MailServerConfig, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<void> {
+  const { socket, session } = await openImapSession(config, timeoutMs);
+  try {
+    await session.command('SELECT INBOX');
+    await session.command('LOGOUT').catch(() => undefined);
+  } finally {
+    socket.close();
+  }
+}
+
+/** Fetches INBOX messages with UID greater than sinceUid (oldest first, capped) */
+export async function fetchNewMessages(
+  config: MailServerConfig,
+  sinceUid: number,
+  maxMessages: number,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<FetchedMessage[]> {
+  const { socket, session } = await openImapSession(config, timeoutMs);
+  try {
+    await session.command('SELECT INBOX');
+    const searchLines = await session.command(`UID SEARCH UID ${sinceUid + 1}:*`);
+    const uids = searchLines
+      .filter(l => l.startsWith('* SEARCH'))
+      .flatMap(l => l.slice('* SEARCH'.length).trim().split(/\s+/))
+      .map(n => parseInt(n, 10))
+      // "n:*" always matches the newest message, even when its UID is lower
+      .filter(uid => Number.isFinite(uid) && uid > sinceUid)
+      .sort((a, b) => a - b)
+      .slice(0, maxMessages);
+
+    const messages: FetchedMessage[] = [];
+    for (const uid of uids) {
+      const lines = await session.command(`UID FETCH ${uid} (BODY.PEEK[])`);
+      const fetchLine = lines.find(l => l.includes('FETCH') && l.includes('\n'));
+      if (!fetchLine) continue;
+      const raw = fetchLine.slice(fetchLine.indexOf('\n') + 1, fetchLine.lastIndexOf('\n'));
+      messages.push({ uid, raw });
+    }
+
+    await session.command('LOGOUT').catch(() => undefined);
+    return messages;
+  } finally {
+    socket.close();
+  }
+}
+
+// ============= MAILBOX LOADING =============
+
+/** Loads a connected email account with its credentials (service role only) */
+export async function loadMailbox(supabase: SupabaseClient, accountId: string): Promise<Mailbox | null> {
+  const { data: account, error } = await supabase
+    .from('accounts')
+    .select(`
+      id, account_id, channel, status, daily_message_limit, message_interval_seconds,
+      credentials:email_account_credentials (
+        from_name, smtp_host, smtp_port, smtp_security, smtp_username,
+        imap_host, imap_port, imap_security, imap_username, imap_last_uid
+      )
+    `)
+    .eq('id', accountId)
+    .maybeSingle();
+
+  if (error || !account || account.channel !== 'email') {
+    if (error) console.error(`[emailClient] Error loading mailbox ${accountId}:`, error);
+    return null;
+  }
+
+  const creds = Array.isArray(account.credentials) ? account.credentials[0] : account.credentials;
+  if (!creds) return null;
+
+  // Passwords are stored in Vault; only the service role can decrypt them
+  const { data: passwords, error: passwordsError } = await supabase
+    .rpc('get_email_account_passwords', { p_account_id: account.id });
+  if (passwordsError) {
+    console.error(`[emailClient] Error loading credentials for ${accountId}:`, passwordsError);
+    return null;
+  }
+  const secrets = Array.isArray(passwords) ? passwords[0] : passwords;
+
+  return {
+    accountId: account.id,
+    address: account.account_id,
+    fromName: creds.from_name,
+    smtp: {
+      host: creds.smtp_host,
+      port: creds.smtp_port,
+      security: creds.smtp_security as MailSecurity,
+      username: creds.smtp_username,
+      password: secrets?.smtp_password ?? null,
+    },
+    imap: creds.imap_host
+      ? {
+          host: creds.imap_host,
+          port: creds.imap_port,
+          security: creds.imap_security as MailSecurity,
+          username: creds.imap_username,
+          password: secrets?.imap_password ?? null,
+        }
+      : null,
+    imapLastUid: Number(creds.imap_last_uid || 0),
+    dailyLimit: account.daily_message_limit,
+    intervalSeconds: account.message_interval_seconds,
+  };
+}
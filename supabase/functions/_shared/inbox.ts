@@ -0,0 +1,280 @@
+/**
+ * Unified inbox persistence
+ *
+ * Webhook message events (webhook-messages, webhook-unipile-events) are stored
+ * as chats/messages so the /inbox page can list conversations across all
+ * connected accounts. Both webhooks may deliver the same message: messages are
+ * unique per (workspace_id, external_id) and inserted with ignoreDuplicates.
+ *
+ * A chat is linked to a lead when:
+ * - the webhook matched the message to a campaign_lead (linkChatToCampaignLead), or
+ * - the LinkedIn attendee's provider id matches leads.linkedin_provider_id.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// ============= TYPES =============
+
+export type InboxAttachmentType = 'image' | 'video' | 'audio' | 'document' | 'file';
+
+export interface InboxAttachment {
+  type: InboxAttachmentType;
+  url: string;
+  mime_type?: string;
+  filename?: string;
+  size?: number;
+  duration?: number;
+  attachment_id?: string;
+  external_message_id?: string;
+}
+
+export interface InboxMessageEvent {
+  /** Unipile account id (accounts.account_id) */
+  accountId: string;
+  /** Unipile chat id (chats.external_id) */
+  chatId: string;
+  messageId: string;
+  text: string | null;
+  isSender: boolean;
+  timestamp: string;
+  attachments: InboxAttachment[];
+  attendee: {
+    identifier: string | null;
+    name: string | null;
+    picture: string | null;
+    providerId: string | null;
+  };
+}
+
+export interface PersistedInboxMessage {
+  chatId: string;
+  workspaceId: string;
+  leadId: string | null;
+  /** false when the message was already stored by the other webhook */
+  isNew: boolean;
+}
+
+type Payload = Record<string, unknown>;
+
+// ============= PAYLOAD PARSING =============
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+function obj(value: unknown): Payload | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Payload : null;
+}
+
+function attachmentType(raw: string | null, mime: string | null): InboxAttachmentType {
+  const value = (raw || mime || '').toLowerCase();
+  if (value.startsWith('img') || value.startsWith('image')) return 'image';
+  if (value.startsWith('video')) return 'video';
+  if (value.startsWith('audio') || value.startsWith('voice')) return 'audio';
+  if (value.includes('pdf') || value.includes('document')) return 'document';
+  return 'file';
+}
+
+/** Maps Unipile attachments (id, type, mimetype, file_name, file_size, url) */
+export function parseInboxAttachments(raw: unknown, messageId: string | null): InboxAttachment[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(obj).filter((a): a is Payload => !!a).map(a => {
+    const mime = str(a.mimetype) || str(a.mime_type);
+    return {
+      type: attachmentType(str(a.type), mime),
+      url: str(a.url) || '',
+      mime_type: mime || undefined,
+      filename: str(a.file_name) || str(a.filename) || undefined,
+      size: typeof a.file_size === 'number' ? a.file_size : typeof a.size === 'number' ? a.size : undefined,
+      duration: typeof a.duration === 'number' ? a.duration : undefined,
+      attachment_id: str(a.id) || undefined,
+      external_message_id: messageId || undefined,
+    };
+  });
+}
+
+/** WhatsApp provider ids look like "5511999999999@s.whatsapp.net" */
+function attendeeIdentifier(providerId: string | null, profileUrl: string | null): string | null {
+  if (providerId?.includes('@')) {
+    const digits = providerId.split('@')[0].replace(/\D/g, '');
+    return digits || null;
+  }
+  return profileUrl || providerId;
+}
+
+/**
+ * Extracts a chat message from a webhook payload. Returns null for events that
+ * don't carry a message (invites, relations, status-only updates).
+ */
+export function extractInboxMessage(payload: Payload): InboxMessageEvent | null {
+  const data = obj(payload.data) || obj(payload.object) || obj(payload.message) || payload;
+
+  const accountId = str(data.account_id) || str(payload.account_id);
+  const chatId = str(data.chat_id) || str(payload.chat_id);
+  const messageId = str(data.message_id) || str(data.id) || str(payload.message_id);
+  if (!accountId || !chatId || !messageId) return null;
+
+  const text = str(data.text) || str(payload.message) || str(data.message);
+  const attachments = parseInboxAttachments(data.attachments ?? payload.attachments, messageId);
+  if (!text && attachments.length === 0) return null;
+
+  // is_sender is only present in some formats; otherwise compare with the account owner
+  const sender = obj(data.sender) || obj(payload.sender);
+  const ownProviderId = str(obj(payload.account_info)?.user_id);
+  const isSender = typeof data.is_sender === 'boolean'
+    ? data.is_sender
+    : !!ownProviderId && str(sender?.attendee_provider_id) === ownProviderId;
+
+  // The contact is the sender of incoming messages, or the other attendee of outgoing ones
+  const attendees = Array.isArray(payload.attendees) ? payload.attendees.map(obj).filter((a): a is Payload => !!a) : [];
+  const contact = isSender
+    ? attendees.find(a => str(a.attendee_provider_id) !== ownProviderId) || null
+    : sender;
+  const providerId = str(contact?.attendee_provider_id);
+
+  return {
+    accountId,
+    chatId,
+    messageId,
+    text,
+    isSender,
+    timestamp: str(data.timestamp) || str(payload.timestamp) || new Date().toISOString(),
+    attachments,
+    attendee: {
+      identifier: attendeeIdentifier(providerId, str(contact?.attendee_profile_url)),
+      name: str(contact?.attendee_name),
+      picture: str(contact?.attendee_profile_picture_url) || str(contact?.attendee_picture),
+      providerId,
+    },
+  };
+}
+
+/** Short text shown in the chat list for a message */
+export function inboxPreview(text: string | null, attachments: InboxAttachment[]): { text: string; type: InboxAttachmentType | null } {
+  if (text) return { text: text.slice(0, 500), type: null };
+  const first = attachments[0];
+  return { text: first?.filename || '', type: first?.type ?? null };
+}
+
+// ============= PERSISTENCE =============
+
+/**
+ * Upserts the chat and stores the message. Returns null when the Unipile
+ * account isn't a connected LinkedIn/WhatsApp account of any workspace.
+ */
+export async function persistInboxMessage(
+  supabase: SupabaseClient,
+  event: InboxMessageEvent
+): Promise<PersistedInboxMessage | null> {
+  const { data: account } = await supabase
+    .from('accounts')
+    .select('id, workspace_id, channel')
+    .eq('account_id', event.accountId)
+    .maybeSingle();
+
+  if (!account || (account.channel !== 'linkedin' && account.channel !== 'whatsapp')) return null;
+
+  const chatFields: Record<string, unknown> = {
+    workspace_id: account.workspace_id,
+    account_id: account.id,
+    external_id: event.chatId,
+    channel: account.channel,
+    updated_at: new Date().toISOString(),
+  };
+  if (event.attendee.identifier) chatFields.attendee_identifier = event.attendee.identifier;
+  if (event.attendee.name) chatFields.attendee_name = event.attendee.name;
+  if (event.attendee.picture) chatFields.attendee_picture = event.attendee.picture;
+
+  const { data: chat, error: chatError } = await supabase
+    .from('chats')
+    .upsert(chatFields, { onConflict: 'workspace_id,external_id' })
+    .select('id, lead_id')
+    .single();
+
+  if (chatError || !chat) {
+    console.error('[inbox] Error upserting chat:', chatError);
+    return null;
+  }
+
+  // LinkedIn chats can be linked to a lead by the attendee's provider id
+  let leadId: string | null = chat.lead_id;
+  if (!leadId && account.channel === 'linkedin' && event.attendee.providerId) {
+    const { data: lead } = await supabase
+      .from('leads')
+      .select('id')
+      .eq('workspace_id', account.workspace_id)
+      .eq('linkedin_provider_id', event.attendee.providerId)
+      .limit(1)
+      .maybeSingle();
+
+    if (lead) {
+      leadId = lead.id;
+      await supabase.from('chats').update({ lead_id: leadId }).eq('id', chat.id);
+    }
+  }
+
+  const { data: inserted, error: messageError } = await supabase
+    .from('messages')
+    .upsert({
+      workspace_id: account.workspace_id,
+      chat_id: chat.id,
+      external_id: event.messageId,
+      sender: event.isSender ? 'me' : 'them',
+      text: event.text,
+      attachments: event.attachments,
+      timestamp: event.timestamp,
+    }, { onConflict: 'workspace_id,external_id', ignoreDuplicates: true })
+    .select('id');
+
+  if (messageError) {
+    console.error('[inbox] Error storing message:', messageError);
+    return null;
+  }
+
+  const isNew = (inserted || []).length > 0;
+  if (isNew) {
+    await touchChatLastMessage(supabase, chat.id, {
+      text: event.text,
+      attachments: event.attachments,
+      sender: event.isSender ? 'me' : 'them',
+      timestamp: event.timestamp,
+    });
+  }
+
+  return { chatId: chat.id, workspaceId: account.workspace_id, leadId, isNew };
+}
+
+/** Updates the chat preview unless a newer message is already there */
+export async function touchChatLastMessage(
+  supabase: SupabaseClient,
+  chatId: string,
+  message: { text: string | null; attachments: InboxAttachment[]; sender: 'me' | 'them'; timestamp: string }
+): Promise<void> {
+  const preview = inboxPreview(message.text, message.attachments);
+  await supabase
+    .from('chats')
+    .update({
+      last_message: preview.text,
+      last_message_type: preview.type,
+      last_message_sender: message.sender,
+      last_message_at: message.timestamp,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', chatId)
+    .or(`last_message_at.is.null,last_message_at.lte.${message.timestamp}`);
+}
+
+/** Links the chat to the lead and campaign the webhook matched the message to */
+export async function linkChatToCampaignLead(
+  supabase: SupabaseClient,
+  chatId: string,
+  leadId: string,
+  campaignId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('chats')
+    .update({ lead_id: leadId, campaign_id: campaignId })
+    .eq('id', chatId);
+
+  if (error) console.error('[inbox] Error linking chat to lead:', error);
+}
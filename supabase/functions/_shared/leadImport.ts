@@ -0,0 +1,361 @@
+/**
+ * Lead import (CSV / XLSX)
+ * Header auto-mapping, CSV parsing, row validation and the keys used to find
+ * duplicates among existing leads. Import-free (besides other import-free
+ * shared modules): the import wizard suggests the same mapping in the browser.
+ */
+
+import {
+  parseCustomFieldValue,
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+} from "./customFields.ts";
+import { extractLinkedInPublicIdentifier } from "./linkedinUrl.ts";
+import { normalizeSuppressionValue } from "./suppression.ts";
+
+// ============= TYPES =============
+
+export type LeadImportFileType = 'csv' | 'xlsx';
+
+export type LeadImportFieldKey =
+  | 'full_name'
+  | 'first_name'
+  | 'last_name'
+  | 'email'
+  | 'personal_email'
+  | 'phone'
+  | 'mobile_number'
+  | 'company'
+  | 'job_title'
+  | 'headline'
+  | 'seniority_level'
+  | 'industry'
+  | 'city'
+  | 'state'
+  | 'country'
+  | 'company_website'
+  | 'company_domain'
+  | 'company_size'
+  | 'company_annual_revenue'
+  | 'linkedin_url'
+  | 'company_linkedin'
+  | 'company_technologies'
+  | 'keywords';
+
+/** A lead column or a custom field ("custom:<key>") */
+export type LeadImportTarget = LeadImportFieldKey | `custom:${string}`;
+
+/** Target per file column, by position (null = column ignored) */
+export type LeadImportMapping = (LeadImportTarget | null)[];
+
+export type ImportedLead = Partial<Record<LeadImportFieldKey, string>> & {
+  linkedin_public_identifier?: string;
+  custom_fields?: Record<string, CustomFieldValue>;
+};
+
+export type LeadImportSkipReason =
+  | 'missing_identifier'
+  | 'invalid_email'
+  | 'invalid_phone'
+  | 'invalid_linkedin'
+  | 'invalid_custom_field'
+  | 'duplicate_in_file'
+  | 'duplicate'
+  | 'insert_failed';
+
+export interface LeadImportRowError {
+  /** Row number in the file (header = row 1, blank lines not counted) */
+  row: number;
+  reason: LeadImportSkipReason;
+  value?: string;
+}
+
+export interface LeadDedupeKeys {
+  linkedin: string | null;
+  emails: string[];
+  phones: string[];
+}
+
+export const LEAD_IMPORTS_BUCKET = 'lead-imports';
+
+// Imports up to this size run inside import-leads; larger ones go to process-lead-imports
+export const INLINE_IMPORT_ROWS = 1000;
+
+// Hard limit per file (the bucket also caps the file at 20 MB)
+export const MAX_IMPORT_ROWS = 50000;
+
+const CUSTOM_TARGET_PREFIX = 'custom:';
+
+export function customFieldImportTarget(key: string): LeadImportTarget {
+  return `${CUSTOM_TARGET_PREFIX}${key}`;
+}
+
+/** Custom field key of a mapping target (null = lead column) */
+export function customFieldKeyOfTarget(target: LeadImportTarget): string | null {
+  return target.startsWith(CUSTOM_TARGET_PREFIX) ? target.slice(CUSTOM_TARGET_PREFIX.length) : null;
+}
+
+// ============= HEADER MAPPING =============
+
+/**
+ * Accepted header names per field, compared after normalizeHeader. Includes
+ * the headers written by the leads CSV export (Leads.tsx exportCSV).
+ */
+export const LEAD_IMPORT_FIELD_ALIASES: Record<LeadImportFieldKey, string[]> = {
+  full_name: ['nome', 'nome completo', 'full name', 'name', 'contato'],
+  first_name: ['primeiro nome', 'first name', 'firstname', 'prenome'],
+  last_name: ['sobrenome', 'ultimo nome', 'last name', 'lastname', 'surname'],
+  email: ['email', 'e mail', 'email corporativo', 'email profissional', 'work email', 'business email'],
+  personal_email: ['email pessoal', 'e mail pessoal', 'personal email'],
+  phone: ['telefone', 'telefone fixo', 'fone', 'phone', 'phone number', 'telephone'],
+  mobile_number: ['celular', 'whatsapp', 'mobile', 'mobile number', 'mobile phone', 'cell phone'],
+  company: ['empresa', 'nome da empresa', 'organizacao', 'company', 'company name', 'organization'],
+  job_title: ['cargo', 'funcao', 'job title', 'title', 'position'],
+  headline: ['headline', 'titulo'],
+  seniority_level: ['nivel', 'senioridade', 'seniority', 'seniority level'],
+  industry: ['industria', 'setor', 'segmento', 'industry'],
+  city: ['cidade', 'city'],
+  state: ['estado', 'uf', 'state', 'region'],
+  country: ['pais', 'country'],
+  company_website: ['website', 'site', 'site da empresa', 'company website'],
+  company_domain: ['dominio', 'dominio da empresa', 'domain', 'company domain'],
+  company_size: ['tamanho', 'tamanho da empresa', 'funcionarios', 'company size', 'employees', 'headcount'],
+  company_annual_revenue: ['faturamento', 'receita', 'revenue', 'annual revenue'],
+  linkedin_url: ['linkedin', 'perfil linkedin', 'url linkedin', 'linkedin url', 'linkedin profile', 'profile url'],
+  company_linkedin: ['linkedin empresa', 'linkedin da empresa', 'company linkedin', 'company linkedin url'],
+  company_technologies: ['tecnologias', 'technologies', 'tech stack'],
+  keywords: ['keywords', 'palavras chave', 'tags'],
+};
+
+export const LEAD_IMPORT_FIELDS = Object.keys(LEAD_IMPORT_FIELD_ALIASES) as LeadImportFieldKey[];
+
+/** Lowercase, no accents, punctuation and underscores as single spaces */
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Field for each header; the first column wins when two headers match the
+ * same field. Custom fields match by label or key, after the lead columns.
+ */
+export function suggestLeadImportMapping(
+  headers: string[],
+  customFields: CustomFieldDefinition[] = []
+): LeadImportMapping {
+  const byAlias = new Map<string, LeadImportTarget>();
+  for (const field of LEAD_IMPORT_FIELDS) {
+    byAlias.set(normalizeHeader(field), field);
+    for (const alias of LEAD_IMPORT_FIELD_ALIASES[field]) byAlias.set(alias, field);
+  }
+  for (const field of customFields) {
+    for (const name of [field.label, field.key]) {
+      const alias = normalizeHeader(name);
+      if (!byAlias.has(alias)) byAlias.set(alias, customFieldImportTarget(field.key));
+    }
+  }
+
+  const used = new Set<LeadImportTarget>();
+  return headers.map(header => {
+    const field = byAlias.get(normalizeHeader(header || ''));
+    if (!field || used.has(field)) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+/** Error message for a mapping that cannot identify any lead (null = valid) */
+export function validateLeadImportMapping(
+  mapping: LeadImportMapping,
+  customFields: CustomFieldDefinition[] = []
+): string | null {
+  const fields = new Set(mapping.filter((field): field is LeadImportTarget => !!field));
+  const duplicated = mapping.filter(Boolean).length !== fields.size;
+  if (duplicated) return 'Each lead field can be mapped to one column only';
+  const customKeys = new Set(customFields.map(field => field.key));
+  for (const field of fields) {
+    const key = customFieldKeyOfTarget(field);
+    if (key !== null && !customKeys.has(key)) return `Unknown custom field: ${key}`;
+  }
+  const identifying: LeadImportFieldKey[] = ['full_name', 'first_name', 'email', 'linkedin_url', 'mobile_number', 'phone'];
+  if (!identifying.some(field => fields.has(field))) {
+    return 'Map at least one of name, email, LinkedIn or phone';
+  }
+  return null;
+}
+
+// ============= CSV =============
+
+/** Delimiter of the header line: ";" (Excel pt-BR), tab or "," */
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [';', '\t', ','].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].count > 0 ? counts[0].delimiter : ',';
+}
+
+/** RFC 4180 rows: quoted cells may contain delimiters, quotes ("") and line breaks */
+export function parseCsvRows(input: string): string[][] {
+  const text = input.replace(/^\ufeff/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+// ============= ROWS =============
+
+const EMAIL_FIELDS: LeadImportFieldKey[] = ['email', 'personal_email'];
+const PHONE_FIELDS: LeadImportFieldKey[] = ['phone', 'mobile_number'];
+
+// Longest valid E.164 number
+const MAX_PHONE_DIGITS = 15;
+
+/** Phone kept with "+" when the file had an international prefix; null = invalid */
+function normalizeImportedPhone(raw: string): string | null {
+  const digits = normalizeSuppressionValue('phone', raw);
+  if (!digits || digits.length > MAX_PHONE_DIGITS) return null;
+  return /^\s*(\+|00)/.test(raw) ? `+${digits}` : digits;
+}
+
+/**
+ * Lead columns of one file row, or the reason the row is skipped. Invalid
+ * emails, phones and LinkedIn URLs skip the row instead of importing a lead
+ * with a contact nobody can reach.
+ */
+export function buildImportedLead(
+  cells: string[],
+  mapping: LeadImportMapping,
+  customFields: CustomFieldDefinition[] = []
+): { lead: ImportedLead; error?: undefined } | { lead?: undefined; error: { reason: LeadImportSkipReason; value?: string } } {
+  const lead: ImportedLead = {};
+  const customByKey = new Map(customFields.map(field => [field.key, field]));
+
+  for (let index = 0; index < mapping.length; index++) {
+    const field = mapping[index];
+    const value = String(cells[index] ?? '').trim();
+    if (!field || !value) continue;
+
+    const customKey = customFieldKeyOfTarget(field);
+    if (customKey === null) {
+      lead[field as LeadImportFieldKey] = value;
+      continue;
+    }
+    const definition = customByKey.get(customKey);
+    if (!definition) continue;
+    const parsed = parseCustomFieldValue(definition, value);
+    if (parsed.error) return { error: { reason: 'invalid_custom_field', value: parsed.error } };
+    if (parsed.value !== null) lead.custom_fields = { ...lead.custom_fields, [customKey]: parsed.value };
+  }
+
+  for (const field of EMAIL_FIELDS) {
+    const raw = lead[field];
+    if (!raw) continue;
+    const email = normalizeSuppressionValue('email', raw);
+    if (!email) return { error: { reason: 'invalid_email', value: raw } };
+    lead[field] = email;
+  }
+
+  for (const field of PHONE_FIELDS) {
+    const raw = lead[field];
+    if (!raw) continue;
+    const phone = normalizeImportedPhone(raw);
+    if (!phone) return { error: { reason: 'invalid_phone', value: raw } };
+    lead[field] = phone;
+  }
+
+  if (lead.linkedin_url) {
+    const raw = lead.linkedin_url;
+    const identifier = /linkedin\.com\/in\//i.test(raw) ? extractLinkedInPublicIdentifier(raw.trim()) : null;
+    if (!identifier) return { error: { reason: 'invalid_linkedin', value: raw } };
+    lead.linkedin_public_identifier = identifier.toLowerCase();
+    lead.linkedin_url = `https://www.linkedin.com/in/${identifier}`;
+  }
+
+  if (!lead.full_name && (lead.first_name || lead.last_name)) {
+    lead.full_name = [lead.first_name, lead.last_name].filter(Boolean).join(' ');
+  }
+
+  if (!lead.full_name && !lead.email && !lead.linkedin_url && !lead.mobile_number && !lead.phone) {
+    return { error: { reason: 'missing_identifier' } };
+  }
+
+  return { lead };
+}
+
+// ============= DUPLICATES =============
+
+/** Normalized identifiers a lead is matched by (LinkedIn, emails, phones) */
+export function leadDedupeKeys(lead: {
+  linkedin_public_identifier?: string | null;
+  linkedin_url?: string | null;
+  email?: string | null;
+  personal_email?: string | null;
+  phone?: string | null;
+  mobile_number?: string | null;
+}): LeadDedupeKeys {
+  const linkedin = normalizeSuppressionValue('linkedin', lead.linkedin_public_identifier)
+    ?? normalizeSuppressionValue('linkedin', lead.linkedin_url);
+  const emails = [lead.email, lead.personal_email]
+    .map(value => normalizeSuppressionValue('email', value))
+    .filter((value): value is string => !!value);
+  const phones = [lead.mobile_number, lead.phone]
+    .map(value => normalizeSuppressionValue('phone', value))
+    .filter((value): value is string => !!value);
+  return { linkedin, emails: [...new Set(emails)], phones: [...new Set(phones)] };
+}
+
+/** Flat "type:value" keys, used to index leads by every identifier */
+export function dedupeKeyStrings(keys: LeadDedupeKeys): string[] {
+  return [
+    ...(keys.linkedin ? [`linkedin:${keys.linkedin}`] : []),
+    ...keys.emails.map(email => `email:${email}`),
+    ...keys.phones.map(phone => `phone:${phone}`),
+  ];
+}
+
+/** File type from the uploaded file name (null = not accepted) */
+export function leadImportFileType(fileName: string): LeadImportFileType | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+  if (extension === 'xlsx') return 'xlsx';
+  return null;
+}
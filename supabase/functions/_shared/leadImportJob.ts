@@ -0,0 +1,350 @@
+/**
+ * Lead import jobs (lead_import_jobs)
+ * - import-leads: preview of an uploaded file and small imports, right away
+ * - process-lead-imports: large imports, in chunks that resume from processed_rows
+ * Rows are validated by buildImportedLead, matched against existing leads by
+ * LinkedIn public identifier, email and phone, then created, updated
+ * (update_existing) or skipped. The target list and tags apply to created
+ * and updated leads. Custom field values are merged into the lead's
+ * existing custom_fields.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import * as XLSX from "https://esm.sh/xlsx@0.18.5";
+import type { CustomFieldDefinition } from "./customFields.ts";
+import {
+  buildImportedLead,
+  dedupeKeyStrings,
+  LEAD_IMPORTS_BUCKET,
+  leadDedupeKeys,
+  parseCsvRows,
+  type ImportedLead,
+  type LeadImportFileType,
+  type LeadImportMapping,
+  type LeadImportRowError,
+  type LeadImportSkipReason,
+} from "./leadImport.ts";
+
+// ============= TYPES =============
+
+export interface LeadImportJobRow {
+  id: string;
+  workspace_id: string;
+  storage_path: string;
+  file_type: LeadImportFileType;
+  mapping: LeadImportMapping;
+  list_id: string | null;
+  tag_ids: string[];
+  update_existing: boolean;
+  total_rows: number;
+  processed_rows: number;
+  created_count: number;
+  updated_count: number;
+  skipped_count: number;
+  row_errors: LeadImportRowError[];
+}
+
+interface ExistingLead {
+  id: string;
+  linkedin_public_identifier: string | null;
+  linkedin_url: string | null;
+  email: string | null;
+  personal_email: string | null;
+  phone: string | null;
+  mobile_number: string | null;
+}
+
+// ============= CONFIGURATION =============
+
+// Rows per lookup/insert round trip; keeps .in() filters under the URL length limit
+const BATCH_SIZE = 200;
+
+// The job keeps only the first errors; the counts cover every row
+const MAX_ROW_ERRORS = 200;
+
+const EXISTING_LEAD_COLUMNS = 'id, linkedin_public_identifier, linkedin_url, email, personal_email, phone, mobile_number';
+
+// ============= CUSTOM FIELDS =============
+
+/** Custom lead fields of the workspace, the valid "custom:<key>" targets */
+export async function loadLeadCustomFields(
+  supabase: SupabaseClient,
+  workspaceId: string
+): Promise<CustomFieldDefinition[]> {
+  const { data, error } = await supabase
+    .from('lead_custom_fields')
+    .select('key, label, field_type, options')
+    .eq('workspace_id', workspaceId)
+    .order('position');
+  if (error) throw new Error(`Failed to load custom lead fields: ${error.message}`);
+  return (data || []) as CustomFieldDefinition[];
+}
+
+// ============= FILE =============
+
+/** Rows of the uploaded file (header first), every cell as text */
+export async function readLeadImportFile(
+  supabase: SupabaseClient,
+  storagePath: string,
+  fileType: LeadImportFileType
+): Promise<string[][]> {
+  const { data, error } = await supabase.storage.from(LEAD_IMPORTS_BUCKET).download(storagePath);
+  if (error || !data) {
+    throw new Error(`Failed to download import file: ${error?.message || 'not found'}`);
+  }
+  const bytes = new Uint8Array(await data.arrayBuffer());
+
+  if (fileType === 'xlsx') {
+    const workbook = XLSX.read(bytes, { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) return [];
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: false });
+    return rows.map(row => row.map(cell => String(cell ?? '')));
+  }
+
+  // Excel saves CSV as Windows-1252 unless asked for UTF-8
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    text = new TextDecoder('windows-1252').decode(bytes);
+  }
+  return parseCsvRows(text);
+}
+
+// ============= DUPLICATES =============
+
+/** Existing workspace leads indexed by every dedupe key */
+async function findExistingLeads(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  leads: ImportedLead[]
+): Promise<Map<string, string>> {
+  const linkedinIds = new Set<string>();
+  const emails = new Set<string>();
+  const phones = new Set<string>();
+  for (const lead of leads) {
+    const keys = leadDedupeKeys(lead);
+    if (keys.linkedin) linkedinIds.add(keys.linkedin);
+    keys.emails.forEach(email => emails.add(email));
+    // Stored phones may or may not carry the "+"
+    keys.phones.forEach(phone => {
+      phones.add(phone);
+      phones.add(`+${phone}`);
+    });
+  }
+
+  const lookups: [string, string[]][] = [
+    ['linkedin_public_identifier', [...linkedinIds]],
+    ['email', [...emails]],
+    ['personal_email', [...emails]],
+    ['mobile_number', [...phones]],
+    ['phone', [...phones]],
+  ];
+
+  const index = new Map<string, string>();
+  for (const [column, values] of lookups) {
+    if (values.length === 0) continue;
+    const { data, error } = await supabase
+      .from('leads')
+      .select(EXISTING_LEAD_COLUMNS)
+      .eq('workspace_id', workspaceId)
+      .in(column, values);
+    if (error) throw new Error(`Failed to look up existing leads: ${error.message}`);
+
+    for (const lead of (data || []) as ExistingLead[]) {
+      for (const key of dedupeKeyStrings(leadDedupeKeys(lead))) {
+        if (!index.has(key)) index.set(key, lead.id);
+      }
+    }
+  }
+  return index;
+}
+
+// ============= PROCESSING =============
+
+interface BatchResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: LeadImportRowError[];
+}
+
+async function importBatch(
+  supabase: SupabaseClient,
+  job: LeadImportJobRow,
+  rows: { rowNumber: number; cells: string[] }[],
+  seenKeys: Set<string>,
+  customFields: CustomFieldDefinition[]
+): Promise<BatchResult> {
+  const result: BatchResult = { created: 0, updated: 0, skipped: 0, errors: [] };
+  const skip = (rowNumber: number, reason: LeadImportSkipReason, value?: string) => {
+    result.skipped++;
+    result.errors.push({ row: rowNumber, reason, ...(value ? { value } : {}) });
+  };
+
+  // Validation + duplicates inside the file itself
+  const valid: { rowNumber: number; lead: ImportedLead; keys: string[] }[] = [];
+  for (const { rowNumber, cells } of rows) {
+    const built = buildImportedLead(cells, job.mapping, customFields);
+    if (built.error) {
+      skip(rowNumber, built.error.reason, built.error.value);
+      continue;
+    }
+    const keys = dedupeKeyStrings(leadDedupeKeys(built.lead));
+    if (keys.some(key => seenKeys.has(key))) {
+      skip(rowNumber, 'duplicate_in_file', keys[0]?.split(':').slice(1).join(':'));
+      continue;
+    }
+    keys.forEach(key => seenKeys.add(key));
+    valid.push({ rowNumber, lead: built.lead, keys });
+  }
+  if (valid.length === 0) return result;
+
+  const existing = await findExistingLeads(supabase, job.workspace_id, valid.map(row => row.lead));
+  const listColumns = job.list_id ? { list_id: job.list_id } : {};
+  const touchedLeadIds: string[] = [];
+  const toInsert: typeof valid = [];
+
+  for (const row of valid) {
+    const existingId = row.keys.map(key => existing.get(key)).find(Boolean);
+    if (!existingId) {
+      toInsert.push(row);
+      continue;
+    }
+    if (!job.update_existing) {
+      skip(row.rowNumber, 'duplicate');
+      continue;
+    }
+    const update: Record<string, unknown> = { ...row.lead, ...listColumns };
+    if (row.lead.custom_fields) {
+      const { data: current } = await supabase
+        .from('leads')
+        .select('custom_fields')
+        .eq('id', existingId)
+        .single();
+      update.custom_fields = { ...(current?.custom_fields || {}), ...row.lead.custom_fields };
+    }
+    const { error } = await supabase
+      .from('leads')
+      .update(update)
+      .eq('id', existingId);
+    if (error) {
+      skip(row.rowNumber, 'insert_failed', error.message);
+      continue;
+    }
+    result.updated++;
+    touchedLeadIds.push(existingId);
+  }
+
+  if (toInsert.length > 0) {
+    const insertRows = toInsert.map(row => ({ ...row.lead, ...listColumns, workspace_id: job.workspace_id }));
+    const { data: inserted, error } = await supabase.from('leads').insert(insertRows).select('id');
+
+    if (!error) {
+      result.created += (inserted || []).length;
+      touchedLeadIds.push(...(inserted || []).map((lead: { id: string }) => lead.id));
+    } else {
+      // One bad row fails the whole batch: insert row by row to isolate it
+      for (let i = 0; i < toInsert.length; i++) {
+        const { data: lead, error: rowError } = await supabase
+          .from('leads')
+          .insert(insertRows[i])
+          .select('id')
+          .single();
+        if (rowError || !lead) {
+          skip(toInsert[i].rowNumber, 'insert_failed', rowError?.message);
+          continue;
+        }
+        result.created++;
+        touchedLeadIds.push(lead.id);
+      }
+    }
+  }
+
+  if (job.tag_ids.length > 0 && touchedLeadIds.length > 0) {
+    const tagRows = touchedLeadIds.flatMap(leadId => job.tag_ids.map(tagId => ({ lead_id: leadId, tag_id: tagId })));
+    const { error } = await supabase
+      .from('lead_tags')
+      .upsert(tagRows, { onConflict: 'lead_id,tag_id', ignoreDuplicates: true });
+    if (error) console.error(`[leadImportJob] Failed to tag leads of job ${job.id}:`, error);
+  }
+
+  return result;
+}
+
+/**
+ * Imports up to maxRows rows from where the job stopped and saves progress
+ * after each batch. Marks the job completed once every row was processed.
+ * `rows` skips downloading the file again when the caller already read it.
+ */
+export async function processLeadImportJob(
+  supabase: SupabaseClient,
+  job: LeadImportJobRow,
+  maxRows: number,
+  rows?: string[][]
+): Promise<LeadImportJobRow> {
+  const fileRows = rows ?? await readLeadImportFile(supabase, job.storage_path, job.file_type);
+  const dataRows = fileRows.slice(1);
+  const current = { ...job, row_errors: [...(job.row_errors || [])] };
+
+  await supabase
+    .from('lead_import_jobs')
+    .update({ status: 'processing', started_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .eq('status', 'pending');
+
+  const customFields = await loadLeadCustomFields(supabase, job.workspace_id);
+
+  // Rows imported by earlier runs still count for duplicates inside the file
+  const seenKeys = new Set<string>();
+  for (const cells of dataRows.slice(0, current.processed_rows)) {
+    const built = buildImportedLead(cells, job.mapping, customFields);
+    if (built.lead) dedupeKeyStrings(leadDedupeKeys(built.lead)).forEach(key => seenKeys.add(key));
+  }
+
+  const end = Math.min(dataRows.length, current.processed_rows + maxRows);
+  while (current.processed_rows < end) {
+    const start = current.processed_rows;
+    const batch = dataRows
+      .slice(start, Math.min(end, start + BATCH_SIZE))
+      .map((cells, offset) => ({ rowNumber: start + offset + 2, cells }));
+
+    const result = await importBatch(supabase, current, batch, seenKeys, customFields);
+    current.processed_rows += batch.length;
+    current.created_count += result.created;
+    current.updated_count += result.updated;
+    current.skipped_count += result.skipped;
+    current.row_errors = [...current.row_errors, ...result.errors].slice(0, MAX_ROW_ERRORS);
+
+    const done = current.processed_rows >= dataRows.length;
+    await supabase
+      .from('lead_import_jobs')
+      .update({
+        processed_rows: current.processed_rows,
+        created_count: current.created_count,
+        updated_count: current.updated_count,
+        skipped_count: current.skipped_count,
+        row_errors: current.row_errors,
+        ...(done ? { status: 'completed', completed_at: new Date().toISOString(), locked_until: null } : {}),
+      })
+      .eq('id', job.id);
+  }
+
+  if (dataRows.length === 0) {
+    await supabase
+      .from('lead_import_jobs')
+      .update({ status: 'completed', completed_at: new Date().toISOString(), locked_until: null })
+      .eq('id', job.id);
+  }
+
+  return current;
+}
+
+/** Marks a job failed (unreadable file, lookup errors) so it is not retried forever */
+export async function failLeadImportJob(supabase: SupabaseClient, jobId: string, message: string): Promise<void> {
+  await supabase
+    .from('lead_import_jobs')
+    .update({ status: 'failed', error_message: message, completed_at: new Date().toISOString(), locked_until: null })
+    .eq('id', jobId);
+}
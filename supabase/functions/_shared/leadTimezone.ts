@@ -0,0 +1,203 @@
+/**
+ * Lead timezone inference
+ * Maps the lead's city/state/country (free text from enrichment or imports)
+ * to an IANA timezone so sending windows can follow the lead's local time.
+ * Countries spanning several zones use the state when it is known.
+ */
+
+// ============= TYPES =============
+
+export interface TimezoneLead {
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+}
+
+// ============= LOOKUP TABLES =============
+
+/** Lowercase, accent-free, single spaces */
+function normalize(value: string | null | undefined): string {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  'brasil': 'America/Sao_Paulo', 'brazil': 'America/Sao_Paulo', 'br': 'America/Sao_Paulo',
+  'portugal': 'Europe/Lisbon', 'pt': 'Europe/Lisbon',
+  'estados unidos': 'America/New_York', 'united states': 'America/New_York',
+  'united states of america': 'America/New_York', 'usa': 'America/New_York', 'us': 'America/New_York', 'eua': 'America/New_York',
+  'canada': 'America/Toronto', 'ca': 'America/Toronto',
+  'mexico': 'America/Mexico_City', 'mx': 'America/Mexico_City',
+  'argentina': 'America/Argentina/Buenos_Aires', 'ar': 'America/Argentina/Buenos_Aires',
+  'chile': 'America/Santiago', 'cl': 'America/Santiago',
+  'colombia': 'America/Bogota', 'co': 'America/Bogota',
+  'peru': 'America/Lima', 'pe': 'America/Lima',
+  'uruguai': 'America/Montevideo', 'uruguay': 'America/Montevideo', 'uy': 'America/Montevideo',
+  'paraguai': 'America/Asuncion', 'paraguay': 'America/Asuncion', 'py': 'America/Asuncion',
+  'bolivia': 'America/La_Paz', 'bo': 'America/La_Paz',
+  'equador': 'America/Guayaquil', 'ecuador': 'America/Guayaquil', 'ec': 'America/Guayaquil',
+  'venezuela': 'America/Caracas', 've': 'America/Caracas',
+  'reino unido': 'Europe/London', 'united kingdom': 'Europe/London', 'uk': 'Europe/London',
+  'gb': 'Europe/London', 'england': 'Europe/London', 'inglaterra': 'Europe/London',
+  'irlanda': 'Europe/Dublin', 'ireland': 'Europe/Dublin', 'ie': 'Europe/Dublin',
+  'espanha': 'Europe/Madrid', 'spain': 'Europe/Madrid', 'es': 'Europe/Madrid',
+  'franca': 'Europe/Paris', 'france': 'Europe/Paris', 'fr': 'Europe/Paris',
+  'alemanha': 'Europe/Berlin', 'germany': 'Europe/Berlin', 'de': 'Europe/Berlin',
+  'italia': 'Europe/Rome', 'italy': 'Europe/Rome', 'it': 'Europe/Rome',
+  'holanda': 'Europe/Amsterdam', 'paises baixos': 'Europe/Amsterdam', 'netherlands': 'Europe/Amsterdam', 'nl': 'Europe/Amsterdam',
+  'belgica': 'Europe/Brussels', 'belgium': 'Europe/Brussels', 'be': 'Europe/Brussels',
+  'suica': 'Europe/Zurich', 'switzerland': 'Europe/Zurich', 'ch': 'Europe/Zurich',
+  'suecia': 'Europe/Stockholm', 'sweden': 'Europe/Stockholm', 'se': 'Europe/Stockholm',
+  'polonia': 'Europe/Warsaw', 'poland': 'Europe/Warsaw', 'pl': 'Europe/Warsaw',
+  'israel': 'Asia/Jerusalem', 'il': 'Asia/Jerusalem',
+  'emirados arabes unidos': 'Asia/Dubai', 'united arab emirates': 'Asia/Dubai', 'uae': 'Asia/Dubai', 'ae': 'Asia/Dubai',
+  'india': 'Asia/Kolkata', 'in': 'Asia/Kolkata',
+  'china': 'Asia/Shanghai', 'cn': 'Asia/Shanghai',
+  'japao': 'Asia/Tokyo', 'japan': 'Asia/Tokyo', 'jp': 'Asia/Tokyo',
+  'singapura': 'Asia/Singapore', 'singapore': 'Asia/Singapore', 'sg': 'Asia/Singapore',
+  'australia': 'Australia/Sydney', 'au': 'Australia/Sydney',
+  'africa do sul': 'Africa/Johannesburg', 'south africa': 'Africa/Johannesburg', 'za': 'Africa/Johannesburg',
+  'angola': 'Africa/Luanda', 'ao': 'Africa/Luanda',
+  'mocambique': 'Africa/Maputo', 'mozambique': 'Africa/Maputo', 'mz': 'Africa/Maputo',
+};
+
+/** Brazilian states (UF and name) that are not on America/Sao_Paulo time */
+const BRAZIL_STATE_TIMEZONES: Record<string, string> = {
+  'ac': 'America/Rio_Branco', 'acre': 'America/Rio_Branco',
+  'am': 'America/Manaus', 'amazonas': 'America/Manaus',
+  'rr': 'America/Boa_Vista', 'roraima': 'America/Boa_Vista',
+  'ro': 'America/Porto_Velho', 'rondonia': 'America/Porto_Velho',
+  'mt': 'America/Cuiaba', 'mato grosso': 'America/Cuiaba',
+  'ms': 'America/Campo_Grande', 'mato grosso do sul': 'America/Campo_Grande',
+  'pa': 'America/Belem', 'para': 'America/Belem',
+  'ap': 'America/Belem', 'amapa': 'America/Belem',
+  'to': 'America/Araguaina', 'tocantins': 'America/Araguaina',
+  'ma': 'America/Fortaleza', 'maranhao': 'America/Fortaleza',
+  'pi': 'America/Fortaleza', 'piaui': 'America/Fortaleza',
+  'ce': 'America/Fortaleza', 'ceara': 'America/Fortaleza',
+  'rn': 'America/Fortaleza', 'rio grande do norte': 'America/Fortaleza',
+  'pb': 'America/Fortaleza', 'paraiba': 'America/Fortaleza',
+  'pe': 'America/Recife', 'pernambuco': 'America/Recife',
+  'al': 'America/Maceio', 'alagoas': 'America/Maceio',
+  'se': 'America/Maceio', 'sergipe': 'America/Maceio',
+  'ba': 'America/Bahia', 'bahia': 'America/Bahia',
+};
+
+const US_STATE_TIMEZONES: Record<string, string> = {
+  // Pacific
+  'ca': 'America/Los_Angeles', 'california': 'America/Los_Angeles',
+  'wa': 'America/Los_Angeles', 'washington': 'America/Los_Angeles',
+  'or': 'America/Los_Angeles', 'oregon': 'America/Los_Angeles',
+  'nv': 'America/Los_Angeles', 'nevada': 'America/Los_Angeles',
+  // Mountain
+  'az': 'America/Phoenix', 'arizona': 'America/Phoenix',
+  'co': 'America/Denver', 'colorado': 'America/Denver',
+  'ut': 'America/Denver', 'utah': 'America/Denver',
+  'nm': 'America/Denver', 'new mexico': 'America/Denver',
+  'id': 'America/Boise', 'idaho': 'America/Boise',
+  'mt': 'America/Denver', 'montana': 'America/Denver',
+  'wy': 'America/Denver', 'wyoming': 'America/Denver',
+  // Central
+  'tx': 'America/Chicago', 'texas': 'America/Chicago',
+  'il': 'America/Chicago', 'illinois': 'America/Chicago',
+  'mn': 'America/Chicago', 'minnesota': 'America/Chicago',
+  'wi': 'America/Chicago', 'wisconsin': 'America/Chicago',
+  'mo': 'America/Chicago', 'missouri': 'America/Chicago',
+  'ia': 'America/Chicago', 'iowa': 'America/Chicago',
+  'ks': 'America/Chicago', 'kansas': 'America/Chicago',
+  'ok': 'America/Chicago', 'oklahoma': 'America/Chicago',
+  'ne': 'America/Chicago', 'nebraska': 'America/Chicago',
+  'la': 'America/Chicago', 'louisiana': 'America/Chicago',
+  'ar': 'America/Chicago', 'arkansas': 'America/Chicago',
+  'ms': 'America/Chicago', 'mississippi': 'America/Chicago',
+  'al': 'America/Chicago', 'alabama': 'America/Chicago',
+  'tn': 'America/Chicago', 'tennessee': 'America/Chicago',
+  'nd': 'America/Chicago', 'north dakota': 'America/Chicago',
+  'sd': 'America/Chicago', 'south dakota': 'America/Chicago',
+  // Others
+  'ak': 'America/Anchorage', 'alaska': 'America/Anchorage',
+  'hi': 'Pacific/Honolulu', 'hawaii': 'Pacific/Honolulu',
+};
+
+const CANADA_PROVINCE_TIMEZONES: Record<string, string> = {
+  'bc': 'America/Vancouver', 'british columbia': 'America/Vancouver',
+  'ab': 'America/Edmonton', 'alberta': 'America/Edmonton',
+  'sk': 'America/Regina', 'saskatchewan': 'America/Regina',
+  'mb': 'America/Winnipeg', 'manitoba': 'America/Winnipeg',
+  'qc': 'America/Toronto', 'quebec': 'America/Toronto',
+  'ns': 'America/Halifax', 'nova scotia': 'America/Halifax',
+  'nb': 'America/Halifax', 'new brunswick': 'America/Halifax',
+  'nl': 'America/St_Johns', 'newfoundland and labrador': 'America/St_Johns',
+};
+
+const AUSTRALIA_STATE_TIMEZONES: Record<string, string> = {
+  'wa': 'Australia/Perth', 'western australia': 'Australia/Perth',
+  'sa': 'Australia/Adelaide', 'south australia': 'Australia/Adelaide',
+  'nt': 'Australia/Darwin', 'northern territory': 'Australia/Darwin',
+  'qld': 'Australia/Brisbane', 'queensland': 'Australia/Brisbane',
+  'vic': 'Australia/Melbourne', 'victoria': 'Australia/Melbourne',
+};
+
+/** Cities often filled without state/country */
+const CITY_TIMEZONES: Record<string, string> = {
+  'sao paulo': 'America/Sao_Paulo', 'rio de janeiro': 'America/Sao_Paulo', 'belo horizonte': 'America/Sao_Paulo',
+  'curitiba': 'America/Sao_Paulo', 'porto alegre': 'America/Sao_Paulo', 'brasilia': 'America/Sao_Paulo',
+  'florianopolis': 'America/Sao_Paulo', 'campinas': 'America/Sao_Paulo', 'goiania': 'America/Sao_Paulo',
+  'salvador': 'America/Bahia', 'recife': 'America/Recife', 'fortaleza': 'America/Fortaleza',
+  'manaus': 'America/Manaus', 'belem': 'America/Belem', 'cuiaba': 'America/Cuiaba',
+  'lisboa': 'Europe/Lisbon', 'lisbon': 'Europe/Lisbon', 'porto': 'Europe/Lisbon',
+  'new york': 'America/New_York', 'miami': 'America/New_York', 'boston': 'America/New_York',
+  'chicago': 'America/Chicago', 'austin': 'America/Chicago', 'dallas': 'America/Chicago',
+  'san francisco': 'America/Los_Angeles', 'los angeles': 'America/Los_Angeles', 'seattle': 'America/Los_Angeles',
+  'london': 'Europe/London', 'londres': 'Europe/London',
+  'buenos aires': 'America/Argentina/Buenos_Aires', 'santiago': 'America/Santiago',
+  'bogota': 'America/Bogota', 'lima': 'America/Lima', 'cidade do mexico': 'America/Mexico_City',
+  'mexico city': 'America/Mexico_City', 'madrid': 'Europe/Madrid', 'barcelona': 'Europe/Madrid',
+  'paris': 'Europe/Paris', 'berlin': 'Europe/Berlin', 'amsterdam': 'Europe/Amsterdam',
+  'dubai': 'Asia/Dubai', 'singapore': 'Asia/Singapore', 'sydney': 'Australia/Sydney',
+  'toronto': 'America/Toronto', 'vancouver': 'America/Vancouver',
+};
+
+const STATE_TABLES: Record<string, Record<string, string>> = {
+  'America/Sao_Paulo': BRAZIL_STATE_TIMEZONES,
+  'America/New_York': US_STATE_TIMEZONES,
+  'America/Toronto': CANADA_PROVINCE_TIMEZONES,
+  'Australia/Sydney': AUSTRALIA_STATE_TIMEZONES,
+};
+
+// ============= INFERENCE =============
+
+/**
+ * Best-effort IANA timezone for a lead. Order: country (refined by state for
+ * multi-zone countries), then city, then `fallback` (the workspace timezone).
+ */
+export function inferLeadTimezone(lead: TimezoneLead | null | undefined, fallback: string): string {
+  if (!lead) return fallback;
+
+  const country = normalize(lead.country);
+  const state = normalize(lead.state);
+  const city = normalize(lead.city);
+
+  const countryTimezone = COUNTRY_TIMEZONES[country];
+  if (countryTimezone) {
+    const stateTimezone = state ? STATE_TABLES[countryTimezone]?.[state] : undefined;
+    if (stateTimezone) return stateTimezone;
+    // Without a state, a known city can still pick the right zone inside the country
+    const cityTimezone = CITY_TIMEZONES[city];
+    const countryZones = Object.values(STATE_TABLES[countryTimezone] || {});
+    if (cityTimezone && countryZones.includes(cityTimezone)) return cityTimezone;
+    return countryTimezone;
+  }
+
+  if (city && CITY_TIMEZONES[city]) return CITY_TIMEZONES[city];
+
+  // Country missing: a Brazilian UF alone is a strong signal for this product
+  if (!country && state && BRAZIL_STATE_TIMEZONES[state]) return BRAZIL_STATE_TIMEZONES[state];
+
+  return fallback;
+}
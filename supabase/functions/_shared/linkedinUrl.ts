@@ -0,0 +1,91 @@
+/**
+ * LinkedIn profile URLs
+ * The send paths resolve a lead's linkedin_url to its public identifier before
+ * looking the profile up on the provider. Import-free: the campaign dry-run
+ * in the frontend validates URLs with the same parser, and the suppression
+ * list normalizes LinkedIn entries with it.
+ */
+
+/**
+ * Public identifier of a profile URL. Handles:
+ * https://www.linkedin.com/in/username, trailing slashes, query strings and /in/username
+ */
+export function extractLinkedInPublicIdentifier(linkedinUrl: string): string | null {
+  try {
+    const url = linkedinUrl.startsWith('http')
+      ? new URL(linkedinUrl)
+      : new URL(`https://linkedin.com${linkedinUrl.startsWith('/') ? '' : '/'}${linkedinUrl}`);
+    const pathParts = url.pathname.split('/').filter(Boolean);
+
+    // Find 'in' segment and get the next segment
+    const inIndex = pathParts.findIndex(p => p.toLowerCase() === 'in');
+    if (inIndex !== -1 && pathParts[inIndex + 1]) {
+      return pathParts[inIndex + 1];
+    }
+
+    // Fallback: just return the last non-empty segment
+    return pathParts[pathParts.length - 1] || null;
+  } catch {
+    // If URL parsing fails, try regex
+    const match = linkedinUrl.match(/\/in\/([^/?]+)/);
+    return match ? match[1] : null;
+  }
+}
+
+/**
+ * Provider id (Unipile user lookup) of a public identifier, as required by
+ * /users/invite and /chats. Returns null when the profile can't be resolved.
+ */
+export async function resolveLinkedInProviderId(
+  unipileDsn: string,
+  unipileApiKey: string,
+  accountId: string,
+  publicIdentifier: string
+): Promise<string | null> {
+  try {
+    const lookupUrl = `https://${unipileDsn}/api/v1/users/${encodeURIComponent(publicIdentifier)}?account_id=${accountId}`;
+    console.log(`[LinkedIn Lookup] URL: ${lookupUrl}`);
+    
+    const response = await fetch(lookupUrl, {
+      method: 'GET',
+      headers: {
+        'X-API-KEY': unipileApiKey,
+        'Accept': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      console.error(`[LinkedIn Lookup] Failed for ${publicIdentifier}: HTTP ${response.status} - ${errorText}`);
+      return null;
+    }
+
+    const data = await response.json();
+    console.log(`[LinkedIn Lookup] Response for ${publicIdentifier}:`, JSON.stringify({
+      id: data.id,
+      provider_id: data.provider_id,
+      provider_messaging_id: data.provider_messaging_id,
+    }));
+    
+    // IMPORTANT: Use provider_id or id for invite endpoint
+    // DO NOT use provider_messaging_id - it doesn't work for /users/invite
+    const providerId = data.provider_id || data.id;
+    
+    if (!providerId) {
+      console.error(`[LinkedIn Lookup] No valid provider_id found for ${publicIdentifier}. Available fields: ${Object.keys(data).join(', ')}`);
+      return null;
+    }
+    
+    // Validate that we're not returning provider_messaging_id by mistake
+    if (providerId === data.provider_messaging_id && !data.provider_id && !data.id) {
+      console.error(`[LinkedIn Lookup] Only provider_messaging_id available for ${publicIdentifier}, which doesn't work for invites`);
+      return null;
+    }
+    
+    console.log(`[LinkedIn Lookup] Resolved ${publicIdentifier} -> provider_id: ${providerId}`);
+    return providerId;
+  } catch (error) {
+    console.error(`[LinkedIn Lookup] Error for ${publicIdentifier}:`, error);
+    return null;
+  }
+}
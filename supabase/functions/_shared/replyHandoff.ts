@@ -0,0 +1,180 @@
+/**
+ * Stop-on-reply and conversation handoff
+ * When a lead replies, its sequence stops and the lead is flagged "em conversa"
+ * (leads.in_conversation_at). campaigns.reply_stop_scope = 'workspace' also halts
+ * every other campaign still reaching the lead; campaigns.notify_on_reply
+ * notifies the member who created the campaign. The reply's classified intent
+ * is stored on campaign_leads.reply_intent.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stopLeadSequence } from "./campaignSteps.ts";
+import type { ReplyIntent } from "./replyIntent.ts";
+
+// ============= TYPES =============
+
+export type ReplyStopScope = 'campaign' | 'workspace';
+
+export interface ReplyHandoffResult {
+  /** campaign_leads halted in other campaigns (workspace scope) */
+  haltedElsewhere: number;
+  notified: boolean;
+}
+
+interface RepliedCampaignLead {
+  id: string;
+  lead_id: string;
+  campaign: {
+    id: string;
+    name: string;
+    workspace_id: string;
+    created_by: string | null;
+    reply_stop_scope: ReplyStopScope | null;
+    notify_on_reply: boolean | null;
+  } | null;
+  lead: {
+    full_name: string | null;
+    first_name: string | null;
+    last_name: string | null;
+    in_conversation_at: string | null;
+  } | null;
+}
+
+// Campaigns that no longer send: nothing to halt there
+const FINISHED_CAMPAIGN_STATUSES = ['completed', 'failed'];
+
+// ============= HANDOFF =============
+
+/**
+ * Runs once per reply event (idempotent): the first reply flags the lead,
+ * halts the other campaigns per the rule and sends the notification.
+ */
+export async function handleLeadReply(
+  supabase: SupabaseClient,
+  campaignLeadId: string,
+  repliedAt: string
+): Promise<ReplyHandoffResult> {
+  const result: ReplyHandoffResult = { haltedElsewhere: 0, notified: false };
+
+  await stopLeadSequence(supabase, campaignLeadId, 'replied');
+
+  const { data, error } = await supabase
+    .from('campaign_leads')
+    .select(`
+      id,
+      lead_id,
+      campaign:campaigns ( id, name, workspace_id, created_by, reply_stop_scope, notify_on_reply ),
+      lead:leads ( full_name, first_name, last_name, in_conversation_at )
+    `)
+    .eq('id', campaignLeadId)
+    .maybeSingle();
+
+  if (error || !data) {
+    console.error(`[replyHandoff] Error loading campaign_lead ${campaignLeadId}:`, error);
+    return result;
+  }
+
+  const cl = data as unknown as RepliedCampaignLead;
+  const campaign = cl.campaign;
+  if (!campaign) return result;
+
+  // Flag "em conversa" only once: later replies keep the original handoff
+  const { data: flagged } = await supabase
+    .from('leads')
+    .update({ in_conversation_at: repliedAt, in_conversation_campaign_id: campaign.id })
+    .eq('id', cl.lead_id)
+    .is('in_conversation_at', null)
+    .select('id');
+  const firstReply = (flagged || []).length > 0;
+
+  if (campaign.reply_stop_scope === 'workspace') {
+    result.haltedElsewhere = await haltOtherCampaigns(supabase, cl.lead_id, campaign.id);
+  }
+
+  if (campaign.notify_on_reply && campaign.created_by && firstReply) {
+    const leadName = cl.lead?.full_name
+      || [cl.lead?.first_name, cl.lead?.last_name].filter(Boolean).join(' ')
+      || 'Um lead';
+    const { error: notifyError } = await supabase.from('notifications').insert({
+      workspace_id: campaign.workspace_id,
+      user_id: campaign.created_by,
+      type: 'lead_replied',
+      title: `${leadName} respondeu`,
+      body: `Resposta na campanha "${campaign.name}". O lead está em conversa.`,
+      campaign_id: campaign.id,
+      lead_id: cl.lead_id,
+    });
+    if (notifyError) {
+      console.error(`[replyHandoff] Error notifying ${campaign.created_by}:`, notifyError);
+    } else {
+      result.notified = true;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Halts the lead in every other unfinished campaign: follow-ups stop and
+ * first messages not sent yet are skipped.
+ */
+async function haltOtherCampaigns(
+  supabase: SupabaseClient,
+  leadId: string,
+  repliedCampaignId: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('campaign_leads')
+    .select('id, status, sequence_status, campaigns!inner(status)')
+    .eq('lead_id', leadId)
+    .neq('campaign_id', repliedCampaignId)
+    .not('campaigns.status', 'in', `(${FINISHED_CAMPAIGN_STATUSES.join(',')})`);
+
+  if (error) {
+    console.error(`[replyHandoff] Error loading other campaigns of lead ${leadId}:`, error);
+    return 0;
+  }
+
+  let halted = 0;
+  for (const row of (data || []) as { id: string; status: string; sequence_status: string }[]) {
+    if (row.status === 'pending') {
+      const { data: skipped } = await supabase
+        .from('campaign_leads')
+        .update({
+          status: 'skipped',
+          skip_reason: 'in_conversation',
+          sequence_status: 'stopped',
+          stop_reason: 'replied_elsewhere',
+          stopped_at: new Date().toISOString(),
+          next_step_at: null,
+        })
+        .eq('id', row.id)
+        .eq('status', 'pending')
+        .select('id');
+      halted += (skipped || []).length;
+    } else if (row.sequence_status === 'active') {
+      if (await stopLeadSequence(supabase, row.id, 'replied_elsewhere')) halted++;
+    }
+  }
+  return halted;
+}
+
+// ============= REPLY INTENT =============
+
+/**
+ * Stores the intent of the lead's latest reply (see _shared/replyIntent.ts).
+ * An opt-out is kept even if the lead writes again afterwards.
+ */
+export async function recordReplyIntent(
+  supabase: SupabaseClient,
+  campaignLeadId: string,
+  intent: ReplyIntent
+): Promise<void> {
+  const { error } = await supabase
+    .from('campaign_leads')
+    .update({ reply_intent: intent })
+    .eq('id', campaignLeadId)
+    .or('reply_intent.is.null,reply_intent.neq.opt_out');
+
+  if (error) console.error(`[replyHandoff] Error storing reply intent for ${campaignLeadId}:`, error);
+}
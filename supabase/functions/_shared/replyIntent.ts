@@ -0,0 +1,209 @@
+/**
+ * Reply intent classification
+ * Classifies inbound replies offline with ordered keyword/pattern rules. The
+ * first matching rule wins, so more specific intents (opt-out, out of office)
+ * come before generic ones ("sim", a question mark). Callers can pass their
+ * own rule list to classifyReply; DEFAULT_INTENT_RULES is the built-in set.
+ * No external imports besides ./suppression.ts, so the frontend shares it.
+ */
+
+import { detectOptOut, foldText } from "./suppression.ts";
+
+// ============= TYPES =============
+
+export type ReplyIntent =
+  | 'interested'
+  | 'not_interested'
+  | 'out_of_office'
+  | 'wrong_person'
+  | 'opt_out'
+  | 'question'
+  | 'unclassified';
+
+export const REPLY_INTENTS: ReplyIntent[] = [
+  'interested',
+  'not_interested',
+  'out_of_office',
+  'wrong_person',
+  'opt_out',
+  'question',
+  'unclassified',
+];
+
+/** Intents counted in the positive reply rate */
+export const POSITIVE_REPLY_INTENTS: ReplyIntent[] = ['interested'];
+
+export interface IntentRule {
+  intent: ReplyIntent;
+  /** Phrases matched on word boundaries, compared without accents */
+  keywords?: string[];
+  /** Tested against the original text */
+  patterns?: RegExp[];
+  /** Custom check on the folded text (lowercase, no accents or punctuation) */
+  test?: (folded: string, text: string) => string | null;
+}
+
+export interface ReplyClassification {
+  intent: ReplyIntent;
+  /** Keyword or pattern that decided the intent */
+  matched: string | null;
+}
+
+// ============= DEFAULT RULES =============
+
+export const DEFAULT_INTENT_RULES: IntentRule[] = [
+  {
+    intent: 'opt_out',
+    test: (_folded, text) => detectOptOut(text),
+  },
+  {
+    intent: 'out_of_office',
+    keywords: [
+      'fora do escritorio',
+      'resposta automatica',
+      'mensagem automatica',
+      'estou de ferias',
+      'estarei de ferias',
+      'em ferias',
+      'estou ausente',
+      'estarei ausente',
+      'retorno no dia',
+      'retornarei',
+      'licenca maternidade',
+      'licenca paternidade',
+      'out of office',
+      'automatic reply',
+      'auto reply',
+      'on vacation',
+      'on leave',
+    ],
+  },
+  {
+    intent: 'wrong_person',
+    keywords: [
+      'pessoa errada',
+      'numero errado',
+      'nao sou eu',
+      'nao sou a pessoa',
+      'nao sou o responsavel',
+      'nao sou a responsavel',
+      'nao cuido disso',
+      'nao trabalho mais',
+      'sai da empresa',
+      'nao faco mais parte',
+      'procure o',
+      'procure a',
+      'fale com o',
+      'fale com a',
+      'wrong person',
+      'wrong number',
+      'no longer work',
+      'not the right person',
+    ],
+  },
+  {
+    intent: 'not_interested',
+    keywords: [
+      'nao tenho interesse',
+      'nao temos interesse',
+      'sem interesse',
+      'nao me interessa',
+      'nao nos interessa',
+      'nao preciso',
+      'nao precisamos',
+      'nao obrigado',
+      'nao obrigada',
+      'agora nao',
+      'no momento nao',
+      'nao e o momento',
+      'ja temos',
+      'ja possuimos',
+      'ja utilizamos',
+      'not interested',
+      'no thanks',
+      'no thank you',
+      'not a fit',
+    ],
+  },
+  {
+    intent: 'interested',
+    keywords: [
+      'tenho interesse',
+      'temos interesse',
+      'interessante',
+      'interessado',
+      'interessada',
+      'quero saber mais',
+      'gostaria de saber mais',
+      'me conta mais',
+      'me manda mais',
+      'pode me ligar',
+      'me liga',
+      'vamos conversar',
+      'podemos conversar',
+      'vamos marcar',
+      'podemos marcar',
+      'agendar',
+      'reuniao',
+      'call',
+      'qual horario',
+      'qual o melhor horario',
+      'tenho disponibilidade',
+      'manda o link',
+      'bora',
+      'claro',
+      'com certeza',
+      'interested',
+      'sounds good',
+      'lets talk',
+      'book a',
+      'schedule',
+    ],
+    // A bare "sim"/"yes"/"ok" answers the invitation in the message
+    test: folded => (['sim', 'yes', 'ok', 'pode ser', 'sim claro'].includes(folded) ? folded : null),
+  },
+  {
+    intent: 'question',
+    patterns: [/\?/],
+    keywords: ['como funciona', 'quanto custa', 'qual o valor', 'qual o preco', 'how much', 'how does'],
+  },
+];
+
+// ============= CLASSIFIER =============
+
+function matchRule(rule: IntentRule, folded: string, text: string): string | null {
+  if (rule.test) {
+    const matched = rule.test(folded, text);
+    if (matched) return matched;
+  }
+  for (const keyword of rule.keywords || []) {
+    if (` ${folded} `.includes(` ${keyword} `)) return keyword;
+  }
+  for (const pattern of rule.patterns || []) {
+    if (pattern.test(text)) return pattern.source;
+  }
+  return null;
+}
+
+/**
+ * Intent of a reply. Empty replies (attachments only) and replies no rule
+ * matches are 'unclassified'.
+ */
+export function classifyReply(
+  text: string | null | undefined,
+  rules: IntentRule[] = DEFAULT_INTENT_RULES
+): ReplyClassification {
+  const raw = (text || '').trim();
+  const folded = foldText(raw);
+  if (!folded) return { intent: 'unclassified', matched: null };
+
+  for (const rule of rules) {
+    const matched = matchRule(rule, folded, raw);
+    if (matched) return { intent: rule.intent, matched };
+  }
+  return { intent: 'unclassified', matched: null };
+}
+
+export function isPositiveIntent(intent: string | null | undefined): boolean {
+  return !!intent && POSITIVE_REPLY_INTENTS.includes(intent as ReplyIntent);
+}
@@ -0,0 +1,67 @@
+/**
+ * Send attempt log for campaign leads
+ * - One campaign_send_attempts row per provider call (first message and follow-ups)
+ * - Keeps failures that campaign_leads overwrites on the next attempt, for the
+ *   per-lead delivery timeline
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// ============= TYPES =============
+
+export type SendAttemptOutcome = 'sent' | 'failed' | 'bounced';
+
+export type SendAttemptSource = 'send-campaign' | 'process-campaign-queue';
+
+export interface SendAttemptInput {
+  workspaceId: string;
+  campaignId: string;
+  campaignLeadId: string;
+  stepOrder?: number;
+  /** 1 for the first try; retries use retry_count + 1 */
+  attempt: number;
+  outcome: SendAttemptOutcome;
+  error?: string | null;
+  providerMessageId?: string | null;
+  /** accounts.id of the sender */
+  accountId?: string | null;
+  channel?: string | null;
+  action?: string | null;
+  source: SendAttemptSource;
+  /** <campaign_lead_id>:step:<n>; a successful attempt is stored once per key */
+  idempotencyKey?: string | null;
+  details?: Record<string, unknown>;
+}
+
+// ============= RECORDING =============
+
+/**
+ * Logs one attempt. Never throws: a missing log row must not turn a
+ * successful send into a retry.
+ */
+export async function recordSendAttempt(
+  supabase: SupabaseClient,
+  input: SendAttemptInput
+): Promise<void> {
+  try {
+    const { error } = await supabase.from('campaign_send_attempts').insert({
+      workspace_id: input.workspaceId,
+      campaign_id: input.campaignId,
+      campaign_lead_id: input.campaignLeadId,
+      step_order: input.stepOrder ?? 1,
+      attempt: input.attempt,
+      outcome: input.outcome,
+      error: input.error ?? null,
+      provider_message_id: input.providerMessageId ?? null,
+      account_id: input.accountId ?? null,
+      channel: input.channel ?? null,
+      action: input.action ?? null,
+      source: input.source,
+      idempotency_key: input.idempotencyKey ?? null,
+      details: input.details ?? {},
+    });
+    if (error) throw error;
+  } catch (err) {
+    console.error(`[sendAttempts] Failed to record attempt for campaign lead ${input.campaignLeadId}:`, err);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Exactly-once sending for campaign leads
+ * - claimCampaignLead: lease on the campaign_leads row before the provider call
+ * - Idempotency key per lead and step, sent to the provider and stored with the
+ *   successful attempt so a second worker never calls the provider again
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// ============= CONFIGURATION =============
+
+// Long enough for a profile lookup plus the send; released right after the outcome is written
+const SEND_LEASE_SECONDS = 600;
+
+/** Header sent on provider calls; retries of the same step reuse the key */
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// ============= KEYS =============
+
+export function sendIdempotencyKey(campaignLeadId: string, stepOrder: number): string {
+  return `${campaignLeadId}:step:${stepOrder}`;
+}
+
+/** Deterministic Message-ID for email, so a resent copy is recognised as the same message */
+export function idempotentMessageId(idempotencyKey: string, fromAddress: string): string {
+  const domain = fromAddress.split('@')[1] || 'localhost';
+  return `<${idempotencyKey.replace(/[^\w.-]+/g, '.')}@${domain}>`;
+}
+
+// ============= LEASES =============
+
+/**
+ * Claims the lead for this worker. Returns the lease token, or null when
+ * another invocation holds it or the row changed since it was read
+ * (retry_count / current_step): the caller must skip the lead.
+ */
+export async function claimCampaignLead(
+  supabase: SupabaseClient,
+  lead: { id: string; retry_count: number; current_step?: number | null },
+  options: { followUp?: boolean } = {}
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('claim_campaign_lead', {
+    p_campaign_lead_id: lead.id,
+    p_retry_count: lead.retry_count,
+    p_current_step: options.followUp ? lead.current_step ?? null : null,
+    p_lease_seconds: SEND_LEASE_SECONDS,
+  });
+
+  if (error) {
+    console.error(`[sendLease] Claim failed for campaign lead ${lead.id}:`, error);
+    return null;
+  }
+  return (data as string | null) ?? null;
+}
+
+/** Releases the lease; a no-op when it already expired and someone else took it */
+export async function releaseCampaignLead(
+  supabase: SupabaseClient,
+  campaignLeadId: string,
+  token: string
+): Promise<void> {
+  const { error } = await supabase.rpc('release_campaign_lead', {
+    p_campaign_lead_id: campaignLeadId,
+    p_lock_token: token,
+  });
+  if (error) {
+    console.error(`[sendLease] Release failed for campaign lead ${campaignLeadId}:`, error);
+  }
+}
+
+/**
+ * Successful attempt already stored for this key (a previous worker sent the
+ * message but died before updating campaign_leads), or null.
+ */
+export async function findSentAttempt(
+  supabase: SupabaseClient,
+  idempotencyKey: string
+): Promise<{ provider_message_id: string | null; account_id: string | null; created_at: string } | null> {
+  const { data } = await supabase
+    .from('campaign_send_attempts')
+    .select('provider_message_id, account_id, created_at')
+    .eq('idempotency_key', idempotencyKey)
+    .eq('outcome', 'sent')
+    .maybeSingle();
+  return data ?? null;
+}
@@ -0,0 +1,254 @@
+/**
+ * Campaign sending windows
+ * Days of the week + hour range (local time) + holidays to skip. Shared by the
+ * edge functions and the frontend (projected completion date), so it must
+ * stay free of imports. The SQL twin is public.is_within_sending_window.
+ */
+
+// ============= TYPES =============
+
+export interface SendingWindow {
+  /** 0 = Sunday .. 6 = Saturday; null = every day */
+  days: number[] | null;
+  /** "HH:MM" (or "HH:MM:SS" as returned by Postgres); null = from midnight */
+  start: string | null;
+  /** Exclusive end; null = until midnight */
+  end: string | null;
+  /** YYYY-MM-DD dates to skip (empty when the campaign doesn't skip holidays) */
+  holidays: string[];
+}
+
+export interface CampaignWindowColumns {
+  send_window_days?: number[] | null;
+  send_window_start?: string | null;
+  send_window_end?: string | null;
+  skip_holidays?: boolean | null;
+}
+
+/** Window as sent by the campaign form (create-campaign body) */
+export interface SendingWindowInput {
+  days?: number[] | null;
+  start?: string | null;
+  end?: string | null;
+  skipHolidays?: boolean;
+  useLeadTimezone?: boolean;
+}
+
+export interface LocalDateTime {
+  /** YYYY-MM-DD */
+  date: string;
+  weekday: number;
+  /** Minutes since local midnight */
+  minutes: number;
+}
+
+export interface QueuePlanDay {
+  date: string;
+  leads: number;
+}
+
+// ============= HELPERS =============
+
+const MAX_DAYS_AHEAD = 3660;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+/** Validates the form input and maps it to campaigns columns */
+export function buildSendingWindowColumns(
+  input: SendingWindowInput | null | undefined
+): { columns: Required<CampaignWindowColumns> & { use_lead_timezone: boolean }; error?: string } {
+  const columns = {
+    send_window_days: null as number[] | null,
+    send_window_start: null as string | null,
+    send_window_end: null as string | null,
+    skip_holidays: false,
+    use_lead_timezone: false,
+  };
+  if (!input) return { columns };
+
+  if (input.days && input.days.length > 0) {
+    const days = [...new Set(input.days.map(Number))].sort((a, b) => a - b);
+    if (days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return { columns, error: 'Sending window days must be between 0 (Sunday) and 6 (Saturday)' };
+    }
+    columns.send_window_days = days.length === 7 ? null : days;
+  }
+
+  for (const [key, value] of [['start', input.start], ['end', input.end]] as const) {
+    if (value && !TIME_PATTERN.test(value)) {
+      return { columns, error: `Sending window ${key} must be HH:MM` };
+    }
+  }
+  columns.send_window_start = input.start || null;
+  columns.send_window_end = input.end || null;
+  if (columns.send_window_start && columns.send_window_end
+      && timeToMinutes(columns.send_window_start) >= timeToMinutes(columns.send_window_end)) {
+    return { columns, error: 'Sending window start must be before its end' };
+  }
+
+  columns.skip_holidays = input.skipHolidays === true;
+  columns.use_lead_timezone = input.useLeadTimezone === true;
+  return { columns };
+}
+
+export function buildSendingWindow(campaign: CampaignWindowColumns, holidays: string[] = []): SendingWindow {
+  return {
+    days: campaign.send_window_days && campaign.send_window_days.length > 0 ? campaign.send_window_days : null,
+    start: campaign.send_window_start || null,
+    end: campaign.send_window_end || null,
+    holidays: campaign.skip_holidays ? holidays : [],
+  };
+}
+
+export function hasSendingWindow(window: SendingWindow): boolean {
+  return !!(window.days || window.start || window.end || window.holidays.length > 0);
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/** "HH:MM" without seconds */
+export function formatWindowTime(time: string | null): string | null {
+  return time ? time.slice(0, 5) : null;
+}
+
+export function addDaysToDate(date: string, days: number): string {
+  const value = new Date(`${date}T12:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().split('T')[0];
+}
+
+/** Wall-clock date/time of an instant in a timezone (invalid zones fall back to UTC) */
+export function getLocalDateTime(at: Date, timezone: string): LocalDateTime {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(at);
+  } catch {
+    return getLocalDateTime(at, 'UTC');
+  }
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '00';
+  const date = `${get('year')}-${get('month')}-${get('day')}`;
+  return {
+    date,
+    weekday: new Date(`${date}T12:00:00Z`).getUTCDay(),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+/** UTC instant of a local wall-clock date/time ("YYYY-MM-DD", "HH:MM") in a timezone */
+export function localTimeToInstant(date: string, time: string, timezone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const guess = new Date(`${date}T00:00:00Z`);
+  guess.setUTCHours(hours || 0, minutes || 0, 0, 0);
+
+  // Shift by the zone offset at that moment (twice, to settle around DST changes)
+  let instant = guess.getTime();
+  for (let i = 0; i < 2; i++) {
+    const local = getLocalDateTime(new Date(instant), timezone);
+    const localAsUtc = new Date(`${local.date}T00:00:00Z`).getTime() + local.minutes * 60_000;
+    instant += guess.getTime() - localAsUtc;
+  }
+  return new Date(instant);
+}
+
+// ============= WINDOW CHECKS =============
+
+/** Day of week allowed and not a holiday */
+export function isSendingDay(window: SendingWindow, date: string): boolean {
+  if (window.holidays.includes(date)) return false;
+  if (!window.days) return true;
+  return window.days.includes(new Date(`${date}T12:00:00Z`).getUTCDay());
+}
+
+export function isWithinSendingWindow(window: SendingWindow, at: Date, timezone: string): boolean {
+  const local = getLocalDateTime(at, timezone);
+  if (!isSendingDay(window, local.date)) return false;
+  if (window.start && local.minutes < timeToMinutes(window.start)) return false;
+  if (window.end && local.minutes >= timeToMinutes(window.end)) return false;
+  return true;
+}
+
+/**
+ * Next moment (local date + "HH:MM") the window is open, starting at `at`.
+ * Returns `at` itself when the window is already open.
+ */
+export function getNextWindowOpening(window: SendingWindow, at: Date, timezone: string): { date: string; time: string } {
+  const local = getLocalDateTime(at, timezone);
+  const startMinutes = window.start ? timeToMinutes(window.start) : 0;
+  const endMinutes = window.end ? timeToMinutes(window.end) : 24 * 60;
+  const startTime = formatWindowTime(window.start) || '00:00';
+
+  if (isSendingDay(window, local.date) && local.minutes < endMinutes) {
+    if (local.minutes >= startMinutes) {
+      const hh = String(Math.floor(local.minutes / 60)).padStart(2, '0');
+      const mm = String(local.minutes % 60).padStart(2, '0');
+      return { date: local.date, time: `${hh}:${mm}` };
+    }
+    return { date: local.date, time: startTime };
+  }
+
+  return { date: getSendingDates(window, addDaysToDate(local.date, 1), 1)[0] ?? local.date, time: startTime };
+}
+
+/** The next `count` sending days, starting at `fromDate` (inclusive) */
+export function getSendingDates(window: SendingWindow, fromDate: string, count: number): string[] {
+  const dates: string[] = [];
+  let date = fromDate;
+  for (let i = 0; dates.length < count && i < MAX_DAYS_AHEAD; i++) {
+    if (isSendingDay(window, date)) dates.push(date);
+    date = addDaysToDate(date, 1);
+  }
+  return dates;
+}
+
+// ============= PLANNING =============
+
+/**
+ * Splits `count` leads over sending days starting at `fromDate`, `dailyLimit`
+ * per day (`firstDayCapacity` on fromDate itself, e.g. what's left today).
+ */
+export function planQueueDays(
+  window: SendingWindow,
+  fromDate: string,
+  count: number,
+  dailyLimit: number,
+  firstDayCapacity: number = dailyLimit
+): QueuePlanDay[] {
+  const plan: QueuePlanDay[] = [];
+  if (count <= 0 || dailyLimit <= 0) return plan;
+
+  let remaining = count;
+  let date = fromDate;
+  for (let i = 0; remaining > 0 && i < MAX_DAYS_AHEAD; i++) {
+    if (isSendingDay(window, date)) {
+      const capacity = date === fromDate ? Math.min(firstDayCapacity, dailyLimit) : dailyLimit;
+      const leads = Math.min(remaining, Math.max(0, capacity));
+      if (leads > 0) plan.push({ date, leads });
+      remaining -= leads;
+    }
+    date = addDaysToDate(date, 1);
+  }
+  return plan;
+}
+
+/** Last sending day needed for `count` leads (null when there's nothing to send) */
+export function projectCompletionDate(
+  window: SendingWindow,
+  fromDate: string,
+  count: number,
+  dailyLimit: number,
+  firstDayCapacity: number = dailyLimit
+): string | null {
+  const plan = planQueueDays(window, fromDate, count, dailyLimit, firstDayCapacity);
+  return plan.length > 0 ? plan[plan.length - 1].date : null;
+}
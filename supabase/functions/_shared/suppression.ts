@@ -0,0 +1,186 @@
+/**
+ * Do-not-contact list (workspace suppression)
+ * Entries are matched by email, phone, LinkedIn public identifier or company
+ * domain, always in normalized form. Also detects opt-out replies ("pare",
+ * "sair", "unsubscribe"...). Import-free (besides other import-free shared
+ * modules): also used by the frontend.
+ */
+
+import { extractLinkedInPublicIdentifier } from "./linkedinUrl.ts";
+
+// ============= TYPES =============
+
+export type SuppressionEntryType = 'email' | 'phone' | 'linkedin' | 'domain';
+export type SuppressionReason = 'manual' | 'import' | 'opt_out';
+
+export const SUPPRESSION_ENTRY_TYPES: SuppressionEntryType[] = ['email', 'phone', 'linkedin', 'domain'];
+
+export interface SuppressionKey {
+  type: SuppressionEntryType;
+  value: string;
+}
+
+/** Lead fields the list is matched against */
+export interface SuppressibleLead {
+  email?: string | null;
+  personal_email?: string | null;
+  phone?: string | null;
+  mobile_number?: string | null;
+  linkedin_url?: string | null;
+  linkedin_public_identifier?: string | null;
+  company_domain?: string | null;
+  company_website?: string | null;
+}
+
+// Phones shorter than this are typos or extensions, never a contact
+const MIN_PHONE_DIGITS = 8;
+
+// ============= NORMALIZATION =============
+
+/** Canonical form stored in suppression_list.value (null = not a valid value for the type) */
+export function normalizeSuppressionValue(type: SuppressionEntryType, raw: string | null | undefined): string | null {
+  const value = (raw || '').trim().toLowerCase();
+  if (!value) return null;
+
+  switch (type) {
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? value : null;
+    case 'phone': {
+      // Digits only; the international "00" prefix is the same as "+"
+      const digits = value.replace(/\D/g, '').replace(/^00/, '');
+      return digits.length >= MIN_PHONE_DIGITS ? digits : null;
+    }
+    case 'linkedin':
+      return extractPublicIdentifier(value);
+    case 'domain': {
+      const host = value
+        .replace(/^.*@/, '')
+        .replace(/^[a-z]+:\/\//, '')
+        .replace(/^www\./, '')
+        .split(/[/?#:]/)[0];
+      return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : null;
+    }
+  }
+}
+
+/** Public identifier from a profile URL ("/in/<id>") or a bare identifier */
+function extractPublicIdentifier(value: string): string | null {
+  if (value.includes('/') && !/linkedin\.com\/in\//.test(value)) return null;
+  const identifier = extractLinkedInPublicIdentifier(value);
+  if (!identifier) return null;
+  try {
+    return decodeURIComponent(identifier);
+  } catch {
+    return identifier;
+  }
+}
+
+/** Guesses the entry type of a bare value (CSV import without a type column) */
+export function detectSuppressionType(raw: string): SuppressionEntryType | null {
+  const value = raw.trim().toLowerCase();
+  if (!value) return null;
+  if (value.includes('linkedin.com/')) return 'linkedin';
+  if (value.startsWith('@')) return 'domain';
+  if (value.includes('@')) return 'email';
+  if (/^[+\d\s().-]+$/.test(value)) return 'phone';
+  if (value.includes('.')) return 'domain';
+  return null;
+}
+
+export function suppressionKey(type: SuppressionEntryType, value: string): string {
+  return `${type}:${value}`;
+}
+
+// ============= MATCHING =============
+
+/**
+ * Every normalized identifier of a lead. `includeDomain` = false for opt-outs:
+ * one person opting out never blocks the whole company.
+ */
+export function leadSuppressionKeys(lead: SuppressibleLead, includeDomain = true): SuppressionKey[] {
+  const candidates: [SuppressionEntryType, string | null | undefined][] = [
+    ['email', lead.email],
+    ['email', lead.personal_email],
+    ['phone', lead.mobile_number],
+    ['phone', lead.phone],
+    ['linkedin', lead.linkedin_public_identifier],
+    ['linkedin', lead.linkedin_url],
+  ];
+  if (includeDomain) {
+    candidates.push(
+      ['domain', lead.company_domain],
+      ['domain', lead.company_website],
+      ['domain', lead.email],
+    );
+  }
+
+  const seen = new Set<string>();
+  const keys: SuppressionKey[] = [];
+  for (const [type, raw] of candidates) {
+    const value = normalizeSuppressionValue(type, raw);
+    if (!value || seen.has(suppressionKey(type, value))) continue;
+    seen.add(suppressionKey(type, value));
+    keys.push({ type, value });
+  }
+  return keys;
+}
+
+/** First entry type of the list matching the lead (null = lead can be contacted) */
+export function matchSuppression(lead: SuppressibleLead, index: Set<string>): SuppressionEntryType | null {
+  for (const key of leadSuppressionKeys(lead)) {
+    if (index.has(suppressionKey(key.type, key.value))) return key.type;
+  }
+  return null;
+}
+
+// ============= OPT-OUT DETECTION =============
+
+// Compared without accents: single words must be the whole reply, phrases can appear anywhere
+export const OPT_OUT_KEYWORDS = [
+  'pare',
+  'parar',
+  'pare de me mandar',
+  'para de me mandar',
+  'sair',
+  'remover',
+  'me remova',
+  'me tire da lista',
+  'descadastrar',
+  'descadastre',
+  'cancelar inscricao',
+  'nao quero receber',
+  'nao me envie',
+  'nao entre mais em contato',
+  'stop',
+  'unsubscribe',
+  'remove me',
+];
+
+/** Lowercase, accent-free, punctuation-free text for keyword matching */
+export function foldText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Keyword of an opt-out reply, or null. Single words ("pare", "stop") only
+ * count as the whole message; phrases count anywhere in it.
+ */
+export function detectOptOut(text: string | null | undefined): string | null {
+  const folded = foldText(text || '');
+  if (!folded) return null;
+
+  for (const keyword of OPT_OUT_KEYWORDS) {
+    if (keyword.includes(' ')) {
+      if (` ${folded} `.includes(` ${keyword} `)) return keyword;
+    } else if (folded === keyword) {
+      return keyword;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,185 @@
+/**
+ * Do-not-contact list lookups for the send paths and the webhooks
+ * create-campaign, send-campaign and process-campaign-queue skip leads on the
+ * workspace list (campaign_leads.status = 'skipped', skip_reason
+ * 'suppressed_<type>'); opt-out replies add the lead and halt it everywhere.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stopLeadSequence } from "./campaignSteps.ts";
+import {
+  leadSuppressionKeys,
+  matchSuppression,
+  suppressionKey,
+  type SuppressibleLead,
+  type SuppressionEntryType,
+} from "./suppression.ts";
+
+// ============= TYPES =============
+
+/** Lead columns needed to match the list */
+export const SUPPRESSION_LEAD_COLUMNS =
+  'email, personal_email, phone, mobile_number, linkedin_url, linkedin_public_identifier, company_domain, company_website';
+
+export interface SuppressibleCampaignLead {
+  id: string;
+  status: string;
+  lead: SuppressibleLead | null;
+}
+
+// Keeps .in() filters well under the URL length limit
+const LOOKUP_CHUNK_SIZE = 200;
+
+// Campaigns that no longer send: nothing to halt there
+const FINISHED_CAMPAIGN_STATUSES = ['completed', 'failed'];
+
+// ============= LOOKUP =============
+
+/** Entries of the workspace list matching any identifier of the leads, as suppressionKey() strings */
+export async function loadSuppressionIndex(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  leads: SuppressibleLead[]
+): Promise<Set<string>> {
+  const values = [...new Set(leads.flatMap(lead => leadSuppressionKeys(lead).map(key => key.value)))];
+  const index = new Set<string>();
+
+  for (let i = 0; i < values.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('suppression_list')
+      .select('entry_type, value')
+      .eq('workspace_id', workspaceId)
+      .in('value', values.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+    if (error) {
+      console.error(`[suppressionList] Error loading entries for workspace ${workspaceId}:`, error);
+      continue;
+    }
+    for (const row of (data || []) as { entry_type: SuppressionEntryType; value: string }[]) {
+      index.add(suppressionKey(row.entry_type, row.value));
+    }
+  }
+  return index;
+}
+
+/**
+ * Drops leads on the list from a batch about to be sent. Leads not contacted
+ * yet are marked skipped; leads mid-sequence keep their status and stop.
+ */
+export async function skipSuppressedLeads<T extends SuppressibleCampaignLead>(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  campaignLeads: T[]
+): Promise<{ allowed: T[]; skipped: number }> {
+  const withLead = campaignLeads.filter(cl => cl.lead);
+  if (withLead.length === 0) return { allowed: campaignLeads, skipped: 0 };
+
+  const index = await loadSuppressionIndex(supabase, workspaceId, withLead.map(cl => cl.lead!));
+  if (index.size === 0) return { allowed: campaignLeads, skipped: 0 };
+
+  const allowed: T[] = [];
+  let skipped = 0;
+  for (const cl of campaignLeads) {
+    const matched = cl.lead ? matchSuppression(cl.lead, index) : null;
+    if (!matched) {
+      allowed.push(cl);
+      continue;
+    }
+
+    skipped++;
+    if (cl.status === 'pending' || cl.status === 'failed') {
+      await supabase
+        .from('campaign_leads')
+        .update({
+          status: 'skipped',
+          skip_reason: `suppressed_${matched}`,
+          error: null,
+          sequence_status: 'stopped',
+          stop_reason: 'suppressed',
+          stopped_at: new Date().toISOString(),
+          next_step_at: null,
+        })
+        .eq('id', cl.id);
+    } else {
+      await stopLeadSequence(supabase, cl.id, 'suppressed');
+    }
+  }
+  return { allowed, skipped };
+}
+
+// ============= OPT-OUT =============
+
+/**
+ * Adds an opted-out lead to the list (its email, phones and LinkedIn; never
+ * the company domain) and halts it in every unfinished campaign. Idempotent.
+ */
+export async function suppressOptedOutLead(
+  supabase: SupabaseClient,
+  params: { leadId: string; campaignId: string; keyword: string }
+): Promise<{ added: number; halted: number }> {
+  const { leadId, campaignId, keyword } = params;
+  const result = { added: 0, halted: 0 };
+
+  const { data: lead, error } = await supabase
+    .from('leads')
+    .select(`workspace_id, ${SUPPRESSION_LEAD_COLUMNS}`)
+    .eq('id', leadId)
+    .maybeSingle();
+
+  if (error || !lead) {
+    console.error(`[suppressionList] Error loading opted-out lead ${leadId}:`, error);
+    return result;
+  }
+
+  const keys = leadSuppressionKeys(lead as SuppressibleLead, false);
+  if (keys.length > 0) {
+    const { data: inserted, error: insertError } = await supabase
+      .from('suppression_list')
+      .upsert(
+        keys.map(key => ({
+          workspace_id: lead.workspace_id,
+          entry_type: key.type,
+          value: key.value,
+          reason: 'opt_out',
+          note: `Resposta com "${keyword}"`,
+          lead_id: leadId,
+          campaign_id: campaignId,
+        })),
+        { onConflict: 'workspace_id,entry_type,value', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (insertError) {
+      console.error(`[suppressionList] Error adding opted-out lead ${leadId}:`, insertError);
+    }
+    result.added = (inserted || []).length;
+  }
+
+  const { data: rows } = await supabase
+    .from('campaign_leads')
+    .select('id, status, sequence_status, campaigns!inner(status)')
+    .eq('lead_id', leadId)
+    .not('campaigns.status', 'in', `(${FINISHED_CAMPAIGN_STATUSES.join(',')})`);
+
+  for (const row of (rows || []) as { id: string; status: string; sequence_status: string }[]) {
+    if (row.status === 'pending') {
+      const { data: skipped } = await supabase
+        .from('campaign_leads')
+        .update({
+          status: 'skipped',
+          skip_reason: 'opted_out',
+          sequence_status: 'stopped',
+          stop_reason: 'opted_out',
+          stopped_at: new Date().toISOString(),
+          next_step_at: null,
+        })
+        .eq('id', row.id)
+        .eq('status', 'pending')
+        .select('id');
+      result.halted += (skipped || []).length;
+    } else if (row.sequence_status === 'active') {
+      if (await stopLeadSequence(supabase, row.id, 'opted_out')) result.halted++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,287 @@
+/**
+ * Message template engine
+ * Shared by the edge functions and the frontend (src/lib/messageVariables.ts
+ * imports this file directly), so it must stay free of imports.
+ *
+ * Syntax:
+ *   {{primeiro_nome}}                 lead field (pt-BR alias, column name or custom field)
+ *   {{primeiro_nome|pessoal}}         fallback when the field is empty
+ *   {{#if empresa}}…{{else}}…{{/if}}  block rendered only when the field has a value
+ *   {Oi|Olá|E aí}                     spintax: one option is picked per lead
+ */
+
+// ============= CONFIGURATION =============
+
+/** pt-BR variable names → leads columns */
+export const TEMPLATE_VARIABLE_FIELDS: Record<string, string> = {
+  nome: 'full_name',
+  primeiro_nome: 'first_name',
+  sobrenome: 'last_name',
+  email: 'email',
+  celular: 'mobile_number',
+  empresa: 'company',
+  cargo: 'job_title',
+  cidade: 'city',
+  estado: 'state',
+  pais: 'country',
+  linkedin: 'linkedin_url',
+  industria: 'industry',
+  headline: 'headline',
+  sobre: 'about',
+};
+
+// ============= TYPES =============
+
+/** Any lead-shaped object (leads row, partial row or a typed interface) */
+export type TemplateLead = object;
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; name: string; fallback: string | null }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'spin'; options: TemplateNode[][] };
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  /** Syntax problems (pt-BR, shown to the user) */
+  errors: string[];
+}
+
+export interface RenderOptions {
+  /**
+   * Makes spintax picks deterministic (e.g. campaign id + lead id), so retries
+   * and previews render the same text. Without a seed options are random.
+   */
+  seed?: string;
+}
+
+// ============= PARSER =============
+
+type Terminator = 'end' | 'else' | '/if' | '|' | '}';
+
+class TemplateParser {
+  private pos = 0;
+  readonly errors: string[] = [];
+
+  constructor(private readonly source: string) {}
+
+  parse(): TemplateNode[] {
+    const { nodes, terminator } = this.parseNodes(false);
+    if (terminator === 'else') this.errors.push('{{else}} fora de um bloco {{#if}}.');
+    if (terminator === '/if') this.errors.push('{{/if}} sem o {{#if}} correspondente.');
+    return nodes;
+  }
+
+  /** Reads nodes until the end of input or a block/spintax terminator */
+  private parseNodes(inSpin: boolean): { nodes: TemplateNode[]; terminator: Terminator } {
+    const nodes: TemplateNode[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) nodes.push({ type: 'text', value: text });
+      text = '';
+    };
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+
+      if (this.source.startsWith('{{', this.pos)) {
+        const close = this.source.indexOf('}}', this.pos + 2);
+        if (close === -1) {
+          text += this.source.slice(this.pos);
+          this.pos = this.source.length;
+          break;
+        }
+        const tag = this.source.slice(this.pos + 2, close).trim();
+        this.pos = close + 2;
+
+        if (tag === 'else' || tag === '/if') {
+          flush();
+          return { nodes, terminator: tag };
+        }
+        flush();
+        if (tag.startsWith('#if')) {
+          nodes.push(this.parseIf(tag.slice(3).trim()));
+        } else {
+          const separator = tag.indexOf('|');
+          const name = (separator === -1 ? tag : tag.slice(0, separator)).trim().toLowerCase();
+          const fallback = separator === -1 ? null : tag.slice(separator + 1).trim();
+          if (!name) this.errors.push('Variável vazia: use {{nome_da_variavel}}.');
+          nodes.push({ type: 'var', name, fallback });
+        }
+        continue;
+      }
+
+      if (inSpin && (char === '|' || char === '}')) {
+        this.pos++;
+        flush();
+        return { nodes, terminator: char };
+      }
+
+      if (char === '{') {
+        const spin = this.parseSpin();
+        if (spin) {
+          flush();
+          nodes.push(spin);
+          continue;
+        }
+      }
+
+      text += char;
+      this.pos++;
+    }
+
+    flush();
+    return { nodes, terminator: 'end' };
+  }
+
+  private parseIf(name: string): TemplateNode {
+    if (!name) this.errors.push('{{#if}} sem variável: use {{#if empresa}}…{{/if}}.');
+
+    const thenPart = this.parseNodes(false);
+    let otherwise: TemplateNode[] = [];
+    let terminator = thenPart.terminator;
+
+    if (terminator === 'else') {
+      const elsePart = this.parseNodes(false);
+      otherwise = elsePart.nodes;
+      terminator = elsePart.terminator;
+      if (terminator === 'else') this.errors.push(`Bloco {{#if ${name}}} com mais de um {{else}}.`);
+    }
+    if (terminator !== '/if') this.errors.push(`Bloco {{#if ${name}}} sem {{/if}}.`);
+
+    return { type: 'if', name: name.toLowerCase(), then: thenPart.nodes, otherwise };
+  }
+
+  /**
+   * Parses "{a|b|c}" at the current position. A brace group without "|" or
+   * without a closing brace is plain text, so the cursor is restored.
+   */
+  private parseSpin(): TemplateNode | null {
+    const start = this.pos;
+    const errorCount = this.errors.length;
+    this.pos++;
+
+    const options: TemplateNode[][] = [];
+    for (;;) {
+      const { nodes, terminator } = this.parseNodes(true);
+      options.push(nodes);
+      if (terminator === '|') continue;
+      if (terminator === '}' && options.length > 1) return { type: 'spin', options };
+      break;
+    }
+
+    this.pos = start;
+    this.errors.length = errorCount;
+    return null;
+  }
+}
+
+export function parseTemplate(template: string): ParsedTemplate {
+  const parser = new TemplateParser(template || '');
+  const nodes = parser.parse();
+  return { nodes, errors: parser.errors };
+}
+
+// ============= VALUES =============
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(formatValue).filter(Boolean).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value).trim();
+}
+
+/** Alias, then column name, then custom field */
+export function resolveTemplateVariable(name: string, lead: TemplateLead): string {
+  const record = lead as Record<string, unknown>;
+  const field = TEMPLATE_VARIABLE_FIELDS[name];
+  if (field) return formatValue(record[field]);
+  if (name in record && name !== 'custom_fields') return formatValue(record[name]);
+
+  const customFields = record.custom_fields;
+  if (customFields && typeof customFields === 'object' && !Array.isArray(customFields)) {
+    return formatValue((customFields as Record<string, unknown>)[name]);
+  }
+  return '';
+}
+
+// ============= RENDERING =============
+
+/**
+ * FNV-1a: stable across runs and runtimes. Seeds spintax picks and the A/B
+ * variant split (campaignVariants.ts).
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32: small seeded PRNG for spintax */
+function createRandom(seed?: string): () => number {
+  if (seed === undefined) return Math.random;
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function renderNodes(nodes: TemplateNode[], lead: TemplateLead, random: () => number): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'var':
+        output += resolveTemplateVariable(node.name, lead) || (node.fallback ?? '');
+        break;
+      case 'if':
+        output += renderNodes(resolveTemplateVariable(node.name, lead) ? node.then : node.otherwise, lead, random);
+        break;
+      case 'spin':
+        output += renderNodes(node.options[Math.floor(random() * node.options.length)], lead, random);
+        break;
+    }
+  }
+  return output;
+}
+
+/** Renders a message for a lead. Missing variables without fallback render empty. */
+export function renderTemplate(template: string, lead: TemplateLead, options: RenderOptions = {}): string {
+  if (!template) return '';
+  return renderNodes(parseTemplate(template).nodes, lead, createRandom(options.seed));
+}
+
+// ============= VALIDATION =============
+
+function collectMissing(nodes: TemplateNode[], lead: TemplateLead, missing: Set<string>) {
+  for (const node of nodes) {
+    if (node.type === 'var') {
+      if (node.fallback === null && !resolveTemplateVariable(node.name, lead)) missing.add(node.name);
+    } else if (node.type === 'if') {
+      collectMissing(resolveTemplateVariable(node.name, lead) ? node.then : node.otherwise, lead, missing);
+    } else if (node.type === 'spin') {
+      // Any option may be picked, so all of them must render
+      for (const option of node.options) collectMissing(option, lead, missing);
+    }
+  }
+}
+
+/**
+ * Variables that would render empty for this lead: no value, no fallback and
+ * not guarded by an {{#if}} on a branch that is skipped.
+ */
+export function findMissingVariables(template: string, lead: TemplateLead): string[] {
+  if (!template) return [];
+  const missing = new Set<string>();
+  collectMissing(parseTemplate(template).nodes, lead, missing);
+  return [...missing];
+}
@@ -0,0 +1,66 @@
+/**
+ * Account warm-up ramp
+ * New LinkedIn/WhatsApp accounts send at a reduced daily limit that grows
+ * every day (warmup_start_limit + warmup_daily_increase per day) until it
+ * reaches the configured limit. Import-free: also used by the frontend.
+ */
+
+// ============= TYPES =============
+
+export interface WarmupAccount {
+  warmup_enabled?: boolean | null;
+  warmup_started_at?: string | null;
+  warmup_start_limit?: number | null;
+  warmup_daily_increase?: number | null;
+}
+
+export interface WarmupStage {
+  /** 1 on the day the account was connected */
+  day: number;
+  /** Limit in effect today */
+  limit: number;
+  /** Configured limit the ramp grows to */
+  targetLimit: number;
+  /** Day on which the ramp reaches targetLimit (null when it never grows) */
+  fullDay: number | null;
+}
+
+export const DEFAULT_WARMUP_START_LIMIT = 5;
+export const DEFAULT_WARMUP_DAILY_INCREASE = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============= RAMP =============
+
+/** Current stage of the ramp, or null when the account sends at its full limit */
+export function getWarmupStage(
+  account: WarmupAccount,
+  targetLimit: number,
+  now: Date = new Date()
+): WarmupStage | null {
+  if (!account.warmup_enabled || !account.warmup_started_at) return null;
+
+  const startLimit = account.warmup_start_limit ?? DEFAULT_WARMUP_START_LIMIT;
+  const increase = account.warmup_daily_increase ?? DEFAULT_WARMUP_DAILY_INCREASE;
+  if (startLimit >= targetLimit) return null;
+
+  const started = new Date(account.warmup_started_at);
+  const startDay = Date.UTC(started.getUTCFullYear(), started.getUTCMonth(), started.getUTCDate());
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const day = Math.max(1, Math.floor((today - startDay) / DAY_MS) + 1);
+
+  const limit = Math.min(targetLimit, startLimit + (day - 1) * increase);
+  if (limit >= targetLimit) return null;
+
+  return {
+    day,
+    limit,
+    targetLimit,
+    fullDay: increase > 0 ? 1 + Math.ceil((targetLimit - startLimit) / increase) : null,
+  };
+}
+
+/** Daily limit after the ramp (the configured limit once warm-up is over) */
+export function applyWarmup(account: WarmupAccount, targetLimit: number, now: Date = new Date()): number {
+  return getWarmupStage(account, targetLimit, now)?.limit ?? targetLimit;
+}
@@ -0,0 +1,305 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  allowPrivateMailHosts,
+  IMAP_PORTS,
+  isValidEmailAddress,
+  sendSmtpMail,
+  SMTP_PORTS,
+  verifyImap,
+  verifySmtp,
+  type MailSecurity,
+  type MailServerConfig,
+} from "../_shared/emailClient.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SECURITY_OPTIONS: MailSecurity[] = ['tls', 'starttls', 'none'];
+
+interface ServerInput {
+  host?: string;
+  port?: number | string;
+  security?: string;
+  username?: string | null;
+  password?: string | null;
+}
+
+function parseServer(input: ServerInput | null | undefined, label: 'SMTP' | 'IMAP'): { config?: MailServerConfig; error?: string } {
+  if (!input?.host) return { error: `${label} host is required` };
+  const port = Number(input.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) return { error: `${label} port is invalid` };
+  // Hosts are checked when connecting (public addresses only); ports are limited to the mail ones
+  const ports = label === 'SMTP' ? SMTP_PORTS : IMAP_PORTS;
+  if (!allowPrivateMailHosts() && !ports.includes(port)) {
+    return { error: `${label} port must be one of ${ports.join(', ')}` };
+  }
+  const security = (input.security || 'starttls') as MailSecurity;
+  if (!SECURITY_OPTIONS.includes(security)) return { error: `${label} security must be tls, starttls or none` };
+  return {
+    config: {
+      host: String(input.host).trim(),
+      port,
+      security,
+      username: input.username?.trim() || null,
+      password: input.password || null,
+    },
+  };
+}
+
+/** Optional numeric setting, clamped to [min, max]; null/undefined means "use the default" */
+function parseOptionalNumber(input: unknown, label: string, min: number, max: number): { value: number | null; error?: string } {
+  if (input === undefined || input === null || input === '') return { value: null };
+  const value = Number(input);
+  if (!Number.isFinite(value)) return { value: null, error: `${label} must be a number` };
+  return { value: Math.max(min, Math.min(max, Math.round(value))) };
+}
+
+/**
+ * Connects an SMTP/IMAP mailbox as an email account (reconnecting the same
+ * address replaces its credentials). Credentials are verified against the
+ * servers before anything is saved; only public hosts on the standard SMTP/IMAP
+ * ports are accepted (see allowPrivateMailHosts for local SMTP sinks). With
+ * `testRecipient`, a test message is sent as well.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: corsHeaders });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await supabase.auth.getUser(token);
+    if (claimsError || !claimsData.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: corsHeaders });
+    }
+
+    const {
+      workspaceId,
+      email,
+      name,
+      fromName,
+      smtp,
+      imap,
+      dailyLimit,
+      intervalSeconds,
+      testRecipient,
+    } = await req.json();
+
+    if (!workspaceId) {
+      return new Response(JSON.stringify({ error: 'workspaceId is required' }), { status: 400, headers: corsHeaders });
+    }
+
+    // ============================================
+    // ADMIN CHECK: Only admins can connect mailboxes
+    // ============================================
+    const { data: member } = await supabase
+      .from('workspace_members')
+      .select('id, role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', claimsData.user.id)
+      .maybeSingle();
+
+    if (!member) {
+      return new Response(JSON.stringify({ error: 'Not a member of this workspace' }), { status: 403, headers: corsHeaders });
+    }
+
+    if (member.role !== 'admin') {
+      return new Response(JSON.stringify({ error: 'Admin access required' }), { status: 403, headers: corsHeaders });
+    }
+
+    const serviceSupabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    // ============================================
+    // VALIDATE INPUT
+    // ============================================
+    const address = String(email || '').trim().toLowerCase();
+    if (!isValidEmailAddress(address)) {
+      return new Response(JSON.stringify({ error: 'A valid sender email is required' }), { status: 400, headers: corsHeaders });
+    }
+
+    const smtpResult = parseServer(smtp, 'SMTP');
+    if (smtpResult.error) {
+      return new Response(JSON.stringify({ error: smtpResult.error }), { status: 400, headers: corsHeaders });
+    }
+    const smtpConfig = smtpResult.config!;
+
+    let imapConfig: MailServerConfig | null = null;
+    if (imap?.host) {
+      const imapResult = parseServer(imap, 'IMAP');
+      if (imapResult.error) {
+        return new Response(JSON.stringify({ error: imapResult.error }), { status: 400, headers: corsHeaders });
+      }
+      imapConfig = imapResult.config!;
+    }
+
+    const limitResult = parseOptionalNumber(dailyLimit, 'dailyLimit', 1, 500);
+    if (limitResult.error) {
+      return new Response(JSON.stringify({ error: limitResult.error }), { status: 400, headers: corsHeaders });
+    }
+    const intervalResult = parseOptionalNumber(intervalSeconds, 'intervalSeconds', 10, 600);
+    if (intervalResult.error) {
+      return new Response(JSON.stringify({ error: intervalResult.error }), { status: 400, headers: corsHeaders });
+    }
+    const limit = limitResult.value;
+    const interval = intervalResult.value;
+
+    const recipient = testRecipient ? String(testRecipient).trim() : null;
+    if (recipient && !isValidEmailAddress(recipient)) {
+      return new Response(JSON.stringify({ error: 'testRecipient must be a valid email address' }), { status: 400, headers: corsHeaders });
+    }
+
+    // ============================================
+    // VERIFY SERVERS
+    // ============================================
+    try {
+      await verifySmtp(smtpConfig);
+    } catch (err) {
+      const error = err as Error;
+      console.warn(`SMTP verification failed for ${address}:`, error.message);
+      return new Response(JSON.stringify({ error: `Could not connect to SMTP: ${error.message}` }), { status: 400, headers: corsHeaders });
+    }
+
+    if (imapConfig) {
+      try {
+        await verifyImap(imapConfig);
+      } catch (err) {
+        const error = err as Error;
+        console.warn(`IMAP verification failed for ${address}:`, error.message);
+        return new Response(JSON.stringify({ error: `Could not connect to IMAP: ${error.message}` }), { status: 400, headers: corsHeaders });
+      }
+    }
+
+    // ============================================
+    // UPSERT ACCOUNT + CREDENTIALS
+    // ============================================
+    const accountData = {
+      workspace_id: workspaceId,
+      account_id: address,
+      provider: 'smtp',
+      channel: 'email',
+      name: name || address,
+      status: 'connected',
+      daily_message_limit: limit,
+      message_interval_seconds: interval,
+      updated_at: new Date().toISOString(),
+    };
+
+    // Reconnecting replaces a live account: keep what it had so a failed save can put it back
+    const { data: previousAccount } = await serviceSupabase
+      .from('accounts')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('account_id', address)
+      .maybeSingle();
+    const { data: previousCredentials } = previousAccount
+      ? await serviceSupabase.from('email_account_credentials').select('*').eq('account_id', previousAccount.id).maybeSingle()
+      : { data: null };
+
+    const { data: savedAccount, error: upsertError } = await serviceSupabase
+      .from('accounts')
+      .upsert(accountData, { onConflict: 'workspace_id,account_id' })
+      .select()
+      .single();
+
+    if (upsertError || !savedAccount) {
+      console.error('Error saving email account:', upsertError);
+      return new Response(JSON.stringify({ error: 'Failed to save account' }), { status: 500, headers: corsHeaders });
+    }
+
+    let { error: credentialsError } = await serviceSupabase
+      .from('email_account_credentials')
+      .upsert({
+        account_id: savedAccount.id,
+        from_name: fromName || null,
+        smtp_host: smtpConfig.host,
+        smtp_port: smtpConfig.port,
+        smtp_security: smtpConfig.security,
+        smtp_username: smtpConfig.username,
+        imap_host: imapConfig?.host ?? null,
+        imap_port: imapConfig?.port ?? null,
+        imap_security: imapConfig?.security ?? 'tls',
+        imap_username: imapConfig?.username ?? null,
+        imap_error: null,
+      }, { onConflict: 'account_id' });
+
+    // Passwords go to Vault, never into the credentials table
+    if (!credentialsError) {
+      ({ error: credentialsError } = await serviceSupabase.rpc('set_email_account_passwords', {
+        p_account_id: savedAccount.id,
+        p_smtp_password: smtpConfig.password ?? null,
+        p_imap_password: imapConfig?.password ?? null,
+      }));
+    }
+
+    if (credentialsError) {
+      console.error('Error saving email credentials:', credentialsError);
+      if (!previousAccount) {
+        await serviceSupabase.from('accounts').delete().eq('id', savedAccount.id);
+      } else {
+        // Vault secrets are untouched on failure; the credentials row and account fields are restored
+        if (previousCredentials) {
+          await serviceSupabase.from('email_account_credentials').upsert(previousCredentials, { onConflict: 'account_id' });
+        } else {
+          await serviceSupabase.from('email_account_credentials').delete().eq('account_id', savedAccount.id);
+        }
+        const restored = Object.fromEntries(Object.keys(accountData).map(key => [key, previousAccount[key]]));
+        await serviceSupabase.from('accounts').update(restored).eq('id', savedAccount.id);
+      }
+      return new Response(JSON.stringify({ error: 'Failed to save account credentials' }), { status: 500, headers: corsHeaders });
+    }
+
+    // ============================================
+    // OPTIONAL TEST MESSAGE
+    // ============================================
+    let testMessageId: string | null = null;
+    if (recipient) {
+      try {
+        const sent = await sendSmtpMail(smtpConfig, {
+          from: address,
+          fromName: fromName || null,
+          to: recipient,
+          subject: 'Teste de conexão',
+          text: `Esta é uma mensagem de teste enviada pela caixa ${address}.`,
+        });
+        testMessageId = sent.messageId;
+      } catch (err) {
+        const error = err as Error;
+        return new Response(JSON.stringify({
+          success: true,
+          account: savedAccount,
+          testError: error.message,
+        }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+    }
+
+    console.log(`Email account ${address} saved for workspace ${workspaceId} (imap: ${imapConfig ? 'yes' : 'no'})`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      account: savedAccount,
+      testMessageId,
+    }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  } catch (err) {
+    const error = err as Error;
+    console.error('Error in connect-email-account:', error);
+    return new Response(JSON.stringify({ error: error.message }), { status: 500, headers: corsHeaders });
+  }
+});
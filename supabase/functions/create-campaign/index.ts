@@ -1,5 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { attachmentKind, findAttachmentProblem, type AttachmentProblem } from "../_shared/attachmentRules.ts";
+import { buildAudienceColumns, type AudienceInput } from "../_shared/campaignAudience.ts";
+import { enrollDynamicCampaign, type EnrollmentResult } from "../_shared/campaignEnrollment.ts";
+import { buildCampaignStepRows, type FollowUpStepInput } from "../_shared/campaignSteps.ts";
+import {
+  assignVariant,
+  buildCampaignVariantRows,
+  MIN_PROMOTE_AFTER,
+  type VariantInput,
+} from "../_shared/campaignVariants.ts";
+import { buildSendingWindowColumns, type SendingWindowInput } from "../_shared/sendingWindow.ts";
+import { matchSuppression, type SuppressibleLead, type SuppressionEntryType } from "../_shared/suppression.ts";
+import { loadSuppressionIndex, SUPPRESSION_LEAD_COLUMNS } from "../_shared/suppressionList.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,6 +31,28 @@ interface LeadInput {
   country?: string | null;
 }
 
+interface AttachmentInput {
+  path: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+function attachmentProblemMessage(problem: AttachmentProblem): string {
+  switch (problem.code) {
+    case 'not_supported':
+      return 'Attachments are only supported on WhatsApp and LinkedIn DM campaigns';
+    case 'too_many':
+      return `At most ${problem.max} attachments per campaign`;
+    case 'type':
+      return `Attachment ${problem.fileName} has a file type this channel does not accept`;
+    case 'size':
+      return `Attachment ${problem.fileName} exceeds ${Math.round(problem.maxBytes / (1024 * 1024))} MB`;
+    case 'empty':
+      return `Attachment ${problem.fileName} is empty`;
+  }
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -41,18 +76,93 @@ serve(async (req) => {
       return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: corsHeaders });
     }
 
-    const { workspaceId, name, type, leads, message, subject, accountId, schedule, linkedinAction } = await req.json();
+    const {
+      workspaceId,
+      name,
+      type,
+      leads,
+      message,
+      subject,
+      accountId,
+      accountIds,
+      schedule,
+      linkedinAction,
+      steps,
+      variants,
+      variantPromoteAfter,
+      sendingWindow,
+      replyStopScope,
+      notifyOnReply,
+      attachments,
+      templateId,
+      audience,
+    } = await req.json();
 
-    if (!workspaceId || !name || !type || !leads?.length) {
+    // Dynamic campaigns (list or tag audience) enroll their leads themselves
+    const isDynamic = !!audience;
+    if (!workspaceId || !name || !type || (!isDynamic && !leads?.length)) {
       return new Response(JSON.stringify({ error: 'Missing required fields' }), { status: 400, headers: corsHeaders });
     }
 
+    const { columns: audienceColumns, error: audienceError } = buildAudienceColumns(audience as AudienceInput | undefined);
+    if (audienceError) {
+      return new Response(JSON.stringify({ error: audienceError }), { status: 400, headers: corsHeaders });
+    }
+
     // Message is optional for invite action, required for others
     const isInviteAction = type === 'linkedin' && linkedinAction === 'invite';
     if (!isInviteAction && !message) {
       return new Response(JSON.stringify({ error: 'Message is required' }), { status: 400, headers: corsHeaders });
     }
 
+    // Follow-up steps (optional): step 1 is the campaign message itself
+    const { rows: stepRows, error: stepsError } = buildCampaignStepRows(
+      type,
+      message || '',
+      linkedinAction,
+      steps as FollowUpStepInput[] | undefined
+    );
+    if (stepsError) {
+      return new Response(JSON.stringify({ error: stepsError }), { status: 400, headers: corsHeaders });
+    }
+
+    // A/B variants (optional): variant A is the campaign message itself
+    const { rows: variantRows, error: variantsError } = buildCampaignVariantRows(
+      type,
+      message || '',
+      subject,
+      isInviteAction,
+      variants as VariantInput[] | undefined
+    );
+    if (variantsError) {
+      return new Response(JSON.stringify({ error: variantsError }), { status: 400, headers: corsHeaders });
+    }
+
+    const promoteAfter = variantRows.length > 0 && variantPromoteAfter ? Math.floor(Number(variantPromoteAfter)) : null;
+    if (promoteAfter !== null && (!Number.isFinite(promoteAfter) || promoteAfter < MIN_PROMOTE_AFTER)) {
+      return new Response(JSON.stringify({ 
+        error: `variantPromoteAfter must be at least ${MIN_PROMOTE_AFTER} sends` 
+      }), { status: 400, headers: corsHeaders });
+    }
+
+    // Sending window (optional): days, hours, holidays and lead timezone
+    const { columns: windowColumns, error: windowError } = buildSendingWindowColumns(
+      sendingWindow as SendingWindowInput | undefined
+    );
+    if (windowError) {
+      return new Response(JSON.stringify({ error: windowError }), { status: 400, headers: corsHeaders });
+    }
+
+    // Attachments (optional): already uploaded to Storage by the dialog
+    const attachmentInputs = (attachments as AttachmentInput[] | undefined) || [];
+    const attachmentProblem = findAttachmentProblem(type, linkedinAction, attachmentInputs);
+    if (attachmentProblem) {
+      return new Response(JSON.stringify({ error: attachmentProblemMessage(attachmentProblem) }), { status: 400, headers: corsHeaders });
+    }
+    if (attachmentInputs.some(a => typeof a.path !== 'string' || !a.path.startsWith(`${workspaceId}/`))) {
+      return new Response(JSON.stringify({ error: 'Attachment does not belong to this workspace' }), { status: 400, headers: corsHeaders });
+    }
+
     // ============================================
     // MEMBERSHIP CHECK: Explicit verification via workspace_members table
     // ============================================
@@ -68,13 +178,61 @@ serve(async (req) => {
     }
 
     // ============================================
-    // VALIDATE ACCOUNT: If accountId provided, verify it belongs to workspace
+    // TEMPLATE (optional): the gallery template the campaign was created from
     // ============================================
-    if (accountId) {
+    if (templateId) {
+      const { data: template } = await supabase
+        .from('campaign_templates')
+        .select('id')
+        .eq('id', templateId)
+        .eq('workspace_id', workspaceId)
+        .maybeSingle();
+
+      if (!template) {
+        return new Response(JSON.stringify({ error: 'Template not found in this workspace' }), { status: 400, headers: corsHeaders });
+      }
+    }
+
+    // ============================================
+    // AUDIENCE (dynamic campaigns): list or tags must belong to the workspace
+    // ============================================
+    if (audienceColumns.audience_list_id) {
+      const { data: list } = await supabase
+        .from('lead_lists')
+        .select('id')
+        .eq('id', audienceColumns.audience_list_id)
+        .eq('workspace_id', workspaceId)
+        .maybeSingle();
+
+      if (!list) {
+        return new Response(JSON.stringify({ error: 'Audience list not found in this workspace' }), { status: 400, headers: corsHeaders });
+      }
+    }
+    if (audienceColumns.audience_tag_ids) {
+      const { data: tags } = await supabase
+        .from('tags')
+        .select('id')
+        .eq('workspace_id', workspaceId)
+        .in('id', audienceColumns.audience_tag_ids);
+
+      if ((tags || []).length !== audienceColumns.audience_tag_ids.length) {
+        return new Response(JSON.stringify({ error: 'Audience tag not found in this workspace' }), { status: 400, headers: corsHeaders });
+      }
+    }
+
+    // ============================================
+    // VALIDATE ACCOUNTS: accountId is the primary account; accountIds adds the
+    // other accounts of the rotation pool. All must belong to the workspace.
+    // ============================================
+    const poolAccountIds: string[] = accountId
+      ? [...new Set([accountId, ...((accountIds as string[] | undefined) || [])])]
+      : [];
+
+    for (const poolAccountId of poolAccountIds) {
       const { data: account, error: accountError } = await supabase
         .from('accounts')
         .select('id, channel, status')
-        .eq('id', accountId)
+        .eq('id', poolAccountId)
         .eq('workspace_id', workspaceId)
         .maybeSingle();
 
@@ -101,10 +259,20 @@ serve(async (req) => {
           error: 'Selected account is not a LinkedIn account' 
         }), { status: 400, headers: corsHeaders });
       }
+      if (type === 'email' && account.channel !== 'email') {
+        return new Response(JSON.stringify({ 
+          error: 'Selected account is not an email mailbox' 
+        }), { status: 400, headers: corsHeaders });
+      }
+    }
+
+    // Reply rule: stop only this campaign (default) or every campaign reaching the lead
+    if (replyStopScope !== undefined && replyStopScope !== 'campaign' && replyStopScope !== 'workspace') {
+      return new Response(JSON.stringify({ error: 'replyStopScope must be "campaign" or "workspace"' }), { status: 400, headers: corsHeaders });
     }
 
-    // Require accountId for WhatsApp and LinkedIn campaigns
-    if ((type === 'whatsapp' || type === 'linkedin') && !accountId) {
+    // Require accountId for WhatsApp, LinkedIn and email campaigns
+    if ((type === 'whatsapp' || type === 'linkedin' || type === 'email') && !accountId) {
       return new Response(JSON.stringify({ 
         error: `accountId is required for ${type} campaigns` 
       }), { status: 400, headers: corsHeaders });
@@ -112,21 +280,23 @@ serve(async (req) => {
 
     // ============================================
     // FILTER LEADS: Only include valid leads for campaign type
+    // (optional for dynamic campaigns: hand-picked leads on top of the audience)
     // ============================================
-    const validLeads = (leads as LeadInput[]).filter((lead: LeadInput) => {
+    const providedLeads = (leads || []) as LeadInput[];
+    const validLeads = providedLeads.filter((lead: LeadInput) => {
       if (type === 'email') return !!lead.email;
       if (type === 'sms' || type === 'whatsapp') return !!lead.mobile_number;
       if (type === 'linkedin') return !!lead.linkedin_url;
       return true; // For other types, include all
     });
 
-    if (validLeads.length === 0) {
+    if (!isDynamic && validLeads.length === 0) {
       return new Response(JSON.stringify({ 
         error: `No valid leads for campaign type "${type}". Leads need ${type === 'email' ? 'email' : type === 'linkedin' ? 'linkedin_url' : 'mobile_number (celular)'}` 
       }), { status: 400, headers: corsHeaders });
     }
 
-    console.log(`Creating campaign with ${validLeads.length} valid leads (${leads.length} total provided)`);
+    console.log(`Creating campaign with ${validLeads.length} valid leads (${providedLeads.length} total provided)`);
 
     // ============================================
     // USE EXISTING LEAD IDs: Frontend sends lead.id for existing leads
@@ -138,10 +308,41 @@ serve(async (req) => {
 
     console.log(`Using ${allLeadIds.length} existing lead IDs for campaign`);
 
-    if (allLeadIds.length === 0) {
+    if (!isDynamic && allLeadIds.length === 0) {
       return new Response(JSON.stringify({ error: 'No valid lead IDs provided. Leads must already exist in database.' }), { status: 400, headers: corsHeaders });
     }
 
+    // ============================================
+    // DO-NOT-CONTACT LIST: leads on the workspace list are linked as 'skipped'
+    // so the campaign report shows how many were left out and why
+    // ============================================
+    const storedLeads: (SuppressibleLead & { id: string })[] = [];
+    for (let i = 0; i < allLeadIds.length; i += 200) {
+      const { data: leadRows } = await supabase
+        .from('leads')
+        .select(`id, ${SUPPRESSION_LEAD_COLUMNS}`)
+        .eq('workspace_id', workspaceId)
+        .in('id', allLeadIds.slice(i, i + 200));
+      storedLeads.push(...((leadRows || []) as (SuppressibleLead & { id: string })[]));
+    }
+
+    const suppressionIndex = await loadSuppressionIndex(supabase, workspaceId, storedLeads);
+    const suppressedLeads = new Map<string, SuppressionEntryType>();
+    for (const lead of storedLeads) {
+      const matched = matchSuppression(lead, suppressionIndex);
+      if (matched) suppressedLeads.set(lead.id, matched);
+    }
+
+    const sendableLeadCount = allLeadIds.length - suppressedLeads.size;
+    if (!isDynamic && sendableLeadCount === 0) {
+      return new Response(JSON.stringify({ 
+        error: 'All selected leads are on the do-not-contact list' 
+      }), { status: 400, headers: corsHeaders });
+    }
+    if (suppressedLeads.size > 0) {
+      console.log(`Skipping ${suppressedLeads.size} leads on the do-not-contact list`);
+    }
+
     // ============================================
     // CREATE CAMPAIGN: Using correct schema fields (message, subject, account_id, linkedin_action)
     // ============================================
@@ -157,7 +358,14 @@ serve(async (req) => {
         linkedin_action: type === 'linkedin' ? (linkedinAction || 'dm') : null,  // Include linkedin_action
         schedule: schedule ? new Date(schedule).toISOString() : null,
         status: schedule ? 'scheduled' : 'draft',
-        leads_count: allLeadIds.length,
+        leads_count: sendableLeadCount,
+        variant_promote_after: promoteAfter,
+        ...windowColumns,
+        created_by: claimsData.user.id,
+        reply_stop_scope: replyStopScope || 'campaign',
+        notify_on_reply: notifyOnReply === true,
+        template_id: templateId || null,
+        ...audienceColumns,
       })
       .select()
       .single();
@@ -167,16 +375,93 @@ serve(async (req) => {
       return new Response(JSON.stringify({ error: 'Failed to create campaign', details: campaignError.message }), { status: 500, headers: corsHeaders });
     }
 
+    // ============================================
+    // INSERT SEQUENCE STEPS
+    // ============================================
+    if (stepRows.length > 0) {
+      const { error: stepsInsertError } = await supabase
+        .from('campaign_steps')
+        .insert(stepRows.map(row => ({ ...row, campaign_id: campaign.id })));
+
+      if (stepsInsertError) {
+        console.error('Error creating campaign steps:', stepsInsertError);
+        await supabase.from('campaigns').delete().eq('id', campaign.id);
+        return new Response(JSON.stringify({ error: 'Failed to create campaign steps', details: stepsInsertError.message }), { status: 500, headers: corsHeaders });
+      }
+    }
+
+    // ============================================
+    // INSERT A/B VARIANTS
+    // ============================================
+    let savedVariants: { id: string; label: string }[] = [];
+    if (variantRows.length > 0) {
+      const { data: insertedVariants, error: variantsInsertError } = await supabase
+        .from('campaign_variants')
+        .insert(variantRows.map(row => ({ ...row, campaign_id: campaign.id })))
+        .select('id, label');
+
+      if (variantsInsertError || !insertedVariants) {
+        console.error('Error creating campaign variants:', variantsInsertError);
+        await supabase.from('campaigns').delete().eq('id', campaign.id);
+        return new Response(JSON.stringify({ error: 'Failed to create campaign variants', details: variantsInsertError?.message }), { status: 500, headers: corsHeaders });
+      }
+      savedVariants = insertedVariants;
+    }
+
+    // ============================================
+    // INSERT ACCOUNT POOL (only when rotating between several accounts)
+    // ============================================
+    if (poolAccountIds.length > 1) {
+      const { error: poolInsertError } = await supabase
+        .from('campaign_accounts')
+        .insert(poolAccountIds.map(poolAccountId => ({ campaign_id: campaign.id, account_id: poolAccountId })));
+
+      if (poolInsertError) {
+        console.error('Error creating campaign account pool:', poolInsertError);
+        await supabase.from('campaigns').delete().eq('id', campaign.id);
+        return new Response(JSON.stringify({ error: 'Failed to create campaign account pool', details: poolInsertError.message }), { status: 500, headers: corsHeaders });
+      }
+    }
+
+    // ============================================
+    // INSERT ATTACHMENTS (sent with the first message of every lead)
+    // ============================================
+    if (attachmentInputs.length > 0) {
+      const { error: attachmentsInsertError } = await supabase
+        .from('campaign_attachments')
+        .insert(attachmentInputs.map((attachment, index) => ({
+          workspace_id: workspaceId,
+          campaign_id: campaign.id,
+          storage_path: attachment.path,
+          file_name: attachment.fileName,
+          mime_type: attachment.mimeType.toLowerCase(),
+          size_bytes: attachment.size,
+          kind: attachmentKind(attachment.mimeType),
+          position: index,
+        })));
+
+      if (attachmentsInsertError) {
+        console.error('Error creating campaign attachments:', attachmentsInsertError);
+        await supabase.from('campaigns').delete().eq('id', campaign.id);
+        return new Response(JSON.stringify({ error: 'Failed to create campaign attachments', details: attachmentsInsertError.message }), { status: 500, headers: corsHeaders });
+      }
+    }
+
     // ============================================
     // UPSERT CAMPAIGN_LEADS: Link all leads to campaign, avoid duplicates
     // If lead already exists for this campaign and is 'sent', don't overwrite
     // ============================================
-    const campaignLeads = allLeadIds.map(leadId => ({
-      campaign_id: campaign.id,
-      lead_id: leadId,
-      status: 'pending',
-      retry_count: 0,
-    }));
+    const campaignLeads = allLeadIds.map(leadId => {
+      const suppressedBy = suppressedLeads.get(leadId);
+      return {
+        campaign_id: campaign.id,
+        lead_id: leadId,
+        status: suppressedBy ? 'skipped' : 'pending',
+        skip_reason: suppressedBy ? `suppressed_${suppressedBy}` : null,
+        retry_count: 0,
+        variant_id: suppressedBy ? null : assignVariant(campaign.id, leadId, savedVariants)?.id ?? null,
+      };
+    });
 
     // Use upsert with onConflict - only update if not already 'sent'
     const { error: linkError } = await supabase
@@ -191,12 +476,41 @@ serve(async (req) => {
       // Campaign was created, so we don't fail completely but log the issue
     }
 
-    console.log('Campaign created:', { id: campaign.id, leadsCount: allLeadIds.length });
+    // ============================================
+    // DYNAMIC AUDIENCE: first enrollment now (up to today's cap); later
+    // arrivals are picked up by enroll-dynamic-campaigns
+    // ============================================
+    let audienceEnrollment: EnrollmentResult | null = null;
+    if (isDynamic) {
+      try {
+        audienceEnrollment = await enrollDynamicCampaign(supabase, campaign);
+        await supabase
+          .from('campaigns')
+          .update({ leads_count: sendableLeadCount + audienceEnrollment.addedCount })
+          .eq('id', campaign.id);
+      } catch (enrollError) {
+        // The campaign exists; the next enrollment run fills it
+        console.error('Error enrolling audience leads:', enrollError);
+      }
+    }
+    const linkedLeadsCount = sendableLeadCount + (audienceEnrollment?.addedCount ?? 0);
+
+    console.log('Campaign created:', {
+      id: campaign.id,
+      leadsCount: linkedLeadsCount,
+      suppressed: suppressedLeads.size + (audienceEnrollment?.suppressedCount ?? 0),
+      audience: audienceColumns.audience_type,
+      steps: stepRows.length || 1,
+      variants: savedVariants.length || 1,
+      accounts: poolAccountIds.length,
+      attachments: attachmentInputs.length,
+    });
 
     return new Response(JSON.stringify({
       success: true,
       campaign,
-      linkedLeadsCount: allLeadIds.length,
+      linkedLeadsCount,
+      suppressedCount: suppressedLeads.size + (audienceEnrollment?.suppressedCount ?? 0),
     }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 
   } catch (err) {
@@ -59,7 +59,7 @@ serve(async (req) => {
     // ============================================
     const { data: account, error: fetchError } = await supabase
       .from('accounts')
-      .select('account_id')
+      .select('account_id, provider')
       .eq('id', accountId)
       .eq('workspace_id', workspaceId)
       .maybeSingle();
@@ -73,11 +73,12 @@ serve(async (req) => {
 
     // ============================================
     // DELETE FROM UNIPILE: Remove connection from provider
+    // (SMTP mailboxes are not Unipile accounts; credentials cascade on delete)
     // ============================================
     const unipileDsn = Deno.env.get('UNIPILE_DSN');
     const unipileApiKey = Deno.env.get('UNIPILE_API_KEY');
 
-    if (unipileDsn && unipileApiKey && providerAccountId) {
+    if (unipileDsn && unipileApiKey && providerAccountId && account.provider !== 'smtp') {
       try {
         const deleteUrl = `https://${unipileDsn}/api/v1/accounts/${providerAccountId}`;
         console.log(`Deleting account from Unipile: ${deleteUrl}`);
@@ -0,0 +1,136 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  enrollDynamicCampaign,
+  REPLAN_STATUSES,
+  requestCampaignReplan,
+} from "../_shared/campaignEnrollment.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Failed campaigns stop enrolling until someone looks at them
+const ENROLLING_STATUSES = ['draft', 'scheduled', 'queued', 'sending', 'running', 'paused', 'partial', 'completed'];
+
+interface DynamicCampaignRow {
+  id: string;
+  name: string;
+  workspace_id: string;
+  type: string;
+  status: string;
+  leads_count: number;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  try {
+    // Optional { campaignId } to run a single campaign; the scheduler sends no body
+    const body = await req.json().catch(() => ({}));
+    console.log(`Enrolling dynamic campaign leads at ${new Date().toISOString()}${body?.campaignId ? ` (campaign ${body.campaignId})` : ''}`);
+
+    // ============================================
+    // GET CAMPAIGNS WITH AUTO-ENROLL ON
+    // ============================================
+    let query = supabase
+      .from('campaigns')
+      .select('id, name, workspace_id, type, status, leads_count')
+      .eq('auto_enroll', true)
+      .neq('audience_type', 'static')
+      .in('status', ENROLLING_STATUSES);
+    if (body?.campaignId) {
+      query = query.eq('id', body.campaignId);
+    }
+
+    const { data: campaigns, error: fetchError } = await query;
+    if (fetchError) {
+      console.error('Error fetching dynamic campaigns:', fetchError);
+      return new Response(JSON.stringify({ error: 'Failed to fetch dynamic campaigns' }), {
+        status: 500,
+        headers: corsHeaders
+      });
+    }
+
+    const results: {
+      campaignId: string;
+      name: string;
+      addedCount: number;
+      suppressedCount: number;
+      replanned: boolean;
+      replanError?: string;
+      error?: string;
+    }[] = [];
+
+    for (const campaign of (campaigns || []) as DynamicCampaignRow[]) {
+      try {
+        const enrollment = await enrollDynamicCampaign(supabase, campaign);
+
+        if (enrollment.addedCount > 0) {
+          await supabase
+            .from('campaigns')
+            .update({ leads_count: campaign.leads_count + enrollment.addedCount })
+            .eq('id', campaign.id);
+        }
+
+        // ============================================
+        // REPLAN: launched campaigns send the new leads within their limits
+        // ============================================
+        // (send-campaign trusts the service role key for replans)
+        const replan = enrollment.addedCount > 0 && REPLAN_STATUSES.includes(campaign.status)
+          ? await requestCampaignReplan(`Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`, campaign.id)
+          : null;
+        const replanned = !!replan?.ok;
+
+        if (enrollment.addedCount > 0 || enrollment.suppressedCount > 0) {
+          console.log(`Campaign ${campaign.id} (${campaign.status}): +${enrollment.addedCount} leads, ${enrollment.suppressedCount} suppressed${replanned ? ', queue replanned' : replan ? `, replan failed: ${replan.error}` : ''}`);
+        }
+        results.push({
+          campaignId: campaign.id,
+          name: campaign.name,
+          addedCount: enrollment.addedCount,
+          suppressedCount: enrollment.suppressedCount,
+          replanned,
+          replanError: replan?.error ?? undefined,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Error enrolling leads for campaign ${campaign.id}:`, errorMessage);
+        results.push({
+          campaignId: campaign.id,
+          name: campaign.name,
+          addedCount: 0,
+          suppressedCount: 0,
+          replanned: false,
+          error: errorMessage,
+        });
+      }
+    }
+
+    const enrolledCount = results.reduce((sum, r) => sum + r.addedCount, 0);
+    console.log(`Processed ${results.length} dynamic campaigns, ${enrolledCount} leads enrolled`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      processedCount: results.length,
+      enrolledCount,
+      results,
+    }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  } catch (err) {
+    const error = err as Error;
+    console.error('Error in enroll-dynamic-campaigns:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: corsHeaders
+    });
+  }
+});
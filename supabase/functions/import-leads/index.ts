@@ -0,0 +1,203 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  INLINE_IMPORT_ROWS,
+  leadImportFileType,
+  MAX_IMPORT_ROWS,
+  suggestLeadImportMapping,
+  validateLeadImportMapping,
+  type LeadImportMapping,
+} from "../_shared/leadImport.ts";
+import {
+  failLeadImportJob,
+  loadLeadCustomFields,
+  processLeadImportJob,
+  readLeadImportFile,
+  type LeadImportJobRow,
+} from "../_shared/leadImportJob.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Rows returned by the preview, to check the mapping against real values
+const PREVIEW_ROWS = 5;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: corsHeaders });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await supabase.auth.getUser(token);
+    if (claimsError || !claimsData.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: corsHeaders });
+    }
+
+    const { workspaceId, storagePath, fileName, preview, mapping, listId, tagIds, updateExisting } = await req.json();
+
+    if (!workspaceId || !storagePath || !fileName) {
+      return new Response(JSON.stringify({ error: 'Workspace, storage path and file name are required' }), { status: 400, headers: corsHeaders });
+    }
+
+    const fileType = leadImportFileType(fileName);
+    if (!fileType) {
+      return new Response(JSON.stringify({ error: 'Only CSV and XLSX files can be imported' }), { status: 400, headers: corsHeaders });
+    }
+
+    // ============================================
+    // MEMBERSHIP CHECK
+    // ============================================
+    const { data: member } = await supabase
+      .from('workspace_members')
+      .select('id')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', claimsData.user.id)
+      .maybeSingle();
+
+    if (!member) {
+      return new Response(JSON.stringify({ error: 'Access denied to this workspace' }), { status: 403, headers: corsHeaders });
+    }
+
+    if (!String(storagePath).startsWith(`${workspaceId}/`)) {
+      return new Response(JSON.stringify({ error: 'File does not belong to this workspace' }), { status: 403, headers: corsHeaders });
+    }
+
+    let rows: string[][];
+    try {
+      rows = await readLeadImportFile(supabase, storagePath, fileType);
+    } catch (readError) {
+      console.error('Error reading import file:', readError);
+      return new Response(JSON.stringify({ error: 'Could not read the file', details: (readError as Error).message }), { status: 400, headers: corsHeaders });
+    }
+
+    const customFields = await loadLeadCustomFields(supabase, workspaceId);
+
+    const headers = (rows[0] || []).map(header => header.trim());
+    const totalRows = Math.max(rows.length - 1, 0);
+
+    // ============================================
+    // PREVIEW: headers, first rows and suggested mapping
+    // ============================================
+    if (preview) {
+      return new Response(JSON.stringify({
+        success: true,
+        fileType,
+        headers,
+        sampleRows: rows.slice(1, PREVIEW_ROWS + 1),
+        totalRows,
+        mapping: suggestLeadImportMapping(headers, customFields),
+      }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
+    // ============================================
+    // VALIDATE IMPORT SETTINGS
+    // ============================================
+    if (totalRows === 0) {
+      return new Response(JSON.stringify({ error: 'The file has no rows below the header' }), { status: 400, headers: corsHeaders });
+    }
+    if (totalRows > MAX_IMPORT_ROWS) {
+      return new Response(JSON.stringify({ error: `Files can have at most ${MAX_IMPORT_ROWS} rows` }), { status: 400, headers: corsHeaders });
+    }
+
+    const columnMapping = ((mapping as LeadImportMapping | undefined) || []).slice(0, headers.length);
+    const mappingError = validateLeadImportMapping(columnMapping, customFields);
+    if (mappingError) {
+      return new Response(JSON.stringify({ error: mappingError }), { status: 400, headers: corsHeaders });
+    }
+
+    if (listId) {
+      const { data: list } = await supabase
+        .from('lead_lists')
+        .select('id')
+        .eq('id', listId)
+        .eq('workspace_id', workspaceId)
+        .maybeSingle();
+      if (!list) {
+        return new Response(JSON.stringify({ error: 'Lead list not found in this workspace' }), { status: 400, headers: corsHeaders });
+      }
+    }
+
+    const uniqueTagIds = [...new Set((tagIds as string[] | undefined) || [])];
+    if (uniqueTagIds.length > 0) {
+      const { data: tags } = await supabase
+        .from('tags')
+        .select('id')
+        .eq('workspace_id', workspaceId)
+        .in('id', uniqueTagIds);
+      if ((tags || []).length !== uniqueTagIds.length) {
+        return new Response(JSON.stringify({ error: 'Some tags were not found in this workspace' }), { status: 400, headers: corsHeaders });
+      }
+    }
+
+    // ============================================
+    // CREATE JOB
+    // ============================================
+    const { data: job, error: jobError } = await supabase
+      .from('lead_import_jobs')
+      .insert({
+        workspace_id: workspaceId,
+        user_id: claimsData.user.id,
+        storage_path: storagePath,
+        file_name: fileName,
+        file_type: fileType,
+        mapping: columnMapping,
+        list_id: listId || null,
+        tag_ids: uniqueTagIds,
+        update_existing: updateExisting !== false,
+        total_rows: totalRows,
+      })
+      .select('*')
+      .single();
+
+    if (jobError || !job) {
+      console.error('Error creating import job:', jobError);
+      return new Response(JSON.stringify({ error: 'Failed to create import job', details: jobError?.message }), { status: 500, headers: corsHeaders });
+    }
+
+    // ============================================
+    // SMALL FILES: import now; large ones wait for process-lead-imports
+    // ============================================
+    const background = totalRows > INLINE_IMPORT_ROWS;
+    if (!background) {
+      try {
+        await processLeadImportJob(supabase, job as LeadImportJobRow, totalRows, rows);
+      } catch (importError) {
+        console.error(`Error importing job ${job.id}:`, importError);
+        await failLeadImportJob(supabase, job.id, (importError as Error).message);
+      }
+    }
+
+    const { data: savedJob } = await supabase
+      .from('lead_import_jobs')
+      .select('*')
+      .eq('id', job.id)
+      .single();
+
+    console.log(`Lead import ${job.id} (${fileName}, ${totalRows} rows) ${background ? 'queued' : savedJob?.status}`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      background,
+      job: savedJob ?? job,
+    }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  } catch (err) {
+    const error = err as Error;
+    console.error('Error in import-leads:', error);
+    return new Response(JSON.stringify({ error: error.message }), { status: 500, headers: corsHeaders });
+  }
+});
@@ -0,0 +1,168 @@
+/**
+ * Sends a reply from the inbox
+ *
+ * Multipart body: chatId (chats.id), text and optional "attachments" files.
+ * Posts to Unipile POST /chats/{external_id}/messages with the chat's account
+ * and stores the message right away (the webhook copy of it is ignored as a
+ * duplicate). Sending also marks the chat as read for the user.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createUnipileClientFromEnv, UnipileHttpError } from "../_shared/unipileClient.ts";
+import { InboxAttachment, parseInboxAttachments, touchChatLastMessage } from "../_shared/inbox.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Unipile rejects larger uploads for WhatsApp and LinkedIn
+const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+const MAX_ATTACHMENTS = 5;
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+    const token = authHeader.replace("Bearer ", "");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+    });
+    const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: "Invalid or expired token" }, 401);
+    }
+
+    // ============================================
+    // PARSE REQUEST
+    // ============================================
+    const form = await req.formData();
+    const chatId = form.get("chatId");
+    const text = String(form.get("text") || "").trim();
+    const files = form.getAll("attachments").filter((f): f is File => f instanceof File);
+
+    if (typeof chatId !== "string" || !chatId) {
+      return jsonResponse({ error: "chatId is required" }, 400);
+    }
+    if (!text && files.length === 0) {
+      return jsonResponse({ error: "Message text or attachment is required" }, 400);
+    }
+    if (files.length > MAX_ATTACHMENTS) {
+      return jsonResponse({ error: `At most ${MAX_ATTACHMENTS} attachments per message` }, 400);
+    }
+    const oversized = files.find(f => f.size > MAX_ATTACHMENT_BYTES);
+    if (oversized) {
+      return jsonResponse({ error: `Attachment ${oversized.name} exceeds 15 MB` }, 400);
+    }
+
+    // ============================================
+    // LOAD CHAT (RLS: only workspace members see it)
+    // ============================================
+    const { data: chat } = await supabase
+      .from("chats")
+      .select("id, workspace_id, external_id, account:accounts ( account_id, status )")
+      .eq("id", chatId)
+      .maybeSingle();
+
+    if (!chat) {
+      return jsonResponse({ error: "Chat not found" }, 404);
+    }
+
+    const account = chat.account as unknown as { account_id: string; status: string } | null;
+    if (!account || account.status !== "connected") {
+      return jsonResponse({ error: "The account for this conversation is not connected" }, 400);
+    }
+
+    // ============================================
+    // SEND VIA UNIPILE
+    // ============================================
+    const body = new FormData();
+    if (text) body.append("text", text);
+    for (const file of files) {
+      body.append("attachments", file, file.name);
+    }
+
+    const unipileClient = createUnipileClientFromEnv("inbox-send-message");
+    let messageId: string | null = null;
+    try {
+      // No retries: a timed-out request may still have been delivered
+      const response = await unipileClient.post<{ message_id?: string }>(
+        `/chats/${encodeURIComponent(chat.external_id)}/messages`,
+        body,
+        { skipRetry: true }
+      );
+      messageId = response.data?.message_id || null;
+    } catch (err) {
+      if (err instanceof UnipileHttpError) {
+        console.error(`Unipile send failed for chat ${chat.id}: HTTP ${err.status}`, err.body.substring(0, 500));
+        return jsonResponse({
+          error: err.isSessionError
+            ? "The account needs to be reconnected"
+            : `Unipile rejected the message (HTTP ${err.status})`,
+          requiresReconnect: err.requiresReconnect,
+        }, 502);
+      }
+      throw err;
+    }
+
+    // ============================================
+    // STORE MESSAGE
+    // ============================================
+    const timestamp = new Date().toISOString();
+    const attachments: InboxAttachment[] = parseInboxAttachments(
+      files.map(f => ({ type: f.type, mimetype: f.type, file_name: f.name, file_size: f.size })),
+      messageId
+    );
+
+    const { data: message, error: insertError } = await serviceClient
+      .from("messages")
+      .insert({
+        workspace_id: chat.workspace_id,
+        chat_id: chat.id,
+        external_id: messageId,
+        sender: "me",
+        sent_by: user.id,
+        text: text || null,
+        attachments,
+        timestamp,
+      })
+      .select("*")
+      .single();
+
+    if (insertError) {
+      // The webhook may have stored it first; the message was sent either way
+      console.error(`Error storing sent message for chat ${chat.id}:`, insertError);
+    }
+
+    await touchChatLastMessage(serviceClient, chat.id, { text: text || null, attachments, sender: "me", timestamp });
+    await serviceClient
+      .from("chat_reads")
+      .upsert({ chat_id: chat.id, user_id: user.id, last_read_at: timestamp }, { onConflict: "chat_id,user_id" });
+
+    return jsonResponse({ success: true, message_id: messageId, message });
+  } catch (error) {
+    console.error("Error in inbox-send-message:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
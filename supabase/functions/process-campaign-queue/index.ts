@@ -1,38 +1,52 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildStepAdvance,
+  loadCampaignSteps,
+  sendSequenceStep,
+  stopLeadSequence,
+  usageActionForStep,
+  type CampaignStep,
+} from "../_shared/campaignSteps.ts";
+import { sendSmtpMail, SmtpError } from "../_shared/emailClient.ts";
+import { CAMPAIGN_LEAD_HEADER, markCampaignLeadBounced } from "../_shared/emailBounces.ts";
+import { recordSendAttempt, type SendAttemptOutcome } from "../_shared/sendAttempts.ts";
+import { appendAttachments, loadCampaignAttachments, type CampaignAttachmentFile } from "../_shared/campaignAttachments.ts";
+import { applyMessageEdit, loadCampaignLiveState } from "../_shared/campaignLiveState.ts";
+import {
+  claimCampaignLead,
+  findSentAttempt,
+  IDEMPOTENCY_HEADER,
+  idempotentMessageId,
+  releaseCampaignLead,
+  sendIdempotencyKey,
+} from "../_shared/sendLease.ts";
+import { autoPromoteVariant, loadCampaignVariants, resolveVariantContent } from "../_shared/campaignVariants.ts";
+import { renderTemplate } from "../_shared/templateEngine.ts";
+import {
+  buildSendingWindow,
+  getNextWindowOpening,
+  isWithinSendingWindow,
+  localTimeToInstant,
+  type SendingWindow,
+} from "../_shared/sendingWindow.ts";
+import { inferLeadTimezone } from "../_shared/leadTimezone.ts";
+import { extractLinkedInPublicIdentifier, resolveLinkedInProviderId } from "../_shared/linkedinUrl.ts";
+import { applyWarmup, type WarmupAccount } from "../_shared/warmup.ts";
+import { skipSuppressedLeads } from "../_shared/suppressionList.ts";
+import {
+  loadAccountPool,
+  pickPoolAccount,
+  poolCapacity,
+  poolDailyLimit,
+  type PoolAccount,
+} from "../_shared/accountPool.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// ============================================
-// MESSAGE VARIABLE REPLACEMENT
-// ============================================
-const MESSAGE_VARIABLES = [
-  { variable: '{{nome}}', field: 'full_name' },
-  { variable: '{{primeiro_nome}}', field: 'first_name' },
-  { variable: '{{sobrenome}}', field: 'last_name' },
-  { variable: '{{email}}', field: 'email' },
-  { variable: '{{celular}}', field: 'mobile_number' },
-  { variable: '{{empresa}}', field: 'company' },
-  { variable: '{{cargo}}', field: 'job_title' },
-  { variable: '{{cidade}}', field: 'city' },
-  { variable: '{{estado}}', field: 'state' },
-  { variable: '{{pais}}', field: 'country' },
-  { variable: '{{linkedin}}', field: 'linkedin_url' },
-  { variable: '{{industria}}', field: 'industry' },
-];
-
-function replaceVariables(message: string, lead: Record<string, any>): string {
-  let result = message;
-  for (const { variable, field } of MESSAGE_VARIABLES) {
-    const value = lead[field];
-    result = result.split(variable).join(value ? String(value) : '');
-  }
-  return result;
-}
-
 // ============================================
 // UTILITIES
 // ============================================
@@ -78,6 +92,8 @@ interface CampaignLead {
   lead_id: string;
   status: string;
   retry_count: number;
+  variant_id: string | null;
+  account_id: string | null;
   lead: {
     id: string;
     full_name: string | null;
@@ -93,6 +109,17 @@ interface CampaignLead {
     state: string | null;
     country: string | null;
     industry: string | null;
+    headline: string | null;
+    about: string | null;
+    seniority_level: string | null;
+    company_size: string | null;
+    company_industry: string | null;
+    custom_fields: Record<string, unknown> | null;
+    // Matched against the do-not-contact list
+    personal_email: string | null;
+    linkedin_public_identifier: string | null;
+    company_domain: string | null;
+    company_website: string | null;
   };
 }
 
@@ -114,7 +141,7 @@ const DEFAULT_SETTINGS: WorkspaceSettings = {
   linkedin_message_interval_seconds: 30,
 };
 
-type UsageAction = 'linkedin_message' | 'linkedin_invite' | 'whatsapp_message';
+type UsageAction = 'linkedin_message' | 'linkedin_invite' | 'whatsapp_message' | 'email_message';
 
 interface ProcessResult {
   queueId: string;
@@ -134,13 +161,28 @@ interface ProcessResult {
 // Uses service role client for guaranteed update permissions
 // ============================================
 // Rules:
+// 0. A paused campaign stays paused (resume_campaign decides what comes next),
+//    also when the pause happens while this runs
 // 1. If any campaign_queue entry exists with status='queued' and leads_sent < leads_to_send => 'queued'
 // 2. If any campaign_leads with status='pending' => 'queued' (work remaining)
-// 3. Otherwise => 'completed'
+// 3. If any campaign_leads still has a follow-up step scheduled => 'running'
+// 4. Otherwise => 'completed'
 async function finalizeCampaignStatus(supabaseClient: any, campaignId: string): Promise<string> {
   console.log(`[finalizeCampaignStatus] START - campaignId=${campaignId}`);
   
   try {
+    // Step 0: Paused campaigns keep their status. Every update below also
+    // filters out 'paused', so a pause landing after this read is not overwritten.
+    const { data: current } = await supabaseClient
+      .from('campaigns')
+      .select('status')
+      .eq('id', campaignId)
+      .maybeSingle();
+    if (current?.status === 'paused') {
+      console.log(`[finalizeCampaignStatus] Campaign ${campaignId} is paused -> status stays 'paused'`);
+      return 'paused';
+    }
+
     // Step 1: Check for pending queue entries
     const { data: queueEntries, error: queueError } = await supabaseClient
       .from('campaign_queue')
@@ -162,7 +204,8 @@ async function finalizeCampaignStatus(supabaseClient: any, campaignId: string):
       const { error: updateError } = await supabaseClient
         .from('campaigns')
         .update({ status: 'queued', updated_at: new Date().toISOString() })
-        .eq('id', campaignId);
+        .eq('id', campaignId)
+        .neq('status', 'paused');
       if (updateError) {
         console.error(`[finalizeCampaignStatus] UPDATE ERROR:`, updateError);
       } else {
@@ -188,7 +231,8 @@ async function finalizeCampaignStatus(supabaseClient: any, campaignId: string):
       const { error: updateError } = await supabaseClient
         .from('campaigns')
         .update({ status: 'queued', updated_at: new Date().toISOString() })
-        .eq('id', campaignId);
+        .eq('id', campaignId)
+        .neq('status', 'paused');
       if (updateError) {
         console.error(`[finalizeCampaignStatus] UPDATE ERROR:`, updateError);
       } else {
@@ -197,13 +241,39 @@ async function finalizeCampaignStatus(supabaseClient: any, campaignId: string):
       return 'queued';
     }
     
-    // Step 3: No pending work -> completed
+    // Step 3: Check for leads with follow-up steps still scheduled
+    const { count: activeSequenceCount, error: sequenceError } = await supabaseClient
+      .from('campaign_leads')
+      .select('id', { count: 'exact', head: true })
+      .eq('campaign_id', campaignId)
+      .eq('sequence_status', 'active')
+      .not('next_step_at', 'is', null);
+    
+    if (sequenceError) {
+      console.error(`[finalizeCampaignStatus] Error checking active sequences:`, sequenceError);
+    }
+    
+    if (activeSequenceCount && activeSequenceCount > 0) {
+      console.log(`[finalizeCampaignStatus] Campaign ${campaignId} has ${activeSequenceCount} leads awaiting follow-up steps -> status will be 'running'`);
+      const { error: updateError } = await supabaseClient
+        .from('campaigns')
+        .update({ status: 'running', updated_at: new Date().toISOString() })
+        .eq('id', campaignId)
+        .neq('status', 'paused');
+      if (updateError) {
+        console.error(`[finalizeCampaignStatus] UPDATE ERROR:`, updateError);
+      }
+      return 'running';
+    }
+    
+    // Step 4: No pending work -> completed
     console.log(`[finalizeCampaignStatus] Campaign ${campaignId} has no pending work -> status will be 'completed'`);
     console.log(`[finalizeCampaignStatus] BEFORE UPDATE: campaignId=${campaignId}, newStatus='completed'`);
     const { error: updateError } = await supabaseClient
       .from('campaigns')
       .update({ status: 'completed', updated_at: new Date().toISOString() })
-      .eq('id', campaignId);
+      .eq('id', campaignId)
+      .neq('status', 'paused');
     if (updateError) {
       console.error(`[finalizeCampaignStatus] UPDATE ERROR:`, updateError);
     } else {
@@ -217,7 +287,8 @@ async function finalizeCampaignStatus(supabaseClient: any, campaignId: string):
       await supabaseClient
         .from('campaigns')
         .update({ status: 'queued', updated_at: new Date().toISOString() })
-        .eq('id', campaignId);
+        .eq('id', campaignId)
+        .neq('status', 'paused');
       console.log(`[finalizeCampaignStatus] Fallback: set campaignId=${campaignId} to 'queued' after exception`);
     } catch (e2) {
       console.error(`[finalizeCampaignStatus] Fallback update also failed:`, e2);
@@ -227,77 +298,393 @@ async function finalizeCampaignStatus(supabaseClient: any, campaignId: string):
 }
 
 // ============================================
-// LINKEDIN HELPERS
+// SENDING WINDOW
 // ============================================
-function extractLinkedInPublicIdentifier(linkedinUrl: string): string | null {
-  try {
-    const url = linkedinUrl.startsWith('http') 
-      ? new URL(linkedinUrl) 
-      : new URL(`https://linkedin.com${linkedinUrl.startsWith('/') ? '' : '/'}${linkedinUrl}`);
-    const pathParts = url.pathname.split('/').filter(Boolean);
-    const inIndex = pathParts.findIndex(p => p.toLowerCase() === 'in');
-    if (inIndex !== -1 && pathParts[inIndex + 1]) {
-      return pathParts[inIndex + 1];
-    }
-    return pathParts[pathParts.length - 1] || null;
-  } catch {
-    const match = linkedinUrl.match(/\/in\/([^\/\?]+)/);
-    return match ? match[1] : null;
+const WINDOW_COLUMNS = 'send_window_days, send_window_start, send_window_end, skip_holidays, use_lead_timezone';
+
+// Lead-timezone campaigns fetch extra pending leads, since some are outside their window
+const LEAD_TIMEZONE_FETCH_FACTOR = 5;
+
+async function loadCampaignSendingWindow(
+  supabase: SupabaseClient,
+  campaign: { workspace_id: string; skip_holidays?: boolean | null }
+): Promise<SendingWindow> {
+  let holidays: string[] = [];
+  if (campaign.skip_holidays) {
+    const { data } = await supabase
+      .from('workspace_holidays')
+      .select('holiday_date')
+      .eq('workspace_id', campaign.workspace_id);
+    holidays = (data || []).map((h: { holiday_date: string }) => h.holiday_date);
   }
+  return buildSendingWindow(campaign, holidays);
+}
+
+// ============================================
+// SEQUENCE STEPS (follow-ups due by next_step_at)
+// ============================================
+// Step 1 goes through the queue above; steps 2..N are picked up here once
+// campaign_leads.next_step_at is due. Replies stop a lead via the webhooks.
+const SEQUENCE_RETRY_DELAY_MS = 60 * 60 * 1000;
+const SEQUENCE_DEFER_DELAY_MS = 24 * 60 * 60 * 1000;
+const SEQUENCE_BLOCKED_STATUSES = ['draft', 'paused', 'failed'];
+
+interface DueSequenceLead {
+  id: string;
+  lead_id: string;
+  campaign_id: string;
+  status: string;
+  current_step: number;
+  retry_count: number;
+  accepted_at: string | null;
+  replied_at: string | null;
+  skip_reason: string | null;
+  account_id: string | null;
+  lead: CampaignLead['lead'];
 }
 
-async function resolveLinkedInProviderId(
+interface SequenceAccount extends WarmupAccount {
+  account_id: string;
+  status: string;
+  linkedin_feature: string | null;
+  daily_message_limit: number | null;
+}
+
+interface SequenceResult {
+  campaignId: string;
+  sentNow: number;
+  failedNow: number;
+  stoppedNow: number;
+  deferredNow: number;
+  finalStatus: string;
+}
+
+async function countDueSequenceSteps(supabase: SupabaseClient, workspaceId: string | null): Promise<number> {
+  let query = supabase
+    .from('campaign_leads')
+    .select('id, campaigns!inner(workspace_id)', { count: 'exact', head: true })
+    .eq('sequence_status', 'active')
+    .gte('current_step', 1)
+    .lte('next_step_at', new Date().toISOString());
+  if (workspaceId) query = query.eq('campaigns.workspace_id', workspaceId);
+  const { count } = await query;
+  return count || 0;
+}
+
+async function processDueSequenceSteps(
+  supabase: SupabaseClient,
   unipileDsn: string,
   unipileApiKey: string,
-  accountId: string,
-  publicIdentifier: string
-): Promise<string | null> {
-  try {
-    const lookupUrl = `https://${unipileDsn}/api/v1/users/${encodeURIComponent(publicIdentifier)}?account_id=${accountId}`;
-    console.log(`[LinkedIn Lookup] URL: ${lookupUrl}`);
-    
-    const response = await fetch(lookupUrl, {
-      method: 'GET',
-      headers: {
-        'X-API-KEY': unipileApiKey,
-        'Accept': 'application/json',
-      },
-    });
+  workspaceId: string | null,
+  limit: number
+): Promise<SequenceResult[]> {
+  let query = supabase
+    .from('campaign_leads')
+    .select(`
+      id,
+      lead_id,
+      campaign_id,
+      status,
+      current_step,
+      retry_count,
+      accepted_at,
+      replied_at,
+      skip_reason,
+      account_id,
+      campaigns!inner ( workspace_id ),
+      lead:leads (
+        id, full_name, first_name, last_name, email, mobile_number, phone,
+        linkedin_url, company, job_title, city, state, country, industry,
+        headline, about, seniority_level, company_size, company_industry, custom_fields,
+        personal_email, linkedin_public_identifier, company_domain, company_website
+      )
+    `)
+    .eq('sequence_status', 'active')
+    .gte('current_step', 1)
+    .lte('next_step_at', new Date().toISOString())
+    .order('next_step_at', { ascending: true })
+    .limit(limit);
+  if (workspaceId) query = query.eq('campaigns.workspace_id', workspaceId);
+
+  const { data: dueLeads, error: dueError } = await query;
+  if (dueError) {
+    console.error('[Sequence] Error fetching due steps:', dueError);
+    return [];
+  }
+  if (!dueLeads || dueLeads.length === 0) return [];
+
+  console.log(`[Sequence] ${dueLeads.length} leads with due follow-up steps`);
+
+  const byCampaign = new Map<string, DueSequenceLead[]>();
+  for (const row of dueLeads as unknown as DueSequenceLead[]) {
+    const group = byCampaign.get(row.campaign_id) || [];
+    group.push(row);
+    byCampaign.set(row.campaign_id, group);
+  }
+
+  const results: SequenceResult[] = [];
+
+  for (const [campaignId, leads] of byCampaign) {
+    const logPrefix = `[Sequence ${campaignId}]`;
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => '');
-      console.error(`[LinkedIn Lookup] Failed for ${publicIdentifier}: HTTP ${response.status} - ${errorText}`);
-      return null;
+    const { data: campaign } = await supabase
+      .from('campaigns')
+      .select(`id, workspace_id, type, status, account_id, ${WINDOW_COLUMNS}`)
+      .eq('id', campaignId)
+      .single();
+
+    if (!campaign || SEQUENCE_BLOCKED_STATUSES.includes(campaign.status)) {
+      console.log(`${logPrefix} Campaign not sendable (status=${campaign?.status}), skipping`);
+      continue;
     }
 
-    const data = await response.json();
-    console.log(`[LinkedIn Lookup] Response for ${publicIdentifier}:`, JSON.stringify({
-      id: data.id,
-      provider_id: data.provider_id,
-      provider_messaging_id: data.provider_messaging_id,
-    }));
-    
-    // IMPORTANT: Use provider_id or id for invite endpoint
-    // DO NOT use provider_messaging_id - it doesn't work for /users/invite
-    const providerId = data.provider_id || data.id;
-    
-    if (!providerId) {
-      console.error(`[LinkedIn Lookup] No valid provider_id found for ${publicIdentifier}. Available fields: ${Object.keys(data).join(', ')}`);
-      return null;
+    const steps: CampaignStep[] = await loadCampaignSteps(supabase, campaignId);
+
+    const { data: workspaceSettings } = await supabase
+      .from('workspace_settings')
+      .select('daily_message_limit, message_interval_seconds, max_retries, linkedin_daily_message_limit, linkedin_daily_invite_limit, linkedin_message_interval_seconds')
+      .eq('workspace_id', campaign.workspace_id)
+      .maybeSingle();
+    const settings: WorkspaceSettings = { ...DEFAULT_SETTINGS, ...workspaceSettings };
+
+    const { data: workspace } = await supabase
+      .from('workspaces')
+      .select('timezone')
+      .eq('id', campaign.workspace_id)
+      .maybeSingle();
+    const workspaceTimezone = workspace?.timezone || 'UTC';
+    const todayDate = getTodayDateInTimezone(workspaceTimezone);
+    const sendingWindow = await loadCampaignSendingWindow(supabase, campaign);
+
+    const isLinkedIn = campaign.type === 'linkedin';
+    const baseIntervalSeconds = isLinkedIn ? settings.linkedin_message_interval_seconds : settings.message_interval_seconds;
+    // Follow-ups keep the lead's sender (pool rotation), loaded once per account
+    const accountsById = new Map<string, SequenceAccount | null>();
+    const remainingByKey = new Map<string, number>();
+
+    async function getSenderAccount(accountUuid: string): Promise<SequenceAccount | null> {
+      if (!accountsById.has(accountUuid)) {
+        const { data } = await supabase
+          .from('accounts')
+          .select('account_id, status, linkedin_feature, daily_message_limit, warmup_enabled, warmup_started_at, warmup_start_limit, warmup_daily_increase')
+          .eq('id', accountUuid)
+          .maybeSingle();
+        accountsById.set(accountUuid, data && data.status === 'connected' ? data as SequenceAccount : null);
+      }
+      return accountsById.get(accountUuid)!;
     }
-    
-    // Validate that we're not returning provider_messaging_id by mistake
-    if (providerId === data.provider_messaging_id && !data.provider_id && !data.id) {
-      console.error(`[LinkedIn Lookup] Only provider_messaging_id available for ${publicIdentifier}, which doesn't work for invites`);
-      return null;
+
+    async function getRemaining(account: SequenceAccount, usageAction: UsageAction): Promise<number> {
+      const key = `${account.account_id}:${usageAction}`;
+      if (!remainingByKey.has(key)) {
+        const { data: usageData } = await supabase.rpc('get_daily_usage', {
+          p_workspace_id: campaign.workspace_id,
+          p_account_id: account.account_id,
+          p_action: usageAction,
+          p_usage_date: todayDate,
+        });
+        const dailyLimit = applyWarmup(account, usageAction === 'linkedin_invite'
+          ? settings.linkedin_daily_invite_limit
+          : account.daily_message_limit ?? (usageAction === 'linkedin_message'
+            ? settings.linkedin_daily_message_limit
+            : settings.daily_message_limit));
+        remainingByKey.set(key, Math.max(0, dailyLimit - (usageData || 0)));
+      }
+      return remainingByKey.get(key)!;
     }
-    
-    console.log(`[LinkedIn Lookup] Resolved ${publicIdentifier} -> provider_id: ${providerId}`);
-    return providerId;
-  } catch (error) {
-    console.error(`[LinkedIn Lookup] Error for ${publicIdentifier}:`, error);
-    return null;
+
+    let sentNow = 0;
+    let failedNow = 0;
+    let stoppedNow = 0;
+    let deferredNow = 0;
+
+    // Do-not-contact list: their sequences stop here
+    const { allowed: sequenceLeads, skipped: suppressedCount } = await skipSuppressedLeads(supabase, campaign.workspace_id, leads);
+    stoppedNow += suppressedCount;
+
+    for (let i = 0; i < sequenceLeads.length; i++) {
+      const cl = sequenceLeads[i];
+
+      // Paused while the run was going: the remaining follow-ups wait for resume
+      const live = await loadCampaignLiveState(supabase, campaignId);
+      if (live && SEQUENCE_BLOCKED_STATUSES.includes(live.status)) {
+        console.log(`${logPrefix} Campaign ${live.status}, stopping follow-ups`);
+        break;
+      }
+      const step = steps.find(s => s.step_order === cl.current_step + 1);
+
+      if (!step) {
+        // Steps were removed after the lead was scheduled
+        await supabase
+          .from('campaign_leads')
+          .update({ sequence_status: 'completed', next_step_at: null })
+          .eq('id', cl.id);
+        continue;
+      }
+
+      // Exit conditions
+      if (cl.replied_at) {
+        if (await stopLeadSequence(supabase, cl.id, 'replied')) stoppedNow++;
+        continue;
+      }
+      const accepted = !!cl.accepted_at || cl.skip_reason === 'already_connected';
+      if (step.condition === 'accepted' && !accepted) {
+        console.log(`${logPrefix} Lead ${cl.lead_id} did not accept the invite in time, stopping`);
+        if (await stopLeadSequence(supabase, cl.id, 'not_accepted')) stoppedNow++;
+        continue;
+      }
+
+      // Outside the sending window: due again when it next opens
+      const timezone = campaign.use_lead_timezone ? inferLeadTimezone(cl.lead, workspaceTimezone) : workspaceTimezone;
+      if (!isWithinSendingWindow(sendingWindow, new Date(), timezone)) {
+        const opening = getNextWindowOpening(sendingWindow, new Date(), timezone);
+        await supabase
+          .from('campaign_leads')
+          .update({ next_step_at: localTimeToInstant(opening.date, opening.time, timezone).toISOString() })
+          .eq('id', cl.id);
+        deferredNow++;
+        continue;
+      }
+
+      // Sender disconnected or out of capacity: the follow-up waits for it
+      const senderUuid = cl.account_id ?? campaign.account_id;
+      const account = senderUuid ? await getSenderAccount(senderUuid) : null;
+      const usageAction = usageActionForStep(campaign.type, step.action);
+      if (!account || (await getRemaining(account, usageAction)) === 0) {
+        if (!account) console.log(`${logPrefix} Sender of lead ${cl.lead_id} not connected, follow-up deferred`);
+        await supabase
+          .from('campaign_leads')
+          .update({ next_step_at: new Date(Date.now() + SEQUENCE_DEFER_DELAY_MS).toISOString() })
+          .eq('id', cl.id);
+        deferredNow++;
+        continue;
+      }
+
+      // Lease on the lead: an overlapping scheduler run skips it
+      const leaseToken = await claimCampaignLead(supabase, cl, { followUp: true });
+      if (!leaseToken) {
+        console.log(`${logPrefix} Lead ${cl.lead_id} is being handled by another run, skipping`);
+        continue;
+      }
+      const idempotencyKey = sendIdempotencyKey(cl.id, step.step_order);
+
+      // Step sent by a run that stopped before saving the outcome: advance without resending
+      const previousSend = await findSentAttempt(supabase, idempotencyKey);
+      if (previousSend) {
+        await supabase
+          .from('campaign_leads')
+          .update({
+            error: null,
+            retry_count: 0,
+            provider_message_id: previousSend.provider_message_id,
+            ...buildStepAdvance(steps, step.step_order, new Date(previousSend.created_at), { accepted }),
+          })
+          .eq('id', cl.id);
+        await releaseCampaignLead(supabase, cl.id, leaseToken);
+        console.log(`${logPrefix} Step ${step.step_order} already sent to lead ${cl.lead_id}, outcome recovered`);
+        continue;
+      }
+
+      const sendResult = cl.lead
+        ? await sendSequenceStep({
+            unipileDsn,
+            unipileApiKey,
+            unipileAccountId: account.account_id,
+            linkedinFeature: account.linkedin_feature || 'classic',
+            channel: campaign.type,
+            action: step.action,
+            lead: cl.lead,
+            text: renderTemplate(step.message, cl.lead, { seed: `${cl.id}:step:${step.step_order}` }),
+            idempotencyKey,
+          }).catch((err: unknown) => ({
+            success: false,
+            providerMessageId: null,
+            error: err instanceof Error ? err.message : 'Unknown error',
+          }))
+        : { success: false, providerMessageId: null, error: 'Lead not found' };
+
+      await recordSendAttempt(supabase, {
+        workspaceId: campaign.workspace_id,
+        campaignId,
+        campaignLeadId: cl.id,
+        stepOrder: step.step_order,
+        attempt: cl.retry_count + 1,
+        outcome: sendResult.success ? 'sent' : 'failed',
+        error: sendResult.success ? null : sendResult.error,
+        providerMessageId: sendResult.providerMessageId,
+        accountId: senderUuid,
+        channel: campaign.type,
+        action: step.action,
+        source: 'process-campaign-queue',
+        idempotencyKey,
+      });
+
+      if (sendResult.success) {
+        const sentAt = new Date();
+        await supabase
+          .from('campaign_leads')
+          .update({
+            error: null,
+            retry_count: 0,
+            provider_message_id: sendResult.providerMessageId,
+            ...buildStepAdvance(steps, step.step_order, sentAt, { accepted }),
+          })
+          .eq('id', cl.id);
+
+        await supabase.from('campaign_events').insert({
+          campaign_id: campaignId,
+          campaign_lead_id: cl.id,
+          event_type: 'step_sent',
+          provider_message_id: sendResult.providerMessageId,
+          metadata: { step_order: step.step_order, action: step.action },
+        });
+
+        await supabase.rpc('increment_daily_usage', {
+          p_workspace_id: campaign.workspace_id,
+          p_account_id: account.account_id,
+          p_action: usageAction,
+          p_usage_date: todayDate,
+          p_increment: 1,
+        });
+        const usageKey = `${account.account_id}:${usageAction}`;
+        remainingByKey.set(usageKey, (remainingByKey.get(usageKey) || 1) - 1);
+        sentNow++;
+      } else {
+        // Follow-up failures reuse retry_count (reset after every successful step)
+        const newRetryCount = cl.retry_count + 1;
+        failedNow++;
+        if (newRetryCount >= settings.max_retries) {
+          await supabase
+            .from('campaign_leads')
+            .update({ error: sendResult.error, retry_count: newRetryCount })
+            .eq('id', cl.id);
+          await stopLeadSequence(supabase, cl.id, 'failed');
+        } else {
+          await supabase
+            .from('campaign_leads')
+            .update({
+              error: sendResult.error,
+              retry_count: newRetryCount,
+              next_step_at: new Date(Date.now() + SEQUENCE_RETRY_DELAY_MS).toISOString(),
+            })
+            .eq('id', cl.id);
+        }
+        console.log(`${logPrefix} Step ${step.step_order} failed for lead ${cl.lead_id} (attempt ${newRetryCount}/${settings.max_retries}): ${sendResult.error}`);
+      }
+      await releaseCampaignLead(supabase, cl.id, leaseToken);
+
+      if (i < sequenceLeads.length - 1) {
+        const delaySeconds = applyJitter(baseIntervalSeconds, 10);
+        await new Promise(resolve => setTimeout(resolve, delaySeconds * 1000));
+      }
+    }
+
+    const finalStatus = await finalizeCampaignStatus(supabase, campaignId);
+    console.log(`${logPrefix} Done: sent=${sentNow}, failed=${failedNow}, stopped=${stoppedNow}, deferred=${deferredNow}, campaign=${finalStatus}`);
+    results.push({ campaignId, sentNow, failedNow, stoppedNow, deferredNow, finalStatus });
   }
+
+  return results;
 }
 
 // ============================================
@@ -330,6 +717,10 @@ serve(async (req) => {
 
     console.log(`[process-campaign-queue] Starting. workspaceId=${workspaceId || 'all'}, limit=${limit}, dryRun=${dryRun}`);
 
+    // Email campaigns go over SMTP and don't need the messaging provider
+    const unipileDsn = Deno.env.get('UNIPILE_DSN') || '';
+    const unipileApiKey = Deno.env.get('UNIPILE_API_KEY') || '';
+
     // ============================================
     // CLAIM DUE QUEUE ENTRIES (atomic)
     // ============================================
@@ -352,10 +743,18 @@ serve(async (req) => {
     if (entries.length === 0) {
       console.log('[process-campaign-queue] No due queue entries found');
       // NOTE: Triggers now handle campaign status finalization automatically
+
+      // Follow-up steps are independent of the daily queue
+      const sequence = !dryRun && unipileDsn && unipileApiKey
+        ? await processDueSequenceSteps(supabase, unipileDsn, unipileApiKey, workspaceId, limit)
+        : [];
+
       return new Response(JSON.stringify({ 
         success: true, 
-        message: 'No items to process',
+        message: sequence.length > 0 ? 'Processed follow-up steps' : 'No items to process',
         processed: [],
+        sequence,
+        dueSequenceSteps: dryRun ? await countDueSequenceSteps(supabase, workspaceId) : undefined,
         dryRun,
       }), { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -390,30 +789,18 @@ serve(async (req) => {
         dryRun: true,
         message: `Would process ${entries.length} queue entries`,
         entries: dryRunResults,
+        dueSequenceSteps: await countDueSequenceSteps(supabase, workspaceId),
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
     // ============================================
-    // GET PROVIDER CREDENTIALS
+    // CHECK PROVIDER CREDENTIALS (checked per entry: email doesn't need them)
     // ============================================
-    const unipileDsn = Deno.env.get('UNIPILE_DSN');
-    const unipileApiKey = Deno.env.get('UNIPILE_API_KEY');
-
-    if (!unipileDsn || !unipileApiKey) {
-      console.error('Messaging provider not configured');
-      // Release claimed entries
-      for (const entry of entries) {
-        await supabase
-          .from('campaign_queue')
-          .update({ status: 'queued' })
-          .eq('id', entry.queue_id);
-      }
-      return new Response(JSON.stringify({ error: 'Messaging provider not configured' }), {
-        status: 500,
-        headers: corsHeaders,
-      });
+    const providerConfigured = !!(unipileDsn && unipileApiKey);
+    if (!providerConfigured) {
+      console.warn('Messaging provider not configured - only email campaigns will be processed');
     }
 
     // ============================================
@@ -463,6 +850,16 @@ serve(async (req) => {
         continue;
       }
 
+      // Paused after the entry was queued: park it until resume replans the campaign
+      if (campaign.status === 'paused') {
+        console.log(`${logPrefix} Campaign paused, parking queue entry`);
+        await supabase
+          .from('campaign_queue')
+          .update({ status: 'paused' })
+          .eq('id', entry.queue_id);
+        continue;
+      }
+
       // Get workspace settings
       const { data: workspaceSettings } = await supabase
         .from('workspace_settings')
@@ -474,59 +871,77 @@ serve(async (req) => {
 
       const isLinkedIn = campaign.type === 'linkedin';
       const isWhatsApp = campaign.type === 'whatsapp';
+      const isEmail = campaign.type === 'email';
       const linkedinAction = campaign.linkedin_action || 'dm'; // dm | inmail | invite
       const isLinkedInInvite = isLinkedIn && linkedinAction === 'invite';
+
+      if (!isEmail && !providerConfigured) {
+        console.error(`${logPrefix} Messaging provider not configured, keeping in queue`);
+        await supabase
+          .from('campaign_queue')
+          .update({ status: 'queued' })
+          .eq('id', entry.queue_id);
+        continue;
+      }
       
-      const dailyLimit = isLinkedIn 
+      let dailyLimit = isLinkedIn 
         ? (isLinkedInInvite ? settings.linkedin_daily_invite_limit : settings.linkedin_daily_message_limit)
         : settings.daily_message_limit;
       const baseIntervalSeconds = isLinkedIn ? settings.linkedin_message_interval_seconds : settings.message_interval_seconds;
       const usageAction: UsageAction = isLinkedIn 
         ? (isLinkedInInvite ? 'linkedin_invite' : 'linkedin_message')
-        : 'whatsapp_message';
+        : isEmail ? 'email_message' : 'whatsapp_message';
 
-      // Get account (include linkedin_feature for InMail api param)
-      let unipileAccountId: string | null = null;
-      let linkedinFeature: string = 'classic';
-      
-      if (campaign.type === 'whatsapp' || campaign.type === 'linkedin') {
-        const { data: account } = await supabase
-          .from('accounts')
-          .select('account_id, status, linkedin_feature')
-          .eq('id', campaign.account_id)
-          .single();
+      // Account pool (campaign_accounts or campaigns.account_id alone), with
+      // each account's limit and today's usage
+      const todayDate = getTodayDateInTimezone(entry.workspace_timezone);
+      let pool: PoolAccount[] = [];
+
+      if (campaign.type === 'whatsapp' || campaign.type === 'linkedin' || isEmail) {
+        pool = await loadAccountPool(supabase, {
+          campaign,
+          usageAction,
+          defaultDailyLimit: dailyLimit,
+          usageDate: todayDate,
+        });
 
-        if (!account || account.status !== 'connected') {
-          console.error(`${logPrefix} Account not connected`);
+        if (pool.length === 0) {
+          console.error(`${logPrefix} No connected account in the campaign pool`);
           await supabase
             .from('campaign_queue')
             .update({ status: 'completed', processed_at: new Date().toISOString() })
             .eq('id', entry.queue_id);
           continue;
         }
-        unipileAccountId = account.account_id;
-        linkedinFeature = account.linkedin_feature || 'classic';
+        dailyLimit = poolDailyLimit(pool);
       }
 
-      // Check daily usage
-      const todayDate = getTodayDateInTimezone(entry.workspace_timezone);
-      let currentUsage = 0;
+      const currentUsage = pool.reduce((sum, account) => sum + account.used, 0);
+      const remainingCapacity = pool.length > 0 ? poolCapacity(pool) : Math.max(0, dailyLimit - currentUsage);
+      console.log(`${logPrefix} Usage: ${currentUsage}/${dailyLimit} over ${pool.length} account(s), capacity=${remainingCapacity}, queueRemaining=${remainingForQueue}`);
 
-      if (unipileAccountId) {
-        const { data: usageData } = await supabase.rpc('get_daily_usage', {
-          p_workspace_id: campaign.workspace_id,
-          p_account_id: unipileAccountId,
-          p_action: usageAction,
-          p_usage_date: todayDate,
-        });
-        currentUsage = usageData || 0;
+      if (remainingCapacity === 0) {
+        console.log(`${logPrefix} No capacity today, keeping in queue`);
+        await supabase
+          .from('campaign_queue')
+          .update({ status: 'queued' })
+          .eq('id', entry.queue_id);
+        continue;
       }
 
-      const remainingCapacity = Math.max(0, dailyLimit - currentUsage);
-      console.log(`${logPrefix} Usage: ${currentUsage}/${dailyLimit}, capacity=${remainingCapacity}, queueRemaining=${remainingForQueue}`);
+      // Sequence steps (empty for single-message campaigns)
+      const campaignSteps = await loadCampaignSteps(supabase, campaign.id);
 
-      if (remainingCapacity === 0) {
-        console.log(`${logPrefix} No capacity today, keeping in queue`);
+      // A/B variants (empty for single-message campaigns)
+      let campaignVariants = await loadCampaignVariants(supabase, campaign.id);
+      let winnerVariantId: string | null = campaign.winner_variant_id ?? null;
+
+      // Attachments: downloaded once per run, reused for every lead
+      let campaignAttachments: CampaignAttachmentFile[] = [];
+      try {
+        campaignAttachments = await loadCampaignAttachments(supabase, campaign.id);
+      } catch (attachmentError) {
+        console.error(`${logPrefix} Attachments unavailable, keeping in queue:`, attachmentError);
         await supabase
           .from('campaign_queue')
           .update({ status: 'queued' })
@@ -534,25 +949,36 @@ serve(async (req) => {
         continue;
       }
 
+      // Sending window: the claim already checked it in the workspace timezone;
+      // lead-timezone campaigns are filtered per lead below
+      const sendingWindow = await loadCampaignSendingWindow(supabase, campaign);
+      const useLeadTimezone = campaign.use_lead_timezone === true;
+      const leadTimezone = (cl: CampaignLead) =>
+        useLeadTimezone ? inferLeadTimezone(cl.lead, entry.workspace_timezone) : entry.workspace_timezone;
+
       // Get pending leads (idempotent: only leads not yet sent)
       const leadsToFetch = Math.min(remainingForQueue, remainingCapacity);
-      const { data: campaignLeads, error: leadsError } = await supabase
+      const { data: fetchedLeads, error: leadsError } = await supabase
         .from('campaign_leads')
         .select(`
           id,
           lead_id,
           status,
           retry_count,
+          variant_id,
+          account_id,
           lead:leads (
             id, full_name, first_name, last_name, email, mobile_number, phone,
-            linkedin_url, company, job_title, city, state, country, industry
+            linkedin_url, company, job_title, city, state, country, industry,
+            headline, about, seniority_level, company_size, company_industry, custom_fields,
+            personal_email, linkedin_public_identifier, company_domain, company_website
           )
         `)
         .eq('campaign_id', campaign.id)
         .or(`status.eq.pending,and(status.eq.failed,retry_count.lt.${settings.max_retries})`)
-        .limit(leadsToFetch);
+        .limit(useLeadTimezone ? leadsToFetch * LEAD_TIMEZONE_FETCH_FACTOR : leadsToFetch);
 
-      if (leadsError || !campaignLeads || campaignLeads.length === 0) {
+      if (leadsError || !fetchedLeads || fetchedLeads.length === 0) {
         console.log(`${logPrefix} No pending leads, marking completed`);
         await supabase
           .from('campaign_queue')
@@ -573,33 +999,137 @@ serve(async (req) => {
         continue;
       }
 
-      // Update campaign status to sending
+      // Do-not-contact list: entries added after the campaign was created
+      const { allowed: allowedLeads, skipped: suppressedCount } = await skipSuppressedLeads(
+        supabase,
+        campaign.workspace_id,
+        fetchedLeads as unknown as CampaignLead[]
+      );
+      if (suppressedCount > 0) {
+        console.log(`${logPrefix} Skipped ${suppressedCount} leads on the do-not-contact list`);
+      }
+
+      const campaignLeads = allowedLeads
+        .filter(cl => isWithinSendingWindow(sendingWindow, new Date(), leadTimezone(cl)))
+        .slice(0, leadsToFetch);
+
+      if (campaignLeads.length === 0) {
+        console.log(`${logPrefix} No pending lead inside its sending window, keeping in queue`);
+        await supabase
+          .from('campaign_queue')
+          .update({ status: 'queued' })
+          .eq('id', entry.queue_id);
+        continue;
+      }
+
+      // Update campaign status to sending (a pause made since the run started
+      // stays; the send loop sees it and parks the entry)
       await supabase
         .from('campaigns')
         .update({ status: 'sending' })
-        .eq('id', campaign.id);
+        .eq('id', campaign.id)
+        .neq('status', 'paused');
 
       let sentCount = 0;
       let failedCount = 0;
+      let pausedMidRun = false;
 
       // ============================================
       // SEND MESSAGES
       // ============================================
       for (let i = 0; i < campaignLeads.length; i++) {
-        const cl = campaignLeads[i] as unknown as CampaignLead;
+        const cl = campaignLeads[i];
         const lead = cl.lead;
 
+        // Pause and message edits made while the campaign runs take effect between leads
+        const live = await loadCampaignLiveState(supabase, campaign.id);
+        if (live?.status === 'paused') {
+          pausedMidRun = true;
+          console.log(`${logPrefix} Campaign paused, stopping before lead ${cl.lead_id}`);
+          break;
+        }
+        if (live && applyMessageEdit(campaign, live)) {
+          campaignVariants = await loadCampaignVariants(supabase, campaign.id);
+          console.log(`${logPrefix} Message edited, sending version ${campaign.message_version} from now on`);
+        }
+
         if (!lead) {
           failedCount++;
           continue;
         }
 
-        const personalizedMessage = replaceVariables(campaign.message, lead);
+        // The window can close during a long run: the entry stays queued for the rest
+        if (!isWithinSendingWindow(sendingWindow, new Date(), leadTimezone(cl))) {
+          console.log(`${logPrefix} Sending window closed, leaving lead ${cl.lead_id} for the next run`);
+          continue;
+        }
+
+        // Sender from the pool: the lead's previous account, else the one with most capacity left
+        const sender = pool.length > 0 ? pickPoolAccount(pool, cl.account_id) : null;
+        if (pool.length > 0 && !sender) {
+          console.log(`${logPrefix} Every account of the pool reached its daily limit, leaving lead ${cl.lead_id} for the next run`);
+          continue;
+        }
+        const unipileAccountId = sender?.accountId ?? null;
+        const linkedinFeature = sender?.linkedinFeature || 'classic';
+        const mailbox = sender?.mailbox ?? null;
+        const intervalSeconds = Math.max(
+          10,
+          Math.round((sender?.intervalSeconds ?? baseIntervalSeconds) / Math.max(1, pool.length))
+        );
+
+        // Lease on the lead: a manual send or an overlapping run skips it
+        const leaseToken = await claimCampaignLead(supabase, cl);
+        if (!leaseToken) {
+          console.log(`${logPrefix} Lead ${cl.lead_id} is being handled by another run, skipping`);
+          continue;
+        }
+        const idempotencyKey = sendIdempotencyKey(cl.id, 1);
+
+        // Sent by a run that stopped before saving the outcome: record it, never resend
+        const previousSend = await findSentAttempt(supabase, idempotencyKey);
+        if (previousSend) {
+          const sentAt = new Date(previousSend.created_at);
+          await supabase
+            .from('campaign_leads')
+            .update({
+              status: 'sent',
+              sent_at: sentAt.toISOString(),
+              error: null,
+              provider_message_id: previousSend.provider_message_id,
+              account_id: previousSend.account_id,
+              ...buildStepAdvance(campaignSteps, 1, sentAt),
+            })
+            .eq('id', cl.id);
+          await releaseCampaignLead(supabase, cl.id, leaseToken);
+          console.log(`${logPrefix} Lead ${cl.lead_id} was already sent (${idempotencyKey}), outcome recovered`);
+          continue;
+        }
+
+        const content = resolveVariantContent(campaign, campaignVariants, cl.variant_id, winnerVariantId);
+        const personalizedMessage = renderTemplate(content.message, lead, { seed: cl.id });
+        const logAttempt = (outcome: SendAttemptOutcome, error: string | null, messageId: string | null = null) =>
+          recordSendAttempt(supabase, {
+            workspaceId: campaign.workspace_id,
+            campaignId: campaign.id,
+            campaignLeadId: cl.id,
+            attempt: cl.retry_count + 1,
+            outcome,
+            error,
+            providerMessageId: messageId,
+            accountId: sender?.id ?? null,
+            channel: campaign.type,
+            action: campaignSteps[0]?.action ?? null,
+            source: 'process-campaign-queue',
+            idempotencyKey,
+            details: { usage_action: usageAction, variant_id: cl.variant_id ?? null, message_version: campaign.message_version },
+          });
 
         try {
           let sendSuccess = false;
           let sendError = '';
           let providerMessageId: string | null = null;
+          let bounced = false;
 
           if (campaign.type === 'whatsapp') {
             const phoneNumber = lead.mobile_number || lead.phone;
@@ -612,10 +1142,11 @@ serve(async (req) => {
             formData.append('account_id', unipileAccountId!);
             formData.append('text', personalizedMessage);
             formData.append('attendees_ids', `${digits}@s.whatsapp.net`);
+            appendAttachments(formData, campaignAttachments);
 
             const response = await fetch(`https://${unipileDsn}/api/v1/chats`, {
               method: 'POST',
-              headers: { 'X-API-KEY': unipileApiKey, 'Accept': 'application/json' },
+              headers: { 'X-API-KEY': unipileApiKey, [IDEMPOTENCY_HEADER]: idempotencyKey, 'Accept': 'application/json' },
               body: formData,
             });
 
@@ -665,6 +1196,7 @@ serve(async (req) => {
                 method: 'POST',
                 headers: {
                   'X-API-KEY': unipileApiKey,
+                  [IDEMPOTENCY_HEADER]: idempotencyKey,
                   'Accept': 'application/json',
                   'Content-Type': 'application/json',
                 },
@@ -696,7 +1228,7 @@ serve(async (req) => {
 
               const response = await fetch(`https://${unipileDsn}/api/v1/chats`, {
                 method: 'POST',
-                headers: { 'X-API-KEY': unipileApiKey, 'Accept': 'application/json' },
+                headers: { 'X-API-KEY': unipileApiKey, [IDEMPOTENCY_HEADER]: idempotencyKey, 'Accept': 'application/json' },
                 body: formData,
               });
 
@@ -717,10 +1249,11 @@ serve(async (req) => {
               formData.append('text', personalizedMessage);
               formData.append('attendees_ids', providerId);
               formData.append('linkedin[api]', apiValue);
+              appendAttachments(formData, campaignAttachments);
 
               const response = await fetch(`https://${unipileDsn}/api/v1/chats`, {
                 method: 'POST',
-                headers: { 'X-API-KEY': unipileApiKey, 'Accept': 'application/json' },
+                headers: { 'X-API-KEY': unipileApiKey, [IDEMPOTENCY_HEADER]: idempotencyKey, 'Accept': 'application/json' },
                 body: formData,
               });
 
@@ -740,22 +1273,52 @@ serve(async (req) => {
                 }
               }
             }
+          } else if (isEmail) {
+            if (!lead.email) throw new Error('No email address');
+
+            try {
+              const sent = await sendSmtpMail(mailbox!.smtp, {
+                from: mailbox!.address,
+                fromName: mailbox!.fromName,
+                to: lead.email,
+                subject: renderTemplate(content.subject || '', lead, { seed: `${cl.id}:subject` }),
+                text: personalizedMessage,
+                headers: { [CAMPAIGN_LEAD_HEADER]: cl.id },
+                messageId: idempotentMessageId(idempotencyKey, mailbox!.address),
+              });
+              sendSuccess = true;
+              providerMessageId = sent.messageId;
+            } catch (smtpError) {
+              // Permanent recipient rejection: mark as bounced, no retry
+              if (smtpError instanceof SmtpError && smtpError.isBounce) {
+                bounced = true;
+                sendError = smtpError.message;
+              } else {
+                throw smtpError;
+              }
+            }
           }
 
           if (sendSuccess) {
+            await logAttempt('sent', null, providerMessageId);
+            const sentAt = new Date();
             await supabase
               .from('campaign_leads')
               .update({
                 status: 'sent',
-                sent_at: new Date().toISOString(),
+                sent_at: sentAt.toISOString(),
                 error: null,
                 provider_message_id: providerMessageId,
+                account_id: sender?.id ?? null,
+                message_version: campaign.message_version,
+                ...buildStepAdvance(campaignSteps, 1, sentAt),
               })
               .eq('id', cl.id);
             sentCount++;
 
-            // Increment usage
-            if (unipileAccountId) {
+            // Increment usage on the sender account
+            if (sender && unipileAccountId) {
+              sender.used++;
               await supabase.rpc('increment_daily_usage', {
                 p_workspace_id: campaign.workspace_id,
                 p_account_id: unipileAccountId,
@@ -764,7 +1327,21 @@ serve(async (req) => {
                 p_increment: 1,
               });
             }
+
+            // A/B test: promote the best variant once enough leads were reached
+            if (campaignVariants.length > 0 && !winnerVariantId && campaign.variant_promote_after) {
+              winnerVariantId = await autoPromoteVariant(supabase, campaign.id);
+              if (winnerVariantId) {
+                console.log(`${logPrefix} Variant ${winnerVariantId} promoted as winner`);
+              }
+            }
+          } else if (bounced) {
+            await logAttempt('bounced', sendError);
+            await markCampaignLeadBounced(supabase, cl.id, sendError, { source: 'smtp' });
+            failedCount++;
+            console.log(`${logPrefix} Lead ${cl.lead_id} bounced: ${sendError}`);
           } else {
+            await logAttempt('failed', sendError);
             const newRetryCount = cl.retry_count + 1;
             const willRetry = newRetryCount < settings.max_retries;
             await supabase
@@ -781,11 +1358,12 @@ serve(async (req) => {
 
           // Delay between messages
           if (i < campaignLeads.length - 1) {
-            const delaySeconds = applyJitter(baseIntervalSeconds, 10);
+            const delaySeconds = applyJitter(intervalSeconds, 10);
             await new Promise(resolve => setTimeout(resolve, delaySeconds * 1000));
           }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          await logAttempt('failed', errorMessage);
           const newRetryCount = cl.retry_count + 1;
           const willRetry = newRetryCount < settings.max_retries;
           await supabase
@@ -798,6 +1376,8 @@ serve(async (req) => {
             .eq('id', cl.id);
           failedCount++;
           console.error(`${logPrefix} Lead ${cl.lead_id} exception:`, errorMessage);
+        } finally {
+          await releaseCampaignLead(supabase, cl.id, leaseToken);
         }
       }
 
@@ -808,7 +1388,7 @@ serve(async (req) => {
       await supabase
         .from('campaign_queue')
         .update({
-          status: queueCompleted ? 'completed' : 'queued',
+          status: queueCompleted ? 'completed' : pausedMidRun ? 'paused' : 'queued',
           leads_sent: newLeadsSent,
           processed_at: queueCompleted ? new Date().toISOString() : null,
         })
@@ -836,9 +1416,17 @@ serve(async (req) => {
       });
     }
 
+    // ============================================
+    // PROCESS DUE FOLLOW-UP STEPS
+    // ============================================
+    const sequenceResults = providerConfigured
+      ? await processDueSequenceSteps(supabase, unipileDsn, unipileApiKey, workspaceId, limit)
+      : [];
+
     return new Response(JSON.stringify({
       success: true,
       processed: processResults,
+      sequence: sequenceResults,
       totalClaimed: entries.length,
       dryRun: false,
     }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
@@ -0,0 +1,113 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { fetchNewMessages, loadMailbox } from "../_shared/emailClient.ts";
+import { applyBounce, parseBounce } from "../_shared/emailBounces.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_MESSAGES_PER_MAILBOX = 100;
+
+interface MailboxResult {
+  accountId: string;
+  address: string;
+  scanned: number;
+  bounces: number;
+  matched: number;
+  error?: string;
+}
+
+/**
+ * Polls the INBOX of every connected mailbox with IMAP configured and turns
+ * delivery failure notifications into campaign_leads.status = 'bounced'.
+ * Meant to run on a schedule, like process-campaign-queue.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const workspaceId: string | null = body?.workspaceId ?? null;
+
+    let query = supabase
+      .from('accounts')
+      .select('id, workspace_id, account_id, credentials:email_account_credentials!inner ( imap_host )')
+      .eq('channel', 'email')
+      .eq('status', 'connected')
+      .not('credentials.imap_host', 'is', null);
+    if (workspaceId) query = query.eq('workspace_id', workspaceId);
+
+    const { data: accounts, error: accountsError } = await query;
+
+    if (accountsError) {
+      console.error('[process-email-bounces] Error fetching mailboxes:', accountsError);
+      return new Response(JSON.stringify({ error: 'Failed to fetch mailboxes' }), { status: 500, headers: corsHeaders });
+    }
+
+    const results: MailboxResult[] = [];
+
+    for (const account of accounts || []) {
+      const mailbox = await loadMailbox(supabase, account.id);
+      if (!mailbox?.imap) continue;
+
+      const result: MailboxResult = { accountId: account.id, address: mailbox.address, scanned: 0, bounces: 0, matched: 0 };
+
+      try {
+        const messages = await fetchNewMessages(mailbox.imap, mailbox.imapLastUid, MAX_MESSAGES_PER_MAILBOX);
+        result.scanned = messages.length;
+
+        for (const message of messages) {
+          const bounce = parseBounce(message.raw);
+          if (!bounce) continue;
+          result.bounces++;
+
+          const campaignLeadId = await applyBounce(supabase, bounce, {
+            workspaceId: account.workspace_id,
+            accountId: account.id,
+          });
+          if (campaignLeadId) {
+            result.matched++;
+            console.log(`[process-email-bounces] ${mailbox.address}: campaign_lead ${campaignLeadId} bounced (${bounce.status || 'no status'})`);
+          }
+        }
+
+        const lastUid = messages.length > 0 ? messages[messages.length - 1].uid : mailbox.imapLastUid;
+        await supabase
+          .from('email_account_credentials')
+          .update({ imap_last_uid: lastUid, imap_checked_at: new Date().toISOString(), imap_error: null })
+          .eq('account_id', account.id);
+      } catch (err) {
+        const error = err as Error;
+        console.error(`[process-email-bounces] ${mailbox.address}: IMAP error:`, error.message);
+        result.error = error.message;
+        await supabase
+          .from('email_account_credentials')
+          .update({ imap_checked_at: new Date().toISOString(), imap_error: error.message })
+          .eq('account_id', account.id);
+      }
+
+      results.push(result);
+    }
+
+    console.log(`[process-email-bounces] Checked ${results.length} mailboxes`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      mailboxes: results,
+    }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  } catch (err) {
+    const error = err as Error;
+    console.error('[process-email-bounces] Error:', error);
+    return new Response(JSON.stringify({ error: error.message }), { status: 500, headers: corsHeaders });
+  }
+});
@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  failLeadImportJob,
+  processLeadImportJob,
+  type LeadImportJobRow,
+} from "../_shared/leadImportJob.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Rows per job per run; the next run resumes from processed_rows
+const ROWS_PER_RUN = 5000;
+
+// Jobs per run, oldest first
+const JOBS_PER_RUN = 3;
+
+// Claim on a job while a run works on it; an expired claim is picked up again
+const JOB_LEASE_SECONDS = 300;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  try {
+    // Optional { jobId } to run a single import; the scheduler sends no body
+    const body = await req.json().catch(() => ({}));
+    console.log(`Processing lead imports at ${new Date().toISOString()}${body?.jobId ? ` (job ${body.jobId})` : ''}`);
+
+    // ============================================
+    // GET PENDING IMPORTS
+    // ============================================
+    let query = supabase
+      .from('lead_import_jobs')
+      .select('*')
+      .in('status', ['pending', 'processing'])
+      .order('created_at', { ascending: true })
+      .limit(JOBS_PER_RUN);
+    if (body?.jobId) {
+      query = query.eq('id', body.jobId);
+    }
+
+    const { data: jobs, error: fetchError } = await query;
+    if (fetchError) {
+      console.error('Error fetching lead imports:', fetchError);
+      return new Response(JSON.stringify({ error: 'Failed to fetch lead imports' }), {
+        status: 500,
+        headers: corsHeaders
+      });
+    }
+
+    const results: { jobId: string; processedRows: number; totalRows: number; skipped?: string; error?: string }[] = [];
+
+    for (const job of (jobs || []) as LeadImportJobRow[]) {
+      // ============================================
+      // CLAIM: one run per job at a time
+      // ============================================
+      const now = new Date();
+      const { data: claimed } = await supabase
+        .from('lead_import_jobs')
+        .update({ locked_until: new Date(now.getTime() + JOB_LEASE_SECONDS * 1000).toISOString() })
+        .eq('id', job.id)
+        .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+        .select('id');
+
+      if (!claimed || claimed.length === 0) {
+        results.push({ jobId: job.id, processedRows: job.processed_rows, totalRows: job.total_rows, skipped: 'locked' });
+        continue;
+      }
+
+      try {
+        const updated = await processLeadImportJob(supabase, job, ROWS_PER_RUN);
+        if (updated.processed_rows < updated.total_rows) {
+          await supabase.from('lead_import_jobs').update({ locked_until: null }).eq('id', job.id);
+        }
+        console.log(`Lead import ${job.id}: ${updated.processed_rows}/${updated.total_rows} rows (+${updated.created_count} created, ${updated.updated_count} updated, ${updated.skipped_count} skipped)`);
+        results.push({ jobId: job.id, processedRows: updated.processed_rows, totalRows: updated.total_rows });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Error processing lead import ${job.id}:`, errorMessage);
+        await failLeadImportJob(supabase, job.id, errorMessage);
+        results.push({ jobId: job.id, processedRows: job.processed_rows, totalRows: job.total_rows, error: errorMessage });
+      }
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      processedCount: results.length,
+      results,
+    }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  } catch (err) {
+    const error = err as Error;
+    console.error('Error in process-lead-imports:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: corsHeaders
+    });
+  }
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildSendingWindow, isWithinSendingWindow } from "../_shared/sendingWindow.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -25,7 +26,7 @@ serve(async (req) => {
     // ============================================
     const { data: scheduledCampaigns, error: fetchError } = await supabase
       .from('campaigns')
-      .select('id, name, workspace_id, type, schedule')
+      .select('id, name, workspace_id, type, schedule, send_window_days, send_window_start, send_window_end, skip_holidays, use_lead_timezone, workspace:workspaces ( timezone )')
       .eq('status', 'scheduled')
       .lte('schedule', now);
 
@@ -50,9 +51,32 @@ serve(async (req) => {
 
     console.log(`Found ${scheduledCampaigns.length} scheduled campaigns to trigger`);
 
-    const results: { campaignId: string; name: string; triggered: boolean; error?: string }[] = [];
+    const results: { campaignId: string; name: string; triggered: boolean; skipped?: string; error?: string }[] = [];
 
     for (const campaign of scheduledCampaigns) {
+      // ============================================
+      // SENDING WINDOW: wait (stay scheduled) until it opens
+      // ============================================
+      // Lead-timezone campaigns start right away; send-campaign checks each lead
+      if (!campaign.use_lead_timezone) {
+        let holidays: string[] = [];
+        if (campaign.skip_holidays) {
+          const { data: holidayRows } = await supabase
+            .from('workspace_holidays')
+            .select('holiday_date')
+            .eq('workspace_id', campaign.workspace_id);
+          holidays = (holidayRows || []).map((h: { holiday_date: string }) => h.holiday_date);
+        }
+        const workspace = campaign.workspace as unknown as { timezone: string | null } | null;
+        const timezone = workspace?.timezone || 'UTC';
+
+        if (!isWithinSendingWindow(buildSendingWindow(campaign, holidays), new Date(), timezone)) {
+          console.log(`Campaign ${campaign.id} is outside its sending window (${timezone}), keeping scheduled`);
+          results.push({ campaignId: campaign.id, name: campaign.name, triggered: false, skipped: 'outside_sending_window' });
+          continue;
+        }
+      }
+
       console.log(`Triggering campaign ${campaign.id}: ${campaign.name}`);
 
       try {
@@ -114,12 +138,14 @@ serve(async (req) => {
     }
 
     const successCount = results.filter(r => r.triggered).length;
-    console.log(`Processed ${results.length} campaigns, ${successCount} triggered successfully`);
+    const waitingCount = results.filter(r => r.skipped).length;
+    console.log(`Processed ${results.length} campaigns, ${successCount} triggered successfully, ${waitingCount} waiting for their sending window`);
 
     return new Response(JSON.stringify({
       success: true,
       processedCount: results.length,
       successCount,
+      waitingCount,
       results,
     }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
 
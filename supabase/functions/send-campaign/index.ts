@@ -1,36 +1,46 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildStepAdvance, loadCampaignSteps } from "../_shared/campaignSteps.ts";
+import { sendSmtpMail, SmtpError } from "../_shared/emailClient.ts";
+import { CAMPAIGN_LEAD_HEADER, markCampaignLeadBounced } from "../_shared/emailBounces.ts";
+import { autoPromoteVariant, loadCampaignVariants, resolveVariantContent } from "../_shared/campaignVariants.ts";
+import { renderTemplate } from "../_shared/templateEngine.ts";
+import {
+  buildSendingWindow,
+  formatWindowTime,
+  getLocalDateTime,
+  getNextWindowOpening,
+  isWithinSendingWindow,
+  planQueueDays,
+  addDaysToDate,
+} from "../_shared/sendingWindow.ts";
+import { inferLeadTimezone } from "../_shared/leadTimezone.ts";
+import { extractLinkedInPublicIdentifier } from "../_shared/linkedinUrl.ts";
+import {
+  loadAccountPool,
+  pickPoolAccount,
+  poolCapacity,
+  poolDailyLimit,
+  type PoolAccount,
+} from "../_shared/accountPool.ts";
+import { skipSuppressedLeads } from "../_shared/suppressionList.ts";
+import { recordSendAttempt, type SendAttemptOutcome } from "../_shared/sendAttempts.ts";
+import { appendAttachments, loadCampaignAttachments, type CampaignAttachmentFile } from "../_shared/campaignAttachments.ts";
+import { applyMessageEdit, loadCampaignLiveState } from "../_shared/campaignLiveState.ts";
+import {
+  claimCampaignLead,
+  findSentAttempt,
+  IDEMPOTENCY_HEADER,
+  idempotentMessageId,
+  releaseCampaignLead,
+  sendIdempotencyKey,
+} from "../_shared/sendLease.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Message variable replacement (duplicated from frontend for edge function use)
-const MESSAGE_VARIABLES = [
-  { variable: '{{nome}}', field: 'full_name' },
-  { variable: '{{primeiro_nome}}', field: 'first_name' },
-  { variable: '{{sobrenome}}', field: 'last_name' },
-  { variable: '{{email}}', field: 'email' },
-  { variable: '{{celular}}', field: 'mobile_number' },
-  { variable: '{{empresa}}', field: 'company' },
-  { variable: '{{cargo}}', field: 'job_title' },
-  { variable: '{{cidade}}', field: 'city' },
-  { variable: '{{estado}}', field: 'state' },
-  { variable: '{{pais}}', field: 'country' },
-  { variable: '{{linkedin}}', field: 'linkedin_url' },
-  { variable: '{{industria}}', field: 'industry' },
-];
-
-function replaceVariables(message: string, lead: Record<string, any>): string {
-  let result = message;
-  for (const { variable, field } of MESSAGE_VARIABLES) {
-    const value = lead[field];
-    result = result.split(variable).join(value ? String(value) : '');
-  }
-  return result;
-}
-
 // Apply jitter to interval (±20% randomization)
 function applyJitter(baseSeconds: number, minSeconds: number = 10): number {
   const jitterFactor = 0.8 + Math.random() * 0.4; // 0.8 to 1.2
@@ -43,48 +53,12 @@ function getTodayDate(): string {
   return new Date().toISOString().split('T')[0];
 }
 
-// Get tomorrow's date string in YYYY-MM-DD format
-function getTomorrowDate(): string {
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  return tomorrow.toISOString().split('T')[0];
-}
-
-// Get next day at 09:00 in specified timezone (fallback to UTC)
-function getNextDayAt9AM(timezone: string = 'UTC'): string {
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  
-  try {
-    // Create a date string for tomorrow at 09:00 in the target timezone
-    const formatter = new Intl.DateTimeFormat('en-CA', {
-      timeZone: timezone,
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-    });
-    const parts = formatter.formatToParts(tomorrow);
-    const year = parts.find(p => p.type === 'year')?.value;
-    const month = parts.find(p => p.type === 'month')?.value;
-    const day = parts.find(p => p.type === 'day')?.value;
-    
-    // Return ISO string with 09:00 in the target timezone
-    return `${year}-${month}-${day}T09:00:00`;
-  } catch {
-    // Fallback to UTC if timezone is invalid
-    console.warn(`Invalid timezone: ${timezone}, falling back to UTC`);
-  }
-  
-  // Default: 09:00 UTC
-  tomorrow.setUTCHours(9, 0, 0, 0);
-  return tomorrow.toISOString();
-}
-
 interface CampaignLead {
   id: string;
   lead_id: string;
   status: string;
   retry_count: number;
+  account_id: string | null;
   lead: {
     id: string;
     full_name: string | null;
@@ -100,6 +74,17 @@ interface CampaignLead {
     state: string | null;
     country: string | null;
     industry: string | null;
+    headline: string | null;
+    about: string | null;
+    seniority_level: string | null;
+    company_size: string | null;
+    company_industry: string | null;
+    custom_fields: Record<string, unknown> | null;
+    // Matched against the do-not-contact list
+    personal_email: string | null;
+    linkedin_public_identifier: string | null;
+    company_domain: string | null;
+    company_website: string | null;
   };
 }
 
@@ -126,19 +111,34 @@ const DEFAULT_SETTINGS: WorkspaceSettings = {
 };
 
 // Action types for usage tracking
-type UsageAction = 'linkedin_message' | 'linkedin_invite' | 'whatsapp_message';
+type UsageAction = 'linkedin_message' | 'linkedin_invite' | 'whatsapp_message' | 'email_message';
 
 // ============================================
 // HELPER: Finalize Campaign Status (Source of Truth)
 // ============================================
 // Rules:
+// 0. A paused campaign stays paused (resume_campaign decides what comes next),
+//    also when the pause happens while this runs
 // 1. If any campaign_queue entry exists with status='queued' and leads_sent < leads_to_send => 'queued'
 // 2. If any campaign_leads with status='pending' => 'queued' (work remaining)
-// 3. Otherwise => 'completed'
+// 3. If any campaign_leads still has a follow-up step scheduled => 'running'
+// 4. Otherwise => 'completed'
 async function finalizeCampaignStatus(supabaseClient: any, campaignId: string): Promise<string> {
   console.log(`[finalizeCampaignStatus] START - campaignId=${campaignId}`);
   
   try {
+    // Step 0: Paused campaigns keep their status. Every update below also
+    // filters out 'paused', so a pause landing after this read is not overwritten.
+    const { data: current } = await supabaseClient
+      .from('campaigns')
+      .select('status')
+      .eq('id', campaignId)
+      .maybeSingle();
+    if (current?.status === 'paused') {
+      console.log(`[finalizeCampaignStatus] Campaign ${campaignId} is paused -> status stays 'paused'`);
+      return 'paused';
+    }
+
     // Step 1: Check for pending queue entries
     const { data: queueEntries, error: queueError } = await supabaseClient
       .from('campaign_queue')
@@ -160,7 +160,8 @@ async function finalizeCampaignStatus(supabaseClient: any, campaignId: string):
       const { error: updateError } = await supabaseClient
         .from('campaigns')
         .update({ status: 'queued', updated_at: new Date().toISOString() })
-        .eq('id', campaignId);
+        .eq('id', campaignId)
+        .neq('status', 'paused');
       if (updateError) {
         console.error(`[finalizeCampaignStatus] UPDATE ERROR:`, updateError);
       } else {
@@ -186,7 +187,8 @@ async function finalizeCampaignStatus(supabaseClient: any, campaignId: string):
       const { error: updateError } = await supabaseClient
         .from('campaigns')
         .update({ status: 'queued', updated_at: new Date().toISOString() })
-        .eq('id', campaignId);
+        .eq('id', campaignId)
+        .neq('status', 'paused');
       if (updateError) {
         console.error(`[finalizeCampaignStatus] UPDATE ERROR:`, updateError);
       } else {
@@ -195,13 +197,39 @@ async function finalizeCampaignStatus(supabaseClient: any, campaignId: string):
       return 'queued';
     }
     
-    // Step 3: No pending work -> completed
+    // Step 3: Check for leads with follow-up steps still scheduled
+    const { count: activeSequenceCount, error: sequenceError } = await supabaseClient
+      .from('campaign_leads')
+      .select('id', { count: 'exact', head: true })
+      .eq('campaign_id', campaignId)
+      .eq('sequence_status', 'active')
+      .not('next_step_at', 'is', null);
+    
+    if (sequenceError) {
+      console.error(`[finalizeCampaignStatus] Error checking active sequences:`, sequenceError);
+    }
+    
+    if (activeSequenceCount && activeSequenceCount > 0) {
+      console.log(`[finalizeCampaignStatus] Campaign ${campaignId} has ${activeSequenceCount} leads awaiting follow-up steps -> status will be 'running'`);
+      const { error: updateError } = await supabaseClient
+        .from('campaigns')
+        .update({ status: 'running', updated_at: new Date().toISOString() })
+        .eq('id', campaignId)
+        .neq('status', 'paused');
+      if (updateError) {
+        console.error(`[finalizeCampaignStatus] UPDATE ERROR:`, updateError);
+      }
+      return 'running';
+    }
+    
+    // Step 4: No pending work -> completed
     console.log(`[finalizeCampaignStatus] Campaign ${campaignId} has no pending work -> status will be 'completed'`);
     console.log(`[finalizeCampaignStatus] BEFORE UPDATE: campaignId=${campaignId}, newStatus='completed'`);
     const { error: updateError } = await supabaseClient
       .from('campaigns')
       .update({ status: 'completed', updated_at: new Date().toISOString() })
-      .eq('id', campaignId);
+      .eq('id', campaignId)
+      .neq('status', 'paused');
     if (updateError) {
       console.error(`[finalizeCampaignStatus] UPDATE ERROR:`, updateError);
     } else {
@@ -215,7 +243,8 @@ async function finalizeCampaignStatus(supabaseClient: any, campaignId: string):
       await supabaseClient
         .from('campaigns')
         .update({ status: 'queued', updated_at: new Date().toISOString() })
-        .eq('id', campaignId);
+        .eq('id', campaignId)
+        .neq('status', 'paused');
       console.log(`[finalizeCampaignStatus] Fallback: set campaignId=${campaignId} to 'queued' after exception`);
     } catch (e2) {
       console.error(`[finalizeCampaignStatus] Fallback update also failed:`, e2);
@@ -224,6 +253,33 @@ async function finalizeCampaignStatus(supabaseClient: any, campaignId: string):
   }
 }
 
+// A replan (resume, leads added mid-flight) with nothing left to send drops the
+// old queue days and settles the status, instead of leaving the campaign
+// 'queued' with no work
+async function settleReplanWithoutLeads(serviceClient: any, campaignId: string, suppressedCount: number): Promise<Response> {
+  const { error: clearError } = await serviceClient
+    .from('campaign_queue')
+    .delete()
+    .eq('campaign_id', campaignId)
+    .in('status', ['queued', 'paused']);
+  if (clearError) {
+    console.error('Error clearing queue entries for replan:', clearError);
+  }
+  const finalStatus = await finalizeCampaignStatus(serviceClient, campaignId);
+  console.log(`Campaign ${campaignId}: replan found no leads to send, status: ${finalStatus}`);
+  return new Response(JSON.stringify({
+    success: true,
+    campaignId,
+    status: finalStatus,
+    finalStatus,
+    sentCount: 0,
+    failedCount: 0,
+    deferredCount: 0,
+    suppressedCount,
+    results: [],
+  }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -240,26 +296,41 @@ serve(async (req) => {
       return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: corsHeaders });
     }
 
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL')!,
-      Deno.env.get('SUPABASE_ANON_KEY')!,
-      { global: { headers: { Authorization: authHeader } } }
-    );
-
     // Service client for privileged ops (bypasses RLS)
     serviceClient = createClient(
       Deno.env.get('SUPABASE_URL')!,
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     );
 
+    // Trusted path: scheduled jobs (enroll-dynamic-campaigns) replan with the
+    // service role key. There is no user, so the user and member checks are skipped.
     const token = authHeader.replace('Bearer ', '');
-    const { data: claimsData, error: claimsError } = await supabase.auth.getUser(token);
-    if (claimsError || !claimsData.user) {
-      return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: corsHeaders });
+    const isServiceCall = token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    const supabase = isServiceCall ? serviceClient : createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    let userId: string | null = null;
+    if (!isServiceCall) {
+      const { data: claimsData, error: claimsError } = await supabase.auth.getUser(token);
+      if (claimsError || !claimsData.user) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: corsHeaders });
+      }
+      userId = claimsData.user.id;
     }
 
     const body = await req.json();
     campaignId = body?.campaignId ?? null;
+    // Resume / leads added mid-flight: drop the planned queue days and plan again from today
+    const replan = body?.replan === true;
+
+    // The service path only replans launched campaigns; sending is started by users
+    if (isServiceCall && !replan) {
+      return new Response(JSON.stringify({ error: 'Service calls can only replan a campaign' }), { status: 403, headers: corsHeaders });
+    }
 
     if (!campaignId) {
       return new Response(JSON.stringify({ error: 'Campaign ID is required' }), { status: 400, headers: corsHeaders });
@@ -280,15 +351,21 @@ serve(async (req) => {
     }
 
     // Verify user has access to workspace (RLS should handle this, but double-check)
-    const { data: memberCheck } = await supabase
-      .from('workspace_members')
-      .select('id')
-      .eq('workspace_id', campaign.workspace_id)
-      .eq('user_id', claimsData.user.id)
-      .single();
+    if (!isServiceCall) {
+      const { data: memberCheck } = await supabase
+        .from('workspace_members')
+        .select('id')
+        .eq('workspace_id', campaign.workspace_id)
+        .eq('user_id', userId)
+        .single();
+
+      if (!memberCheck) {
+        return new Response(JSON.stringify({ error: 'Access denied to this campaign' }), { status: 403, headers: corsHeaders });
+      }
+    }
 
-    if (!memberCheck) {
-      return new Response(JSON.stringify({ error: 'Access denied to this campaign' }), { status: 403, headers: corsHeaders });
+    if (campaign.status === 'paused') {
+      return new Response(JSON.stringify({ error: 'Campaign is paused. Resume it before sending.' }), { status: 409, headers: corsHeaders });
     }
 
     // ============================================
@@ -303,6 +380,21 @@ serve(async (req) => {
     const workspaceTimezone = workspace?.timezone || 'UTC';
     console.log(`Workspace timezone: ${workspaceTimezone}`);
 
+    // ============================================
+    // SENDING WINDOW (days, hours, holidays)
+    // ============================================
+    let holidays: string[] = [];
+    if (campaign.skip_holidays) {
+      const { data: holidayRows } = await supabase
+        .from('workspace_holidays')
+        .select('holiday_date')
+        .eq('workspace_id', campaign.workspace_id);
+      holidays = (holidayRows || []).map((h: { holiday_date: string }) => h.holiday_date);
+    }
+    const sendingWindow = buildSendingWindow(campaign, holidays);
+    const useLeadTimezone = campaign.use_lead_timezone === true;
+    const localToday = getLocalDateTime(new Date(), workspaceTimezone).date;
+
     // ============================================
     // GET WORKSPACE SETTINGS (including LinkedIn)
     // ============================================
@@ -322,11 +414,13 @@ serve(async (req) => {
     // ============================================
     const isLinkedIn = campaign.type === 'linkedin';
     const isWhatsApp = campaign.type === 'whatsapp';
+    const isEmail = campaign.type === 'email';
     const linkedinAction = campaign.linkedin_action || 'dm'; // dm | inmail | invite
     const isLinkedInInvite = isLinkedIn && linkedinAction === 'invite';
     
     // Use invite limit for invite action, message limit for dm/inmail
-    const dailyLimit = isLinkedIn 
+    // Each account of the pool may override the limit with its own (see account pool below)
+    let dailyLimit = isLinkedIn 
       ? (isLinkedInInvite ? settings.linkedin_daily_invite_limit : settings.linkedin_daily_message_limit) 
       : settings.daily_message_limit;
     const baseIntervalSeconds = isLinkedIn ? settings.linkedin_message_interval_seconds : settings.message_interval_seconds;
@@ -335,88 +429,87 @@ serve(async (req) => {
     // Determine usage action type
     const usageAction: UsageAction = isLinkedIn 
       ? (isLinkedInInvite ? 'linkedin_invite' : 'linkedin_message') 
-      : isWhatsApp ? 'whatsapp_message' : 'whatsapp_message';
-
-    console.log(`Using ${isLinkedIn ? `LinkedIn (${linkedinAction})` : 'WhatsApp'} settings: ${dailyLimit}/day, ${baseIntervalSeconds}s base interval (with ±20% jitter)`);
+      : isEmail ? 'email_message' : 'whatsapp_message';
 
     // ============================================
-    // GET MESSAGING PROVIDER CREDENTIALS
+    // GET MESSAGING PROVIDER CREDENTIALS (not used by email, which goes over SMTP)
     // ============================================
-    const unipileDsn = Deno.env.get('UNIPILE_DSN');
-    const unipileApiKey = Deno.env.get('UNIPILE_API_KEY');
+    const unipileDsn = Deno.env.get('UNIPILE_DSN') || '';
+    const unipileApiKey = Deno.env.get('UNIPILE_API_KEY') || '';
 
-    if (!unipileDsn || !unipileApiKey) {
+    if (!isEmail && (!unipileDsn || !unipileApiKey)) {
       console.error('Messaging provider not configured');
       return new Response(JSON.stringify({ error: 'Messaging provider not configured' }), { status: 500, headers: corsHeaders });
     }
 
     // ============================================
-    // VALIDATE ACCOUNT FOR WHATSAPP/LINKEDIN CAMPAIGNS
+    // LOAD ACCOUNT POOL FOR WHATSAPP/LINKEDIN/EMAIL CAMPAIGNS
     // ============================================
-    // Variable naming convention:
-    // - internalAccountUuid: Internal UUID from accounts.id (for DB references)
-    // - unipileAccountId: Unipile's account ID from accounts.account_id (for API calls & usage tracking)
-    let internalAccountUuid: string | null = null;
-    let unipileAccountId: string | null = null;
+    // The pool is campaign_accounts (or campaigns.account_id alone). Each account
+    // carries its own daily limit and today's usage; email accounts also carry
+    // their SMTP mailbox. account.accountId is the provider ID / mailbox address
+    // (API calls & usage tracking), account.id the internal UUID (DB references).
+    const todayDate = getTodayDate();
+    let pool: PoolAccount[] = [];
 
-    if (campaign.type === 'whatsapp' || campaign.type === 'linkedin') {
+    if (campaign.type === 'whatsapp' || campaign.type === 'linkedin' || isEmail) {
       if (!campaign.account_id) {
-        return new Response(JSON.stringify({ error: 'Account is required for WhatsApp/LinkedIn campaigns' }), { status: 400, headers: corsHeaders });
+        return new Response(JSON.stringify({ error: 'Account is required for WhatsApp/LinkedIn/Email campaigns' }), { status: 400, headers: corsHeaders });
       }
 
-      // Verify account belongs to workspace (campaign.account_id stores the internal UUID)
-      // Include linkedin_feature for InMail API parameter
-      const { data: account, error: accountError } = await supabase
-        .from('accounts')
-        .select('id, account_id, status, linkedin_feature')
-        .eq('id', campaign.account_id)
-        .eq('workspace_id', campaign.workspace_id)
-        .single();
-
-      if (accountError || !account) {
-        console.error('Account not found or unauthorized:', accountError);
-        return new Response(JSON.stringify({ error: 'Invalid or unauthorized account' }), { status: 400, headers: corsHeaders });
-      }
+      pool = await loadAccountPool(serviceClient, {
+        campaign,
+        usageAction,
+        defaultDailyLimit: dailyLimit,
+        usageDate: todayDate,
+      });
 
-      if (account.status !== 'connected') {
-        return new Response(JSON.stringify({ error: 'Account is not connected. Please reconnect.' }), { status: 400, headers: corsHeaders });
+      if (pool.length === 0) {
+        return new Response(JSON.stringify({ error: 'No connected account available for this campaign. Please reconnect.' }), { status: 400, headers: corsHeaders });
       }
 
-      internalAccountUuid = account.id; // Internal UUID (for DB references)
-      unipileAccountId = account.account_id; // Unipile account ID (for API calls & usage tracking)
-      
-      // Store linkedin_feature for InMail api parameter
-      if (isLinkedIn) {
-        (campaign as any)._linkedinFeature = account.linkedin_feature || 'classic';
-      }
+      dailyLimit = poolDailyLimit(pool);
     }
 
+    console.log(`Using ${isLinkedIn ? `LinkedIn (${linkedinAction})` : isEmail ? 'Email' : 'WhatsApp'} settings: ${pool.length} account(s), ${dailyLimit}/day, ${baseIntervalSeconds}s base interval (with ±20% jitter)`);
+
     // ============================================
-    // CHECK CURRENT DAILY USAGE
+    // LOAD SEQUENCE STEPS (empty for single-message campaigns)
     // ============================================
-    const todayDate = getTodayDate();
-    let currentUsage = 0;
-
-    if (unipileAccountId) {
-      const { data: usageData, error: usageError } = await serviceClient
-        .rpc('get_daily_usage', {
-          p_workspace_id: campaign.workspace_id,
-          p_account_id: unipileAccountId,
-          p_action: usageAction,
-          p_usage_date: todayDate,
-        });
+    const campaignSteps = await loadCampaignSteps(serviceClient, campaignId);
 
-      if (usageError) {
-        console.error('Error fetching daily usage:', usageError);
-      } else {
-        currentUsage = usageData || 0;
-      }
-      
-      console.log(`Current daily usage for ${usageAction}: ${currentUsage}/${dailyLimit}`);
+    // ============================================
+    // LOAD A/B VARIANTS (empty for single-message campaigns)
+    // ============================================
+    let campaignVariants = await loadCampaignVariants(serviceClient, campaignId);
+    let winnerVariantId: string | null = campaign.winner_variant_id ?? null;
+
+    // ============================================
+    // LOAD ATTACHMENTS (downloaded once, reused for every lead)
+    // ============================================
+    let campaignAttachments: CampaignAttachmentFile[] = [];
+    try {
+      campaignAttachments = await loadCampaignAttachments(serviceClient, campaignId);
+    } catch (attachmentError) {
+      console.error('Error loading campaign attachments:', attachmentError);
+      return new Response(JSON.stringify({
+        error: attachmentError instanceof Error ? attachmentError.message : 'Failed to load campaign attachments',
+      }), { status: 500, headers: corsHeaders });
+    }
+    if (campaignAttachments.length > 0) {
+      console.log(`Loaded ${campaignAttachments.length} attachment(s) for campaign ${campaignId}`);
+    }
+
+    // ============================================
+    // CHECK CURRENT DAILY USAGE (summed over the pool)
+    // ============================================
+    const currentUsage = pool.reduce((sum, account) => sum + account.used, 0);
+    for (const account of pool) {
+      console.log(`Current daily usage for ${usageAction} on ${account.accountId}: ${account.used}/${account.dailyLimit}`);
     }
 
     // Calculate remaining capacity for today
-    const remainingCapacity = Math.max(0, dailyLimit - currentUsage);
+    const remainingCapacity = pool.length > 0 ? poolCapacity(pool) : Math.max(0, dailyLimit - currentUsage);
 
     // ============================================
     // GET PENDING LEADS FOR THIS CAMPAIGN
@@ -429,6 +522,8 @@ serve(async (req) => {
         lead_id,
         status,
         retry_count,
+        variant_id,
+        account_id,
         lead:leads (
           id,
           full_name,
@@ -443,7 +538,17 @@ serve(async (req) => {
           city,
           state,
           country,
-          industry
+          industry,
+          headline,
+          about,
+          seniority_level,
+          company_size,
+          company_industry,
+          custom_fields,
+          personal_email,
+          linkedin_public_identifier,
+          company_domain,
+          company_website
         )
       `)
       .eq('campaign_id', campaignId)
@@ -455,21 +560,56 @@ serve(async (req) => {
     }
 
     if (!campaignLeads || campaignLeads.length === 0) {
+      if (replan) return await settleReplanWithoutLeads(serviceClient, campaignId, 0);
       return new Response(JSON.stringify({ error: 'No leads to send' }), { status: 400, headers: corsHeaders });
     }
 
-    const totalLeads = campaignLeads.length;
-    const allPendingIds = (campaignLeads as unknown as CampaignLead[]).map(cl => cl.id);
-    
+    // ============================================
+    // DO-NOT-CONTACT LIST: entries added after the campaign was created
+    // ============================================
+    const { allowed: pendingLeads, skipped: suppressedCount } = await skipSuppressedLeads(
+      supabase,
+      campaign.workspace_id,
+      campaignLeads as unknown as CampaignLead[]
+    );
+    if (suppressedCount > 0) {
+      console.log(`Campaign ${campaignId}: skipped ${suppressedCount} leads on the do-not-contact list`);
+    }
+    if (pendingLeads.length === 0) {
+      if (replan) return await settleReplanWithoutLeads(serviceClient, campaignId, suppressedCount);
+      return new Response(JSON.stringify({ error: 'No leads to send: every pending lead is on the do-not-contact list' }), { status: 400, headers: corsHeaders });
+    }
+
+    const totalLeads = pendingLeads.length;
+    const allPendingIds = pendingLeads.map(cl => cl.id);
+
+    // Timezone the window is evaluated in for each lead
+    const leadTimezone = (cl: CampaignLead) =>
+      useLeadTimezone ? inferLeadTimezone(cl.lead, workspaceTimezone) : workspaceTimezone;
+
+    if (replan) {
+      const { error: replanError } = await supabase
+        .from('campaign_queue')
+        .delete()
+        .eq('campaign_id', campaignId)
+        .in('status', ['queued', 'paused']);
+      if (replanError) {
+        console.error('Error clearing queue entries for replan:', replanError);
+      } else {
+        console.log(`Campaign ${campaignId}: queue cleared, replanning ${totalLeads} pending leads`);
+      }
+    }
+
     // ============================================
     // CALCULATE LEADS TO SEND TODAY
     // ============================================
-    // FIXED: leadsToSendNow = min(totalLeads, remainingCapacity)
+    // leadsToSendNow = min(leads inside the sending window now, remainingCapacity)
     // remainingCapacity = dailyLimit - currentUsage (what's left for today)
-    const leadsToSendNow = Math.min(totalLeads, remainingCapacity);
+    const sendableNow = pendingLeads.filter(cl => isWithinSendingWindow(sendingWindow, new Date(), leadTimezone(cl)));
+    const leadsToSendNow = Math.min(sendableNow.length, remainingCapacity);
     const remainingAfterToday = totalLeads - leadsToSendNow;
     
-    console.log(`Campaign ${campaignId}: ${totalLeads} leads total`);
+    console.log(`Campaign ${campaignId}: ${totalLeads} leads total, ${sendableNow.length} inside the sending window`);
     console.log(`  currentUsage: ${currentUsage}, dailyLimit: ${dailyLimit}, remainingCapacity: ${remainingCapacity}`);
     console.log(`  leadsToSendNow: ${leadsToSendNow}, remainingAfterToday: ${remainingAfterToday}`);
 
@@ -499,25 +639,66 @@ serve(async (req) => {
       }
     }
 
+    // Adds leads to an existing entry (window closed mid-run) instead of overwriting it
+    async function addToQueueEntry(scheduledDateStr: string, leadsCount: number) {
+      const { data: existing } = await supabase
+        .from('campaign_queue')
+        .select('leads_to_send, leads_sent, status')
+        .eq('campaign_id', campaignId)
+        .eq('scheduled_date', scheduledDateStr)
+        .maybeSingle();
+
+      if (!existing) {
+        await upsertQueueEntry(scheduledDateStr, leadsCount);
+        return;
+      }
+
+      await supabase
+        .from('campaign_queue')
+        .update({
+          leads_to_send: (existing.status === 'completed' ? existing.leads_sent : existing.leads_to_send) + leadsCount,
+          status: 'queued',
+          processed_at: null,
+        })
+        .eq('campaign_id', campaignId)
+        .eq('scheduled_date', scheduledDateStr);
+    }
+
     // ============================================
-    // CHECK DAILY LIMIT - DEFER IF NO CAPACITY
+    // CHECK DAILY LIMIT / SENDING WINDOW - DEFER IF NOTHING CAN GO NOW
     // ============================================
     if (leadsToSendNow === 0) {
-      console.log(`No capacity remaining for ${usageAction} today (${currentUsage}/${dailyLimit}). Deferring campaign.`);
-      
-      const tomorrowDateStr = getTomorrowDate();
+      const reason = remainingCapacity === 0 ? 'DAILY_LIMIT_REACHED' : 'OUTSIDE_SENDING_WINDOW';
+      console.log(`Nothing to send now for ${usageAction} (${reason}, usage ${currentUsage}/${dailyLimit}). Deferring campaign.`);
+
+      // First day that can take leads: tomorrow when today's capacity is used up,
+      // otherwise the next window opening (lead timezones may still open later today)
+      const opening = getNextWindowOpening(sendingWindow, new Date(), workspaceTimezone);
+      const fromDate = remainingCapacity === 0
+        ? addDaysToDate(localToday, 1)
+        : useLeadTimezone ? localToday : opening.date;
+      const plan = planQueueDays(
+        sendingWindow,
+        fromDate,
+        totalLeads,
+        dailyLimit,
+        fromDate === localToday ? remainingCapacity : dailyLimit
+      );
       
       // All leads remain pending - campaign_queue handles scheduling
       // DO NOT mark as deferred - keep as pending for queue processor
-      
-      // Upsert queue entry for tomorrow (idempotent)
-      await upsertQueueEntry(tomorrowDateStr, totalLeads);
+      for (const day of plan) {
+        await upsertQueueEntry(day.date, day.leads);
+      }
+      const firstDate = plan[0]?.date ?? fromDate;
+      const firstTime = firstDate === opening.date ? opening.time : formatWindowTime(sendingWindow.start) || '00:00';
 
       // Update campaign status to queued
       await supabase
         .from('campaigns')
         .update({ status: 'queued' })
-        .eq('id', campaignId);
+        .eq('id', campaignId)
+        .neq('status', 'paused');
 
       return new Response(JSON.stringify({
         success: true,
@@ -526,21 +707,22 @@ serve(async (req) => {
         sentCount: 0,
         failedCount: 0,
         deferredCount: totalLeads,
+        suppressedCount,
         results: [],
-        reason: 'DAILY_LIMIT_REACHED',
-        nextRunAt: getNextDayAt9AM(workspaceTimezone),
+        reason,
+        nextRunAt: `${firstDate}T${firstTime}:00`,
         currentUsage,
         dailyLimit,
-        remainingCapacity: 0,
-        scheduledDate: tomorrowDateStr,
+        remainingCapacity,
+        scheduledDate: firstDate,
       }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
     // ============================================
     // CREATE QUEUE FOR REMAINING LEADS (if any)
     // ============================================
-    // Get leads we'll process today (first N by order)
-    const leadsToProcess = (campaignLeads as unknown as CampaignLead[]).slice(0, leadsToSendNow);
+    // Get leads we'll process today (first N inside the window, by order)
+    const leadsToProcess = sendableNow.slice(0, leadsToSendNow);
     const idsToSend = new Set(leadsToProcess.map(cl => cl.id));
     
     // IDs that won't be sent today - these remain pending for queue
@@ -550,33 +732,24 @@ serve(async (req) => {
       console.log(`${remainingAfterToday} leads won't fit today. Creating queue entries...`);
       console.log(`  idsToSend: ${idsToSend.size}, idsToDefer: ${idsToDefer.length}`);
       
-      // Calculate how many additional days needed using FULL dailyLimit (not remainingCapacity)
-      const additionalDays = Math.ceil(remainingAfterToday / dailyLimit);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      // Create/update queue entries for subsequent days (idempotent via upsert)
-      let leadsRemaining = remainingAfterToday;
-      
-      for (let day = 1; day <= additionalDays; day++) {
-        const scheduledDate = new Date(today);
-        scheduledDate.setDate(scheduledDate.getDate() + day);
-        const scheduledDateStr = scheduledDate.toISOString().split('T')[0];
-        
-        // Each day gets up to dailyLimit (full capacity)
-        const leadsForDay = Math.min(leadsRemaining, dailyLimit);
-        leadsRemaining -= leadsForDay;
-
-        if (leadsForDay > 0) {
-          await upsertQueueEntry(scheduledDateStr, leadsForDay);
-        }
+      // Spread the rest over the next sending days using FULL dailyLimit. With lead
+      // timezones, today's leftover capacity is used as other windows open later today.
+      const leftoverToday = remainingCapacity - leadsToSendNow;
+      const plan = useLeadTimezone && leftoverToday > 0
+        ? planQueueDays(sendingWindow, localToday, remainingAfterToday, dailyLimit, leftoverToday)
+        : planQueueDays(sendingWindow, addDaysToDate(localToday, 1), remainingAfterToday, dailyLimit);
+
+      // Create/update queue entries (idempotent via upsert)
+      for (const day of plan) {
+        await upsertQueueEntry(day.date, day.leads);
       }
 
       // Update campaign status to 'queued' (will be partially completed)
       await supabase
         .from('campaigns')
         .update({ status: 'queued' })
-        .eq('id', campaignId);
+        .eq('id', campaignId)
+        .neq('status', 'paused');
       
       // NOTE: We do NOT mark deferred leads here - they remain 'pending'
       // The campaign_queue processor will handle them on their scheduled date
@@ -584,11 +757,13 @@ serve(async (req) => {
 
     console.log(`Starting campaign ${campaignId}: sending ${leadsToProcess.length} of ${totalLeads} leads today`);
 
-    // Update campaign status to 'sending'
+    // Update campaign status to 'sending' (a pause made since the checks above
+    // stays; the send loop sees it and stops before the first lead)
     await supabase
       .from('campaigns')
       .update({ status: 'sending' })
-      .eq('id', campaignId);
+      .eq('id', campaignId)
+      .neq('status', 'paused');
     startedSending = true;
 
     // ============================================
@@ -597,11 +772,27 @@ serve(async (req) => {
     let sentCount = 0;
     let failedCount = 0;
     let deferredCount = 0;
-    const results: { leadId: string; success: boolean; error?: string; retryCount?: number; willRetry?: boolean; deferred?: boolean }[] = [];
+    let windowDeferredCount = 0;
+    let capacityDeferredCount = 0;
+    let claimedElsewhereCount = 0;
+    let pausedMidRun = false;
+    const results: { leadId: string; success: boolean; error?: string; retryCount?: number; willRetry?: boolean; deferred?: boolean; claimed?: boolean }[] = [];
 
     for (let i = 0; i < leadsToProcess.length; i++) {
       const cl = leadsToProcess[i];
       const lead = cl.lead;
+
+      // Pause and message edits made while the campaign runs take effect between leads
+      const live = await loadCampaignLiveState(serviceClient, campaignId);
+      if (live?.status === 'paused') {
+        pausedMidRun = true;
+        console.log(`Campaign ${campaignId} paused, stopping before lead ${cl.lead_id}`);
+        break;
+      }
+      if (live && applyMessageEdit(campaign, live)) {
+        campaignVariants = await loadCampaignVariants(serviceClient, campaignId);
+        console.log(`Campaign ${campaignId} message edited, sending version ${campaign.message_version} from now on`);
+      }
       
       if (!lead) {
         console.error(`Lead not found for campaign_lead ${cl.id}`);
@@ -610,13 +801,83 @@ serve(async (req) => {
         continue;
       }
 
-      // Replace variables in message
-      const personalizedMessage = replaceVariables(campaign.message, lead);
+      // The window can close during a long run: the rest goes back to the queue
+      if (!isWithinSendingWindow(sendingWindow, new Date(), leadTimezone(cl))) {
+        windowDeferredCount++;
+        results.push({ leadId: cl.lead_id, success: false, deferred: true, error: 'Outside sending window' });
+        continue;
+      }
+
+      // Sender from the pool: the lead's previous account, else the one with most capacity left
+      const sender = pool.length > 0 ? pickPoolAccount(pool, cl.account_id) : null;
+      if (pool.length > 0 && !sender) {
+        capacityDeferredCount++;
+        results.push({ leadId: cl.lead_id, success: false, deferred: true, error: 'Daily limit reached on every account' });
+        continue;
+      }
+      const unipileAccountId = sender?.accountId ?? null;
+      const mailbox = sender?.mailbox ?? null;
+      // Each account keeps its own pace, so the pool sends proportionally faster
+      const intervalSeconds = Math.max(
+        minIntervalSeconds,
+        Math.round((sender?.intervalSeconds ?? baseIntervalSeconds) / Math.max(1, pool.length))
+      );
+
+      // Lease on the lead: a concurrent run (scheduler, second click, timeout retry) skips it
+      const leaseToken = await claimCampaignLead(serviceClient, cl);
+      if (!leaseToken) {
+        claimedElsewhereCount++;
+        results.push({ leadId: cl.lead_id, success: false, claimed: true, error: 'Already handled by another run' });
+        continue;
+      }
+      const idempotencyKey = sendIdempotencyKey(cl.id, 1);
+
+      // Sent by a run that stopped before saving the outcome: record it, never resend
+      const previousSend = await findSentAttempt(serviceClient, idempotencyKey);
+      if (previousSend) {
+        const sentAt = new Date(previousSend.created_at);
+        await supabase
+          .from('campaign_leads')
+          .update({
+            status: 'sent',
+            sent_at: sentAt.toISOString(),
+            error: null,
+            provider_message_id: previousSend.provider_message_id,
+            account_id: previousSend.account_id,
+            ...buildStepAdvance(campaignSteps, 1, sentAt),
+          })
+          .eq('id', cl.id);
+        await releaseCampaignLead(serviceClient, cl.id, leaseToken);
+        console.log(`Lead ${cl.lead_id} was already sent (${idempotencyKey}), outcome recovered`);
+        results.push({ leadId: cl.lead_id, success: true });
+        continue;
+      }
+
+      // Replace variables in the lead's variant (or the campaign message)
+      const content = resolveVariantContent(campaign, campaignVariants, cl.variant_id, winnerVariantId);
+      const personalizedMessage = renderTemplate(content.message, lead, { seed: cl.id });
+      const logAttempt = (outcome: SendAttemptOutcome, error: string | null, messageId: string | null = null) =>
+        recordSendAttempt(serviceClient, {
+          workspaceId: campaign.workspace_id,
+          campaignId,
+          campaignLeadId: cl.id,
+          attempt: cl.retry_count + 1,
+          outcome,
+          error,
+          providerMessageId: messageId,
+          accountId: sender?.id ?? null,
+          channel: campaign.type,
+          action: campaignSteps[0]?.action ?? null,
+          source: 'send-campaign',
+          idempotencyKey,
+          details: { usage_action: usageAction, variant_id: cl.variant_id ?? null, message_version: campaign.message_version },
+        });
 
       try {
         let sendSuccess = false;
         let sendError = '';
         let providerMessageId: string | null = null;
+        let bounced = false;
 
         if (campaign.type === 'whatsapp') {
           // Get phone number (prefer mobile_number, fallback to phone)
@@ -637,11 +898,13 @@ serve(async (req) => {
           formData.append('account_id', unipileAccountId!);
           formData.append('text', personalizedMessage);
           formData.append('attendees_ids', `${digits}@s.whatsapp.net`);
+          appendAttachments(formData, campaignAttachments);
 
           const response = await fetch(`https://${unipileDsn}/api/v1/chats`, {
             method: 'POST',
             headers: {
               'X-API-KEY': unipileApiKey,
+              [IDEMPOTENCY_HEADER]: idempotencyKey,
               'Accept': 'application/json',
             },
             body: formData,
@@ -683,8 +946,8 @@ serve(async (req) => {
             throw new Error(`Could not resolve LinkedIn profile: ${publicIdentifier}`);
           }
 
-          // Get linkedin_feature for API parameter (from account fetch earlier)
-          const linkedinFeature = (campaign as any)._linkedinFeature || 'classic';
+          // Get linkedin_feature for API parameter (from the sender account)
+          const linkedinFeature = sender?.linkedinFeature || 'classic';
           // Map feature to API value: Classic, Sales Navigator, Recruiter -> classic, sales_navigator, recruiter
           const apiValue = linkedinFeature.toLowerCase().replace(/\s+/g, '_').replace('sales_navigator', 'sales_navigator');
 
@@ -698,14 +961,17 @@ serve(async (req) => {
             if (connectionDegree === 1) {
               console.log(`[INVITE] Skipping ${publicIdentifier} - already connected (degree: 1)`);
               
-              // Mark as skipped, not failed
+              // Mark as skipped, not failed (already connected counts as accepted for follow-ups)
+              const skippedAt = new Date();
               await supabase
                 .from('campaign_leads')
                 .update({ 
                   status: 'sent', 
-                  sent_at: new Date().toISOString(),
+                  sent_at: skippedAt.toISOString(),
                   error: null,
                   skip_reason: 'already_connected',
+                  account_id: sender?.id ?? null,
+                  ...buildStepAdvance(campaignSteps, 1, skippedAt, { accepted: true }),
                 })
                 .eq('id', cl.id);
               
@@ -718,7 +984,7 @@ serve(async (req) => {
               
               // Apply interval before next lead
               if (i < leadsToProcess.length - 1) {
-                const intervalMs = applyJitter(baseIntervalSeconds, minIntervalSeconds) * 1000;
+                const intervalMs = applyJitter(intervalSeconds, minIntervalSeconds) * 1000;
                 console.log(`Waiting ${intervalMs}ms before next lead...`);
                 await new Promise(resolve => setTimeout(resolve, intervalMs));
               }
@@ -751,6 +1017,7 @@ serve(async (req) => {
               method: 'POST',
               headers: {
                 'X-API-KEY': unipileApiKey,
+                [IDEMPOTENCY_HEADER]: idempotencyKey,
                 'Accept': 'application/json',
                 'Content-Type': 'application/json',
               },
@@ -791,6 +1058,7 @@ serve(async (req) => {
               method: 'POST',
               headers: {
                 'X-API-KEY': unipileApiKey,
+                [IDEMPOTENCY_HEADER]: idempotencyKey,
                 'Accept': 'application/json',
               },
               body: formData,
@@ -821,6 +1089,7 @@ serve(async (req) => {
             formData.append('text', personalizedMessage);
             formData.append('attendees_ids', providerId);
             formData.append('linkedin[api]', apiValue);
+            appendAttachments(formData, campaignAttachments);
 
             const chatUrl = `https://${unipileDsn}/api/v1/chats`;
             console.log(`LinkedIn DM to ${publicIdentifier}, api: ${apiValue}, endpoint: ${chatUrl}`);
@@ -829,6 +1098,7 @@ serve(async (req) => {
               method: 'POST',
               headers: {
                 'X-API-KEY': unipileApiKey,
+                [IDEMPOTENCY_HEADER]: idempotencyKey,
                 'Accept': 'application/json',
               },
               body: formData,
@@ -858,27 +1128,61 @@ serve(async (req) => {
             }
           }
         } else if (campaign.type === 'email') {
-          // Email sending placeholder - not implemented
-          throw new Error('Email campaigns not yet implemented');
+          // ============================================
+          // EMAIL (SMTP)
+          // ============================================
+          if (!lead.email) {
+            throw new Error('No email address available');
+          }
+
+          try {
+            const sent = await sendSmtpMail(mailbox!.smtp, {
+              from: mailbox!.address,
+              fromName: mailbox!.fromName,
+              to: lead.email,
+              subject: renderTemplate(content.subject || '', lead, { seed: `${cl.id}:subject` }),
+              text: personalizedMessage,
+              headers: { [CAMPAIGN_LEAD_HEADER]: cl.id },
+              messageId: idempotentMessageId(idempotencyKey, mailbox!.address),
+            });
+            sendSuccess = true;
+            providerMessageId = sent.messageId;
+            console.log(`Email sent to ${lead.email}, messageId: ${providerMessageId}`);
+          } catch (smtpError) {
+            // Permanent recipient rejection: the address bounces, retrying won't help
+            if (smtpError instanceof SmtpError && smtpError.isBounce) {
+              bounced = true;
+              sendError = smtpError.message;
+              console.warn(`Email to ${lead.email} rejected:`, sendError);
+            } else {
+              throw smtpError;
+            }
+          }
         }
 
         if (sendSuccess) {
+          await logAttempt('sent', null, providerMessageId);
           sentCount++;
           results.push({ leadId: cl.lead_id, success: true });
           
-          // Update campaign_lead status
+          // Update campaign_lead status and schedule the next sequence step
+          const sentAt = new Date();
           await supabase
             .from('campaign_leads')
             .update({ 
               status: 'sent', 
-              sent_at: new Date().toISOString(),
+              sent_at: sentAt.toISOString(),
               error: null,
               provider_message_id: providerMessageId,
+              account_id: sender?.id ?? null,
+              message_version: campaign.message_version,
+              ...buildStepAdvance(campaignSteps, 1, sentAt),
             })
             .eq('id', cl.id);
 
-          // INCREMENT DAILY USAGE (after successful send)
-          if (unipileAccountId) {
+          // INCREMENT DAILY USAGE (after successful send, on the sender account)
+          if (sender && unipileAccountId) {
+            sender.used++;
             const { data: newUsage, error: incrementError } = await serviceClient
               .rpc('increment_daily_usage', {
                 p_workspace_id: campaign.workspace_id,
@@ -891,13 +1195,27 @@ serve(async (req) => {
             if (incrementError) {
               console.error(`Error incrementing usage for ${usageAction}:`, incrementError);
             } else {
-              console.log(`Usage incremented for ${usageAction}: now ${newUsage}/${dailyLimit}`);
+              console.log(`Usage incremented for ${usageAction} on ${unipileAccountId}: now ${newUsage}/${sender.dailyLimit}`);
+            }
+          }
+
+          // A/B test: promote the best variant once enough leads were reached
+          if (campaignVariants.length > 0 && !winnerVariantId && campaign.variant_promote_after) {
+            winnerVariantId = await autoPromoteVariant(serviceClient, campaignId);
+            if (winnerVariantId) {
+              console.log(`Variant ${winnerVariantId} promoted as winner for campaign ${campaignId}`);
             }
           }
 
           // NOTE: No longer updating campaigns.sent_count incrementally
           // The view campaigns_with_stats calculates counts from campaign_leads current state
+        } else if (bounced) {
+          await logAttempt('bounced', sendError);
+          failedCount++;
+          results.push({ leadId: cl.lead_id, success: false, error: sendError, willRetry: false });
+          await markCampaignLeadBounced(serviceClient, cl.id, sendError, { source: 'smtp' });
         } else {
+          await logAttempt('failed', sendError);
           const newRetryCount = cl.retry_count + 1;
           const willRetry = newRetryCount < settings.max_retries;
           
@@ -925,6 +1243,7 @@ serve(async (req) => {
         }
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
+        await logAttempt('failed', errorMessage);
         const newRetryCount = cl.retry_count + 1;
         const willRetry = newRetryCount < settings.max_retries;
         
@@ -948,16 +1267,32 @@ serve(async (req) => {
           .eq('id', cl.id);
 
         console.error(`Error sending to lead ${cl.lead_id}:`, errorMessage);
+      } finally {
+        await releaseCampaignLead(serviceClient, cl.id, leaseToken);
       }
 
       // Apply jitter delay between messages (except for last message)
       if (i < leadsToProcess.length - 1) {
-        const delaySeconds = applyJitter(baseIntervalSeconds, minIntervalSeconds);
+        const delaySeconds = applyJitter(intervalSeconds, minIntervalSeconds);
         console.log(`Waiting ${delaySeconds}s before next message...`);
         await new Promise(resolve => setTimeout(resolve, delaySeconds * 1000));
       }
     }
 
+    // A paused campaign keeps these leads pending: resume plans them again
+    if (windowDeferredCount > 0 && !pausedMidRun) {
+      const nextDate = useLeadTimezone
+        ? localToday
+        : getNextWindowOpening(sendingWindow, new Date(), workspaceTimezone).date;
+      console.log(`${windowDeferredCount} leads left for ${nextDate}: sending window closed during the run`);
+      await addToQueueEntry(nextDate, windowDeferredCount);
+    }
+
+    if (capacityDeferredCount > 0 && !pausedMidRun) {
+      console.log(`${capacityDeferredCount} leads left for tomorrow: every account of the pool reached its daily limit`);
+      await addToQueueEntry(addDaysToDate(localToday, 1), capacityDeferredCount);
+    }
+
     // ============================================
     // FINALIZE CAMPAIGN STATUS (Source of Truth Logic)
     // Use serviceClient for guaranteed permissions
@@ -965,7 +1300,7 @@ serve(async (req) => {
     const finalStatus = await finalizeCampaignStatus(serviceClient, campaignId);
     const hasQueuedEntries = finalStatus === 'queued';
 
-    console.log(`Campaign ${campaignId} finished: ${sentCount} sent, ${failedCount} failed, status: ${finalStatus}`);
+    console.log(`Campaign ${campaignId} finished: ${sentCount} sent, ${failedCount} failed, ${claimedElsewhereCount} handled by another run, status: ${finalStatus}`);
 
     return new Response(JSON.stringify({
       success: true,
@@ -974,7 +1309,10 @@ serve(async (req) => {
       finalStatus,
       sentCount: sentCount,
       failedCount: failedCount,
-      deferredCount: idsToDefer.length,
+      deferredCount: idsToDefer.length + windowDeferredCount + capacityDeferredCount,
+      claimedElsewhereCount,
+      suppressedCount,
+      paused: pausedMidRun,
       results,
       hasQueuedEntries,
       currentUsage: currentUsage + sentCount,
@@ -1013,35 +1351,6 @@ serve(async (req) => {
   }
 });
 
-// ============================================
-// HELPER: Extract LinkedIn public identifier from URL
-// ============================================
-function extractLinkedInPublicIdentifier(linkedinUrl: string): string | null {
-  // Handle various LinkedIn URL formats:
-  // https://www.linkedin.com/in/username
-  // https://linkedin.com/in/username/
-  // https://www.linkedin.com/in/username?param=value
-  // /in/username
-  
-  try {
-    const url = linkedinUrl.startsWith('http') ? new URL(linkedinUrl) : new URL(`https://linkedin.com${linkedinUrl.startsWith('/') ? '' : '/'}${linkedinUrl}`);
-    const pathParts = url.pathname.split('/').filter(Boolean);
-    
-    // Find 'in' segment and get the next segment
-    const inIndex = pathParts.findIndex(p => p.toLowerCase() === 'in');
-    if (inIndex !== -1 && pathParts[inIndex + 1]) {
-      return pathParts[inIndex + 1];
-    }
-    
-    // Fallback: just return the last non-empty segment
-    return pathParts[pathParts.length - 1] || null;
-  } catch {
-    // If URL parsing fails, try regex
-    const match = linkedinUrl.match(/\/in\/([^\/\?]+)/);
-    return match ? match[1] : null;
-  }
-}
-
 // ============================================
 // HELPER: Resolve LinkedIn public identifier to provider_id AND connection_degree
 // ============================================
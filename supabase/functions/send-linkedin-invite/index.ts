@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { applyWarmup } from "../_shared/warmup.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -178,7 +179,7 @@ serve(async (req) => {
     // ============================================
     const { data: account, error: accountError } = await supabase
       .from('accounts')
-      .select('account_id, status, channel')
+      .select('account_id, status, channel, warmup_enabled, warmup_started_at, warmup_start_limit, warmup_daily_increase')
       .eq('id', accountId)
       .eq('workspace_id', workspaceId)
       .single();
@@ -217,7 +218,8 @@ serve(async (req) => {
       .eq('workspace_id', workspaceId)
       .maybeSingle();
 
-    const dailyInviteLimit = workspaceSettings?.linkedin_daily_invite_limit ?? 25;
+    // New accounts ramp up to the workspace limit (warm-up)
+    const dailyInviteLimit = applyWarmup(account, workspaceSettings?.linkedin_daily_invite_limit ?? 25);
     const baseIntervalSeconds = workspaceSettings?.linkedin_message_interval_seconds ?? 30;
 
     // ============================================
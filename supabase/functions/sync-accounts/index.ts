@@ -112,11 +112,12 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     );
 
-    // Get existing accounts
+    // Get existing Unipile accounts (SMTP mailboxes are managed separately)
     const { data: existingAccounts } = await serviceSupabase
       .from('accounts')
       .select('id, account_id')
-      .eq('workspace_id', workspaceId);
+      .eq('workspace_id', workspaceId)
+      .neq('provider', 'smtp');
 
     const existingAccountIds = new Set(existingAccounts?.map(a => a.account_id) || []);
     const providerAccountIds = new Set(providerAccounts.map(a => a.id));
@@ -0,0 +1,133 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  enrollCampaignLeads,
+  REPLAN_STATUSES,
+  requestCampaignReplan,
+  type EnrollmentResult,
+} from "../_shared/campaignEnrollment.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: corsHeaders });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await supabase.auth.getUser(token);
+    if (claimsError || !claimsData.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: corsHeaders });
+    }
+
+    const { campaignId, addLeadIds, removeCampaignLeadIds } = await req.json();
+    const toAdd = [...new Set((addLeadIds as string[] | undefined) || [])];
+    const toRemove = [...new Set((removeCampaignLeadIds as string[] | undefined) || [])];
+
+    if (!campaignId) {
+      return new Response(JSON.stringify({ error: 'Campaign ID is required' }), { status: 400, headers: corsHeaders });
+    }
+    if (toAdd.length === 0 && toRemove.length === 0) {
+      return new Response(JSON.stringify({ error: 'Nothing to add or remove' }), { status: 400, headers: corsHeaders });
+    }
+
+    // ============================================
+    // CAMPAIGN + MEMBERSHIP CHECK
+    // ============================================
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id, workspace_id, type, status')
+      .eq('id', campaignId)
+      .single();
+
+    if (campaignError || !campaign) {
+      return new Response(JSON.stringify({ error: 'Campaign not found' }), { status: 404, headers: corsHeaders });
+    }
+
+    const { data: member } = await supabase
+      .from('workspace_members')
+      .select('id')
+      .eq('workspace_id', campaign.workspace_id)
+      .eq('user_id', claimsData.user.id)
+      .maybeSingle();
+
+    if (!member) {
+      return new Response(JSON.stringify({ error: 'Access denied to this campaign' }), { status: 403, headers: corsHeaders });
+    }
+
+    // ============================================
+    // REMOVE: only leads that were not sent yet
+    // ============================================
+    let removedCount = 0;
+    if (toRemove.length > 0) {
+      const { data: removed, error: removeError } = await supabase
+        .from('campaign_leads')
+        .delete()
+        .eq('campaign_id', campaignId)
+        .eq('status', 'pending')
+        .in('id', toRemove)
+        .select('id');
+
+      if (removeError) {
+        console.error('Error removing campaign leads:', removeError);
+        return new Response(JSON.stringify({ error: 'Failed to remove leads', details: removeError.message }), { status: 500, headers: corsHeaders });
+      }
+      removedCount = removed?.length || 0;
+    }
+
+    // ============================================
+    // ADD: workspace leads with the channel's contact, same rules as creation
+    // ============================================
+    let enrollment: EnrollmentResult = { addedCount: 0, invalidCount: 0, suppressedCount: 0, alreadyInCampaignCount: 0 };
+    if (toAdd.length > 0) {
+      try {
+        enrollment = await enrollCampaignLeads(supabase, campaign, toAdd, 'manual');
+      } catch (enrollError) {
+        console.error('Error adding campaign leads:', enrollError);
+        return new Response(JSON.stringify({ error: 'Failed to add leads', details: (enrollError as Error).message }), { status: 500, headers: corsHeaders });
+      }
+    }
+
+    const { addedCount, invalidCount, suppressedCount, alreadyInCampaignCount } = enrollment;
+    console.log(`Campaign ${campaignId} (${campaign.status}): +${addedCount} leads (${invalidCount} invalid, ${suppressedCount} suppressed, ${alreadyInCampaignCount} already in), -${removedCount} leads`);
+
+    // ============================================
+    // REPLAN: running campaign with new leads
+    // ============================================
+    const replan = addedCount > 0 && REPLAN_STATUSES.includes(campaign.status)
+      ? await requestCampaignReplan(authHeader, campaignId)
+      : null;
+
+    return new Response(JSON.stringify({
+      success: true,
+      addedCount,
+      invalidCount,
+      suppressedCount,
+      alreadyInCampaignCount,
+      removedCount,
+      replanned: !!replan?.ok,
+      replanError: replan?.error ?? undefined,
+      send: replan?.body ?? null,
+    }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  } catch (err) {
+    const error = err as Error;
+    console.error('Error in update-campaign-leads:', error);
+    return new Response(JSON.stringify({ error: error.message }), { status: 500, headers: corsHeaders });
+  }
+});
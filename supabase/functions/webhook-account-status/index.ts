@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deactivatePoolAccount, reactivatePoolAccount } from "../_shared/accountPool.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -276,6 +277,12 @@ serve(async (req) => {
         } else {
           console.log(`Account ${accountId} marked as disconnected`);
         }
+
+        // Drop it from campaign pools so the other accounts take its pending leads
+        const campaignsAffected = await deactivatePoolAccount(serviceClient, accountId, 'disconnected');
+        if (campaignsAffected > 0) {
+          console.log(`Account ${accountId} removed from ${campaignsAffected} campaign pool(s)`);
+        }
       }
 
       newStatus = 'disconnected';
@@ -362,6 +369,12 @@ serve(async (req) => {
         console.error('Error upserting account:', upsertError);
       } else {
         console.log(`Account ${accountId} saved/updated successfully for workspace ${workspaceId} with channel=${channel}`);
+
+        // Back into the campaign pools it was dropped from while disconnected
+        const campaignsRestored = await reactivatePoolAccount(serviceClient, accountId);
+        if (campaignsRestored > 0) {
+          console.log(`Account ${accountId} restored to ${campaignsRestored} campaign pool(s)`);
+        }
       }
     } else if (newStatus === 'connected' && !workspaceId) {
       console.warn(`Cannot save account ${accountId}: no workspaceId found`);
@@ -1,5 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { handleLeadReply, recordReplyIntent } from "../_shared/replyHandoff.ts";
+import { extractInboxMessage, linkChatToCampaignLead, persistInboxMessage } from "../_shared/inbox.ts";
+import { classifyReply } from "../_shared/replyIntent.ts";
+import { suppressOptedOutLead } from "../_shared/suppressionList.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,6 +13,7 @@ const corsHeaders = {
 /**
  * Webhook endpoint for receiving message status updates from Unipile
  * Handles: message_sent, message_delivered, message_seen, message_received (reply)
+ * Sent and received messages are also stored for the inbox (see _shared/inbox.ts)
  * 
  * Unipile Message Payload reference:
  * - id: unique message ID in Unipile
@@ -90,6 +95,7 @@ serve(async (req) => {
     const chatId = messageData.chat_id;
     const isSender = messageData.is_sender;
     const timestamp = messageData.timestamp;
+    const messageText = typeof messageData.text === 'string' ? messageData.text : null;
     
     // Status fields from message payload
     const isDelivered = messageData.delivered === true;
@@ -140,6 +146,13 @@ serve(async (req) => {
       // Just log, don't update status (already marked as sent when we sent it)
     }
 
+    // ============================================
+    // PERSIST TO INBOX
+    // ============================================
+    // Stored even when no campaign lead matches (conversations started outside campaigns)
+    const inboxEvent = processedEvent === 'replied' || processedEvent === 'sent' ? extractInboxMessage(payload) : null;
+    const inboxMessage = inboxEvent ? await persistInboxMessage(serviceClient, inboxEvent) : null;
+
     if (!processedEvent) {
       console.log(`Unhandled event type: ${eventType}`);
       return new Response(JSON.stringify({ 
@@ -213,6 +226,10 @@ serve(async (req) => {
       }), { status: 200, headers: corsHeaders });
     }
 
+    if (inboxMessage) {
+      await linkChatToCampaignLead(serviceClient, inboxMessage.chatId, campaignLead.lead_id, campaign.id);
+    }
+
     // ============================================
     // UPDATE CAMPAIGN LEAD STATUS
     // ============================================
@@ -244,6 +261,24 @@ serve(async (req) => {
       }
     }
 
+    // A reply ends the lead's sequence regardless of status priority and hands the lead off
+    const replyClassification = processedEvent === 'replied' ? classifyReply(messageText) : null;
+    const optOutKeyword = replyClassification?.intent === 'opt_out' ? replyClassification.matched : null;
+    if (processedEvent === 'replied') {
+      await handleLeadReply(serviceClient, campaignLead.id, updateData.replied_at || new Date().toISOString());
+      await recordReplyIntent(serviceClient, campaignLead.id, replyClassification!.intent);
+
+      // Opt-out replies ("pare", "sair"...) put the lead on the do-not-contact list
+      if (optOutKeyword) {
+        const optOut = await suppressOptedOutLead(serviceClient, {
+          leadId: campaignLead.lead_id,
+          campaignId: campaign.id,
+          keyword: optOutKeyword,
+        });
+        console.log(`Opt-out "${optOutKeyword}" from lead ${campaignLead.lead_id}: ${optOut.added} entries added, ${optOut.halted} campaign leads halted`);
+      }
+    }
+
     // ============================================
     // LOG EVENT
     // ============================================
@@ -257,6 +292,8 @@ serve(async (req) => {
         chat_id: chatId,
         timestamp: timestamp,
         raw_event: eventType,
+        ...(replyClassification ? { reply_intent: replyClassification.intent, reply_intent_match: replyClassification.matched } : {}),
+        ...(optOutKeyword ? { opt_out_keyword: optOutKeyword } : {}),
       },
     });
 
@@ -9,10 +9,18 @@
  * - Idempotent processing via event_id unique constraint
  * - Best-effort matching to campaign_leads
  * - Raw payload storage for audit/debugging
+ * - Sequence control: replies stop pending steps, acceptances schedule the next one
+ * - Conversation handoff: replies flag the lead "em conversa" (see _shared/replyHandoff.ts)
+ * - Inbox: new messages are stored as chats/messages (see _shared/inbox.ts)
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { scheduleAfterAcceptance } from "../_shared/campaignSteps.ts";
+import { handleLeadReply, recordReplyIntent } from "../_shared/replyHandoff.ts";
+import { extractInboxMessage, linkChatToCampaignLead, persistInboxMessage } from "../_shared/inbox.ts";
+import { classifyReply, ReplyClassification } from "../_shared/replyIntent.ts";
+import { suppressOptedOutLead } from "../_shared/suppressionList.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -59,6 +67,16 @@ const INVITE_EVENT_TYPES = [
   'invitation.accepted',
 ];
 
+// Events that carry a new message for the inbox
+const INBOX_EVENT_TYPES = [
+  'message.sent',
+  'message.replied',
+  'message_received',
+  'chat.new_message',
+  'chat.message_sent',
+  'chat.message_replied',
+];
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -222,6 +240,15 @@ serve(async (req) => {
       console.log(`[${correlationId}] Event stored: ${insertedEvent?.id}`);
     }
 
+    // ============================================
+    // PERSIST TO INBOX
+    // ============================================
+    const inboxEvent = INBOX_EVENT_TYPES.includes(eventType) ? extractInboxMessage(payload) : null;
+    const inboxMessage = inboxEvent ? await persistInboxMessage(serviceClient, inboxEvent) : null;
+    if (inboxMessage) {
+      console.log(`[${correlationId}] Inbox message stored in chat=${inboxMessage.chatId} (new=${inboxMessage.isNew})`);
+    }
+
     // ============================================
     // TRY TO MATCH TO CAMPAIGN_LEAD
     // ============================================
@@ -240,6 +267,10 @@ serve(async (req) => {
         matchedLeadId = campaignLead.id;
         console.log(`[${correlationId}] Matched to campaign_lead: ${matchedLeadId}`);
 
+        if (inboxMessage) {
+          await linkChatToCampaignLead(serviceClient, inboxMessage.chatId, campaignLead.lead_id, campaignLead.campaign_id);
+        }
+
         // Build update object
         const updateData: Record<string, unknown> = {};
         const timestamp = new Date().toISOString();
@@ -257,6 +288,8 @@ serve(async (req) => {
           }
         }
 
+        let replyClassification: ReplyClassification | null = null;
+
         // Update campaign_lead
         const { error: updateError } = await serviceClient
           .from('campaign_leads')
@@ -268,6 +301,30 @@ serve(async (req) => {
         } else {
           console.log(`[${correlationId}] Updated campaign_lead ${matchedLeadId}:`, updateData);
 
+          // Sequence control
+          if (statusMapping.field === 'replied_at') {
+            const handoff = await handleLeadReply(serviceClient, matchedLeadId, timestamp);
+            console.log(`[${correlationId}] Reply handoff for campaign_lead=${matchedLeadId}: haltedElsewhere=${handoff.haltedElsewhere}, notified=${handoff.notified}`);
+
+            const replyText = typeof eventData.text === 'string' ? eventData.text : null;
+            replyClassification = classifyReply(replyText);
+            await recordReplyIntent(serviceClient, matchedLeadId, replyClassification.intent);
+            console.log(`[${correlationId}] Reply intent for campaign_lead=${matchedLeadId}: ${replyClassification.intent}`);
+
+            // Opt-out replies ("pare", "sair"...) put the lead on the do-not-contact list and halt pending sends
+            if (replyClassification.intent === 'opt_out') {
+              const optOutKeyword = replyClassification.matched;
+              const optOut = await suppressOptedOutLead(serviceClient, {
+                leadId: campaignLead.lead_id,
+                campaignId: campaignLead.campaign_id,
+                keyword: optOutKeyword || 'opt_out',
+              });
+              console.log(`[${correlationId}] Opt-out "${optOutKeyword}" from lead=${campaignLead.lead_id}: added=${optOut.added}, halted=${optOut.halted}`);
+            }
+          } else if (statusMapping.field === 'accepted_at') {
+            await scheduleAfterAcceptance(serviceClient, matchedLeadId, timestamp);
+          }
+
           // Update event as matched
           await serviceClient
             .from('unipile_events')
@@ -290,6 +347,7 @@ serve(async (req) => {
               metadata: {
                 correlation_id: correlationId,
                 unipile_event_id: eventId,
+                ...(replyClassification ? { reply_intent: replyClassification.intent, reply_intent_match: replyClassification.matched } : {}),
               },
             });
         }
@@ -382,6 +440,7 @@ serve(async (req) => {
             console.log(`[${correlationId}] Idempotent skip: campaign_lead=${matchedLeadId} already had accepted_at`);
           } else {
             console.log(`[${correlationId}] accepted_at set for campaign_lead=${matchedLeadId}`);
+            await scheduleAfterAcceptance(serviceClient, matchedLeadId, timestamp);
           }
           
           // 5) ALWAYS mark event as matched
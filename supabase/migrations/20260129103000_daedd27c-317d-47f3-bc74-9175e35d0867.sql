@@ -0,0 +1,172 @@
+-- ============================================
+-- Multi-step outreach sequences
+-- ============================================
+-- Step 1 mirrors the campaign's own message/linkedin_action. Steps 2..N are
+-- follow-ups sent by process-campaign-queue once next_step_at is due.
+
+CREATE TABLE IF NOT EXISTS public.campaign_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL CHECK (step_order >= 1),
+  action TEXT NOT NULL, -- invite, dm, inmail (LinkedIn) | message (WhatsApp/Email)
+  message TEXT NOT NULL DEFAULT '',
+  delay_days INTEGER NOT NULL DEFAULT 0 CHECK (delay_days >= 0),
+  condition TEXT NOT NULL DEFAULT 'no_reply', -- no_reply | accepted
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT campaign_steps_action_check CHECK (action IN ('invite', 'dm', 'inmail', 'message')),
+  CONSTRAINT campaign_steps_condition_check CHECK (condition IN ('no_reply', 'accepted')),
+  CONSTRAINT campaign_steps_campaign_order_unique UNIQUE (campaign_id, step_order)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_steps_campaign_id ON public.campaign_steps (campaign_id);
+
+ALTER TABLE public.campaign_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view steps of their campaigns"
+  ON public.campaign_steps FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.campaigns c
+    WHERE c.id = campaign_id
+    AND is_workspace_member(c.workspace_id)
+  ));
+
+CREATE POLICY "Users can create steps of their campaigns"
+  ON public.campaign_steps FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.campaigns c
+    WHERE c.id = campaign_id
+    AND is_workspace_member(c.workspace_id)
+  ));
+
+CREATE POLICY "Users can update steps of their campaigns"
+  ON public.campaign_steps FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.campaigns c
+    WHERE c.id = campaign_id
+    AND is_workspace_member(c.workspace_id)
+  ));
+
+CREATE POLICY "Users can delete steps of their campaigns"
+  ON public.campaign_steps FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.campaigns c
+    WHERE c.id = campaign_id
+    AND is_workspace_member(c.workspace_id)
+  ));
+
+-- Per-lead sequence state
+-- current_step: last step successfully sent (0 = nothing sent yet)
+-- next_step_at: when the next step becomes due (NULL = no follow-up scheduled)
+ALTER TABLE public.campaign_leads
+ADD COLUMN IF NOT EXISTS current_step INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_step_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS sequence_status TEXT NOT NULL DEFAULT 'active',
+ADD COLUMN IF NOT EXISTS stopped_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS stop_reason TEXT;
+
+ALTER TABLE public.campaign_leads DROP CONSTRAINT IF EXISTS campaign_leads_sequence_status_check;
+ALTER TABLE public.campaign_leads ADD CONSTRAINT campaign_leads_sequence_status_check
+  CHECK (sequence_status IN ('active', 'completed', 'stopped'));
+
+-- Backfill: leads already contacted by single-message campaigns finished step 1
+UPDATE public.campaign_leads
+SET current_step = 1, sequence_status = 'completed'
+WHERE sent_at IS NOT NULL AND current_step = 0;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_leads_next_step_at
+ON public.campaign_leads (next_step_at)
+WHERE sequence_status = 'active' AND next_step_at IS NOT NULL;
+
+-- ============================================
+-- Per-step funnel
+-- ============================================
+CREATE OR REPLACE VIEW public.campaign_step_stats
+WITH (security_invoker = true)
+AS
+SELECT
+  s.campaign_id,
+  s.step_order,
+  s.action,
+  s.delay_days,
+  s.condition,
+  COUNT(cl.id) FILTER (WHERE cl.current_step >= s.step_order)::integer AS sent_count,
+  COUNT(cl.id) FILTER (WHERE cl.current_step >= s.step_order AND cl.accepted_at IS NOT NULL)::integer AS accepted_count,
+  COUNT(cl.id) FILTER (WHERE cl.current_step = s.step_order AND cl.replied_at IS NOT NULL)::integer AS replied_count,
+  COUNT(cl.id) FILTER (
+    WHERE cl.current_step = s.step_order - 1 AND cl.sequence_status = 'active'
+  )::integer AS waiting_count,
+  COUNT(cl.id) FILTER (
+    WHERE cl.current_step = s.step_order AND cl.sequence_status = 'stopped'
+  )::integer AS stopped_count
+FROM public.campaign_steps s
+LEFT JOIN public.campaign_leads cl ON cl.campaign_id = s.campaign_id
+GROUP BY s.campaign_id, s.step_order, s.action, s.delay_days, s.condition;
+
+-- ============================================
+-- Finalize: campaigns with follow-ups still scheduled keep running
+-- ============================================
+create or replace function public.finalize_campaign_status(p_campaign_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_has_pending_queue boolean;
+  v_pending_leads int;
+  v_active_sequences int;
+begin
+  select exists (
+    select 1
+    from public.campaign_queue q
+    where q.campaign_id = p_campaign_id
+      and q.status = 'queued'
+      and coalesce(q.leads_sent,0) < coalesce(q.leads_to_send,0)
+  ) into v_has_pending_queue;
+
+  if v_has_pending_queue then
+    return 'queued';
+  end if;
+
+  select count(*)
+  into v_pending_leads
+  from public.campaign_leads cl
+  where cl.campaign_id = p_campaign_id
+    and cl.status = 'pending';
+
+  if v_pending_leads > 0 then
+    return 'sending';
+  end if;
+
+  select count(*)
+  into v_active_sequences
+  from public.campaign_leads cl
+  where cl.campaign_id = p_campaign_id
+    and cl.sequence_status = 'active'
+    and cl.next_step_at is not null;
+
+  if v_active_sequences > 0 then
+    update public.campaigns
+      set status = 'running',
+          updated_at = now()
+    where id = p_campaign_id
+      and status = 'completed';
+    return 'running';
+  end if;
+
+  update public.campaigns
+    set status = 'completed',
+        updated_at = now()
+  where id = p_campaign_id;
+
+  return 'completed';
+end;
+$$;
+
+-- Re-evaluate when a lead's sequence state changes, not only its status
+drop trigger if exists trg_finalize_campaign_on_lead_change on public.campaign_leads;
+create trigger trg_finalize_campaign_on_lead_change
+after insert or update of status, sequence_status, next_step_at or delete
+on public.campaign_leads
+for each row
+execute function public._trg_finalize_campaign_status();
@@ -0,0 +1,178 @@
+-- ============================================
+-- Email channel (SMTP/IMAP mailboxes)
+-- ============================================
+-- A connected mailbox is an accounts row with channel = 'email' and
+-- provider = 'smtp'; account_id holds the sender address and is the key for
+-- account_daily_usage. Server credentials live in a separate table that only
+-- the service role can read; the SMTP/IMAP passwords themselves are kept
+-- encrypted in Supabase Vault and the table only holds the secret ids.
+
+CREATE EXTENSION IF NOT EXISTS supabase_vault WITH SCHEMA vault;
+
+-- Per-account sending limits (NULL = use the workspace defaults)
+ALTER TABLE public.accounts
+ADD COLUMN IF NOT EXISTS daily_message_limit INTEGER,
+ADD COLUMN IF NOT EXISTS message_interval_seconds INTEGER;
+
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_daily_message_limit_check;
+ALTER TABLE public.accounts ADD CONSTRAINT accounts_daily_message_limit_check
+  CHECK (daily_message_limit IS NULL OR daily_message_limit BETWEEN 1 AND 500);
+
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_message_interval_seconds_check;
+ALTER TABLE public.accounts ADD CONSTRAINT accounts_message_interval_seconds_check
+  CHECK (message_interval_seconds IS NULL OR message_interval_seconds BETWEEN 10 AND 600);
+
+CREATE TABLE IF NOT EXISTS public.email_account_credentials (
+  account_id UUID PRIMARY KEY REFERENCES public.accounts(id) ON DELETE CASCADE,
+  from_name TEXT,
+  smtp_host TEXT NOT NULL,
+  smtp_port INTEGER NOT NULL,
+  smtp_security TEXT NOT NULL DEFAULT 'starttls', -- tls | starttls | none (local sinks)
+  smtp_username TEXT,
+  smtp_password_secret_id UUID, -- vault.secrets
+  imap_host TEXT,
+  imap_port INTEGER,
+  imap_security TEXT NOT NULL DEFAULT 'tls',
+  imap_username TEXT,
+  imap_password_secret_id UUID, -- vault.secrets
+  imap_last_uid BIGINT NOT NULL DEFAULT 0,
+  imap_checked_at TIMESTAMPTZ,
+  imap_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT email_account_credentials_smtp_security_check CHECK (smtp_security IN ('tls', 'starttls', 'none')),
+  CONSTRAINT email_account_credentials_imap_security_check CHECK (imap_security IN ('tls', 'starttls', 'none'))
+);
+
+-- RLS enabled without policies: only edge functions (service role) touch credentials
+ALTER TABLE public.email_account_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_email_account_credentials_updated_at
+BEFORE UPDATE ON public.email_account_credentials
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stores (or replaces) the mailbox passwords in Vault. NULL clears a password.
+CREATE OR REPLACE FUNCTION public.set_email_account_passwords(
+  p_account_id uuid,
+  p_smtp_password text,
+  p_imap_password text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_creds public.email_account_credentials%ROWTYPE;
+  v_smtp_id uuid;
+  v_imap_id uuid;
+BEGIN
+  SELECT * INTO v_creds FROM public.email_account_credentials WHERE account_id = p_account_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Email account credentials not found: %', p_account_id;
+  END IF;
+
+  DELETE FROM vault.secrets
+  WHERE id IN (v_creds.smtp_password_secret_id, v_creds.imap_password_secret_id);
+
+  IF p_smtp_password IS NOT NULL THEN
+    v_smtp_id := vault.create_secret(p_smtp_password, NULL, 'SMTP password for account ' || p_account_id);
+  END IF;
+  IF p_imap_password IS NOT NULL THEN
+    v_imap_id := vault.create_secret(p_imap_password, NULL, 'IMAP password for account ' || p_account_id);
+  END IF;
+
+  UPDATE public.email_account_credentials
+  SET smtp_password_secret_id = v_smtp_id,
+      imap_password_secret_id = v_imap_id
+  WHERE account_id = p_account_id;
+END;
+$$;
+
+-- Decrypted passwords for a mailbox (edge functions only)
+CREATE OR REPLACE FUNCTION public.get_email_account_passwords(p_account_id uuid)
+RETURNS TABLE (smtp_password text, imap_password text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    (SELECT s.decrypted_secret FROM vault.decrypted_secrets s WHERE s.id = c.smtp_password_secret_id),
+    (SELECT s.decrypted_secret FROM vault.decrypted_secrets s WHERE s.id = c.imap_password_secret_id)
+  FROM public.email_account_credentials c
+  WHERE c.account_id = p_account_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_email_account_passwords(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_email_account_passwords(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_email_account_passwords(uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_email_account_passwords(uuid) TO service_role;
+
+-- Removing a mailbox removes its secrets too
+CREATE OR REPLACE FUNCTION public.delete_email_account_secrets()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  DELETE FROM vault.secrets
+  WHERE id IN (OLD.smtp_password_secret_id, OLD.imap_password_secret_id);
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_email_account_secrets
+AFTER DELETE ON public.email_account_credentials
+FOR EACH ROW
+EXECUTE FUNCTION public.delete_email_account_secrets();
+
+-- Bounces are matched by the Message-ID stored on send
+CREATE INDEX IF NOT EXISTS idx_campaign_leads_provider_message_id
+ON public.campaign_leads (provider_message_id)
+WHERE provider_message_id IS NOT NULL;
+
+-- ============================================
+-- Daily usage: track email sends per mailbox
+-- ============================================
+ALTER TABLE public.account_daily_usage DROP CONSTRAINT IF EXISTS valid_action;
+ALTER TABLE public.account_daily_usage ADD CONSTRAINT valid_action CHECK (action IN (
+  'linkedin_message', 'linkedin_invite', 'whatsapp_message', 'email_message',
+  'linkedin_search', 'linkedin_profile_scrape', 'linkedin_like', 'linkedin_comment'
+));
+
+CREATE OR REPLACE FUNCTION public.increment_daily_usage(
+  p_workspace_id uuid,
+  p_account_id text,
+  p_action text,
+  p_usage_date date,
+  p_increment integer DEFAULT 1
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  new_count integer;
+BEGIN
+  IF p_action NOT IN (
+    'linkedin_message', 'linkedin_invite', 'whatsapp_message', 'email_message',
+    'linkedin_search', 'linkedin_profile_scrape', 'linkedin_like', 'linkedin_comment'
+  ) THEN
+    RAISE EXCEPTION 'Invalid action: %. Use linkedin_message, linkedin_invite, whatsapp_message, email_message, linkedin_search, linkedin_profile_scrape, linkedin_like, or linkedin_comment', p_action;
+  END IF;
+
+  INSERT INTO public.account_daily_usage (workspace_id, account_id, action, usage_date, count)
+  VALUES (p_workspace_id, p_account_id, p_action, p_usage_date, p_increment)
+  ON CONFLICT (workspace_id, account_id, action, usage_date)
+  DO UPDATE SET
+    count = account_daily_usage.count + p_increment,
+    updated_at = now()
+  RETURNING count INTO new_count;
+
+  RETURN new_count;
+END;
+$$;
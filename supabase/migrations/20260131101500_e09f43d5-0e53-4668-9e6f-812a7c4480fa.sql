@@ -0,0 +1,252 @@
+-- ============================================
+-- A/B message variants
+-- ============================================
+-- Campaigns with an A/B test get 2-5 rows here. Variant A mirrors the
+-- campaign's own message/subject. Each campaign_lead is assigned a variant
+-- when the campaign is created and keeps it, so results can be compared.
+
+CREATE TABLE IF NOT EXISTS public.campaign_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  label TEXT NOT NULL, -- A..E
+  message TEXT NOT NULL DEFAULT '',
+  subject TEXT, -- email only
+  is_winner BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT campaign_variants_label_check CHECK (label IN ('A', 'B', 'C', 'D', 'E')),
+  CONSTRAINT campaign_variants_campaign_label_unique UNIQUE (campaign_id, label)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_variants_campaign_id ON public.campaign_variants (campaign_id);
+
+ALTER TABLE public.campaign_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view variants of their campaigns"
+  ON public.campaign_variants FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.campaigns c
+    WHERE c.id = campaign_id
+    AND is_workspace_member(c.workspace_id)
+  ));
+
+CREATE POLICY "Users can create variants of their campaigns"
+  ON public.campaign_variants FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.campaigns c
+    WHERE c.id = campaign_id
+    AND is_workspace_member(c.workspace_id)
+  ));
+
+CREATE POLICY "Users can update variants of their campaigns"
+  ON public.campaign_variants FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.campaigns c
+    WHERE c.id = campaign_id
+    AND is_workspace_member(c.workspace_id)
+  ));
+
+CREATE POLICY "Users can delete variants of their campaigns"
+  ON public.campaign_variants FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.campaigns c
+    WHERE c.id = campaign_id
+    AND is_workspace_member(c.workspace_id)
+  ));
+
+-- Winner promotion
+-- variant_promote_after: total sends across variants before the best one is
+-- promoted automatically (NULL = only manual promotion)
+ALTER TABLE public.campaigns
+ADD COLUMN IF NOT EXISTS variant_promote_after INTEGER,
+ADD COLUMN IF NOT EXISTS winner_variant_id UUID REFERENCES public.campaign_variants(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS winner_promoted_at TIMESTAMPTZ;
+
+ALTER TABLE public.campaigns DROP CONSTRAINT IF EXISTS campaigns_variant_promote_after_check;
+ALTER TABLE public.campaigns ADD CONSTRAINT campaigns_variant_promote_after_check
+  CHECK (variant_promote_after IS NULL OR variant_promote_after >= 10);
+
+-- Variant assigned to each lead
+ALTER TABLE public.campaign_leads
+ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.campaign_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_leads_variant_id
+ON public.campaign_leads (variant_id)
+WHERE variant_id IS NOT NULL;
+
+-- ============================================
+-- Per-variant results
+-- ============================================
+CREATE OR REPLACE VIEW public.campaign_variant_stats
+WITH (security_invoker = true)
+AS
+SELECT
+  v.id AS variant_id,
+  v.campaign_id,
+  v.label,
+  v.message,
+  v.subject,
+  v.is_winner,
+  COUNT(cl.id)::integer AS leads_count,
+  COUNT(cl.id) FILTER (WHERE cl.sent_at IS NOT NULL)::integer AS sent_count,
+  COUNT(cl.id) FILTER (
+    WHERE cl.delivered_at IS NOT NULL OR cl.seen_at IS NOT NULL OR cl.replied_at IS NOT NULL
+  )::integer AS delivered_count,
+  COUNT(cl.id) FILTER (WHERE cl.seen_at IS NOT NULL OR cl.replied_at IS NOT NULL)::integer AS seen_count,
+  COUNT(cl.id) FILTER (WHERE cl.replied_at IS NOT NULL)::integer AS replied_count
+FROM public.campaign_variants v
+LEFT JOIN public.campaign_leads cl ON cl.variant_id = v.id
+GROUP BY v.id, v.campaign_id, v.label, v.message, v.subject, v.is_winner;
+
+-- ============================================
+-- Promote a variant: it becomes the campaign message and every lead not
+-- contacted yet is moved to it. Runs with the caller's permissions (RLS).
+-- ============================================
+create or replace function public.promote_campaign_variant(p_campaign_id uuid, p_variant_id uuid)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_variant public.campaign_variants%rowtype;
+begin
+  select * into v_variant
+  from public.campaign_variants
+  where id = p_variant_id
+    and campaign_id = p_campaign_id;
+
+  if not found then
+    raise exception 'Variant % does not belong to campaign %', p_variant_id, p_campaign_id;
+  end if;
+
+  update public.campaign_variants
+    set is_winner = (id = p_variant_id)
+  where campaign_id = p_campaign_id;
+
+  update public.campaigns
+    set winner_variant_id = p_variant_id,
+        winner_promoted_at = now(),
+        message = v_variant.message,
+        subject = coalesce(v_variant.subject, subject),
+        updated_at = now()
+  where id = p_campaign_id;
+
+  update public.campaign_steps
+    set message = v_variant.message
+  where campaign_id = p_campaign_id
+    and step_order = 1;
+
+  update public.campaign_leads
+    set variant_id = p_variant_id
+  where campaign_id = p_campaign_id
+    and sent_at is null
+    and variant_id is distinct from p_variant_id;
+
+  return p_variant_id;
+end;
+$$;
+
+-- ============================================
+-- Auto-promotion: once variant_promote_after sends are reached, the variant
+-- with the best reply rate wins (ties: open rate, then label).
+-- Returns the winner, or NULL when it is not time yet.
+-- ============================================
+create or replace function public.auto_promote_campaign_variant(p_campaign_id uuid)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_promote_after int;
+  v_winner_id uuid;
+  v_total_sent int;
+  v_best uuid;
+begin
+  select variant_promote_after, winner_variant_id
+  into v_promote_after, v_winner_id
+  from public.campaigns
+  where id = p_campaign_id
+  for update; -- concurrent senders promote only once
+
+  if v_winner_id is not null then
+    return v_winner_id;
+  end if;
+
+  if v_promote_after is null then
+    return null;
+  end if;
+
+  select coalesce(sum(sent_count), 0)
+  into v_total_sent
+  from public.campaign_variant_stats
+  where campaign_id = p_campaign_id;
+
+  if v_total_sent < v_promote_after then
+    return null;
+  end if;
+
+  select variant_id
+  into v_best
+  from public.campaign_variant_stats
+  where campaign_id = p_campaign_id
+    and sent_count > 0
+  order by
+    replied_count::numeric / sent_count desc,
+    seen_count::numeric / sent_count desc,
+    label asc
+  limit 1;
+
+  if v_best is null then
+    return null;
+  end if;
+
+  return public.promote_campaign_variant(p_campaign_id, v_best);
+end;
+$$;
+
+-- ============================================
+-- Re-create campaigns_with_stats so c.* includes the new campaign columns
+-- ============================================
+DROP VIEW IF EXISTS public.campaigns_with_stats;
+
+CREATE VIEW public.campaigns_with_stats 
+WITH (security_invoker = true)
+AS
+WITH lead_final_status AS (
+  -- For each campaign+lead, determine the final status
+  -- Priority: sent > failed > pending
+  SELECT DISTINCT ON (campaign_id, lead_id)
+    campaign_id,
+    lead_id,
+    status,
+    CASE status
+      WHEN 'sent' THEN 1
+      WHEN 'failed' THEN 2
+      WHEN 'pending' THEN 3
+      ELSE 4
+    END AS priority
+  FROM public.campaign_leads
+  ORDER BY campaign_id, lead_id, 
+    CASE status
+      WHEN 'sent' THEN 1
+      WHEN 'failed' THEN 2
+      WHEN 'pending' THEN 3
+      ELSE 4
+    END ASC
+)
+SELECT 
+  c.*,
+  COALESCE(stats.total_leads, 0)::integer AS actual_leads_count,
+  COALESCE(stats.sent_leads, 0)::integer AS actual_sent_count,
+  COALESCE(stats.failed_leads, 0)::integer AS actual_failed_count,
+  COALESCE(stats.pending_leads, 0)::integer AS actual_pending_count
+FROM public.campaigns c
+LEFT JOIN (
+  SELECT 
+    campaign_id,
+    COUNT(*) AS total_leads,
+    COUNT(*) FILTER (WHERE status = 'sent') AS sent_leads,
+    COUNT(*) FILTER (WHERE status = 'failed') AS failed_leads,
+    COUNT(*) FILTER (WHERE status = 'pending') AS pending_leads
+  FROM lead_final_status
+  GROUP BY campaign_id
+) stats ON stats.campaign_id = c.id;
@@ -0,0 +1,2 @@
+-- Campos personalizados do lead, usados como variáveis de template ({{nome_do_campo}})
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
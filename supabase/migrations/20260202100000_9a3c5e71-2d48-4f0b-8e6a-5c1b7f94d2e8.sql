@@ -0,0 +1,208 @@
+-- ============================================
+-- Sending windows
+-- ============================================
+-- A campaign can restrict sends to some days of the week and an hour range
+-- (local time), skip the workspace holidays and evaluate the window in each
+-- lead's own timezone (inferred from city/state/country) instead of the
+-- workspace timezone. NULL columns mean "no restriction".
+
+ALTER TABLE public.campaigns
+ADD COLUMN IF NOT EXISTS send_window_days SMALLINT[], -- 0 = Sunday .. 6 = Saturday
+ADD COLUMN IF NOT EXISTS send_window_start TIME,
+ADD COLUMN IF NOT EXISTS send_window_end TIME,
+ADD COLUMN IF NOT EXISTS skip_holidays BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS use_lead_timezone BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.campaigns
+ADD CONSTRAINT campaigns_send_window_days_check
+  CHECK (send_window_days IS NULL OR (cardinality(send_window_days) > 0 AND send_window_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[])),
+ADD CONSTRAINT campaigns_send_window_hours_check
+  CHECK (send_window_start IS NULL OR send_window_end IS NULL OR send_window_start < send_window_end);
+
+-- ============================================
+-- Workspace holidays (skipped by campaigns with skip_holidays)
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.workspace_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  holiday_date DATE NOT NULL,
+  name TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT workspace_holidays_workspace_date_unique UNIQUE (workspace_id, holiday_date)
+);
+
+ALTER TABLE public.workspace_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view workspace holidays"
+  ON public.workspace_holidays FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Admins can add workspace holidays"
+  ON public.workspace_holidays FOR INSERT
+  WITH CHECK (is_workspace_admin(workspace_id));
+
+CREATE POLICY "Admins can update workspace holidays"
+  ON public.workspace_holidays FOR UPDATE
+  USING (is_workspace_admin(workspace_id));
+
+CREATE POLICY "Admins can delete workspace holidays"
+  ON public.workspace_holidays FOR DELETE
+  USING (is_workspace_admin(workspace_id));
+
+-- ============================================
+-- Window check (mirrors supabase/functions/_shared/sendingWindow.ts)
+-- ============================================
+-- p_timezone defaults to the workspace timezone; invalid zones fall back to UTC
+CREATE OR REPLACE FUNCTION public.is_within_sending_window(
+  p_campaign_id uuid,
+  p_at timestamptz DEFAULT now(),
+  p_timezone text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+declare
+  v_campaign record;
+  v_local timestamp;
+begin
+  select c.workspace_id, c.send_window_days, c.send_window_start, c.send_window_end, c.skip_holidays,
+         coalesce(w.timezone, 'UTC') as workspace_timezone
+    into v_campaign
+  from campaigns c
+  join workspaces w on w.id = c.workspace_id
+  where c.id = p_campaign_id;
+
+  if not found then
+    return false;
+  end if;
+
+  begin
+    v_local := p_at at time zone coalesce(p_timezone, v_campaign.workspace_timezone);
+  exception when others then
+    v_local := p_at at time zone 'UTC';
+  end;
+
+  if v_campaign.send_window_days is not null
+     and not (extract(dow from v_local)::smallint = any (v_campaign.send_window_days)) then
+    return false;
+  end if;
+
+  if v_campaign.send_window_start is not null and v_local::time < v_campaign.send_window_start then
+    return false;
+  end if;
+
+  if v_campaign.send_window_end is not null and v_local::time >= v_campaign.send_window_end then
+    return false;
+  end if;
+
+  if v_campaign.skip_holidays and exists (
+    select 1 from workspace_holidays h
+    where h.workspace_id = v_campaign.workspace_id
+      and h.holiday_date = v_local::date
+  ) then
+    return false;
+  end if;
+
+  return true;
+end;
+$$;
+
+-- ============================================
+-- Only claim queue entries whose campaign window is open.
+-- Campaigns using lead timezones are claimed and filtered per lead.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.claim_due_queue_entries(
+  p_workspace_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 25
+)
+RETURNS TABLE (
+  queue_id uuid,
+  campaign_id uuid,
+  workspace_id uuid,
+  scheduled_date date,
+  leads_to_send integer,
+  leads_sent integer,
+  workspace_timezone text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    SELECT cq.id, cq.campaign_id, cq.workspace_id, cq.scheduled_date, cq.leads_to_send, cq.leads_sent
+    FROM campaign_queue cq
+    JOIN workspaces w ON w.id = cq.workspace_id
+    JOIN campaigns c ON c.id = cq.campaign_id
+    WHERE cq.status = 'queued'
+      -- Filter by workspace if provided
+      AND (p_workspace_id IS NULL OR cq.workspace_id = p_workspace_id)
+      -- Check if scheduled_date is due based on workspace timezone
+      -- We compare scheduled_date (DATE) with the current date in workspace timezone
+      AND cq.scheduled_date <= (CURRENT_TIMESTAMP AT TIME ZONE COALESCE(w.timezone, 'UTC'))::date
+      -- Sending window (days, hours, holidays) in the workspace timezone
+      AND (c.use_lead_timezone OR public.is_within_sending_window(c.id, now(), COALESCE(w.timezone, 'UTC')))
+    ORDER BY cq.created_at ASC
+    LIMIT p_limit
+    FOR UPDATE OF cq SKIP LOCKED
+  )
+  UPDATE campaign_queue cq
+  SET status = 'processing', updated_at = now()
+  FROM claimed c
+  JOIN workspaces w ON w.id = c.workspace_id
+  WHERE cq.id = c.id
+  RETURNING cq.id AS queue_id, cq.campaign_id, cq.workspace_id, cq.scheduled_date, cq.leads_to_send, cq.leads_sent, COALESCE(w.timezone, 'UTC') AS workspace_timezone;
+END;
+$function$;
+
+-- ============================================
+-- Re-create campaigns_with_stats so c.* includes the new campaign columns
+-- ============================================
+DROP VIEW IF EXISTS public.campaigns_with_stats;
+
+CREATE VIEW public.campaigns_with_stats
+WITH (security_invoker = true)
+AS
+WITH lead_final_status AS (
+  -- For each campaign+lead, determine the final status
+  -- Priority: sent > failed > pending
+  SELECT DISTINCT ON (campaign_id, lead_id)
+    campaign_id,
+    lead_id,
+    status,
+    CASE status
+      WHEN 'sent' THEN 1
+      WHEN 'failed' THEN 2
+      WHEN 'pending' THEN 3
+      ELSE 4
+    END AS priority
+  FROM public.campaign_leads
+  ORDER BY campaign_id, lead_id,
+    CASE status
+      WHEN 'sent' THEN 1
+      WHEN 'failed' THEN 2
+      WHEN 'pending' THEN 3
+      ELSE 4
+    END ASC
+)
+SELECT
+  c.*,
+  COALESCE(stats.total_leads, 0)::integer AS actual_leads_count,
+  COALESCE(stats.sent_leads, 0)::integer AS actual_sent_count,
+  COALESCE(stats.failed_leads, 0)::integer AS actual_failed_count,
+  COALESCE(stats.pending_leads, 0)::integer AS actual_pending_count
+FROM public.campaigns c
+LEFT JOIN (
+  SELECT
+    campaign_id,
+    COUNT(*) AS total_leads,
+    COUNT(*) FILTER (WHERE status = 'sent') AS sent_leads,
+    COUNT(*) FILTER (WHERE status = 'failed') AS failed_leads,
+    COUNT(*) FILTER (WHERE status = 'pending') AS pending_leads
+  FROM lead_final_status
+  GROUP BY campaign_id
+) stats ON stats.campaign_id = c.id;
@@ -0,0 +1,65 @@
+-- ============================================
+-- Multi-account rotation
+-- ============================================
+-- A campaign can send through a pool of connected accounts of its channel.
+-- campaigns.account_id stays the primary account (and the pool when there
+-- are no rows here). Accounts that disconnect are deactivated by
+-- webhook-account-status and reactivated when they reconnect.
+
+CREATE TABLE IF NOT EXISTS public.campaign_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  removed_at TIMESTAMPTZ,
+  removed_reason TEXT, -- disconnected | manual
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT campaign_accounts_campaign_account_unique UNIQUE (campaign_id, account_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_accounts_campaign_id ON public.campaign_accounts (campaign_id);
+CREATE INDEX IF NOT EXISTS idx_campaign_accounts_account_id ON public.campaign_accounts (account_id);
+
+ALTER TABLE public.campaign_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view accounts of their campaigns"
+  ON public.campaign_accounts FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.campaigns c
+    WHERE c.id = campaign_id
+    AND is_workspace_member(c.workspace_id)
+  ));
+
+CREATE POLICY "Users can add accounts to their campaigns"
+  ON public.campaign_accounts FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.campaigns c
+    JOIN public.accounts a ON a.id = account_id
+    WHERE c.id = campaign_id
+    AND a.workspace_id = c.workspace_id
+    AND is_workspace_member(c.workspace_id)
+  ));
+
+CREATE POLICY "Users can update accounts of their campaigns"
+  ON public.campaign_accounts FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM public.campaigns c
+    WHERE c.id = campaign_id
+    AND is_workspace_member(c.workspace_id)
+  ));
+
+CREATE POLICY "Users can remove accounts from their campaigns"
+  ON public.campaign_accounts FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM public.campaigns c
+    WHERE c.id = campaign_id
+    AND is_workspace_member(c.workspace_id)
+  ));
+
+-- Sender of each lead: set on the first send and kept for its follow-ups
+ALTER TABLE public.campaign_leads
+ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_leads_account_id
+ON public.campaign_leads (account_id)
+WHERE account_id IS NOT NULL;
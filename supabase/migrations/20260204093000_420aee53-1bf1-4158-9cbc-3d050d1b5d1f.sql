@@ -0,0 +1,109 @@
+-- ============================================
+-- Stop-on-reply and conversation handoff
+-- ============================================
+-- When a lead replies, its sequence stops and the lead is flagged "em conversa".
+-- reply_stop_scope decides how far the stop goes:
+--   campaign  = only the campaign that got the reply
+--   workspace = every campaign of the workspace still reaching the lead
+-- notify_on_reply sends an in-app notification to the campaign creator.
+
+ALTER TABLE public.campaigns
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS reply_stop_scope TEXT NOT NULL DEFAULT 'campaign',
+ADD COLUMN IF NOT EXISTS notify_on_reply BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.campaigns DROP CONSTRAINT IF EXISTS campaigns_reply_stop_scope_check;
+ALTER TABLE public.campaigns ADD CONSTRAINT campaigns_reply_stop_scope_check
+  CHECK (reply_stop_scope IN ('campaign', 'workspace'));
+
+-- Lead in conversation: set on the first reply, cleared when the conversation is closed
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS in_conversation_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS in_conversation_campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_in_conversation
+ON public.leads (workspace_id)
+WHERE in_conversation_at IS NOT NULL;
+
+-- ============================================
+-- In-app notifications (one row per recipient)
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL, -- lead_replied
+  title TEXT NOT NULL,
+  body TEXT,
+  campaign_id UUID REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+ON public.notifications (user_id, workspace_id, created_at DESC)
+WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Created by edge functions (service role); members only see and manage their own
+CREATE POLICY "Users can view their notifications"
+  ON public.notifications FOR SELECT
+  USING (user_id = auth.uid() AND is_workspace_member(workspace_id));
+
+CREATE POLICY "Users can update their notifications"
+  ON public.notifications FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their notifications"
+  ON public.notifications FOR DELETE
+  USING (user_id = auth.uid());
+
+-- ============================================
+-- Re-create campaigns_with_stats so c.* includes the new campaign columns
+-- ============================================
+DROP VIEW IF EXISTS public.campaigns_with_stats;
+
+CREATE VIEW public.campaigns_with_stats
+WITH (security_invoker = true)
+AS
+WITH lead_final_status AS (
+  -- For each campaign+lead, determine the final status
+  -- Priority: sent > failed > pending
+  SELECT DISTINCT ON (campaign_id, lead_id)
+    campaign_id,
+    lead_id,
+    status,
+    CASE status
+      WHEN 'sent' THEN 1
+      WHEN 'failed' THEN 2
+      WHEN 'pending' THEN 3
+      ELSE 4
+    END AS priority
+  FROM public.campaign_leads
+  ORDER BY campaign_id, lead_id,
+    CASE status
+      WHEN 'sent' THEN 1
+      WHEN 'failed' THEN 2
+      WHEN 'pending' THEN 3
+      ELSE 4
+    END ASC
+)
+SELECT
+  c.*,
+  COALESCE(stats.total_leads, 0)::integer AS actual_leads_count,
+  COALESCE(stats.sent_leads, 0)::integer AS actual_sent_count,
+  COALESCE(stats.failed_leads, 0)::integer AS actual_failed_count,
+  COALESCE(stats.pending_leads, 0)::integer AS actual_pending_count
+FROM public.campaigns c
+LEFT JOIN (
+  SELECT
+    campaign_id,
+    COUNT(*) AS total_leads,
+    COUNT(*) FILTER (WHERE status = 'sent') AS sent_leads,
+    COUNT(*) FILTER (WHERE status = 'failed') AS failed_leads,
+    COUNT(*) FILTER (WHERE status = 'pending') AS pending_leads
+  FROM lead_final_status
+  GROUP BY campaign_id
+) stats ON stats.campaign_id = c.id;
@@ -0,0 +1,44 @@
+-- ============================================
+-- Account warm-up ramp
+-- ============================================
+-- Newly connected LinkedIn/WhatsApp accounts start with a low daily limit that
+-- grows every day until it reaches the workspace (or account) limit:
+--   limit on day N = min(target, warmup_start_limit + (N - 1) * warmup_daily_increase)
+-- Enforced by the daily-usage checks of the edge functions (_shared/warmup.ts).
+-- Accounts connected before this migration keep their full limits.
+
+ALTER TABLE public.accounts
+ADD COLUMN IF NOT EXISTS warmup_enabled BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS warmup_started_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS warmup_start_limit INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN IF NOT EXISTS warmup_daily_increase INTEGER NOT NULL DEFAULT 2;
+
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_warmup_start_limit_check;
+ALTER TABLE public.accounts ADD CONSTRAINT accounts_warmup_start_limit_check
+  CHECK (warmup_start_limit BETWEEN 1 AND 500);
+
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_warmup_daily_increase_check;
+ALTER TABLE public.accounts ADD CONSTRAINT accounts_warmup_daily_increase_check
+  CHECK (warmup_daily_increase BETWEEN 0 AND 100);
+
+-- Every insert path (connect link webhook, save-account, sync-accounts) starts
+-- the ramp; reconnections upsert the existing row and keep its stage.
+CREATE OR REPLACE FUNCTION public.start_account_warmup()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.channel IN ('linkedin', 'whatsapp') THEN
+    NEW.warmup_enabled := true;
+    NEW.warmup_started_at := COALESCE(NEW.warmup_started_at, now());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS accounts_start_warmup ON public.accounts;
+CREATE TRIGGER accounts_start_warmup
+  BEFORE INSERT ON public.accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.start_account_warmup();
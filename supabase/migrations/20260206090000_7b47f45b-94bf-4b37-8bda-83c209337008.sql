@@ -0,0 +1,50 @@
+-- ============================================
+-- Do-not-contact list (workspace suppression)
+-- ============================================
+-- Leads matching an entry (email, phone, LinkedIn public identifier or
+-- company domain) are never contacted: create-campaign and the send paths
+-- mark them campaign_leads.status = 'skipped' with skip_reason
+-- 'suppressed_<entry_type>'. Opt-out replies ("pare", "sair"...) detected by
+-- the webhooks add the lead's identifiers with reason 'opt_out'.
+-- Values are stored normalized (see supabase/functions/_shared/suppression.ts).
+
+CREATE TABLE IF NOT EXISTS public.suppression_list (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL,
+  value TEXT NOT NULL,
+  reason TEXT NOT NULL DEFAULT 'manual',
+  note TEXT,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT suppression_list_entry_type_check CHECK (entry_type IN ('email', 'phone', 'linkedin', 'domain')),
+  CONSTRAINT suppression_list_reason_check CHECK (reason IN ('manual', 'import', 'opt_out')),
+  CONSTRAINT suppression_list_value_check CHECK (length(value) > 0),
+  CONSTRAINT suppression_list_workspace_entry_unique UNIQUE (workspace_id, entry_type, value)
+);
+
+-- Send paths look entries up by value for a batch of leads
+CREATE INDEX IF NOT EXISTS idx_suppression_list_value
+ON public.suppression_list (workspace_id, value);
+
+ALTER TABLE public.suppression_list ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view the suppression list"
+  ON public.suppression_list FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+-- Any member can block a contact; only admins can unblock
+CREATE POLICY "Members can add to the suppression list"
+  ON public.suppression_list FOR INSERT
+  WITH CHECK (is_workspace_member(workspace_id));
+
+CREATE POLICY "Admins can delete from the suppression list"
+  ON public.suppression_list FOR DELETE
+  USING (is_workspace_admin(workspace_id));
+
+-- Skipped leads per reason are reported from campaign_leads
+CREATE INDEX IF NOT EXISTS idx_campaign_leads_skipped
+ON public.campaign_leads (campaign_id, skip_reason)
+WHERE status = 'skipped';
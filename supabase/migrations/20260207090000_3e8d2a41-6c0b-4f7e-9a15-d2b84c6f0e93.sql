@@ -0,0 +1,115 @@
+-- ============================================
+-- Unified inbox (LinkedIn and WhatsApp conversations)
+-- ============================================
+-- Webhook message events are persisted into chats/messages (see
+-- supabase/functions/_shared/inbox.ts). A chat is linked to the lead and
+-- campaign it came from when the webhooks can match it to a campaign_lead.
+-- Replies sent from the inbox go through the inbox-send-message function.
+-- Unread counts are per user: messages from the contact newer than the
+-- user's chat_reads.last_read_at.
+-- The previous chats/messages cache was dropped in 20260121122958.
+
+CREATE TABLE IF NOT EXISTS public.chats (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  external_id TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  attendee_identifier TEXT,
+  attendee_name TEXT,
+  attendee_picture TEXT,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL,
+  last_message TEXT,
+  last_message_type TEXT,
+  last_message_sender TEXT,
+  last_message_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT chats_channel_check CHECK (channel IN ('linkedin', 'whatsapp')),
+  CONSTRAINT chats_workspace_external_id_unique UNIQUE (workspace_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chats_workspace_last_message
+ON public.chats (workspace_id, last_message_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_chats_lead_id
+ON public.chats (lead_id)
+WHERE lead_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  external_id TEXT,
+  sender TEXT NOT NULL,
+  sent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  text TEXT,
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  timestamp TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT messages_sender_check CHECK (sender IN ('me', 'them')),
+  -- Both webhooks may deliver the same message
+  CONSTRAINT messages_workspace_external_id_unique UNIQUE (workspace_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_chat_timestamp
+ON public.messages (chat_id, timestamp);
+
+-- Last time each user opened each chat
+CREATE TABLE IF NOT EXISTS public.chat_reads (
+  chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (chat_id, user_id)
+);
+
+ALTER TABLE public.chats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_reads ENABLE ROW LEVEL SECURITY;
+
+-- Chats and messages are written by the webhooks and inbox-send-message (service role)
+CREATE POLICY "Members can view chats"
+  ON public.chats FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can view messages"
+  ON public.messages FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Users can view their chat reads"
+  ON public.chat_reads FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark chats as read"
+  ON public.chat_reads FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.chats c WHERE c.id = chat_id AND is_workspace_member(c.workspace_id))
+  );
+
+CREATE POLICY "Users can update their chat reads"
+  ON public.chat_reads FOR UPDATE
+  USING (user_id = auth.uid());
+
+-- ============================================
+-- Unread messages per chat for the current user
+-- ============================================
+CREATE OR REPLACE FUNCTION public.get_inbox_unread_counts(p_workspace_id uuid)
+RETURNS TABLE (chat_id uuid, unread_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.chat_id, COUNT(*) AS unread_count
+  FROM public.messages m
+  LEFT JOIN public.chat_reads r
+    ON r.chat_id = m.chat_id AND r.user_id = auth.uid()
+  WHERE m.workspace_id = p_workspace_id
+    AND m.sender = 'them'
+    AND (r.last_read_at IS NULL OR m.timestamp > r.last_read_at)
+  GROUP BY m.chat_id;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chats;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
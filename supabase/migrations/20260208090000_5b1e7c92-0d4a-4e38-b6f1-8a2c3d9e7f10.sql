@@ -0,0 +1,22 @@
+-- ============================================
+-- Reply intent classification
+-- ============================================
+-- Inbound replies are classified offline by keyword rules
+-- (supabase/functions/_shared/replyIntent.ts). The intent of the latest reply
+-- is stored on campaign_leads and in the reply event's metadata
+-- (campaign_events.metadata.reply_intent). An opt-out is never overwritten.
+
+ALTER TABLE public.campaign_leads
+  ADD COLUMN IF NOT EXISTS reply_intent TEXT;
+
+ALTER TABLE public.campaign_leads
+  ADD CONSTRAINT campaign_leads_reply_intent_check CHECK (
+    reply_intent IS NULL OR reply_intent IN (
+      'interested', 'not_interested', 'out_of_office', 'wrong_person', 'opt_out', 'question', 'unclassified'
+    )
+  );
+
+-- Reports count replies per intent
+CREATE INDEX IF NOT EXISTS idx_campaign_leads_reply_intent
+ON public.campaign_leads (campaign_id, reply_intent)
+WHERE reply_intent IS NOT NULL;
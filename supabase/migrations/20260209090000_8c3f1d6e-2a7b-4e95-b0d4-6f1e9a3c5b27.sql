@@ -0,0 +1,190 @@
+-- ============================================
+-- Saved replies (snippet library)
+-- ============================================
+-- Workspace-shared message snippets (title, body, channel, optional
+-- /shortcut) using the same {{variables}} as campaign messages. Every content
+-- edit bumps snippets.version and keeps the previous content in
+-- snippet_versions. Each insertion is logged in snippet_usages:
+--   campaign  -> inserted into a campaign message (reply = lead replied to it)
+--   inbox     -> inserted into an inbox reply (reply = next message from them)
+--   lead_copy -> copied from the lead drawer (reply = next message in any of
+--                the lead's chats)
+-- get_snippet_stats aggregates usage count and reply rate per snippet.
+
+CREATE TABLE IF NOT EXISTS public.snippets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'any',
+  shortcut TEXT,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT snippets_channel_check CHECK (channel IN ('any', 'email', 'whatsapp', 'linkedin')),
+  CONSTRAINT snippets_title_check CHECK (length(trim(title)) > 0),
+  CONSTRAINT snippets_body_check CHECK (length(body) > 0),
+  CONSTRAINT snippets_shortcut_check CHECK (shortcut IS NULL OR shortcut ~ '^[a-z0-9_-]{1,32}$')
+);
+
+-- Shortcuts are typed as /shortcut in the inbox composer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_snippets_workspace_shortcut
+ON public.snippets (workspace_id, shortcut)
+WHERE shortcut IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_snippets_workspace
+ON public.snippets (workspace_id, title);
+
+CREATE TABLE IF NOT EXISTS public.snippet_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  snippet_id UUID NOT NULL REFERENCES public.snippets(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  shortcut TEXT,
+  edited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT snippet_versions_unique UNIQUE (snippet_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS public.snippet_usages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  snippet_id UUID NOT NULL REFERENCES public.snippets(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  context TEXT NOT NULL,
+  used_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  campaign_id UUID REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  chat_id UUID REFERENCES public.chats(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT snippet_usages_context_check CHECK (context IN ('campaign', 'inbox', 'lead_copy'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_snippet_usages_snippet
+ON public.snippet_usages (snippet_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_snippet_usages_workspace
+ON public.snippet_usages (workspace_id);
+
+-- Content edits archive the previous version; usage-only updates do not
+CREATE OR REPLACE FUNCTION public.version_snippet()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.body IS DISTINCT FROM OLD.body
+    OR NEW.channel IS DISTINCT FROM OLD.channel
+    OR NEW.shortcut IS DISTINCT FROM OLD.shortcut THEN
+    INSERT INTO public.snippet_versions (snippet_id, workspace_id, version, title, body, channel, shortcut, edited_by)
+    VALUES (OLD.id, OLD.workspace_id, OLD.version, OLD.title, OLD.body, OLD.channel, OLD.shortcut, OLD.updated_by)
+    ON CONFLICT (snippet_id, version) DO NOTHING;
+
+    NEW.version := OLD.version + 1;
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS snippets_version ON public.snippets;
+CREATE TRIGGER snippets_version
+  BEFORE UPDATE ON public.snippets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.version_snippet();
+
+ALTER TABLE public.snippets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.snippet_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.snippet_usages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view snippets"
+  ON public.snippets FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can create snippets"
+  ON public.snippets FOR INSERT
+  WITH CHECK (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can edit snippets"
+  ON public.snippets FOR UPDATE
+  USING (is_workspace_member(workspace_id));
+
+-- Shared library: only the author or an admin removes a snippet
+CREATE POLICY "Authors and admins can delete snippets"
+  ON public.snippets FOR DELETE
+  USING (created_by = auth.uid() OR is_workspace_admin(workspace_id));
+
+-- Versions are written by the trigger (runs as the editing member)
+CREATE POLICY "Members can view snippet versions"
+  ON public.snippet_versions FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can archive snippet versions"
+  ON public.snippet_versions FOR INSERT
+  WITH CHECK (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can view snippet usages"
+  ON public.snippet_usages FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can log snippet usages"
+  ON public.snippet_usages FOR INSERT
+  WITH CHECK (is_workspace_member(workspace_id) AND used_by = auth.uid());
+
+-- Usage and reply counts per snippet. A campaign counts each lead it reached
+-- (once, even if the snippet was inserted more than once); manual uses count
+-- as one contact replied when a message from them arrived afterwards.
+CREATE OR REPLACE FUNCTION public.get_snippet_stats(p_workspace_id uuid)
+RETURNS TABLE (snippet_id uuid, usage_count bigint, reached_count bigint, replied_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH usages AS (
+    SELECT u.*
+    FROM public.snippet_usages u
+    WHERE u.workspace_id = p_workspace_id
+  ),
+  campaign_reach AS (
+    SELECT c.snippet_id,
+      COUNT(cl.id) FILTER (WHERE cl.sent_at IS NOT NULL) AS reached,
+      COUNT(cl.id) FILTER (WHERE cl.sent_at IS NOT NULL AND cl.replied_at IS NOT NULL) AS replied
+    FROM (SELECT DISTINCT u.snippet_id, u.campaign_id FROM usages u WHERE u.context = 'campaign') c
+    JOIN public.campaign_leads cl ON cl.campaign_id = c.campaign_id
+    GROUP BY c.snippet_id
+  ),
+  manual_reach AS (
+    SELECT u.snippet_id,
+      COUNT(*) AS reached,
+      COUNT(*) FILTER (WHERE EXISTS (
+        SELECT 1
+        FROM public.messages m
+        JOIN public.chats ch ON ch.id = m.chat_id
+        WHERE m.sender = 'them'
+          AND m.timestamp > u.created_at
+          AND ((u.chat_id IS NOT NULL AND m.chat_id = u.chat_id)
+            OR (u.chat_id IS NULL AND u.lead_id IS NOT NULL AND ch.lead_id = u.lead_id))
+      )) AS replied
+    FROM usages u
+    WHERE u.context IN ('inbox', 'lead_copy')
+    GROUP BY u.snippet_id
+  ),
+  totals AS (
+    SELECT u.snippet_id, COUNT(*) AS usage_count
+    FROM usages u
+    GROUP BY u.snippet_id
+  )
+  SELECT t.snippet_id,
+    t.usage_count,
+    COALESCE(cr.reached, 0) + COALESCE(mr.reached, 0) AS reached_count,
+    COALESCE(cr.replied, 0) + COALESCE(mr.replied, 0) AS replied_count
+  FROM totals t
+  LEFT JOIN campaign_reach cr ON cr.snippet_id = t.snippet_id
+  LEFT JOIN manual_reach mr ON mr.snippet_id = t.snippet_id;
+$$;
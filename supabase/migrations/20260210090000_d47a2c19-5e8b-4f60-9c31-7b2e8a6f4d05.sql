@@ -0,0 +1,284 @@
+-- ============================================
+-- Conversation assignment and response-time SLA
+-- ============================================
+-- Leads and inbox chats can be owned by a workspace member (assigned_to).
+-- New chats are assigned automatically according to
+-- workspace_settings.conversation_assignment_mode:
+--   manual      -> nobody (members assign from the inbox)
+--   round_robin -> the member who received a conversation longest ago
+--   account     -> accounts.owner_id of the account the chat came in on
+-- In every mode a chat whose lead already has an owner goes to that owner.
+--
+-- chats.awaiting_reply_since holds the oldest inbound message nobody answered.
+-- The first reply after it is logged in chat_response_times (time to first
+-- response), attributed to the member who sent it from the inbox or, for
+-- replies sent from the phone/LinkedIn itself, to the chat's assignee.
+-- A chat is overdue once it waits longer than workspace_settings.response_sla_minutes.
+
+ALTER TABLE public.workspace_settings
+ADD COLUMN IF NOT EXISTS conversation_assignment_mode TEXT NOT NULL DEFAULT 'manual',
+ADD COLUMN IF NOT EXISTS response_sla_minutes INTEGER NOT NULL DEFAULT 240;
+
+ALTER TABLE public.workspace_settings DROP CONSTRAINT IF EXISTS workspace_settings_assignment_mode_check;
+ALTER TABLE public.workspace_settings ADD CONSTRAINT workspace_settings_assignment_mode_check
+  CHECK (conversation_assignment_mode IN ('manual', 'round_robin', 'account'));
+
+ALTER TABLE public.workspace_settings DROP CONSTRAINT IF EXISTS workspace_settings_response_sla_check;
+ALTER TABLE public.workspace_settings ADD CONSTRAINT workspace_settings_response_sla_check
+  CHECK (response_sla_minutes BETWEEN 5 AND 10080);
+
+ALTER TABLE public.accounts
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ;
+
+ALTER TABLE public.chats
+ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS awaiting_reply_since TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_leads_assigned_to
+ON public.leads (workspace_id, assigned_to)
+WHERE assigned_to IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_chats_assigned_to
+ON public.chats (workspace_id, assigned_to, assigned_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_chats_awaiting_reply
+ON public.chats (workspace_id, awaiting_reply_since)
+WHERE awaiting_reply_since IS NOT NULL;
+
+-- Members assign conversations from the inbox
+CREATE POLICY "Members can update chats"
+  ON public.chats FOR UPDATE
+  USING (is_workspace_member(workspace_id));
+
+CREATE TABLE IF NOT EXISTS public.chat_response_times (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  waiting_since TIMESTAMPTZ NOT NULL,
+  responded_at TIMESTAMPTZ NOT NULL,
+  response_seconds INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT chat_response_times_message_unique UNIQUE (message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_response_times_workspace
+ON public.chat_response_times (workspace_id, responded_at DESC);
+
+ALTER TABLE public.chat_response_times ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the messages trigger only
+CREATE POLICY "Members can view response times"
+  ON public.chat_response_times FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+-- ============= AUTO-ASSIGNMENT =============
+
+CREATE OR REPLACE FUNCTION public.pick_chat_assignee(p_workspace_id uuid, p_account_id uuid, p_lead_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mode TEXT;
+  v_user UUID;
+BEGIN
+  IF p_lead_id IS NOT NULL THEN
+    SELECT assigned_to INTO v_user FROM public.leads WHERE id = p_lead_id;
+    IF v_user IS NOT NULL THEN
+      RETURN v_user;
+    END IF;
+  END IF;
+
+  SELECT conversation_assignment_mode INTO v_mode
+  FROM public.workspace_settings
+  WHERE workspace_id = p_workspace_id;
+
+  IF v_mode = 'account' THEN
+    SELECT a.owner_id INTO v_user
+    FROM public.accounts a
+    JOIN public.workspace_members m ON m.workspace_id = a.workspace_id AND m.user_id = a.owner_id
+    WHERE a.id = p_account_id;
+    RETURN v_user;
+  END IF;
+
+  IF v_mode = 'round_robin' THEN
+    SELECT m.user_id INTO v_user
+    FROM public.workspace_members m
+    LEFT JOIN LATERAL (
+      SELECT max(c.assigned_at) AS last_assigned_at
+      FROM public.chats c
+      WHERE c.workspace_id = p_workspace_id AND c.assigned_to = m.user_id
+    ) last ON true
+    WHERE m.workspace_id = p_workspace_id
+    ORDER BY last.last_assigned_at ASC NULLS FIRST, m.joined_at ASC
+    LIMIT 1;
+    RETURN v_user;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Runs when a chat is created and when it gets linked to a lead afterwards
+-- (webhooks link leads after the upsert); manual unassignment sticks.
+CREATE OR REPLACE FUNCTION public.assign_new_chat()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assigned_to IS NULL THEN
+    NEW.assigned_to := public.pick_chat_assignee(NEW.workspace_id, NEW.account_id, NEW.lead_id);
+    IF NEW.assigned_to IS NOT NULL THEN
+      NEW.assigned_at := now();
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS chats_assign_new ON public.chats;
+CREATE TRIGGER chats_assign_new
+  BEFORE INSERT ON public.chats
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_new_chat();
+
+DROP TRIGGER IF EXISTS chats_assign_on_lead_link ON public.chats;
+CREATE TRIGGER chats_assign_on_lead_link
+  BEFORE UPDATE OF lead_id ON public.chats
+  FOR EACH ROW
+  WHEN (OLD.lead_id IS NULL AND NEW.lead_id IS NOT NULL)
+  EXECUTE FUNCTION public.assign_new_chat();
+
+-- ============= RESPONSE TRACKING =============
+
+CREATE OR REPLACE FUNCTION public.track_chat_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_chat public.chats%ROWTYPE;
+BEGIN
+  SELECT * INTO v_chat FROM public.chats WHERE id = NEW.chat_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.sender = 'them' THEN
+    -- Webhooks can deliver out of order: an inbound message older than our
+    -- latest reply was already answered
+    IF (v_chat.awaiting_reply_since IS NULL OR NEW.timestamp < v_chat.awaiting_reply_since) AND NOT EXISTS (
+      SELECT 1 FROM public.messages m
+      WHERE m.chat_id = NEW.chat_id AND m.sender = 'me' AND m.timestamp >= NEW.timestamp
+    ) THEN
+      UPDATE public.chats SET awaiting_reply_since = NEW.timestamp WHERE id = NEW.chat_id;
+    END IF;
+  ELSIF v_chat.awaiting_reply_since IS NOT NULL AND NEW.timestamp >= v_chat.awaiting_reply_since THEN
+    INSERT INTO public.chat_response_times (
+      workspace_id, chat_id, message_id, user_id, waiting_since, responded_at, response_seconds
+    ) VALUES (
+      NEW.workspace_id,
+      NEW.chat_id,
+      NEW.id,
+      COALESCE(NEW.sent_by, v_chat.assigned_to),
+      v_chat.awaiting_reply_since,
+      NEW.timestamp,
+      GREATEST(0, EXTRACT(EPOCH FROM NEW.timestamp - v_chat.awaiting_reply_since))::integer
+    )
+    ON CONFLICT (message_id) DO NOTHING;
+
+    UPDATE public.chats SET awaiting_reply_since = NULL WHERE id = NEW.chat_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS messages_track_response ON public.messages;
+CREATE TRIGGER messages_track_response
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_chat_response();
+
+-- Existing chats waiting on us: oldest inbound message after our last reply
+UPDATE public.chats c
+SET awaiting_reply_since = pending.since
+FROM (
+  SELECT m.chat_id, min(m.timestamp) AS since
+  FROM public.messages m
+  WHERE m.sender = 'them'
+    AND m.timestamp > COALESCE((
+      SELECT max(r.timestamp) FROM public.messages r
+      WHERE r.chat_id = m.chat_id AND r.sender = 'me'
+    ), '-infinity'::timestamptz)
+  GROUP BY m.chat_id
+) pending
+WHERE pending.chat_id = c.id;
+
+-- Response time per member since p_since, plus their open and overdue chats.
+-- user_id NULL aggregates unassigned chats and replies nobody can be credited for.
+CREATE OR REPLACE FUNCTION public.get_response_time_stats(p_workspace_id uuid, p_since timestamptz)
+RETURNS TABLE (
+  user_id uuid,
+  responses_count bigint,
+  avg_response_seconds numeric,
+  median_response_seconds numeric,
+  within_sla_count bigint,
+  awaiting_count bigint,
+  overdue_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH sla AS (
+    SELECT COALESCE((
+      SELECT response_sla_minutes FROM public.workspace_settings WHERE workspace_id = p_workspace_id
+    ), 240) AS minutes
+  ),
+  responses AS (
+    SELECT r.user_id,
+      COUNT(*) AS responses_count,
+      AVG(r.response_seconds)::numeric AS avg_response_seconds,
+      (percentile_cont(0.5) WITHIN GROUP (ORDER BY r.response_seconds))::numeric AS median_response_seconds,
+      COUNT(*) FILTER (WHERE r.response_seconds <= (SELECT minutes FROM sla) * 60) AS within_sla_count
+    FROM public.chat_response_times r
+    WHERE r.workspace_id = p_workspace_id
+      AND r.responded_at >= p_since
+    GROUP BY r.user_id
+  ),
+  waiting AS (
+    SELECT c.assigned_to AS user_id,
+      COUNT(*) AS awaiting_count,
+      COUNT(*) FILTER (
+        WHERE c.awaiting_reply_since < now() - make_interval(mins => (SELECT minutes FROM sla))
+      ) AS overdue_count
+    FROM public.chats c
+    WHERE c.workspace_id = p_workspace_id
+      AND c.awaiting_reply_since IS NOT NULL
+    GROUP BY c.assigned_to
+  )
+  SELECT COALESCE(r.user_id, w.user_id) AS user_id,
+    COALESCE(r.responses_count, 0) AS responses_count,
+    r.avg_response_seconds,
+    r.median_response_seconds,
+    COALESCE(r.within_sla_count, 0) AS within_sla_count,
+    COALESCE(w.awaiting_count, 0) AS awaiting_count,
+    COALESCE(w.overdue_count, 0) AS overdue_count
+  FROM responses r
+  -- NULL (unassigned) must match NULL; FULL JOIN needs a plain equality
+  FULL OUTER JOIN waiting w
+    ON COALESCE(w.user_id, '00000000-0000-0000-0000-000000000000'::uuid)
+     = COALESCE(r.user_id, '00000000-0000-0000-0000-000000000000'::uuid);
+$$;
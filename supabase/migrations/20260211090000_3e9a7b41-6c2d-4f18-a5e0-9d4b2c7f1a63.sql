@@ -0,0 +1,42 @@
+-- ============================================
+-- Send attempts per campaign lead
+-- ============================================
+-- campaign_leads only keeps the outcome of the last attempt (error, retry_count),
+-- so a lead that failed twice and then went out shows no trace of the failures.
+-- Every provider call made by send-campaign and process-campaign-queue now logs
+-- one row here: the step, the attempt number, the outcome and the error or
+-- provider message id. Together with campaign_events and unipile_events it
+-- feeds the per-lead delivery timeline shown in the campaign leads dialog.
+
+CREATE TABLE IF NOT EXISTS public.campaign_send_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  campaign_lead_id UUID NOT NULL REFERENCES public.campaign_leads(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL DEFAULT 1,
+  attempt INTEGER NOT NULL DEFAULT 1,
+  outcome TEXT NOT NULL,
+  error TEXT,
+  provider_message_id TEXT,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  channel TEXT,
+  action TEXT,
+  source TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT campaign_send_attempts_outcome_check CHECK (outcome IN ('sent', 'failed', 'bounced')),
+  CONSTRAINT campaign_send_attempts_source_check CHECK (source IN ('send-campaign', 'process-campaign-queue'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_send_attempts_lead
+ON public.campaign_send_attempts (campaign_lead_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_send_attempts_campaign
+ON public.campaign_send_attempts (campaign_id);
+
+ALTER TABLE public.campaign_send_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge functions with the service role; members only read
+CREATE POLICY "Members can view send attempts"
+  ON public.campaign_send_attempts FOR SELECT
+  USING (is_workspace_member(workspace_id));
@@ -0,0 +1,93 @@
+-- ============================================
+-- Campaign attachments (WhatsApp media, voice notes, LinkedIn documents)
+-- ============================================
+-- Files are uploaded once to the private campaign-attachments bucket under
+-- <workspace_id>/<uuid>/<file name> and referenced by campaign_attachments.
+-- The send loops download them once per run and attach the same bytes to the
+-- first message of every lead. Duplicated campaigns point at the same objects.
+--
+-- Allowed types per channel (checked again by create-campaign):
+--   whatsapp    -> images, PDF and audio (voice notes), up to 16 MB each
+--   linkedin DM -> documents (PDF, Word, PowerPoint), up to 15 MB each
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'campaign-attachments',
+  'campaign-attachments',
+  false,
+  16777216, -- 16 MB limit
+  ARRAY[
+    'image/jpeg', 'image/png', 'image/webp',
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'audio/ogg', 'audio/mpeg', 'audio/mp4', 'audio/aac'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Workspace members can upload campaign attachments"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'campaign-attachments' AND
+  EXISTS (
+    SELECT 1 FROM public.workspace_members wm
+    WHERE wm.user_id = auth.uid()
+    AND wm.workspace_id::text = (storage.foldername(name))[1]
+  )
+);
+
+CREATE POLICY "Workspace members can view campaign attachments"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'campaign-attachments' AND
+  EXISTS (
+    SELECT 1 FROM public.workspace_members wm
+    WHERE wm.user_id = auth.uid()
+    AND wm.workspace_id::text = (storage.foldername(name))[1]
+  )
+);
+
+CREATE POLICY "Workspace members can delete campaign attachments"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'campaign-attachments' AND
+  EXISTS (
+    SELECT 1 FROM public.workspace_members wm
+    WHERE wm.user_id = auth.uid()
+    AND wm.workspace_id::text = (storage.foldername(name))[1]
+  )
+);
+
+CREATE TABLE IF NOT EXISTS public.campaign_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  kind TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT campaign_attachments_kind_check CHECK (kind IN ('image', 'document', 'audio')),
+  CONSTRAINT campaign_attachments_size_check CHECK (size_bytes > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_attachments_campaign
+ON public.campaign_attachments (campaign_id, position);
+
+ALTER TABLE public.campaign_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view campaign attachments"
+  ON public.campaign_attachments FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can add campaign attachments"
+  ON public.campaign_attachments FOR INSERT
+  WITH CHECK (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can remove campaign attachments"
+  ON public.campaign_attachments FOR DELETE
+  USING (is_workspace_member(workspace_id));
@@ -0,0 +1,77 @@
+-- ============================================
+-- Idempotent sending: per-lead send leases and idempotency keys
+-- ============================================
+-- send-campaign (manual "send") and process-campaign-queue (scheduler) both
+-- walk pending campaign_leads. Before calling the provider a worker now claims
+-- the row with claim_campaign_lead: a lease (lock_token + locked_until) that
+-- only succeeds while the row is still in the state the worker read
+-- (retry_count and, for follow-ups, current_step). A second invocation, or a
+-- worker holding a stale snapshot, gets NULL and skips the lead. Leases expire
+-- on their own, so a crashed worker never blocks a lead for good.
+--
+-- Every provider call carries an idempotency key (<campaign_lead_id>:step:<n>).
+-- A successful attempt is stored once per key in campaign_send_attempts; a
+-- worker that finds it skips the call and only records the outcome.
+
+ALTER TABLE public.campaign_leads
+ADD COLUMN IF NOT EXISTS lock_token UUID,
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;
+
+ALTER TABLE public.campaign_send_attempts
+ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_campaign_send_attempts_sent_key
+ON public.campaign_send_attempts (idempotency_key)
+WHERE outcome = 'sent' AND idempotency_key IS NOT NULL;
+
+-- Returns the lease token, or NULL when another worker holds the lead or the
+-- lead changed since it was read. p_current_step NULL claims a first message
+-- (pending, or failed and waiting for a retry); otherwise the follow-up after
+-- that step.
+CREATE OR REPLACE FUNCTION public.claim_campaign_lead(
+  p_campaign_lead_id uuid,
+  p_retry_count integer,
+  p_current_step integer DEFAULT NULL,
+  p_lease_seconds integer DEFAULT 600
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_token uuid := gen_random_uuid();
+BEGIN
+  UPDATE campaign_leads
+  SET lock_token = v_token,
+      locked_until = now() + make_interval(secs => GREATEST(p_lease_seconds, 30))
+  WHERE id = p_campaign_lead_id
+    AND (locked_until IS NULL OR locked_until < now())
+    AND retry_count = p_retry_count
+    AND (
+      (p_current_step IS NULL AND status IN ('pending', 'failed'))
+      OR (p_current_step IS NOT NULL
+        AND sequence_status = 'active'
+        AND current_step = p_current_step
+        AND next_step_at <= now())
+    );
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  RETURN v_token;
+END;
+$$;
+
+-- Ends a lease early (after the outcome is written). Only the holder can release it.
+CREATE OR REPLACE FUNCTION public.release_campaign_lead(
+  p_campaign_lead_id uuid,
+  p_lock_token uuid
+)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE campaign_leads
+  SET lock_token = NULL, locked_until = NULL
+  WHERE id = p_campaign_lead_id AND lock_token = p_lock_token;
+$$;
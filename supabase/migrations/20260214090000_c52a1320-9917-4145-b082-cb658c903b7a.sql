@@ -0,0 +1,236 @@
+-- ============================================
+-- Campaign pause/resume and mid-flight message edits
+-- ============================================
+-- pause_campaign stops a running campaign: its queue days are parked as
+-- 'paused' and the send loops (send-campaign, process-campaign-queue) check
+-- the status between leads, so an in-flight run stops after the current lead.
+-- resume_campaign puts the parked days back in the queue and pushes pending
+-- follow-ups by the time the campaign stood still; the client then calls
+-- send-campaign with replan=true, which replaces those days with a plan made
+-- from today. If the replan fails, the old days still send the leads.
+--
+-- Editing the message of a launched campaign only affects leads not sent yet.
+-- Every change of campaigns.message/subject bumps message_version and keeps a
+-- copy in campaign_message_versions; the send loops stamp the version on each
+-- campaign_lead they send, so the report shows who got which version.
+
+ALTER TABLE public.campaigns
+ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS message_version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.campaign_leads
+ADD COLUMN IF NOT EXISTS message_version INTEGER;
+
+-- Everything sent so far went out with the original message
+UPDATE public.campaign_leads
+SET message_version = 1
+WHERE sent_at IS NOT NULL AND message_version IS NULL;
+
+-- Leads not sent yet can be removed from a running campaign
+CREATE POLICY "Users can delete pending campaign leads"
+  ON public.campaign_leads FOR DELETE
+  USING (
+    status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM public.campaigns c
+      WHERE c.id = campaign_id
+      AND is_workspace_member(c.workspace_id)
+    )
+  );
+
+-- ============= MESSAGE VERSIONS =============
+
+CREATE TABLE IF NOT EXISTS public.campaign_message_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  message TEXT NOT NULL,
+  subject TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT campaign_message_versions_unique UNIQUE (campaign_id, version)
+);
+
+ALTER TABLE public.campaign_message_versions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the campaigns triggers only
+CREATE POLICY "Members can view campaign message versions"
+  ON public.campaign_message_versions FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+INSERT INTO public.campaign_message_versions (workspace_id, campaign_id, version, message, subject, created_by, created_at)
+SELECT workspace_id, id, message_version, message, subject, created_by, created_at
+FROM public.campaigns
+ON CONFLICT (campaign_id, version) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.bump_campaign_message_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.message_version := OLD.message_version + 1;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS campaigns_bump_message_version ON public.campaigns;
+CREATE TRIGGER campaigns_bump_message_version
+  BEFORE UPDATE OF message, subject ON public.campaigns
+  FOR EACH ROW
+  WHEN (OLD.message IS DISTINCT FROM NEW.message OR OLD.subject IS DISTINCT FROM NEW.subject)
+  EXECUTE FUNCTION public.bump_campaign_message_version();
+
+CREATE OR REPLACE FUNCTION public.record_campaign_message_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO campaign_message_versions (workspace_id, campaign_id, version, message, subject, created_by)
+  VALUES (NEW.workspace_id, NEW.id, NEW.message_version, NEW.message, NEW.subject, auth.uid())
+  ON CONFLICT (campaign_id, version) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS campaigns_record_first_message_version ON public.campaigns;
+CREATE TRIGGER campaigns_record_first_message_version
+  AFTER INSERT ON public.campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_campaign_message_version();
+
+DROP TRIGGER IF EXISTS campaigns_record_message_version ON public.campaigns;
+CREATE TRIGGER campaigns_record_message_version
+  AFTER UPDATE OF message_version ON public.campaigns
+  FOR EACH ROW
+  WHEN (OLD.message_version IS DISTINCT FROM NEW.message_version)
+  EXECUTE FUNCTION public.record_campaign_message_version();
+
+-- ============= PAUSE / RESUME =============
+
+CREATE OR REPLACE FUNCTION public.pause_campaign(p_campaign_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE campaigns
+  SET status = 'paused', paused_at = now()
+  WHERE id = p_campaign_id
+    AND status IN ('queued', 'sending', 'running', 'partial');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found or not running';
+  END IF;
+
+  UPDATE campaign_queue
+  SET status = 'paused'
+  WHERE campaign_id = p_campaign_id AND status = 'queued';
+END;
+$$;
+
+-- Returns how many leads are still pending: when > 0 the caller replans them
+-- through send-campaign (replan=true)
+CREATE OR REPLACE FUNCTION public.resume_campaign(p_campaign_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_paused_at TIMESTAMPTZ;
+  v_pending INTEGER;
+BEGIN
+  SELECT paused_at INTO v_paused_at
+  FROM campaigns
+  WHERE id = p_campaign_id AND status = 'paused'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found or not paused';
+  END IF;
+
+  -- Parked days go back to the queue; send-campaign replaces them with a plan
+  -- from today, and they still run (overdue days first) if that replan fails
+  UPDATE campaign_queue
+  SET status = 'queued'
+  WHERE campaign_id = p_campaign_id AND status = 'paused';
+
+  -- Follow-ups keep their spacing: pushed by the time the campaign stood still
+  UPDATE campaign_leads
+  SET next_step_at = next_step_at + (now() - COALESCE(v_paused_at, now()))
+  WHERE campaign_id = p_campaign_id
+    AND sequence_status = 'active'
+    AND next_step_at IS NOT NULL;
+
+  SELECT count(*) INTO v_pending
+  FROM campaign_leads
+  WHERE campaign_id = p_campaign_id AND status = 'pending';
+
+  UPDATE campaigns
+  SET paused_at = NULL,
+      status = CASE
+        WHEN v_pending > 0 THEN 'queued'
+        WHEN EXISTS (
+          SELECT 1 FROM campaign_leads
+          WHERE campaign_id = p_campaign_id
+            AND sequence_status = 'active'
+            AND next_step_at IS NOT NULL
+        ) THEN 'running'
+        ELSE 'completed'
+      END
+  WHERE id = p_campaign_id;
+
+  RETURN v_pending;
+END;
+$$;
+
+-- ============================================
+-- Re-create campaigns_with_stats so c.* includes the new campaign columns
+-- ============================================
+DROP VIEW IF EXISTS public.campaigns_with_stats;
+
+CREATE VIEW public.campaigns_with_stats
+WITH (security_invoker = true)
+AS
+WITH lead_final_status AS (
+  -- For each campaign+lead, determine the final status
+  -- Priority: sent > failed > pending
+  SELECT DISTINCT ON (campaign_id, lead_id)
+    campaign_id,
+    lead_id,
+    status,
+    CASE status
+      WHEN 'sent' THEN 1
+      WHEN 'failed' THEN 2
+      WHEN 'pending' THEN 3
+      ELSE 4
+    END AS priority
+  FROM public.campaign_leads
+  ORDER BY campaign_id, lead_id,
+    CASE status
+      WHEN 'sent' THEN 1
+      WHEN 'failed' THEN 2
+      WHEN 'pending' THEN 3
+      ELSE 4
+    END ASC
+)
+SELECT
+  c.*,
+  COALESCE(stats.total_leads, 0)::integer AS actual_leads_count,
+  COALESCE(stats.sent_leads, 0)::integer AS actual_sent_count,
+  COALESCE(stats.failed_leads, 0)::integer AS actual_failed_count,
+  COALESCE(stats.pending_leads, 0)::integer AS actual_pending_count
+FROM public.campaigns c
+LEFT JOIN (
+  SELECT
+    campaign_id,
+    COUNT(*) AS total_leads,
+    COUNT(*) FILTER (WHERE status = 'sent') AS sent_leads,
+    COUNT(*) FILTER (WHERE status = 'failed') AS failed_leads,
+    COUNT(*) FILTER (WHERE status = 'pending') AS pending_leads
+  FROM lead_final_status
+  GROUP BY campaign_id
+) stats ON stats.campaign_id = c.id;
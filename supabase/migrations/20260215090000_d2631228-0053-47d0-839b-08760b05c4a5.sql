@@ -0,0 +1,172 @@
+-- ============================================
+-- Campaign templates
+-- ============================================
+-- Named, workspace-shared snapshots of a campaign's setup: channel, action,
+-- message/subject, sending account (+ rotation pool), follow-up steps, A/B
+-- variants, attachments, sending window and reply settings. Leads and the
+-- schedule date are never part of a template; each campaign created from
+-- one picks its own.
+-- campaigns.template_id records which template a campaign came from, and
+-- get_campaign_template_stats aggregates the performance of every campaign
+-- spawned from each template.
+
+CREATE TABLE IF NOT EXISTS public.campaign_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  type TEXT NOT NULL,
+  linkedin_action TEXT,
+  message TEXT NOT NULL DEFAULT '',
+  subject TEXT,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  pool_account_ids UUID[] NOT NULL DEFAULT '{}',
+  -- FollowUpStepInput[]: [{ action, message, delayDays, condition }]
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Variants besides A: [{ message, subject }]
+  variants JSONB NOT NULL DEFAULT '[]'::jsonb,
+  variant_promote_after INTEGER,
+  -- Stored files reused as-is: [{ path, fileName, mimeType, size }]
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  send_window_days SMALLINT[],
+  send_window_start TIME,
+  send_window_end TIME,
+  skip_holidays BOOLEAN NOT NULL DEFAULT false,
+  use_lead_timezone BOOLEAN NOT NULL DEFAULT false,
+  reply_stop_scope TEXT NOT NULL DEFAULT 'campaign',
+  notify_on_reply BOOLEAN NOT NULL DEFAULT false,
+  source_campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT campaign_templates_name_check CHECK (length(trim(name)) > 0),
+  CONSTRAINT campaign_templates_type_check CHECK (type IN ('email', 'whatsapp', 'linkedin')),
+  CONSTRAINT campaign_templates_reply_stop_scope_check CHECK (reply_stop_scope IN ('campaign', 'workspace'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_campaign_templates_workspace_name
+ON public.campaign_templates (workspace_id, lower(name));
+
+CREATE TRIGGER update_campaign_templates_updated_at
+BEFORE UPDATE ON public.campaign_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.campaigns
+ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.campaign_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_template
+ON public.campaigns (template_id)
+WHERE template_id IS NOT NULL;
+
+ALTER TABLE public.campaign_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view campaign templates"
+  ON public.campaign_templates FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can create campaign templates"
+  ON public.campaign_templates FOR INSERT
+  WITH CHECK (is_workspace_member(workspace_id) AND created_by = auth.uid());
+
+CREATE POLICY "Members can edit campaign templates"
+  ON public.campaign_templates FOR UPDATE
+  USING (is_workspace_member(workspace_id));
+
+-- Shared gallery: only the author or an admin removes a template
+CREATE POLICY "Authors and admins can delete campaign templates"
+  ON public.campaign_templates FOR DELETE
+  USING (created_by = auth.uid() OR is_workspace_admin(workspace_id));
+
+-- Aggregate performance of the campaigns created from each template.
+-- Counts come from campaign_leads (first message of the sequence), the same
+-- source the campaign report uses; skipped leads are not counted as reached.
+CREATE OR REPLACE FUNCTION public.get_campaign_template_stats(p_workspace_id uuid)
+RETURNS TABLE (
+  template_id uuid,
+  campaigns_count bigint,
+  leads_count bigint,
+  sent_count bigint,
+  replied_count bigint,
+  failed_count bigint,
+  last_used_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH spawned AS (
+    SELECT c.id, c.template_id, c.created_at
+    FROM public.campaigns c
+    WHERE c.workspace_id = p_workspace_id
+      AND c.template_id IS NOT NULL
+  ),
+  lead_counts AS (
+    SELECT s.template_id,
+      COUNT(cl.id) FILTER (WHERE cl.status <> 'skipped') AS leads_count,
+      COUNT(cl.id) FILTER (WHERE cl.sent_at IS NOT NULL) AS sent_count,
+      COUNT(cl.id) FILTER (WHERE cl.sent_at IS NOT NULL AND cl.replied_at IS NOT NULL) AS replied_count,
+      COUNT(cl.id) FILTER (WHERE cl.status = 'failed') AS failed_count
+    FROM spawned s
+    JOIN public.campaign_leads cl ON cl.campaign_id = s.id
+    GROUP BY s.template_id
+  )
+  SELECT s.template_id,
+    COUNT(*) AS campaigns_count,
+    COALESCE(MAX(lc.leads_count), 0) AS leads_count,
+    COALESCE(MAX(lc.sent_count), 0) AS sent_count,
+    COALESCE(MAX(lc.replied_count), 0) AS replied_count,
+    COALESCE(MAX(lc.failed_count), 0) AS failed_count,
+    MAX(s.created_at) AS last_used_at
+  FROM spawned s
+  LEFT JOIN lead_counts lc ON lc.template_id = s.template_id
+  GROUP BY s.template_id;
+$$;
+
+-- ============================================
+-- Re-create campaigns_with_stats so c.* includes the new campaign columns
+-- ============================================
+DROP VIEW IF EXISTS public.campaigns_with_stats;
+
+CREATE VIEW public.campaigns_with_stats
+WITH (security_invoker = true)
+AS
+WITH lead_final_status AS (
+  -- For each campaign+lead, determine the final status
+  -- Priority: sent > failed > pending
+  SELECT DISTINCT ON (campaign_id, lead_id)
+    campaign_id,
+    lead_id,
+    status,
+    CASE status
+      WHEN 'sent' THEN 1
+      WHEN 'failed' THEN 2
+      WHEN 'pending' THEN 3
+      ELSE 4
+    END AS priority
+  FROM public.campaign_leads
+  ORDER BY campaign_id, lead_id,
+    CASE status
+      WHEN 'sent' THEN 1
+      WHEN 'failed' THEN 2
+      WHEN 'pending' THEN 3
+      ELSE 4
+    END ASC
+)
+SELECT
+  c.*,
+  COALESCE(stats.total_leads, 0)::integer AS actual_leads_count,
+  COALESCE(stats.sent_leads, 0)::integer AS actual_sent_count,
+  COALESCE(stats.failed_leads, 0)::integer AS actual_failed_count,
+  COALESCE(stats.pending_leads, 0)::integer AS actual_pending_count
+FROM public.campaigns c
+LEFT JOIN (
+  SELECT
+    campaign_id,
+    COUNT(*) AS total_leads,
+    COUNT(*) FILTER (WHERE status = 'sent') AS sent_leads,
+    COUNT(*) FILTER (WHERE status = 'failed') AS failed_leads,
+    COUNT(*) FILTER (WHERE status = 'pending') AS pending_leads
+  FROM lead_final_status
+  GROUP BY campaign_id
+) stats ON stats.campaign_id = c.id;
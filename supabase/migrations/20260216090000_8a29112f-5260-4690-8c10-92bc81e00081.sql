@@ -0,0 +1,189 @@
+-- ============================================
+-- Dynamic campaigns (list / tag audiences with auto-enroll)
+-- ============================================
+-- A campaign can target a lead list or a tag filter instead of a fixed set
+-- of leads. While auto_enroll is on, enroll-dynamic-campaigns keeps adding
+-- the leads that join the list or gain the tags after launch (scheduled
+-- LinkedIn searches, imports, manual tagging):
+--   - only leads with the channel's contact and not in the campaign yet
+--   - skip_contacted_leads leaves out leads any campaign of the workspace
+--     already sent to
+--   - daily_enroll_cap limits new enrollments per day (workspace timezone)
+-- campaign_leads.enrolled_via tells the initial/manual leads ('manual')
+-- from the ones the audience brought in ('auto').
+
+ALTER TABLE public.campaigns
+ADD COLUMN IF NOT EXISTS audience_type TEXT NOT NULL DEFAULT 'static',
+ADD COLUMN IF NOT EXISTS audience_list_id UUID REFERENCES public.lead_lists(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS audience_tag_ids UUID[],
+ADD COLUMN IF NOT EXISTS audience_tag_match TEXT NOT NULL DEFAULT 'any',
+ADD COLUMN IF NOT EXISTS auto_enroll BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS daily_enroll_cap INTEGER,
+ADD COLUMN IF NOT EXISTS skip_contacted_leads BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS last_enrolled_at TIMESTAMPTZ;
+
+ALTER TABLE public.campaigns
+ADD CONSTRAINT campaigns_audience_type_check
+  CHECK (audience_type IN ('static', 'list', 'tags')),
+ADD CONSTRAINT campaigns_audience_tag_match_check
+  CHECK (audience_tag_match IN ('any', 'all')),
+ADD CONSTRAINT campaigns_daily_enroll_cap_check
+  CHECK (daily_enroll_cap IS NULL OR daily_enroll_cap > 0),
+ADD CONSTRAINT campaigns_audience_check
+  CHECK (
+    audience_type = 'static'
+    OR (audience_type = 'list' AND audience_list_id IS NOT NULL)
+    OR (audience_type = 'tags' AND cardinality(audience_tag_ids) > 0)
+    -- The list was deleted: the campaign keeps its leads and stops enrolling
+    OR (audience_type = 'list' AND auto_enroll = false)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_auto_enroll
+ON public.campaigns (workspace_id)
+WHERE auto_enroll = true;
+
+ALTER TABLE public.campaign_leads
+ADD COLUMN IF NOT EXISTS enrolled_via TEXT NOT NULL DEFAULT 'manual';
+
+ALTER TABLE public.campaign_leads
+ADD CONSTRAINT campaign_leads_enrolled_via_check
+  CHECK (enrolled_via IN ('manual', 'auto'));
+
+CREATE INDEX IF NOT EXISTS idx_campaign_leads_auto_enrolled
+ON public.campaign_leads (campaign_id, created_at)
+WHERE enrolled_via = 'auto';
+
+-- Deleting the audience list turns auto-enroll off (the CHECK above needs it)
+CREATE OR REPLACE FUNCTION public.stop_auto_enroll_on_list_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.campaigns
+  SET auto_enroll = false
+  WHERE audience_list_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lead_lists_stop_auto_enroll ON public.lead_lists;
+CREATE TRIGGER lead_lists_stop_auto_enroll
+  BEFORE DELETE ON public.lead_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stop_auto_enroll_on_list_delete();
+
+-- Leads the audience would enroll now, oldest first, already limited by what
+-- is left of today's cap. Runs as the caller: members through create-campaign,
+-- the service role through enroll-dynamic-campaigns.
+CREATE OR REPLACE FUNCTION public.get_dynamic_campaign_candidates(p_campaign_id uuid, p_limit integer DEFAULT 500)
+RETURNS TABLE (lead_id uuid)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH campaign AS (
+    SELECT c.*, COALESCE(w.timezone, 'UTC') AS timezone
+    FROM public.campaigns c
+    JOIN public.workspaces w ON w.id = c.workspace_id
+    WHERE c.id = p_campaign_id
+      AND c.audience_type <> 'static'
+  ),
+  enrolled_today AS (
+    SELECT COUNT(*) AS n
+    FROM public.campaign_leads cl, campaign c
+    WHERE cl.campaign_id = c.id
+      AND cl.enrolled_via = 'auto'
+      AND cl.created_at >= (date_trunc('day', now() AT TIME ZONE c.timezone) AT TIME ZONE c.timezone)
+  ),
+  remaining AS (
+    SELECT GREATEST(
+      LEAST(p_limit, COALESCE(c.daily_enroll_cap - (SELECT n FROM enrolled_today), p_limit)),
+      0
+    ) AS n
+    FROM campaign c
+  )
+  SELECT l.id AS lead_id
+  FROM public.leads l
+  JOIN campaign c ON c.workspace_id = l.workspace_id
+  WHERE (
+      (c.audience_type = 'list' AND l.list_id = c.audience_list_id)
+      OR (c.audience_type = 'tags' AND c.audience_tag_match = 'any' AND EXISTS (
+        SELECT 1 FROM public.lead_tags lt
+        WHERE lt.lead_id = l.id AND lt.tag_id = ANY (c.audience_tag_ids)
+      ))
+      OR (c.audience_type = 'tags' AND c.audience_tag_match = 'all' AND (
+        SELECT COUNT(DISTINCT lt.tag_id) FROM public.lead_tags lt
+        WHERE lt.lead_id = l.id AND lt.tag_id = ANY (c.audience_tag_ids)
+      ) = cardinality(c.audience_tag_ids))
+    )
+    AND CASE c.type
+      WHEN 'email' THEN COALESCE(l.email, '') <> ''
+      WHEN 'whatsapp' THEN COALESCE(l.mobile_number, '') <> ''
+      WHEN 'linkedin' THEN COALESCE(l.linkedin_url, '') <> ''
+      ELSE true
+    END
+    AND NOT EXISTS (
+      SELECT 1 FROM public.campaign_leads cl
+      WHERE cl.campaign_id = c.id AND cl.lead_id = l.id
+    )
+    AND (NOT c.skip_contacted_leads OR NOT EXISTS (
+      SELECT 1
+      FROM public.campaign_leads cl
+      JOIN public.campaigns oc ON oc.id = cl.campaign_id
+      WHERE cl.lead_id = l.id
+        AND oc.workspace_id = c.workspace_id
+        AND cl.sent_at IS NOT NULL
+    ))
+  ORDER BY l.created_at ASC
+  LIMIT (SELECT n FROM remaining);
+$$;
+
+-- ============================================
+-- Re-create campaigns_with_stats so c.* includes the new campaign columns
+-- ============================================
+DROP VIEW IF EXISTS public.campaigns_with_stats;
+
+CREATE VIEW public.campaigns_with_stats
+WITH (security_invoker = true)
+AS
+WITH lead_final_status AS (
+  -- For each campaign+lead, determine the final status
+  -- Priority: sent > failed > pending
+  SELECT DISTINCT ON (campaign_id, lead_id)
+    campaign_id,
+    lead_id,
+    status,
+    CASE status
+      WHEN 'sent' THEN 1
+      WHEN 'failed' THEN 2
+      WHEN 'pending' THEN 3
+      ELSE 4
+    END AS priority
+  FROM public.campaign_leads
+  ORDER BY campaign_id, lead_id,
+    CASE status
+      WHEN 'sent' THEN 1
+      WHEN 'failed' THEN 2
+      WHEN 'pending' THEN 3
+      ELSE 4
+    END ASC
+)
+SELECT
+  c.*,
+  COALESCE(stats.total_leads, 0)::integer AS actual_leads_count,
+  COALESCE(stats.sent_leads, 0)::integer AS actual_sent_count,
+  COALESCE(stats.failed_leads, 0)::integer AS actual_failed_count,
+  COALESCE(stats.pending_leads, 0)::integer AS actual_pending_count
+FROM public.campaigns c
+LEFT JOIN (
+  SELECT
+    campaign_id,
+    COUNT(*) AS total_leads,
+    COUNT(*) FILTER (WHERE status = 'sent') AS sent_leads,
+    COUNT(*) FILTER (WHERE status = 'failed') AS failed_leads,
+    COUNT(*) FILTER (WHERE status = 'pending') AS pending_leads
+  FROM lead_final_status
+  GROUP BY campaign_id
+) stats ON stats.campaign_id = c.id;
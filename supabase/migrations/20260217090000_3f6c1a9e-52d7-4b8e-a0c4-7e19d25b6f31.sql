@@ -0,0 +1,114 @@
+-- ============================================
+-- Lead import (CSV / XLSX)
+-- ============================================
+-- Files are uploaded to the private lead-imports bucket under
+-- <workspace_id>/<uuid>/<file name> and parsed by the import-leads function,
+-- never in the browser. Each import is a lead_import_jobs row:
+--   small files   -> processed right away by import-leads
+--   large files   -> left 'pending' and processed in chunks by
+--                    process-lead-imports (resumes from processed_rows)
+-- Rows are matched against existing leads by LinkedIn public identifier,
+-- email and phone; matches are updated or skipped (update_existing) and the
+-- job keeps created/updated/skipped counts plus the first row errors.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'lead-imports',
+  'lead-imports',
+  false,
+  20971520, -- 20 MB limit
+  ARRAY[
+    'text/csv',
+    'text/plain',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Workspace members can upload lead imports"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'lead-imports' AND
+  EXISTS (
+    SELECT 1 FROM public.workspace_members wm
+    WHERE wm.user_id = auth.uid()
+    AND wm.workspace_id::text = (storage.foldername(name))[1]
+  )
+);
+
+CREATE POLICY "Workspace members can view lead imports"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'lead-imports' AND
+  EXISTS (
+    SELECT 1 FROM public.workspace_members wm
+    WHERE wm.user_id = auth.uid()
+    AND wm.workspace_id::text = (storage.foldername(name))[1]
+  )
+);
+
+CREATE TABLE IF NOT EXISTS public.lead_import_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  storage_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  -- Lead field per file column (null = column ignored), by column position
+  mapping JSONB NOT NULL DEFAULT '[]'::jsonb,
+  list_id UUID REFERENCES public.lead_lists(id) ON DELETE SET NULL,
+  tag_ids UUID[] NOT NULL DEFAULT '{}',
+  update_existing BOOLEAN NOT NULL DEFAULT true,
+  status TEXT NOT NULL DEFAULT 'pending',
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  processed_rows INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  -- First skipped rows: [{ row, reason, value }]
+  row_errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error_message TEXT,
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  CONSTRAINT lead_import_jobs_status_check CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  CONSTRAINT lead_import_jobs_file_type_check CHECK (file_type IN ('csv', 'xlsx'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_import_jobs_workspace
+ON public.lead_import_jobs (workspace_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_lead_import_jobs_pending
+ON public.lead_import_jobs (created_at)
+WHERE status IN ('pending', 'processing');
+
+ALTER TABLE public.lead_import_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view lead imports"
+  ON public.lead_import_jobs FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can create lead imports"
+  ON public.lead_import_jobs FOR INSERT
+  WITH CHECK (is_workspace_member(workspace_id) AND user_id = auth.uid());
+
+CREATE POLICY "Members can update lead imports"
+  ON public.lead_import_jobs FOR UPDATE
+  USING (is_workspace_member(workspace_id));
+
+-- ============================================
+-- Duplicate lookups (email already has leads_workspace_email_unique)
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_linkedin_identifier
+ON public.leads (workspace_id, linkedin_public_identifier)
+WHERE linkedin_public_identifier IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_mobile_number
+ON public.leads (workspace_id, mobile_number)
+WHERE mobile_number IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_phone
+ON public.leads (workspace_id, phone)
+WHERE phone IS NOT NULL;
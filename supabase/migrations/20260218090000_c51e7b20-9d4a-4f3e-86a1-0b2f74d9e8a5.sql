@@ -0,0 +1,222 @@
+-- ============================================
+-- Server-side leads listing
+-- ============================================
+-- The leads page no longer loads every lead of the workspace. It pages
+-- through search_leads (keyset cursor on the sort column + id), with a light
+-- column projection, and asks count_leads / get_lead_ids for "select all N
+-- matching leads" in bulk actions. All three share filter_leads, so the
+-- count, the ids and the rows always agree.
+--
+-- Filters (jsonb, every key optional):
+--   search    full-text over name, company and headline (prefix match, no accents)
+--   listId    lead list id or 'no-list'
+--   tagIds    leads having ALL of these tags
+--   company / jobTitle   case-insensitive "contains"
+--   industry / country   exact value
+
+-- Lowercase without accents; immutable so it can feed a generated column
+CREATE OR REPLACE FUNCTION public.normalize_search_text(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT translate(
+    lower(coalesce(p_text, '')),
+    'áàâãäåéèêëíìîïóòôõöúùûüçñý',
+    'aaaaaaeeeeiiiiooooouuuucny'
+  );
+$$;
+
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  to_tsvector(
+    'simple',
+    public.normalize_search_text(
+      coalesce(full_name, '') || ' ' || coalesce(company, '') || ' ' || coalesce(headline, '')
+    )
+  )
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_leads_search_vector
+ON public.leads USING GIN (search_vector);
+
+-- Keyset pagination per sort column
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_created
+ON public.leads (workspace_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_full_name
+ON public.leads (workspace_id, (coalesce(lower(full_name), '')), id);
+
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_company
+ON public.leads (workspace_id, (coalesce(lower(company), '')), id);
+
+-- "ana sil" -> 'ana':* & 'sil':* (null = no search)
+CREATE OR REPLACE FUNCTION public.lead_search_query(p_search text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN terms = '' THEN NULL ELSE to_tsquery('simple', terms) END
+  FROM (
+    SELECT coalesce(string_agg(word || ':*', ' & '), '') AS terms
+    FROM regexp_split_to_table(public.normalize_search_text(p_search), '[^a-z0-9]+') AS word
+    WHERE word <> ''
+  ) t;
+$$;
+
+-- Plain SQL (no SET clause) so the planner inlines it into the callers;
+-- runs as the caller, so leads RLS still applies
+CREATE OR REPLACE FUNCTION public.filter_leads(p_workspace_id uuid, p_filters jsonb)
+RETURNS SETOF public.leads
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT l.*
+  FROM public.leads l
+  WHERE l.workspace_id = p_workspace_id
+    AND (
+      public.lead_search_query(p_filters->>'search') IS NULL
+      OR l.search_vector @@ public.lead_search_query(p_filters->>'search')
+    )
+    AND (
+      coalesce(p_filters->>'listId', '') = ''
+      OR (p_filters->>'listId' = 'no-list' AND l.list_id IS NULL)
+      OR l.list_id::text = p_filters->>'listId'
+    )
+    AND (coalesce(p_filters->>'company', '') = '' OR l.company ILIKE '%' || (p_filters->>'company') || '%')
+    AND (coalesce(p_filters->>'jobTitle', '') = '' OR l.job_title ILIKE '%' || (p_filters->>'jobTitle') || '%')
+    AND (coalesce(p_filters->>'industry', '') = '' OR l.industry = p_filters->>'industry')
+    AND (coalesce(p_filters->>'country', '') = '' OR l.country = p_filters->>'country')
+    AND (
+      jsonb_array_length(coalesce(p_filters->'tagIds', '[]'::jsonb)) = 0
+      OR (
+        SELECT count(DISTINCT lt.tag_id)
+        FROM public.lead_tags lt
+        WHERE lt.lead_id = l.id
+          AND lt.tag_id::text IN (SELECT jsonb_array_elements_text(p_filters->'tagIds'))
+      ) = jsonb_array_length(p_filters->'tagIds')
+    );
+$$;
+
+-- One page of leads. p_cursor = { value, id } of the last row of the previous
+-- page (its sort_value and id); null for the first page.
+CREATE OR REPLACE FUNCTION public.search_leads(
+  p_workspace_id uuid,
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_sort text DEFAULT 'created_at',
+  p_ascending boolean DEFAULT false,
+  p_cursor jsonb DEFAULT NULL,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  headline text,
+  company text,
+  company_size text,
+  company_industry text,
+  job_title text,
+  seniority_level text,
+  industry text,
+  city text,
+  state text,
+  country text,
+  email text,
+  phone text,
+  mobile_number text,
+  linkedin_url text,
+  list_id uuid,
+  last_enriched_at timestamptz,
+  in_conversation_at timestamptz,
+  created_at timestamptz,
+  sort_value text
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_key text;
+  v_cursor_value text;
+  v_direction text := CASE WHEN p_ascending THEN 'ASC' ELSE 'DESC' END;
+  v_operator text := CASE WHEN p_ascending THEN '>' ELSE '<' END;
+BEGIN
+  -- Whitelisted sort keys; text columns sort without case and with nulls as ''
+  v_key := CASE p_sort
+    WHEN 'full_name' THEN 'coalesce(lower(l.full_name), '''')'
+    WHEN 'company' THEN 'coalesce(lower(l.company), '''')'
+    WHEN 'job_title' THEN 'coalesce(lower(l.job_title), '''')'
+    ELSE 'l.created_at'
+  END;
+  v_cursor_value := CASE WHEN v_key = 'l.created_at'
+    THEN '($3->>''value'')::timestamptz'
+    ELSE '($3->>''value'')'
+  END;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT l.id, l.full_name, l.headline, l.company, l.company_size, l.company_industry,
+            l.job_title, l.seniority_level, l.industry, l.city, l.state, l.country,
+            l.email, l.phone, l.mobile_number, l.linkedin_url, l.list_id,
+            l.last_enriched_at, l.in_conversation_at, l.created_at,
+            (%1$s)::text AS sort_value
+     FROM public.filter_leads($1, $2) l
+     WHERE $3 IS NULL OR (%1$s, l.id) %2$s (%3$s, ($3->>''id'')::uuid)
+     ORDER BY %1$s %4$s, l.id %4$s
+     LIMIT $4',
+    v_key, v_operator, v_cursor_value, v_direction
+  )
+  USING p_workspace_id, coalesce(p_filters, '{}'::jsonb), p_cursor, LEAST(GREATEST(coalesce(p_limit, 50), 1), 200);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.count_leads(p_workspace_id uuid, p_filters jsonb DEFAULT '{}'::jsonb)
+RETURNS bigint
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*) FROM public.filter_leads(p_workspace_id, coalesce(p_filters, '{}'::jsonb));
+$$;
+
+-- Ids of every matching lead (newest first), as one array so the API row
+-- limit does not cut the selection
+CREATE OR REPLACE FUNCTION public.get_lead_ids(
+  p_workspace_id uuid,
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_limit integer DEFAULT 20000
+)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(f.id ORDER BY f.created_at DESC, f.id DESC), '{}')
+  FROM (
+    SELECT l.id, l.created_at
+    FROM public.filter_leads(p_workspace_id, coalesce(p_filters, '{}'::jsonb)) l
+    ORDER BY l.created_at DESC, l.id DESC
+    LIMIT p_limit
+  ) f;
+$$;
+
+-- Industry and country options of the filters, without loading the leads
+CREATE OR REPLACE FUNCTION public.get_lead_filter_options(p_workspace_id uuid)
+RETURNS TABLE (industries text[], countries text[])
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    ARRAY(
+      SELECT DISTINCT l.industry FROM public.leads l
+      WHERE l.workspace_id = p_workspace_id AND l.industry IS NOT NULL AND l.industry <> ''
+      ORDER BY 1
+    ),
+    ARRAY(
+      SELECT DISTINCT l.country FROM public.leads l
+      WHERE l.workspace_id = p_workspace_id AND l.country IS NOT NULL AND l.country <> ''
+      ORDER BY 1
+    );
+$$;
@@ -0,0 +1,293 @@
+-- ============================================
+-- Lead deduplication and merge
+-- ============================================
+-- Overlapping LinkedIn searches and enrichments leave more than one row for
+-- the same person. find_lead_duplicates lists candidate pairs:
+--   linkedin      same linkedin_provider_id or linkedin_public_identifier
+--   email         same address in email / personal_email (case-insensitive)
+--   name_company  same company and a similar name (trigram similarity)
+-- merge_leads keeps one lead, copies the chosen fields from the other,
+-- re-points everything that referenced it and deletes it, in one transaction.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_provider_id
+ON public.leads (workspace_id, linkedin_provider_id)
+WHERE linkedin_provider_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_lower_email
+ON public.leads (workspace_id, lower(email))
+WHERE email IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_workspace_company_key
+ON public.leads (workspace_id, public.normalize_search_text(company))
+WHERE company IS NOT NULL AND full_name IS NOT NULL;
+
+-- ============= DISMISSED PAIRS =============
+
+-- "Not a duplicate" answers; the pair is stored with lead_a_id < lead_b_id
+CREATE TABLE IF NOT EXISTS public.lead_duplicate_dismissals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  lead_a_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  lead_b_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  dismissed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT lead_duplicate_dismissals_order CHECK (lead_a_id < lead_b_id),
+  CONSTRAINT lead_duplicate_dismissals_pair_unique UNIQUE (lead_a_id, lead_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_dismissals_workspace
+ON public.lead_duplicate_dismissals (workspace_id);
+
+ALTER TABLE public.lead_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view duplicate dismissals"
+  ON public.lead_duplicate_dismissals FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Members can dismiss duplicates"
+  ON public.lead_duplicate_dismissals FOR INSERT
+  WITH CHECK (is_workspace_member(workspace_id) AND dismissed_by = auth.uid());
+
+-- ============= MERGE AUDIT =============
+
+-- One row per merge: the deleted lead as it was and which fields it gave
+CREATE TABLE IF NOT EXISTS public.lead_merges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  surviving_lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  merged_lead_id UUID NOT NULL,
+  merged_lead JSONB NOT NULL,
+  fields_taken TEXT[] NOT NULL DEFAULT '{}',
+  merged_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_merges_workspace_created
+ON public.lead_merges (workspace_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_lead_merges_surviving_lead
+ON public.lead_merges (surviving_lead_id);
+
+ALTER TABLE public.lead_merges ENABLE ROW LEVEL SECURITY;
+
+-- Written only by merge_leads
+CREATE POLICY "Members can view lead merges"
+  ON public.lead_merges FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+-- ============= DETECTION =============
+
+-- Candidate pairs, strongest first. lead_id is the smaller id of the pair;
+-- a pair matching on several rules is listed once, with its strongest reason.
+CREATE OR REPLACE FUNCTION public.find_lead_duplicates(
+  p_workspace_id uuid,
+  p_limit integer DEFAULT 100
+)
+RETURNS TABLE (lead_id uuid, duplicate_id uuid, reason text, score real)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH ws_leads AS (
+    SELECT *
+    FROM leads
+    WHERE workspace_id = p_workspace_id
+  ),
+  emails AS (
+    SELECT id, lower(trim(email)) AS address FROM ws_leads WHERE email IS NOT NULL AND trim(email) <> ''
+    UNION
+    SELECT id, lower(trim(personal_email)) FROM ws_leads WHERE personal_email IS NOT NULL AND trim(personal_email) <> ''
+  ),
+  named AS (
+    SELECT
+      id,
+      normalize_search_text(company) AS company_key,
+      normalize_search_text(full_name) AS name_key
+    FROM ws_leads
+    WHERE company IS NOT NULL AND trim(company) <> ''
+      AND full_name IS NOT NULL AND trim(full_name) <> ''
+  ),
+  candidates AS (
+    SELECT a.id AS lead_id, b.id AS duplicate_id, 'linkedin' AS reason, 1.0::real AS score, 1 AS priority
+    FROM ws_leads a
+    JOIN ws_leads b ON b.linkedin_provider_id = a.linkedin_provider_id AND a.id < b.id
+    WHERE a.linkedin_provider_id IS NOT NULL
+
+    UNION ALL
+
+    SELECT a.id, b.id, 'linkedin', 1.0::real, 1
+    FROM ws_leads a
+    JOIN ws_leads b ON lower(b.linkedin_public_identifier) = lower(a.linkedin_public_identifier) AND a.id < b.id
+    WHERE a.linkedin_public_identifier IS NOT NULL
+
+    UNION ALL
+
+    SELECT a.id, b.id, 'email', 0.95::real, 2
+    FROM emails a
+    JOIN emails b ON b.address = a.address AND a.id < b.id
+
+    UNION ALL
+
+    SELECT a.id, b.id, 'name_company', similarity(a.name_key, b.name_key), 3
+    FROM named a
+    JOIN named b ON b.company_key = a.company_key AND a.id < b.id
+    WHERE similarity(a.name_key, b.name_key) >= 0.6
+  ),
+  best AS (
+    SELECT DISTINCT ON (c.lead_id, c.duplicate_id) c.*
+    FROM candidates c
+    ORDER BY c.lead_id, c.duplicate_id, c.priority, c.score DESC
+  )
+  SELECT b.lead_id, b.duplicate_id, b.reason, b.score
+  FROM best b
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM lead_duplicate_dismissals d
+    WHERE d.lead_a_id = b.lead_id AND d.lead_b_id = b.duplicate_id
+  )
+  ORDER BY b.priority, b.score DESC, b.lead_id, b.duplicate_id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 500);
+$$;
+
+-- ============= MERGE =============
+
+-- Keeps p_surviving_lead_id. p_fields lists the lead columns whose value comes
+-- from the merged lead; every other column keeps the surviving lead's value.
+-- custom_fields are combined, the side named in p_fields winning on shared keys.
+-- Runs as owner because it re-points rows members cannot update directly
+-- (enrichment jobs, webhook events), so membership is checked here.
+CREATE OR REPLACE FUNCTION public.merge_leads(
+  p_surviving_lead_id uuid,
+  p_merged_lead_id uuid,
+  p_fields text[] DEFAULT '{}'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workspace_id UUID;
+  v_merged JSONB;
+  v_fields TEXT[];
+  v_set TEXT;
+  v_dropped UUID[];
+  v_kept UUID[];
+BEGIN
+  IF p_surviving_lead_id = p_merged_lead_id THEN
+    RAISE EXCEPTION 'Cannot merge a lead into itself';
+  END IF;
+
+  SELECT workspace_id INTO v_workspace_id
+  FROM leads
+  WHERE id = p_surviving_lead_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_workspace_member(v_workspace_id) THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  SELECT to_jsonb(l) INTO v_merged
+  FROM leads l
+  WHERE l.id = p_merged_lead_id AND l.workspace_id = v_workspace_id
+  FOR UPDATE;
+
+  IF v_merged IS NULL THEN
+    RAISE EXCEPTION 'Lead to merge not found in this workspace';
+  END IF;
+
+  -- Only real, writable lead columns can be taken from the merged lead
+  SELECT COALESCE(array_agg(c.column_name::text ORDER BY c.ordinal_position), '{}')
+  INTO v_fields
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = 'leads'
+    AND c.is_generated = 'NEVER'
+    AND c.column_name::text = ANY(p_fields)
+    AND c.column_name::text NOT IN ('id', 'workspace_id', 'created_at', 'updated_at', 'custom_fields');
+
+  -- ---------- campaign_leads ----------
+  -- Both leads in the same campaign: keep the row that got further. A pending
+  -- surviving row gives way to the merged lead's row; otherwise the merged
+  -- lead's row goes. The dropped row's events and send attempts (idempotency
+  -- keys included) move to the kept row first, so deleting it cascades nothing.
+  SELECT
+    array_agg(CASE WHEN s.status = 'pending' AND m.status <> 'pending' THEN s.id ELSE m.id END),
+    array_agg(CASE WHEN s.status = 'pending' AND m.status <> 'pending' THEN m.id ELSE s.id END)
+  INTO v_dropped, v_kept
+  FROM campaign_leads s
+  JOIN campaign_leads m ON m.campaign_id = s.campaign_id
+  WHERE s.lead_id = p_surviving_lead_id
+    AND m.lead_id = p_merged_lead_id;
+
+  IF v_dropped IS NOT NULL THEN
+    UPDATE campaign_events e SET campaign_lead_id = p.kept_id
+    FROM unnest(v_dropped, v_kept) AS p(dropped_id, kept_id)
+    WHERE e.campaign_lead_id = p.dropped_id;
+
+    UPDATE campaign_send_attempts a SET campaign_lead_id = p.kept_id
+    FROM unnest(v_dropped, v_kept) AS p(dropped_id, kept_id)
+    WHERE a.campaign_lead_id = p.dropped_id;
+
+    UPDATE unipile_events u SET campaign_lead_id = p.kept_id
+    FROM unnest(v_dropped, v_kept) AS p(dropped_id, kept_id)
+    WHERE u.campaign_lead_id = p.dropped_id;
+
+    DELETE FROM campaign_leads WHERE id = ANY(v_dropped);
+  END IF;
+
+  UPDATE campaign_leads SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+
+  -- ---------- lead_tags ----------
+  INSERT INTO lead_tags (lead_id, tag_id)
+  SELECT p_surviving_lead_id, tag_id
+  FROM lead_tags
+  WHERE lead_id = p_merged_lead_id
+  ON CONFLICT (lead_id, tag_id) DO NOTHING;
+
+  -- ---------- activity and enrichment history ----------
+  UPDATE engagement_actions SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE linkedin_profiles SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE enrichment_jobs
+  SET lead_ids = array_replace(lead_ids, p_merged_lead_id, p_surviving_lead_id)
+  WHERE workspace_id = v_workspace_id AND p_merged_lead_id = ANY(lead_ids);
+  UPDATE chats SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE notifications SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE snippet_usages SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE suppression_list SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE unipile_events SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+
+  -- Merge audit rows pointing at the merged lead follow the survivor too
+  UPDATE lead_merges SET surviving_lead_id = p_surviving_lead_id WHERE surviving_lead_id = p_merged_lead_id;
+
+  INSERT INTO lead_merges (workspace_id, surviving_lead_id, merged_lead_id, merged_lead, fields_taken, merged_by)
+  VALUES (v_workspace_id, p_surviving_lead_id, p_merged_lead_id, v_merged - 'search_vector', v_fields, auth.uid());
+
+  -- Deleted before copying its values: email and linkedin_url are unique per workspace
+  DELETE FROM leads WHERE id = p_merged_lead_id;
+
+  IF array_length(v_fields, 1) > 0 THEN
+    SELECT string_agg(format('%I = m.%I', f, f), ', ')
+    INTO v_set
+    FROM unnest(v_fields) AS f;
+
+    EXECUTE format(
+      'UPDATE leads l SET %s FROM jsonb_populate_record(NULL::leads, $1) m WHERE l.id = $2',
+      v_set
+    )
+    USING v_merged, p_surviving_lead_id;
+  END IF;
+
+  UPDATE leads
+  SET custom_fields = CASE
+    WHEN 'custom_fields' = ANY(p_fields)
+      THEN custom_fields || COALESCE(v_merged->'custom_fields', '{}'::jsonb)
+    ELSE COALESCE(v_merged->'custom_fields', '{}'::jsonb) || custom_fields
+  END
+  WHERE id = p_surviving_lead_id;
+
+  RETURN p_surviving_lead_id;
+END;
+$$;
@@ -0,0 +1,136 @@
+-- ============================================
+-- Custom lead fields
+-- ============================================
+-- Workspace admins define extra lead fields; the values live in
+-- leads.custom_fields under the field key, which is also the template
+-- variable ({{key}}). Value types in the jsonb:
+--   text, url, select   string
+--   number              number
+--   date                string 'YYYY-MM-DD'
+--   multi_select        array of strings
+
+CREATE TABLE IF NOT EXISTS public.lead_custom_fields (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  field_type TEXT NOT NULL DEFAULT 'text',
+  options TEXT[] NOT NULL DEFAULT '{}',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT lead_custom_fields_key_format CHECK (key ~ '^[a-z][a-z0-9_]{0,39}$'),
+  CONSTRAINT lead_custom_fields_label_not_empty CHECK (length(trim(label)) > 0),
+  CONSTRAINT lead_custom_fields_type_check
+    CHECK (field_type IN ('text', 'number', 'date', 'select', 'multi_select', 'url')),
+  CONSTRAINT lead_custom_fields_options_check
+    CHECK (field_type NOT IN ('select', 'multi_select') OR cardinality(options) > 0),
+  CONSTRAINT lead_custom_fields_workspace_key_unique UNIQUE (workspace_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_custom_fields_workspace
+ON public.lead_custom_fields (workspace_id, position);
+
+CREATE TRIGGER update_lead_custom_fields_updated_at
+  BEFORE UPDATE ON public.lead_custom_fields
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.lead_custom_fields ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view custom lead fields"
+  ON public.lead_custom_fields FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Admins can add custom lead fields"
+  ON public.lead_custom_fields FOR INSERT
+  WITH CHECK (is_workspace_admin(workspace_id));
+
+CREATE POLICY "Admins can update custom lead fields"
+  ON public.lead_custom_fields FOR UPDATE
+  USING (is_workspace_admin(workspace_id));
+
+CREATE POLICY "Admins can delete custom lead fields"
+  ON public.lead_custom_fields FOR DELETE
+  USING (is_workspace_admin(workspace_id));
+
+-- Deleting a field removes its values from the workspace leads
+CREATE OR REPLACE FUNCTION public.remove_lead_custom_field_values()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.leads
+  SET custom_fields = custom_fields - OLD.key
+  WHERE workspace_id = OLD.workspace_id
+    AND custom_fields ? OLD.key;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lead_custom_fields_remove_values ON public.lead_custom_fields;
+CREATE TRIGGER lead_custom_fields_remove_values
+  AFTER DELETE ON public.lead_custom_fields
+  FOR EACH ROW
+  EXECUTE FUNCTION public.remove_lead_custom_field_values();
+
+CREATE INDEX IF NOT EXISTS idx_leads_custom_fields
+ON public.leads USING GIN (custom_fields jsonb_path_ops);
+
+-- ============================================
+-- filter_leads: custom field conditions
+-- ============================================
+-- p_filters.customFields is a list of { key, op, value }; a lead must match
+-- all of them:
+--   contains   text/url contains value (case-insensitive)
+--   equals     select value
+--   has        multi_select includes value
+--   gte / lte  number or date bound (compared only to values of the same type)
+CREATE OR REPLACE FUNCTION public.filter_leads(p_workspace_id uuid, p_filters jsonb)
+RETURNS SETOF public.leads
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT l.*
+  FROM public.leads l
+  WHERE l.workspace_id = p_workspace_id
+    AND (
+      public.lead_search_query(p_filters->>'search') IS NULL
+      OR l.search_vector @@ public.lead_search_query(p_filters->>'search')
+    )
+    AND (
+      coalesce(p_filters->>'listId', '') = ''
+      OR (p_filters->>'listId' = 'no-list' AND l.list_id IS NULL)
+      OR l.list_id::text = p_filters->>'listId'
+    )
+    AND (coalesce(p_filters->>'company', '') = '' OR l.company ILIKE '%' || (p_filters->>'company') || '%')
+    AND (coalesce(p_filters->>'jobTitle', '') = '' OR l.job_title ILIKE '%' || (p_filters->>'jobTitle') || '%')
+    AND (coalesce(p_filters->>'industry', '') = '' OR l.industry = p_filters->>'industry')
+    AND (coalesce(p_filters->>'country', '') = '' OR l.country = p_filters->>'country')
+    AND (
+      jsonb_array_length(coalesce(p_filters->'tagIds', '[]'::jsonb)) = 0
+      OR (
+        SELECT count(DISTINCT lt.tag_id)
+        FROM public.lead_tags lt
+        WHERE lt.lead_id = l.id
+          AND lt.tag_id::text IN (SELECT jsonb_array_elements_text(p_filters->'tagIds'))
+      ) = jsonb_array_length(p_filters->'tagIds')
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(coalesce(p_filters->'customFields', '[]'::jsonb)) AS f
+      WHERE NOT coalesce(
+        CASE f->>'op'
+          WHEN 'contains' THEN l.custom_fields->>(f->>'key') ILIKE '%' || (f->>'value') || '%'
+          WHEN 'equals' THEN l.custom_fields->>(f->>'key') = f->>'value'
+          WHEN 'has' THEN l.custom_fields->(f->>'key') @> jsonb_build_array(f->'value')
+          WHEN 'gte' THEN jsonb_typeof(l.custom_fields->(f->>'key')) = jsonb_typeof(f->'value')
+            AND l.custom_fields->(f->>'key') >= f->'value'
+          WHEN 'lte' THEN jsonb_typeof(l.custom_fields->(f->>'key')) = jsonb_typeof(f->'value')
+            AND l.custom_fields->(f->>'key') <= f->'value'
+        END,
+        false
+      )
+    );
+$$;
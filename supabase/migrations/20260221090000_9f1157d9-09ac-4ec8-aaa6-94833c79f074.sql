@@ -0,0 +1,667 @@
+-- ============================================
+-- Lead pipeline stages
+-- ============================================
+-- Each workspace has an ordered list of stages (lead_stages) and every lead
+-- sits in one of them (leads.stage_id). A stage can be bound to campaign
+-- events (auto_events): when a campaign lead is sent, has its invite
+-- accepted or replies, the lead moves to the stage bound to that event.
+-- Automatic moves only go forward and never take a lead out of a won/lost
+-- stage. Every move is recorded in lead_stage_history.
+
+CREATE TABLE IF NOT EXISTS public.lead_stages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#64748b',
+  kind TEXT NOT NULL DEFAULT 'open',
+  auto_events TEXT[] NOT NULL DEFAULT '{}',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT lead_stages_name_not_empty CHECK (length(trim(name)) > 0),
+  CONSTRAINT lead_stages_kind_check CHECK (kind IN ('open', 'won', 'lost')),
+  CONSTRAINT lead_stages_auto_events_check
+    CHECK (auto_events <@ ARRAY['sent', 'accepted', 'replied']::text[])
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_stages_workspace
+ON public.lead_stages (workspace_id, position);
+
+CREATE TRIGGER update_lead_stages_updated_at
+  BEFORE UPDATE ON public.lead_stages
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.lead_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view lead stages"
+  ON public.lead_stages FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+CREATE POLICY "Admins can add lead stages"
+  ON public.lead_stages FOR INSERT
+  WITH CHECK (is_workspace_admin(workspace_id));
+
+CREATE POLICY "Admins can update lead stages"
+  ON public.lead_stages FOR UPDATE
+  USING (is_workspace_admin(workspace_id));
+
+CREATE POLICY "Admins can delete lead stages"
+  ON public.lead_stages FOR DELETE
+  USING (is_workspace_admin(workspace_id));
+
+ALTER TABLE public.leads
+  ADD COLUMN IF NOT EXISTS stage_id UUID REFERENCES public.lead_stages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS stage_changed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_leads_stage
+ON public.leads (workspace_id, stage_id);
+
+-- Stage names are copied so the history still reads after a stage is removed
+CREATE TABLE IF NOT EXISTS public.lead_stage_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  from_stage_id UUID REFERENCES public.lead_stages(id) ON DELETE SET NULL,
+  from_stage_name TEXT,
+  to_stage_id UUID REFERENCES public.lead_stages(id) ON DELETE SET NULL,
+  to_stage_name TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual',
+  campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL,
+  changed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT lead_stage_history_source_check
+    CHECK (source IN ('manual', 'sent', 'accepted', 'replied', 'stage_removed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_stage_history_lead
+ON public.lead_stage_history (lead_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_lead_stage_history_workspace
+ON public.lead_stage_history (workspace_id, created_at DESC);
+
+ALTER TABLE public.lead_stage_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by move_leads_to_stage and the triggers below
+CREATE POLICY "Members can view lead stage history"
+  ON public.lead_stage_history FOR SELECT
+  USING (is_workspace_member(workspace_id));
+
+-- ============================================
+-- Default stages
+-- ============================================
+CREATE OR REPLACE FUNCTION public.default_lead_stages()
+RETURNS TABLE (name text, color text, kind text, auto_events text[], stage_position integer)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  VALUES
+    ('Novo', '#64748b', 'open', '{}'::text[], 0),
+    ('Contatado', '#3b82f6', 'open', '{sent,accepted}'::text[], 1),
+    ('Respondeu', '#8b5cf6', 'open', '{replied}'::text[], 2),
+    ('Reunião', '#f59e0b', 'open', '{}'::text[], 3),
+    ('Cliente', '#22c55e', 'won', '{}'::text[], 4),
+    ('Perdido', '#ef4444', 'lost', '{}'::text[], 5);
+$$;
+
+CREATE OR REPLACE FUNCTION public.seed_workspace_lead_stages()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.lead_stages (workspace_id, name, color, kind, auto_events, position)
+  SELECT NEW.id, d.name, d.color, d.kind, d.auto_events, d.stage_position
+  FROM public.default_lead_stages() d;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS workspaces_seed_lead_stages ON public.workspaces;
+CREATE TRIGGER workspaces_seed_lead_stages
+  AFTER INSERT ON public.workspaces
+  FOR EACH ROW
+  EXECUTE FUNCTION public.seed_workspace_lead_stages();
+
+INSERT INTO public.lead_stages (workspace_id, name, color, kind, auto_events, position)
+SELECT w.id, d.name, d.color, d.kind, d.auto_events, d.stage_position
+FROM public.workspaces w
+CROSS JOIN public.default_lead_stages() d
+WHERE NOT EXISTS (SELECT 1 FROM public.lead_stages s WHERE s.workspace_id = w.id);
+
+-- Last stage bound to the event (the furthest one when several are)
+CREATE OR REPLACE FUNCTION public.lead_stage_for_event(p_workspace_id uuid, p_event text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.lead_stages
+  WHERE workspace_id = p_workspace_id
+    AND p_event = ANY(auto_events)
+  ORDER BY position DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.first_lead_stage(p_workspace_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.lead_stages
+  WHERE workspace_id = p_workspace_id
+  ORDER BY position, created_at
+  LIMIT 1;
+$$;
+
+-- Existing leads start where their campaign history puts them
+WITH lead_events AS (
+  SELECT
+    l.id,
+    l.workspace_id,
+    CASE
+      WHEN bool_or(cl.replied_at IS NOT NULL) THEN 'replied'
+      WHEN bool_or(cl.accepted_at IS NOT NULL) THEN 'accepted'
+      WHEN bool_or(cl.sent_at IS NOT NULL) THEN 'sent'
+    END AS event
+  FROM public.leads l
+  LEFT JOIN public.campaign_leads cl ON cl.lead_id = l.id
+  WHERE l.stage_id IS NULL
+  GROUP BY l.id, l.workspace_id
+)
+UPDATE public.leads l
+SET
+  stage_id = coalesce(
+    public.lead_stage_for_event(e.workspace_id, e.event),
+    public.first_lead_stage(e.workspace_id)
+  ),
+  stage_changed_at = now()
+FROM lead_events e
+WHERE e.id = l.id;
+
+-- New leads enter the first stage
+CREATE OR REPLACE FUNCTION public.set_initial_lead_stage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage_id IS NULL THEN
+    NEW.stage_id := public.first_lead_stage(NEW.workspace_id);
+  END IF;
+  NEW.stage_changed_at := coalesce(NEW.stage_changed_at, now());
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS leads_set_initial_stage ON public.leads;
+CREATE TRIGGER leads_set_initial_stage
+  BEFORE INSERT ON public.leads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_initial_lead_stage();
+
+-- ============================================
+-- Moves
+-- ============================================
+-- Manual move (Kanban, lead drawer); returns how many leads changed stage
+CREATE OR REPLACE FUNCTION public.move_leads_to_stage(p_lead_ids uuid[], p_stage_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage record;
+  v_count integer;
+BEGIN
+  SELECT id, workspace_id, name INTO v_stage
+  FROM lead_stages
+  WHERE id = p_stage_id;
+
+  IF NOT FOUND OR NOT is_workspace_member(v_stage.workspace_id) THEN
+    RAISE EXCEPTION 'Stage not found';
+  END IF;
+
+  WITH moved AS (
+    SELECT l.id, l.stage_id AS from_stage_id, s.name AS from_stage_name
+    FROM leads l
+    LEFT JOIN lead_stages s ON s.id = l.stage_id
+    WHERE l.id = ANY(p_lead_ids)
+      AND l.workspace_id = v_stage.workspace_id
+      AND l.stage_id IS DISTINCT FROM p_stage_id
+    FOR UPDATE OF l
+  ),
+  updated AS (
+    UPDATE leads l
+    SET stage_id = p_stage_id, stage_changed_at = now()
+    FROM moved m
+    WHERE l.id = m.id
+    RETURNING l.id
+  )
+  INSERT INTO lead_stage_history (
+    workspace_id, lead_id, from_stage_id, from_stage_name, to_stage_id, to_stage_name, source, changed_by
+  )
+  SELECT v_stage.workspace_id, m.id, m.from_stage_id, m.from_stage_name, p_stage_id, v_stage.name, 'manual', auth.uid()
+  FROM moved m
+  JOIN updated u ON u.id = m.id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Campaign events: replied > accepted > sent, forward only
+CREATE OR REPLACE FUNCTION public.advance_lead_stage_from_campaign()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event text;
+  v_lead record;
+  v_target record;
+  v_current record;
+BEGIN
+  IF NEW.replied_at IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.replied_at IS NULL) THEN
+    v_event := 'replied';
+  ELSIF NEW.accepted_at IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.accepted_at IS NULL) THEN
+    v_event := 'accepted';
+  ELSIF NEW.sent_at IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.sent_at IS NULL) THEN
+    v_event := 'sent';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  SELECT id, workspace_id, stage_id INTO v_lead
+  FROM leads
+  WHERE id = NEW.lead_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, name, position INTO v_target
+  FROM lead_stages
+  WHERE id = lead_stage_for_event(v_lead.workspace_id, v_event);
+  IF NOT FOUND OR v_target.id = v_lead.stage_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, name, kind, position INTO v_current
+  FROM lead_stages
+  WHERE id = v_lead.stage_id;
+  IF FOUND AND (v_current.kind <> 'open' OR v_current.position >= v_target.position) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE leads
+  SET stage_id = v_target.id, stage_changed_at = now()
+  WHERE id = v_lead.id;
+
+  INSERT INTO lead_stage_history (
+    workspace_id, lead_id, from_stage_id, from_stage_name, to_stage_id, to_stage_name, source, campaign_id
+  )
+  VALUES (
+    v_lead.workspace_id, v_lead.id, v_current.id, v_current.name, v_target.id, v_target.name, v_event, NEW.campaign_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS campaign_leads_advance_lead_stage ON public.campaign_leads;
+CREATE TRIGGER campaign_leads_advance_lead_stage
+  AFTER INSERT OR UPDATE OF sent_at, accepted_at, replied_at ON public.campaign_leads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.advance_lead_stage_from_campaign();
+
+-- Removing a stage moves its leads to the first remaining stage. The last
+-- stage of a workspace can only go away with the workspace itself.
+CREATE OR REPLACE FUNCTION public.reassign_removed_lead_stage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fallback record;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM workspaces WHERE id = OLD.workspace_id) THEN
+    RETURN OLD;
+  END IF;
+
+  SELECT id, name INTO v_fallback
+  FROM lead_stages
+  WHERE workspace_id = OLD.workspace_id AND id <> OLD.id
+  ORDER BY position, created_at
+  LIMIT 1;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'A workspace needs at least one lead stage';
+  END IF;
+
+  WITH updated AS (
+    UPDATE leads
+    SET stage_id = v_fallback.id, stage_changed_at = now()
+    WHERE workspace_id = OLD.workspace_id AND stage_id = OLD.id
+    RETURNING id
+  )
+  INSERT INTO lead_stage_history (
+    workspace_id, lead_id, from_stage_id, from_stage_name, to_stage_id, to_stage_name, source, changed_by
+  )
+  SELECT OLD.workspace_id, u.id, OLD.id, OLD.name, v_fallback.id, v_fallback.name, 'stage_removed', auth.uid()
+  FROM updated u;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lead_stages_reassign_leads ON public.lead_stages;
+CREATE TRIGGER lead_stages_reassign_leads
+  BEFORE DELETE ON public.lead_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reassign_removed_lead_stage();
+
+-- ============================================
+-- Listing: stage filter, stage column and per-stage counts
+-- ============================================
+CREATE OR REPLACE FUNCTION public.filter_leads(p_workspace_id uuid, p_filters jsonb)
+RETURNS SETOF public.leads
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT l.*
+  FROM public.leads l
+  WHERE l.workspace_id = p_workspace_id
+    AND (
+      public.lead_search_query(p_filters->>'search') IS NULL
+      OR l.search_vector @@ public.lead_search_query(p_filters->>'search')
+    )
+    AND (
+      coalesce(p_filters->>'listId', '') = ''
+      OR (p_filters->>'listId' = 'no-list' AND l.list_id IS NULL)
+      OR l.list_id::text = p_filters->>'listId'
+    )
+    AND (coalesce(p_filters->>'stageId', '') = '' OR l.stage_id::text = p_filters->>'stageId')
+    AND (coalesce(p_filters->>'company', '') = '' OR l.company ILIKE '%' || (p_filters->>'company') || '%')
+    AND (coalesce(p_filters->>'jobTitle', '') = '' OR l.job_title ILIKE '%' || (p_filters->>'jobTitle') || '%')
+    AND (coalesce(p_filters->>'industry', '') = '' OR l.industry = p_filters->>'industry')
+    AND (coalesce(p_filters->>'country', '') = '' OR l.country = p_filters->>'country')
+    AND (
+      jsonb_array_length(coalesce(p_filters->'tagIds', '[]'::jsonb)) = 0
+      OR (
+        SELECT count(DISTINCT lt.tag_id)
+        FROM public.lead_tags lt
+        WHERE lt.lead_id = l.id
+          AND lt.tag_id::text IN (SELECT jsonb_array_elements_text(p_filters->'tagIds'))
+      ) = jsonb_array_length(p_filters->'tagIds')
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(coalesce(p_filters->'customFields', '[]'::jsonb)) AS f
+      WHERE NOT coalesce(
+        CASE f->>'op'
+          WHEN 'contains' THEN l.custom_fields->>(f->>'key') ILIKE '%' || (f->>'value') || '%'
+          WHEN 'equals' THEN l.custom_fields->>(f->>'key') = f->>'value'
+          WHEN 'has' THEN l.custom_fields->(f->>'key') @> jsonb_build_array(f->'value')
+          WHEN 'gte' THEN jsonb_typeof(l.custom_fields->(f->>'key')) = jsonb_typeof(f->'value')
+            AND l.custom_fields->(f->>'key') >= f->'value'
+          WHEN 'lte' THEN jsonb_typeof(l.custom_fields->(f->>'key')) = jsonb_typeof(f->'value')
+            AND l.custom_fields->(f->>'key') <= f->'value'
+        END,
+        false
+      )
+    );
+$$;
+
+-- The result columns change (stage_id), so the function is recreated
+DROP FUNCTION IF EXISTS public.search_leads(uuid, jsonb, text, boolean, jsonb, integer);
+
+CREATE OR REPLACE FUNCTION public.search_leads(
+  p_workspace_id uuid,
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_sort text DEFAULT 'created_at',
+  p_ascending boolean DEFAULT false,
+  p_cursor jsonb DEFAULT NULL,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  headline text,
+  company text,
+  company_size text,
+  company_industry text,
+  job_title text,
+  seniority_level text,
+  industry text,
+  city text,
+  state text,
+  country text,
+  email text,
+  phone text,
+  mobile_number text,
+  linkedin_url text,
+  list_id uuid,
+  stage_id uuid,
+  stage_changed_at timestamptz,
+  last_enriched_at timestamptz,
+  in_conversation_at timestamptz,
+  created_at timestamptz,
+  sort_value text
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_key text;
+  v_cursor_value text;
+  v_direction text := CASE WHEN p_ascending THEN 'ASC' ELSE 'DESC' END;
+  v_operator text := CASE WHEN p_ascending THEN '>' ELSE '<' END;
+BEGIN
+  -- Whitelisted sort keys; text columns sort without case and with nulls as ''
+  v_key := CASE p_sort
+    WHEN 'full_name' THEN 'coalesce(lower(l.full_name), '''')'
+    WHEN 'company' THEN 'coalesce(lower(l.company), '''')'
+    WHEN 'job_title' THEN 'coalesce(lower(l.job_title), '''')'
+    ELSE 'l.created_at'
+  END;
+  v_cursor_value := CASE WHEN v_key = 'l.created_at'
+    THEN '($3->>''value'')::timestamptz'
+    ELSE '($3->>''value'')'
+  END;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT l.id, l.full_name, l.headline, l.company, l.company_size, l.company_industry,
+            l.job_title, l.seniority_level, l.industry, l.city, l.state, l.country,
+            l.email, l.phone, l.mobile_number, l.linkedin_url, l.list_id,
+            l.stage_id, l.stage_changed_at,
+            l.last_enriched_at, l.in_conversation_at, l.created_at,
+            (%1$s)::text AS sort_value
+     FROM public.filter_leads($1, $2) l
+     WHERE $3 IS NULL OR (%1$s, l.id) %2$s (%3$s, ($3->>''id'')::uuid)
+     ORDER BY %1$s %4$s, l.id %4$s
+     LIMIT $4',
+    v_key, v_operator, v_cursor_value, v_direction
+  )
+  USING p_workspace_id, coalesce(p_filters, '{}'::jsonb), p_cursor, LEAST(GREATEST(coalesce(p_limit, 50), 1), 200);
+END;
+$$;
+
+-- Kanban column totals and the Dashboard funnel
+CREATE OR REPLACE FUNCTION public.count_leads_by_stage(p_workspace_id uuid, p_filters jsonb DEFAULT '{}'::jsonb)
+RETURNS TABLE (stage_id uuid, lead_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT l.stage_id, count(*)
+  FROM public.filter_leads(p_workspace_id, coalesce(p_filters, '{}'::jsonb)) l
+  GROUP BY l.stage_id;
+$$;
+
+-- ============================================
+-- Stage order
+-- ============================================
+-- The pipeline settings save the whole order at once, in one statement
+CREATE OR REPLACE FUNCTION public.reorder_lead_stages(p_workspace_id uuid, p_stage_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_workspace_admin(p_workspace_id) THEN
+    RAISE EXCEPTION 'Only workspace admins can reorder stages';
+  END IF;
+
+  UPDATE lead_stages s
+  SET position = o.ordinality - 1
+  FROM unnest(p_stage_ids) WITH ORDINALITY AS o(id, ordinality)
+  WHERE s.id = o.id
+    AND s.workspace_id = p_workspace_id;
+END;
+$$;
+
+-- ============================================
+-- Merges keep the stage history
+-- ============================================
+-- lead_stage_history cascades on lead delete, so merge_leads moves the
+-- merged lead's history to the surviving lead before deleting it
+CREATE OR REPLACE FUNCTION public.merge_leads(
+  p_surviving_lead_id uuid,
+  p_merged_lead_id uuid,
+  p_fields text[] DEFAULT '{}'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workspace_id UUID;
+  v_merged JSONB;
+  v_fields TEXT[];
+  v_set TEXT;
+  v_dropped UUID[];
+  v_kept UUID[];
+BEGIN
+  IF p_surviving_lead_id = p_merged_lead_id THEN
+    RAISE EXCEPTION 'Cannot merge a lead into itself';
+  END IF;
+
+  SELECT workspace_id INTO v_workspace_id
+  FROM leads
+  WHERE id = p_surviving_lead_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_workspace_member(v_workspace_id) THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  SELECT to_jsonb(l) INTO v_merged
+  FROM leads l
+  WHERE l.id = p_merged_lead_id AND l.workspace_id = v_workspace_id
+  FOR UPDATE;
+
+  IF v_merged IS NULL THEN
+    RAISE EXCEPTION 'Lead to merge not found in this workspace';
+  END IF;
+
+  -- Only real, writable lead columns can be taken from the merged lead
+  SELECT COALESCE(array_agg(c.column_name::text ORDER BY c.ordinal_position), '{}')
+  INTO v_fields
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = 'leads'
+    AND c.is_generated = 'NEVER'
+    AND c.column_name::text = ANY(p_fields)
+    AND c.column_name::text NOT IN ('id', 'workspace_id', 'created_at', 'updated_at', 'custom_fields');
+
+  -- ---------- campaign_leads ----------
+  -- Both leads in the same campaign: keep the row that got further. A pending
+  -- surviving row gives way to the merged lead's row; otherwise the merged
+  -- lead's row goes. The dropped row's events and send attempts (idempotency
+  -- keys included) move to the kept row first, so deleting it cascades nothing.
+  SELECT
+    array_agg(CASE WHEN s.status = 'pending' AND m.status <> 'pending' THEN s.id ELSE m.id END),
+    array_agg(CASE WHEN s.status = 'pending' AND m.status <> 'pending' THEN m.id ELSE s.id END)
+  INTO v_dropped, v_kept
+  FROM campaign_leads s
+  JOIN campaign_leads m ON m.campaign_id = s.campaign_id
+  WHERE s.lead_id = p_surviving_lead_id
+    AND m.lead_id = p_merged_lead_id;
+
+  IF v_dropped IS NOT NULL THEN
+    UPDATE campaign_events e SET campaign_lead_id = p.kept_id
+    FROM unnest(v_dropped, v_kept) AS p(dropped_id, kept_id)
+    WHERE e.campaign_lead_id = p.dropped_id;
+
+    UPDATE campaign_send_attempts a SET campaign_lead_id = p.kept_id
+    FROM unnest(v_dropped, v_kept) AS p(dropped_id, kept_id)
+    WHERE a.campaign_lead_id = p.dropped_id;
+
+    UPDATE unipile_events u SET campaign_lead_id = p.kept_id
+    FROM unnest(v_dropped, v_kept) AS p(dropped_id, kept_id)
+    WHERE u.campaign_lead_id = p.dropped_id;
+
+    DELETE FROM campaign_leads WHERE id = ANY(v_dropped);
+  END IF;
+
+  UPDATE campaign_leads SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+
+  -- ---------- lead_tags ----------
+  INSERT INTO lead_tags (lead_id, tag_id)
+  SELECT p_surviving_lead_id, tag_id
+  FROM lead_tags
+  WHERE lead_id = p_merged_lead_id
+  ON CONFLICT (lead_id, tag_id) DO NOTHING;
+
+  -- ---------- activity and enrichment history ----------
+  UPDATE engagement_actions SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE linkedin_profiles SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE enrichment_jobs
+  SET lead_ids = array_replace(lead_ids, p_merged_lead_id, p_surviving_lead_id)
+  WHERE workspace_id = v_workspace_id AND p_merged_lead_id = ANY(lead_ids);
+  UPDATE chats SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE notifications SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE snippet_usages SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE suppression_list SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE unipile_events SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+  UPDATE lead_stage_history SET lead_id = p_surviving_lead_id WHERE lead_id = p_merged_lead_id;
+
+  -- Merge audit rows pointing at the merged lead follow the survivor too
+  UPDATE lead_merges SET surviving_lead_id = p_surviving_lead_id WHERE surviving_lead_id = p_merged_lead_id;
+
+  INSERT INTO lead_merges (workspace_id, surviving_lead_id, merged_lead_id, merged_lead, fields_taken, merged_by)
+  VALUES (v_workspace_id, p_surviving_lead_id, p_merged_lead_id, v_merged - 'search_vector', v_fields, auth.uid());
+
+  -- Deleted before copying its values: email and linkedin_url are unique per workspace
+  DELETE FROM leads WHERE id = p_merged_lead_id;
+
+  IF array_length(v_fields, 1) > 0 THEN
+    SELECT string_agg(format('%I = m.%I', f, f), ', ')
+    INTO v_set
+    FROM unnest(v_fields) AS f;
+
+    EXECUTE format(
+      'UPDATE leads l SET %s FROM jsonb_populate_record(NULL::leads, $1) m WHERE l.id = $2',
+      v_set
+    )
+    USING v_merged, p_surviving_lead_id;
+  END IF;
+
+  UPDATE leads
+  SET custom_fields = CASE
+    WHEN 'custom_fields' = ANY(p_fields)
+      THEN custom_fields || COALESCE(v_merged->'custom_fields', '{}'::jsonb)
+    ELSE COALESCE(v_merged->'custom_fields', '{}'::jsonb) || custom_fields
+  END
+  WHERE id = p_surviving_lead_id;
+
+  RETURN p_surviving_lead_id;
+END;
+$$;
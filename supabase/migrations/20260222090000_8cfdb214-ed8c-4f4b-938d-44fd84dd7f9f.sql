@@ -0,0 +1,74 @@
+-- ============================================
+-- Campaign lead pickers on filter_leads
+-- ============================================
+-- The campaign form, the "add leads" panel of a running campaign and the
+-- dynamic audience preview now list and count leads through search_leads /
+-- count_leads instead of loading every lead of the workspace. New filter keys:
+--   tagMatch: 'any' matches leads with at least one of tagIds (default: all)
+--   channel: 'email' | 'whatsapp' | 'linkedin', leads with the contact the
+--            channel sends to (email, mobile_number, linkedin_url)
+--   excludeCampaignId: leaves out leads already in that campaign
+
+CREATE OR REPLACE FUNCTION public.filter_leads(p_workspace_id uuid, p_filters jsonb)
+RETURNS SETOF public.leads
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT l.*
+  FROM public.leads l
+  WHERE l.workspace_id = p_workspace_id
+    AND (
+      public.lead_search_query(p_filters->>'search') IS NULL
+      OR l.search_vector @@ public.lead_search_query(p_filters->>'search')
+    )
+    AND (
+      coalesce(p_filters->>'listId', '') = ''
+      OR (p_filters->>'listId' = 'no-list' AND l.list_id IS NULL)
+      OR l.list_id::text = p_filters->>'listId'
+    )
+    AND (coalesce(p_filters->>'stageId', '') = '' OR l.stage_id::text = p_filters->>'stageId')
+    AND (coalesce(p_filters->>'company', '') = '' OR l.company ILIKE '%' || (p_filters->>'company') || '%')
+    AND (coalesce(p_filters->>'jobTitle', '') = '' OR l.job_title ILIKE '%' || (p_filters->>'jobTitle') || '%')
+    AND (coalesce(p_filters->>'industry', '') = '' OR l.industry = p_filters->>'industry')
+    AND (coalesce(p_filters->>'country', '') = '' OR l.country = p_filters->>'country')
+    AND (
+      jsonb_array_length(coalesce(p_filters->'tagIds', '[]'::jsonb)) = 0
+      OR (
+        SELECT count(DISTINCT lt.tag_id)
+        FROM public.lead_tags lt
+        WHERE lt.lead_id = l.id
+          AND lt.tag_id::text IN (SELECT jsonb_array_elements_text(p_filters->'tagIds'))
+      ) >= CASE WHEN p_filters->>'tagMatch' = 'any' THEN 1 ELSE jsonb_array_length(p_filters->'tagIds') END
+    )
+    AND (
+      coalesce(p_filters->>'channel', '') = ''
+      OR (p_filters->>'channel' = 'email' AND coalesce(l.email, '') <> '')
+      OR (p_filters->>'channel' = 'whatsapp' AND coalesce(l.mobile_number, '') <> '')
+      OR (p_filters->>'channel' = 'linkedin' AND coalesce(l.linkedin_url, '') <> '')
+    )
+    AND (
+      coalesce(p_filters->>'excludeCampaignId', '') = ''
+      OR NOT EXISTS (
+        SELECT 1
+        FROM public.campaign_leads cl
+        WHERE cl.campaign_id::text = p_filters->>'excludeCampaignId'
+          AND cl.lead_id = l.id
+      )
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(coalesce(p_filters->'customFields', '[]'::jsonb)) AS f
+      WHERE NOT coalesce(
+        CASE f->>'op'
+          WHEN 'contains' THEN l.custom_fields->>(f->>'key') ILIKE '%' || (f->>'value') || '%'
+          WHEN 'equals' THEN l.custom_fields->>(f->>'key') = f->>'value'
+          WHEN 'has' THEN l.custom_fields->(f->>'key') @> jsonb_build_array(f->'value')
+          WHEN 'gte' THEN jsonb_typeof(l.custom_fields->(f->>'key')) = jsonb_typeof(f->'value')
+            AND l.custom_fields->(f->>'key') >= f->'value'
+          WHEN 'lte' THEN jsonb_typeof(l.custom_fields->(f->>'key')) = jsonb_typeof(f->'value')
+            AND l.custom_fields->(f->>'key') <= f->'value'
+        END,
+        false
+      )
+    );
+$$;